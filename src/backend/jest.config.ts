@@ -19,7 +19,8 @@ const config: Config.InitialOptions = {
     '^@auth/(.*)$': '<rootDir>/packages/auth-service/src/$1',
     '^@listing/(.*)$': '<rootDir>/packages/listing-service/src/$1',
     '^@payment/(.*)$': '<rootDir>/packages/payment-service/src/$1',
-    '^@notification/(.*)$': '<rootDir>/packages/notification-service/src/$1'
+    '^@notification/(.*)$': '<rootDir>/packages/notification-service/src/$1',
+    '^@messaging/(.*)$': '<rootDir>/packages/messaging-service/src/$1'
   },
 
   // Coverage collection configuration
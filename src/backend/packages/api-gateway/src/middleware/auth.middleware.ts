@@ -7,9 +7,15 @@
 
 import { Request, Response, NextFunction } from 'express'; // ^4.18.2
 import winston from 'winston'; // ^3.8.2
+import Redis from 'ioredis'; // v5.3.2
 import { UnauthorizedError, ForbiddenError } from '@projectx/common';
-import { verifyToken } from '@projectx/auth-service';
+import {
+  verifyToken,
+  REVOKED_SESSION_KEY_PREFIX,
+  VERIFIED_EMAIL_KEY_PREFIX
+} from '@projectx/auth-service';
 import { UserRole } from '@projectx/common';
+import { redis as redisConfig } from '../config';
 
 // Configure security event logger
 const logger = winston.createLogger({
@@ -25,6 +31,12 @@ const logger = winston.createLogger({
   ]
 });
 
+// Session revocation list and email verification flags written by auth-service
+const redisClient = new Redis({
+  ...redisConfig,
+  retryStrategy: (times: number) => Math.min(times * 50, 2000)
+});
+
 /**
  * Extended Request interface to include authenticated user context
  */
@@ -34,6 +46,8 @@ interface AuthenticatedRequest extends Request {
     email: string;
     role: UserRole;
     tokenVersion: string;
+    sessionId?: string;
+    emailVerified?: boolean;
   };
   requestId: string;
   startTime: number;
@@ -42,6 +56,7 @@ interface AuthenticatedRequest extends Request {
 /**
  * Enhanced authentication middleware that validates JWT tokens and attaches user context
  * @throws UnauthorizedError for invalid or missing tokens
+ * @throws ForbiddenError with code MFA_SETUP_REQUIRED for sessions limited to MFA enrollment
  */
 export const authenticate = async (
   req: AuthenticatedRequest,
@@ -81,12 +96,28 @@ export const authenticate = async (
       throw new UnauthorizedError('Invalid token claims');
     }
 
+    // Reject tokens of sessions that were signed out before the token expired
+    if (decoded.sessionId &&
+      await redisClient.exists(`${REVOKED_SESSION_KEY_PREFIX}${decoded.sessionId}`)) {
+      throw new UnauthorizedError('Session has been signed out');
+    }
+
+    // Roles that enforce MFA must enroll through auth-service before using the API
+    if (decoded.mfaSetupRequired) {
+      throw new ForbiddenError('Set up two-factor authentication to continue', {
+        code: 'MFA_SETUP_REQUIRED'
+      });
+    }
+
     // Attach user context to request
     req.user = {
       id: decoded.sub,
       email: decoded.email,
       role: decoded.role,
-      tokenVersion: decoded.tokenVersion
+      tokenVersion: decoded.tokenVersion,
+      sessionId: decoded.sessionId,
+      // Tokens issued before this claim existed belong to verified accounts
+      emailVerified: decoded.emailVerified !== false
     };
 
     // Log successful authentication
@@ -107,7 +138,7 @@ export const authenticate = async (
       duration: Date.now() - req.startTime
     });
 
-    if (error instanceof UnauthorizedError) {
+    if (error instanceof UnauthorizedError || error instanceof ForbiddenError) {
       next(error);
     } else {
       next(new UnauthorizedError('Authentication failed'));
@@ -119,8 +150,10 @@ export const authenticate = async (
  * Role hierarchy for authorization checks
  */
 const ROLE_HIERARCHY: Record<UserRole, UserRole[]> = {
-  [UserRole.ADMIN]: [UserRole.ADMIN, UserRole.PROPERTY_MANAGER, UserRole.AGENT, UserRole.RENTER],
+  [UserRole.ADMIN]: [UserRole.ADMIN, UserRole.PROPERTY_MANAGER, UserRole.OWNER, UserRole.AGENT, UserRole.RENTER],
   [UserRole.PROPERTY_MANAGER]: [UserRole.PROPERTY_MANAGER, UserRole.AGENT, UserRole.RENTER],
+  // Owners only read their own properties; they do not inherit staff access
+  [UserRole.OWNER]: [UserRole.OWNER],
   [UserRole.AGENT]: [UserRole.AGENT, UserRole.RENTER],
   [UserRole.RENTER]: [UserRole.RENTER]
 };
@@ -183,6 +216,43 @@ export const authorize = (allowedRoles: UserRole[]) => {
     }
   };
 };
+
+/**
+ * Rejects users who have not verified their email address. Users who verified
+ * after their access token was issued are recognised through auth-service's flag.
+ * @throws ForbiddenError with code EMAIL_NOT_VERIFIED
+ */
+export const requireVerifiedEmail = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new ForbiddenError('User context not found');
+    }
+
+    if (!req.user.emailVerified &&
+      !await redisClient.exists(`${VERIFIED_EMAIL_KEY_PREFIX}${req.user.id}`)) {
+      logger.info('Unverified email blocked', {
+        requestId: req.requestId,
+        userId: req.user.id,
+        path: req.path
+      });
+      throw new ForbiddenError('Verify your email address to continue', {
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    next();
+  } catch (error) {
+    if (error instanceof ForbiddenError) {
+      next(error);
+    } else {
+      next(new ForbiddenError('Email verification check failed'));
+    }
+  }
+};
 ```
 
 This implementation provides:
@@ -13,7 +13,7 @@ import promClient from 'prom-client'; // ^14.2.0
 import CircuitBreaker from 'opossum'; // ^7.1.0
 
 // Internal imports
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authenticate, authorize, requireVerifiedEmail } from '../middleware/auth.middleware';
 import { errorHandler } from '../middleware/error.middleware';
 import { rateLimitMiddleware } from '../middleware/ratelimit.middleware';
 import config from '../config';
@@ -123,19 +123,64 @@ export const configureRoutes = (app: Express): void => {
     require('./property.routes')
   );
 
-  // Application routes with role-based authorization
+  // Saved searches and listing alerts for renters. One-click unsubscribe skips
+  // authentication; the signed token is the credential
+  apiRouter.use('/saved-searches',
+    rateLimitMiddleware,
+    express.Router()
+      .post('/unsubscribe', (_req: Request, _res: Response, next: NextFunction) => next('router'))
+      .use(authenticate, authorize(['ADMIN', 'RENTER'])),
+    require('./saved-search.routes')
+  );
+
+  // Application routes with role-based authorization; submitting needs a verified email
   apiRouter.use('/applications',
     rateLimitMiddleware,
     authenticate,
     authorize(['ADMIN', 'PROPERTY_MANAGER', 'AGENT', 'RENTER']),
+    express.Router().post('/:id/submit', requireVerifiedEmail),
     require('./application.routes')
   );
 
-  // Payment routes with enhanced security
-  apiRouter.use('/payments',
+  // Lease routes for property staff, owners and tenants
+  apiRouter.use('/leases',
+    rateLimitMiddleware,
+    authenticate,
+    authorize(['ADMIN', 'PROPERTY_MANAGER', 'OWNER', 'RENTER']),
+    require('./lease.routes')
+  );
+
+  // Tour scheduling routes for renters and property staff
+  apiRouter.use('/tours',
+    rateLimitMiddleware,
+    authenticate,
+    authorize(['ADMIN', 'PROPERTY_MANAGER', 'AGENT', 'RENTER']),
+    require('./tour.routes')
+  );
+
+  // Maintenance routes for tenants and property staff
+  apiRouter.use('/maintenance',
     rateLimitMiddleware,
     authenticate,
     authorize(['ADMIN', 'PROPERTY_MANAGER', 'RENTER']),
+    require('./maintenance.routes')
+  );
+
+  // Messaging routes between renters, owners and property staff
+  apiRouter.use('/messages',
+    rateLimitMiddleware,
+    authenticate,
+    authorize(['ADMIN', 'PROPERTY_MANAGER', 'OWNER', 'AGENT', 'RENTER']),
+    require('./message.routes')
+  );
+
+  // Payment routes with enhanced security; owners reach their dashboard and statements.
+  // Making a payment needs a verified email
+  apiRouter.use('/payments',
+    rateLimitMiddleware,
+    authenticate,
+    authorize(['ADMIN', 'PROPERTY_MANAGER', 'OWNER', 'RENTER']),
+    express.Router().post(['/', '/:id/process', '/:id/recurring'], requireVerifiedEmail),
     require('./payment.routes')
   );
 
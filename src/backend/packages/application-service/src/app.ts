@@ -10,14 +10,23 @@ import helmet from 'helmet'; // v7.0.0
 import compression from 'compression'; // v1.7.4
 import { rateLimit } from 'express-rate-limit'; // v6.9.0
 import timeout from 'express-timeout-handler'; // v2.2.2
+import { getCustomRepository } from 'typeorm'; // typeorm v0.3.17
 
 import { config } from './config';
 import applicationRouter from './routes/application.routes';
+import leaseRouter from './routes/lease.routes';
+import maintenanceRouter from './routes/maintenance.routes';
+import tourRouter from './routes/tour.routes';
+import screeningRouter from './routes/screening.routes';
+import householdRouter from './routes/household.routes';
+import { TourService } from './services/tour.service';
+import { TourRepository } from './repositories/tour.repository';
 import { 
   logger, 
   errorHandler, 
   healthCheck 
 } from '@common/middleware';
+import { NotificationClient } from '@common/clients';
 
 // Initialize Express application
 const app: Express = express();
@@ -118,6 +127,11 @@ const configureRoutes = (app: Express): void => {
 
   // API routes
   app.use('/api/v1/applications', applicationRouter);
+  app.use('/api/v1/leases', leaseRouter);
+  app.use('/api/v1/maintenance', maintenanceRouter);
+  app.use('/api/v1/tours', tourRouter);
+  app.use('/api/v1/screening', screeningRouter);
+  app.use('/api/v1/households', householdRouter);
 
   // 404 handler
   app.use((req: Request, res: Response) => {
@@ -131,6 +145,26 @@ const configureRoutes = (app: Express): void => {
   app.use(errorHandler());
 };
 
+/**
+ * Periodically sends reminders for upcoming tours
+ * @returns Interval handle cleared on shutdown
+ */
+const startTourReminders = (): NodeJS.Timeout => {
+  const tourService = new TourService(
+    getCustomRepository(TourRepository),
+    new NotificationClient(logger, config.notification),
+    logger
+  );
+
+  return setInterval(() => {
+    tourService.sendDueReminders().catch((error) => {
+      logger.error('Tour reminder sweep failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+  }, config.tour.reminderIntervalMs);
+};
+
 /**
  * Starts the Express server with proper error handling and graceful shutdown
  * @param app Express application instance
@@ -155,10 +189,13 @@ const startServer = async (app: Express): Promise<void> => {
       });
     });
 
+    const tourReminders = startTourReminders();
+
     // Graceful shutdown handler
     const shutdown = async () => {
       logger.info('Shutting down application service...');
-      
+      clearInterval(tourReminders);
+
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
@@ -79,13 +79,22 @@ const documentConfigSchema = z.object({
 const notificationConfigSchema = z.object({
   enabled: z.boolean(),
   provider: z.string().min(1),
+  serviceUrl: z.string().url(),
+  tenantId: z.string().min(1),
   applicationTopic: z.string().min(1),
   emailEnabled: z.boolean(),
   smsEnabled: z.boolean(),
   templates: z.object({
     applicationSubmitted: z.string().min(1),
     applicationApproved: z.string().min(1),
-    applicationRejected: z.string().min(1)
+    applicationRejected: z.string().min(1),
+    leaseSignatureRequested: z.string().min(1),
+    leaseSigned: z.string().min(1),
+    leaseExecuted: z.string().min(1),
+    maintenanceUpdated: z.string().min(1),
+    tourBooked: z.string().min(1),
+    tourCancelled: z.string().min(1),
+    tourReminder: z.string().min(1)
   }),
   retryConfig: z.object({
     maxAttempts: z.number().int().positive(),
@@ -93,6 +102,31 @@ const notificationConfigSchema = z.object({
   })
 });
 
+/**
+ * Maintenance configuration schema validation
+ */
+const maintenanceConfigSchema = z.object({
+  maxPhotos: z.number().int().positive(),
+  maxPhotoSize: z.number().int().positive(),
+  allowedPhotoTypes: z.array(z.string()),
+  entryNoticeHours: z.number().int().nonnegative(),
+  maxEntryWindowHours: z.number().int().positive()
+});
+
+/**
+ * Tour configuration schema validation
+ */
+const tourConfigSchema = z.object({
+  minSlotMinutes: z.number().int().positive(),
+  maxSlotMinutes: z.number().int().positive(),
+  maxSlotCapacity: z.number().int().positive(),
+  maxSlotsPerRequest: z.number().int().positive(),
+  bookingCutoffMinutes: z.number().int().nonnegative(),
+  reminderLeadHours: z.number().int().positive(),
+  reminderIntervalMs: z.number().int().positive(),
+  organizerEmail: z.string().email()
+});
+
 /**
  * Service configuration object
  */
@@ -146,13 +180,24 @@ export const DOCUMENT_CONFIG = {
 export const NOTIFICATION_CONFIG = {
   enabled: process.env.NOTIFICATIONS_ENABLED === 'true',
   provider: process.env.NOTIFICATION_PROVIDER || 'sns',
+  serviceUrl: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3005',
+  tenantId: process.env.NOTIFICATION_TENANT_ID || 'projectx',
   applicationTopic: process.env.APPLICATION_NOTIFICATION_TOPIC,
   emailEnabled: process.env.EMAIL_NOTIFICATIONS_ENABLED === 'true',
   smsEnabled: process.env.SMS_NOTIFICATIONS_ENABLED === 'true',
   templates: {
     applicationSubmitted: process.env.TEMPLATE_APPLICATION_SUBMITTED,
     applicationApproved: process.env.TEMPLATE_APPLICATION_APPROVED,
-    applicationRejected: process.env.TEMPLATE_APPLICATION_REJECTED
+    applicationRejected: process.env.TEMPLATE_APPLICATION_REJECTED,
+    leaseSignatureRequested: process.env.TEMPLATE_LEASE_SIGNATURE_REQUESTED || 'lease-signature-requested',
+    leaseSigned: process.env.TEMPLATE_LEASE_SIGNED || 'lease-signed',
+    leaseExecuted: process.env.TEMPLATE_LEASE_EXECUTED || 'lease-executed',
+    maintenanceUpdated: process.env.TEMPLATE_MAINTENANCE_UPDATED || 'maintenance-updated',
+    tourBooked: process.env.TEMPLATE_TOUR_BOOKED || 'tour-booked',
+    tourCancelled: process.env.TEMPLATE_TOUR_CANCELLED || 'tour-cancelled',
+    tourReminder: process.env.TEMPLATE_TOUR_REMINDER || 'tour-reminder',
+    householdInvitation: process.env.TEMPLATE_HOUSEHOLD_INVITATION || 'household-invitation',
+    householdUpdated: process.env.TEMPLATE_HOUSEHOLD_UPDATED || 'household-updated'
   },
   retryConfig: {
     maxAttempts: parseInt(process.env.NOTIFICATION_RETRY_ATTEMPTS, 10) || 3,
@@ -160,6 +205,64 @@ export const NOTIFICATION_CONFIG = {
   }
 } as const;
 
+/**
+ * Maintenance configuration object
+ */
+export const MAINTENANCE_CONFIG = {
+  maxPhotos: parseInt(process.env.MAINTENANCE_MAX_PHOTOS, 10) || 5,
+  maxPhotoSize: 10 * 1024 * 1024, // 10MB
+  allowedPhotoTypes: ['image/jpeg', 'image/png'],
+  // Notice owed to the tenant before entry; EMERGENCY requests bypass it
+  entryNoticeHours: parseInt(process.env.MAINTENANCE_ENTRY_NOTICE_HOURS, 10) || 24,
+  maxEntryWindowHours: parseInt(process.env.MAINTENANCE_MAX_ENTRY_WINDOW_HOURS, 10) || 8
+} as const;
+
+/**
+ * Tour configuration object
+ */
+export const TOUR_CONFIG = {
+  minSlotMinutes: 15,
+  maxSlotMinutes: 240,
+  maxSlotCapacity: parseInt(process.env.TOUR_MAX_SLOT_CAPACITY, 10) || 10,
+  maxSlotsPerRequest: 50,
+  // Renters cannot book a slot starting sooner than this
+  bookingCutoffMinutes: parseInt(process.env.TOUR_BOOKING_CUTOFF_MINUTES, 10) || 60,
+  reminderLeadHours: parseInt(process.env.TOUR_REMINDER_LEAD_HOURS, 10) || 24,
+  reminderIntervalMs: parseInt(process.env.TOUR_REMINDER_INTERVAL_MS, 10) || 5 * 60 * 1000,
+  organizerEmail: process.env.TOUR_ORGANIZER_EMAIL || 'tours@projectx.com'
+} as const;
+
+/**
+ * Screening configuration object
+ */
+export const SCREENING_CONFIG = {
+  // Applied to properties that have not configured their own criteria
+  defaultCriteria: {
+    incomeMultiple: VERIFICATION_CONFIG.incomeMultiplier,
+    minCreditScore: VERIFICATION_CONFIG.creditScoreThreshold,
+    maxEvictions: null,
+    evictionLookbackYears: 7,
+    allowCoSigner: true,
+    coSignerIncomeMultiple: null
+  },
+  incomeMultipleRange: { min: 1, max: 4 },
+  coSignerIncomeMultipleRange: { min: 1, max: 6 },
+  creditScoreRange: { min: 300, max: 850 },
+  // Consumer reports may not include evictions older than seven years
+  maxEvictionLookbackYears: 7
+} as const;
+
+/**
+ * Household application configuration object
+ */
+export const HOUSEHOLD_CONFIG = {
+  // Co-applicants and guarantors combined, excluding the primary applicant
+  maxParticipants: parseInt(process.env.HOUSEHOLD_MAX_PARTICIPANTS, 10) || 6,
+  inviteTtlHours: parseInt(process.env.HOUSEHOLD_INVITE_TTL_HOURS, 10) || 7 * 24,
+  inviteUrl: process.env.HOUSEHOLD_INVITE_URL || 'https://app.projectx.com/applications/join',
+  maxDocuments: 10
+} as const;
+
 /**
  * Validates configuration values against schemas
  * @param config Configuration object to validate
@@ -171,6 +274,8 @@ export const validateConfig = (config: any): boolean => {
     verificationConfigSchema.parse(config.verification);
     documentConfigSchema.parse(config.document);
     notificationConfigSchema.parse(config.notification);
+    maintenanceConfigSchema.parse(config.maintenance);
+    tourConfigSchema.parse(config.tour);
 
     // Validate required environment variables
     if (!config.document.bucketName) {
@@ -208,7 +313,11 @@ export const loadConfig = () => {
       service: APPLICATION_SERVICE_CONFIG,
       verification: VERIFICATION_CONFIG,
       document: DOCUMENT_CONFIG,
-      notification: NOTIFICATION_CONFIG
+      notification: NOTIFICATION_CONFIG,
+      maintenance: MAINTENANCE_CONFIG,
+      tour: TOUR_CONFIG,
+      screening: SCREENING_CONFIG,
+      household: HOUSEHOLD_CONFIG
     };
 
     validateConfig(config);
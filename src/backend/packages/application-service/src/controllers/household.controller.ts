@@ -0,0 +1,193 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import {
+  HouseholdService,
+  HouseholdActor,
+  Household,
+  InviteParticipantInput,
+  SubmitParticipantDetailsInput
+} from '../services/household.service';
+import { ApplicationParticipant } from '../models/household.model';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+import { TransformInterceptor } from '../interceptors/transform.interceptor';
+
+/**
+ * Controller handling co-applicant and guarantor HTTP endpoints
+ */
+@Controller('households')
+@ApiTags('households')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(LoggingInterceptor, TransformInterceptor)
+export class HouseholdController {
+  private readonly logger = new Logger(HouseholdController.name);
+
+  constructor(private readonly householdService: HouseholdService) {}
+
+  /**
+   * Invites a co-applicant or guarantor to an application
+   * @param applicationId - Application identifier
+   * @param input - Invitee email and role
+   * @param actor - Primary applicant
+   * @returns Promise resolving to invited participant
+   */
+  @Post('applications/:applicationId/participants')
+  @ApiOperation({ summary: 'Invite co-applicant or guarantor' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 409, description: 'Email already invited' })
+  async inviteParticipant(
+    @Param('applicationId') applicationId: string,
+    @Body() input: InviteParticipantInput,
+    actor: HouseholdActor
+  ): Promise<ApplicationParticipant> {
+    try {
+      return await this.householdService.inviteParticipant(applicationId, input, actor);
+    } catch (error) {
+      this.logger.error('Failed to invite participant', { error: error.message, applicationId });
+      throw this.mapError(error, 'Failed to invite participant');
+    }
+  }
+
+  /**
+   * Retrieves an application's household
+   * @param applicationId - Application identifier
+   * @param actor - Household member or property staff
+   * @returns Promise resolving to household
+   */
+  @Get('applications/:applicationId')
+  @ApiOperation({ summary: 'Get application household' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  async getHousehold(
+    @Param('applicationId') applicationId: string,
+    actor: HouseholdActor
+  ): Promise<Household> {
+    try {
+      return await this.householdService.getHousehold(applicationId, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve household');
+    }
+  }
+
+  /**
+   * Removes a participant from an application
+   * @param applicationId - Application identifier
+   * @param participantId - Participant identifier
+   * @param actor - Primary applicant
+   */
+  @Delete('applications/:applicationId/participants/:participantId')
+  @ApiOperation({ summary: 'Remove co-applicant or guarantor' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiParam({ name: 'participantId', description: 'Participant ID' })
+  async removeParticipant(
+    @Param('applicationId') applicationId: string,
+    @Param('participantId') participantId: string,
+    actor: HouseholdActor
+  ): Promise<void> {
+    try {
+      await this.householdService.removeParticipant(applicationId, participantId, actor);
+    } catch (error) {
+      this.logger.error('Failed to remove participant', { error: error.message, participantId });
+      throw this.mapError(error, 'Failed to remove participant');
+    }
+  }
+
+  /**
+   * Accepts an invitation
+   * @param token - Emailed invitation token
+   * @param actor - Invited user
+   * @returns Promise resolving to accepted participant
+   */
+  @Post('invitations/accept')
+  @ApiOperation({ summary: 'Accept household invitation' })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  async acceptInvitation(
+    @Body('token') token: string,
+    actor: HouseholdActor
+  ): Promise<ApplicationParticipant> {
+    try {
+      return await this.householdService.acceptInvitation(token, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to accept invitation');
+    }
+  }
+
+  /**
+   * Declines an invitation
+   * @param token - Emailed invitation token
+   * @param actor - Invited user
+   */
+  @Post('invitations/decline')
+  @ApiOperation({ summary: 'Decline household invitation' })
+  async declineInvitation(
+    @Body('token') token: string,
+    actor: HouseholdActor
+  ): Promise<void> {
+    try {
+      await this.householdService.declineInvitation(token, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to decline invitation');
+    }
+  }
+
+  /**
+   * Completes a participant's income, employment and documents
+   * @param participantId - Participant identifier
+   * @param input - Completed details
+   * @param actor - The participant
+   * @returns Promise resolving to participant with verification outcome
+   */
+  @Put('participants/:participantId')
+  @ApiOperation({ summary: 'Submit participant details' })
+  @ApiParam({ name: 'participantId', description: 'Participant ID' })
+  async submitDetails(
+    @Param('participantId') participantId: string,
+    @Body() input: SubmitParticipantDetailsInput,
+    actor: HouseholdActor
+  ): Promise<ApplicationParticipant> {
+    try {
+      return await this.householdService.submitDetails(participantId, input, actor);
+    } catch (error) {
+      this.logger.error('Failed to submit participant details', { error: error.message, participantId });
+      throw this.mapError(error, 'Failed to submit participant details');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
@@ -0,0 +1,270 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import { LeaseService, LeaseActor, CreateLeaseDraftInput } from '../services/lease.service';
+import {
+  LeaseSigningService,
+  LeaseSigningStatus,
+  SigningContext
+} from '../services/lease-signing.service';
+import { Lease, LeaseDocument } from '../models/lease.model';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+import { TransformInterceptor } from '../interceptors/transform.interceptor';
+
+/**
+ * Controller handling lease HTTP endpoints from drafting through termination
+ */
+@Controller('leases')
+@ApiTags('leases')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(LoggingInterceptor, TransformInterceptor)
+export class LeaseController {
+  private readonly logger = new Logger(LeaseController.name);
+
+  constructor(
+    private readonly leaseService: LeaseService,
+    private readonly leaseSigningService: LeaseSigningService
+  ) {}
+
+  /**
+   * Creates a draft lease from an approved application
+   * @param input - Lease drafting details
+   * @param actor - Acting property staff
+   * @returns Promise resolving to created draft lease
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create draft lease from approved application' })
+  @ApiResponse({ status: 201, description: 'Lease created successfully' })
+  @ApiResponse({ status: 400, description: 'Application not approved or invalid term' })
+  @ApiResponse({ status: 403, description: 'Not property staff' })
+  @ApiResponse({ status: 409, description: 'Lease already exists for application' })
+  async createLease(
+    @Body() input: CreateLeaseDraftInput,
+    actor: LeaseActor
+  ): Promise<Lease> {
+    try {
+      return await this.leaseService.createDraftFromApplication(input, actor);
+    } catch (error) {
+      this.logger.error('Failed to create lease', {
+        error: error.message,
+        applicationId: input.applicationId
+      });
+      throw this.mapError(error, 'Failed to create lease');
+    }
+  }
+
+  /**
+   * Retrieves lease by ID
+   * @param id - Lease identifier
+   * @param actor - Acting lease party or property staff
+   * @returns Promise resolving to lease details
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get lease by ID' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  @ApiResponse({ status: 200, description: 'Lease retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Not a lease party or property staff' })
+  @ApiResponse({ status: 404, description: 'Lease not found' })
+  async getLease(@Param('id') id: string, actor: LeaseActor): Promise<Lease> {
+    try {
+      return await this.leaseService.getLeaseById(id, actor);
+    } catch (error) {
+      this.logger.error('Failed to retrieve lease', { error: error.message, leaseId: id });
+      if (error instanceof ForbiddenException) {
+        throw error;
+      }
+      throw new NotFoundException('Lease not found');
+    }
+  }
+
+  /**
+   * Sends a draft lease to its parties for signature
+   * @param id - Lease identifier
+   * @param context - Acting user and request metadata
+   * @returns Promise resolving to signing status
+   */
+  @Post(':id/send')
+  @ApiOperation({ summary: 'Send lease for signature' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  async sendForSignature(
+    @Param('id') id: string,
+    context: SigningContext
+  ): Promise<LeaseSigningStatus> {
+    try {
+      return await this.leaseSigningService.requestSignatures(id, context);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid lease status transition');
+    }
+  }
+
+  /**
+   * Retrieves signing progress and the signing audit trail
+   * @param id - Lease identifier
+   * @param userId - Requesting lease party
+   * @returns Promise resolving to signing status
+   */
+  @Get(':id/signatures')
+  @ApiOperation({ summary: 'Get lease signing status' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  @ApiResponse({ status: 403, description: 'User is not a party to the lease' })
+  async getSigningStatus(
+    @Param('id') id: string,
+    userId: string
+  ): Promise<LeaseSigningStatus> {
+    try {
+      return await this.leaseSigningService.getSigningStatusForParty(id, userId);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve signing status');
+    }
+  }
+
+  /**
+   * Records the current user's signature on a lease
+   * @param id - Lease identifier
+   * @param signatureImage - PNG data URL of the captured signature
+   * @param context - Signer and request metadata
+   * @returns Promise resolving to signing status
+   */
+  @Post(':id/signatures')
+  @ApiOperation({ summary: 'Sign lease' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  @ApiResponse({ status: 200, description: 'Signature recorded' })
+  @ApiResponse({ status: 400, description: 'Invalid signature or out of signing order' })
+  @ApiResponse({ status: 403, description: 'User is not a party to the lease' })
+  async signLease(
+    @Param('id') id: string,
+    @Body('signatureImage') signatureImage: string,
+    context: SigningContext
+  ): Promise<LeaseSigningStatus> {
+    try {
+      return await this.leaseSigningService.sign(id, signatureImage, context);
+    } catch (error) {
+      this.logger.error('Failed to sign lease', {
+        error: error.message,
+        leaseId: id,
+        userId: context.userId
+      });
+      throw this.mapError(error, 'Failed to sign lease');
+    }
+  }
+
+  /**
+   * Retrieves the executed lease PDF
+   * @param id - Lease identifier
+   * @param userId - Requesting lease party
+   * @returns Promise resolving to executed document
+   */
+  @Get(':id/document')
+  @ApiOperation({ summary: 'Download executed lease' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  @ApiResponse({ status: 403, description: 'User is not a party to the lease' })
+  async getExecutedDocument(
+    @Param('id') id: string,
+    userId: string
+  ): Promise<LeaseDocument> {
+    try {
+      return await this.leaseSigningService.getExecutedDocument(id, userId);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve executed lease');
+    }
+  }
+
+  /**
+   * Terminates an active lease
+   * @param id - Lease identifier
+   * @param reason - Reason for termination
+   * @param actor - Acting property staff
+   * @returns Promise resolving to terminated lease
+   */
+  @Post(':id/terminate')
+  @ApiOperation({ summary: 'Terminate lease' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  async terminateLease(
+    @Param('id') id: string,
+    @Body('reason') reason: string,
+    actor: LeaseActor
+  ): Promise<Lease> {
+    try {
+      return await this.leaseService.terminateLease(id, reason, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid lease status transition');
+    }
+  }
+
+  /**
+   * Cancels a lease that has not yet become active
+   * @param id - Lease identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to cancelled lease
+   */
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel lease' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  async cancelLease(@Param('id') id: string, actor: LeaseActor): Promise<Lease> {
+    try {
+      return await this.leaseService.cancelLease(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid lease status transition');
+    }
+  }
+
+  /**
+   * Records the tenant's notice to vacate
+   * @param id - Lease identifier
+   * @param vacateDate - Last day the tenant occupies the unit
+   * @param userId - Acting lease party
+   * @returns Promise resolving to updated lease
+   */
+  @Post(':id/notice')
+  @ApiOperation({ summary: 'Give notice to vacate' })
+  @ApiParam({ name: 'id', description: 'Lease ID' })
+  @ApiResponse({ status: 200, description: 'Notice recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Lease not active or invalid vacate date' })
+  async giveNotice(
+    @Param('id') id: string,
+    @Body('vacateDate') vacateDate: Date,
+    userId: string
+  ): Promise<Lease> {
+    try {
+      return await this.leaseService.recordNoticeToVacate(id, new Date(vacateDate), userId);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to record notice to vacate');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
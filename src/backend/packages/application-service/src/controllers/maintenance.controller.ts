@@ -0,0 +1,270 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import {
+  MaintenanceService,
+  MaintenanceActor,
+  MaintenanceRequestDetails,
+  CreateMaintenanceRequestInput
+} from '../services/maintenance.service';
+import {
+  MaintenancePhoto,
+  MaintenanceRequest,
+  MaintenanceStatus,
+  MaintenanceVendor
+} from '../models/maintenance.model';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+import { TransformInterceptor } from '../interceptors/transform.interceptor';
+
+/**
+ * Controller handling maintenance request HTTP endpoints for tenants and property staff
+ */
+@Controller('maintenance')
+@ApiTags('maintenance')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(LoggingInterceptor, TransformInterceptor)
+export class MaintenanceController {
+  private readonly logger = new Logger(MaintenanceController.name);
+
+  constructor(private readonly maintenanceService: MaintenanceService) {}
+
+  /**
+   * Opens a maintenance request for the tenant's unit
+   * @param input - Request details and photos
+   * @param actor - Reporting tenant
+   * @returns Promise resolving to created request
+   */
+  @Post()
+  @ApiOperation({ summary: 'Open maintenance request' })
+  @ApiResponse({ status: 201, description: 'Maintenance request created' })
+  @ApiResponse({ status: 403, description: 'User does not actively lease the unit' })
+  async createRequest(
+    @Body() input: CreateMaintenanceRequestInput,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.createRequest(input, actor);
+    } catch (error) {
+      this.logger.error('Failed to create maintenance request', {
+        error: error.message,
+        unitId: input.unitId
+      });
+      throw this.mapError(error, 'Failed to create maintenance request');
+    }
+  }
+
+  /**
+   * Lists the tenant's own requests, or a property's requests for staff
+   * @param actor - Acting user
+   * @param propertyId - Optional property filter for staff
+   * @param statuses - Optional status filter
+   * @returns Promise resolving to requests
+   */
+  @Get()
+  @ApiOperation({ summary: 'List maintenance requests' })
+  async listRequests(
+    actor: MaintenanceActor,
+    @Query('propertyId') propertyId?: string,
+    @Query('status') statuses?: MaintenanceStatus[]
+  ): Promise<MaintenanceRequest[]> {
+    try {
+      return propertyId
+        ? await this.maintenanceService.getRequestsForProperty(propertyId, actor, statuses)
+        : await this.maintenanceService.getRequestsForReporter(actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve maintenance requests');
+    }
+  }
+
+  /**
+   * Retrieves a request with its status history
+   * @param id - Request identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to request details
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get maintenance request by ID' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  @ApiResponse({ status: 404, description: 'Maintenance request not found' })
+  async getRequest(
+    @Param('id') id: string,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequestDetails> {
+    try {
+      return await this.maintenanceService.getRequest(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve maintenance request');
+    }
+  }
+
+  /**
+   * Retrieves a photo attached to a request
+   * @param id - Request identifier
+   * @param photoId - Photo identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to photo metadata and content
+   */
+  @Get(':id/photos/:photoId')
+  @ApiOperation({ summary: 'Download maintenance photo' })
+  async getPhoto(
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    actor: MaintenanceActor
+  ): Promise<MaintenancePhoto & { content: Buffer }> {
+    try {
+      return await this.maintenanceService.getPhoto(id, photoId, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve photo');
+    }
+  }
+
+  /**
+   * Assigns a vendor to an open request
+   * @param id - Request identifier
+   * @param vendor - Vendor details
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  @Post(':id/assign')
+  @ApiOperation({ summary: 'Assign vendor' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  async assignVendor(
+    @Param('id') id: string,
+    @Body('vendor') vendor: MaintenanceVendor,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.assignVendor(id, vendor, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid maintenance status transition');
+    }
+  }
+
+  /**
+   * Schedules the entry window for the assigned vendor
+   * @param id - Request identifier
+   * @param start - Entry window start
+   * @param end - Entry window end
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  @Post(':id/schedule')
+  @ApiOperation({ summary: 'Schedule entry window' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  @ApiResponse({ status: 400, description: 'Invalid window or insufficient notice' })
+  async scheduleEntry(
+    @Param('id') id: string,
+    @Body('start') start: Date,
+    @Body('end') end: Date,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.scheduleEntry(id, start, end, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid maintenance status transition');
+    }
+  }
+
+  /**
+   * Marks work as started
+   * @param id - Request identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  @Post(':id/start')
+  @ApiOperation({ summary: 'Start work' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  async startWork(
+    @Param('id') id: string,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.startWork(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid maintenance status transition');
+    }
+  }
+
+  /**
+   * Completes a request
+   * @param id - Request identifier
+   * @param resolutionNotes - Summary of the work done
+   * @param actor - Acting property staff
+   * @param cost - Optional vendor cost of the work
+   * @returns Promise resolving to updated request
+   */
+  @Post(':id/complete')
+  @ApiOperation({ summary: 'Complete maintenance request' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  async completeRequest(
+    @Param('id') id: string,
+    @Body('resolutionNotes') resolutionNotes: string,
+    actor: MaintenanceActor,
+    @Body('cost') cost?: number
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.completeRequest(id, resolutionNotes, actor, cost);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid maintenance status transition');
+    }
+  }
+
+  /**
+   * Cancels a request
+   * @param id - Request identifier
+   * @param reason - Optional cancellation reason
+   * @param actor - Acting user
+   * @returns Promise resolving to updated request
+   */
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel maintenance request' })
+  @ApiParam({ name: 'id', description: 'Maintenance request ID' })
+  async cancelRequest(
+    @Param('id') id: string,
+    @Body('reason') reason: string | undefined,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    try {
+      return await this.maintenanceService.cancelRequest(id, reason, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Invalid maintenance status transition');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import {
+  ScreeningService,
+  ScreeningActor,
+  UpdateScreeningCriteriaInput
+} from '../services/screening.service';
+import { ScreeningCriteria, ScreeningResult } from '../models/screening.model';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+import { TransformInterceptor } from '../interceptors/transform.interceptor';
+
+/**
+ * Controller handling screening criteria and application screening endpoints
+ */
+@Controller('screening')
+@ApiTags('screening')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(LoggingInterceptor, TransformInterceptor)
+export class ScreeningController {
+  private readonly logger = new Logger(ScreeningController.name);
+
+  constructor(private readonly screeningService: ScreeningService) {}
+
+  /**
+   * Retrieves a property's screening criteria
+   * @param propertyId - Property identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to criteria in effect
+   */
+  @Get('criteria/:propertyId')
+  @ApiOperation({ summary: 'Get property screening criteria' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  async getCriteria(
+    @Param('propertyId') propertyId: string,
+    actor: ScreeningActor
+  ): Promise<ScreeningCriteria> {
+    try {
+      return await this.screeningService.getCriteria(propertyId, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve screening criteria');
+    }
+  }
+
+  /**
+   * Replaces a property's screening criteria
+   * @param propertyId - Property identifier
+   * @param input - New criteria
+   * @param actor - Acting property staff
+   * @returns Promise resolving to stored criteria
+   */
+  @Put('criteria/:propertyId')
+  @ApiOperation({ summary: 'Update property screening criteria' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({ status: 400, description: 'Unsupported or out-of-range criterion' })
+  async updateCriteria(
+    @Param('propertyId') propertyId: string,
+    @Body() input: UpdateScreeningCriteriaInput,
+    actor: ScreeningActor
+  ): Promise<ScreeningCriteria> {
+    try {
+      return await this.screeningService.updateCriteria(propertyId, input, actor);
+    } catch (error) {
+      this.logger.error('Failed to update screening criteria', { error: error.message, propertyId });
+      throw this.mapError(error, 'Failed to update screening criteria');
+    }
+  }
+
+  /**
+   * Screens an application and records the recommendation
+   * @param applicationId - Application identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to screening result
+   */
+  @Post('applications/:applicationId')
+  @ApiOperation({ summary: 'Screen application' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  @ApiResponse({ status: 201, description: 'Application screened' })
+  async evaluateApplication(
+    @Param('applicationId') applicationId: string,
+    actor: ScreeningActor
+  ): Promise<ScreeningResult> {
+    try {
+      return await this.screeningService.evaluateApplication(applicationId, actor);
+    } catch (error) {
+      this.logger.error('Failed to screen application', { error: error.message, applicationId });
+      throw this.mapError(error, 'Failed to screen application');
+    }
+  }
+
+  /**
+   * Retrieves the latest screening of an application
+   * @param applicationId - Application identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to screening result
+   */
+  @Get('applications/:applicationId')
+  @ApiOperation({ summary: 'Get latest application screening' })
+  @ApiParam({ name: 'applicationId', description: 'Application ID' })
+  async getLatestResult(
+    @Param('applicationId') applicationId: string,
+    actor: ScreeningActor
+  ): Promise<ScreeningResult> {
+    try {
+      return await this.screeningService.getLatestResult(applicationId, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve screening result');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
@@ -0,0 +1,224 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import {
+  TourService,
+  TourActor,
+  BookTourInput,
+  PublishTourSlotInput
+} from '../services/tour.service';
+import { Tour, TourSlot } from '../models/tour.model';
+import { LoggingInterceptor } from '../interceptors/logging.interceptor';
+import { TransformInterceptor } from '../interceptors/transform.interceptor';
+
+/**
+ * Controller handling tour availability and booking HTTP endpoints
+ */
+@Controller('tours')
+@ApiTags('tours')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@UseInterceptors(LoggingInterceptor, TransformInterceptor)
+export class TourController {
+  private readonly logger = new Logger(TourController.name);
+
+  constructor(private readonly tourService: TourService) {}
+
+  /**
+   * Publishes availability slots for a property
+   * @param propertyId - Property identifier
+   * @param slots - Slots to publish
+   * @param actor - Acting property staff
+   * @returns Promise resolving to created slots
+   */
+  @Post('slots')
+  @ApiOperation({ summary: 'Publish tour availability slots' })
+  @ApiResponse({ status: 201, description: 'Slots published' })
+  @ApiResponse({ status: 409, description: 'Slot overlaps an existing slot' })
+  async publishSlots(
+    @Body('propertyId') propertyId: string,
+    @Body('slots') slots: PublishTourSlotInput[],
+    actor: TourActor
+  ): Promise<TourSlot[]> {
+    try {
+      return await this.tourService.publishSlots(propertyId, slots, actor);
+    } catch (error) {
+      this.logger.error('Failed to publish tour slots', { error: error.message, propertyId });
+      throw this.mapError(error, 'Failed to publish tour slots');
+    }
+  }
+
+  /**
+   * Retrieves bookable slots for a property
+   * @param propertyId - Property identifier
+   * @param from - Optional earliest start
+   * @param to - Optional latest start
+   * @returns Promise resolving to available slots
+   */
+  @Get('slots')
+  @ApiOperation({ summary: 'List available tour slots' })
+  async getAvailableSlots(
+    @Query('propertyId') propertyId: string,
+    @Query('from') from?: Date,
+    @Query('to') to?: Date
+  ): Promise<TourSlot[]> {
+    try {
+      return await this.tourService.getAvailableSlots(propertyId, from, to);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve tour slots');
+    }
+  }
+
+  /**
+   * Withdraws a slot and cancels its bookings
+   * @param id - Slot identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to cancelled tours
+   */
+  @Post('slots/:id/cancel')
+  @ApiOperation({ summary: 'Cancel tour slot' })
+  @ApiParam({ name: 'id', description: 'Slot ID' })
+  async cancelSlot(@Param('id') id: string, actor: TourActor): Promise<Tour[]> {
+    try {
+      return await this.tourService.cancelSlot(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to cancel tour slot');
+    }
+  }
+
+  /**
+   * Books a tour
+   * @param input - Booking details
+   * @param actor - Booking renter
+   * @returns Promise resolving to booked tour
+   */
+  @Post()
+  @ApiOperation({ summary: 'Book tour' })
+  @ApiResponse({ status: 201, description: 'Tour booked' })
+  @ApiResponse({ status: 409, description: 'Slot full or overlapping booking' })
+  async bookTour(@Body() input: BookTourInput, actor: TourActor): Promise<Tour> {
+    try {
+      return await this.tourService.bookTour(input, actor);
+    } catch (error) {
+      this.logger.error('Failed to book tour', {
+        error: error.message,
+        slotId: input.slotId,
+        userId: actor.userId
+      });
+      throw this.mapError(error, 'Failed to book tour');
+    }
+  }
+
+  /**
+   * Lists the renter's upcoming tours, or a property's tours for staff
+   * @param actor - Acting user
+   * @param propertyId - Optional property filter for staff
+   * @param from - Optional range start
+   * @param to - Optional range end
+   * @returns Promise resolving to tours
+   */
+  @Get()
+  @ApiOperation({ summary: 'List tours' })
+  async listTours(
+    actor: TourActor,
+    @Query('propertyId') propertyId?: string,
+    @Query('from') from?: Date,
+    @Query('to') to?: Date
+  ): Promise<Tour[]> {
+    try {
+      return propertyId
+        ? await this.tourService.getPropertyTours(propertyId, actor, from, to)
+        : await this.tourService.getUpcomingTours(actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve tours');
+    }
+  }
+
+  /**
+   * Retrieves a tour by ID
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to tour
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get tour by ID' })
+  @ApiParam({ name: 'id', description: 'Tour ID' })
+  @ApiResponse({ status: 404, description: 'Tour not found' })
+  async getTour(@Param('id') id: string, actor: TourActor): Promise<Tour> {
+    try {
+      return await this.tourService.getTour(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve tour');
+    }
+  }
+
+  /**
+   * Retrieves the tour calendar invite
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to the iCalendar document
+   */
+  @Get(':id/calendar')
+  @ApiOperation({ summary: 'Download tour calendar invite' })
+  @ApiParam({ name: 'id', description: 'Tour ID' })
+  async getCalendarInvite(@Param('id') id: string, actor: TourActor): Promise<string> {
+    try {
+      return await this.tourService.getCalendarInvite(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to build calendar invite');
+    }
+  }
+
+  /**
+   * Cancels a tour
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to cancelled tour
+   */
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel tour' })
+  @ApiParam({ name: 'id', description: 'Tour ID' })
+  async cancelTour(@Param('id') id: string, actor: TourActor): Promise<Tour> {
+    try {
+      return await this.tourService.cancelTour(id, actor);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to cancel tour');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
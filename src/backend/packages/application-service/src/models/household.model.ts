@@ -0,0 +1,95 @@
+/**
+ * Core TypeScript model defining household applications.
+ * A primary applicant invites co-applicants, who share the lease, and
+ * guarantors, who back it financially. Each completes their own income,
+ * employment and documents and is verified separately.
+ * @packageDocumentation
+ */
+
+import { BaseEntity } from '@common/interfaces';
+import { EmploymentDetails, VerificationStatus, DocumentType } from './application.model';
+
+/**
+ * Enumeration of household participant roles
+ */
+export enum ParticipantRole {
+  /** Shares the lease; income counts toward the household */
+  CO_APPLICANT = 'CO_APPLICANT',
+  /** Guarantees payment without occupying the unit */
+  GUARANTOR = 'GUARANTOR'
+}
+
+/**
+ * Enumeration of participant statuses
+ */
+export enum ParticipantStatus {
+  INVITED = 'INVITED',
+  ACCEPTED = 'ACCEPTED',
+  /** Income, employment and documents provided */
+  SUBMITTED = 'SUBMITTED',
+  DECLINED = 'DECLINED',
+  /** Removed by the primary applicant */
+  REMOVED = 'REMOVED'
+}
+
+/**
+ * Document provided by a participant
+ */
+export interface ParticipantDocument {
+  readonly type: DocumentType;
+  /** Secure URL to the document */
+  readonly url: string;
+  readonly fileName: string;
+  readonly uploadedAt: Date;
+}
+
+/**
+ * Co-applicant or guarantor on a household application
+ */
+export interface ApplicationParticipant extends BaseEntity {
+  readonly id: string;
+
+  /** Reference to the primary application */
+  readonly applicationId: string;
+
+  /** Participant role */
+  readonly role: ParticipantRole;
+
+  /** Address the invitation was sent to */
+  readonly email: string;
+
+  /** User who accepted the invitation */
+  readonly userId: string | null;
+
+  /** Current participant status */
+  readonly status: ParticipantStatus;
+
+  /** Invitation expiry */
+  readonly inviteExpiresAt: Date;
+
+  /** Participant's monthly income */
+  readonly monthlyIncome: number | null;
+
+  /** Participant's credit score, set by verification */
+  readonly creditScore: number | null;
+
+  /** Participant's employment */
+  readonly employmentDetails: EmploymentDetails | null;
+
+  /** Participant's documents */
+  readonly documents: readonly ParticipantDocument[];
+
+  /** Participant's own verification status */
+  readonly verificationStatus: VerificationStatus;
+
+  /** Primary applicant who sent the invitation */
+  readonly invitedBy: string;
+
+  readonly acceptedAt: Date | null;
+
+  readonly submittedAt: Date | null;
+
+  readonly createdAt: Date;
+
+  readonly updatedAt: Date;
+}
@@ -0,0 +1,229 @@
+/**
+ * Core TypeScript model defining the lease entity structure.
+ * Implements the lease lifecycle that follows an approved rental application,
+ * including term dates, rent, deposits and the parties bound by the lease.
+ * @packageDocumentation
+ */
+
+import { BaseEntity } from '@common/interfaces';
+import { LeaseTerms } from '@listing-service/models';
+
+/**
+ * Enumeration of possible lease statuses
+ */
+export enum LeaseStatus {
+  /** Draft generated from an approved application */
+  DRAFT = 'DRAFT',
+  /** Sent to the parties for signature */
+  PENDING_SIGNATURE = 'PENDING_SIGNATURE',
+  /** Fully executed and in effect */
+  ACTIVE = 'ACTIVE',
+  /** Ended before the scheduled end date */
+  TERMINATED = 'TERMINATED',
+  /** Reached the scheduled end date */
+  EXPIRED = 'EXPIRED',
+  /** Abandoned before becoming active */
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Enumeration of roles a party can hold on a lease
+ */
+export enum LeasePartyRole {
+  /** Person renting the unit */
+  TENANT = 'TENANT',
+  /** Owner of the property */
+  LANDLORD = 'LANDLORD',
+  /** Manager acting on behalf of the owner */
+  PROPERTY_MANAGER = 'PROPERTY_MANAGER'
+}
+
+/**
+ * Allowed lease status transitions keyed by current status. A lease pending
+ * signature only becomes ACTIVE once the last party signs.
+ */
+export const LEASE_STATUS_TRANSITIONS: Readonly<Record<LeaseStatus, readonly LeaseStatus[]>> = {
+  [LeaseStatus.DRAFT]: [LeaseStatus.PENDING_SIGNATURE, LeaseStatus.CANCELLED],
+  [LeaseStatus.PENDING_SIGNATURE]: [LeaseStatus.CANCELLED],
+  [LeaseStatus.ACTIVE]: [LeaseStatus.TERMINATED, LeaseStatus.EXPIRED],
+  [LeaseStatus.TERMINATED]: [],
+  [LeaseStatus.EXPIRED]: [],
+  [LeaseStatus.CANCELLED]: []
+};
+
+/**
+ * Interface for a party bound by the lease
+ */
+export interface LeaseParty {
+  /** Reference to the party's user account */
+  readonly userId: string;
+  /** Role the party holds on the lease */
+  readonly role: LeasePartyRole;
+}
+
+/**
+ * Core lease interface extending BaseEntity with term, financial and party details
+ */
+export interface Lease extends BaseEntity {
+  /** Unique identifier inherited from BaseEntity */
+  readonly id: string;
+
+  /** Reference to the approved application the lease was generated from */
+  readonly applicationId: string;
+
+  /** Reference to the leased property */
+  readonly propertyId: string;
+
+  /** Reference to the leased unit */
+  readonly unitId: string;
+
+  /** Current lease status */
+  status: LeaseStatus;
+
+  /** First day of the lease term */
+  startDate: Date;
+
+  /** Last day of the lease term */
+  endDate: Date;
+
+  /** Monthly rent amount */
+  monthlyRent: number;
+
+  /** Required security deposit */
+  securityDeposit: number;
+
+  /** Optional pet deposit */
+  petDeposit: number | null;
+
+  /** Snapshot of the property's lease terms at drafting time */
+  readonly terms: LeaseTerms;
+
+  /** Parties bound by the lease */
+  readonly parties: readonly LeaseParty[];
+
+  /** Timestamp the lease became active */
+  activatedAt: Date | null;
+
+  /** Timestamp the lease was terminated */
+  terminatedAt: Date | null;
+
+  /** Reason provided for early termination */
+  terminationReason: string | null;
+
+  /** Last day the tenant occupies the unit after giving notice */
+  noticeToVacateDate: Date | null;
+
+  /** Timestamp notice to vacate was recorded */
+  noticeGivenAt: Date | null;
+
+  /** SHA-256 of the lease content sent for signature */
+  contentHash: string | null;
+
+  /** Version for optimistic locking */
+  version: number;
+
+  /** ID of the user who generated the lease */
+  readonly createdBy: string;
+
+  /** Creation timestamp inherited from BaseEntity */
+  readonly createdAt: Date;
+
+  /** Last update timestamp inherited from BaseEntity */
+  readonly updatedAt: Date;
+}
+
+/**
+ * Enumeration of per-party signature statuses
+ */
+export enum LeaseSignatureStatus {
+  /** Awaiting the party's signature */
+  PENDING = 'PENDING',
+  /** Party has signed */
+  SIGNED = 'SIGNED'
+}
+
+/**
+ * Enumeration of lease signing audit actions
+ */
+export enum LeaseSignatureAction {
+  SIGNATURE_REQUESTED = 'SIGNATURE_REQUESTED',
+  SIGNED = 'SIGNED',
+  COMPLETED = 'COMPLETED'
+}
+
+/**
+ * Signing order by party role; lower values sign first
+ */
+export const LEASE_SIGNING_ORDER: Readonly<Record<LeasePartyRole, number>> = {
+  [LeasePartyRole.TENANT]: 1,
+  [LeasePartyRole.PROPERTY_MANAGER]: 2,
+  [LeasePartyRole.LANDLORD]: 3
+};
+
+/**
+ * Interface for a party's signature on a lease
+ */
+export interface LeaseSignature {
+  /** Unique signature identifier */
+  readonly id: string;
+  /** Reference to the lease */
+  readonly leaseId: string;
+  /** Reference to the signing user */
+  readonly userId: string;
+  /** Role the signer holds on the lease */
+  readonly role: LeasePartyRole;
+  /** Position in the signing order */
+  readonly signingOrder: number;
+  /** Current signature status */
+  status: LeaseSignatureStatus;
+  /** Captured signature image as a PNG data URL */
+  signatureImage: string | null;
+  /** Hash of the lease content the signer was shown */
+  readonly contentHash: string;
+  /** Signer IP address */
+  ipAddress: string | null;
+  /** Signer user agent string */
+  userAgent: string | null;
+  /** Timestamp of signature */
+  signedAt: Date | null;
+}
+
+/**
+ * Tamper-evident lease signing audit event
+ */
+export interface LeaseSignatureEvent {
+  /** Reference to the lease */
+  readonly leaseId: string;
+  /** User associated with the event */
+  readonly userId: string;
+  /** Type of signing action */
+  readonly action: LeaseSignatureAction;
+  /** Timestamp of the event */
+  readonly timestamp: Date;
+  /** IP address of the request */
+  readonly ipAddress: string;
+  /** User agent string from the request */
+  readonly userAgent: string;
+  /** SHA-256 of the signature image, set on SIGNED events */
+  readonly signatureHash: string | null;
+  /** Lease content hash the signer agreed to, set on SIGNED events */
+  readonly contentHash: string | null;
+  /** Hash of the preceding event for this lease */
+  readonly previousHash: string | null;
+  /** SHA-256 over this event and the previous hash */
+  readonly eventHash: string;
+}
+
+/**
+ * Executed lease document
+ */
+export interface LeaseDocument {
+  /** Reference to the lease */
+  readonly leaseId: string;
+  /** Final PDF bytes */
+  readonly content: Buffer;
+  /** SHA-256 digest of the PDF */
+  readonly sha256: string;
+  /** Timestamp the document was finalized */
+  readonly finalizedAt: Date;
+}
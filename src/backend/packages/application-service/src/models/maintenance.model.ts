@@ -0,0 +1,181 @@
+/**
+ * Core TypeScript model defining maintenance request tickets.
+ * Tenants report problems against their leased unit; property staff assign
+ * vendors, schedule entry windows and move tickets through to completion.
+ * @packageDocumentation
+ */
+
+import { BaseEntity } from '@common/interfaces';
+
+/**
+ * Enumeration of maintenance request statuses
+ */
+export enum MaintenanceStatus {
+  /** Reported by the tenant, awaiting triage */
+  OPEN = 'OPEN',
+  /** Vendor assigned by property staff */
+  ASSIGNED = 'ASSIGNED',
+  /** Entry window scheduled with the tenant */
+  SCHEDULED = 'SCHEDULED',
+  /** Work underway */
+  IN_PROGRESS = 'IN_PROGRESS',
+  /** Work finished */
+  COMPLETED = 'COMPLETED',
+  /** Withdrawn by the tenant or closed by staff */
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Enumeration of maintenance priorities
+ */
+export enum MaintenancePriority {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  /** Threat to safety or property; bypasses the entry notice period */
+  EMERGENCY = 'EMERGENCY'
+}
+
+/**
+ * Enumeration of maintenance categories
+ */
+export enum MaintenanceCategory {
+  PLUMBING = 'PLUMBING',
+  ELECTRICAL = 'ELECTRICAL',
+  HVAC = 'HVAC',
+  APPLIANCE = 'APPLIANCE',
+  STRUCTURAL = 'STRUCTURAL',
+  PEST = 'PEST',
+  OTHER = 'OTHER'
+}
+
+/**
+ * Allowed maintenance status transitions keyed by current status.
+ * IN_PROGRESS may return to SCHEDULED when a follow-up visit is needed.
+ */
+export const MAINTENANCE_STATUS_TRANSITIONS: Readonly<Record<MaintenanceStatus, readonly MaintenanceStatus[]>> = {
+  [MaintenanceStatus.OPEN]: [MaintenanceStatus.ASSIGNED, MaintenanceStatus.CANCELLED],
+  [MaintenanceStatus.ASSIGNED]: [
+    MaintenanceStatus.SCHEDULED,
+    MaintenanceStatus.IN_PROGRESS,
+    MaintenanceStatus.CANCELLED
+  ],
+  [MaintenanceStatus.SCHEDULED]: [
+    MaintenanceStatus.SCHEDULED,
+    MaintenanceStatus.IN_PROGRESS,
+    MaintenanceStatus.CANCELLED
+  ],
+  [MaintenanceStatus.IN_PROGRESS]: [MaintenanceStatus.SCHEDULED, MaintenanceStatus.COMPLETED],
+  [MaintenanceStatus.COMPLETED]: [],
+  [MaintenanceStatus.CANCELLED]: []
+};
+
+/**
+ * Vendor assigned to carry out the work
+ */
+export interface MaintenanceVendor {
+  /** Vendor or technician name */
+  readonly name: string;
+  /** Optional contact phone */
+  readonly phone?: string;
+  /** Optional contact email */
+  readonly email?: string;
+}
+
+/**
+ * Photo attached to a maintenance request
+ */
+export interface MaintenancePhoto {
+  readonly id: string;
+  readonly requestId: string;
+  readonly mimeType: 'image/jpeg' | 'image/png';
+  readonly fileName: string;
+  readonly size: number;
+  readonly uploadedBy: string;
+  readonly uploadedAt: Date;
+}
+
+/**
+ * Status history entry for a maintenance request
+ */
+export interface MaintenanceEvent {
+  readonly requestId: string;
+  readonly fromStatus: MaintenanceStatus | null;
+  readonly toStatus: MaintenanceStatus;
+  /** User who made the change */
+  readonly actorId: string;
+  /** Optional note shown to the tenant */
+  readonly note: string | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Core maintenance request interface extending BaseEntity
+ */
+export interface MaintenanceRequest extends BaseEntity {
+  /** Unique identifier inherited from BaseEntity */
+  readonly id: string;
+
+  /** Reference to the property */
+  readonly propertyId: string;
+
+  /** Reference to the affected unit */
+  readonly unitId: string;
+
+  /** Active lease the tenant reported under */
+  readonly leaseId: string;
+
+  /** Tenant who reported the problem */
+  readonly reportedBy: string;
+
+  /** Short summary of the problem */
+  title: string;
+
+  /** Detailed description of the problem */
+  description: string;
+
+  /** Problem category */
+  category: MaintenanceCategory;
+
+  /** Urgency of the request */
+  priority: MaintenancePriority;
+
+  /** Current ticket status */
+  status: MaintenanceStatus;
+
+  /** Whether staff may enter when the tenant is absent */
+  permissionToEnter: boolean;
+
+  /** Assigned vendor, if any */
+  vendor: MaintenanceVendor | null;
+
+  /** Staff member who assigned the vendor */
+  assignedBy: string | null;
+
+  /** Start of the scheduled entry window */
+  entryWindowStart: Date | null;
+
+  /** End of the scheduled entry window */
+  entryWindowEnd: Date | null;
+
+  /** Notes recorded on completion */
+  resolutionNotes: string | null;
+
+  /** Timestamp the work was completed */
+  completedAt: Date | null;
+
+  /** Vendor cost recorded on completion; reported to the owner as maintenance spend */
+  cost: number | null;
+
+  /** Attached photos */
+  readonly photos: readonly MaintenancePhoto[];
+
+  /** Version for optimistic locking */
+  version: number;
+
+  /** Creation timestamp inherited from BaseEntity */
+  readonly createdAt: Date;
+
+  /** Last update timestamp inherited from BaseEntity */
+  readonly updatedAt: Date;
+}
@@ -0,0 +1,152 @@
+/**
+ * Core TypeScript model defining tenant screening rules and recommendations.
+ * Property staff configure criteria per property; the service evaluates each
+ * application against them and records a recommended decision with reasons.
+ * Only income, credit and rental-history criteria exist so screening cannot
+ * consider protected characteristics.
+ * @packageDocumentation
+ */
+
+/**
+ * Enumeration of recommended screening decisions
+ */
+export enum ScreeningRecommendation {
+  /** All configured criteria are met */
+  APPROVE = 'APPROVE',
+  /** Income or credit shortfall the property accepts with a co-signer */
+  APPROVE_WITH_CO_SIGNER = 'APPROVE_WITH_CO_SIGNER',
+  /** At least one criterion is not met */
+  DECLINE = 'DECLINE',
+  /** Data needed for a configured criterion is not available yet */
+  INCOMPLETE = 'INCOMPLETE'
+}
+
+/**
+ * Enumeration of criteria a property can screen on
+ */
+export enum ScreeningCriterion {
+  INCOME_TO_RENT = 'INCOME_TO_RENT',
+  CREDIT_SCORE = 'CREDIT_SCORE',
+  EVICTION_HISTORY = 'EVICTION_HISTORY',
+  /** Every co-applicant and guarantor has completed verification */
+  HOUSEHOLD = 'HOUSEHOLD'
+}
+
+/**
+ * Enumeration of per-criterion outcomes
+ */
+export enum ScreeningOutcome {
+  PASS = 'PASS',
+  FAIL = 'FAIL',
+  CO_SIGNER_REQUIRED = 'CO_SIGNER_REQUIRED',
+  MISSING_DATA = 'MISSING_DATA'
+}
+
+/**
+ * Enumeration of eviction record dispositions reported by screening providers
+ */
+export enum EvictionDisposition {
+  /** Judgment entered against the tenant */
+  JUDGMENT = 'JUDGMENT',
+  DISMISSED = 'DISMISSED',
+  SEALED = 'SEALED',
+  PENDING = 'PENDING'
+}
+
+/**
+ * Eviction record returned with a background check
+ */
+export interface EvictionRecord {
+  readonly filedAt: Date;
+  readonly disposition: EvictionDisposition;
+}
+
+/**
+ * Screening criteria configured for a property. A null threshold means the
+ * criterion is not used.
+ */
+export interface ScreeningCriteria {
+  /** Reference to the property */
+  readonly propertyId: string;
+
+  /** Required monthly income as a multiple of the unit's monthly rent */
+  readonly incomeMultiple: number | null;
+
+  /** Minimum credit score */
+  readonly minCreditScore: number | null;
+
+  /** Maximum eviction judgments within the lookback window */
+  readonly maxEvictions: number | null;
+
+  /** Years of eviction history considered */
+  readonly evictionLookbackYears: number;
+
+  /** Whether a co-signer can cover an income or credit shortfall */
+  readonly allowCoSigner: boolean;
+
+  /** Income multiple required of a co-signer */
+  readonly coSignerIncomeMultiple: number | null;
+
+  /** Staff member who last changed the criteria */
+  readonly updatedBy: string | null;
+
+  /** Last change timestamp */
+  readonly updatedAt: Date | null;
+}
+
+/**
+ * Applicant facts a screening was evaluated against
+ */
+export interface ScreeningFacts {
+  /** Combined income of the primary applicant and verified co-applicants */
+  readonly monthlyIncome: number;
+  readonly monthlyRent: number;
+  /** Lowest credit score among the applicants */
+  readonly creditScore: number | null;
+  /** Eviction judgments across the applicants within the lookback window; null without background checks */
+  readonly evictionCount: number | null;
+  /** Highest income among verified guarantors; null without one */
+  readonly guarantorMonthlyIncome: number | null;
+  /** Co-applicants and guarantors still to complete verification */
+  readonly pendingHouseholdMembers: number;
+}
+
+/**
+ * Outcome of a single criterion
+ */
+export interface ScreeningReason {
+  readonly criterion: ScreeningCriterion;
+  readonly outcome: ScreeningOutcome;
+  readonly message: string;
+}
+
+/**
+ * Recorded screening evaluation of an application
+ */
+export interface ScreeningResult {
+  readonly id: string;
+
+  /** Reference to the application */
+  readonly applicationId: string;
+
+  /** Reference to the property */
+  readonly propertyId: string;
+
+  /** Recommended decision; the final decision remains with property staff */
+  readonly recommendation: ScreeningRecommendation;
+
+  /** Per-criterion outcomes */
+  readonly reasons: readonly ScreeningReason[];
+
+  /** Criteria in effect at evaluation */
+  readonly criteria: ScreeningCriteria;
+
+  /** Facts evaluated */
+  readonly facts: ScreeningFacts;
+
+  /** Staff member who requested the evaluation */
+  readonly evaluatedBy: string | null;
+
+  /** Evaluation timestamp */
+  readonly evaluatedAt: Date;
+}
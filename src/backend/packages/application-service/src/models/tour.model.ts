@@ -0,0 +1,111 @@
+/**
+ * Core TypeScript model defining property tours.
+ * Property staff publish availability slots; renters book in-person or
+ * self-guided tours against them.
+ * @packageDocumentation
+ */
+
+import { BaseEntity } from '@common/interfaces';
+
+/**
+ * Enumeration of tour types
+ */
+export enum TourType {
+  /** Guided by property staff */
+  IN_PERSON = 'IN_PERSON',
+  /** Renter tours the unit alone using provided access instructions */
+  SELF_GUIDED = 'SELF_GUIDED'
+}
+
+/**
+ * Enumeration of tour statuses
+ */
+export enum TourStatus {
+  SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW'
+}
+
+/**
+ * Availability slot published by property staff
+ */
+export interface TourSlot extends BaseEntity {
+  readonly id: string;
+
+  /** Reference to the property */
+  readonly propertyId: string;
+
+  /** Optional unit the slot is restricted to */
+  readonly unitId: string | null;
+
+  /** Staff member who published the slot */
+  readonly createdBy: string;
+
+  /** Slot start */
+  readonly startsAt: Date;
+
+  /** Slot end */
+  readonly endsAt: Date;
+
+  /** Tour types that can be booked in the slot */
+  readonly tourTypes: readonly TourType[];
+
+  /** Maximum concurrent bookings */
+  readonly capacity: number;
+
+  /** Current active bookings */
+  bookedCount: number;
+
+  /** Whether staff withdrew the slot */
+  isCancelled: boolean;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Tour booked by a renter
+ */
+export interface Tour extends BaseEntity {
+  readonly id: string;
+
+  /** Slot the tour is booked into */
+  readonly slotId: string;
+
+  /** Reference to the property */
+  readonly propertyId: string;
+
+  /** Optional unit being toured */
+  readonly unitId: string | null;
+
+  /** Renter who booked the tour */
+  readonly renterId: string;
+
+  /** Tour type */
+  readonly type: TourType;
+
+  /** Current tour status */
+  status: TourStatus;
+
+  /** Tour start, copied from the slot */
+  readonly startsAt: Date;
+
+  /** Tour end, copied from the slot */
+  readonly endsAt: Date;
+
+  /** Optional renter notes */
+  readonly notes: string | null;
+
+  /** Timestamp the reminder was sent */
+  reminderSentAt: Date | null;
+
+  /** Timestamp the tour was cancelled */
+  cancelledAt: Date | null;
+
+  /** User who cancelled the tour */
+  cancelledBy: string | null;
+
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
@@ -190,6 +190,38 @@ export class ApplicationRepository extends Repository<Application> {
     }
   }
 
+  /**
+   * Records a background check result for screening
+   * @param id - Application identifier
+   * @param result - Provider result
+   * @param participantId - Co-applicant or guarantor checked; omitted for the primary applicant
+   */
+  async updateScreeningResults(
+    id: string,
+    result: { success: boolean; provider: string; reportId: string; completedAt: Date } & Record<string, any>,
+    participantId: string | null = null
+  ): Promise<void> {
+    await this.queryRunner.query(
+      `INSERT INTO background_checks (application_id, participant_id, provider, status, results, completed_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        id,
+        participantId,
+        result.provider,
+        result.success ? 'COMPLETED' : 'FAILED',
+        JSON.stringify(result),
+        result.completedAt
+      ]
+    );
+
+    this.logger.info('Recorded background check result', {
+      applicationId: id,
+      participantId,
+      reportId: result.reportId,
+      success: result.success
+    });
+  }
+
   /**
    * Finds all applications for a specific unit with pagination
    * @param unitId - Unit identifier
@@ -0,0 +1,339 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { ConflictException, NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import { ApplicationStatus, EmploymentDetails, VerificationStatus } from '../models/application.model';
+import {
+  ApplicationParticipant,
+  ParticipantDocument,
+  ParticipantRole,
+  ParticipantStatus
+} from '../models/household.model';
+import { PropertyStaff } from './maintenance.repository';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Primary application a household is attached to
+ */
+export interface HouseholdApplication extends PropertyStaff {
+  readonly applicationId: string;
+  readonly applicantId: string;
+  readonly status: ApplicationStatus;
+  /** Primary applicant's monthly income */
+  readonly monthlyIncome: number;
+}
+
+/**
+ * Invitation persisted for a new participant
+ */
+export interface ParticipantInvitation {
+  readonly applicationId: string;
+  readonly role: ParticipantRole;
+  readonly email: string;
+  readonly tokenHash: string;
+  readonly expiresAt: Date;
+  readonly invitedBy: string;
+}
+
+/**
+ * Details a participant completes
+ */
+export interface ParticipantDetails {
+  readonly monthlyIncome: number;
+  readonly employmentDetails: EmploymentDetails;
+  readonly documents: readonly ParticipantDocument[];
+}
+
+/**
+ * Repository class for co-applicants and guarantors on household applications
+ */
+@EntityRepository(ApplicationParticipant)
+export class HouseholdRepository extends Repository<ApplicationParticipant> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Loads the primary applicant, status and property staff of an application
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to application summary
+   * @throws NotFoundException if the application doesn't exist
+   */
+  async findApplication(applicationId: string): Promise<HouseholdApplication> {
+    const [row] = await this.queryRunner.query(
+      `SELECT a.id, a.user_id, a.status, a.monthly_income, p.owner_id, p.property_manager_id
+         FROM applications a
+         JOIN properties p ON p.id = a.property_id
+        WHERE a.id = $1 AND a.deleted_at IS NULL`,
+      [applicationId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Application not found');
+    }
+
+    return {
+      applicationId: row.id,
+      applicantId: row.user_id,
+      status: row.status,
+      monthlyIncome: Number(row.monthly_income),
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id
+    };
+  }
+
+  /**
+   * Retrieves a user's account email
+   * @param userId - User identifier
+   * @returns Promise resolving to email or null
+   */
+  async findUserEmail(userId: string): Promise<string | null> {
+    const [row] = await this.queryRunner.query('SELECT email FROM users WHERE id = $1', [userId]);
+    return row?.email ?? null;
+  }
+
+  /**
+   * Finds the account registered to an email address
+   * @param email - Email address
+   * @returns Promise resolving to user identifier or null
+   */
+  async findUserIdByEmail(email: string): Promise<string | null> {
+    const [row] = await this.queryRunner.query('SELECT id FROM users WHERE email = $1', [email]);
+    return row?.id ?? null;
+  }
+
+  /**
+   * Creates an invitation
+   * @param invitation - Invitation details
+   * @returns Promise resolving to created participant
+   * @throws ConflictException if the email already holds a seat on the application
+   */
+  async createInvitation(invitation: ParticipantInvitation): Promise<ApplicationParticipant> {
+    try {
+      const [row] = await this.queryRunner.query(
+        `INSERT INTO application_participants
+           (application_id, role, email, invite_token_hash, invite_expires_at, invited_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [
+          invitation.applicationId,
+          invitation.role,
+          invitation.email,
+          invitation.tokenHash,
+          invitation.expiresAt,
+          invitation.invitedBy
+        ]
+      );
+
+      this.logger.info('Household participant invited', {
+        applicationId: invitation.applicationId,
+        participantId: row.id,
+        role: invitation.role
+      });
+
+      return this.mapParticipant(row);
+
+    } catch (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException('This person has already been invited to the application');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a participant by ID
+   * @param id - Participant identifier
+   * @returns Promise resolving to participant
+   * @throws NotFoundException if participant doesn't exist
+   */
+  async findById(id: string): Promise<ApplicationParticipant> {
+    const [row] = await this.queryRunner.query(
+      'SELECT * FROM application_participants WHERE id = $1',
+      [id]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Participant not found');
+    }
+
+    return this.mapParticipant(row);
+  }
+
+  /**
+   * Retrieves the participant holding an invitation token
+   * @param tokenHash - SHA-256 of the emailed token
+   * @returns Promise resolving to participant or null
+   */
+  async findByTokenHash(tokenHash: string): Promise<ApplicationParticipant | null> {
+    const [row] = await this.queryRunner.query(
+      'SELECT * FROM application_participants WHERE invite_token_hash = $1',
+      [tokenHash]
+    );
+
+    return row ? this.mapParticipant(row) : null;
+  }
+
+  /**
+   * Retrieves an application's participants, oldest invitation first
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to participants
+   */
+  async findByApplication(applicationId: string): Promise<ApplicationParticipant[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM application_participants
+        WHERE application_id = $1
+        ORDER BY created_at ASC`,
+      [applicationId]
+    );
+
+    return rows.map((row) => this.mapParticipant(row));
+  }
+
+  /**
+   * Retrieves the applications a user participates in
+   * @param userId - User identifier
+   * @returns Promise resolving to live participations
+   */
+  async findByUser(userId: string): Promise<ApplicationParticipant[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM application_participants
+        WHERE user_id = $1 AND status IN ($2, $3)
+        ORDER BY created_at DESC`,
+      [userId, ParticipantStatus.ACCEPTED, ParticipantStatus.SUBMITTED]
+    );
+
+    return rows.map((row) => this.mapParticipant(row));
+  }
+
+  /**
+   * Accepts an open, unexpired invitation
+   * @param id - Participant identifier
+   * @param userId - Accepting user
+   * @returns Promise resolving to accepted participant
+   * @throws ConflictException if the invitation is no longer open
+   */
+  async accept(id: string, userId: string): Promise<ApplicationParticipant> {
+    const [row] = await this.queryRunner.query(
+      `UPDATE application_participants
+          SET user_id = $2, status = $3, accepted_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status = $4 AND invite_expires_at > NOW()
+        RETURNING *`,
+      [id, userId, ParticipantStatus.ACCEPTED, ParticipantStatus.INVITED]
+    );
+
+    if (!row) {
+      throw new ConflictException('Invitation is no longer valid');
+    }
+
+    return this.mapParticipant(row);
+  }
+
+  /**
+   * Moves a participant to a new status
+   * @param id - Participant identifier
+   * @param status - New status
+   * @param from - Statuses the participant may currently be in
+   * @returns Promise resolving to updated participant
+   * @throws ConflictException if the participant is not in an allowed status
+   */
+  async updateStatus(
+    id: string,
+    status: ParticipantStatus,
+    from: readonly ParticipantStatus[]
+  ): Promise<ApplicationParticipant> {
+    const [row] = await this.queryRunner.query(
+      `UPDATE application_participants
+          SET status = $2, updated_at = NOW()
+        WHERE id = $1 AND status = ANY($3)
+        RETURNING *`,
+      [id, status, from]
+    );
+
+    if (!row) {
+      throw new ConflictException(`Participant cannot be moved to ${status}`);
+    }
+
+    return this.mapParticipant(row);
+  }
+
+  /**
+   * Stores a participant's income, employment and documents
+   * @param id - Participant identifier
+   * @param details - Completed details
+   * @returns Promise resolving to submitted participant
+   * @throws ConflictException if the participant has not accepted or was removed
+   */
+  async submitDetails(id: string, details: ParticipantDetails): Promise<ApplicationParticipant> {
+    const [row] = await this.queryRunner.query(
+      `UPDATE application_participants
+          SET monthly_income = $2, employment_details = $3, documents = $4,
+              status = $5, verification_status = $6, submitted_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status IN ($7, $5)
+        RETURNING *`,
+      [
+        id,
+        details.monthlyIncome,
+        JSON.stringify(details.employmentDetails),
+        JSON.stringify(details.documents),
+        ParticipantStatus.SUBMITTED,
+        VerificationStatus.PENDING,
+        ParticipantStatus.ACCEPTED
+      ]
+    );
+
+    if (!row) {
+      throw new ConflictException('Participant details can no longer be changed');
+    }
+
+    return this.mapParticipant(row);
+  }
+
+  /**
+   * Records a participant's verification outcome
+   * @param id - Participant identifier
+   * @param verificationStatus - New verification status
+   * @param creditScore - Credit score reported by verification, when available
+   */
+  async updateVerification(
+    id: string,
+    verificationStatus: VerificationStatus,
+    creditScore?: number | null
+  ): Promise<void> {
+    await this.queryRunner.query(
+      `UPDATE application_participants
+          SET verification_status = $2,
+              credit_score = COALESCE($3, credit_score),
+              updated_at = NOW()
+        WHERE id = $1`,
+      [id, verificationStatus, creditScore ?? null]
+    );
+  }
+
+  private mapParticipant(row: any): ApplicationParticipant {
+    return {
+      id: row.id,
+      applicationId: row.application_id,
+      role: row.role,
+      email: row.email,
+      userId: row.user_id,
+      status: row.status,
+      inviteExpiresAt: row.invite_expires_at,
+      monthlyIncome: row.monthly_income === null ? null : Number(row.monthly_income),
+      creditScore: row.credit_score,
+      employmentDetails: row.employment_details,
+      documents: row.documents || [],
+      verificationStatus: row.verification_status,
+      invitedBy: row.invited_by,
+      acceptedAt: row.accepted_at,
+      submittedAt: row.submitted_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
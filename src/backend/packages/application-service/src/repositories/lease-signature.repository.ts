@@ -0,0 +1,231 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { ConflictException, NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import {
+  LeaseDocument,
+  LeaseSignature,
+  LeaseSignatureEvent,
+  LeaseSignatureStatus
+} from '../models/lease.model';
+
+// PostgreSQL unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Repository class for lease signatures, the signing audit trail and
+ * executed lease documents
+ */
+@EntityRepository(LeaseSignature)
+export class LeaseSignatureRepository extends Repository<LeaseSignature> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Creates pending signature requests and their audit events in one transaction
+   * @param signatures - Signature requests to create
+   * @param events - Audit events recorded alongside the requests
+   * @returns Promise resolving to created signature requests
+   */
+  async createSignatureRequests(
+    signatures: Partial<LeaseSignature>[],
+    events: LeaseSignatureEvent[]
+  ): Promise<LeaseSignature[]> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const created = await this.queryRunner.manager.save(
+        signatures.map((signature) => this.create({
+          ...signature,
+          status: LeaseSignatureStatus.PENDING
+        }))
+      );
+      for (const event of events) {
+        await this.appendEvent(event);
+      }
+
+      await this.queryRunner.commitTransaction();
+
+      return created;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to create signature requests', {
+        error: error.message,
+        leaseId: signatures[0]?.leaseId
+      });
+
+      throw new ConflictException('Failed to create signature requests');
+    }
+  }
+
+  /**
+   * Retrieves all signatures for a lease in signing order
+   * @param leaseId - Lease identifier
+   * @returns Promise resolving to signatures
+   */
+  async findByLeaseId(leaseId: string): Promise<LeaseSignature[]> {
+    return this.find({
+      where: { leaseId },
+      order: { signingOrder: 'ASC' }
+    });
+  }
+
+  /**
+   * Records a party's signature together with its audit event
+   * @param signatureId - Signature identifier
+   * @param changes - Signature fields to persist
+   * @param event - Audit event for the signature
+   * @returns Promise resolving to updated signature
+   * @throws ConflictException if the signature is no longer pending or another
+   * event was appended to the audit trail first
+   */
+  async recordSignature(
+    signatureId: string,
+    changes: Partial<LeaseSignature>,
+    event: LeaseSignatureEvent
+  ): Promise<LeaseSignature> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const signature = await this.findOne({
+        where: { id: signatureId, status: LeaseSignatureStatus.PENDING }
+      });
+
+      if (!signature) {
+        throw new ConflictException('Signature already recorded');
+      }
+
+      Object.assign(signature, changes);
+      const updated = await this.queryRunner.manager.save(signature);
+      await this.appendEvent(event);
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Recorded lease signature', {
+        leaseId: signature.leaseId,
+        signatureId,
+        status: updated.status
+      });
+
+      return updated;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to record signature', {
+        error: error.message,
+        signatureId
+      });
+
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException('Another signature was recorded at the same time, please try again');
+      }
+      throw new ConflictException('Failed to record signature');
+    }
+  }
+
+  /**
+   * Retrieves the signing audit trail for a lease in chronological order
+   * @param leaseId - Lease identifier
+   * @returns Promise resolving to audit events
+   */
+  async findEvents(leaseId: string): Promise<LeaseSignatureEvent[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT lease_id, user_id, action, ip_address, user_agent, signature_hash,
+              content_hash, timestamp, previous_hash, event_hash
+         FROM lease_signature_events
+        WHERE lease_id = $1
+        ORDER BY timestamp ASC`,
+      [leaseId]
+    );
+
+    return rows.map((row: Record<string, any>) => ({
+      leaseId: row.lease_id,
+      userId: row.user_id,
+      action: row.action,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      signatureHash: row.signature_hash,
+      contentHash: row.content_hash,
+      timestamp: row.timestamp,
+      previousHash: row.previous_hash,
+      eventHash: row.event_hash
+    }));
+  }
+
+  /**
+   * Appends a single audit event
+   * @param event - Audit event to append
+   */
+  async appendEvent(event: LeaseSignatureEvent): Promise<void> {
+    await this.queryRunner.query(
+      `INSERT INTO lease_signature_events (
+         lease_id, user_id, action, ip_address, user_agent, signature_hash,
+         content_hash, timestamp, previous_hash, event_hash
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        event.leaseId,
+        event.userId,
+        event.action,
+        event.ipAddress,
+        event.userAgent,
+        event.signatureHash,
+        event.contentHash,
+        event.timestamp,
+        event.previousHash,
+        event.eventHash
+      ]
+    );
+  }
+
+  /**
+   * Stores the executed lease document, replacing one left by an interrupted
+   * finalization
+   * @param document - Final document and digest
+   */
+  async saveDocument(document: LeaseDocument): Promise<void> {
+    await this.queryRunner.query(
+      `INSERT INTO lease_documents (lease_id, content, sha256, finalized_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (lease_id) DO UPDATE
+         SET content = EXCLUDED.content,
+             sha256 = EXCLUDED.sha256,
+             finalized_at = EXCLUDED.finalized_at`,
+      [document.leaseId, document.content, document.sha256, document.finalizedAt]
+    );
+  }
+
+  /**
+   * Retrieves the executed lease document
+   * @param leaseId - Lease identifier
+   * @returns Promise resolving to the document
+   * @throws NotFoundException if the lease has not been fully executed
+   */
+  async findDocument(leaseId: string): Promise<LeaseDocument> {
+    const [row] = await this.queryRunner.query(
+      'SELECT lease_id, content, sha256, finalized_at FROM lease_documents WHERE lease_id = $1',
+      [leaseId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Executed lease document not found');
+    }
+
+    return {
+      leaseId: row.lease_id,
+      content: row.content,
+      sha256: row.sha256,
+      finalizedAt: row.finalized_at
+    };
+  }
+}
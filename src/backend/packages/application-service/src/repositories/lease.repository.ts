@@ -0,0 +1,333 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { BadRequestException, ConflictException, HttpException, NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import { LeaseTerms, UnitStatus } from '@listing-service/models';
+import { Lease, LeaseSignatureStatus, LeaseStatus } from '../models/lease.model';
+import { PropertyStaff } from './maintenance.repository';
+
+/**
+ * Statuses that end a lease's hold on its unit
+ */
+const UNIT_RELEASING_STATUSES: readonly LeaseStatus[] = [
+  LeaseStatus.TERMINATED,
+  LeaseStatus.EXPIRED,
+  LeaseStatus.CANCELLED
+];
+
+/**
+ * Unit and property details required to draft a lease
+ */
+export interface LeaseUnitContext {
+  readonly unitId: string;
+  readonly propertyId: string;
+  readonly monthlyRent: number;
+  readonly ownerId: string;
+  readonly propertyManagerId: string | null;
+  readonly leaseTerms: LeaseTerms;
+}
+
+/**
+ * Repository class for managing lease data persistence with transaction
+ * management and unit status synchronization
+ */
+@EntityRepository(Lease)
+export class LeaseRepository extends Repository<Lease> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Creates a new draft lease with transaction support
+   * @param leaseData - Lease details including parties
+   * @returns Promise resolving to the created lease
+   * @throws ConflictException if a lease already exists for the application
+   */
+  async createLease(leaseData: Partial<Lease>): Promise<Lease> {
+    this.logger.debug('Starting lease creation transaction', {
+      applicationId: leaseData.applicationId,
+      unitId: leaseData.unitId
+    });
+
+    try {
+      await this.queryRunner.startTransaction();
+
+      const lease = this.create({
+        ...leaseData,
+        status: LeaseStatus.DRAFT,
+        version: 1
+      });
+
+      const savedLease = await this.queryRunner.manager.save(lease);
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Successfully created lease', { leaseId: savedLease.id });
+
+      return savedLease;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to create lease', {
+        error: error.message,
+        applicationId: leaseData.applicationId
+      });
+
+      throw new ConflictException('Failed to create lease');
+    }
+  }
+
+  /**
+   * Retrieves a lease by ID with its parties
+   * @param id - Lease identifier
+   * @returns Promise resolving to found lease
+   * @throws NotFoundException if lease doesn't exist
+   */
+  async findById(id: string): Promise<Lease> {
+    this.logger.debug('Finding lease by ID', { leaseId: id });
+
+    const lease = await this.findOne({
+      where: { id },
+      relations: ['parties']
+    });
+
+    if (!lease) {
+      this.logger.warn('Lease not found', { leaseId: id });
+      throw new NotFoundException('Lease not found');
+    }
+
+    return lease;
+  }
+
+  /**
+   * Finds the lease generated from an application, if any
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to the lease or null
+   */
+  async findByApplicationId(applicationId: string): Promise<Lease | null> {
+    return this.findOne({
+      where: { applicationId },
+      relations: ['parties']
+    });
+  }
+
+  /**
+   * Loads the unit, rent and property lease terms needed to draft a lease
+   * @param unitId - Unit identifier
+   * @returns Promise resolving to the unit context
+   * @throws NotFoundException if the unit doesn't exist
+   */
+  async findUnitContext(unitId: string): Promise<LeaseUnitContext> {
+    const [row] = await this.queryRunner.query(
+      `SELECT u.id AS unit_id, u.property_id, u.base_rent,
+              p.owner_id, p.property_manager_id, p.lease_terms
+         FROM units u
+         JOIN properties p ON p.id = u.property_id
+        WHERE u.id = $1 AND u.deleted_at IS NULL`,
+      [unitId]
+    );
+
+    if (!row) {
+      this.logger.warn('Unit not found for lease', { unitId });
+      throw new NotFoundException('Unit not found');
+    }
+
+    return {
+      unitId: row.unit_id,
+      propertyId: row.property_id,
+      monthlyRent: Number(row.base_rent),
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id,
+      leaseTerms: row.lease_terms
+    };
+  }
+
+  /**
+   * Loads the owner and manager of a property
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to property staff
+   * @throws NotFoundException if the property doesn't exist
+   */
+  async findPropertyStaff(propertyId: string): Promise<PropertyStaff> {
+    const [row] = await this.queryRunner.query(
+      'SELECT owner_id, property_manager_id FROM properties WHERE id = $1',
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return { ownerId: row.owner_id, propertyManagerId: row.property_manager_id };
+  }
+
+  /**
+   * Updates lease status with optimistic locking, holding a row lock on the
+   * lease for the whole transaction. Activating a lease requires every party
+   * to have signed and marks its unit as rented; ending a lease releases the
+   * unit unless another active lease holds it.
+   * @param id - Lease identifier
+   * @param status - New lease status
+   * @param version - Current version for optimistic locking
+   * @param changes - Additional fields to persist with the status change
+   * @returns Promise resolving to updated lease
+   * @throws ConflictException on version mismatch
+   * @throws BadRequestException when activating before every party has signed
+   */
+  async updateStatus(
+    id: string,
+    status: LeaseStatus,
+    version: number,
+    changes: Partial<Lease> = {}
+  ): Promise<Lease> {
+    this.logger.debug('Starting lease status update transaction', {
+      leaseId: id,
+      newStatus: status
+    });
+
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [locked] = await this.queryRunner.query(
+        'SELECT id FROM leases WHERE id = $1 AND version = $2 FOR UPDATE',
+        [id, version]
+      );
+
+      if (!locked) {
+        throw new ConflictException('Version mismatch or lease not found');
+      }
+
+      const lease = await this.queryRunner.manager.findOne(this.target, {
+        where: { id },
+        relations: ['parties']
+      }) as Lease;
+
+      if (status === LeaseStatus.ACTIVE) {
+        const [{ unsigned }] = await this.queryRunner.query(
+          `SELECT COUNT(*)::int AS unsigned
+             FROM lease_parties p
+             LEFT JOIN lease_signatures s
+               ON s.lease_id = p.lease_id AND s.user_id = p.user_id AND s.status = $2
+            WHERE p.lease_id = $1 AND s.id IS NULL`,
+          [id, LeaseSignatureStatus.SIGNED]
+        );
+
+        if (lease.parties.length === 0 || unsigned > 0) {
+          throw new BadRequestException('Lease can only be activated once every party has signed');
+        }
+      }
+
+      const previousStatus = lease.status;
+      Object.assign(lease, changes);
+      lease.status = status;
+      lease.version = version + 1;
+
+      const updatedLease = await this.queryRunner.manager.save(lease);
+
+      if (status === LeaseStatus.ACTIVE) {
+        await this.queryRunner.query(
+          'UPDATE units SET status = $1, is_available = false, updated_at = NOW() WHERE id = $2',
+          [UnitStatus.RENTED, lease.unitId]
+        );
+      } else if (UNIT_RELEASING_STATUSES.includes(status)) {
+        await this.queryRunner.query(
+          `UPDATE units SET status = $1, is_available = true, updated_at = NOW()
+            WHERE id = $2 AND status = $3
+              AND NOT EXISTS (
+                SELECT 1 FROM leases WHERE unit_id = $2 AND status = $4 AND id <> $5
+              )`,
+          [UnitStatus.AVAILABLE, lease.unitId, UnitStatus.RENTED, LeaseStatus.ACTIVE, id]
+        );
+      }
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Successfully updated lease status', {
+        leaseId: id,
+        oldStatus: previousStatus,
+        newStatus: status
+      });
+
+      return updatedLease;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to update lease status', {
+        error: error.message,
+        leaseId: id
+      });
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new ConflictException('Failed to update lease status');
+    }
+  }
+
+  /**
+   * Records the date the tenant will vacate with optimistic locking
+   * @param id - Lease identifier
+   * @param version - Current version for optimistic locking
+   * @param noticeToVacateDate - Last day of occupancy
+   * @returns Promise resolving to updated lease
+   * @throws ConflictException on version mismatch
+   */
+  async updateNotice(id: string, version: number, noticeToVacateDate: Date): Promise<Lease> {
+    const lease = await this.findOne({
+      where: { id, version },
+      relations: ['parties']
+    });
+
+    if (!lease) {
+      throw new ConflictException('Version mismatch or lease not found');
+    }
+
+    lease.noticeToVacateDate = noticeToVacateDate;
+    lease.noticeGivenAt = new Date();
+    lease.version = version + 1;
+
+    const updatedLease = await this.save(lease);
+
+    this.logger.info('Recorded notice to vacate', { leaseId: id, noticeToVacateDate });
+
+    return updatedLease;
+  }
+
+  /**
+   * Finds all leases for a specific unit with pagination
+   * @param unitId - Unit identifier
+   * @param skip - Number of records to skip
+   * @param take - Number of records to take
+   * @returns Promise resolving to paginated leases
+   */
+  async findByUnitId(
+    unitId: string,
+    skip: number = 0,
+    take: number = 10
+  ): Promise<[Lease[], number]> {
+    this.logger.debug('Finding leases by unit ID', { unitId, skip, take });
+
+    try {
+      return await this.findAndCount({
+        where: { unitId },
+        relations: ['parties'],
+        skip,
+        take,
+        order: { startDate: 'DESC' }
+      });
+
+    } catch (error) {
+      this.logger.error('Failed to fetch leases by unit', {
+        error: error.message,
+        unitId
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { ConflictException, NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import {
+  MaintenanceEvent,
+  MaintenancePhoto,
+  MaintenanceRequest,
+  MaintenanceStatus
+} from '../models/maintenance.model';
+
+/**
+ * Active tenancy a tenant reports maintenance under
+ */
+export interface MaintenanceTenancy {
+  readonly leaseId: string;
+  readonly propertyId: string;
+  readonly unitId: string;
+}
+
+/**
+ * Staff responsible for a property
+ */
+export interface PropertyStaff {
+  readonly ownerId: string;
+  readonly propertyManagerId: string | null;
+}
+
+/**
+ * Photo upload persisted with a request
+ */
+export interface MaintenancePhotoUpload {
+  readonly mimeType: MaintenancePhoto['mimeType'];
+  readonly fileName: string;
+  readonly size: number;
+  readonly content: Buffer;
+}
+
+/**
+ * Repository class for maintenance requests, their photos and status history
+ * with transaction management and optimistic locking
+ */
+@EntityRepository(MaintenanceRequest)
+export class MaintenanceRepository extends Repository<MaintenanceRequest> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Finds the tenant's active lease on a unit
+   * @param unitId - Unit identifier
+   * @param userId - Tenant identifier
+   * @returns Promise resolving to the tenancy or null
+   */
+  async findActiveTenancy(unitId: string, userId: string): Promise<MaintenanceTenancy | null> {
+    const [row] = await this.queryRunner.query(
+      `SELECT l.id, l.property_id, l.unit_id
+         FROM leases l
+         JOIN lease_parties lp ON lp.lease_id = l.id
+        WHERE l.unit_id = $1 AND lp.user_id = $2
+          AND lp.role = 'TENANT' AND l.status = 'ACTIVE'`,
+      [unitId, userId]
+    );
+
+    return row
+      ? { leaseId: row.id, propertyId: row.property_id, unitId: row.unit_id }
+      : null;
+  }
+
+  /**
+   * Loads the owner and manager of a property
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to property staff
+   * @throws NotFoundException if the property doesn't exist
+   */
+  async findPropertyStaff(propertyId: string): Promise<PropertyStaff> {
+    const [row] = await this.queryRunner.query(
+      'SELECT owner_id, property_manager_id FROM properties WHERE id = $1',
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return { ownerId: row.owner_id, propertyManagerId: row.property_manager_id };
+  }
+
+  /**
+   * Creates a maintenance request with its photos and opening event
+   * @param requestData - Request details
+   * @param photos - Uploaded photos
+   * @returns Promise resolving to created request
+   */
+  async createRequest(
+    requestData: Pick<MaintenanceRequest,
+      'propertyId' | 'unitId' | 'leaseId' | 'reportedBy' | 'title' | 'description' |
+      'category' | 'priority' | 'permissionToEnter'>,
+    photos: readonly MaintenancePhotoUpload[]
+  ): Promise<MaintenanceRequest> {
+    this.logger.debug('Starting maintenance request creation transaction', {
+      unitId: requestData.unitId
+    });
+
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [row] = await this.queryRunner.query(
+        `INSERT INTO maintenance_requests
+           (property_id, unit_id, lease_id, reported_by, title, description,
+            category, priority, permission_to_enter, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING id`,
+        [
+          requestData.propertyId,
+          requestData.unitId,
+          requestData.leaseId,
+          requestData.reportedBy,
+          requestData.title,
+          requestData.description,
+          requestData.category,
+          requestData.priority,
+          requestData.permissionToEnter,
+          MaintenanceStatus.OPEN
+        ]
+      );
+
+      for (const photo of photos) {
+        await this.queryRunner.query(
+          `INSERT INTO maintenance_request_photos
+             (request_id, mime_type, file_name, size, content, uploaded_by)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [row.id, photo.mimeType, photo.fileName, photo.size, photo.content, requestData.reportedBy]
+        );
+      }
+
+      await this.insertEvent({
+        requestId: row.id,
+        fromStatus: null,
+        toStatus: MaintenanceStatus.OPEN,
+        actorId: requestData.reportedBy,
+        note: null
+      });
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Successfully created maintenance request', { requestId: row.id });
+
+      return this.findById(row.id);
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to create maintenance request', {
+        error: error.message,
+        unitId: requestData.unitId
+      });
+
+      throw new ConflictException('Failed to create maintenance request');
+    }
+  }
+
+  /**
+   * Retrieves a maintenance request with photo metadata
+   * @param id - Request identifier
+   * @returns Promise resolving to request
+   * @throws NotFoundException if request doesn't exist
+   */
+  async findById(id: string): Promise<MaintenanceRequest> {
+    const [request] = await this.findRequests('r.id = $1', [id]);
+
+    if (!request) {
+      this.logger.warn('Maintenance request not found', { requestId: id });
+      throw new NotFoundException('Maintenance request not found');
+    }
+
+    return request;
+  }
+
+  /**
+   * Retrieves requests reported by a tenant, newest first
+   * @param userId - Tenant identifier
+   * @returns Promise resolving to requests
+   */
+  async findByReporter(userId: string): Promise<MaintenanceRequest[]> {
+    return this.findRequests('r.reported_by = $1', [userId]);
+  }
+
+  /**
+   * Retrieves requests for a property, optionally filtered by status
+   * @param propertyId - Property identifier
+   * @param statuses - Optional status filter
+   * @returns Promise resolving to requests
+   */
+  async findByProperty(
+    propertyId: string,
+    statuses?: readonly MaintenanceStatus[]
+  ): Promise<MaintenanceRequest[]> {
+    return statuses?.length
+      ? this.findRequests('r.property_id = $1 AND r.status = ANY($2)', [propertyId, statuses])
+      : this.findRequests('r.property_id = $1', [propertyId]);
+  }
+
+  /**
+   * Applies a status transition with its history event using optimistic locking
+   * @param id - Request identifier
+   * @param version - Version the caller read
+   * @param changes - Fields to persist with the transition
+   * @param event - History event for the transition
+   * @returns Promise resolving to updated request
+   * @throws ConflictException on concurrent modification
+   */
+  async updateStatus(
+    id: string,
+    version: number,
+    changes: Partial<MaintenanceRequest>,
+    event: Omit<MaintenanceEvent, 'createdAt'>
+  ): Promise<MaintenanceRequest> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [row] = await this.queryRunner.query(
+        `UPDATE maintenance_requests
+            SET status = $1,
+                vendor_name = COALESCE($2, vendor_name),
+                vendor_phone = COALESCE($3, vendor_phone),
+                vendor_email = COALESCE($4, vendor_email),
+                assigned_by = COALESCE($5, assigned_by),
+                entry_window_start = COALESCE($6, entry_window_start),
+                entry_window_end = COALESCE($7, entry_window_end),
+                resolution_notes = COALESCE($8, resolution_notes),
+                completed_at = COALESCE($9, completed_at),
+                cost = COALESCE($10, cost),
+                version = version + 1,
+                updated_at = NOW()
+          WHERE id = $11 AND version = $12
+          RETURNING id`,
+        [
+          event.toStatus,
+          changes.vendor?.name ?? null,
+          changes.vendor?.phone ?? null,
+          changes.vendor?.email ?? null,
+          changes.assignedBy ?? null,
+          changes.entryWindowStart ?? null,
+          changes.entryWindowEnd ?? null,
+          changes.resolutionNotes ?? null,
+          changes.completedAt ?? null,
+          changes.cost ?? null,
+          id,
+          version
+        ]
+      );
+
+      if (!row) {
+        throw new ConflictException('Maintenance request was modified concurrently');
+      }
+
+      await this.insertEvent(event);
+
+      await this.queryRunner.commitTransaction();
+
+      return this.findById(id);
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to update maintenance request', {
+        error: error.message,
+        requestId: id,
+        status: event.toStatus
+      });
+
+      throw error instanceof ConflictException
+        ? error
+        : new ConflictException('Failed to update maintenance request');
+    }
+  }
+
+  /**
+   * Retrieves the status history of a request, oldest first
+   * @param requestId - Request identifier
+   * @returns Promise resolving to events
+   */
+  async findEvents(requestId: string): Promise<MaintenanceEvent[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT request_id, from_status, to_status, actor_id, note, created_at
+         FROM maintenance_request_events
+        WHERE request_id = $1
+        ORDER BY created_at ASC`,
+      [requestId]
+    );
+
+    return rows.map((row) => ({
+      requestId: row.request_id,
+      fromStatus: row.from_status,
+      toStatus: row.to_status,
+      actorId: row.actor_id,
+      note: row.note,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Retrieves a photo's content
+   * @param requestId - Request identifier
+   * @param photoId - Photo identifier
+   * @returns Promise resolving to photo metadata and content
+   * @throws NotFoundException if photo doesn't exist
+   */
+  async findPhoto(
+    requestId: string,
+    photoId: string
+  ): Promise<MaintenancePhoto & { content: Buffer }> {
+    const [row] = await this.queryRunner.query(
+      'SELECT * FROM maintenance_request_photos WHERE id = $1 AND request_id = $2',
+      [photoId, requestId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Photo not found');
+    }
+
+    return { ...this.mapPhoto(row), content: row.content };
+  }
+
+  private async insertEvent(event: Omit<MaintenanceEvent, 'createdAt'>): Promise<void> {
+    await this.queryRunner.query(
+      `INSERT INTO maintenance_request_events (request_id, from_status, to_status, actor_id, note)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [event.requestId, event.fromStatus, event.toStatus, event.actorId, event.note]
+    );
+  }
+
+  private async findRequests(condition: string, params: unknown[]): Promise<MaintenanceRequest[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT r.*,
+              COALESCE(json_agg(json_build_object(
+                'id', p.id, 'request_id', p.request_id, 'mime_type', p.mime_type,
+                'file_name', p.file_name, 'size', p.size,
+                'uploaded_by', p.uploaded_by, 'uploaded_at', p.uploaded_at
+              )) FILTER (WHERE p.id IS NOT NULL), '[]') AS photos
+         FROM maintenance_requests r
+         LEFT JOIN maintenance_request_photos p ON p.request_id = r.id
+        WHERE ${condition}
+        GROUP BY r.id
+        ORDER BY r.created_at DESC`,
+      params
+    );
+
+    return rows.map((row) => ({
+      id: row.id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      leaseId: row.lease_id,
+      reportedBy: row.reported_by,
+      title: row.title,
+      description: row.description,
+      category: row.category,
+      priority: row.priority,
+      status: row.status,
+      permissionToEnter: row.permission_to_enter,
+      vendor: row.vendor_name
+        ? { name: row.vendor_name, phone: row.vendor_phone, email: row.vendor_email }
+        : null,
+      assignedBy: row.assigned_by,
+      entryWindowStart: row.entry_window_start,
+      entryWindowEnd: row.entry_window_end,
+      resolutionNotes: row.resolution_notes,
+      completedAt: row.completed_at,
+      cost: row.cost === null ? null : Number(row.cost),
+      photos: row.photos.map((photo) => this.mapPhoto(photo)),
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  private mapPhoto(row: any): MaintenancePhoto {
+    return {
+      id: row.id,
+      requestId: row.request_id,
+      mimeType: row.mime_type,
+      fileName: row.file_name,
+      size: row.size,
+      uploadedBy: row.uploaded_by,
+      uploadedAt: row.uploaded_at
+    };
+  }
+}
@@ -0,0 +1,285 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import {
+  EvictionRecord,
+  ScreeningCriteria,
+  ScreeningResult
+} from '../models/screening.model';
+import { VerificationStatus } from '../models/application.model';
+import { ParticipantRole, ParticipantStatus } from '../models/household.model';
+import { PropertyStaff } from './maintenance.repository';
+
+/**
+ * Application details screening is evaluated against
+ */
+export interface ScreeningApplicationContext extends PropertyStaff {
+  readonly applicationId: string;
+  readonly applicantId: string;
+  readonly propertyId: string;
+  readonly unitId: string;
+  readonly monthlyIncome: number;
+  readonly creditScore: number | null;
+  /** Unit's monthly rent */
+  readonly monthlyRent: number;
+}
+
+/**
+ * Co-applicant or guarantor considered in screening
+ */
+export interface ScreeningHouseholdMember {
+  readonly participantId: string;
+  readonly role: ParticipantRole;
+  readonly status: ParticipantStatus;
+  readonly monthlyIncome: number | null;
+  readonly creditScore: number | null;
+  readonly verificationStatus: VerificationStatus;
+}
+
+/**
+ * Latest completed background check for an application
+ */
+export interface ScreeningBackgroundCheck {
+  readonly evictions: readonly EvictionRecord[];
+  readonly completedAt: Date;
+}
+
+/**
+ * Repository class for per-property screening criteria and recorded
+ * screening results
+ */
+@EntityRepository(ScreeningResult)
+export class ScreeningRepository extends Repository<ScreeningResult> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Loads an application with its unit rent and property staff
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to application context
+   * @throws NotFoundException if the application doesn't exist
+   */
+  async findApplicationContext(applicationId: string): Promise<ScreeningApplicationContext> {
+    const [row] = await this.queryRunner.query(
+      `SELECT a.id, a.user_id, a.unit_id, a.monthly_income, a.credit_score,
+              u.property_id, u.base_rent, p.owner_id, p.property_manager_id
+         FROM applications a
+         JOIN units u ON u.id = a.unit_id
+         JOIN properties p ON p.id = u.property_id
+        WHERE a.id = $1 AND a.deleted_at IS NULL`,
+      [applicationId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Application not found');
+    }
+
+    return {
+      applicationId: row.id,
+      applicantId: row.user_id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      monthlyIncome: Number(row.monthly_income),
+      creditScore: row.credit_score === null ? null : Number(row.credit_score),
+      monthlyRent: Number(row.base_rent),
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id
+    };
+  }
+
+  /**
+   * Loads the owner and manager of a property
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to property staff
+   * @throws NotFoundException if the property doesn't exist
+   */
+  async findPropertyStaff(propertyId: string): Promise<PropertyStaff> {
+    const [row] = await this.queryRunner.query(
+      'SELECT owner_id, property_manager_id FROM properties WHERE id = $1',
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return { ownerId: row.owner_id, propertyManagerId: row.property_manager_id };
+  }
+
+  /**
+   * Retrieves a property's screening criteria
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to criteria or null when not configured
+   */
+  async findCriteria(propertyId: string): Promise<ScreeningCriteria | null> {
+    const [row] = await this.queryRunner.query(
+      'SELECT * FROM screening_criteria WHERE property_id = $1',
+      [propertyId]
+    );
+
+    return row ? this.mapCriteria(row) : null;
+  }
+
+  /**
+   * Creates or replaces a property's screening criteria
+   * @param criteria - Criteria to store
+   * @returns Promise resolving to stored criteria
+   */
+  async upsertCriteria(
+    criteria: Omit<ScreeningCriteria, 'updatedAt'> & { updatedBy: string }
+  ): Promise<ScreeningCriteria> {
+    const [row] = await this.queryRunner.query(
+      `INSERT INTO screening_criteria
+         (property_id, income_multiple, min_credit_score, max_evictions,
+          eviction_lookback_years, allow_co_signer, co_signer_income_multiple, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (property_id) DO UPDATE SET
+         income_multiple = EXCLUDED.income_multiple,
+         min_credit_score = EXCLUDED.min_credit_score,
+         max_evictions = EXCLUDED.max_evictions,
+         eviction_lookback_years = EXCLUDED.eviction_lookback_years,
+         allow_co_signer = EXCLUDED.allow_co_signer,
+         co_signer_income_multiple = EXCLUDED.co_signer_income_multiple,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        criteria.propertyId,
+        criteria.incomeMultiple,
+        criteria.minCreditScore,
+        criteria.maxEvictions,
+        criteria.evictionLookbackYears,
+        criteria.allowCoSigner,
+        criteria.coSignerIncomeMultiple,
+        criteria.updatedBy
+      ]
+    );
+
+    this.logger.info('Screening criteria updated', { propertyId: criteria.propertyId });
+
+    return this.mapCriteria(row);
+  }
+
+  /**
+   * Retrieves the co-applicants and guarantors still on an application
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to household members
+   */
+  async findHouseholdMembers(applicationId: string): Promise<ScreeningHouseholdMember[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT id, role, status, monthly_income, credit_score, verification_status
+         FROM application_participants
+        WHERE application_id = $1 AND status NOT IN ($2, $3)`,
+      [applicationId, ParticipantStatus.DECLINED, ParticipantStatus.REMOVED]
+    );
+
+    return rows.map((row) => ({
+      participantId: row.id,
+      role: row.role,
+      status: row.status,
+      monthlyIncome: row.monthly_income === null ? null : Number(row.monthly_income),
+      creditScore: row.credit_score,
+      verificationStatus: row.verification_status
+    }));
+  }
+
+  /**
+   * Retrieves the latest completed background check of an applicant
+   * @param applicationId - Application identifier
+   * @param participantId - Co-applicant checked; null for the primary applicant
+   * @returns Promise resolving to the check or null
+   */
+  async findLatestBackgroundCheck(
+    applicationId: string,
+    participantId: string | null = null
+  ): Promise<ScreeningBackgroundCheck | null> {
+    const [row] = await this.queryRunner.query(
+      `SELECT results, completed_at FROM background_checks
+        WHERE application_id = $1 AND participant_id IS NOT DISTINCT FROM $2
+          AND status = 'COMPLETED'
+        ORDER BY completed_at DESC
+        LIMIT 1`,
+      [applicationId, participantId]
+    );
+
+    return row
+      ? { evictions: row.results?.evictions || [], completedAt: row.completed_at }
+      : null;
+  }
+
+  /**
+   * Records a screening evaluation
+   * @param result - Evaluation to record
+   * @returns Promise resolving to recorded result
+   */
+  async createResult(result: Omit<ScreeningResult, 'id' | 'evaluatedAt'>): Promise<ScreeningResult> {
+    const [row] = await this.queryRunner.query(
+      `INSERT INTO application_screening_results
+         (application_id, property_id, recommendation, reasons, criteria, facts, evaluated_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        result.applicationId,
+        result.propertyId,
+        result.recommendation,
+        JSON.stringify(result.reasons),
+        JSON.stringify(result.criteria),
+        JSON.stringify(result.facts),
+        result.evaluatedBy
+      ]
+    );
+
+    return this.mapResult(row);
+  }
+
+  /**
+   * Retrieves the most recent screening evaluation of an application
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to result or null
+   */
+  async findLatestResult(applicationId: string): Promise<ScreeningResult | null> {
+    const [row] = await this.queryRunner.query(
+      `SELECT * FROM application_screening_results
+        WHERE application_id = $1
+        ORDER BY evaluated_at DESC
+        LIMIT 1`,
+      [applicationId]
+    );
+
+    return row ? this.mapResult(row) : null;
+  }
+
+  private mapCriteria(row: any): ScreeningCriteria {
+    return {
+      propertyId: row.property_id,
+      incomeMultiple: row.income_multiple === null ? null : Number(row.income_multiple),
+      minCreditScore: row.min_credit_score,
+      maxEvictions: row.max_evictions,
+      evictionLookbackYears: row.eviction_lookback_years,
+      allowCoSigner: row.allow_co_signer,
+      coSignerIncomeMultiple: row.co_signer_income_multiple === null ? null : Number(row.co_signer_income_multiple),
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapResult(row: any): ScreeningResult {
+    return {
+      id: row.id,
+      applicationId: row.application_id,
+      propertyId: row.property_id,
+      recommendation: row.recommendation,
+      reasons: row.reasons,
+      criteria: row.criteria,
+      facts: row.facts,
+      evaluatedBy: row.evaluated_by,
+      evaluatedAt: row.evaluated_at
+    };
+  }
+}
@@ -0,0 +1,477 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { ConflictException, NotFoundException } from '@nestjs/common'; // @nestjs/common v9.0.0
+import { Tour, TourSlot, TourStatus, TourType } from '../models/tour.model';
+
+// PostgreSQL unique_violation error code
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Property details used for access checks and tour notifications
+ */
+export interface TourPropertyContext {
+  readonly propertyId: string;
+  readonly name: string;
+  readonly ownerId: string;
+  readonly propertyManagerId: string | null;
+  /** Primary address formatted on one line */
+  readonly address: string | null;
+}
+
+/**
+ * Availability slot to publish
+ */
+export interface TourSlotInput {
+  readonly propertyId: string;
+  readonly unitId: string | null;
+  readonly createdBy: string;
+  readonly startsAt: Date;
+  readonly endsAt: Date;
+  readonly tourTypes: readonly TourType[];
+  readonly capacity: number;
+}
+
+/**
+ * Booking to persist against a slot
+ */
+export interface TourBookingInput {
+  readonly slotId: string;
+  readonly renterId: string;
+  readonly type: TourType;
+  readonly notes: string | null;
+}
+
+/**
+ * Repository class for tour availability slots and bookings with
+ * capacity-checked booking to prevent double-booking
+ */
+@EntityRepository(Tour)
+export class TourRepository extends Repository<Tour> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Loads property staff and address details
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to property context
+   * @throws NotFoundException if the property doesn't exist
+   */
+  async findPropertyContext(propertyId: string): Promise<TourPropertyContext> {
+    const [row] = await this.queryRunner.query(
+      `SELECT p.id, p.name, p.owner_id, p.property_manager_id,
+              a.street_address, a.city, a.state, a.postal_code
+         FROM properties p
+         LEFT JOIN property_addresses a ON a.property_id = p.id AND a.is_primary = true
+        WHERE p.id = $1 AND p.deleted_at IS NULL`,
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return {
+      propertyId: row.id,
+      name: row.name,
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id,
+      address: row.street_address
+        ? `${row.street_address}, ${row.city}, ${row.state} ${row.postal_code}`
+        : null
+    };
+  }
+
+  /**
+   * Finds active slots on a property overlapping a time range
+   * @param propertyId - Property identifier
+   * @param startsAt - Range start
+   * @param endsAt - Range end
+   * @returns Promise resolving to overlapping slots
+   */
+  async findOverlappingSlots(propertyId: string, startsAt: Date, endsAt: Date): Promise<TourSlot[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM tour_availability_slots
+        WHERE property_id = $1 AND is_cancelled = false
+          AND starts_at < $3 AND ends_at > $2`,
+      [propertyId, startsAt, endsAt]
+    );
+
+    return rows.map((row) => this.mapSlot(row));
+  }
+
+  /**
+   * Publishes availability slots in a single transaction
+   * @param slots - Slots to create
+   * @returns Promise resolving to created slots
+   */
+  async createSlots(slots: readonly TourSlotInput[]): Promise<TourSlot[]> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const created: TourSlot[] = [];
+      for (const slot of slots) {
+        const [row] = await this.queryRunner.query(
+          `INSERT INTO tour_availability_slots
+             (property_id, unit_id, created_by, starts_at, ends_at, tour_types, capacity)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [
+            slot.propertyId,
+            slot.unitId,
+            slot.createdBy,
+            slot.startsAt,
+            slot.endsAt,
+            slot.tourTypes,
+            slot.capacity
+          ]
+        );
+        created.push(this.mapSlot(row));
+      }
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Published tour slots', {
+        propertyId: slots[0]?.propertyId,
+        count: created.length
+      });
+
+      return created;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to publish tour slots', { error: error.message });
+
+      throw new ConflictException('Failed to publish tour slots');
+    }
+  }
+
+  /**
+   * Retrieves a slot by ID
+   * @param id - Slot identifier
+   * @returns Promise resolving to slot
+   * @throws NotFoundException if slot doesn't exist
+   */
+  async findSlotById(id: string): Promise<TourSlot> {
+    const [row] = await this.queryRunner.query(
+      'SELECT * FROM tour_availability_slots WHERE id = $1',
+      [id]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Tour slot not found');
+    }
+
+    return this.mapSlot(row);
+  }
+
+  /**
+   * Retrieves bookable slots for a property within a time range
+   * @param propertyId - Property identifier
+   * @param from - Earliest slot start
+   * @param to - Latest slot start
+   * @returns Promise resolving to slots with remaining capacity, soonest first
+   */
+  async findAvailableSlots(propertyId: string, from: Date, to: Date): Promise<TourSlot[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM tour_availability_slots
+        WHERE property_id = $1 AND is_cancelled = false
+          AND booked_count < capacity
+          AND starts_at >= $2 AND starts_at <= $3
+        ORDER BY starts_at ASC`,
+      [propertyId, from, to]
+    );
+
+    return rows.map((row) => this.mapSlot(row));
+  }
+
+  /**
+   * Books a tour, atomically claiming slot capacity. The renter may not hold
+   * another scheduled tour overlapping the slot.
+   * @param booking - Booking details
+   * @param cutoff - Slots starting before this instant can no longer be booked
+   * @returns Promise resolving to created tour
+   * @throws ConflictException if the slot is full, withdrawn or overlaps another booking
+   */
+  async bookTour(booking: TourBookingInput, cutoff: Date): Promise<Tour> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      // Conditional increment serialises concurrent bookings on the slot row
+      const [slot] = await this.queryRunner.query(
+        `UPDATE tour_availability_slots
+            SET booked_count = booked_count + 1, updated_at = NOW()
+          WHERE id = $1 AND is_cancelled = false
+            AND booked_count < capacity AND starts_at >= $2
+          RETURNING *`,
+        [booking.slotId, cutoff]
+      );
+
+      if (!slot) {
+        throw new ConflictException('Tour slot is no longer available');
+      }
+
+      const [overlap] = await this.queryRunner.query(
+        `SELECT id FROM tours
+          WHERE renter_id = $1 AND status = $2
+            AND starts_at < $4 AND ends_at > $3`,
+        [booking.renterId, TourStatus.SCHEDULED, slot.starts_at, slot.ends_at]
+      );
+
+      if (overlap) {
+        throw new ConflictException('You already have a tour booked at this time');
+      }
+
+      const [row] = await this.queryRunner.query(
+        `INSERT INTO tours
+           (slot_id, property_id, unit_id, renter_id, type, status, starts_at, ends_at, notes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          slot.id,
+          slot.property_id,
+          slot.unit_id,
+          booking.renterId,
+          booking.type,
+          TourStatus.SCHEDULED,
+          slot.starts_at,
+          slot.ends_at,
+          booking.notes
+        ]
+      );
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Tour booked', { tourId: row.id, slotId: slot.id });
+
+      return this.mapTour(row);
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to book tour', {
+        error: error.message,
+        slotId: booking.slotId,
+        renterId: booking.renterId
+      });
+
+      if (error instanceof ConflictException) {
+        throw error;
+      }
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictException('You have already booked this tour slot');
+      }
+      throw new ConflictException('Failed to book tour');
+    }
+  }
+
+  /**
+   * Cancels a scheduled tour and releases its slot capacity
+   * @param id - Tour identifier
+   * @param cancelledBy - Acting user
+   * @returns Promise resolving to cancelled tour
+   * @throws ConflictException if the tour is no longer scheduled
+   */
+  async cancelTour(id: string, cancelledBy: string): Promise<Tour> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [row] = await this.queryRunner.query(
+        `UPDATE tours
+            SET status = $1, cancelled_at = NOW(), cancelled_by = $2, updated_at = NOW()
+          WHERE id = $3 AND status = $4
+          RETURNING *`,
+        [TourStatus.CANCELLED, cancelledBy, id, TourStatus.SCHEDULED]
+      );
+
+      if (!row) {
+        throw new ConflictException('Only scheduled tours can be cancelled');
+      }
+
+      await this.queryRunner.query(
+        `UPDATE tour_availability_slots
+            SET booked_count = booked_count - 1, updated_at = NOW()
+          WHERE id = $1 AND booked_count > 0`,
+        [row.slot_id]
+      );
+
+      await this.queryRunner.commitTransaction();
+
+      return this.mapTour(row);
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to cancel tour', { error: error.message, tourId: id });
+
+      throw error instanceof ConflictException
+        ? error
+        : new ConflictException('Failed to cancel tour');
+    }
+  }
+
+  /**
+   * Withdraws a slot and cancels every tour booked into it
+   * @param slotId - Slot identifier
+   * @param cancelledBy - Acting staff member
+   * @returns Promise resolving to the tours that were cancelled
+   */
+  async cancelSlot(slotId: string, cancelledBy: string): Promise<Tour[]> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      await this.queryRunner.query(
+        `UPDATE tour_availability_slots
+            SET is_cancelled = true, booked_count = 0, updated_at = NOW()
+          WHERE id = $1`,
+        [slotId]
+      );
+
+      const rows = await this.queryRunner.query(
+        `UPDATE tours
+            SET status = $1, cancelled_at = NOW(), cancelled_by = $2, updated_at = NOW()
+          WHERE slot_id = $3 AND status = $4
+          RETURNING *`,
+        [TourStatus.CANCELLED, cancelledBy, slotId, TourStatus.SCHEDULED]
+      );
+
+      await this.queryRunner.commitTransaction();
+
+      return rows.map((row) => this.mapTour(row));
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to cancel tour slot', { error: error.message, slotId });
+
+      throw new ConflictException('Failed to cancel tour slot');
+    }
+  }
+
+  /**
+   * Retrieves a tour by ID
+   * @param id - Tour identifier
+   * @returns Promise resolving to tour
+   * @throws NotFoundException if tour doesn't exist
+   */
+  async findTourById(id: string): Promise<Tour> {
+    const [row] = await this.queryRunner.query('SELECT * FROM tours WHERE id = $1', [id]);
+
+    if (!row) {
+      throw new NotFoundException('Tour not found');
+    }
+
+    return this.mapTour(row);
+  }
+
+  /**
+   * Retrieves a renter's tours ending after the given instant, soonest first
+   * @param renterId - Renter identifier
+   * @param after - Only tours ending after this instant
+   * @returns Promise resolving to tours
+   */
+  async findToursForRenter(renterId: string, after: Date): Promise<Tour[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM tours
+        WHERE renter_id = $1 AND ends_at > $2
+        ORDER BY starts_at ASC`,
+      [renterId, after]
+    );
+
+    return rows.map((row) => this.mapTour(row));
+  }
+
+  /**
+   * Retrieves a property's tours starting within a time range
+   * @param propertyId - Property identifier
+   * @param from - Range start
+   * @param to - Range end
+   * @returns Promise resolving to tours
+   */
+  async findToursForProperty(propertyId: string, from: Date, to: Date): Promise<Tour[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM tours
+        WHERE property_id = $1 AND starts_at >= $2 AND starts_at <= $3
+        ORDER BY starts_at ASC`,
+      [propertyId, from, to]
+    );
+
+    return rows.map((row) => this.mapTour(row));
+  }
+
+  /**
+   * Retrieves scheduled tours starting before the given instant that have not been reminded
+   * @param before - Reminder horizon
+   * @returns Promise resolving to tours
+   */
+  async findToursDueForReminder(before: Date): Promise<Tour[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT * FROM tours
+        WHERE status = $1 AND reminder_sent_at IS NULL
+          AND starts_at > NOW() AND starts_at <= $2
+        ORDER BY starts_at ASC`,
+      [TourStatus.SCHEDULED, before]
+    );
+
+    return rows.map((row) => this.mapTour(row));
+  }
+
+  /**
+   * Claims a tour's reminder so concurrent sweeps send it once
+   * @param id - Tour identifier
+   * @returns Promise resolving to true if this caller claimed the reminder
+   */
+  async markReminderSent(id: string): Promise<boolean> {
+    const rows = await this.queryRunner.query(
+      `UPDATE tours SET reminder_sent_at = NOW()
+        WHERE id = $1 AND reminder_sent_at IS NULL AND status = $2
+        RETURNING id`,
+      [id, TourStatus.SCHEDULED]
+    );
+
+    return rows.length > 0;
+  }
+
+  private mapSlot(row: any): TourSlot {
+    return {
+      id: row.id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      createdBy: row.created_by,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      tourTypes: row.tour_types,
+      capacity: row.capacity,
+      bookedCount: row.booked_count,
+      isCancelled: row.is_cancelled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapTour(row: any): Tour {
+    return {
+      id: row.id,
+      slotId: row.slot_id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      renterId: row.renter_id,
+      type: row.type,
+      status: row.status,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+      notes: row.notes,
+      reminderSentAt: row.reminder_sent_at,
+      cancelledAt: row.cancelled_at,
+      cancelledBy: row.cancelled_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { Router, Request } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import { RedisStore } from 'rate-limit-redis'; // rate-limit-redis v3.0.0
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { HouseholdController } from '../controllers/household.controller';
+import { HouseholdActor } from '../services/household.service';
+import { HOUSEHOLD_CONFIG } from '../config';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 100;
+
+/**
+ * Extracts the acting user for household access checks and notifications
+ */
+const getHouseholdActor = (req: Request): HouseholdActor => ({
+  userId: req.user.id,
+  role: req.user.role,
+  correlationId: req.get('x-correlation-id')
+});
+
+/**
+ * Configures and returns the household router with security and validation
+ */
+export function configureHouseholdRoutes(
+  router: Router,
+  householdController: HouseholdController,
+  redisStore: RedisStore
+): Router {
+  router.use(helmet());
+
+  const limiter = rateLimit({
+    store: redisStore,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  });
+
+  router.use(correlationMiddleware());
+  router.use(limiter);
+  router.use(authenticate());
+
+  // Invite a co-applicant or guarantor by email
+  router.post('/applications/:applicationId/participants',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] },
+      { field: 'email', rules: ['required', 'email'] },
+      { field: 'role', rules: ['required', 'string', 'in:CO_APPLICANT,GUARANTOR'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const participant = await householdController.inviteParticipant(
+          req.params.applicationId,
+          { email: req.body.email, role: req.body.role },
+          getHouseholdActor(req)
+        );
+        res.status(201).json(participant);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Household of an application, for its members and property staff
+  router.get('/applications/:applicationId',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const household = await householdController.getHousehold(
+          req.params.applicationId,
+          getHouseholdActor(req)
+        );
+        res.status(200).json(household);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Remove a participant
+  router.delete('/applications/:applicationId/participants/:participantId',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] },
+      { field: 'participantId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        await householdController.removeParticipant(
+          req.params.applicationId,
+          req.params.participantId,
+          getHouseholdActor(req)
+        );
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Accept an invitation with the emailed token
+  router.post('/invitations/accept',
+    validateRequest([
+      { field: 'token', rules: ['required', 'string'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const participant = await householdController.acceptInvitation(req.body.token, getHouseholdActor(req));
+        res.status(200).json(participant);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Decline an invitation with the emailed token
+  router.post('/invitations/decline',
+    validateRequest([
+      { field: 'token', rules: ['required', 'string'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        await householdController.declineInvitation(req.body.token, getHouseholdActor(req));
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Participant completes their own income, employment and documents
+  router.put('/participants/:participantId',
+    validateRequest([
+      { field: 'participantId', rules: ['required', 'uuid'] },
+      { field: 'monthlyIncome', rules: ['required', 'numeric', 'min:0'] },
+      { field: 'employmentDetails', rules: ['required', 'object'] },
+      { field: 'documents', rules: ['required', 'array', `max:${HOUSEHOLD_CONFIG.maxDocuments}`] },
+      { field: 'documents.*.type', rules: ['required', 'string'] },
+      { field: 'documents.*.url', rules: ['required', 'url'] },
+      { field: 'documents.*.fileName', rules: ['required', 'string'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const participant = await householdController.submitDetails(
+          req.params.participantId,
+          {
+            monthlyIncome: Number(req.body.monthlyIncome),
+            employmentDetails: req.body.employmentDetails,
+            documents: req.body.documents
+          },
+          getHouseholdActor(req)
+        );
+        res.status(200).json(participant);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
+
+// Export configured router
+export default configureHouseholdRoutes(
+  Router(),
+  new HouseholdController(),
+  new RedisStore()
+);
@@ -0,0 +1,222 @@
+import { Router, Request } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import { RedisStore } from 'rate-limit-redis'; // rate-limit-redis v3.0.0
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { LeaseController } from '../controllers/lease.controller';
+import { SigningContext } from '../services/lease-signing.service';
+import { LeaseActor } from '../services/lease.service';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 100;
+const MAX_SIGNATURE_IMAGE_LENGTH = 300 * 1024;
+
+/**
+ * Extracts the acting user for lease access checks
+ */
+const getLeaseActor = (req: Request): LeaseActor => ({
+  userId: req.user.id,
+  role: req.user.role,
+  correlationId: req.get('x-correlation-id')
+});
+
+/**
+ * Extracts signer identity and request metadata for the signing audit trail
+ */
+const getSigningContext = (req: Request): SigningContext => ({
+  userId: req.user.id,
+  role: req.user.role,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent') || 'unknown',
+  correlationId: req.get('x-correlation-id')
+});
+
+/**
+ * Configures and returns the lease router with security and validation
+ */
+export function configureLeaseRoutes(
+  router: Router,
+  leaseController: LeaseController,
+  redisStore: RedisStore
+): Router {
+  router.use(helmet());
+
+  const limiter = rateLimit({
+    store: redisStore,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  });
+
+  router.use(correlationMiddleware());
+  router.use(limiter);
+  router.use(authenticate());
+
+  // Create draft lease from an approved application
+  router.post('/',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] },
+      { field: 'startDate', rules: ['required', 'date'] },
+      { field: 'durationMonths', rules: ['optional', 'numeric', 'min:1'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const lease = await leaseController.createLease(req.body, getLeaseActor(req));
+        res.status(201).json(lease);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get lease by ID
+  router.get('/:id',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const lease = await leaseController.getLease(req.params.id, getLeaseActor(req));
+        res.status(200).json(lease);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Status transitions
+  router.post('/:id/send',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const status = await leaseController.sendForSignature(
+          req.params.id,
+          getSigningContext(req)
+        );
+        res.status(200).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Signing status and audit trail
+  router.get('/:id/signatures',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const status = await leaseController.getSigningStatus(req.params.id, req.user.id);
+        res.status(200).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Sign lease as the authenticated party
+  router.post('/:id/signatures',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'signatureImage', rules: ['required', 'string', `max:${MAX_SIGNATURE_IMAGE_LENGTH}`] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const status = await leaseController.signLease(
+          req.params.id,
+          req.body.signatureImage,
+          getSigningContext(req)
+        );
+        res.status(200).json(status);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Download executed lease PDF
+  router.get('/:id/document',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const document = await leaseController.getExecutedDocument(req.params.id, req.user.id);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="lease-${req.params.id}.pdf"`);
+        res.setHeader('X-Document-SHA256', document.sha256);
+        res.status(200).send(document.content);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/terminate',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'reason', rules: ['required', 'string', 'max:1000'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const lease = await leaseController.terminateLease(
+          req.params.id,
+          req.body.reason,
+          getLeaseActor(req)
+        );
+        res.status(200).json(lease);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/cancel',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const lease = await leaseController.cancelLease(req.params.id, getLeaseActor(req));
+        res.status(200).json(lease);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Tenant's notice to vacate; frees the unit for new move-ins after the date
+  router.post('/:id/notice',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'vacateDate', rules: ['required', 'date'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const lease = await leaseController.giveNotice(req.params.id, req.body.vacateDate, req.user.id);
+        res.status(200).json(lease);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
+
+// Export configured router
+export default configureLeaseRoutes(
+  Router(),
+  new LeaseController(),
+  new RedisStore()
+);
@@ -0,0 +1,259 @@
+import { Router, Request } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import multer from 'multer'; // multer v1.4.5-lts.1
+import { RedisStore } from 'rate-limit-redis'; // rate-limit-redis v3.0.0
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { MaintenanceController } from '../controllers/maintenance.controller';
+import { MaintenanceActor } from '../services/maintenance.service';
+import {
+  MaintenanceCategory,
+  MaintenancePriority,
+  MaintenanceStatus
+} from '../models/maintenance.model';
+import { MAINTENANCE_CONFIG } from '../config';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 100;
+
+// Photos are held in memory and persisted by the repository
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAINTENANCE_CONFIG.maxPhotoSize, files: MAINTENANCE_CONFIG.maxPhotos }
+});
+
+/**
+ * Extracts the acting user for maintenance access checks and notifications
+ */
+const getMaintenanceActor = (req: Request): MaintenanceActor => ({
+  userId: req.user.id,
+  role: req.user.role,
+  correlationId: req.get('x-correlation-id')
+});
+
+/**
+ * Configures and returns the maintenance router with security and validation
+ */
+export function configureMaintenanceRoutes(
+  router: Router,
+  maintenanceController: MaintenanceController,
+  redisStore: RedisStore
+): Router {
+  router.use(helmet());
+
+  const limiter = rateLimit({
+    store: redisStore,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  });
+
+  router.use(correlationMiddleware());
+  router.use(limiter);
+  router.use(authenticate());
+
+  // Open a maintenance request with optional photos
+  router.post('/',
+    upload.array('photos', MAINTENANCE_CONFIG.maxPhotos),
+    validateRequest([
+      { field: 'unitId', rules: ['required', 'uuid'] },
+      { field: 'title', rules: ['required', 'string', 'max:200'] },
+      { field: 'description', rules: ['required', 'string', 'max:5000'] },
+      { field: 'category', rules: ['required', `in:${Object.values(MaintenanceCategory).join(',')}`] },
+      { field: 'priority', rules: ['required', `in:${Object.values(MaintenancePriority).join(',')}`] },
+      { field: 'permissionToEnter', rules: ['optional', 'boolean'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const files = (req.files as Express.Multer.File[]) || [];
+        const request = await maintenanceController.createRequest({
+          unitId: req.body.unitId,
+          title: req.body.title,
+          description: req.body.description,
+          category: req.body.category,
+          priority: req.body.priority,
+          permissionToEnter: String(req.body.permissionToEnter) === 'true',
+          photos: files.map((file) => ({
+            mimeType: file.mimetype as 'image/jpeg' | 'image/png',
+            fileName: file.originalname,
+            size: file.size,
+            content: file.buffer
+          }))
+        }, getMaintenanceActor(req));
+        res.status(201).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // List own requests, or a property's requests for staff
+  router.get('/',
+    validateRequest([
+      { field: 'propertyId', rules: ['optional', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const { propertyId, status } = req.query;
+        const requests = await maintenanceController.listRequests(
+          getMaintenanceActor(req),
+          propertyId as string | undefined,
+          status ? ([] as MaintenanceStatus[]).concat(status as MaintenanceStatus | MaintenanceStatus[]) : undefined
+        );
+        res.status(200).json(requests);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get request with status history
+  router.get('/:id',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const details = await maintenanceController.getRequest(req.params.id, getMaintenanceActor(req));
+        res.status(200).json(details);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Download a request photo
+  router.get('/:id/photos/:photoId',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'photoId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const photo = await maintenanceController.getPhoto(
+          req.params.id,
+          req.params.photoId,
+          getMaintenanceActor(req)
+        );
+        res.setHeader('Content-Type', photo.mimeType);
+        res.setHeader('Content-Disposition', `inline; filename="${photo.fileName}"`);
+        res.status(200).send(photo.content);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Status transitions
+  router.post('/:id/assign',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'vendor.name', rules: ['required', 'string', 'max:200'] },
+      { field: 'vendor.phone', rules: ['optional', 'string', 'max:50'] },
+      { field: 'vendor.email', rules: ['optional', 'email'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const request = await maintenanceController.assignVendor(
+          req.params.id,
+          req.body.vendor,
+          getMaintenanceActor(req)
+        );
+        res.status(200).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/schedule',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'start', rules: ['required', 'date'] },
+      { field: 'end', rules: ['required', 'date'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const request = await maintenanceController.scheduleEntry(
+          req.params.id,
+          new Date(req.body.start),
+          new Date(req.body.end),
+          getMaintenanceActor(req)
+        );
+        res.status(200).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/start',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const request = await maintenanceController.startWork(req.params.id, getMaintenanceActor(req));
+        res.status(200).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/complete',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'resolutionNotes', rules: ['required', 'string', 'max:5000'] },
+      { field: 'cost', rules: ['optional', 'numeric', 'min:0'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const request = await maintenanceController.completeRequest(
+          req.params.id,
+          req.body.resolutionNotes,
+          getMaintenanceActor(req),
+          req.body.cost === undefined ? undefined : Number(req.body.cost)
+        );
+        res.status(200).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/cancel',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'reason', rules: ['optional', 'string', 'max:1000'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const request = await maintenanceController.cancelRequest(
+          req.params.id,
+          req.body.reason,
+          getMaintenanceActor(req)
+        );
+        res.status(200).json(request);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
+
+// Export configured router
+export default configureMaintenanceRoutes(
+  Router(),
+  new MaintenanceController(),
+  new RedisStore()
+);
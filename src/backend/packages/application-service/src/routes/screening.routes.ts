@@ -0,0 +1,133 @@
+import { Router, Request } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import { RedisStore } from 'rate-limit-redis'; // rate-limit-redis v3.0.0
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { ScreeningController } from '../controllers/screening.controller';
+import { ScreeningActor } from '../services/screening.service';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 100;
+
+/**
+ * Extracts the acting user for screening access checks
+ */
+const getScreeningActor = (req: Request): ScreeningActor => ({
+  userId: req.user.id,
+  role: req.user.role
+});
+
+/**
+ * Configures and returns the screening router with security and validation
+ */
+export function configureScreeningRoutes(
+  router: Router,
+  screeningController: ScreeningController,
+  redisStore: RedisStore
+): Router {
+  router.use(helmet());
+
+  const limiter = rateLimit({
+    store: redisStore,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  });
+
+  router.use(correlationMiddleware());
+  router.use(limiter);
+  router.use(authenticate());
+
+  // Criteria in effect for a property
+  router.get('/criteria/:propertyId',
+    validateRequest([
+      { field: 'propertyId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const criteria = await screeningController.getCriteria(req.params.propertyId, getScreeningActor(req));
+        res.status(200).json(criteria);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Replace a property's criteria; the body is passed through whole so
+  // unsupported criteria are rejected rather than silently dropped
+  router.put('/criteria/:propertyId',
+    validateRequest([
+      { field: 'propertyId', rules: ['required', 'uuid'] },
+      { field: 'incomeMultiple', rules: ['nullable', 'numeric'] },
+      { field: 'minCreditScore', rules: ['nullable', 'integer'] },
+      { field: 'maxEvictions', rules: ['nullable', 'integer'] },
+      { field: 'evictionLookbackYears', rules: ['optional', 'integer'] },
+      { field: 'allowCoSigner', rules: ['required', 'boolean'] },
+      { field: 'coSignerIncomeMultiple', rules: ['optional', 'nullable', 'numeric'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const criteria = await screeningController.updateCriteria(
+          req.params.propertyId,
+          req.body,
+          getScreeningActor(req)
+        );
+        res.status(200).json(criteria);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Screen an application against its property's criteria
+  router.post('/applications/:applicationId',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const result = await screeningController.evaluateApplication(
+          req.params.applicationId,
+          getScreeningActor(req)
+        );
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Latest screening of an application
+  router.get('/applications/:applicationId',
+    validateRequest([
+      { field: 'applicationId', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const result = await screeningController.getLatestResult(
+          req.params.applicationId,
+          getScreeningActor(req)
+        );
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
+
+// Export configured router
+export default configureScreeningRoutes(
+  Router(),
+  new ScreeningController(),
+  new RedisStore()
+);
@@ -0,0 +1,216 @@
+import { Router, Request } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import { RedisStore } from 'rate-limit-redis'; // rate-limit-redis v3.0.0
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { TourController } from '../controllers/tour.controller';
+import { TourActor } from '../services/tour.service';
+import { TourType } from '../models/tour.model';
+import { TOUR_CONFIG } from '../config';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const RATE_LIMIT_MAX_REQUESTS = 100;
+
+/**
+ * Extracts the acting user for tour access checks and notifications
+ */
+const getTourActor = (req: Request): TourActor => ({
+  userId: req.user.id,
+  role: req.user.role,
+  correlationId: req.get('x-correlation-id')
+});
+
+const parseDate = (value: unknown): Date | undefined =>
+  value ? new Date(value as string) : undefined;
+
+/**
+ * Configures and returns the tour router with security and validation
+ */
+export function configureTourRoutes(
+  router: Router,
+  tourController: TourController,
+  redisStore: RedisStore
+): Router {
+  router.use(helmet());
+
+  const limiter = rateLimit({
+    store: redisStore,
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  });
+
+  router.use(correlationMiddleware());
+  router.use(limiter);
+  router.use(authenticate());
+
+  // Available slots for a property
+  router.get('/slots',
+    validateRequest([
+      { field: 'propertyId', rules: ['required', 'uuid'] },
+      { field: 'from', rules: ['optional', 'date'] },
+      { field: 'to', rules: ['optional', 'date'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const slots = await tourController.getAvailableSlots(
+          req.query.propertyId as string,
+          parseDate(req.query.from),
+          parseDate(req.query.to)
+        );
+        res.status(200).json(slots);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Publish availability slots
+  router.post('/slots',
+    validateRequest([
+      { field: 'propertyId', rules: ['required', 'uuid'] },
+      { field: 'slots', rules: ['required', 'array', `max:${TOUR_CONFIG.maxSlotsPerRequest}`] },
+      { field: 'slots.*.startsAt', rules: ['required', 'date'] },
+      { field: 'slots.*.endsAt', rules: ['required', 'date'] },
+      { field: 'slots.*.tourTypes', rules: ['required', 'array'] },
+      { field: 'slots.*.tourTypes.*', rules: [`in:${Object.values(TourType).join(',')}`] },
+      { field: 'slots.*.unitId', rules: ['optional', 'uuid'] },
+      { field: 'slots.*.capacity', rules: ['optional', 'numeric', 'min:1'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const slots = await tourController.publishSlots(
+          req.body.propertyId,
+          req.body.slots.map((slot) => ({
+            ...slot,
+            startsAt: new Date(slot.startsAt),
+            endsAt: new Date(slot.endsAt)
+          })),
+          getTourActor(req)
+        );
+        res.status(201).json(slots);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Withdraw a slot
+  router.post('/slots/:id/cancel',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const tours = await tourController.cancelSlot(req.params.id, getTourActor(req));
+        res.status(200).json(tours);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Book a tour
+  router.post('/',
+    validateRequest([
+      { field: 'slotId', rules: ['required', 'uuid'] },
+      { field: 'type', rules: ['required', `in:${Object.values(TourType).join(',')}`] },
+      { field: 'notes', rules: ['optional', 'string', 'max:1000'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const tour = await tourController.bookTour({
+          slotId: req.body.slotId,
+          type: req.body.type,
+          notes: req.body.notes
+        }, getTourActor(req));
+        res.status(201).json(tour);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Upcoming tours for the renter, or a property's tours for staff
+  router.get('/',
+    validateRequest([
+      { field: 'propertyId', rules: ['optional', 'uuid'] },
+      { field: 'from', rules: ['optional', 'date'] },
+      { field: 'to', rules: ['optional', 'date'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const tours = await tourController.listTours(
+          getTourActor(req),
+          req.query.propertyId as string | undefined,
+          parseDate(req.query.from),
+          parseDate(req.query.to)
+        );
+        res.status(200).json(tours);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get('/:id',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const tour = await tourController.getTour(req.params.id, getTourActor(req));
+        res.status(200).json(tour);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Download calendar invite
+  router.get('/:id/calendar',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const ics = await tourController.getCalendarInvite(req.params.id, getTourActor(req));
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="tour-${req.params.id}.ics"`);
+        res.status(200).send(ics);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/:id/cancel',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const tour = await tourController.cancelTour(req.params.id, getTourActor(req));
+        res.status(200).json(tour);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
+
+// Export configured router
+export default configureTourRoutes(
+  Router(),
+  new TourController(),
+  new RedisStore()
+);
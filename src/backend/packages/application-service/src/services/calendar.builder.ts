@@ -0,0 +1,93 @@
+/**
+ * Builds RFC 5545 iCalendar (.ics) documents for calendar invites
+ * attached to confirmation emails.
+ * @packageDocumentation
+ */
+
+/**
+ * Calendar event details
+ */
+export interface CalendarEvent {
+  /** Globally unique, stable identifier so updates replace the original event */
+  readonly uid: string;
+  readonly start: Date;
+  readonly end: Date;
+  readonly summary: string;
+  readonly description?: string;
+  readonly location?: string;
+  readonly organizerEmail?: string;
+  /** Incremented on every update to the same event */
+  readonly sequence?: number;
+  /** CANCELLED removes the event from the attendee's calendar */
+  readonly status?: 'CONFIRMED' | 'CANCELLED';
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Formats a date as an iCalendar UTC date-time, e.g. 20240101T170000Z
+ */
+const formatDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Escapes text values per RFC 5545 section 3.3.11
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds content lines longer than 75 octets per RFC 5545 section 3.1
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Builds a single-event iCalendar document
+ * @param event - Event details
+ * @returns iCalendar document with CRLF line endings
+ */
+export const buildCalendarEvent = (event: CalendarEvent): string => {
+  const status = event.status || 'CONFIRMED';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Project X//Rental Marketplace//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${status === 'CANCELLED' ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `STATUS:${status}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.organizerEmail ? [`ORGANIZER:mailto:${event.organizerEmail}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
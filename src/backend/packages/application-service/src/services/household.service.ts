@@ -0,0 +1,397 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+import { NotificationClient } from '@common/clients';
+import { createHash, randomBytes } from 'crypto';
+
+import {
+  ApplicationStatus,
+  DocumentType,
+  EmploymentDetails,
+  VerificationStatus
+} from '../models/application.model';
+import {
+  ApplicationParticipant,
+  ParticipantDocument,
+  ParticipantRole,
+  ParticipantStatus
+} from '../models/household.model';
+import { HouseholdApplication, HouseholdRepository } from '../repositories/household.repository';
+import { VerificationService } from './verification.service';
+import { HOUSEHOLD_CONFIG, NOTIFICATION_CONFIG } from '../config';
+
+const HOUR_MS = 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Households can change until the application is decided
+const OPEN_APPLICATION_STATUSES: readonly ApplicationStatus[] = [
+  ApplicationStatus.DRAFT,
+  ApplicationStatus.SUBMITTED,
+  ApplicationStatus.UNDER_REVIEW
+];
+
+// Every participant proves identity and income
+const REQUIRED_DOCUMENT_TYPES: readonly DocumentType[] = [
+  DocumentType.ID_PROOF,
+  DocumentType.INCOME_PROOF
+];
+
+const LIVE_STATUSES: readonly ParticipantStatus[] = [
+  ParticipantStatus.INVITED,
+  ParticipantStatus.ACCEPTED,
+  ParticipantStatus.SUBMITTED
+];
+
+/**
+ * Authenticated user acting on a household application
+ */
+export interface HouseholdActor {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+  /** Optional request correlation identifier */
+  readonly correlationId?: string;
+}
+
+/**
+ * Input for inviting a co-applicant or guarantor
+ */
+export interface InviteParticipantInput {
+  readonly email: string;
+  readonly role: ParticipantRole;
+}
+
+/**
+ * Income, employment and documents completed by a participant
+ */
+export interface SubmitParticipantDetailsInput {
+  readonly monthlyIncome: number;
+  readonly employmentDetails: EmploymentDetails;
+  readonly documents: readonly Omit<ParticipantDocument, 'uploadedAt'>[];
+}
+
+/**
+ * Household view of an application
+ */
+export interface Household {
+  readonly applicationId: string;
+  readonly primaryApplicantId: string;
+  readonly participants: readonly ApplicationParticipant[];
+  /** Primary applicant plus verified co-applicants; the income screening evaluates */
+  readonly combinedMonthlyIncome: number;
+}
+
+/**
+ * Service managing household applications: the primary applicant invites
+ * co-applicants and guarantors by email, each completes and is verified on
+ * their own details, and co-applicant income is pooled for screening.
+ */
+@Injectable()
+export class HouseholdService {
+  constructor(
+    private readonly householdRepository: HouseholdRepository,
+    private readonly verificationService: VerificationService,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Invites a co-applicant or guarantor by email
+   * @param applicationId - Application identifier
+   * @param input - Invitee email and role
+   * @param actor - Primary applicant
+   * @returns Promise resolving to the invited participant
+   * @throws BadRequestException if the household is full or the email is invalid
+   */
+  async inviteParticipant(
+    applicationId: string,
+    input: InviteParticipantInput,
+    actor: HouseholdActor
+  ): Promise<ApplicationParticipant> {
+    const application = await this.requireOpenApplication(applicationId);
+    this.assertPrimaryApplicant(application, actor);
+
+    const email = input.email?.trim().toLowerCase();
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw new BadRequestException('A valid email address is required');
+    }
+    if (!Object.values(ParticipantRole).includes(input.role)) {
+      throw new BadRequestException('Unsupported participant role');
+    }
+
+    const ownEmail = await this.householdRepository.findUserEmail(actor.userId);
+    if (ownEmail?.toLowerCase() === email) {
+      throw new BadRequestException('You cannot invite yourself');
+    }
+
+    const participants = await this.householdRepository.findByApplication(applicationId);
+    const live = participants.filter((participant) => LIVE_STATUSES.includes(participant.status));
+    if (live.length >= HOUSEHOLD_CONFIG.maxParticipants) {
+      throw new BadRequestException(
+        `A household can include at most ${HOUSEHOLD_CONFIG.maxParticipants} co-applicants and guarantors`
+      );
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const participant = await this.householdRepository.createInvitation({
+      applicationId,
+      role: input.role,
+      email,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + HOUSEHOLD_CONFIG.inviteTtlHours * HOUR_MS),
+      invitedBy: actor.userId
+    });
+
+    const roleLabel = input.role === ParticipantRole.GUARANTOR ? 'a guarantor' : 'a co-applicant';
+    const inviteeId = await this.householdRepository.findUserIdByEmail(email);
+    await this.notificationClient.notify({
+      userId: inviteeId || actor.userId,
+      ...(inviteeId ? {} : { toEmail: email }),
+      templateId: NOTIFICATION_CONFIG.templates.householdInvitation,
+      subject: 'You have been invited to a rental application',
+      body: `You have been invited to join a rental application as ${roleLabel}. ` +
+        `Accept the invitation to add your income, employment and documents.`,
+      data: {
+        applicationId,
+        participantId: participant.id,
+        role: input.role,
+        acceptUrl: `${HOUSEHOLD_CONFIG.inviteUrl}?token=${encodeURIComponent(token)}`,
+        expiresAt: participant.inviteExpiresAt
+      }
+    }, actor.correlationId);
+
+    return participant;
+  }
+
+  /**
+   * Accepts an invitation with the emailed token
+   * @param token - Invitation token
+   * @param actor - Invited user; their account email must match the invitation
+   * @returns Promise resolving to accepted participant
+   */
+  async acceptInvitation(token: string, actor: HouseholdActor): Promise<ApplicationParticipant> {
+    const participant = await this.resolveInvitation(token, actor);
+    const application = await this.requireOpenApplication(participant.applicationId);
+
+    if (application.applicantId === actor.userId) {
+      throw new BadRequestException('The primary applicant cannot join their own household');
+    }
+
+    const accepted = await this.householdRepository.accept(participant.id, actor.userId);
+
+    await this.notifyPrimary(
+      application,
+      `${participant.email} accepted your invitation and is completing their details.`,
+      accepted,
+      actor.correlationId
+    );
+
+    return accepted;
+  }
+
+  /**
+   * Declines an invitation with the emailed token
+   * @param token - Invitation token
+   * @param actor - Invited user
+   */
+  async declineInvitation(token: string, actor: HouseholdActor): Promise<void> {
+    const participant = await this.resolveInvitation(token, actor);
+    const application = await this.householdRepository.findApplication(participant.applicationId);
+
+    const declined = await this.householdRepository.updateStatus(
+      participant.id,
+      ParticipantStatus.DECLINED,
+      [ParticipantStatus.INVITED]
+    );
+
+    await this.notifyPrimary(
+      application,
+      `${participant.email} declined your invitation.`,
+      declined,
+      actor.correlationId
+    );
+  }
+
+  /**
+   * Removes a participant from the household
+   * @param applicationId - Application identifier
+   * @param participantId - Participant identifier
+   * @param actor - Primary applicant
+   */
+  async removeParticipant(
+    applicationId: string,
+    participantId: string,
+    actor: HouseholdActor
+  ): Promise<void> {
+    const application = await this.requireOpenApplication(applicationId);
+    this.assertPrimaryApplicant(application, actor);
+
+    const participant = await this.householdRepository.findById(participantId);
+    if (participant.applicationId !== applicationId) {
+      throw new NotFoundException('Participant not found');
+    }
+
+    await this.householdRepository.updateStatus(participantId, ParticipantStatus.REMOVED, LIVE_STATUSES);
+
+    this.logger.info('Household participant removed', { applicationId, participantId });
+  }
+
+  /**
+   * Stores a participant's own income, employment and documents and runs
+   * their verification. A failed verification is recorded, not thrown.
+   * @param participantId - Participant identifier
+   * @param input - Completed details
+   * @param actor - The participant
+   * @returns Promise resolving to participant with verification outcome
+   */
+  async submitDetails(
+    participantId: string,
+    input: SubmitParticipantDetailsInput,
+    actor: HouseholdActor
+  ): Promise<ApplicationParticipant> {
+    const participant = await this.householdRepository.findById(participantId);
+    if (participant.userId !== actor.userId) {
+      throw new ForbiddenException('Only the invited participant can complete these details');
+    }
+    await this.requireOpenApplication(participant.applicationId);
+    this.validateDetails(input);
+
+    const uploadedAt = new Date();
+    const submitted = await this.householdRepository.submitDetails(participantId, {
+      monthlyIncome: input.monthlyIncome,
+      employmentDetails: input.employmentDetails,
+      documents: input.documents.map((document) => ({ ...document, uploadedAt }))
+    });
+
+    await this.householdRepository.updateVerification(participantId, VerificationStatus.IN_PROGRESS);
+    try {
+      const { success, creditScore } = await this.verificationService.verifyParticipant(submitted);
+      await this.householdRepository.updateVerification(
+        participantId,
+        success ? VerificationStatus.COMPLETED : VerificationStatus.FAILED,
+        creditScore
+      );
+    } catch (error) {
+      this.logger.error('Participant verification could not complete', {
+        participantId,
+        error: error.message
+      });
+      await this.householdRepository.updateVerification(participantId, VerificationStatus.FAILED);
+    }
+
+    return this.householdRepository.findById(participantId);
+  }
+
+  /**
+   * Retrieves the household for its members or property staff
+   * @param applicationId - Application identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to household
+   */
+  async getHousehold(applicationId: string, actor: HouseholdActor): Promise<Household> {
+    const application = await this.householdRepository.findApplication(applicationId);
+    const participants = (await this.householdRepository.findByApplication(applicationId))
+      .filter((participant) => LIVE_STATUSES.includes(participant.status));
+
+    const isMember = application.applicantId === actor.userId ||
+      participants.some((participant) => participant.userId === actor.userId);
+    const isStaff = actor.role === 'ADMIN' ||
+      actor.userId === application.ownerId ||
+      actor.userId === application.propertyManagerId;
+    if (!isMember && !isStaff) {
+      throw new ForbiddenException('You do not have access to this application');
+    }
+
+    return {
+      applicationId,
+      primaryApplicantId: application.applicantId,
+      participants,
+      combinedMonthlyIncome: participants
+        .filter((participant) =>
+          participant.role === ParticipantRole.CO_APPLICANT &&
+          participant.status === ParticipantStatus.SUBMITTED &&
+          participant.verificationStatus === VerificationStatus.COMPLETED)
+        .reduce((total, participant) => total + (participant.monthlyIncome || 0), application.monthlyIncome)
+    };
+  }
+
+  /**
+   * Resolves an open invitation and checks it belongs to the acting user
+   */
+  private async resolveInvitation(token: string, actor: HouseholdActor): Promise<ApplicationParticipant> {
+    const participant = token ? await this.householdRepository.findByTokenHash(this.hashToken(token)) : null;
+    if (!participant || participant.status !== ParticipantStatus.INVITED) {
+      throw new NotFoundException('Invitation not found');
+    }
+    if (participant.inviteExpiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Invitation has expired');
+    }
+
+    const email = await this.householdRepository.findUserEmail(actor.userId);
+    if (email?.toLowerCase() !== participant.email.toLowerCase()) {
+      throw new ForbiddenException('This invitation was sent to a different email address');
+    }
+
+    return participant;
+  }
+
+  private validateDetails(input: SubmitParticipantDetailsInput): void {
+    if (!(input.monthlyIncome >= 0)) {
+      throw new BadRequestException('Monthly income must be zero or greater');
+    }
+    if (!input.employmentDetails?.employerName) {
+      throw new BadRequestException('Employment details are required');
+    }
+
+    const documents = input.documents || [];
+    if (documents.length > HOUSEHOLD_CONFIG.maxDocuments) {
+      throw new BadRequestException(`At most ${HOUSEHOLD_CONFIG.maxDocuments} documents may be provided`);
+    }
+    const missing = REQUIRED_DOCUMENT_TYPES.filter((type) => !documents.some((document) => document.type === type));
+    if (missing.length) {
+      throw new BadRequestException(`Missing required documents: ${missing.join(', ')}`);
+    }
+  }
+
+  private async requireOpenApplication(applicationId: string): Promise<HouseholdApplication> {
+    const application = await this.householdRepository.findApplication(applicationId);
+    if (!OPEN_APPLICATION_STATUSES.includes(application.status)) {
+      throw new BadRequestException('The household can no longer be changed for this application');
+    }
+    return application;
+  }
+
+  private assertPrimaryApplicant(application: HouseholdApplication, actor: HouseholdActor): void {
+    if (application.applicantId !== actor.userId) {
+      throw new ForbiddenException('Only the primary applicant can manage the household');
+    }
+  }
+
+  private async notifyPrimary(
+    application: HouseholdApplication,
+    body: string,
+    participant: ApplicationParticipant,
+    correlationId?: string
+  ): Promise<void> {
+    await this.notificationClient.notify({
+      userId: application.applicantId,
+      templateId: NOTIFICATION_CONFIG.templates.householdUpdated,
+      subject: 'Your household application was updated',
+      body,
+      data: {
+        applicationId: application.applicationId,
+        participantId: participant.id,
+        status: participant.status
+      }
+    }, correlationId);
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,535 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+import { NotificationClient } from '@common/clients';
+import PDFDocument from 'pdfkit'; // pdfkit v0.13.0
+import { createHash } from 'crypto';
+
+import {
+  Lease,
+  LeaseDocument,
+  LeaseSignature,
+  LeaseSignatureAction,
+  LeaseSignatureEvent,
+  LeaseSignatureStatus,
+  LeaseStatus,
+  LEASE_SIGNING_ORDER
+} from '../models/lease.model';
+import { LeaseRepository } from '../repositories/lease.repository';
+import { LeaseSignatureRepository } from '../repositories/lease-signature.repository';
+import { LeaseService } from './lease.service';
+import { NOTIFICATION_CONFIG } from '../config';
+
+// Captured signatures are PNG data URLs produced by the web signature pad
+const SIGNATURE_IMAGE_PREFIX = 'data:image/png;base64,';
+const MAX_SIGNATURE_IMAGE_BYTES = 200 * 1024; // 200KB
+
+/**
+ * Request metadata recorded against every signing event
+ */
+export interface SigningContext {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+  /** Request IP address */
+  readonly ipAddress: string;
+  /** Request user agent string */
+  readonly userAgent: string;
+  /** Optional request correlation identifier */
+  readonly correlationId?: string;
+}
+
+/**
+ * Current signing progress for a lease
+ */
+export interface LeaseSigningStatus {
+  readonly lease: Lease;
+  readonly signatures: readonly LeaseSignature[];
+  readonly events: readonly LeaseSignatureEvent[];
+  /** Users whose signature is currently required */
+  readonly awaitingUserIds: readonly string[];
+  /** Whether the hash chain of the audit trail is intact */
+  readonly auditTrailValid: boolean;
+}
+
+/**
+ * Service handling in-app lease signing with per-party signing order,
+ * a hash-chained audit trail and a hashed executed PDF
+ */
+@Injectable()
+export class LeaseSigningService {
+  constructor(
+    private readonly leaseService: LeaseService,
+    private readonly leaseRepository: LeaseRepository,
+    private readonly signatureRepository: LeaseSignatureRepository,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Sends a draft lease for signature and notifies the first signer
+   * @param leaseId - Lease identifier
+   * @param context - Acting user and request metadata
+   * @returns Promise resolving to signing status
+   */
+  async requestSignatures(leaseId: string, context: SigningContext): Promise<LeaseSigningStatus> {
+    this.logger.debug('Requesting lease signatures', { leaseId });
+
+    const draft = await this.leaseRepository.findById(leaseId);
+    const contentHash = this.hashLeaseContent(draft);
+    const lease = await this.leaseService.sendForSignature(leaseId, contentHash, context);
+
+    const requestedEvent = this.buildEvent(
+      lease.id,
+      LeaseSignatureAction.SIGNATURE_REQUESTED,
+      context,
+      null
+    );
+
+    await this.signatureRepository.createSignatureRequests(
+      lease.parties.map((party) => ({
+        leaseId: lease.id,
+        userId: party.userId,
+        role: party.role,
+        signingOrder: LEASE_SIGNING_ORDER[party.role],
+        contentHash
+      })),
+      [requestedEvent]
+    );
+
+    const status = await this.getSigningStatus(leaseId);
+    await this.notifyAwaitingSigners(status, context.correlationId);
+
+    this.logger.info('Lease sent for signature', { leaseId, contentHash });
+
+    return status;
+  }
+
+  /**
+   * Retrieves signing status for one of the lease parties
+   * @param leaseId - Lease identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to signing status
+   * @throws ForbiddenException if the user is not a party to the lease
+   */
+  async getSigningStatusForParty(leaseId: string, userId: string): Promise<LeaseSigningStatus> {
+    const status = await this.getSigningStatus(leaseId);
+    this.assertParty(status.lease, userId);
+    return status;
+  }
+
+  /**
+   * Retrieves signatures, audit trail and the parties currently expected to sign
+   * @param leaseId - Lease identifier
+   * @returns Promise resolving to signing status
+   */
+  async getSigningStatus(leaseId: string): Promise<LeaseSigningStatus> {
+    const [lease, signatures, events] = await Promise.all([
+      this.leaseRepository.findById(leaseId),
+      this.signatureRepository.findByLeaseId(leaseId),
+      this.signatureRepository.findEvents(leaseId)
+    ]);
+
+    return {
+      lease,
+      signatures,
+      events,
+      awaitingUserIds: this.getAwaitingSigners(signatures).map((signature) => signature.userId),
+      auditTrailValid: this.verifyAuditTrail(lease, signatures, events)
+    };
+  }
+
+  /**
+   * Records a party's signature, enforcing signing order. Once every party has
+   * signed, the executed PDF is generated and hashed and the lease is activated.
+   * If that step fails, any party signing again completes it.
+   * @param leaseId - Lease identifier
+   * @param signatureImage - PNG data URL of the captured signature
+   * @param context - Signer and request metadata
+   * @returns Promise resolving to signing status
+   */
+  async sign(
+    leaseId: string,
+    signatureImage: string,
+    context: SigningContext
+  ): Promise<LeaseSigningStatus> {
+    this.logger.debug('Recording lease signature', { leaseId, userId: context.userId });
+
+    this.validateSignatureImage(signatureImage);
+
+    const lease = await this.leaseRepository.findById(leaseId);
+    if (lease.status !== LeaseStatus.PENDING_SIGNATURE) {
+      throw new BadRequestException('Lease is not awaiting signatures');
+    }
+
+    if (this.hashLeaseContent(lease) !== lease.contentHash) {
+      throw new ConflictException('Lease content changed after it was sent for signature');
+    }
+
+    const signatures = await this.signatureRepository.findByLeaseId(leaseId);
+    const signature = signatures.find((item) => item.userId === context.userId);
+    if (!signature) {
+      throw new ForbiddenException('User is not a party to this lease');
+    }
+    if (signature.status === LeaseSignatureStatus.SIGNED) {
+      // Every party signed but executing the lease was interrupted; finish it now
+      if (!this.getAwaitingSigners(signatures).length) {
+        this.logger.warn('Resuming lease execution', { leaseId, userId: context.userId });
+        return this.finalize(await this.getSigningStatus(leaseId), context);
+      }
+      throw new ConflictException('Lease already signed by this party');
+    }
+    if (!this.getAwaitingSigners(signatures).some((item) => item.id === signature.id)) {
+      throw new BadRequestException('Waiting for earlier parties to sign');
+    }
+
+    const events = await this.signatureRepository.findEvents(leaseId);
+    const previousHash = events.length ? events[events.length - 1].eventHash : null;
+    const signedEvent = this.buildEvent(leaseId, LeaseSignatureAction.SIGNED, context, previousHash, {
+      signatureHash: this.hashSignatureImage(signatureImage),
+      contentHash: lease.contentHash
+    });
+
+    await this.signatureRepository.recordSignature(
+      signature.id,
+      {
+        status: LeaseSignatureStatus.SIGNED,
+        signatureImage,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        signedAt: signedEvent.timestamp
+      },
+      signedEvent
+    );
+
+    let status = await this.getSigningStatus(leaseId);
+
+    const remaining = status.signatures.filter(
+      (item) => item.status === LeaseSignatureStatus.PENDING
+    ).length;
+    const allSigned = remaining === 0;
+
+    if (allSigned) {
+      status = await this.finalize(status, context);
+    } else {
+      await this.notifyParties(
+        status.lease,
+        NOTIFICATION_CONFIG.templates.leaseSigned,
+        'Lease signed',
+        `A party has signed the lease. Signatures remaining: ${remaining}.`,
+        context.correlationId
+      );
+      await this.notifyAwaitingSigners(status, context.correlationId);
+    }
+
+    this.logger.info('Lease signature recorded', {
+      leaseId,
+      userId: context.userId,
+      completed: allSigned
+    });
+
+    return status;
+  }
+
+  /**
+   * Retrieves the executed lease PDF for one of the lease parties
+   * @param leaseId - Lease identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to executed document
+   * @throws ForbiddenException if the user is not a party to the lease
+   */
+  async getExecutedDocument(leaseId: string, userId: string): Promise<LeaseDocument> {
+    const lease = await this.leaseRepository.findById(leaseId);
+    this.assertParty(lease, userId);
+    return this.signatureRepository.findDocument(leaseId);
+  }
+
+  /**
+   * Generates and stores the executed PDF, records completion and activates the lease.
+   * Steps an interrupted earlier run already completed are skipped.
+   */
+  private async finalize(
+    status: LeaseSigningStatus,
+    context: SigningContext
+  ): Promise<LeaseSigningStatus> {
+    const { lease } = status;
+    let sha256: string;
+
+    if (status.events.some((event) => event.action === LeaseSignatureAction.COMPLETED)) {
+      ({ sha256 } = await this.signatureRepository.findDocument(lease.id));
+    } else {
+      const content = await this.renderExecutedLease(lease, status.signatures, status.events);
+      sha256 = createHash('sha256').update(content).digest('hex');
+
+      await this.signatureRepository.saveDocument({
+        leaseId: lease.id,
+        content,
+        sha256,
+        finalizedAt: new Date()
+      });
+
+      const previousHash = status.events[status.events.length - 1].eventHash;
+      await this.signatureRepository.appendEvent(
+        this.buildEvent(lease.id, LeaseSignatureAction.COMPLETED, context, previousHash)
+      );
+    }
+
+    if (lease.status === LeaseStatus.PENDING_SIGNATURE) {
+      await this.leaseService.activateLease(lease.id);
+    }
+
+    const finalStatus = await this.getSigningStatus(lease.id);
+
+    await this.notifyParties(
+      finalStatus.lease,
+      NOTIFICATION_CONFIG.templates.leaseExecuted,
+      'Lease fully executed',
+      'All parties have signed. Your executed lease is ready to download.',
+      context.correlationId,
+      { documentSha256: sha256 }
+    );
+
+    this.logger.info('Lease fully executed', { leaseId: lease.id, sha256 });
+
+    return finalStatus;
+  }
+
+  /**
+   * Rejects users who are not bound by the lease
+   */
+  private assertParty(lease: Lease, userId: string): void {
+    if (!lease.parties.some((party) => party.userId === userId)) {
+      throw new ForbiddenException('User is not a party to this lease');
+    }
+  }
+
+  /**
+   * Returns pending signatures in the lowest outstanding signing order
+   */
+  private getAwaitingSigners(signatures: readonly LeaseSignature[]): LeaseSignature[] {
+    const pending = signatures.filter((item) => item.status === LeaseSignatureStatus.PENDING);
+    if (!pending.length) {
+      return [];
+    }
+    const nextOrder = Math.min(...pending.map((item) => item.signingOrder));
+    return pending.filter((item) => item.signingOrder === nextOrder);
+  }
+
+  /**
+   * Builds an audit event chained to the previous event hash. SIGNED events
+   * also bind the signature image and the lease content that was signed.
+   */
+  private buildEvent(
+    leaseId: string,
+    action: LeaseSignatureAction,
+    context: SigningContext,
+    previousHash: string | null,
+    evidence: Pick<LeaseSignatureEvent, 'signatureHash' | 'contentHash'> = {
+      signatureHash: null,
+      contentHash: null
+    }
+  ): LeaseSignatureEvent {
+    const fields = {
+      leaseId,
+      userId: context.userId,
+      action,
+      timestamp: new Date(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      ...evidence,
+      previousHash
+    };
+
+    return { ...fields, eventHash: this.hashEvent(fields) };
+  }
+
+  /**
+   * Verifies every event hash, that each event references the one before it
+   * and that SIGNED events match the stored signature and the lease content
+   */
+  private verifyAuditTrail(
+    lease: Lease,
+    signatures: readonly LeaseSignature[],
+    events: readonly LeaseSignatureEvent[]
+  ): boolean {
+    return events.every((event, index) => {
+      if (event.action === LeaseSignatureAction.SIGNED) {
+        const signature = signatures.find((item) => item.userId === event.userId);
+        if (
+          !signature?.signatureImage ||
+          event.signatureHash !== this.hashSignatureImage(signature.signatureImage) ||
+          event.contentHash !== signature.contentHash ||
+          event.contentHash !== lease.contentHash
+        ) {
+          return false;
+        }
+      }
+      return event.previousHash === (index === 0 ? null : events[index - 1].eventHash) &&
+        event.eventHash === this.hashEvent(event);
+    });
+  }
+
+  /**
+   * Computes the SHA-256 hash of a signing audit event
+   */
+  private hashEvent(fields: Omit<LeaseSignatureEvent, 'eventHash'>): string {
+    return createHash('sha256')
+      .update(JSON.stringify([
+        fields.leaseId,
+        fields.userId,
+        fields.action,
+        new Date(fields.timestamp).toISOString(),
+        fields.ipAddress,
+        fields.userAgent,
+        fields.signatureHash,
+        fields.contentHash,
+        fields.previousHash
+      ]))
+      .digest('hex');
+  }
+
+  /**
+   * Computes the SHA-256 hash of a captured signature image
+   */
+  private hashSignatureImage(signatureImage: string): string {
+    return createHash('sha256').update(signatureImage).digest('hex');
+  }
+
+  /**
+   * Computes the SHA-256 hash of the lease content parties agree to
+   */
+  private hashLeaseContent(lease: Lease): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        id: lease.id,
+        propertyId: lease.propertyId,
+        unitId: lease.unitId,
+        startDate: new Date(lease.startDate).toISOString(),
+        endDate: new Date(lease.endDate).toISOString(),
+        monthlyRent: Number(lease.monthlyRent),
+        securityDeposit: Number(lease.securityDeposit),
+        petDeposit: lease.petDeposit === null ? null : Number(lease.petDeposit),
+        terms: lease.terms,
+        parties: [...lease.parties]
+          .map((party) => `${party.role}:${party.userId}`)
+          .sort()
+      }))
+      .digest('hex');
+  }
+
+  /**
+   * Validates the captured signature image format and size
+   */
+  private validateSignatureImage(signatureImage: string): void {
+    if (!signatureImage?.startsWith(SIGNATURE_IMAGE_PREFIX)) {
+      throw new BadRequestException('Signature must be a PNG image');
+    }
+    const bytes = Buffer.byteLength(signatureImage.slice(SIGNATURE_IMAGE_PREFIX.length), 'base64');
+    if (bytes === 0 || bytes > MAX_SIGNATURE_IMAGE_BYTES) {
+      throw new BadRequestException('Signature image is empty or too large');
+    }
+  }
+
+  /**
+   * Renders the executed lease with signatures and the signing audit trail
+   */
+  private renderExecutedLease(
+    lease: Lease,
+    signatures: readonly LeaseSignature[],
+    events: readonly LeaseSignatureEvent[]
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'LETTER', margin: 50, info: { Title: `Lease ${lease.id}` } });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(18).text('Residential Lease Agreement', { align: 'center' }).moveDown();
+      doc.fontSize(11)
+        .text(`Lease ID: ${lease.id}`)
+        .text(`Unit ID: ${lease.unitId}`)
+        .text(`Term: ${new Date(lease.startDate).toDateString()} - ${new Date(lease.endDate).toDateString()}`)
+        .text(`Monthly rent: $${Number(lease.monthlyRent).toFixed(2)}`)
+        .text(`Security deposit: $${Number(lease.securityDeposit).toFixed(2)}`);
+      if (lease.petDeposit !== null) {
+        doc.text(`Pet deposit: $${Number(lease.petDeposit).toFixed(2)}`);
+      }
+      doc.text(`Required insurance: ${lease.terms.requiredInsurance.join(', ') || 'None'}`)
+        .text(`Tenant-paid utilities: ${lease.terms.utilityRequirements.join(', ') || 'None'}`)
+        .text(`Content hash: ${lease.contentHash}`)
+        .moveDown();
+
+      doc.fontSize(14).text('Signatures').moveDown(0.5);
+      for (const signature of signatures) {
+        doc.fontSize(11).text(`${signature.role} (${signature.userId})`);
+        if (signature.signatureImage) {
+          doc.image(
+            Buffer.from(signature.signatureImage.slice(SIGNATURE_IMAGE_PREFIX.length), 'base64'),
+            { fit: [200, 60] }
+          );
+        }
+        doc.fontSize(9)
+          .text(`Signed ${signature.signedAt?.toISOString()} from ${signature.ipAddress}`)
+          .moveDown();
+      }
+
+      doc.addPage().fontSize(14).text('Signing Audit Trail').moveDown(0.5);
+      for (const event of events) {
+        doc.fontSize(9).text(
+          `${new Date(event.timestamp).toISOString()}  ${event.action}  user=${event.userId}  ` +
+          `ip=${event.ipAddress}  agent=${event.userAgent}  hash=${event.eventHash}`
+        ).moveDown(0.25);
+      }
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Notifies the parties whose signature is currently required
+   */
+  private async notifyAwaitingSigners(
+    status: LeaseSigningStatus,
+    correlationId?: string
+  ): Promise<void> {
+    await Promise.all(status.awaitingUserIds.map((userId) =>
+      this.notificationClient.notify({
+        userId,
+        templateId: NOTIFICATION_CONFIG.templates.leaseSignatureRequested,
+        category: 'LEASE_DEADLINE',
+        subject: 'Your signature is required',
+        body: 'A lease is ready for your signature.',
+        data: { leaseId: status.lease.id, link: `/leases/${status.lease.id}/sign` }
+      }, correlationId)
+    ));
+  }
+
+  /**
+   * Notifies every party on the lease
+   */
+  private async notifyParties(
+    lease: Lease,
+    templateId: string,
+    subject: string,
+    body: string,
+    correlationId?: string,
+    data: Record<string, any> = {}
+  ): Promise<void> {
+    await Promise.all(lease.parties.map((party) =>
+      this.notificationClient.notify({
+        userId: party.userId,
+        templateId,
+        subject,
+        body,
+        data: { ...data, leaseId: lease.id, link: `/leases/${lease.id}/sign` }
+      }, correlationId)
+    ));
+  }
+}
@@ -0,0 +1,317 @@
+import { Injectable, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+
+import { ApplicationStatus } from '../models/application.model';
+import {
+  Lease,
+  LeaseParty,
+  LeasePartyRole,
+  LeaseStatus,
+  LEASE_STATUS_TRANSITIONS
+} from '../models/lease.model';
+import { ApplicationRepository } from '../repositories/application.repository';
+import { LeaseRepository } from '../repositories/lease.repository';
+import { PropertyStaff } from '../repositories/maintenance.repository';
+
+/**
+ * Authenticated user acting on a lease
+ */
+export interface LeaseActor {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+  /** Optional request correlation identifier */
+  readonly correlationId?: string;
+}
+
+/**
+ * Lease drafting request details
+ */
+export interface CreateLeaseDraftInput {
+  /** Approved application to generate the lease from */
+  readonly applicationId: string;
+  /** First day of the lease term */
+  readonly startDate: Date;
+  /** Optional lease length in months, defaults to the property's minimum */
+  readonly durationMonths?: number;
+}
+
+/**
+ * Service handling the lease lifecycle from an approved application through
+ * activation and termination
+ */
+@Injectable()
+export class LeaseService {
+  constructor(
+    private readonly leaseRepository: LeaseRepository,
+    private readonly applicationRepository: ApplicationRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Creates a draft lease from an approved application and the property's lease terms
+   * @param input - Lease drafting details
+   * @param actor - Acting property staff
+   * @returns Promise resolving to created draft lease
+   * @throws ForbiddenException unless the actor manages the property
+   */
+  async createDraftFromApplication(input: CreateLeaseDraftInput, actor: LeaseActor): Promise<Lease> {
+    this.logger.debug('Creating draft lease', { applicationId: input.applicationId });
+
+    try {
+      const application = await this.applicationRepository.findById(input.applicationId);
+
+      if (application.status !== ApplicationStatus.APPROVED) {
+        throw new BadRequestException('Lease can only be created from an APPROVED application');
+      }
+
+      const existingLease = await this.leaseRepository.findByApplicationId(application.id);
+      if (existingLease) {
+        throw new ConflictException('Lease already exists for this application');
+      }
+
+      const unit = await this.leaseRepository.findUnitContext(application.unitId);
+      this.assertStaffOf(unit, actor);
+      const { leaseTerms } = unit;
+
+      const durationMonths = input.durationMonths ?? leaseTerms.minLeaseDuration;
+      if (
+        durationMonths < leaseTerms.minLeaseDuration ||
+        durationMonths > leaseTerms.maxLeaseDuration
+      ) {
+        throw new BadRequestException(
+          `Lease duration must be between ${leaseTerms.minLeaseDuration} and ${leaseTerms.maxLeaseDuration} months`
+        );
+      }
+
+      const parties: LeaseParty[] = [
+        { userId: application.applicantId, role: LeasePartyRole.TENANT },
+        { userId: unit.ownerId, role: LeasePartyRole.LANDLORD }
+      ];
+      if (unit.propertyManagerId) {
+        parties.push({ userId: unit.propertyManagerId, role: LeasePartyRole.PROPERTY_MANAGER });
+      }
+
+      const startDate = new Date(input.startDate);
+
+      const lease = await this.leaseRepository.createLease({
+        applicationId: application.id,
+        propertyId: unit.propertyId,
+        unitId: unit.unitId,
+        startDate,
+        endDate: this.calculateEndDate(startDate, durationMonths),
+        monthlyRent: unit.monthlyRent,
+        securityDeposit: leaseTerms.securityDeposit,
+        petDeposit: leaseTerms.petDeposit ?? null,
+        terms: leaseTerms,
+        parties,
+        createdBy: actor.userId
+      });
+
+      this.logger.info('Draft lease created', {
+        leaseId: lease.id,
+        applicationId: application.id
+      });
+
+      return lease;
+
+    } catch (error) {
+      this.logger.error('Failed to create draft lease', {
+        error: error.message,
+        applicationId: input.applicationId
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a lease for one of its parties or the property's staff
+   * @param leaseId - Lease identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to lease
+   * @throws ForbiddenException if the actor is neither a party nor property staff
+   */
+  async getLeaseById(leaseId: string, actor: LeaseActor): Promise<Lease> {
+    const lease = await this.leaseRepository.findById(leaseId);
+
+    if (!lease.parties.some((party) => party.userId === actor.userId)) {
+      await this.assertPropertyStaff(lease.propertyId, actor);
+    }
+
+    return lease;
+  }
+
+  /**
+   * Sends a draft lease to its parties for signature
+   * @param leaseId - Lease identifier
+   * @param contentHash - Hash of the lease content the parties will sign
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated lease
+   */
+  async sendForSignature(leaseId: string, contentHash: string, actor: LeaseActor): Promise<Lease> {
+    return this.transition(leaseId, LeaseStatus.PENDING_SIGNATURE, actor, { contentHash });
+  }
+
+  /**
+   * Activates a fully signed lease and marks its unit as rented. The
+   * repository confirms every party has signed within the same transaction.
+   * @param leaseId - Lease identifier
+   * @returns Promise resolving to activated lease
+   * @throws BadRequestException unless every party has signed
+   */
+  async activateLease(leaseId: string): Promise<Lease> {
+    // Activation follows the last signature rather than a user request
+    return this.transition(
+      leaseId,
+      LeaseStatus.ACTIVE,
+      null,
+      { activatedAt: new Date() },
+      [LeaseStatus.PENDING_SIGNATURE]
+    );
+  }
+
+  /**
+   * Terminates an active lease before its scheduled end date
+   * @param leaseId - Lease identifier
+   * @param reason - Reason for termination
+   * @param actor - Acting property staff
+   * @returns Promise resolving to terminated lease
+   */
+  async terminateLease(leaseId: string, reason: string, actor: LeaseActor): Promise<Lease> {
+    return this.transition(leaseId, LeaseStatus.TERMINATED, actor, {
+      terminatedAt: new Date(),
+      terminationReason: reason
+    });
+  }
+
+  /**
+   * Cancels a lease that has not yet become active
+   * @param leaseId - Lease identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to cancelled lease
+   */
+  async cancelLease(leaseId: string, actor: LeaseActor): Promise<Lease> {
+    return this.transition(leaseId, LeaseStatus.CANCELLED, actor);
+  }
+
+  /**
+   * Records the tenant's notice to vacate; the unit is listed as available
+   * after this date and its turnover days
+   * @param leaseId - Lease identifier
+   * @param vacateDate - Last day the tenant occupies the unit
+   * @param userId - Lease party recording the notice
+   * @returns Promise resolving to updated lease
+   */
+  async recordNoticeToVacate(leaseId: string, vacateDate: Date, userId: string): Promise<Lease> {
+    const lease = await this.leaseRepository.findById(leaseId);
+
+    if (!lease.parties.some((party) => party.userId === userId)) {
+      throw new ForbiddenException('Only lease parties can give notice to vacate');
+    }
+
+    if (lease.status !== LeaseStatus.ACTIVE) {
+      throw new BadRequestException('Notice to vacate can only be given on an ACTIVE lease');
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (vacateDate < today || vacateDate < new Date(lease.startDate)) {
+      throw new BadRequestException('Vacate date must not be in the past or before the lease starts');
+    }
+
+    const updatedLease = await this.leaseRepository.updateNotice(leaseId, lease.version, vacateDate);
+
+    this.logger.info('Notice to vacate recorded', { leaseId, vacateDate, userId });
+
+    return updatedLease;
+  }
+
+  /**
+   * Applies a validated status transition to a lease
+   * @param leaseId - Lease identifier
+   * @param status - Target status
+   * @param actor - Acting property staff, or null for system transitions
+   * @param changes - Additional fields to persist with the transition
+   * @param allowedFrom - Statuses to move from instead of LEASE_STATUS_TRANSITIONS
+   * @returns Promise resolving to updated lease
+   */
+  private async transition(
+    leaseId: string,
+    status: LeaseStatus,
+    actor: LeaseActor | null,
+    changes: Partial<Lease> = {},
+    allowedFrom?: readonly LeaseStatus[]
+  ): Promise<Lease> {
+    this.logger.debug('Transitioning lease status', { leaseId, status });
+
+    try {
+      const lease = await this.leaseRepository.findById(leaseId);
+
+      if (actor) {
+        await this.assertPropertyStaff(lease.propertyId, actor);
+      }
+
+      const allowed = allowedFrom
+        ? allowedFrom.includes(lease.status)
+        : LEASE_STATUS_TRANSITIONS[lease.status].includes(status);
+      if (!allowed) {
+        throw new BadRequestException(
+          `Invalid lease status transition from ${lease.status} to ${status}`
+        );
+      }
+
+      const updatedLease = await this.leaseRepository.updateStatus(
+        leaseId,
+        status,
+        lease.version,
+        changes
+      );
+
+      this.logger.info('Lease status updated', {
+        leaseId,
+        oldStatus: lease.status,
+        newStatus: status
+      });
+
+      return updatedLease;
+
+    } catch (error) {
+      this.logger.error('Failed to transition lease status', {
+        error: error.message,
+        leaseId,
+        status
+      });
+      throw error;
+    }
+  }
+
+  private async assertPropertyStaff(propertyId: string, actor: LeaseActor): Promise<void> {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+    this.assertStaffOf(await this.leaseRepository.findPropertyStaff(propertyId), actor);
+  }
+
+  private assertStaffOf(staff: PropertyStaff, actor: LeaseActor): void {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+    if (actor.userId !== staff.ownerId && actor.userId !== staff.propertyManagerId) {
+      throw new ForbiddenException('Only property staff can manage this lease');
+    }
+  }
+
+  /**
+   * Calculates the last day of a lease term
+   * @param startDate - First day of the term
+   * @param durationMonths - Term length in months
+   * @returns Last day of the term
+   */
+  private calculateEndDate(startDate: Date, durationMonths: number): Date {
+    const endDate = new Date(startDate);
+    endDate.setMonth(endDate.getMonth() + durationMonths);
+    endDate.setDate(endDate.getDate() - 1);
+    return endDate;
+  }
+}
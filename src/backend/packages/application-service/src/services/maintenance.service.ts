@@ -0,0 +1,431 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+import { NotificationClient } from '@common/clients';
+
+import {
+  MaintenanceCategory,
+  MaintenanceEvent,
+  MaintenancePhoto,
+  MaintenancePriority,
+  MaintenanceRequest,
+  MaintenanceStatus,
+  MaintenanceVendor,
+  MAINTENANCE_STATUS_TRANSITIONS
+} from '../models/maintenance.model';
+import {
+  MaintenanceRepository,
+  MaintenancePhotoUpload
+} from '../repositories/maintenance.repository';
+import { MAINTENANCE_CONFIG, NOTIFICATION_CONFIG } from '../config';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Authenticated user acting on a maintenance request
+ */
+export interface MaintenanceActor {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+  /** Optional request correlation identifier */
+  readonly correlationId?: string;
+}
+
+/**
+ * Input for opening a maintenance request
+ */
+export interface CreateMaintenanceRequestInput {
+  readonly unitId: string;
+  readonly title: string;
+  readonly description: string;
+  readonly category: MaintenanceCategory;
+  readonly priority: MaintenancePriority;
+  readonly permissionToEnter?: boolean;
+  readonly photos?: readonly MaintenancePhotoUpload[];
+}
+
+/**
+ * Maintenance request with its status history
+ */
+export interface MaintenanceRequestDetails {
+  readonly request: MaintenanceRequest;
+  readonly events: readonly MaintenanceEvent[];
+}
+
+/**
+ * Service handling maintenance tickets from tenant report through vendor
+ * assignment, entry scheduling and completion. Every transition is recorded
+ * in the request history and notified to the reporting tenant.
+ */
+@Injectable()
+export class MaintenanceService {
+  constructor(
+    private readonly maintenanceRepository: MaintenanceRepository,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Opens a maintenance request against a unit the tenant actively leases
+   * @param input - Request details and photos
+   * @param actor - Reporting tenant
+   * @returns Promise resolving to created request
+   * @throws ForbiddenException if the tenant holds no active lease on the unit
+   */
+  async createRequest(
+    input: CreateMaintenanceRequestInput,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    this.logger.debug('Creating maintenance request', { unitId: input.unitId, userId: actor.userId });
+
+    const photos = input.photos || [];
+    this.validatePhotos(photos);
+
+    const tenancy = await this.maintenanceRepository.findActiveTenancy(input.unitId, actor.userId);
+    if (!tenancy) {
+      throw new ForbiddenException('Maintenance can only be requested for a unit you actively lease');
+    }
+
+    const request = await this.maintenanceRepository.createRequest({
+      propertyId: tenancy.propertyId,
+      unitId: tenancy.unitId,
+      leaseId: tenancy.leaseId,
+      reportedBy: actor.userId,
+      title: input.title,
+      description: input.description,
+      category: input.category,
+      priority: input.priority,
+      permissionToEnter: input.permissionToEnter ?? false
+    }, photos);
+
+    await this.notifyReporter(
+      request,
+      'Maintenance request received',
+      `We received your request "${request.title}". Property staff will follow up shortly.`,
+      actor.correlationId
+    );
+
+    this.logger.info('Maintenance request created', {
+      requestId: request.id,
+      priority: request.priority
+    });
+
+    return request;
+  }
+
+  /**
+   * Retrieves a request and its history for the tenant or property staff
+   * @param id - Request identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to request details
+   */
+  async getRequest(id: string, actor: MaintenanceActor): Promise<MaintenanceRequestDetails> {
+    const request = await this.maintenanceRepository.findById(id);
+
+    if (request.reportedBy !== actor.userId) {
+      await this.assertPropertyStaff(request.propertyId, actor);
+    }
+
+    return {
+      request,
+      events: await this.maintenanceRepository.findEvents(id)
+    };
+  }
+
+  /**
+   * Lists requests reported by the acting tenant
+   * @param actor - Acting user
+   * @returns Promise resolving to requests
+   */
+  async getRequestsForReporter(actor: MaintenanceActor): Promise<MaintenanceRequest[]> {
+    return this.maintenanceRepository.findByReporter(actor.userId);
+  }
+
+  /**
+   * Lists requests for a property managed by the acting user
+   * @param propertyId - Property identifier
+   * @param actor - Acting user
+   * @param statuses - Optional status filter
+   * @returns Promise resolving to requests
+   */
+  async getRequestsForProperty(
+    propertyId: string,
+    actor: MaintenanceActor,
+    statuses?: readonly MaintenanceStatus[]
+  ): Promise<MaintenanceRequest[]> {
+    await this.assertPropertyStaff(propertyId, actor);
+    return this.maintenanceRepository.findByProperty(propertyId, statuses);
+  }
+
+  /**
+   * Assigns a vendor to an open request
+   * @param id - Request identifier
+   * @param vendor - Vendor details
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  async assignVendor(
+    id: string,
+    vendor: MaintenanceVendor,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    if (!vendor?.name?.trim()) {
+      throw new BadRequestException('Vendor name is required');
+    }
+
+    return this.transition(id, MaintenanceStatus.ASSIGNED, actor, {
+      changes: { vendor, assignedBy: actor.userId },
+      note: `Assigned to ${vendor.name}`,
+      subject: 'Vendor assigned',
+      body: (request) => `${vendor.name} has been assigned to "${request.title}".`
+    });
+  }
+
+  /**
+   * Schedules or reschedules the window in which the vendor will enter the unit
+   * @param id - Request identifier
+   * @param start - Entry window start
+   * @param end - Entry window end
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  async scheduleEntry(
+    id: string,
+    start: Date,
+    end: Date,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    return this.transition(id, MaintenanceStatus.SCHEDULED, actor, {
+      changes: { entryWindowStart: start, entryWindowEnd: end },
+      validate: (request) => this.validateEntryWindow(request, start, end),
+      note: `Entry window ${start.toISOString()} - ${end.toISOString()}`,
+      subject: 'Entry window scheduled',
+      body: (request) =>
+        `A visit for "${request.title}" is scheduled between ${start.toISOString()} and ${end.toISOString()}.`
+    });
+  }
+
+  /**
+   * Marks work as started
+   * @param id - Request identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to updated request
+   */
+  async startWork(id: string, actor: MaintenanceActor): Promise<MaintenanceRequest> {
+    return this.transition(id, MaintenanceStatus.IN_PROGRESS, actor, {
+      subject: 'Work started',
+      body: (request) => `Work has started on "${request.title}".`
+    });
+  }
+
+  /**
+   * Marks work as completed with resolution notes
+   * @param id - Request identifier
+   * @param resolutionNotes - Summary of the work done
+   * @param actor - Acting property staff
+   * @param cost - Optional vendor cost of the work
+   * @returns Promise resolving to updated request
+   */
+  async completeRequest(
+    id: string,
+    resolutionNotes: string,
+    actor: MaintenanceActor,
+    cost?: number
+  ): Promise<MaintenanceRequest> {
+    if (!resolutionNotes?.trim()) {
+      throw new BadRequestException('Resolution notes are required');
+    }
+    if (cost !== undefined && !(Number.isFinite(cost) && cost >= 0)) {
+      throw new BadRequestException('Cost must be zero or greater');
+    }
+
+    return this.transition(id, MaintenanceStatus.COMPLETED, actor, {
+      changes: { resolutionNotes, completedAt: new Date(), cost: cost ?? null },
+      note: resolutionNotes,
+      subject: 'Maintenance completed',
+      body: (request) => `"${request.title}" has been completed. ${resolutionNotes}`
+    });
+  }
+
+  /**
+   * Cancels a request. Tenants may withdraw their own request while it is
+   * still open; property staff may cancel until work starts.
+   * @param id - Request identifier
+   * @param reason - Optional cancellation reason
+   * @param actor - Acting user
+   * @returns Promise resolving to updated request
+   */
+  async cancelRequest(
+    id: string,
+    reason: string | undefined,
+    actor: MaintenanceActor
+  ): Promise<MaintenanceRequest> {
+    const request = await this.maintenanceRepository.findById(id);
+    const isReporter = request.reportedBy === actor.userId;
+
+    if (isReporter && request.status !== MaintenanceStatus.OPEN) {
+      throw new BadRequestException('Requests can only be withdrawn before a vendor is assigned');
+    }
+
+    return this.transition(id, MaintenanceStatus.CANCELLED, actor, {
+      allowReporter: isReporter,
+      note: reason || null,
+      subject: 'Maintenance request cancelled',
+      body: (current) => `"${current.title}" has been cancelled.${reason ? ` ${reason}` : ''}`
+    });
+  }
+
+  /**
+   * Retrieves photo content for the tenant or property staff
+   * @param requestId - Request identifier
+   * @param photoId - Photo identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to photo metadata and content
+   */
+  async getPhoto(
+    requestId: string,
+    photoId: string,
+    actor: MaintenanceActor
+  ): Promise<MaintenancePhoto & { content: Buffer }> {
+    await this.getRequest(requestId, actor);
+    return this.maintenanceRepository.findPhoto(requestId, photoId);
+  }
+
+  /**
+   * Validates and applies a status transition, then notifies the tenant
+   */
+  private async transition(
+    id: string,
+    toStatus: MaintenanceStatus,
+    actor: MaintenanceActor,
+    options: {
+      changes?: Partial<MaintenanceRequest>;
+      validate?: (request: MaintenanceRequest) => void;
+      allowReporter?: boolean;
+      note?: string | null;
+      subject: string;
+      body: (request: MaintenanceRequest) => string;
+    }
+  ): Promise<MaintenanceRequest> {
+    const request = await this.maintenanceRepository.findById(id);
+
+    if (!options.allowReporter) {
+      await this.assertPropertyStaff(request.propertyId, actor);
+    }
+
+    if (!MAINTENANCE_STATUS_TRANSITIONS[request.status].includes(toStatus)) {
+      throw new BadRequestException(
+        `Invalid maintenance status transition from ${request.status} to ${toStatus}`
+      );
+    }
+
+    options.validate?.(request);
+
+    const updated = await this.maintenanceRepository.updateStatus(
+      id,
+      request.version,
+      options.changes || {},
+      {
+        requestId: id,
+        fromStatus: request.status,
+        toStatus,
+        actorId: actor.userId,
+        note: options.note ?? null
+      }
+    );
+
+    await this.notifyReporter(updated, options.subject, options.body(updated), actor.correlationId);
+
+    this.logger.info('Maintenance request status updated', {
+      requestId: id,
+      fromStatus: request.status,
+      toStatus
+    });
+
+    return updated;
+  }
+
+  /**
+   * Ensures the actor is an admin or the property's owner or manager
+   */
+  private async assertPropertyStaff(propertyId: string, actor: MaintenanceActor): Promise<void> {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+
+    const staff = await this.maintenanceRepository.findPropertyStaff(propertyId);
+    if (actor.userId !== staff.ownerId && actor.userId !== staff.propertyManagerId) {
+      throw new ForbiddenException('Only property staff can manage this maintenance request');
+    }
+  }
+
+  /**
+   * Validates an entry window against the tenant notice period. Emergency
+   * requests may be entered immediately.
+   */
+  private validateEntryWindow(request: MaintenanceRequest, start: Date, end: Date): void {
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      throw new BadRequestException('Entry window end must be after its start');
+    }
+
+    if (end.getTime() - start.getTime() > MAINTENANCE_CONFIG.maxEntryWindowHours * HOUR_MS) {
+      throw new BadRequestException(
+        `Entry window cannot exceed ${MAINTENANCE_CONFIG.maxEntryWindowHours} hours`
+      );
+    }
+
+    const noticeHours = request.priority === MaintenancePriority.EMERGENCY
+      ? 0
+      : MAINTENANCE_CONFIG.entryNoticeHours;
+
+    if (start.getTime() < Date.now() + noticeHours * HOUR_MS) {
+      throw new BadRequestException(
+        `Entry requires at least ${noticeHours} hours notice to the tenant`
+      );
+    }
+  }
+
+  /**
+   * Validates uploaded photo count, size and type
+   */
+  private validatePhotos(photos: readonly MaintenancePhotoUpload[]): void {
+    if (photos.length > MAINTENANCE_CONFIG.maxPhotos) {
+      throw new BadRequestException(`At most ${MAINTENANCE_CONFIG.maxPhotos} photos can be attached`);
+    }
+
+    for (const photo of photos) {
+      if (!(MAINTENANCE_CONFIG.allowedPhotoTypes as readonly string[]).includes(photo.mimeType)) {
+        throw new BadRequestException(`Unsupported photo type: ${photo.mimeType}`);
+      }
+      if (photo.size > MAINTENANCE_CONFIG.maxPhotoSize) {
+        throw new BadRequestException(`Photo ${photo.fileName} exceeds the maximum size`);
+      }
+    }
+  }
+
+  private async notifyReporter(
+    request: MaintenanceRequest,
+    subject: string,
+    body: string,
+    correlationId?: string
+  ): Promise<void> {
+    await this.notificationClient.notify({
+      userId: request.reportedBy,
+      templateId: NOTIFICATION_CONFIG.templates.maintenanceUpdated,
+      subject,
+      body,
+      data: {
+        maintenanceRequestId: request.id,
+        status: request.status,
+        priority: request.priority,
+        entryWindowStart: request.entryWindowStart,
+        entryWindowEnd: request.entryWindowEnd
+      }
+    }, correlationId);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Evaluates an application's facts against a property's screening criteria
+ * and derives the recommended decision.
+ * @packageDocumentation
+ */
+
+import {
+  EvictionDisposition,
+  EvictionRecord,
+  ScreeningCriteria,
+  ScreeningCriterion,
+  ScreeningFacts,
+  ScreeningOutcome,
+  ScreeningReason,
+  ScreeningRecommendation
+} from '../models/screening.model';
+
+const formatAmount = (amount: number): string => `$${amount.toFixed(2)}`;
+
+/**
+ * Counts eviction judgments filed within the lookback window. Dismissed,
+ * sealed and pending filings are never held against an applicant.
+ * @param records - Eviction records from the background check
+ * @param lookbackYears - Years of history considered
+ * @param asOf - Evaluation date
+ */
+export const countRecentEvictions = (
+  records: readonly EvictionRecord[],
+  lookbackYears: number,
+  asOf: Date
+): number => {
+  const cutoff = new Date(asOf);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - lookbackYears);
+
+  return records.filter((record) =>
+    record.disposition === EvictionDisposition.JUDGMENT && new Date(record.filedAt) >= cutoff
+  ).length;
+};
+
+/**
+ * Monthly income a guarantor must earn to back the application
+ */
+const coSignerRequiredIncome = (criteria: ScreeningCriteria, facts: ScreeningFacts): number =>
+  (criteria.coSignerIncomeMultiple ?? criteria.incomeMultiple!) * facts.monthlyRent;
+
+const hasQualifyingGuarantor = (criteria: ScreeningCriteria, facts: ScreeningFacts): boolean =>
+  facts.guarantorMonthlyIncome !== null &&
+  facts.guarantorMonthlyIncome >= coSignerRequiredIncome(criteria, facts);
+
+const evaluateIncome = (criteria: ScreeningCriteria, facts: ScreeningFacts): ScreeningReason => {
+  const required = criteria.incomeMultiple! * facts.monthlyRent;
+
+  if (facts.monthlyIncome >= required) {
+    return {
+      criterion: ScreeningCriterion.INCOME_TO_RENT,
+      outcome: ScreeningOutcome.PASS,
+      message: `Monthly income of ${formatAmount(facts.monthlyIncome)} meets the ${criteria.incomeMultiple}x rent requirement of ${formatAmount(required)}`
+    };
+  }
+
+  if (criteria.allowCoSigner) {
+    const coSignerRequired = coSignerRequiredIncome(criteria, facts);
+
+    if (hasQualifyingGuarantor(criteria, facts)) {
+      return {
+        criterion: ScreeningCriterion.INCOME_TO_RENT,
+        outcome: ScreeningOutcome.PASS,
+        message: `Monthly income of ${formatAmount(facts.monthlyIncome)} is below ${formatAmount(required)}; covered by a guarantor earning at least ${formatAmount(coSignerRequired)}`
+      };
+    }
+
+    return {
+      criterion: ScreeningCriterion.INCOME_TO_RENT,
+      outcome: ScreeningOutcome.CO_SIGNER_REQUIRED,
+      message: `Monthly income of ${formatAmount(facts.monthlyIncome)} is below ${formatAmount(required)}; a co-signer earning at least ${formatAmount(coSignerRequired)} per month is required`
+    };
+  }
+
+  return {
+    criterion: ScreeningCriterion.INCOME_TO_RENT,
+    outcome: ScreeningOutcome.FAIL,
+    message: `Monthly income of ${formatAmount(facts.monthlyIncome)} is below the ${criteria.incomeMultiple}x rent requirement of ${formatAmount(required)}`
+  };
+};
+
+const evaluateCredit = (criteria: ScreeningCriteria, facts: ScreeningFacts): ScreeningReason => {
+  if (facts.creditScore === null) {
+    return {
+      criterion: ScreeningCriterion.CREDIT_SCORE,
+      outcome: ScreeningOutcome.MISSING_DATA,
+      message: 'Credit score is not available'
+    };
+  }
+
+  if (facts.creditScore >= criteria.minCreditScore!) {
+    return {
+      criterion: ScreeningCriterion.CREDIT_SCORE,
+      outcome: ScreeningOutcome.PASS,
+      message: `Credit score of ${facts.creditScore} meets the minimum of ${criteria.minCreditScore}`
+    };
+  }
+
+  if (criteria.allowCoSigner && hasQualifyingGuarantor(criteria, facts)) {
+    return {
+      criterion: ScreeningCriterion.CREDIT_SCORE,
+      outcome: ScreeningOutcome.PASS,
+      message: `Credit score of ${facts.creditScore} is below the minimum of ${criteria.minCreditScore}; covered by a verified guarantor earning at least ${formatAmount(coSignerRequiredIncome(criteria, facts))}`
+    };
+  }
+
+  return {
+    criterion: ScreeningCriterion.CREDIT_SCORE,
+    outcome: criteria.allowCoSigner ? ScreeningOutcome.CO_SIGNER_REQUIRED : ScreeningOutcome.FAIL,
+    message: criteria.allowCoSigner
+      ? `Credit score of ${facts.creditScore} is below the minimum of ${criteria.minCreditScore}; a co-signer is required`
+      : `Credit score of ${facts.creditScore} is below the minimum of ${criteria.minCreditScore}`
+  };
+};
+
+const evaluateEvictions = (criteria: ScreeningCriteria, facts: ScreeningFacts): ScreeningReason => {
+  if (facts.evictionCount === null) {
+    return {
+      criterion: ScreeningCriterion.EVICTION_HISTORY,
+      outcome: ScreeningOutcome.MISSING_DATA,
+      message: 'Background check has not completed'
+    };
+  }
+
+  // A co-signer guarantees payment, not conduct, so eviction history is never waived
+  const passed = facts.evictionCount <= criteria.maxEvictions!;
+  return {
+    criterion: ScreeningCriterion.EVICTION_HISTORY,
+    outcome: passed ? ScreeningOutcome.PASS : ScreeningOutcome.FAIL,
+    message: `${facts.evictionCount} eviction judgment(s) in the last ${criteria.evictionLookbackYears} years; ${criteria.maxEvictions} allowed`
+  };
+};
+
+/**
+ * Evaluates every configured criterion and derives the recommendation.
+ * Any failure declines; otherwise missing data leaves the screening
+ * incomplete; otherwise a shortfall covered by a co-signer approves with
+ * that condition.
+ * @param criteria - Property screening criteria
+ * @param facts - Applicant facts
+ * @returns Recommendation and per-criterion reasons
+ */
+export const evaluateScreening = (
+  criteria: ScreeningCriteria,
+  facts: ScreeningFacts
+): { recommendation: ScreeningRecommendation; reasons: ScreeningReason[] } => {
+  const reasons: ScreeningReason[] = [];
+
+  if (criteria.incomeMultiple !== null) {
+    reasons.push(evaluateIncome(criteria, facts));
+  }
+  if (criteria.minCreditScore !== null) {
+    reasons.push(evaluateCredit(criteria, facts));
+  }
+  if (criteria.maxEvictions !== null) {
+    reasons.push(evaluateEvictions(criteria, facts));
+  }
+  if (facts.pendingHouseholdMembers > 0) {
+    reasons.push({
+      criterion: ScreeningCriterion.HOUSEHOLD,
+      outcome: ScreeningOutcome.MISSING_DATA,
+      message: `${facts.pendingHouseholdMembers} household member(s) have not completed verification`
+    });
+  }
+
+  const has = (outcome: ScreeningOutcome) => reasons.some((reason) => reason.outcome === outcome);
+
+  let recommendation = ScreeningRecommendation.APPROVE;
+  if (has(ScreeningOutcome.FAIL)) {
+    recommendation = ScreeningRecommendation.DECLINE;
+  } else if (has(ScreeningOutcome.MISSING_DATA)) {
+    recommendation = ScreeningRecommendation.INCOMPLETE;
+  } else if (has(ScreeningOutcome.CO_SIGNER_REQUIRED)) {
+    recommendation = ScreeningRecommendation.APPROVE_WITH_CO_SIGNER;
+  }
+
+  return { recommendation, reasons };
+};
@@ -0,0 +1,283 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+
+import {
+  ScreeningCriteria,
+  ScreeningFacts,
+  ScreeningResult
+} from '../models/screening.model';
+import { VerificationStatus } from '../models/application.model';
+import { ParticipantRole, ParticipantStatus } from '../models/household.model';
+import {
+  ScreeningApplicationContext,
+  ScreeningRepository
+} from '../repositories/screening.repository';
+import { countRecentEvictions, evaluateScreening } from './screening.evaluator';
+import { SCREENING_CONFIG } from '../config';
+
+/**
+ * Authenticated user acting on screening criteria or results
+ */
+export interface ScreeningActor {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+}
+
+/**
+ * Criteria a property manager may configure. Nothing else is accepted.
+ */
+export interface UpdateScreeningCriteriaInput {
+  readonly incomeMultiple: number | null;
+  readonly minCreditScore: number | null;
+  readonly maxEvictions: number | null;
+  readonly evictionLookbackYears?: number;
+  readonly allowCoSigner: boolean;
+  readonly coSignerIncomeMultiple?: number | null;
+}
+
+const CONFIGURABLE_CRITERIA: readonly string[] = [
+  'incomeMultiple',
+  'minCreditScore',
+  'maxEvictions',
+  'evictionLookbackYears',
+  'allowCoSigner',
+  'coSignerIncomeMultiple'
+];
+
+/**
+ * Service evaluating applications against per-property screening criteria.
+ * Recommendations are advisory; approving or rejecting an application stays
+ * a property staff decision.
+ */
+@Injectable()
+export class ScreeningService {
+  constructor(
+    private readonly screeningRepository: ScreeningRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Retrieves a property's criteria, falling back to the service defaults
+   * @param propertyId - Property identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to criteria in effect
+   */
+  async getCriteria(propertyId: string, actor: ScreeningActor): Promise<ScreeningCriteria> {
+    await this.assertPropertyStaff(propertyId, actor);
+    return this.resolveCriteria(propertyId);
+  }
+
+  /**
+   * Replaces a property's screening criteria
+   * @param propertyId - Property identifier
+   * @param input - New criteria
+   * @param actor - Acting property staff
+   * @returns Promise resolving to stored criteria
+   * @throws BadRequestException if a criterion is unsupported or out of range
+   */
+  async updateCriteria(
+    propertyId: string,
+    input: UpdateScreeningCriteriaInput,
+    actor: ScreeningActor
+  ): Promise<ScreeningCriteria> {
+    await this.assertPropertyStaff(propertyId, actor);
+    this.validateCriteria(input);
+
+    return this.screeningRepository.upsertCriteria({
+      propertyId,
+      incomeMultiple: input.incomeMultiple,
+      minCreditScore: input.minCreditScore,
+      maxEvictions: input.maxEvictions,
+      evictionLookbackYears: input.evictionLookbackYears ?? SCREENING_CONFIG.defaultCriteria.evictionLookbackYears,
+      allowCoSigner: input.allowCoSigner,
+      coSignerIncomeMultiple: input.allowCoSigner ? input.coSignerIncomeMultiple ?? null : null,
+      updatedBy: actor.userId
+    });
+  }
+
+  /**
+   * Evaluates an application against its property's criteria and records
+   * the recommendation
+   * @param applicationId - Application identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to recorded result
+   */
+  async evaluateApplication(applicationId: string, actor: ScreeningActor): Promise<ScreeningResult> {
+    const application = await this.screeningRepository.findApplicationContext(applicationId);
+    this.assertStaffOf(application, actor);
+
+    const criteria = await this.resolveCriteria(application.propertyId);
+    const facts = await this.collectFacts(application, criteria);
+
+    const { recommendation, reasons } = evaluateScreening(criteria, facts);
+
+    const result = await this.screeningRepository.createResult({
+      applicationId,
+      propertyId: application.propertyId,
+      recommendation,
+      reasons,
+      criteria,
+      facts,
+      evaluatedBy: actor.userId
+    });
+
+    this.logger.info('Application screened', {
+      applicationId,
+      recommendation
+    });
+
+    return result;
+  }
+
+  /**
+   * Retrieves the latest recorded screening of an application
+   * @param applicationId - Application identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to the latest result
+   * @throws NotFoundException if the application has not been screened
+   */
+  async getLatestResult(applicationId: string, actor: ScreeningActor): Promise<ScreeningResult> {
+    const application = await this.screeningRepository.findApplicationContext(applicationId);
+    this.assertStaffOf(application, actor);
+
+    const result = await this.screeningRepository.findLatestResult(applicationId);
+    if (!result) {
+      throw new NotFoundException('Application has not been screened');
+    }
+    return result;
+  }
+
+  /**
+   * Combines the primary applicant with the household. Verified co-applicants
+   * add their income and are held to the same credit and eviction criteria;
+   * verified guarantors can only cover a shortfall.
+   */
+  private async collectFacts(
+    application: ScreeningApplicationContext,
+    criteria: ScreeningCriteria
+  ): Promise<ScreeningFacts> {
+    const members = await this.screeningRepository.findHouseholdMembers(application.applicationId);
+    const verified = members.filter((member) =>
+      member.status === ParticipantStatus.SUBMITTED &&
+      member.verificationStatus === VerificationStatus.COMPLETED
+    );
+    const coApplicants = verified.filter((member) => member.role === ParticipantRole.CO_APPLICANT);
+    const guarantors = verified.filter((member) => member.role === ParticipantRole.GUARANTOR);
+
+    const checks = await Promise.all([
+      this.screeningRepository.findLatestBackgroundCheck(application.applicationId),
+      ...coApplicants.map((member) =>
+        this.screeningRepository.findLatestBackgroundCheck(application.applicationId, member.participantId)
+      )
+    ]);
+
+    const creditScores = [application.creditScore, ...coApplicants.map((member) => member.creditScore)];
+    // A guarantor whose income is unknown cannot back the application
+    const guarantorIncomes = guarantors
+      .map((member) => member.monthlyIncome)
+      .filter((income): income is number => income !== null);
+    const now = new Date();
+
+    return {
+      monthlyIncome: coApplicants.reduce(
+        (total, member) => total + (member.monthlyIncome ?? 0),
+        application.monthlyIncome
+      ),
+      monthlyRent: application.monthlyRent,
+      creditScore: creditScores.includes(null) ? null : Math.min(...(creditScores as number[])),
+      evictionCount: checks.includes(null)
+        ? null
+        : checks.reduce(
+          (total, check) => total + countRecentEvictions(check!.evictions, criteria.evictionLookbackYears, now),
+          0
+        ),
+      guarantorMonthlyIncome: guarantorIncomes.length ? Math.max(...guarantorIncomes) : null,
+      pendingHouseholdMembers: members.length - verified.length
+    };
+  }
+
+  private async resolveCriteria(propertyId: string): Promise<ScreeningCriteria> {
+    const criteria = await this.screeningRepository.findCriteria(propertyId);
+    return criteria || {
+      ...SCREENING_CONFIG.defaultCriteria,
+      propertyId,
+      updatedBy: null,
+      updatedAt: null
+    };
+  }
+
+  /**
+   * Rejects anything other than the income, credit, eviction and co-signer
+   * criteria and enforces their allowed ranges
+   */
+  private validateCriteria(input: UpdateScreeningCriteriaInput): void {
+    const unsupported = Object.keys(input).filter((key) => !CONFIGURABLE_CRITERIA.includes(key));
+    if (unsupported.length) {
+      throw new BadRequestException(
+        `Unsupported screening criteria: ${unsupported.join(', ')}. ` +
+        'Only income, credit score, eviction history and co-signer criteria can be configured'
+      );
+    }
+
+    const inRange = (value: number | null | undefined, range: { min: number; max: number }) =>
+      value === null || value === undefined || (value >= range.min && value <= range.max);
+
+    if (!inRange(input.incomeMultiple, SCREENING_CONFIG.incomeMultipleRange)) {
+      throw new BadRequestException(
+        `Income multiple must be between ${SCREENING_CONFIG.incomeMultipleRange.min} and ${SCREENING_CONFIG.incomeMultipleRange.max}`
+      );
+    }
+    if (!inRange(input.coSignerIncomeMultiple, SCREENING_CONFIG.coSignerIncomeMultipleRange)) {
+      throw new BadRequestException(
+        `Co-signer income multiple must be between ${SCREENING_CONFIG.coSignerIncomeMultipleRange.min} and ${SCREENING_CONFIG.coSignerIncomeMultipleRange.max}`
+      );
+    }
+    if (
+      input.minCreditScore !== null &&
+      (!Number.isInteger(input.minCreditScore) || !inRange(input.minCreditScore, SCREENING_CONFIG.creditScoreRange))
+    ) {
+      throw new BadRequestException(
+        `Minimum credit score must be between ${SCREENING_CONFIG.creditScoreRange.min} and ${SCREENING_CONFIG.creditScoreRange.max}`
+      );
+    }
+    if (input.maxEvictions !== null && !(Number.isInteger(input.maxEvictions) && input.maxEvictions >= 0)) {
+      throw new BadRequestException('Maximum evictions must be a non-negative whole number');
+    }
+    if (
+      input.evictionLookbackYears !== undefined &&
+      !(Number.isInteger(input.evictionLookbackYears) &&
+        input.evictionLookbackYears >= 1 &&
+        input.evictionLookbackYears <= SCREENING_CONFIG.maxEvictionLookbackYears)
+    ) {
+      throw new BadRequestException(
+        `Eviction lookback must be between 1 and ${SCREENING_CONFIG.maxEvictionLookbackYears} years`
+      );
+    }
+  }
+
+  private async assertPropertyStaff(propertyId: string, actor: ScreeningActor): Promise<void> {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+    this.assertStaffOf(await this.screeningRepository.findPropertyStaff(propertyId), actor);
+  }
+
+  private assertStaffOf(
+    staff: { ownerId: string; propertyManagerId: string | null },
+    actor: ScreeningActor
+  ): void {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+    if (actor.userId !== staff.ownerId && actor.userId !== staff.propertyManagerId) {
+      throw new ForbiddenException('Only property staff can manage tenant screening');
+    }
+  }
+}
@@ -0,0 +1,474 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+import { NotificationClient } from '@common/clients';
+
+import { Tour, TourSlot, TourStatus, TourType } from '../models/tour.model';
+import { TourRepository, TourPropertyContext } from '../repositories/tour.repository';
+import { buildCalendarEvent } from './calendar.builder';
+import { NOTIFICATION_CONFIG, TOUR_CONFIG } from '../config';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_SLOT_LOOKAHEAD_DAYS = 14;
+
+const TOUR_TYPE_LABELS: Readonly<Record<TourType, string>> = {
+  [TourType.IN_PERSON]: 'in-person tour',
+  [TourType.SELF_GUIDED]: 'self-guided tour'
+};
+
+/**
+ * Authenticated user acting on tours
+ */
+export interface TourActor {
+  /** Acting user identifier */
+  readonly userId: string;
+  /** Acting user role */
+  readonly role: string;
+  /** Optional request correlation identifier */
+  readonly correlationId?: string;
+}
+
+/**
+ * Availability slot requested by property staff
+ */
+export interface PublishTourSlotInput {
+  readonly startsAt: Date;
+  readonly endsAt: Date;
+  readonly tourTypes: readonly TourType[];
+  readonly unitId?: string;
+  readonly capacity?: number;
+}
+
+/**
+ * Tour booking requested by a renter
+ */
+export interface BookTourInput {
+  readonly slotId: string;
+  readonly type: TourType;
+  readonly notes?: string;
+}
+
+/**
+ * Service handling manager availability calendars and renter tour bookings,
+ * including calendar invites on confirmation and reminders before the tour
+ */
+@Injectable()
+export class TourService {
+  constructor(
+    private readonly tourRepository: TourRepository,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Publishes availability slots for a property. Slots may not overlap each
+   * other or existing slots so staff are never double-booked.
+   * @param propertyId - Property identifier
+   * @param slots - Slots to publish
+   * @param actor - Acting property staff
+   * @returns Promise resolving to created slots
+   */
+  async publishSlots(
+    propertyId: string,
+    slots: readonly PublishTourSlotInput[],
+    actor: TourActor
+  ): Promise<TourSlot[]> {
+    await this.assertPropertyStaff(
+      await this.tourRepository.findPropertyContext(propertyId),
+      actor
+    );
+
+    if (!slots.length || slots.length > TOUR_CONFIG.maxSlotsPerRequest) {
+      throw new BadRequestException(
+        `Between 1 and ${TOUR_CONFIG.maxSlotsPerRequest} slots can be published at once`
+      );
+    }
+
+    const sorted = [...slots].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    sorted.forEach((slot, index) => {
+      this.validateSlot(slot);
+      if (index > 0 && slot.startsAt < sorted[index - 1].endsAt) {
+        throw new BadRequestException('Published slots cannot overlap each other');
+      }
+    });
+
+    for (const slot of sorted) {
+      const overlapping = await this.tourRepository.findOverlappingSlots(
+        propertyId,
+        slot.startsAt,
+        slot.endsAt
+      );
+      if (overlapping.length) {
+        throw new ConflictException(
+          `Slot starting ${slot.startsAt.toISOString()} overlaps an existing slot`
+        );
+      }
+    }
+
+    return this.tourRepository.createSlots(sorted.map((slot) => ({
+      propertyId,
+      unitId: slot.unitId || null,
+      createdBy: actor.userId,
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      tourTypes: Array.from(new Set(slot.tourTypes)),
+      capacity: slot.capacity || 1
+    })));
+  }
+
+  /**
+   * Retrieves bookable slots for a property
+   * @param propertyId - Property identifier
+   * @param from - Optional earliest start, defaults to the booking cutoff
+   * @param to - Optional latest start, defaults to two weeks ahead
+   * @returns Promise resolving to available slots
+   */
+  async getAvailableSlots(propertyId: string, from?: Date, to?: Date): Promise<TourSlot[]> {
+    const cutoff = this.getBookingCutoff();
+    const start = from && from > cutoff ? from : cutoff;
+    const end = to || new Date(start.getTime() + DEFAULT_SLOT_LOOKAHEAD_DAYS * DAY_MS);
+
+    if (end < start) {
+      throw new BadRequestException('Slot range end must be after its start');
+    }
+
+    return this.tourRepository.findAvailableSlots(propertyId, start, end);
+  }
+
+  /**
+   * Withdraws a slot, cancelling and notifying any renters booked into it
+   * @param slotId - Slot identifier
+   * @param actor - Acting property staff
+   * @returns Promise resolving to the tours that were cancelled
+   */
+  async cancelSlot(slotId: string, actor: TourActor): Promise<Tour[]> {
+    const slot = await this.tourRepository.findSlotById(slotId);
+    const property = await this.tourRepository.findPropertyContext(slot.propertyId);
+    await this.assertPropertyStaff(property, actor);
+
+    if (slot.isCancelled) {
+      throw new ConflictException('Tour slot is already cancelled');
+    }
+
+    const cancelled = await this.tourRepository.cancelSlot(slotId, actor.userId);
+
+    await Promise.all(cancelled.map((tour) =>
+      this.notifyCancellation(tour, property, actor.correlationId)
+    ));
+
+    this.logger.info('Tour slot cancelled', { slotId, cancelledTours: cancelled.length });
+
+    return cancelled;
+  }
+
+  /**
+   * Books a tour into an available slot and sends a calendar invite
+   * @param input - Booking details
+   * @param actor - Booking renter
+   * @returns Promise resolving to booked tour
+   */
+  async bookTour(input: BookTourInput, actor: TourActor): Promise<Tour> {
+    this.logger.debug('Booking tour', { slotId: input.slotId, userId: actor.userId });
+
+    const slot = await this.tourRepository.findSlotById(input.slotId);
+
+    if (!slot.tourTypes.includes(input.type)) {
+      throw new BadRequestException(`${input.type} tours are not offered in this slot`);
+    }
+
+    const tour = await this.tourRepository.bookTour({
+      slotId: slot.id,
+      renterId: actor.userId,
+      type: input.type,
+      notes: input.notes?.trim() || null
+    }, this.getBookingCutoff());
+
+    const property = await this.tourRepository.findPropertyContext(tour.propertyId);
+
+    await this.notificationClient.notify({
+      userId: tour.renterId,
+      templateId: NOTIFICATION_CONFIG.templates.tourBooked,
+      subject: `Tour confirmed: ${property.name}`,
+      body: `Your ${TOUR_TYPE_LABELS[tour.type]} of ${property.name} is confirmed for ${tour.startsAt.toISOString()}.`,
+      data: this.buildNotificationData(tour, property),
+      attachments: [this.buildInvite(tour, property)],
+      sms: true
+    }, actor.correlationId);
+
+    await this.notifyStaff(
+      property,
+      NOTIFICATION_CONFIG.templates.tourBooked,
+      'New tour booked',
+      `${property.name}: ${TOUR_TYPE_LABELS[tour.type]} booked for ${tour.startsAt.toISOString()}.`,
+      tour,
+      actor.correlationId
+    );
+
+    this.logger.info('Tour booked', { tourId: tour.id, propertyId: tour.propertyId });
+
+    return tour;
+  }
+
+  /**
+   * Cancels a scheduled tour. Renters may cancel their own tours; property
+   * staff may cancel any tour on their property.
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to cancelled tour
+   */
+  async cancelTour(id: string, actor: TourActor): Promise<Tour> {
+    const tour = await this.tourRepository.findTourById(id);
+    const property = await this.tourRepository.findPropertyContext(tour.propertyId);
+
+    if (tour.renterId !== actor.userId) {
+      await this.assertPropertyStaff(property, actor);
+    }
+
+    const cancelled = await this.tourRepository.cancelTour(id, actor.userId);
+
+    await this.notifyCancellation(cancelled, property, actor.correlationId);
+    if (actor.userId === tour.renterId) {
+      await this.notifyStaff(
+        property,
+        NOTIFICATION_CONFIG.templates.tourCancelled,
+        'Tour cancelled',
+        `A tour of ${property.name} on ${tour.startsAt.toISOString()} was cancelled by the renter.`,
+        cancelled,
+        actor.correlationId
+      );
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Retrieves a tour for its renter or property staff
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to tour
+   */
+  async getTour(id: string, actor: TourActor): Promise<Tour> {
+    const tour = await this.tourRepository.findTourById(id);
+
+    if (tour.renterId !== actor.userId) {
+      await this.assertPropertyStaff(
+        await this.tourRepository.findPropertyContext(tour.propertyId),
+        actor
+      );
+    }
+
+    return tour;
+  }
+
+  /**
+   * Builds the calendar invite for a tour
+   * @param id - Tour identifier
+   * @param actor - Acting user
+   * @returns Promise resolving to the iCalendar document
+   */
+  async getCalendarInvite(id: string, actor: TourActor): Promise<string> {
+    const tour = await this.getTour(id, actor);
+    const property = await this.tourRepository.findPropertyContext(tour.propertyId);
+
+    return Buffer.from(this.buildInvite(tour, property).content, 'base64').toString('utf8');
+  }
+
+  /**
+   * Retrieves the acting renter's current and upcoming tours
+   * @param actor - Acting user
+   * @returns Promise resolving to tours, soonest first
+   */
+  async getUpcomingTours(actor: TourActor): Promise<Tour[]> {
+    return this.tourRepository.findToursForRenter(actor.userId, new Date());
+  }
+
+  /**
+   * Retrieves tours on a property for its staff
+   * @param propertyId - Property identifier
+   * @param actor - Acting property staff
+   * @param from - Optional range start, defaults to now
+   * @param to - Optional range end, defaults to two weeks after the start
+   * @returns Promise resolving to tours
+   */
+  async getPropertyTours(
+    propertyId: string,
+    actor: TourActor,
+    from?: Date,
+    to?: Date
+  ): Promise<Tour[]> {
+    await this.assertPropertyStaff(
+      await this.tourRepository.findPropertyContext(propertyId),
+      actor
+    );
+
+    const start = from || new Date();
+    const end = to || new Date(start.getTime() + DEFAULT_SLOT_LOOKAHEAD_DAYS * DAY_MS);
+
+    return this.tourRepository.findToursForProperty(propertyId, start, end);
+  }
+
+  /**
+   * Sends reminders for scheduled tours starting within the reminder lead
+   * time. Each reminder is claimed before sending so it goes out once even
+   * when sweeps overlap.
+   * @param now - Sweep time
+   * @returns Promise resolving to the number of reminders sent
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<number> {
+    const due = await this.tourRepository.findToursDueForReminder(
+      new Date(now.getTime() + TOUR_CONFIG.reminderLeadHours * HOUR_MS)
+    );
+
+    let sent = 0;
+    for (const tour of due) {
+      if (!await this.tourRepository.markReminderSent(tour.id)) {
+        continue;
+      }
+
+      const property = await this.tourRepository.findPropertyContext(tour.propertyId);
+
+      await this.notificationClient.notify({
+        userId: tour.renterId,
+        templateId: NOTIFICATION_CONFIG.templates.tourReminder,
+        subject: `Reminder: tour of ${property.name}`,
+        body: `Your ${TOUR_TYPE_LABELS[tour.type]} of ${property.name} starts at ${tour.startsAt.toISOString()}.`,
+        data: this.buildNotificationData(tour, property),
+        sms: true
+      });
+      sent++;
+    }
+
+    if (sent) {
+      this.logger.info('Tour reminders sent', { count: sent });
+    }
+
+    return sent;
+  }
+
+  /**
+   * Ensures the actor is an admin or the property's owner or manager
+   */
+  private async assertPropertyStaff(property: TourPropertyContext, actor: TourActor): Promise<void> {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+
+    if (actor.userId !== property.ownerId && actor.userId !== property.propertyManagerId) {
+      throw new ForbiddenException('Only property staff can manage tours for this property');
+    }
+  }
+
+  /**
+   * Validates a slot's window, duration, capacity and tour types
+   */
+  private validateSlot(slot: PublishTourSlotInput): void {
+    if (isNaN(slot.startsAt.getTime()) || isNaN(slot.endsAt.getTime())) {
+      throw new BadRequestException('Slot start and end must be valid dates');
+    }
+
+    const minutes = (slot.endsAt.getTime() - slot.startsAt.getTime()) / MINUTE_MS;
+    if (minutes < TOUR_CONFIG.minSlotMinutes || minutes > TOUR_CONFIG.maxSlotMinutes) {
+      throw new BadRequestException(
+        `Slots must last between ${TOUR_CONFIG.minSlotMinutes} and ${TOUR_CONFIG.maxSlotMinutes} minutes`
+      );
+    }
+
+    if (slot.startsAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Slots must start in the future');
+    }
+
+    if (!slot.tourTypes?.length || slot.tourTypes.some((type) => !Object.values(TourType).includes(type))) {
+      throw new BadRequestException('Slots must offer at least one valid tour type');
+    }
+
+    const capacity = slot.capacity || 1;
+    if (capacity > TOUR_CONFIG.maxSlotCapacity) {
+      throw new BadRequestException(`Slot capacity cannot exceed ${TOUR_CONFIG.maxSlotCapacity}`);
+    }
+  }
+
+  private getBookingCutoff(): Date {
+    return new Date(Date.now() + TOUR_CONFIG.bookingCutoffMinutes * MINUTE_MS);
+  }
+
+  private buildNotificationData(tour: Tour, property: TourPropertyContext): Record<string, any> {
+    return {
+      tourId: tour.id,
+      propertyId: property.propertyId,
+      propertyName: property.name,
+      address: property.address,
+      type: tour.type,
+      status: tour.status,
+      startsAt: tour.startsAt,
+      endsAt: tour.endsAt
+    };
+  }
+
+  /**
+   * Builds the base64 encoded calendar invite attachment for a tour
+   */
+  private buildInvite(tour: Tour, property: TourPropertyContext) {
+    const cancelled = tour.status === TourStatus.CANCELLED;
+    const ics = buildCalendarEvent({
+      uid: `tour-${tour.id}@projectx`,
+      start: tour.startsAt,
+      end: tour.endsAt,
+      summary: `Tour: ${property.name}`,
+      description: [`Type: ${TOUR_TYPE_LABELS[tour.type]}`, tour.notes].filter(Boolean).join('\n'),
+      location: property.address || undefined,
+      organizerEmail: TOUR_CONFIG.organizerEmail,
+      sequence: cancelled ? 1 : 0,
+      status: cancelled ? 'CANCELLED' : 'CONFIRMED'
+    });
+
+    return {
+      filename: 'tour.ics',
+      content: Buffer.from(ics, 'utf8').toString('base64'),
+      contentType: `text/calendar; charset=utf-8; method=${cancelled ? 'CANCEL' : 'REQUEST'}`
+    };
+  }
+
+  private async notifyCancellation(
+    tour: Tour,
+    property: TourPropertyContext,
+    correlationId?: string
+  ): Promise<void> {
+    await this.notificationClient.notify({
+      userId: tour.renterId,
+      templateId: NOTIFICATION_CONFIG.templates.tourCancelled,
+      subject: `Tour cancelled: ${property.name}`,
+      body: `Your tour of ${property.name} on ${tour.startsAt.toISOString()} has been cancelled.`,
+      data: this.buildNotificationData(tour, property),
+      attachments: [this.buildInvite(tour, property)],
+      sms: true
+    }, correlationId);
+  }
+
+  private async notifyStaff(
+    property: TourPropertyContext,
+    templateId: string,
+    subject: string,
+    body: string,
+    tour: Tour,
+    correlationId?: string
+  ): Promise<void> {
+    const staff = Array.from(new Set([property.ownerId, property.propertyManagerId].filter(Boolean)));
+
+    await Promise.all(staff.map((userId) =>
+      this.notificationClient.notify({
+        userId,
+        templateId,
+        subject,
+        body,
+        data: this.buildNotificationData(tour, property),
+        attachments: tour.status === TourStatus.SCHEDULED ? [this.buildInvite(tour, property)] : undefined
+      }, correlationId)
+    ));
+  }
+}
@@ -3,7 +3,9 @@ import { Logger } from 'winston'; // winston v3.9.0
 import axios from 'axios'; // axios v1.4.0
 import Redis from 'ioredis'; // ioredis v5.3.0
 import { VerificationConfig } from '@app/config'; // @app/config v1.0.0
-import { Application, VerificationStatus, DocumentType } from '../models/application.model';
+import { VerificationStatus, DocumentType } from '../models/application.model';
+import { EvictionRecord } from '../models/screening.model';
+import { ApplicationParticipant } from '../models/household.model';
 import { ApplicationRepository } from '../repositories/application.repository';
 
 /**
@@ -14,6 +16,12 @@ interface BackgroundCheckResult {
   score: number;
   flags: string[];
   reportId: string;
+  /** Provider that produced the report */
+  provider: string;
+  /** Eviction filings with their dispositions, used by screening */
+  evictions: EvictionRecord[];
+  /** Credit score when the provider includes a credit report */
+  creditScore: number | null;
   completedAt: Date;
 }
 
@@ -158,7 +166,7 @@ export class VerificationService {
 
       // Primary provider check
       let result = await this.executeBackgroundCheck(
-        application,
+        application.applicantId,
         this.config.primaryBackgroundCheckProvider
       );
 
@@ -166,7 +174,7 @@ export class VerificationService {
       if (!result.success && this.config.secondaryBackgroundCheckProvider) {
         this.logger.warn('Primary background check failed, trying secondary provider', { applicationId });
         result = await this.executeBackgroundCheck(
-          application,
+          application.applicantId,
           this.config.secondaryBackgroundCheckProvider
         );
       }
@@ -201,6 +209,66 @@ export class VerificationService {
     }
   }
 
+  /**
+   * Verifies a co-applicant's or guarantor's own documents and runs their
+   * background check, recording the report against the household application
+   * @param participant - Participant who submitted their details
+   * @returns Promise resolving to verification outcome and reported credit score
+   */
+  async verifyParticipant(
+    participant: ApplicationParticipant
+  ): Promise<{ success: boolean; creditScore: number | null }> {
+    this.logger.debug('Starting participant verification', {
+      applicationId: participant.applicationId,
+      participantId: participant.id
+    });
+
+    try {
+      if (!participant.userId || !participant.documents.length) {
+        throw new Error('Participant has not submitted documents for verification');
+      }
+
+      const documentResults = await Promise.all(
+        participant.documents.map(doc => this.verifyDocument(doc.url, doc.type))
+      );
+
+      let result = await this.executeBackgroundCheck(
+        participant.userId,
+        this.config.primaryBackgroundCheckProvider
+      );
+      if (!result.success && this.config.secondaryBackgroundCheckProvider) {
+        result = await this.executeBackgroundCheck(
+          participant.userId,
+          this.config.secondaryBackgroundCheckProvider
+        );
+      }
+
+      await this.applicationRepository.updateScreeningResults(
+        participant.applicationId,
+        result,
+        participant.id
+      );
+
+      const success = result.success && documentResults.every(doc => doc.isAuthentic);
+
+      this.logger.info('Participant verification completed', {
+        applicationId: participant.applicationId,
+        participantId: participant.id,
+        success
+      });
+
+      return { success, creditScore: result.creditScore };
+
+    } catch (error) {
+      this.logger.error('Participant verification failed', {
+        applicationId: participant.applicationId,
+        participantId: participant.id,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
   /**
    * Verifies a single document using ML-based detection
    * @param documentUrl - URL to the document
@@ -247,19 +315,19 @@ export class VerificationService {
 
   /**
    * Executes background check with specified provider
-   * @param application - Application entity
+   * @param applicantId - User being checked
    * @param provider - Background check provider configuration
    * @returns Promise resolving to background check result
    */
   private async executeBackgroundCheck(
-    application: Application,
+    applicantId: string,
     provider: any
   ): Promise<BackgroundCheckResult> {
     try {
       const response = await axios.post(
         provider.endpoint,
         {
-          applicantId: application.applicantId,
+          applicantId,
           checkType: 'COMPREHENSIVE',
           includeCredit: true
         },
@@ -278,6 +346,12 @@ export class VerificationService {
         score: response.data.score,
         flags: response.data.flags || [],
         reportId: response.data.reportId,
+        provider: provider.name,
+        evictions: (response.data.evictions || []).map((record: any) => ({
+          filedAt: new Date(record.filedAt),
+          disposition: record.disposition
+        })),
+        creditScore: response.data.creditScore ?? null,
         completedAt: new Date()
       };
 
@@ -0,0 +1,249 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+import { NotificationClient } from '@common/clients';
+import { createHash } from 'crypto';
+
+import { HouseholdService, HouseholdActor } from '../src/services/household.service';
+import { VerificationService } from '../src/services/verification.service';
+import { HouseholdRepository, HouseholdApplication } from '../src/repositories/household.repository';
+import {
+  ApplicationStatus,
+  DocumentType,
+  VerificationStatus
+} from '../src/models/application.model';
+import {
+  ApplicationParticipant,
+  ParticipantRole,
+  ParticipantStatus
+} from '../src/models/household.model';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('HouseholdService', () => {
+  let householdService: HouseholdService;
+  let mockRepository: MockProxy<HouseholdRepository>;
+  let mockVerificationService: MockProxy<VerificationService>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  const renter: HouseholdActor = { userId: 'renter-1', role: 'RENTER' };
+  const coApplicant: HouseholdActor = { userId: 'renter-2', role: 'RENTER' };
+
+  const application: HouseholdApplication = {
+    applicationId: 'application-1',
+    applicantId: 'renter-1',
+    status: ApplicationStatus.SUBMITTED,
+    monthlyIncome: 4000,
+    ownerId: 'owner-1',
+    propertyManagerId: 'manager-1'
+  };
+
+  const participant = {
+    id: 'participant-1',
+    applicationId: 'application-1',
+    role: ParticipantRole.CO_APPLICANT,
+    email: 'casey@example.com',
+    userId: null,
+    status: ParticipantStatus.INVITED,
+    inviteExpiresAt: new Date(Date.now() + 24 * HOUR_MS),
+    monthlyIncome: null,
+    creditScore: null,
+    employmentDetails: null,
+    documents: [],
+    verificationStatus: VerificationStatus.PENDING,
+    invitedBy: 'renter-1'
+  } as ApplicationParticipant;
+
+  const details = {
+    monthlyIncome: 2500,
+    employmentDetails: {
+      employerName: 'Acme Corp',
+      position: 'Analyst',
+      startDate: new Date('2021-01-01T00:00:00Z'),
+      employmentType: 'FULL_TIME',
+      contactPhone: '+15555550100',
+      contactEmail: 'hr@acme.example.com'
+    },
+    documents: [
+      { type: DocumentType.ID_PROOF, url: 'https://files.example.com/id.pdf', fileName: 'id.pdf' },
+      { type: DocumentType.INCOME_PROOF, url: 'https://files.example.com/pay.pdf', fileName: 'pay.pdf' }
+    ]
+  };
+
+  beforeEach(() => {
+    mockRepository = mock<HouseholdRepository>();
+    mockVerificationService = mock<VerificationService>();
+    mockNotificationClient = mock<NotificationClient>();
+    householdService = new HouseholdService(
+      mockRepository,
+      mockVerificationService,
+      mockNotificationClient,
+      mock<Logger>()
+    );
+
+    mockRepository.findApplication.mockResolvedValue(application);
+    mockRepository.findByApplication.mockResolvedValue([]);
+    mockRepository.findUserEmail.mockResolvedValue('jordan@example.com');
+    mockRepository.createInvitation.mockImplementation(async (invitation) => ({
+      ...participant,
+      role: invitation.role,
+      email: invitation.email,
+      inviteExpiresAt: invitation.expiresAt
+    }));
+  });
+
+  describe('inviteParticipant', () => {
+    it('should store only a hash of the emailed token', async () => {
+      mockRepository.findUserIdByEmail.mockResolvedValue(null);
+
+      await householdService.inviteParticipant(
+        'application-1',
+        { email: ' Casey@Example.com ', role: ParticipantRole.CO_APPLICANT },
+        renter
+      );
+
+      const invitation = mockRepository.createInvitation.mock.calls[0][0];
+      const notification = mockNotificationClient.notify.mock.calls[0][0];
+      const token = new URL(notification.data.acceptUrl as string).searchParams.get('token')!;
+
+      expect(invitation.email).toBe('casey@example.com');
+      expect(invitation.tokenHash).toBe(createHash('sha256').update(token).digest('hex'));
+      expect(notification.toEmail).toBe('casey@example.com');
+    });
+
+    it('should only let the primary applicant invite', async () => {
+      await expect(householdService.inviteParticipant(
+        'application-1',
+        { email: 'casey@example.com', role: ParticipantRole.GUARANTOR },
+        coApplicant
+      )).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject inviting yourself', async () => {
+      await expect(householdService.inviteParticipant(
+        'application-1',
+        { email: 'jordan@example.com', role: ParticipantRole.CO_APPLICANT },
+        renter
+      )).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject changes once the application is decided', async () => {
+      mockRepository.findApplication.mockResolvedValue({ ...application, status: ApplicationStatus.APPROVED });
+
+      await expect(householdService.inviteParticipant(
+        'application-1',
+        { email: 'casey@example.com', role: ParticipantRole.CO_APPLICANT },
+        renter
+      )).rejects.toThrow(BadRequestException);
+      expect(mockRepository.createInvitation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should reject an invitation sent to another email', async () => {
+      mockRepository.findByTokenHash.mockResolvedValue(participant);
+      mockRepository.findUserEmail.mockResolvedValue('someone@example.com');
+
+      await expect(householdService.acceptInvitation('token', coApplicant))
+        .rejects.toThrow(ForbiddenException);
+      expect(mockRepository.accept).not.toHaveBeenCalled();
+    });
+
+    it('should accept and notify the primary applicant', async () => {
+      mockRepository.findByTokenHash.mockResolvedValue(participant);
+      mockRepository.findUserEmail.mockResolvedValue('casey@example.com');
+      mockRepository.accept.mockResolvedValue({
+        ...participant,
+        userId: 'renter-2',
+        status: ParticipantStatus.ACCEPTED
+      });
+
+      const accepted = await householdService.acceptInvitation('token', coApplicant);
+
+      expect(accepted.status).toBe(ParticipantStatus.ACCEPTED);
+      expect(mockRepository.accept).toHaveBeenCalledWith('participant-1', 'renter-2');
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'renter-1' }),
+        undefined
+      );
+    });
+  });
+
+  describe('submitDetails', () => {
+    const accepted = { ...participant, userId: 'renter-2', status: ParticipantStatus.ACCEPTED };
+
+    beforeEach(() => {
+      mockRepository.findById.mockResolvedValue(accepted);
+      mockRepository.submitDetails.mockResolvedValue({ ...accepted, status: ParticipantStatus.SUBMITTED });
+    });
+
+    it('should require identity and income documents', async () => {
+      await expect(householdService.submitDetails(
+        'participant-1',
+        { ...details, documents: [details.documents[0]] },
+        coApplicant
+      )).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only let the participant complete their own details', async () => {
+      await expect(householdService.submitDetails('participant-1', details, renter))
+        .rejects.toThrow(ForbiddenException);
+    });
+
+    it('should verify the participant and record their credit score', async () => {
+      mockVerificationService.verifyParticipant.mockResolvedValue({ success: true, creditScore: 710 });
+
+      await householdService.submitDetails('participant-1', details, coApplicant);
+
+      expect(mockRepository.updateVerification).toHaveBeenLastCalledWith(
+        'participant-1',
+        VerificationStatus.COMPLETED,
+        710
+      );
+    });
+
+    it('should record a failed verification without throwing', async () => {
+      mockVerificationService.verifyParticipant.mockRejectedValue(new Error('provider unavailable'));
+
+      await householdService.submitDetails('participant-1', details, coApplicant);
+
+      expect(mockRepository.updateVerification).toHaveBeenLastCalledWith(
+        'participant-1',
+        VerificationStatus.FAILED
+      );
+    });
+  });
+
+  describe('getHousehold', () => {
+    it('should combine income of verified co-applicants only', async () => {
+      mockRepository.findByApplication.mockResolvedValue([
+        {
+          ...participant,
+          userId: 'renter-2',
+          status: ParticipantStatus.SUBMITTED,
+          monthlyIncome: 2500,
+          verificationStatus: VerificationStatus.COMPLETED
+        },
+        {
+          ...participant,
+          id: 'participant-2',
+          role: ParticipantRole.GUARANTOR,
+          status: ParticipantStatus.SUBMITTED,
+          monthlyIncome: 9000,
+          verificationStatus: VerificationStatus.COMPLETED
+        }
+      ]);
+
+      const household = await householdService.getHousehold('application-1', coApplicant);
+
+      expect(household.combinedMonthlyIncome).toBe(6500);
+      expect(household.participants).toHaveLength(2);
+    });
+
+    it('should hide the household from unrelated users', async () => {
+      await expect(householdService.getHousehold('application-1', { userId: 'renter-9', role: 'RENTER' }))
+        .rejects.toThrow(ForbiddenException);
+    });
+  });
+});
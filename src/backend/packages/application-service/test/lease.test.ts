@@ -0,0 +1,490 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { createHash } from 'crypto';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+import { NotificationClient } from '@common/clients';
+
+import { LeaseActor, LeaseService } from '../src/services/lease.service';
+import { LeaseSigningService, SigningContext } from '../src/services/lease-signing.service';
+import { LeaseRepository, LeaseUnitContext } from '../src/repositories/lease.repository';
+import { LeaseSignatureRepository } from '../src/repositories/lease-signature.repository';
+import { ApplicationRepository } from '../src/repositories/application.repository';
+import { Application, ApplicationStatus } from '../src/models/application.model';
+import {
+  Lease,
+  LeasePartyRole,
+  LeaseSignature,
+  LeaseSignatureAction,
+  LeaseSignatureStatus,
+  LeaseStatus
+} from '../src/models/lease.model';
+
+describe('LeaseService', () => {
+  let leaseService: LeaseService;
+  let mockLeaseRepository: MockProxy<LeaseRepository>;
+  let mockApplicationRepository: MockProxy<ApplicationRepository>;
+
+  const approvedApplication = {
+    id: 'application-1',
+    applicantId: 'tenant-1',
+    unitId: 'unit-1',
+    status: ApplicationStatus.APPROVED
+  } as Application;
+
+  const manager: LeaseActor = { userId: 'manager-1', role: 'PROPERTY_MANAGER' };
+  const tenant: LeaseActor = { userId: 'tenant-1', role: 'RENTER' };
+  const outsider: LeaseActor = { userId: 'renter-9', role: 'RENTER' };
+
+  const unitContext: LeaseUnitContext = {
+    unitId: 'unit-1',
+    propertyId: 'property-1',
+    monthlyRent: 2000,
+    ownerId: 'owner-1',
+    propertyManagerId: 'manager-1',
+    leaseTerms: {
+      minLeaseDuration: 6,
+      maxLeaseDuration: 24,
+      securityDeposit: 2000,
+      petDeposit: 500,
+      utilityRequirements: [],
+      requiredInsurance: []
+    }
+  };
+
+  beforeEach(() => {
+    mockLeaseRepository = mock<LeaseRepository>();
+    mockApplicationRepository = mock<ApplicationRepository>();
+
+    leaseService = new LeaseService(
+      mockLeaseRepository,
+      mockApplicationRepository,
+      mock<Logger>()
+    );
+
+    mockApplicationRepository.findById.mockResolvedValue(approvedApplication);
+    mockLeaseRepository.findByApplicationId.mockResolvedValue(null);
+    mockLeaseRepository.findUnitContext.mockResolvedValue(unitContext);
+    mockLeaseRepository.createLease.mockImplementation(async (data) => data as Lease);
+    mockLeaseRepository.findPropertyStaff.mockResolvedValue({
+      ownerId: 'owner-1',
+      propertyManagerId: 'manager-1'
+    });
+  });
+
+  describe('createDraftFromApplication', () => {
+    it('should draft a lease from the application and property lease terms', async () => {
+      const lease = await leaseService.createDraftFromApplication({
+        applicationId: approvedApplication.id,
+        startDate: new Date('2024-01-01'),
+        durationMonths: 12
+      }, manager);
+
+      expect(lease.monthlyRent).toBe(2000);
+      expect(lease.securityDeposit).toBe(2000);
+      expect(lease.petDeposit).toBe(500);
+      expect(lease.endDate).toEqual(new Date('2024-12-31'));
+      expect(lease.parties).toEqual([
+        { userId: 'tenant-1', role: LeasePartyRole.TENANT },
+        { userId: 'owner-1', role: LeasePartyRole.LANDLORD },
+        { userId: 'manager-1', role: LeasePartyRole.PROPERTY_MANAGER }
+      ]);
+      expect(lease.createdBy).toBe('manager-1');
+    });
+
+    it('should only let property staff draft a lease', async () => {
+      await expect(leaseService.createDraftFromApplication({
+        applicationId: approvedApplication.id,
+        startDate: new Date('2024-01-01')
+      }, outsider)).rejects.toThrow(ForbiddenException);
+      expect(mockLeaseRepository.createLease).not.toHaveBeenCalled();
+    });
+
+    it('should reject applications that are not approved', async () => {
+      mockApplicationRepository.findById.mockResolvedValue({
+        ...approvedApplication,
+        status: ApplicationStatus.UNDER_REVIEW
+      });
+
+      await expect(leaseService.createDraftFromApplication({
+        applicationId: approvedApplication.id,
+        startDate: new Date('2024-01-01')
+      }, manager)).rejects.toThrow(BadRequestException);
+      expect(mockLeaseRepository.createLease).not.toHaveBeenCalled();
+    });
+
+    it('should reject durations outside the property lease terms', async () => {
+      await expect(leaseService.createDraftFromApplication({
+        applicationId: approvedApplication.id,
+        startDate: new Date('2024-01-01'),
+        durationMonths: 36
+      }, manager)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should prevent a second lease for the same application', async () => {
+      mockLeaseRepository.findByApplicationId.mockResolvedValue({ id: 'lease-1' } as Lease);
+
+      await expect(leaseService.createDraftFromApplication({
+        applicationId: approvedApplication.id,
+        startDate: new Date('2024-01-01')
+      }, manager)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('getLeaseById', () => {
+    const lease = {
+      id: 'lease-1',
+      propertyId: 'property-1',
+      parties: [
+        { userId: 'tenant-1', role: LeasePartyRole.TENANT },
+        { userId: 'owner-1', role: LeasePartyRole.LANDLORD }
+      ]
+    } as unknown as Lease;
+
+    beforeEach(() => {
+      mockLeaseRepository.findById.mockResolvedValue(lease);
+    });
+
+    it('should show the lease to its parties and property staff', async () => {
+      await expect(leaseService.getLeaseById('lease-1', tenant)).resolves.toBe(lease);
+      await expect(leaseService.getLeaseById('lease-1', manager)).resolves.toBe(lease);
+    });
+
+    it('should refuse users outside the lease and property', async () => {
+      await expect(leaseService.getLeaseById('lease-1', outsider))
+        .rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should activate a lease once every party has signed', async () => {
+      mockLeaseRepository.findById.mockResolvedValue({
+        id: 'lease-1',
+        status: LeaseStatus.PENDING_SIGNATURE,
+        version: 2
+      } as Lease);
+      mockLeaseRepository.updateStatus.mockResolvedValue({
+        id: 'lease-1',
+        status: LeaseStatus.ACTIVE
+      } as Lease);
+
+      const lease = await leaseService.activateLease('lease-1');
+
+      expect(lease.status).toBe(LeaseStatus.ACTIVE);
+      expect(mockLeaseRepository.updateStatus).toHaveBeenCalledWith(
+        'lease-1',
+        LeaseStatus.ACTIVE,
+        2,
+        expect.objectContaining({ activatedAt: expect.any(Date) })
+      );
+    });
+
+    it('should not activate a draft lease', async () => {
+      mockLeaseRepository.findById.mockResolvedValue({
+        id: 'lease-1',
+        status: LeaseStatus.DRAFT,
+        version: 1
+      } as Lease);
+
+      await expect(leaseService.activateLease('lease-1')).rejects.toThrow(BadRequestException);
+      expect(mockLeaseRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only let property staff terminate or cancel a lease', async () => {
+      mockLeaseRepository.findById.mockResolvedValue({
+        id: 'lease-1',
+        propertyId: 'property-1',
+        status: LeaseStatus.ACTIVE,
+        version: 4,
+        parties: [{ userId: 'tenant-1', role: LeasePartyRole.TENANT }]
+      } as unknown as Lease);
+
+      await expect(leaseService.terminateLease('lease-1', 'Moving out', tenant))
+        .rejects.toThrow(ForbiddenException);
+      await expect(leaseService.cancelLease('lease-1', outsider))
+        .rejects.toThrow(ForbiddenException);
+      expect(mockLeaseRepository.updateStatus).not.toHaveBeenCalled();
+
+      await leaseService.terminateLease('lease-1', 'Moving out', manager);
+      expect(mockLeaseRepository.updateStatus).toHaveBeenCalledWith(
+        'lease-1',
+        LeaseStatus.TERMINATED,
+        4,
+        expect.objectContaining({ terminationReason: 'Moving out' })
+      );
+    });
+  });
+
+  describe('recordNoticeToVacate', () => {
+    const activeLease = {
+      id: 'lease-1',
+      status: LeaseStatus.ACTIVE,
+      startDate: new Date('2024-01-01'),
+      version: 3,
+      parties: [
+        { userId: 'tenant-1', role: LeasePartyRole.TENANT },
+        { userId: 'owner-1', role: LeasePartyRole.LANDLORD }
+      ]
+    } as unknown as Lease;
+
+    const nextMonth = (): Date => {
+      const date = new Date();
+      date.setMonth(date.getMonth() + 1);
+      return date;
+    };
+
+    it('should record the vacate date given by a lease party', async () => {
+      mockLeaseRepository.findById.mockResolvedValue(activeLease);
+      const vacateDate = nextMonth();
+
+      await leaseService.recordNoticeToVacate('lease-1', vacateDate, 'tenant-1');
+
+      expect(mockLeaseRepository.updateNotice).toHaveBeenCalledWith('lease-1', 3, vacateDate);
+    });
+
+    it('should reject notice from outside the lease', async () => {
+      mockLeaseRepository.findById.mockResolvedValue(activeLease);
+
+      await expect(leaseService.recordNoticeToVacate('lease-1', nextMonth(), 'renter-9'))
+        .rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject vacate dates in the past', async () => {
+      mockLeaseRepository.findById.mockResolvedValue(activeLease);
+
+      await expect(leaseService.recordNoticeToVacate('lease-1', new Date('2024-02-01'), 'tenant-1'))
+        .rejects.toThrow(BadRequestException);
+      expect(mockLeaseRepository.updateNotice).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('LeaseSigningService', () => {
+  let signingService: LeaseSigningService;
+  let mockLeaseService: MockProxy<LeaseService>;
+  let mockLeaseRepository: MockProxy<LeaseRepository>;
+  let mockSignatureRepository: MockProxy<LeaseSignatureRepository>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  const SIGNATURE_IMAGE = `data:image/png;base64,${Buffer.from('signature').toString('base64')}`;
+
+  const lease = {
+    id: 'lease-1',
+    propertyId: 'property-1',
+    unitId: 'unit-1',
+    status: LeaseStatus.DRAFT,
+    startDate: new Date('2024-01-01'),
+    endDate: new Date('2024-12-31'),
+    monthlyRent: 2000,
+    securityDeposit: 2000,
+    petDeposit: null,
+    terms: {
+      minLeaseDuration: 6,
+      maxLeaseDuration: 24,
+      securityDeposit: 2000,
+      utilityRequirements: [],
+      requiredInsurance: []
+    },
+    parties: [
+      { userId: 'tenant-1', role: LeasePartyRole.TENANT },
+      { userId: 'owner-1', role: LeasePartyRole.LANDLORD }
+    ],
+    contentHash: null,
+    version: 1
+  } as unknown as Lease;
+
+  const tenantContext: SigningContext = {
+    userId: 'tenant-1',
+    role: 'RENTER',
+    ipAddress: '203.0.113.10',
+    userAgent: 'jest'
+  };
+
+  const buildSignature = (
+    userId: string,
+    role: LeasePartyRole,
+    signingOrder: number,
+    status = LeaseSignatureStatus.PENDING
+  ) => ({
+    id: `signature-${userId}`,
+    leaseId: lease.id,
+    userId,
+    role,
+    signingOrder,
+    status
+  } as LeaseSignature);
+
+  beforeEach(() => {
+    mockLeaseService = mock<LeaseService>();
+    mockLeaseRepository = mock<LeaseRepository>();
+    mockSignatureRepository = mock<LeaseSignatureRepository>();
+    mockNotificationClient = mock<NotificationClient>();
+
+    signingService = new LeaseSigningService(
+      mockLeaseService,
+      mockLeaseRepository,
+      mockSignatureRepository,
+      mockNotificationClient,
+      mock<Logger>()
+    );
+
+    mockSignatureRepository.findEvents.mockResolvedValue([]);
+  });
+
+  /**
+   * Sends the lease for signature so the stored content hash matches
+   */
+  const sendForSignature = async (): Promise<Lease> => {
+    let pendingLease = lease;
+    mockLeaseRepository.findById.mockResolvedValue(lease);
+    mockLeaseService.sendForSignature.mockImplementation(async (_id, contentHash) => {
+      pendingLease = { ...lease, status: LeaseStatus.PENDING_SIGNATURE, contentHash };
+      return pendingLease;
+    });
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([]);
+
+    await signingService.requestSignatures(lease.id, tenantContext);
+
+    mockLeaseRepository.findById.mockResolvedValue(pendingLease);
+    return pendingLease;
+  };
+
+  it('should create signature requests in signing order', async () => {
+    await sendForSignature();
+
+    const [signatures, events] = mockSignatureRepository.createSignatureRequests.mock.calls[0];
+    expect(signatures.map((signature) => [signature.userId, signature.signingOrder])).toEqual([
+      ['tenant-1', 1],
+      ['owner-1', 3]
+    ]);
+    expect(events[0]).toMatchObject({ ipAddress: '203.0.113.10', userAgent: 'jest', previousHash: null });
+  });
+
+  it('should reject a landlord signature before the tenant has signed', async () => {
+    await sendForSignature();
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([
+      buildSignature('tenant-1', LeasePartyRole.TENANT, 1),
+      buildSignature('owner-1', LeasePartyRole.LANDLORD, 3)
+    ]);
+
+    await expect(signingService.sign(lease.id, SIGNATURE_IMAGE, {
+      ...tenantContext,
+      userId: 'owner-1'
+    })).rejects.toThrow(BadRequestException);
+    expect(mockSignatureRepository.recordSignature).not.toHaveBeenCalled();
+  });
+
+  it('should reject signatures once the lease content has changed', async () => {
+    const pendingLease = await sendForSignature();
+    mockLeaseRepository.findById.mockResolvedValue({ ...pendingLease, monthlyRent: 2500 });
+
+    await expect(signingService.sign(lease.id, SIGNATURE_IMAGE, tenantContext))
+      .rejects.toThrow(ConflictException);
+  });
+
+  it('should record the tenant signature with request metadata', async () => {
+    const pendingLease = await sendForSignature();
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([
+      buildSignature('tenant-1', LeasePartyRole.TENANT, 1),
+      buildSignature('owner-1', LeasePartyRole.LANDLORD, 3)
+    ]);
+
+    await signingService.sign(lease.id, SIGNATURE_IMAGE, tenantContext);
+
+    expect(mockSignatureRepository.recordSignature).toHaveBeenCalledWith(
+      'signature-tenant-1',
+      expect.objectContaining({
+        status: LeaseSignatureStatus.SIGNED,
+        ipAddress: '203.0.113.10',
+        userAgent: 'jest'
+      }),
+      expect.objectContaining({
+        userId: 'tenant-1',
+        signatureHash: createHash('sha256').update(SIGNATURE_IMAGE).digest('hex'),
+        contentHash: pendingLease.contentHash,
+        eventHash: expect.any(String)
+      })
+    );
+    expect(mockLeaseService.activateLease).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate the audit trail when a stored signature image is replaced', async () => {
+    const pendingLease = await sendForSignature();
+    const pending = buildSignature('tenant-1', LeasePartyRole.TENANT, 1);
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([
+      pending,
+      buildSignature('owner-1', LeasePartyRole.LANDLORD, 3)
+    ]);
+    await signingService.sign(lease.id, SIGNATURE_IMAGE, tenantContext);
+    const [, , signedEvent] = mockSignatureRepository.recordSignature.mock.calls[0];
+
+    const stored = {
+      ...pending,
+      status: LeaseSignatureStatus.SIGNED,
+      signatureImage: SIGNATURE_IMAGE,
+      contentHash: pendingLease.contentHash
+    } as LeaseSignature;
+    mockSignatureRepository.findEvents.mockResolvedValue([signedEvent]);
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([stored]);
+    await expect(signingService.getSigningStatus(lease.id))
+      .resolves.toMatchObject({ auditTrailValid: true });
+
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([{
+      ...stored,
+      signatureImage: `data:image/png;base64,${Buffer.from('forged').toString('base64')}`
+    }]);
+    await expect(signingService.getSigningStatus(lease.id))
+      .resolves.toMatchObject({ auditTrailValid: false });
+  });
+
+  it('should finish executing a fully signed lease when a party signs again', async () => {
+    const pendingLease = await sendForSignature();
+    const signatures = [
+      buildSignature('tenant-1', LeasePartyRole.TENANT, 1, LeaseSignatureStatus.SIGNED),
+      buildSignature('owner-1', LeasePartyRole.LANDLORD, 3, LeaseSignatureStatus.SIGNED)
+    ];
+    mockSignatureRepository.findByLeaseId.mockResolvedValue(signatures);
+    mockSignatureRepository.findEvents.mockResolvedValue([{
+      leaseId: lease.id,
+      userId: 'owner-1',
+      action: LeaseSignatureAction.COMPLETED,
+      timestamp: new Date(),
+      ipAddress: '203.0.113.10',
+      userAgent: 'jest',
+      signatureHash: null,
+      contentHash: null,
+      previousHash: null,
+      eventHash: 'completed-hash'
+    }]);
+    mockSignatureRepository.findDocument.mockResolvedValue({
+      leaseId: lease.id,
+      content: Buffer.from('pdf'),
+      sha256: 'document-hash',
+      finalizedAt: new Date()
+    });
+
+    await signingService.sign(pendingLease.id, SIGNATURE_IMAGE, tenantContext);
+
+    expect(mockSignatureRepository.recordSignature).not.toHaveBeenCalled();
+    expect(mockSignatureRepository.appendEvent).not.toHaveBeenCalled();
+    expect(mockLeaseService.activateLease).toHaveBeenCalledWith(lease.id);
+  });
+
+  it('should only show signing status to lease parties', async () => {
+    mockLeaseRepository.findById.mockResolvedValue(lease);
+    mockSignatureRepository.findByLeaseId.mockResolvedValue([]);
+
+    await expect(signingService.getSigningStatusForParty(lease.id, 'renter-9'))
+      .rejects.toThrow(ForbiddenException);
+    await expect(signingService.getSigningStatusForParty(lease.id, 'owner-1'))
+      .resolves.toMatchObject({ lease });
+  });
+
+  it('should only release the executed lease to lease parties', async () => {
+    mockLeaseRepository.findById.mockResolvedValue(lease);
+
+    await expect(signingService.getExecutedDocument(lease.id, 'renter-9'))
+      .rejects.toThrow(ForbiddenException);
+    expect(mockSignatureRepository.findDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+import { NotificationClient } from '@common/clients';
+
+import { MaintenanceService, MaintenanceActor } from '../src/services/maintenance.service';
+import { MaintenanceRepository } from '../src/repositories/maintenance.repository';
+import {
+  MaintenanceCategory,
+  MaintenancePriority,
+  MaintenanceRequest,
+  MaintenanceStatus
+} from '../src/models/maintenance.model';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('MaintenanceService', () => {
+  let maintenanceService: MaintenanceService;
+  let mockRepository: MockProxy<MaintenanceRepository>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  const tenant: MaintenanceActor = { userId: 'tenant-1', role: 'RENTER' };
+  const manager: MaintenanceActor = { userId: 'manager-1', role: 'PROPERTY_MANAGER' };
+
+  const openRequest = {
+    id: 'request-1',
+    propertyId: 'property-1',
+    unitId: 'unit-1',
+    leaseId: 'lease-1',
+    reportedBy: 'tenant-1',
+    title: 'Leaking sink',
+    priority: MaintenancePriority.MEDIUM,
+    status: MaintenanceStatus.OPEN,
+    version: 1
+  } as MaintenanceRequest;
+
+  beforeEach(() => {
+    mockRepository = mock<MaintenanceRepository>();
+    mockNotificationClient = mock<NotificationClient>();
+
+    maintenanceService = new MaintenanceService(
+      mockRepository,
+      mockNotificationClient,
+      mock<Logger>()
+    );
+
+    mockRepository.findById.mockResolvedValue(openRequest);
+    mockRepository.findPropertyStaff.mockResolvedValue({
+      ownerId: 'owner-1',
+      propertyManagerId: 'manager-1'
+    });
+    mockRepository.updateStatus.mockImplementation(async (_id, _version, changes, event) => ({
+      ...openRequest,
+      ...changes,
+      status: event.toStatus
+    }) as MaintenanceRequest);
+  });
+
+  describe('createRequest', () => {
+    it('should open a request under the tenant\'s active lease', async () => {
+      mockRepository.findActiveTenancy.mockResolvedValue({
+        leaseId: 'lease-1',
+        propertyId: 'property-1',
+        unitId: 'unit-1'
+      });
+      mockRepository.createRequest.mockResolvedValue(openRequest);
+
+      await maintenanceService.createRequest({
+        unitId: 'unit-1',
+        title: 'Leaking sink',
+        description: 'Water under the kitchen sink',
+        category: MaintenanceCategory.PLUMBING,
+        priority: MaintenancePriority.MEDIUM
+      }, tenant);
+
+      expect(mockRepository.createRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ leaseId: 'lease-1', propertyId: 'property-1', reportedBy: 'tenant-1' }),
+        []
+      );
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'tenant-1' }),
+        undefined
+      );
+    });
+
+    it('should reject tenants without an active lease on the unit', async () => {
+      mockRepository.findActiveTenancy.mockResolvedValue(null);
+
+      await expect(maintenanceService.createRequest({
+        unitId: 'unit-1',
+        title: 'Leaking sink',
+        description: 'Water under the kitchen sink',
+        category: MaintenanceCategory.PLUMBING,
+        priority: MaintenancePriority.MEDIUM
+      }, tenant)).rejects.toThrow(ForbiddenException);
+      expect(mockRepository.createRequest).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported photo types', async () => {
+      await expect(maintenanceService.createRequest({
+        unitId: 'unit-1',
+        title: 'Leaking sink',
+        description: 'Water under the kitchen sink',
+        category: MaintenanceCategory.PLUMBING,
+        priority: MaintenancePriority.MEDIUM,
+        photos: [{ mimeType: 'image/gif' as any, fileName: 'leak.gif', size: 100, content: Buffer.from('') }]
+      }, tenant)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should assign a vendor and notify the tenant', async () => {
+      const updated = await maintenanceService.assignVendor('request-1', { name: 'Acme Plumbing' }, manager);
+
+      expect(updated.status).toBe(MaintenanceStatus.ASSIGNED);
+      expect(mockRepository.updateStatus).toHaveBeenCalledWith(
+        'request-1',
+        1,
+        { vendor: { name: 'Acme Plumbing' }, assignedBy: 'manager-1' },
+        expect.objectContaining({ fromStatus: MaintenanceStatus.OPEN, toStatus: MaintenanceStatus.ASSIGNED })
+      );
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'tenant-1', subject: 'Vendor assigned' }),
+        undefined
+      );
+    });
+
+    it('should not let tenants manage their own request', async () => {
+      await expect(maintenanceService.assignVendor('request-1', { name: 'Acme Plumbing' }, tenant))
+        .rejects.toThrow(ForbiddenException);
+      expect(mockRepository.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject transitions not allowed from the current status', async () => {
+      await expect(maintenanceService.startWork('request-1', manager))
+        .rejects.toThrow(BadRequestException);
+    });
+
+    it('should require the notice period for non-emergency entry windows', async () => {
+      mockRepository.findById.mockResolvedValue({ ...openRequest, status: MaintenanceStatus.ASSIGNED });
+      const start = new Date(Date.now() + 2 * HOUR_MS);
+
+      await expect(maintenanceService.scheduleEntry(
+        'request-1',
+        start,
+        new Date(start.getTime() + 2 * HOUR_MS),
+        manager
+      )).rejects.toThrow(BadRequestException);
+    });
+
+    it('should allow immediate entry for emergencies', async () => {
+      mockRepository.findById.mockResolvedValue({
+        ...openRequest,
+        status: MaintenanceStatus.ASSIGNED,
+        priority: MaintenancePriority.EMERGENCY
+      });
+      const start = new Date(Date.now() + HOUR_MS);
+
+      const updated = await maintenanceService.scheduleEntry(
+        'request-1',
+        start,
+        new Date(start.getTime() + 2 * HOUR_MS),
+        manager
+      );
+
+      expect(updated.status).toBe(MaintenanceStatus.SCHEDULED);
+    });
+
+    it('should only let tenants withdraw open requests', async () => {
+      mockRepository.findById.mockResolvedValue({ ...openRequest, status: MaintenanceStatus.ASSIGNED });
+
+      await expect(maintenanceService.cancelRequest('request-1', undefined, tenant))
+        .rejects.toThrow(BadRequestException);
+    });
+  });
+});
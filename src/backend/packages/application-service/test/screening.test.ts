@@ -0,0 +1,287 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+
+import { ScreeningService, ScreeningActor } from '../src/services/screening.service';
+import { countRecentEvictions, evaluateScreening } from '../src/services/screening.evaluator';
+import {
+  ScreeningRepository,
+  ScreeningApplicationContext
+} from '../src/repositories/screening.repository';
+import { VerificationStatus } from '../src/models/application.model';
+import { ParticipantRole, ParticipantStatus } from '../src/models/household.model';
+import {
+  EvictionDisposition,
+  ScreeningCriteria,
+  ScreeningOutcome,
+  ScreeningRecommendation
+} from '../src/models/screening.model';
+
+describe('screening evaluator', () => {
+  const criteria: ScreeningCriteria = {
+    propertyId: 'property-1',
+    incomeMultiple: 3,
+    minCreditScore: 650,
+    maxEvictions: 0,
+    evictionLookbackYears: 7,
+    allowCoSigner: false,
+    coSignerIncomeMultiple: null,
+    updatedBy: 'manager-1',
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+
+  const facts = {
+    monthlyIncome: 6000,
+    monthlyRent: 1800,
+    creditScore: 700,
+    evictionCount: 0,
+    guarantorMonthlyIncome: null,
+    pendingHouseholdMembers: 0
+  };
+
+  it('should approve when every criterion passes', () => {
+    const { recommendation, reasons } = evaluateScreening(criteria, facts);
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE);
+    expect(reasons).toHaveLength(3);
+    expect(reasons.every((reason) => reason.outcome === ScreeningOutcome.PASS)).toBe(true);
+  });
+
+  it('should decline an income shortfall without co-signer allowance', () => {
+    const { recommendation, reasons } = evaluateScreening(criteria, { ...facts, monthlyIncome: 4000 });
+
+    expect(recommendation).toBe(ScreeningRecommendation.DECLINE);
+    expect(reasons[0].outcome).toBe(ScreeningOutcome.FAIL);
+    expect(reasons[0].message).toContain('$5400.00');
+  });
+
+  it('should require a co-signer for income and credit shortfalls when allowed', () => {
+    const { recommendation, reasons } = evaluateScreening(
+      { ...criteria, allowCoSigner: true, coSignerIncomeMultiple: 5 },
+      { ...facts, monthlyIncome: 4000, creditScore: 600 }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE_WITH_CO_SIGNER);
+    expect(reasons[0].message).toContain('$9000.00');
+    expect(reasons[1].outcome).toBe(ScreeningOutcome.CO_SIGNER_REQUIRED);
+  });
+
+  it('should let a verified guarantor cover income and credit shortfalls', () => {
+    const { recommendation, reasons } = evaluateScreening(
+      { ...criteria, allowCoSigner: true, coSignerIncomeMultiple: 5 },
+      { ...facts, monthlyIncome: 4000, creditScore: 600, guarantorMonthlyIncome: 9500 }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE);
+    expect(reasons[0].outcome).toBe(ScreeningOutcome.PASS);
+    expect(reasons[1].outcome).toBe(ScreeningOutcome.PASS);
+  });
+
+  it('should still require a co-signer when the guarantor earns too little', () => {
+    const { recommendation } = evaluateScreening(
+      { ...criteria, allowCoSigner: true, coSignerIncomeMultiple: 5 },
+      { ...facts, monthlyIncome: 4000, guarantorMonthlyIncome: 7000 }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE_WITH_CO_SIGNER);
+  });
+
+  it('should not waive a low credit score for a guarantor without qualifying income', () => {
+    const { recommendation, reasons } = evaluateScreening(
+      { ...criteria, allowCoSigner: true, coSignerIncomeMultiple: 5 },
+      { ...facts, creditScore: 600, guarantorMonthlyIncome: 0 }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE_WITH_CO_SIGNER);
+    expect(reasons[1].outcome).toBe(ScreeningOutcome.CO_SIGNER_REQUIRED);
+  });
+
+  it('should be incomplete while household members are unverified', () => {
+    const { recommendation, reasons } = evaluateScreening(criteria, { ...facts, pendingHouseholdMembers: 1 });
+
+    expect(recommendation).toBe(ScreeningRecommendation.INCOMPLETE);
+    expect(reasons[3].outcome).toBe(ScreeningOutcome.MISSING_DATA);
+  });
+
+  it('should never waive eviction history for a co-signer', () => {
+    const { recommendation } = evaluateScreening(
+      { ...criteria, allowCoSigner: true },
+      { ...facts, evictionCount: 1 }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.DECLINE);
+  });
+
+  it('should be incomplete until the background check completes', () => {
+    const { recommendation } = evaluateScreening(criteria, { ...facts, evictionCount: null });
+
+    expect(recommendation).toBe(ScreeningRecommendation.INCOMPLETE);
+  });
+
+  it('should skip criteria the property has not configured', () => {
+    const { recommendation, reasons } = evaluateScreening(
+      { ...criteria, minCreditScore: null, maxEvictions: null },
+      { ...facts, creditScore: null, evictionCount: null }
+    );
+
+    expect(recommendation).toBe(ScreeningRecommendation.APPROVE);
+    expect(reasons).toHaveLength(1);
+  });
+
+  it('should count only eviction judgments within the lookback window', () => {
+    const asOf = new Date('2024-06-01T00:00:00Z');
+
+    const count = countRecentEvictions([
+      { filedAt: new Date('2022-03-01T00:00:00Z'), disposition: EvictionDisposition.JUDGMENT },
+      { filedAt: new Date('2023-03-01T00:00:00Z'), disposition: EvictionDisposition.DISMISSED },
+      { filedAt: new Date('2016-03-01T00:00:00Z'), disposition: EvictionDisposition.JUDGMENT }
+    ], 7, asOf);
+
+    expect(count).toBe(1);
+  });
+});
+
+describe('ScreeningService', () => {
+  let screeningService: ScreeningService;
+  let mockRepository: MockProxy<ScreeningRepository>;
+
+  const manager: ScreeningActor = { userId: 'manager-1', role: 'PROPERTY_MANAGER' };
+
+  const application: ScreeningApplicationContext = {
+    applicationId: 'application-1',
+    applicantId: 'renter-1',
+    propertyId: 'property-1',
+    unitId: 'unit-1',
+    monthlyIncome: 6000,
+    creditScore: 700,
+    monthlyRent: 1800,
+    ownerId: 'owner-1',
+    propertyManagerId: 'manager-1'
+  };
+
+  beforeEach(() => {
+    mockRepository = mock<ScreeningRepository>();
+    screeningService = new ScreeningService(mockRepository, mock<Logger>());
+
+    mockRepository.findApplicationContext.mockResolvedValue(application);
+    mockRepository.findPropertyStaff.mockResolvedValue({ ownerId: 'owner-1', propertyManagerId: 'manager-1' });
+    mockRepository.findHouseholdMembers.mockResolvedValue([]);
+    mockRepository.createResult.mockImplementation(async (result) => ({
+      ...result,
+      id: 'result-1',
+      evaluatedAt: new Date()
+    }));
+  });
+
+  it('should reject criteria beyond income, credit, eviction and co-signer', async () => {
+    await expect(screeningService.updateCriteria('property-1', {
+      incomeMultiple: 3,
+      minCreditScore: 650,
+      maxEvictions: 0,
+      allowCoSigner: false,
+      familySize: 2
+    } as any, manager)).rejects.toThrow(BadRequestException);
+    expect(mockRepository.upsertCriteria).not.toHaveBeenCalled();
+  });
+
+  it('should reject an eviction lookback beyond seven years', async () => {
+    await expect(screeningService.updateCriteria('property-1', {
+      incomeMultiple: 3,
+      minCreditScore: null,
+      maxEvictions: 0,
+      evictionLookbackYears: 10,
+      allowCoSigner: false
+    }, manager)).rejects.toThrow(BadRequestException);
+  });
+
+  it('should only allow property staff to screen applications', async () => {
+    await expect(screeningService.evaluateApplication('application-1', {
+      userId: 'renter-1',
+      role: 'RENTER'
+    })).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should screen against default criteria and record the facts used', async () => {
+    mockRepository.findCriteria.mockResolvedValue(null);
+    mockRepository.findLatestBackgroundCheck.mockResolvedValue({
+      evictions: [],
+      completedAt: new Date()
+    });
+
+    const result = await screeningService.evaluateApplication('application-1', manager);
+
+    expect(result.recommendation).toBe(ScreeningRecommendation.APPROVE);
+    expect(mockRepository.createResult).toHaveBeenCalledWith(expect.objectContaining({
+      applicationId: 'application-1',
+      facts: {
+        monthlyIncome: 6000,
+        monthlyRent: 1800,
+        creditScore: 700,
+        evictionCount: 0,
+        guarantorMonthlyIncome: null,
+        pendingHouseholdMembers: 0
+      },
+      evaluatedBy: 'manager-1'
+    }));
+  });
+
+  it('should combine verified co-applicants into the household facts', async () => {
+    mockRepository.findCriteria.mockResolvedValue(null);
+    mockRepository.findHouseholdMembers.mockResolvedValue([
+      {
+        participantId: 'participant-1',
+        role: ParticipantRole.CO_APPLICANT,
+        status: ParticipantStatus.SUBMITTED,
+        monthlyIncome: 2500,
+        creditScore: 660,
+        verificationStatus: VerificationStatus.COMPLETED
+      },
+      {
+        participantId: 'participant-2',
+        role: ParticipantRole.GUARANTOR,
+        status: ParticipantStatus.ACCEPTED,
+        monthlyIncome: null,
+        creditScore: null,
+        verificationStatus: VerificationStatus.PENDING
+      }
+    ]);
+    mockRepository.findLatestBackgroundCheck.mockResolvedValue({
+      evictions: [],
+      completedAt: new Date()
+    });
+
+    const result = await screeningService.evaluateApplication('application-1', manager);
+
+    expect(mockRepository.findLatestBackgroundCheck).toHaveBeenCalledWith('application-1', 'participant-1');
+    expect(result.facts).toEqual(expect.objectContaining({
+      monthlyIncome: 8500,
+      creditScore: 660,
+      guarantorMonthlyIncome: null,
+      pendingHouseholdMembers: 1
+    }));
+    expect(result.recommendation).toBe(ScreeningRecommendation.INCOMPLETE);
+  });
+
+  it('should treat a guarantor with unknown income as no guarantor', async () => {
+    mockRepository.findCriteria.mockResolvedValue(null);
+    mockRepository.findHouseholdMembers.mockResolvedValue([
+      {
+        participantId: 'participant-2',
+        role: ParticipantRole.GUARANTOR,
+        status: ParticipantStatus.SUBMITTED,
+        monthlyIncome: null,
+        creditScore: 780,
+        verificationStatus: VerificationStatus.COMPLETED
+      }
+    ]);
+    mockRepository.findLatestBackgroundCheck.mockResolvedValue({
+      evictions: [],
+      completedAt: new Date()
+    });
+
+    const result = await screeningService.evaluateApplication('application-1', manager);
+
+    expect(result.facts.guarantorMonthlyIncome).toBeNull();
+  });
+});
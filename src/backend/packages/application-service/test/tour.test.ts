@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+import { NotificationClient } from '@common/clients';
+
+import { TourService, TourActor } from '../src/services/tour.service';
+import { buildCalendarEvent } from '../src/services/calendar.builder';
+import { TourRepository, TourPropertyContext } from '../src/repositories/tour.repository';
+import { Tour, TourSlot, TourStatus, TourType } from '../src/models/tour.model';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('TourService', () => {
+  let tourService: TourService;
+  let mockRepository: MockProxy<TourRepository>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  const renter: TourActor = { userId: 'renter-1', role: 'RENTER' };
+  const manager: TourActor = { userId: 'manager-1', role: 'PROPERTY_MANAGER' };
+
+  const property: TourPropertyContext = {
+    propertyId: 'property-1',
+    name: 'Maple Court',
+    ownerId: 'owner-1',
+    propertyManagerId: 'manager-1',
+    address: '1 Maple Ct, Springfield, IL 62701'
+  };
+
+  const startsAt = new Date(Date.now() + 48 * HOUR_MS);
+  const endsAt = new Date(startsAt.getTime() + HOUR_MS);
+
+  const slot = {
+    id: 'slot-1',
+    propertyId: 'property-1',
+    unitId: null,
+    startsAt,
+    endsAt,
+    tourTypes: [TourType.IN_PERSON],
+    capacity: 1,
+    bookedCount: 0,
+    isCancelled: false
+  } as TourSlot;
+
+  const tour = {
+    id: 'tour-1',
+    slotId: 'slot-1',
+    propertyId: 'property-1',
+    renterId: 'renter-1',
+    type: TourType.IN_PERSON,
+    status: TourStatus.SCHEDULED,
+    startsAt,
+    endsAt,
+    notes: null
+  } as Tour;
+
+  beforeEach(() => {
+    mockRepository = mock<TourRepository>();
+    mockNotificationClient = mock<NotificationClient>();
+
+    tourService = new TourService(mockRepository, mockNotificationClient, mock<Logger>());
+
+    mockRepository.findPropertyContext.mockResolvedValue(property);
+    mockRepository.findSlotById.mockResolvedValue(slot);
+    mockRepository.findTourById.mockResolvedValue(tour);
+  });
+
+  describe('publishSlots', () => {
+    it('should reject slots overlapping an existing slot', async () => {
+      mockRepository.findOverlappingSlots.mockResolvedValue([slot]);
+
+      await expect(tourService.publishSlots('property-1', [
+        { startsAt, endsAt, tourTypes: [TourType.IN_PERSON] }
+      ], manager)).rejects.toThrow(ConflictException);
+      expect(mockRepository.createSlots).not.toHaveBeenCalled();
+    });
+
+    it('should reject slots that overlap each other', async () => {
+      await expect(tourService.publishSlots('property-1', [
+        { startsAt, endsAt, tourTypes: [TourType.IN_PERSON] },
+        {
+          startsAt: new Date(startsAt.getTime() + 30 * 60 * 1000),
+          endsAt: new Date(endsAt.getTime() + 30 * 60 * 1000),
+          tourTypes: [TourType.SELF_GUIDED]
+        }
+      ], manager)).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only allow property staff to publish slots', async () => {
+      await expect(tourService.publishSlots('property-1', [
+        { startsAt, endsAt, tourTypes: [TourType.IN_PERSON] }
+      ], renter)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('bookTour', () => {
+    it('should confirm the booking with a calendar invite over email and SMS', async () => {
+      mockRepository.bookTour.mockResolvedValue(tour);
+
+      await tourService.bookTour({ slotId: 'slot-1', type: TourType.IN_PERSON }, renter);
+
+      expect(mockRepository.bookTour).toHaveBeenCalledWith(
+        { slotId: 'slot-1', renterId: 'renter-1', type: TourType.IN_PERSON, notes: null },
+        expect.any(Date)
+      );
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'renter-1',
+          sms: true,
+          attachments: [expect.objectContaining({ filename: 'tour.ics' })]
+        }),
+        undefined
+      );
+    });
+
+    it('should reject tour types the slot does not offer', async () => {
+      await expect(tourService.bookTour({ slotId: 'slot-1', type: TourType.SELF_GUIDED }, renter))
+        .rejects.toThrow(BadRequestException);
+      expect(mockRepository.bookTour).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelTour', () => {
+    it('should not let other renters cancel a tour', async () => {
+      await expect(tourService.cancelTour('tour-1', { userId: 'renter-2', role: 'RENTER' }))
+        .rejects.toThrow(ForbiddenException);
+      expect(mockRepository.cancelTour).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDueReminders', () => {
+    it('should only remind tours whose reminder it claimed', async () => {
+      mockRepository.findToursDueForReminder.mockResolvedValue([tour, { ...tour, id: 'tour-2' }]);
+      mockRepository.markReminderSent.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const sent = await tourService.sendDueReminders();
+
+      expect(sent).toBe(1);
+      expect(mockNotificationClient.notify).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('buildCalendarEvent', () => {
+  it('should build an escaped iCalendar event with CRLF line endings', () => {
+    const ics = buildCalendarEvent({
+      uid: 'tour-1@projectx',
+      start: new Date('2024-03-01T17:00:00Z'),
+      end: new Date('2024-03-01T18:00:00Z'),
+      summary: 'Tour: Maple Court',
+      location: '1 Maple Ct, Springfield; IL'
+    });
+
+    expect(ics).toContain('DTSTART:20240301T170000Z\r\n');
+    expect(ics).toContain('METHOD:REQUEST\r\n');
+    expect(ics).toContain('LOCATION:1 Maple Ct\\, Springfield\\; IL\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
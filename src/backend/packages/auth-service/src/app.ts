@@ -12,6 +12,10 @@ import morgan from 'morgan'; // v1.10.0
 import { expressSanitizer } from 'express-sanitizer'; // v1.0.6
 import { auth, server } from './config';
 import { authRouter } from './routes/auth.routes';
+import { mfaRouter } from './routes/mfa.routes';
+import { passkeyRouter } from './routes/passkey.routes';
+import { sessionRouter } from './routes/session.routes';
+import { emailVerificationRouter } from './routes/email-verification.routes';
 import { 
   logger, 
   errorHandler, 
@@ -69,6 +73,10 @@ const initializeMiddleware = (app: Express): void => {
  */
 const initializeRoutes = (app: Express): void => {
   // API routes with version prefix
+  app.use('/api/v1/auth/mfa', mfaRouter);
+  app.use('/api/v1/auth/passkeys', passkeyRouter);
+  app.use('/api/v1/auth/sessions', sessionRouter);
+  app.use('/api/v1/auth/verify-email', emailVerificationRouter);
   app.use('/api/v1/auth', authRouter);
 
   // 404 handler for unknown routes
@@ -8,6 +8,7 @@ import dotenv from 'dotenv'; // ^16.3.1
 import * as joi from 'joi'; // ^17.9.2
 import { JWT_CONFIG } from '../../../common/src/constants';
 import { DATABASE_CONFIG } from '../../../database/src/config';
+import { UserRole } from '../../../common/src/interfaces';
 
 // Load environment variables
 dotenv.config();
@@ -62,7 +63,30 @@ const configSchema = joi.object({
     algorithm: joi.string().valid('SHA1', 'SHA256', 'SHA512').default('SHA256'),
     backupCodesCount: joi.number().min(5).max(20).default(10),
     qrCodeSize: joi.number().min(100).max(400).default(200),
-    enforceForRoles: joi.array().items(joi.string()).default(['admin', 'propertyManager'])
+    enforceForRoles: joi.array()
+      .items(joi.string().valid(...Object.values(UserRole)))
+      .default([UserRole.ADMIN, UserRole.PROPERTY_MANAGER])
+  }),
+  webauthn: joi.object({
+    rpId: joi.string().hostname().required(),
+    rpName: joi.string().default('Project X Rental Platform'),
+    origins: joi.array().items(joi.string().uri()).min(1).required(),
+    challengeTtl: joi.number().min(60).max(600).default(300),
+    userVerification: joi.string().valid('required', 'preferred', 'discouraged').default('required')
+  }),
+  session: joi.object({
+    ttl: joi.number().min(3600).default(7 * 24 * 60 * 60)
+  }),
+  emailVerification: joi.object({
+    tokenTtl: joi.number().min(3600).max(7 * 24 * 60 * 60).default(24 * 60 * 60),
+    resendCooldown: joi.number().min(30).max(3600).default(60),
+    maxSendsPerDay: joi.number().min(1).max(20).default(5),
+    verifyUrl: joi.string().uri().required()
+  }),
+  notification: joi.object({
+    enabled: joi.boolean().default(false),
+    serviceUrl: joi.string().uri().required(),
+    tenantId: joi.string().default('projectx')
   }),
   database: joi.object({
     host: joi.string().required(),
@@ -130,7 +154,29 @@ export const loadConfig = (configPath?: string): Record<string, any> => {
       algorithm: 'SHA256',
       backupCodesCount: 10,
       qrCodeSize: 200,
-      enforceForRoles: ['admin', 'propertyManager']
+      enforceForRoles: [UserRole.ADMIN, UserRole.PROPERTY_MANAGER]
+    },
+    webauthn: {
+      rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+      rpName: process.env.WEBAUTHN_RP_NAME || 'Project X Rental Platform',
+      origins: process.env.WEBAUTHN_ORIGINS?.split(',') || ['http://localhost:3000'],
+      challengeTtl: 300,
+      userVerification: 'required'
+    },
+    session: {
+      // Matches the refresh token cookie lifetime
+      ttl: 7 * 24 * 60 * 60
+    },
+    emailVerification: {
+      tokenTtl: 24 * 60 * 60,
+      resendCooldown: 60,
+      maxSendsPerDay: 5,
+      verifyUrl: process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email'
+    },
+    notification: {
+      enabled: process.env.NOTIFICATIONS_ENABLED === 'true',
+      serviceUrl: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3005',
+      tenantId: process.env.NOTIFICATION_TENANT_ID || 'projectx'
     },
     database: {
       ...DATABASE_CONFIG
@@ -184,5 +230,9 @@ export const {
   jwt,
   password,
   mfa,
+  webauthn,
+  session,
+  emailVerification,
+  notification,
   database
 } = config;
\ No newline at end of file
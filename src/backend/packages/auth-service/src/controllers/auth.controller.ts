@@ -7,6 +7,7 @@
 import { Request, Response, NextFunction } from 'express'; // v4.18.2
 import { BadRequestError, UnauthorizedError, Logger, Metrics, RequestValidator } from '@projectx/common'; // v1.0.0
 import { AuthService } from '../services/auth.service';
+import { AuthRequestContext } from '../types';
 import { ApiResponse, UserRole } from '@projectx/common/interfaces';
 import { HTTP_STATUS } from '@projectx/common/constants';
 import { config } from '../config';
@@ -56,10 +57,7 @@ export class AuthController {
       });
 
       // Process registration
-      const result = await this.authService.register({
-        ...req.body,
-        mfaEnabled: config.mfa.enforceForRoles.includes(req.body.role)
-      });
+      const result = await this.authService.register(req.body);
 
       // Set secure cookie options
       const cookieOptions = {
@@ -72,7 +70,8 @@ export class AuthController {
       // Track registration metrics
       this.metrics.increment('auth.registration.success', {
         role: req.body.role,
-        mfaEnabled: config.mfa.enforceForRoles.includes(req.body.role)
+        mfaEnabled: result.data.mfaEnabled,
+        mfaEnforced: config.mfa.enforceForRoles.includes(req.body.role)
       });
 
       res.status(HTTP_STATUS.CREATED).json(result);
@@ -101,15 +100,17 @@ export class AuthController {
       await this.validator.validate(req.body, {
         email: { type: 'string', format: 'email', required: true },
         password: { type: 'string', required: true },
-        mfaToken: { type: 'string', pattern: '^\\d{6}$', optional: true }
+        mfaToken: { type: 'string', pattern: '^\\d{6}$', optional: true },
+        backupCode: { type: 'string', pattern: '^[0-9a-fA-F]{5}-?[0-9a-fA-F]{5}$', optional: true }
       });
 
       // Process login
       const result = await this.authService.login({
         email: req.body.email,
         password: req.body.password,
-        mfaToken: req.body.mfaToken
-      });
+        mfaToken: req.body.mfaToken,
+        backupCode: req.body.backupCode
+      }, this.getContext(req));
 
       // Set refresh token cookie
       res.cookie('refreshToken', result.data.refreshToken, {
@@ -122,7 +123,7 @@ export class AuthController {
       // Track login metrics
       this.metrics.increment('auth.login.success', {
         role: result.data.user.role,
-        mfaUsed: !!req.body.mfaToken
+        mfaUsed: !!(req.body.mfaToken || req.body.backupCode)
       });
 
       res.status(HTTP_STATUS.OK).json(result);
@@ -134,6 +135,64 @@ export class AuthController {
     }
   }
 
+  /**
+   * Issues the challenge for a passkey sign-in
+   */
+  @Post('/login/passkey/options')
+  @UseRateLimit(10, '1m')
+  async passkeyLoginOptions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await this.authService.getPasskeyLoginOptions();
+      res.status(HTTP_STATUS.OK).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Handles passkey sign-in
+   */
+  @Post('/login/passkey')
+  @UseRateLimit(5, '1m')
+  async passkeyLogin(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      this.logger.info('Processing passkey login request');
+
+      const result = await this.authService.loginWithPasskey(req.body.response, this.getContext(req));
+
+      // Set refresh token cookie
+      res.cookie('refreshToken', result.data.refreshToken, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+      });
+
+      // Track login metrics
+      this.metrics.increment('auth.login.success', {
+        role: result.data.user.role,
+        mfaUsed: true,
+        method: 'passkey'
+      });
+
+      res.status(HTTP_STATUS.OK).json(result);
+    } catch (error) {
+      this.metrics.increment('auth.login.error', {
+        error: error.name,
+        method: 'passkey'
+      });
+      next(error);
+    }
+  }
+
   /**
    * Handles access token refresh with enhanced security validation
    */
@@ -153,7 +212,7 @@ export class AuthController {
       }
 
       // Process token refresh
-      const result = await this.authService.refreshToken(refreshToken);
+      const result = await this.authService.refreshToken(refreshToken, this.getContext(req));
 
       // Update refresh token cookie
       res.cookie('refreshToken', result.data.refreshToken, {
@@ -222,4 +281,11 @@ export class AuthController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  private getContext(req: Request): AuthRequestContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent') ?? ''
+    };
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Email verification controller
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+import { Logger } from '@projectx/common'; // v1.0.0
+import { EmailVerificationService } from '../services/email-verification.service';
+import { AuthRequestContext } from '../types';
+import { HTTP_STATUS } from '@projectx/common/constants';
+
+/**
+ * Controller for opening verification links and requesting new ones
+ */
+export class EmailVerificationController {
+  constructor(
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Verifies the address named in a verification link
+   * @route POST /api/v1/auth/verify-email
+   */
+  verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.emailVerificationService.verify(req.body.token, this.getContext(req));
+      this.respond(req, res, HTTP_STATUS.OK, null, 'Email address verified successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Sends the authenticated user a new verification link
+   * @route POST /api/v1/auth/verify-email/resend
+   */
+  resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      this.logger.info('Resending verification email', { userId: req.user.id });
+
+      await this.emailVerificationService.resend(req.user.id);
+      this.respond(req, res, HTTP_STATUS.OK, null, 'Verification email sent');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private respond(req: Request, res: Response, status: number, data: unknown, message: string): void {
+    res.status(status).json({
+      status,
+      data,
+      message,
+      errors: [],
+      timestamp: new Date(),
+      requestId: req.id
+    });
+  }
+
+  private getContext(req: Request): AuthRequestContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent') ?? ''
+    };
+  }
+}
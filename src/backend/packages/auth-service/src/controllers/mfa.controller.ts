@@ -0,0 +1,115 @@
+/**
+ * @fileoverview MFA management controller for signed-in users
+ * Provides endpoints to enroll an authenticator, manage backup codes and disable MFA
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+import { Logger } from '@projectx/common'; // v1.0.0
+import { MfaService } from '../services/mfa.service';
+import { AuthRequestContext } from '../types';
+import { HTTP_STATUS } from '@projectx/common/constants';
+
+/**
+ * Controller for the MFA lifecycle of the authenticated user
+ */
+export class MfaController {
+  constructor(
+    private readonly mfaService: MfaService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Returns whether MFA is enabled and how many backup codes are left
+   * @route GET /api/v1/auth/mfa
+   */
+  getStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const status = await this.mfaService.getStatus(req.user.id);
+      this.respond(req, res, status, 'MFA status retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Starts enrollment and returns the secret and QR code to scan
+   * @route POST /api/v1/auth/mfa/setup
+   */
+  startEnrollment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      this.logger.info('Starting MFA enrollment', { userId: req.user.id });
+
+      const enrollment = await this.mfaService.startEnrollment(req.user.id);
+      this.respond(req, res, enrollment, 'Scan the QR code with your authenticator app');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Confirms enrollment with the first code and returns the backup codes
+   * @route POST /api/v1/auth/mfa/confirm
+   */
+  confirmEnrollment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const backupCodes = await this.mfaService.confirmEnrollment(
+        req.user.id,
+        req.body.mfaToken,
+        this.getContext(req)
+      );
+      this.respond(req, res, { backupCodes }, 'MFA enabled successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replaces the backup codes with a new set
+   * @route POST /api/v1/auth/mfa/backup-codes
+   */
+  regenerateBackupCodes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const backupCodes = await this.mfaService.regenerateBackupCodes(req.user.id, req.body.mfaToken);
+      this.respond(req, res, { backupCodes }, 'Backup codes regenerated successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Disables MFA given the password and an authenticator or backup code
+   * @route POST /api/v1/auth/mfa/disable
+   */
+  disable = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.mfaService.disable(
+        req.user.id,
+        req.body.password,
+        { mfaToken: req.body.mfaToken, backupCode: req.body.backupCode },
+        this.getContext(req)
+      );
+      this.respond(req, res, null, 'MFA disabled successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private respond(req: Request, res: Response, data: unknown, message: string): void {
+    res.status(HTTP_STATUS.OK).json({
+      status: HTTP_STATUS.OK,
+      data,
+      message,
+      errors: [],
+      timestamp: new Date(),
+      requestId: req.id
+    });
+  }
+
+  private getContext(req: Request): AuthRequestContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent') ?? ''
+    };
+  }
+}
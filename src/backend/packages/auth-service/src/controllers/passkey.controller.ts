@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Passkey management controller for signed-in users
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+import { Logger } from '@projectx/common'; // v1.0.0
+import { PasskeyService } from '../services/passkey.service';
+import { AuthRequestContext } from '../types';
+import { HTTP_STATUS } from '@projectx/common/constants';
+
+/**
+ * Controller for registering, listing and removing the authenticated
+ * user's passkeys
+ */
+export class PasskeyController {
+  constructor(
+    private readonly passkeyService: PasskeyService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Lists the user's passkeys
+   * @route GET /api/v1/auth/passkeys
+   */
+  listPasskeys = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const passkeys = await this.passkeyService.listPasskeys(req.user.id);
+      this.respond(req, res, HTTP_STATUS.OK, passkeys, 'Passkeys retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Issues the challenge for registering a passkey
+   * @route POST /api/v1/auth/passkeys/options
+   */
+  getRegistrationOptions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const options = await this.passkeyService.getRegistrationOptions(req.user.id);
+      this.respond(req, res, HTTP_STATUS.OK, options, 'Passkey challenge created');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Stores a passkey from the browser's registration response
+   * @route POST /api/v1/auth/passkeys
+   */
+  registerPasskey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      this.logger.info('Registering passkey', { userId: req.user.id });
+
+      const passkey = await this.passkeyService.register(
+        req.user.id,
+        req.body.response,
+        req.body.name,
+        this.getContext(req)
+      );
+      this.respond(req, res, HTTP_STATUS.CREATED, passkey, 'Passkey added successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Removes a passkey
+   * @route DELETE /api/v1/auth/passkeys/:id
+   */
+  removePasskey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.passkeyService.removePasskey(req.user.id, req.params.id, this.getContext(req));
+      this.respond(req, res, HTTP_STATUS.OK, null, 'Passkey removed successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private respond(req: Request, res: Response, status: number, data: unknown, message: string): void {
+    res.status(status).json({
+      status,
+      data,
+      message,
+      errors: [],
+      timestamp: new Date(),
+      requestId: req.id
+    });
+  }
+
+  private getContext(req: Request): AuthRequestContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent') ?? ''
+    };
+  }
+}
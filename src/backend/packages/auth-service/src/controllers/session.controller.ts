@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Active session controller for signed-in users
+ * @version 1.0.0
+ */
+
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+import { Logger } from '@projectx/common'; // v1.0.0
+import { SessionService } from '../services/session.service';
+import { AuthRequestContext } from '../types';
+import { HTTP_STATUS } from '@projectx/common/constants';
+
+/**
+ * Controller for listing and revoking the authenticated user's sessions
+ */
+export class SessionController {
+  constructor(
+    private readonly sessionService: SessionService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Lists where the user is signed in
+   * @route GET /api/v1/auth/sessions
+   */
+  listSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const sessions = await this.sessionService.listSessions(req.user.id, req.user.sessionId);
+      this.respond(req, res, HTTP_STATUS.OK, sessions, 'Sessions retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Signs out one session
+   * @route DELETE /api/v1/auth/sessions/:id
+   */
+  revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      this.logger.info('Revoking session', { userId: req.user.id, sessionId: req.params.id });
+
+      await this.sessionService.revokeSession(req.user.id, req.params.id, this.getContext(req));
+      this.respond(req, res, HTTP_STATUS.OK, null, 'Session signed out successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Signs out every other session
+   * @route DELETE /api/v1/auth/sessions
+   */
+  revokeOtherSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      this.logger.info('Revoking other sessions', { userId: req.user.id });
+
+      const revoked = await this.sessionService.revokeOtherSessions(
+        req.user.id,
+        req.user.sessionId,
+        this.getContext(req)
+      );
+      this.respond(req, res, HTTP_STATUS.OK, { revoked }, 'Other sessions signed out successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private respond(req: Request, res: Response, status: number, data: unknown, message: string): void {
+    res.status(status).json({
+      status,
+      data,
+      message,
+      errors: [],
+      timestamp: new Date(),
+      requestId: req.id
+    });
+  }
+
+  private getContext(req: Request): AuthRequestContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent') ?? ''
+    };
+  }
+}
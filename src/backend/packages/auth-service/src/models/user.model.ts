@@ -6,15 +6,16 @@
 
 import mongoose, { Schema, Model, Document } from 'mongoose'; // v7.4.0
 import bcrypt from 'bcrypt'; // v5.1.0
-import { User, UserRole } from '@projectx/common/interfaces';
+import { User, UserRole, UserStatus } from '@projectx/common/interfaces';
 import { PASSWORD_CONFIG } from '../config';
 
 /**
  * Extended User document interface with security methods
  */
-interface UserDocument extends User, Document {
+export interface UserDocument extends User, Document {
   password: string;
   mfaSecret?: string;
+  mfaPendingSecret?: string;
   mfaEnabled: boolean;
   backupCodes: string[];
   loginAttempts: number;
@@ -22,6 +23,7 @@ interface UserDocument extends User, Document {
   passwordHistory: string[];
   lastLogin?: Date;
   isActive: boolean;
+  emailVerifiedAt?: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
@@ -107,6 +109,10 @@ const userSchema = new Schema<UserDocument>({
     select: false,
     sparse: true
   },
+  mfaPendingSecret: {
+    type: String,
+    select: false
+  },
   mfaEnabled: {
     type: Boolean,
     default: false
@@ -146,6 +152,15 @@ const userSchema = new Schema<UserDocument>({
     type: Boolean,
     default: true,
     index: true
+  },
+  // New accounts stay PENDING_VERIFICATION until the email link is used
+  status: {
+    type: String,
+    enum: Object.values(UserStatus),
+    default: UserStatus.ACTIVE
+  },
+  emailVerifiedAt: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -154,6 +169,7 @@ const userSchema = new Schema<UserDocument>({
     transform: (_, ret) => {
       delete ret.password;
       delete ret.mfaSecret;
+      delete ret.mfaPendingSecret;
       delete ret.backupCodes;
       delete ret.passwordHistory;
       return ret;
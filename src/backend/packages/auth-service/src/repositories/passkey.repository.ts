@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Passkey repository backed by the `webauthn_credentials` table
+ * @version 1.0.0
+ */
+
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool, DatabaseError } from '@projectx/database/config';
+import { PasskeyCredential } from '../types';
+
+const SELECT_COLUMNS = `id, user_id, credential_id, public_key, counter, transports, device_type,
+  backed_up, name, last_used_at, created_at`;
+
+/**
+ * Repository for WebAuthn credentials
+ */
+export class PasskeyRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Lists a user's passkeys, newest first
+   * @param userId - User ID
+   */
+  async findByUser(userId: string): Promise<PasskeyCredential[]> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `SELECT ${SELECT_COLUMNS} FROM webauthn_credentials WHERE user_id = $1 ORDER BY created_at DESC`,
+        [userId]
+      );
+      return rows.map(this.toCredential);
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding passkeys: ${(error as Error).message}`,
+        'PASSKEY_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Finds a passkey by the credential ID the authenticator returned
+   * @param credentialId - Base64url credential ID
+   */
+  async findByCredentialId(credentialId: string): Promise<PasskeyCredential | null> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `SELECT ${SELECT_COLUMNS} FROM webauthn_credentials WHERE credential_id = $1`,
+        [credentialId]
+      );
+      return rows[0] ? this.toCredential(rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding passkey: ${(error as Error).message}`,
+        'PASSKEY_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Counts a user's passkeys
+   * @param userId - User ID
+   */
+  async countByUser(userId: string): Promise<number> {
+    try {
+      const { rows } = await this.dbPool.query(
+        'SELECT COUNT(*)::int AS count FROM webauthn_credentials WHERE user_id = $1',
+        [userId]
+      );
+      return rows[0].count;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error counting passkeys: ${(error as Error).message}`,
+        'PASSKEY_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Stores a newly registered passkey
+   * @param credential - Verified credential
+   * @returns Stored passkey
+   */
+  async create(
+    credential: Omit<PasskeyCredential, 'id' | 'lastUsedAt' | 'createdAt'>
+  ): Promise<PasskeyCredential> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `INSERT INTO webauthn_credentials
+           (user_id, credential_id, public_key, counter, transports, device_type, backed_up, name)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING ${SELECT_COLUMNS}`,
+        [
+          credential.userId,
+          credential.credentialId,
+          credential.publicKey,
+          credential.counter,
+          credential.transports,
+          credential.deviceType,
+          credential.backedUp,
+          credential.name
+        ]
+      );
+      return this.toCredential(rows[0]);
+    } catch (error) {
+      throw new DatabaseError(
+        `Error saving passkey: ${(error as Error).message}`,
+        'PASSKEY_CREATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Records a sign-in with a passkey
+   * @param id - Passkey row ID
+   * @param counter - Signature counter from the assertion
+   * @param backedUp - Current backup state reported by the authenticator
+   */
+  async recordUse(id: string, counter: number, backedUp: boolean): Promise<void> {
+    try {
+      await this.dbPool.query(
+        `UPDATE webauthn_credentials
+         SET counter = $2, backed_up = $3, last_used_at = NOW()
+         WHERE id = $1`,
+        [id, counter, backedUp]
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Error updating passkey: ${(error as Error).message}`,
+        'PASSKEY_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Removes one of a user's passkeys
+   * @param id - Passkey row ID
+   * @param userId - Owning user ID
+   * @returns Whether a passkey was removed
+   */
+  async delete(id: string, userId: string): Promise<boolean> {
+    try {
+      const { rowCount } = await this.dbPool.query(
+        'DELETE FROM webauthn_credentials WHERE id = $1 AND user_id = $2',
+        [id, userId]
+      );
+      return rowCount === 1;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error removing passkey: ${(error as Error).message}`,
+        'PASSKEY_DELETE_ERROR'
+      );
+    }
+  }
+
+  private toCredential(row: any): PasskeyCredential {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      credentialId: row.credential_id,
+      publicKey: row.public_key,
+      counter: Number(row.counter),
+      transports: row.transports ?? [],
+      deviceType: row.device_type,
+      backedUp: row.backed_up,
+      name: row.name,
+      lastUsedAt: row.last_used_at,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Session repository backed by the `sessions` table
+ * @version 1.0.0
+ */
+
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool, DatabaseError } from '@projectx/database/config';
+import { AuthSession } from '../types';
+
+const SELECT_COLUMNS = 'id, user_id, device_info, ip_address, created_at, last_used_at, expires_at';
+
+/**
+ * Repository for signed-in sessions
+ */
+export class SessionRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Stores a new session
+   * @param session - Session details
+   * @param tokenHash - Hash of the session's refresh token
+   */
+  async create(
+    session: Omit<AuthSession, 'createdAt' | 'lastUsedAt'>,
+    tokenHash: string
+  ): Promise<void> {
+    try {
+      await this.dbPool.query(
+        `INSERT INTO sessions (id, user_id, token_hash, device_info, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          session.id,
+          session.userId,
+          tokenHash,
+          JSON.stringify(session.deviceInfo),
+          session.ipAddress,
+          session.expiresAt
+        ]
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `Error saving session: ${(error as Error).message}`,
+        'SESSION_CREATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Finds one of a user's unexpired sessions
+   * @param id - Session ID
+   * @param userId - Owning user ID
+   */
+  async findActiveById(id: string, userId: string): Promise<AuthSession | null> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `SELECT ${SELECT_COLUMNS} FROM sessions
+         WHERE id = $1 AND user_id = $2 AND expires_at > NOW()`,
+        [id, userId]
+      );
+      return rows[0] ? this.toSession(rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding session: ${(error as Error).message}`,
+        'SESSION_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Swaps a live session's refresh token, provided the presented token is
+   * still the current one
+   * @param id - Session ID
+   * @param userId - Owning user ID
+   * @param currentHash - Hash of the presented refresh token
+   * @param nextHash - Hash of the new refresh token
+   * @param ipAddress - IP address of the refresh
+   * @returns Whether the token was rotated
+   */
+  async rotateToken(
+    id: string,
+    userId: string,
+    currentHash: string,
+    nextHash: string,
+    ipAddress: string | null
+  ): Promise<boolean> {
+    try {
+      const { rowCount } = await this.dbPool.query(
+        `UPDATE sessions
+         SET token_hash = $4, ip_address = COALESCE($5, ip_address), last_used_at = NOW()
+         WHERE id = $1 AND user_id = $2 AND token_hash = $3 AND expires_at > NOW()`,
+        [id, userId, currentHash, nextHash, ipAddress]
+      );
+      return rowCount === 1;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error updating session: ${(error as Error).message}`,
+        'SESSION_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Lists a user's unexpired sessions, most recently used first
+   * @param userId - User ID
+   */
+  async findActiveByUser(userId: string): Promise<AuthSession[]> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `SELECT ${SELECT_COLUMNS} FROM sessions
+         WHERE user_id = $1 AND expires_at > NOW()
+         ORDER BY last_used_at DESC`,
+        [userId]
+      );
+      return rows.map(this.toSession);
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding sessions: ${(error as Error).message}`,
+        'SESSION_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Removes one of a user's sessions
+   * @param id - Session ID
+   * @param userId - Owning user ID
+   * @returns The removed session, or null if the user has no such session
+   */
+  async delete(id: string, userId: string): Promise<AuthSession | null> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `DELETE FROM sessions WHERE id = $1 AND user_id = $2 RETURNING ${SELECT_COLUMNS}`,
+        [id, userId]
+      );
+      return rows[0] ? this.toSession(rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError(
+        `Error removing session: ${(error as Error).message}`,
+        'SESSION_DELETE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Removes all of a user's sessions except one
+   * @param userId - User ID
+   * @param keepId - Session to keep
+   * @returns The removed sessions
+   */
+  async deleteOthers(userId: string, keepId: string): Promise<AuthSession[]> {
+    try {
+      const { rows } = await this.dbPool.query(
+        `DELETE FROM sessions WHERE user_id = $1 AND id <> $2 RETURNING ${SELECT_COLUMNS}`,
+        [userId, keepId]
+      );
+      return rows.map(this.toSession);
+    } catch (error) {
+      throw new DatabaseError(
+        `Error removing sessions: ${(error as Error).message}`,
+        'SESSION_DELETE_ERROR'
+      );
+    }
+  }
+
+  private toSession(row: any): AuthSession {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      deviceInfo: row.device_info ?? {},
+      ipAddress: row.ip_address,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at
+    };
+  }
+}
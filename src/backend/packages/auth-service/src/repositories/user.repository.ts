@@ -7,8 +7,9 @@
 import { Model } from 'mongoose'; // v7.4.0
 import { createClient } from 'redis'; // v4.6.7
 import { promisify } from 'util';
-import { User, UserRole } from '@projectx/common/interfaces';
-import { UserModel } from '../models/user.model';
+import { User, UserRole, UserStatus } from '@projectx/common/interfaces';
+import { UserModel, UserDocument } from '../models/user.model';
+import { verifyMfaToken, hashBackupCode } from '../utils/mfa.utils';
 import { DatabaseError } from '@projectx/database/config';
 import { CACHE_TTL, HTTP_STATUS } from '@projectx/common/constants';
 
@@ -105,12 +106,14 @@ export class UserRepository {
    * @param email - User email
    * @param password - User password
    * @param mfaToken - Optional MFA token
+   * @param backupCode - Optional single-use backup code, accepted instead of the MFA token
    * @returns Authentication result
    */
   async validateCredentials(
     email: string,
     password: string,
-    mfaToken?: string
+    mfaToken?: string,
+    backupCode?: string
   ): Promise<AuthResult> {
     try {
       const user = await this.userModel.findOne({ email })
@@ -148,7 +151,7 @@ export class UserRepository {
 
       // Check MFA requirement
       if (user.mfaEnabled) {
-        if (!mfaToken) {
+        if (!mfaToken && !backupCode) {
           return {
             user: null,
             status: 'mfa_required',
@@ -156,7 +159,9 @@ export class UserRepository {
           };
         }
 
-        const isMfaValid = await UserModel.validateMFA(user.mfaSecret, mfaToken);
+        const isMfaValid = mfaToken
+          ? verifyMfaToken(user.mfaSecret, mfaToken)
+          : await this.consumeBackupCode(user._id.toString(), backupCode as string);
         if (!isMfaValid) {
           return {
             user: null,
@@ -245,4 +250,157 @@ export class UserRepository {
       );
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Retrieves a user with the secrets needed to manage MFA
+   * @param id - User ID
+   * @returns User document or null if not found
+   */
+  async findByIdWithMfa(id: string): Promise<UserDocument | null> {
+    try {
+      return await UserModel.findById(id)
+        .select('+password +mfaSecret +mfaPendingSecret +backupCodes +loginAttempts +accountLockUntil');
+    } catch (error) {
+      throw new DatabaseError(
+        `Error finding user: ${(error as Error).message}`,
+        'USER_FIND_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Stores the secret of an enrollment awaiting its first code
+   * @param id - User ID
+   * @param secret - Base32 TOTP secret
+   */
+  async savePendingMfaSecret(id: string, secret: string): Promise<void> {
+    try {
+      await this.userModel.updateOne(
+        { _id: id },
+        { $set: { mfaPendingSecret: secret } }
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `MFA update error: ${(error as Error).message}`,
+        'MFA_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Turns on MFA with the pending secret. Fails if the enrollment was
+   * replaced by a newer one in the meantime.
+   * @param id - User ID
+   * @param secret - Pending secret the first code was checked against
+   * @param backupCodeHashes - Hashed backup codes
+   * @returns Whether MFA was enabled
+   */
+  async enableMfa(id: string, secret: string, backupCodeHashes: string[]): Promise<boolean> {
+    try {
+      const result = await this.userModel.updateOne(
+        { _id: id, mfaPendingSecret: secret },
+        {
+          $set: { mfaSecret: secret, mfaEnabled: true, backupCodes: backupCodeHashes },
+          $unset: { mfaPendingSecret: 1 }
+        }
+      );
+
+      await this.cacheClient.del(`${this.cachePrefix}${id}`);
+      return result.modifiedCount === 1;
+    } catch (error) {
+      throw new DatabaseError(
+        `MFA update error: ${(error as Error).message}`,
+        'MFA_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Replaces all backup codes, invalidating the previous set
+   * @param id - User ID
+   * @param backupCodeHashes - Hashed backup codes
+   */
+  async replaceBackupCodes(id: string, backupCodeHashes: string[]): Promise<void> {
+    try {
+      await this.userModel.updateOne(
+        { _id: id },
+        { $set: { backupCodes: backupCodeHashes } }
+      );
+    } catch (error) {
+      throw new DatabaseError(
+        `MFA update error: ${(error as Error).message}`,
+        'MFA_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Uses up a backup code. The code is removed atomically, so concurrent
+   * logins can't both redeem it.
+   * @param id - User ID
+   * @param backupCode - Backup code as entered
+   * @returns Whether the code was valid
+   */
+  async consumeBackupCode(id: string, backupCode: string): Promise<boolean> {
+    try {
+      const hash = hashBackupCode(backupCode);
+      const result = await this.userModel.updateOne(
+        { _id: id, backupCodes: hash },
+        { $pull: { backupCodes: hash } }
+      );
+      return result.modifiedCount === 1;
+    } catch (error) {
+      throw new DatabaseError(
+        `MFA update error: ${(error as Error).message}`,
+        'MFA_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Turns off MFA and removes its secrets and backup codes
+   * @param id - User ID
+   */
+  async disableMfa(id: string): Promise<void> {
+    try {
+      await this.userModel.updateOne(
+        { _id: id },
+        {
+          $set: { mfaEnabled: false },
+          $unset: { mfaSecret: 1, mfaPendingSecret: 1, backupCodes: 1 }
+        }
+      );
+
+      await this.cacheClient.del(`${this.cachePrefix}${id}`);
+    } catch (error) {
+      throw new DatabaseError(
+        `MFA update error: ${(error as Error).message}`,
+        'MFA_UPDATE_ERROR'
+      );
+    }
+  }
+
+  /**
+   * Activates an account awaiting email verification. Fails if the address
+   * changed since the link was sent or the account is already verified.
+   * @param id - User ID
+   * @param email - Address the verification link was sent to
+   * @returns Whether the account was verified
+   */
+  async markEmailVerified(id: string, email: string): Promise<boolean> {
+    try {
+      const result = await this.userModel.updateOne(
+        { _id: id, email, status: UserStatus.PENDING_VERIFICATION },
+        { $set: { status: UserStatus.ACTIVE, emailVerifiedAt: new Date() } }
+      );
+
+      await this.cacheClient.del(`${this.cachePrefix}${id}`);
+      return result.modifiedCount === 1;
+    } catch (error) {
+      throw new DatabaseError(
+        `Email verification update error: ${(error as Error).message}`,
+        'USER_UPDATE_ERROR'
+      );
+    }
+  }
+}
@@ -13,6 +13,7 @@ import {
   requestTracker 
 } from '@projectx/common';
 import { AuthController } from '../controllers/auth.controller';
+import { sessionService } from './session.routes';
 
 // Validation schemas with enhanced security rules
 const registerSchema = {
@@ -28,7 +29,7 @@ const registerSchema = {
     firstName: Joi.string().min(2).required(),
     lastName: Joi.string().min(2).required(),
     phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).required(),
-    role: Joi.string().valid('RENTER', 'PROPERTY_MANAGER', 'AGENT', 'ADMIN').required()
+    role: Joi.string().valid('RENTER', 'PROPERTY_MANAGER', 'OWNER', 'AGENT', 'ADMIN').required()
   })
 };
 
@@ -36,7 +37,26 @@ const loginSchema = {
   body: Joi.object({
     email: Joi.string().email().required(),
     password: Joi.string().required(),
-    mfaToken: Joi.string().pattern(/^\d{6}$/).optional()
+    mfaToken: Joi.string().pattern(/^\d{6}$/).optional(),
+    backupCode: Joi.string().pattern(/^[0-9a-fA-F]{5}-?[0-9a-fA-F]{5}$/).optional()
+  }).oxor('mfaToken', 'backupCode')
+};
+
+const passkeyLoginSchema = {
+  body: Joi.object({
+    response: Joi.object({
+      id: Joi.string().required(),
+      rawId: Joi.string().required(),
+      type: Joi.string().valid('public-key').required(),
+      response: Joi.object({
+        clientDataJSON: Joi.string().required(),
+        authenticatorData: Joi.string().required(),
+        signature: Joi.string().required(),
+        userHandle: Joi.string().optional()
+      }).required(),
+      clientExtensionResults: Joi.object().unknown(true).required(),
+      authenticatorAttachment: Joi.string().optional()
+    }).required()
   })
 };
 
@@ -87,6 +107,20 @@ const initializeAuthRoutes = (authController: AuthController): Router => {
     authController.login
   );
 
+  // Passkey sign-in: challenge, then the signed response
+  router.post(
+    '/login/passkey/options',
+    rateLimitMiddleware,
+    authController.passkeyLoginOptions
+  );
+
+  router.post(
+    '/login/passkey',
+    rateLimitMiddleware,
+    celebrate(passkeyLoginSchema),
+    authController.passkeyLogin
+  );
+
   // Token refresh endpoint with validation
   router.post(
     '/refresh',
@@ -111,23 +145,32 @@ const initializeAuthRoutes = (authController: AuthController): Router => {
     authController.verifyMFA
   );
 
-  // Logout endpoint with token invalidation
+  // Logout endpoint; revoking the session invalidates its outstanding tokens
   router.post(
     '/logout',
     validateToken,
-    (req, res) => {
-      res.clearCookie('refreshToken', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict'
-      });
-      res.status(200).json({
-        status: 200,
-        message: 'Logged out successfully',
-        errors: [],
-        timestamp: new Date(),
-        requestId: req.id
-      });
+    async (req, res, next) => {
+      try {
+        await sessionService.endSession(req.user.id, req.user.sessionId, {
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent') ?? ''
+        });
+
+        res.clearCookie('refreshToken', {
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'strict'
+        });
+        res.status(200).json({
+          status: 200,
+          message: 'Logged out successfully',
+          errors: [],
+          timestamp: new Date(),
+          requestId: req.id
+        });
+      } catch (error) {
+        next(error);
+      }
     }
   );
 
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Email verification routes
+ * Opening a link needs no session; requesting a new one does
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { celebrate, Joi } from 'celebrate'; // v15.0.1
+import Redis from 'ioredis'; // v5.3.2
+import {
+  logger,
+  validateToken,
+  rateLimitMiddleware
+} from '@projectx/common';
+import { NotificationClient } from '@projectx/common/clients';
+import { EmailVerificationController } from '../controllers/email-verification.controller';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { UserRepository } from '../repositories/user.repository';
+import { config } from '../config';
+
+const verifyEmailSchema = {
+  body: Joi.object({
+    token: Joi.string().max(2048).required()
+  })
+};
+
+/**
+ * Initializes email verification routes
+ * @param emailVerificationController - Email verification controller instance
+ * @returns Configured Express router
+ */
+const initializeEmailVerificationRoutes = (
+  emailVerificationController: EmailVerificationController
+): Router => {
+  const router = Router();
+
+  // Open a verification link
+  router.post(
+    '/',
+    rateLimitMiddleware,
+    celebrate(verifyEmailSchema),
+    emailVerificationController.verifyEmail
+  );
+
+  // Send a new link to the authenticated user
+  router.post(
+    '/resend',
+    rateLimitMiddleware,
+    validateToken,
+    emailVerificationController.resendVerification
+  );
+
+  return router;
+};
+
+export const emailVerificationService = new EmailVerificationService(
+  new UserRepository(),
+  // Account emails go out whenever notifications are enabled
+  new NotificationClient(logger, { ...config.notification, emailEnabled: true }),
+  new Redis(process.env.REDIS_URL as string),
+  logger
+);
+
+// Export configured router
+export const emailVerificationRouter = initializeEmailVerificationRoutes(
+  new EmailVerificationController(emailVerificationService, logger)
+);
+
+// Export route initialization function for testing
+export { initializeEmailVerificationRoutes };
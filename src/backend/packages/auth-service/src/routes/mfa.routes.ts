@@ -0,0 +1,81 @@
+/**
+ * @fileoverview MFA management routes for signed-in users
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { celebrate, Joi } from 'celebrate'; // v15.0.1
+import {
+  logger,
+  validateToken,
+  rateLimitMiddleware
+} from '@projectx/common';
+import { MfaController } from '../controllers/mfa.controller';
+import { MfaService } from '../services/mfa.service';
+import { UserRepository } from '../repositories/user.repository';
+import { PasskeyRepository } from '../repositories/passkey.repository';
+
+const mfaTokenSchema = {
+  body: Joi.object({
+    mfaToken: Joi.string().pattern(/^\d{6}$/).required()
+  })
+};
+
+const disableSchema = {
+  body: Joi.object({
+    password: Joi.string().required(),
+    mfaToken: Joi.string().pattern(/^\d{6}$/),
+    backupCode: Joi.string().pattern(/^[0-9a-fA-F]{5}-?[0-9a-fA-F]{5}$/)
+  }).xor('mfaToken', 'backupCode')
+};
+
+/**
+ * Initializes MFA routes. Every route acts on the authenticated user.
+ * @param mfaController - MFA controller instance
+ * @returns Configured Express router
+ */
+const initializeMfaRoutes = (mfaController: MfaController): Router => {
+  const router = Router();
+
+  router.use(validateToken);
+
+  // Current MFA status
+  router.get('/', mfaController.getStatus);
+
+  // Start enrollment with a new secret
+  router.post('/setup', rateLimitMiddleware, mfaController.startEnrollment);
+
+  // Confirm enrollment with the first code
+  router.post(
+    '/confirm',
+    rateLimitMiddleware,
+    celebrate(mfaTokenSchema),
+    mfaController.confirmEnrollment
+  );
+
+  // Replace backup codes
+  router.post(
+    '/backup-codes',
+    rateLimitMiddleware,
+    celebrate(mfaTokenSchema),
+    mfaController.regenerateBackupCodes
+  );
+
+  // Disable MFA
+  router.post(
+    '/disable',
+    rateLimitMiddleware,
+    celebrate(disableSchema),
+    mfaController.disable
+  );
+
+  return router;
+};
+
+// Export configured router
+export const mfaRouter = initializeMfaRoutes(
+  new MfaController(new MfaService(new UserRepository(), new PasskeyRepository(), logger), logger)
+);
+
+// Export route initialization function for testing
+export { initializeMfaRoutes };
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Passkey management routes for signed-in users
+ * Passkey sign-in itself lives with the other login routes
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { celebrate, Joi } from 'celebrate'; // v15.0.1
+import Redis from 'ioredis'; // v5.3.2
+import {
+  logger,
+  validateToken,
+  rateLimitMiddleware
+} from '@projectx/common';
+import { PasskeyController } from '../controllers/passkey.controller';
+import { PasskeyService } from '../services/passkey.service';
+import { PasskeyRepository } from '../repositories/passkey.repository';
+import { UserRepository } from '../repositories/user.repository';
+
+const registerPasskeySchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(100).allow('').optional(),
+    response: Joi.object({
+      id: Joi.string().required(),
+      rawId: Joi.string().required(),
+      type: Joi.string().valid('public-key').required(),
+      response: Joi.object({
+        clientDataJSON: Joi.string().required(),
+        attestationObject: Joi.string().required(),
+        transports: Joi.array().items(Joi.string()).optional()
+      }).unknown(true).required(),
+      clientExtensionResults: Joi.object().unknown(true).required(),
+      authenticatorAttachment: Joi.string().optional()
+    }).required()
+  })
+};
+
+const passkeyIdSchema = {
+  params: Joi.object({
+    id: Joi.string().uuid().required()
+  })
+};
+
+/**
+ * Initializes passkey routes. Every route acts on the authenticated user.
+ * @param passkeyController - Passkey controller instance
+ * @returns Configured Express router
+ */
+const initializePasskeyRoutes = (passkeyController: PasskeyController): Router => {
+  const router = Router();
+
+  router.use(validateToken);
+
+  // Registered passkeys
+  router.get('/', passkeyController.listPasskeys);
+
+  // Registration challenge
+  router.post('/options', rateLimitMiddleware, passkeyController.getRegistrationOptions);
+
+  // Register a passkey from the browser's response
+  router.post(
+    '/',
+    rateLimitMiddleware,
+    celebrate(registerPasskeySchema),
+    passkeyController.registerPasskey
+  );
+
+  // Remove a passkey
+  router.delete(
+    '/:id',
+    rateLimitMiddleware,
+    celebrate(passkeyIdSchema),
+    passkeyController.removePasskey
+  );
+
+  return router;
+};
+
+export const passkeyService = new PasskeyService(
+  new PasskeyRepository(),
+  new UserRepository(),
+  new Redis(process.env.REDIS_URL as string),
+  logger
+);
+
+// Export configured router
+export const passkeyRouter = initializePasskeyRoutes(new PasskeyController(passkeyService, logger));
+
+// Export route initialization function for testing
+export { initializePasskeyRoutes };
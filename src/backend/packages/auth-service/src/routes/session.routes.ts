@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Active session routes for signed-in users
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { celebrate, Joi } from 'celebrate'; // v15.0.1
+import Redis from 'ioredis'; // v5.3.2
+import {
+  logger,
+  validateToken,
+  rateLimitMiddleware
+} from '@projectx/common';
+import { SessionController } from '../controllers/session.controller';
+import { SessionService } from '../services/session.service';
+import { SessionRepository } from '../repositories/session.repository';
+
+const sessionIdSchema = {
+  params: Joi.object({
+    id: Joi.string().uuid().required()
+  })
+};
+
+/**
+ * Initializes session routes. Every route acts on the authenticated user.
+ * @param sessionController - Session controller instance
+ * @returns Configured Express router
+ */
+const initializeSessionRoutes = (sessionController: SessionController): Router => {
+  const router = Router();
+
+  router.use(validateToken);
+
+  // Where the user is signed in
+  router.get('/', sessionController.listSessions);
+
+  // Sign out every other session
+  router.delete('/', rateLimitMiddleware, sessionController.revokeOtherSessions);
+
+  // Sign out one session
+  router.delete(
+    '/:id',
+    rateLimitMiddleware,
+    celebrate(sessionIdSchema),
+    sessionController.revokeSession
+  );
+
+  return router;
+};
+
+export const sessionService = new SessionService(
+  new SessionRepository(),
+  new Redis(process.env.REDIS_URL as string),
+  logger
+);
+
+// Export configured router
+export const sessionRouter = initializeSessionRoutes(new SessionController(sessionService, logger));
+
+// Export route initialization function for testing
+export { initializeSessionRoutes };
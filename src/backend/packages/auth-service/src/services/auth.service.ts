@@ -5,13 +5,22 @@
  * @version 1.0.0
  */
 
+import { randomUUID } from 'crypto';
 import { UserRepository } from '../repositories/user.repository';
+import { PasskeyService } from './passkey.service';
+import { SessionService } from './session.service';
+import { EmailVerificationService } from './email-verification.service';
 import { AuthErrors } from '@projectx/common'; // v1.0.0
 import { SecurityMetrics } from '@projectx/monitoring'; // v1.0.0
 import { TokenService } from '@projectx/token-service'; // v1.0.0
 import { SecurityUtils } from '@projectx/security-utils'; // v1.0.0
-import { User, UserRole, ApiResponse } from '@projectx/common/interfaces';
+import { User, UserRole, UserStatus, ApiResponse } from '@projectx/common/interfaces';
 import { HTTP_STATUS, JWT_CONFIG } from '@projectx/common/constants';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialRequestOptionsJSON
+} from '@simplewebauthn/types'; // v9.0.1
+import { AuthRequestContext } from '../types';
 import { config } from '../config';
 
 /**
@@ -24,7 +33,6 @@ interface RegisterDTO {
   lastName: string;
   phone: string;
   role: UserRole;
-  mfaEnabled?: boolean;
 }
 
 /**
@@ -34,6 +42,7 @@ interface LoginDTO {
   email: string;
   password: string;
   mfaToken?: string;
+  backupCode?: string;
 }
 
 /**
@@ -45,6 +54,7 @@ interface AuthResponse {
   expiresIn: number;
   user: Omit<User, 'password' | 'mfaSecret'>;
   mfaRequired?: boolean;
+  mfaSetupRequired?: boolean;
 }
 
 /**
@@ -55,13 +65,16 @@ export class AuthService {
     private readonly userRepository: UserRepository,
     private readonly tokenService: TokenService,
     private readonly securityUtils: SecurityUtils,
-    private readonly securityMetrics: SecurityMetrics
+    private readonly securityMetrics: SecurityMetrics,
+    private readonly passkeyService: PasskeyService,
+    private readonly sessionService: SessionService,
+    private readonly emailVerificationService: EmailVerificationService
   ) {}
 
   /**
    * Enhanced user registration with security features
    * @param userData Registration data
-   * @returns Registration response with MFA setup information
+   * @returns Registration response; the account awaits email verification
    */
   public async register(userData: RegisterDTO): Promise<ApiResponse<User>> {
     try {
@@ -81,32 +94,24 @@ export class AuthService {
         throw new AuthErrors.ConflictError('Email already registered');
       }
 
-      // Generate MFA secret if enabled
-      let mfaSecret: string | undefined;
-      let backupCodes: string[] | undefined;
-      if (userData.mfaEnabled || config.mfa.enforceForRoles.includes(userData.role)) {
-        mfaSecret = await this.securityUtils.generateMFASecret();
-        backupCodes = await this.securityUtils.generateBackupCodes(
-          config.mfa.backupCodesCount
-        );
-      }
-
-      // Create user with enhanced security
+      // MFA is enrolled from account settings once the user can scan the secret
       const user = await this.userRepository.create({
         ...userData,
         password: await this.securityUtils.hashPassword(userData.password),
-        mfaSecret,
-        backupCodes,
-        mfaEnabled: !!mfaSecret,
+        mfaEnabled: false,
         loginAttempts: 0,
-        isActive: true
+        isActive: true,
+        status: UserStatus.PENDING_VERIFICATION
       });
 
+      // The account exists either way; the user can request another link
+      await this.emailVerificationService.sendVerificationEmail(user).catch(() => undefined);
+
       // Track security metrics
       this.securityMetrics.trackRegistration({
         userId: user.id,
         role: user.role,
-        mfaEnabled: !!mfaSecret
+        mfaEnabled: false
       });
 
       return {
@@ -125,15 +130,17 @@ export class AuthService {
   /**
    * Enhanced login with MFA and security features
    * @param credentials Login credentials
+   * @param context Request details recorded with the session
    * @returns Authentication response with tokens
    */
-  public async login(credentials: LoginDTO): Promise<ApiResponse<AuthResponse>> {
+  public async login(credentials: LoginDTO, context: AuthRequestContext): Promise<ApiResponse<AuthResponse>> {
     try {
       // Validate credentials
       const authResult = await this.userRepository.validateCredentials(
         credentials.email,
         credentials.password,
-        credentials.mfaToken
+        credentials.mfaToken,
+        credentials.backupCode
       );
 
       if (!authResult.user) {
@@ -152,33 +159,26 @@ export class AuthService {
         );
       }
 
-      // Generate session and tokens
-      const sessionId = this.securityUtils.generateSessionId();
-      const tokens = await this.tokenService.generateTokenPair({
-        userId: authResult.user.id,
-        role: authResult.user.role,
-        sessionId,
-        mfaVerified: !!credentials.mfaToken
-      });
-
-      // Track security metrics
-      this.securityMetrics.trackLogin({
-        userId: authResult.user.id,
-        role: authResult.user.role,
-        mfaUsed: !!credentials.mfaToken,
-        sessionId
-      });
+      return await this.createSession(
+        authResult.user,
+        !!(credentials.mfaToken || credentials.backupCode),
+        context
+      );
+    } catch (error) {
+      throw this.handleAuthError(error);
+    }
+  }
 
+  /**
+   * Creates the challenge for a passkey sign-in
+   * @returns WebAuthn request options for the browser
+   */
+  public async getPasskeyLoginOptions(): Promise<ApiResponse<PublicKeyCredentialRequestOptionsJSON>> {
+    try {
       return {
         status: HTTP_STATUS.OK,
-        data: {
-          accessToken: tokens.accessToken,
-          refreshToken: tokens.refreshToken,
-          expiresIn: JWT_CONFIG.TOKEN_EXPIRY,
-          user: authResult.user,
-          mfaRequired: false
-        },
-        message: 'Login successful',
+        data: await this.passkeyService.getAuthenticationOptions(),
+        message: 'Passkey challenge created',
         errors: [],
         timestamp: new Date(),
         requestId: this.securityUtils.generateRequestId()
@@ -188,12 +188,41 @@ export class AuthService {
     }
   }
 
+  /**
+   * Passkey login. The passkey proves possession and user verification, so
+   * the session counts as MFA-verified.
+   * @param response Browser response to the passkey challenge
+   * @param context Request details recorded with the session
+   * @returns Authentication response with tokens
+   */
+  public async loginWithPasskey(
+    response: AuthenticationResponseJSON,
+    context: AuthRequestContext
+  ): Promise<ApiResponse<AuthResponse>> {
+    try {
+      const userId = await this.passkeyService.authenticate(response);
+
+      const user = await this.userRepository.findById(userId);
+      if (!user || !user.isActive) {
+        throw new AuthErrors.UserNotFoundError('User not found or inactive');
+      }
+
+      return await this.createSession(user, true, context);
+    } catch (error) {
+      throw this.handleAuthError(error);
+    }
+  }
+
   /**
    * Enhanced token refresh with security checks
    * @param refreshToken Refresh token
+   * @param context Request details recorded with the session
    * @returns New access token and session data
    */
-  public async refreshToken(refreshToken: string): Promise<ApiResponse<AuthResponse>> {
+  public async refreshToken(
+    refreshToken: string,
+    context: AuthRequestContext
+  ): Promise<ApiResponse<AuthResponse>> {
     try {
       // Verify refresh token
       const tokenPayload = await this.tokenService.verifyRefreshToken(refreshToken);
@@ -207,14 +236,26 @@ export class AuthService {
         throw new AuthErrors.UserNotFoundError('User not found or inactive');
       }
 
-      // Generate new token pair
+      // Generate new token pair; enrolling during the session lifts the restriction
+      const mfaSetupRequired = await this.requiresMfaSetup(user, tokenPayload.mfaVerified);
       const tokens = await this.tokenService.generateTokenPair({
         userId: user.id,
         role: user.role,
         sessionId: tokenPayload.sessionId,
-        mfaVerified: tokenPayload.mfaVerified
+        mfaVerified: tokenPayload.mfaVerified,
+        mfaSetupRequired,
+        emailVerified: user.status !== UserStatus.PENDING_VERIFICATION
       });
 
+      // Retire the presented token; fails for signed-out sessions and replayed tokens
+      await this.sessionService.rotate(
+        user.id,
+        tokenPayload.sessionId,
+        refreshToken,
+        tokens.refreshToken,
+        context
+      );
+
       // Track token refresh
       this.securityMetrics.trackTokenRefresh({
         userId: user.id,
@@ -228,7 +269,8 @@ export class AuthService {
           refreshToken: tokens.refreshToken,
           expiresIn: JWT_CONFIG.TOKEN_EXPIRY,
           user,
-          mfaRequired: false
+          mfaRequired: false,
+          mfaSetupRequired
         },
         message: 'Token refreshed successfully',
         errors: [],
@@ -240,6 +282,71 @@ export class AuthService {
     }
   }
 
+  /**
+   * Issues tokens for a new session after a successful login
+   * @param user Authenticated user
+   * @param mfaVerified Whether a second factor or passkey was used
+   * @param context Request details recorded with the session
+   * @returns Authentication response with tokens
+   */
+  private async createSession(
+    user: User,
+    mfaVerified: boolean,
+    context: AuthRequestContext
+  ): Promise<ApiResponse<AuthResponse>> {
+    // Accounts whose role enforces MFA get a token that only reaches enrollment
+    const mfaSetupRequired = await this.requiresMfaSetup(user, mfaVerified);
+
+    // Session IDs key the sessions table
+    const sessionId = randomUUID();
+    const tokens = await this.tokenService.generateTokenPair({
+      userId: user.id,
+      role: user.role,
+      sessionId,
+      mfaVerified,
+      mfaSetupRequired,
+      emailVerified: user.status !== UserStatus.PENDING_VERIFICATION
+    });
+
+    await this.sessionService.start(user.id, sessionId, tokens.refreshToken, context);
+
+    // Track security metrics
+    this.securityMetrics.trackLogin({
+      userId: user.id,
+      role: user.role,
+      mfaUsed: mfaVerified,
+      sessionId
+    });
+
+    return {
+      status: HTTP_STATUS.OK,
+      data: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: JWT_CONFIG.TOKEN_EXPIRY,
+        user,
+        mfaRequired: false,
+        mfaSetupRequired
+      },
+      message: 'Login successful',
+      errors: [],
+      timestamp: new Date(),
+      requestId: this.securityUtils.generateRequestId()
+    };
+  }
+
+  /**
+   * Whether a session must enroll an authenticator or passkey before using
+   * the API: its role enforces MFA and the account has neither
+   * @param user Session owner
+   * @param mfaVerified Whether a second factor or passkey was used
+   */
+  private async requiresMfaSetup(user: User, mfaVerified: boolean): Promise<boolean> {
+    return !mfaVerified && !user.mfaEnabled &&
+      config.mfa.enforceForRoles.includes(user.role) &&
+      !(await this.passkeyService.hasPasskeys(user.id));
+  }
+
   /**
    * Handles authentication errors with proper error responses
    * @param error Error object
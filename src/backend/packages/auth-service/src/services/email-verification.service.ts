@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Email verification for new accounts
+ * Accounts register as PENDING_VERIFICATION and become ACTIVE once the
+ * signed link sent to their address is opened
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis'; // v5.3.2
+import { AuthErrors, Logger } from '@projectx/common'; // v1.0.0
+import { User, UserStatus } from '@projectx/common/interfaces';
+import { NotificationClient } from '@projectx/common/clients';
+import { UserRepository } from '../repositories/user.repository';
+import { AuthAuditAction, AuthRequestContext } from '../types';
+import { logAuthAudit } from '../utils/audit.utils';
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  EmailVerificationPayload
+} from '../utils/jwt.utils';
+import { config } from '../config';
+
+/**
+ * Redis key prefix for accounts verified since their access token was issued,
+ * checked by the API gateway
+ */
+export const VERIFIED_EMAIL_KEY_PREFIX = 'email:verified:';
+
+const COOLDOWN_KEY_PREFIX = 'email-verification:cooldown:';
+const DAILY_SENDS_KEY_PREFIX = 'email-verification:sends:';
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Access tokens issued before verification say so until they expire (JWT_CONFIG.TOKEN_EXPIRY)
+const ACCESS_TOKEN_LIFETIME = 24 * 60 * 60;
+
+/**
+ * Sends verification links and activates accounts that open them. Sends are
+ * limited to one per `resendCooldown` seconds and `maxSendsPerDay` per day.
+ */
+export class EmailVerificationService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly notificationClient: NotificationClient,
+    private readonly redis: Redis,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Emails a verification link to the account's address
+   * @param user Account awaiting verification
+   */
+  public async sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'profile'>): Promise<void> {
+    await this.claimSend(user.id);
+
+    const token = await generateEmailVerificationToken(user);
+    const link = `${config.emailVerification.verifyUrl}?token=${encodeURIComponent(token)}`;
+
+    await this.notificationClient.notify({
+      userId: user.id,
+      toEmail: user.email,
+      templateId: 'email-verification',
+      subject: 'Verify your email address',
+      body: `Confirm this is your email address by opening ${link}. ` +
+        `The link expires in ${Math.round(config.emailVerification.tokenTtl / 3600)} hours.`,
+      data: {
+        firstName: user.profile?.firstName,
+        link,
+        expiresInHours: Math.round(config.emailVerification.tokenTtl / 3600)
+      }
+    });
+  }
+
+  /**
+   * Sends a new verification link
+   * @param userId User ID
+   */
+  public async resend(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AuthErrors.UserNotFoundError('User not found or inactive');
+    }
+
+    if (user.status !== UserStatus.PENDING_VERIFICATION) {
+      throw new AuthErrors.ConflictError('Email address is already verified');
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Activates the account named in a verification link. Opening a link for
+   * an account that is already verified succeeds without changes.
+   * @param token Token from the link
+   * @param context Request details for the audit log
+   */
+  public async verify(token: string, context: AuthRequestContext): Promise<void> {
+    let claims: EmailVerificationPayload;
+    try {
+      claims = await verifyEmailVerificationToken(token);
+    } catch (error) {
+      throw new AuthErrors.InvalidTokenError((error as Error).message);
+    }
+
+    const user = await this.userRepository.findById(claims.sub);
+    if (!user) {
+      throw new AuthErrors.InvalidTokenError('Invalid verification link');
+    }
+
+    if (user.status !== UserStatus.PENDING_VERIFICATION) {
+      return;
+    }
+
+    // Fails when the address changed after the link was sent
+    if (!(await this.userRepository.markEmailVerified(user.id, claims.email))) {
+      throw new AuthErrors.InvalidTokenError('Invalid verification link');
+    }
+
+    await this.redis.set(`${VERIFIED_EMAIL_KEY_PREFIX}${user.id}`, '1', 'EX', ACCESS_TOKEN_LIFETIME);
+    logAuthAudit(this.logger, AuthAuditAction.EMAIL_VERIFIED, user.id, context);
+  }
+
+  /**
+   * Counts a send against the cooldown and the daily limit
+   */
+  private async claimSend(userId: string): Promise<void> {
+    const claimed = await this.redis.set(
+      `${COOLDOWN_KEY_PREFIX}${userId}`,
+      '1',
+      'EX',
+      config.emailVerification.resendCooldown,
+      'NX'
+    );
+    if (!claimed) {
+      throw new AuthErrors.RateLimitError('Please wait a minute before requesting another email');
+    }
+
+    const sends = await this.redis.incr(`${DAILY_SENDS_KEY_PREFIX}${userId}`);
+    if (sends === 1) {
+      await this.redis.expire(`${DAILY_SENDS_KEY_PREFIX}${userId}`, DAY_SECONDS);
+    }
+    if (sends > config.emailVerification.maxSendsPerDay) {
+      throw new AuthErrors.RateLimitError('Too many verification emails requested today, try again tomorrow');
+    }
+  }
+}
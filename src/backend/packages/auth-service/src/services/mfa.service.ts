@@ -0,0 +1,191 @@
+/**
+ * @fileoverview MFA lifecycle service: TOTP enrollment, backup codes and disabling
+ * @version 1.0.0
+ */
+
+import { AuthErrors, Logger } from '@projectx/common'; // v1.0.0
+import { UserRepository } from '../repositories/user.repository';
+import { PasskeyRepository } from '../repositories/passkey.repository';
+import { UserDocument } from '../models/user.model';
+import {
+  AuthAuditAction,
+  AuthRequestContext,
+  MfaEnrollment,
+  MfaStatus,
+  MfaVerification
+} from '../types';
+import {
+  buildOtpauthUrl,
+  generateBackupCodes,
+  generateMfaSecret,
+  hashBackupCode,
+  renderQrCode,
+  verifyMfaToken
+} from '../utils/mfa.utils';
+import { logAuthAudit } from '../utils/audit.utils';
+import { config } from '../config';
+
+/**
+ * Manages a user's TOTP authenticator and backup codes after registration
+ */
+export class MfaService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passkeyRepository: PasskeyRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Returns the user's MFA state
+   * @param userId User ID
+   */
+  public async getStatus(userId: string): Promise<MfaStatus> {
+    const user = await this.getUser(userId);
+
+    return {
+      enabled: user.mfaEnabled,
+      required: await this.isRequired(user),
+      backupCodesRemaining: user.mfaEnabled ? user.backupCodes?.length ?? 0 : 0
+    };
+  }
+
+  /**
+   * Starts enrollment with a new secret. Nothing changes for login until the
+   * first code is confirmed; starting again replaces the pending secret.
+   * @param userId User ID
+   * @returns Secret, otpauth URI and QR code for the authenticator app
+   */
+  public async startEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new AuthErrors.ConflictError('MFA is already enabled');
+    }
+
+    const secret = generateMfaSecret();
+    await this.userRepository.savePendingMfaSecret(userId, secret);
+
+    const otpauthUrl = buildOtpauthUrl(user.email, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await renderQrCode(otpauthUrl)
+    };
+  }
+
+  /**
+   * Enables MFA once the first code from the authenticator checks out
+   * @param userId User ID
+   * @param mfaToken Code from the authenticator app
+   * @param context Request details for the audit log
+   * @returns Backup codes, shown to the user only this once
+   */
+  public async confirmEnrollment(
+    userId: string,
+    mfaToken: string,
+    context: AuthRequestContext
+  ): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new AuthErrors.ConflictError('MFA is already enabled');
+    }
+    if (!user.mfaPendingSecret) {
+      throw new AuthErrors.ValidationError('No MFA enrollment in progress');
+    }
+    if (!verifyMfaToken(user.mfaPendingSecret, mfaToken)) {
+      throw new AuthErrors.InvalidCredentialsError('Invalid MFA code');
+    }
+
+    const backupCodes = generateBackupCodes();
+    const enabled = await this.userRepository.enableMfa(
+      userId,
+      user.mfaPendingSecret,
+      backupCodes.map(hashBackupCode)
+    );
+    if (!enabled) {
+      throw new AuthErrors.ConflictError('MFA enrollment was restarted, scan the new code');
+    }
+
+    this.audit(AuthAuditAction.MFA_ENABLED, userId, context);
+
+    return backupCodes;
+  }
+
+  /**
+   * Replaces the user's backup codes with a new set
+   * @param userId User ID
+   * @param mfaToken Code from the authenticator app
+   * @returns New backup codes
+   */
+  public async regenerateBackupCodes(userId: string, mfaToken: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new AuthErrors.ValidationError('MFA is not enabled');
+    }
+    if (!verifyMfaToken(user.mfaSecret, mfaToken)) {
+      throw new AuthErrors.InvalidCredentialsError('Invalid MFA code');
+    }
+
+    const backupCodes = generateBackupCodes();
+    await this.userRepository.replaceBackupCodes(userId, backupCodes.map(hashBackupCode));
+
+    this.logger.info('MFA backup codes regenerated', { userId });
+
+    return backupCodes;
+  }
+
+  /**
+   * Disables MFA after re-checking the password and a second factor. Roles
+   * in `mfa.enforceForRoles` can't turn it off unless they have a passkey.
+   * @param userId User ID
+   * @param password Current password
+   * @param verification Authenticator code or backup code
+   * @param context Request details for the audit log
+   */
+  public async disable(
+    userId: string,
+    password: string,
+    verification: MfaVerification,
+    context: AuthRequestContext
+  ): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new AuthErrors.ValidationError('MFA is not enabled');
+    }
+    if (await this.isRequired(user)) {
+      throw new AuthErrors.ValidationError('MFA is required for your role');
+    }
+    if (!(await user.comparePassword(password))) {
+      throw new AuthErrors.InvalidCredentialsError('Invalid password');
+    }
+
+    const verified = verification.mfaToken
+      ? verifyMfaToken(user.mfaSecret, verification.mfaToken)
+      : !!verification.backupCode && await this.userRepository.consumeBackupCode(userId, verification.backupCode);
+    if (!verified) {
+      throw new AuthErrors.InvalidCredentialsError('Invalid MFA code');
+    }
+
+    await this.userRepository.disableMfa(userId);
+
+    this.audit(AuthAuditAction.MFA_DISABLED, userId, context);
+  }
+
+  private async getUser(userId: string): Promise<UserDocument> {
+    const user = await this.userRepository.findByIdWithMfa(userId);
+    if (!user || !user.isActive) {
+      throw new AuthErrors.UserNotFoundError('User not found or inactive');
+    }
+    return user;
+  }
+
+  // A passkey satisfies the MFA requirement on its own
+  private async isRequired(user: UserDocument): Promise<boolean> {
+    return config.mfa.enforceForRoles.includes(user.role) &&
+      await this.passkeyRepository.countByUser(user.id) === 0;
+  }
+
+  private audit(action: AuthAuditAction, userId: string, context: AuthRequestContext): void {
+    logAuthAudit(this.logger, action, userId, context);
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview Passkey service implementing WebAuthn registration and sign-in
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis'; // v5.3.2
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server'; // v9.0.3
+import { isoBase64URL } from '@simplewebauthn/server/helpers'; // v9.0.3
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON
+} from '@simplewebauthn/types'; // v9.0.1
+import { AuthErrors, Logger } from '@projectx/common'; // v1.0.0
+import { PasskeyRepository } from '../repositories/passkey.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { AuthAuditAction, AuthRequestContext, PasskeyCredential } from '../types';
+import { logAuthAudit } from '../utils/audit.utils';
+import { config } from '../config';
+
+/**
+ * Passkey details shown in account settings
+ */
+export type PasskeySummary = Pick<
+  PasskeyCredential,
+  'id' | 'name' | 'deviceType' | 'backedUp' | 'lastUsedAt' | 'createdAt'
+>;
+
+type ChallengePurpose = 'registration' | 'authentication';
+
+interface StoredChallenge {
+  purpose: ChallengePurpose;
+  userId?: string;
+}
+
+const CHALLENGE_KEY_PREFIX = 'webauthn:challenge:';
+
+/**
+ * Registers passkeys and verifies passkey sign-ins. Challenges live in Redis
+ * for `webauthn.challengeTtl` seconds and are used at most once.
+ */
+export class PasskeyService {
+  constructor(
+    private readonly passkeyRepository: PasskeyRepository,
+    private readonly userRepository: UserRepository,
+    private readonly redis: Redis,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Lists the user's passkeys
+   * @param userId User ID
+   */
+  public async listPasskeys(userId: string): Promise<PasskeySummary[]> {
+    const passkeys = await this.passkeyRepository.findByUser(userId);
+
+    return passkeys.map(({ id, name, deviceType, backedUp, lastUsedAt, createdAt }) => ({
+      id, name, deviceType, backedUp, lastUsedAt, createdAt
+    }));
+  }
+
+  /**
+   * Whether the user has registered any passkey
+   * @param userId User ID
+   */
+  public async hasPasskeys(userId: string): Promise<boolean> {
+    return await this.passkeyRepository.countByUser(userId) > 0;
+  }
+
+  /**
+   * Creates options for registering a new passkey. Passkeys are discoverable
+   * so they can sign in without an email address.
+   * @param userId User ID
+   */
+  public async getRegistrationOptions(userId: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.isActive) {
+      throw new AuthErrors.UserNotFoundError('User not found or inactive');
+    }
+
+    const existing = await this.passkeyRepository.findByUser(userId);
+
+    const options = await generateRegistrationOptions({
+      rpName: config.webauthn.rpName,
+      rpID: config.webauthn.rpId,
+      userID: userId,
+      userName: user.email,
+      attestationType: 'none',
+      excludeCredentials: existing.map((passkey) => ({
+        id: isoBase64URL.toBuffer(passkey.credentialId),
+        type: 'public-key',
+        transports: passkey.transports as AuthenticatorTransportFuture[]
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: config.webauthn.userVerification
+      }
+    });
+
+    await this.saveChallenge(options.challenge, { purpose: 'registration', userId });
+
+    return options;
+  }
+
+  /**
+   * Verifies the browser's registration response and stores the passkey
+   * @param userId User ID
+   * @param response Response from `navigator.credentials.create`
+   * @param name Label for the passkey
+   * @param context Request details for the audit log
+   */
+  public async register(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name: string | undefined,
+    context: AuthRequestContext
+  ): Promise<PasskeySummary> {
+    const challenge = await this.takeChallenge(response.response.clientDataJSON, 'registration');
+    if (!challenge || challenge.userId !== userId) {
+      throw new AuthErrors.InvalidTokenError('Passkey request expired, please try again');
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        requireUserVerification: config.webauthn.userVerification === 'required'
+      });
+    } catch (error) {
+      this.logger.warn('Passkey registration rejected', { userId, error: (error as Error).message });
+      throw new AuthErrors.ValidationError('Passkey could not be verified');
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      throw new AuthErrors.ValidationError('Passkey could not be verified');
+    }
+
+    const {
+      credentialID,
+      credentialPublicKey,
+      counter,
+      credentialDeviceType,
+      credentialBackedUp
+    } = verification.registrationInfo;
+
+    const passkey = await this.passkeyRepository.create({
+      userId,
+      credentialId: isoBase64URL.fromBuffer(credentialID),
+      publicKey: Buffer.from(credentialPublicKey),
+      counter,
+      transports: response.response.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name: name?.trim() || null
+    });
+
+    logAuthAudit(this.logger, AuthAuditAction.PASSKEY_ADDED, userId, context);
+
+    const { id, deviceType, backedUp, lastUsedAt, createdAt } = passkey;
+    return { id, name: passkey.name, deviceType, backedUp, lastUsedAt, createdAt };
+  }
+
+  /**
+   * Removes a passkey. The last one can't be removed from an account whose
+   * role requires MFA and that has no authenticator app.
+   * @param userId User ID
+   * @param passkeyId Passkey ID
+   * @param context Request details for the audit log
+   */
+  public async removePasskey(userId: string, passkeyId: string, context: AuthRequestContext): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.isActive) {
+      throw new AuthErrors.UserNotFoundError('User not found or inactive');
+    }
+
+    const passkeys = await this.passkeyRepository.findByUser(userId);
+    if (!passkeys.some((passkey) => passkey.id === passkeyId)) {
+      throw new AuthErrors.NotFoundError('Passkey not found');
+    }
+
+    if (passkeys.length === 1 && !user.mfaEnabled && config.mfa.enforceForRoles.includes(user.role)) {
+      throw new AuthErrors.ValidationError('MFA is required for your role, set up an authenticator app first');
+    }
+
+    if (!(await this.passkeyRepository.delete(passkeyId, userId))) {
+      throw new AuthErrors.NotFoundError('Passkey not found');
+    }
+
+    logAuthAudit(this.logger, AuthAuditAction.PASSKEY_REMOVED, userId, context);
+  }
+
+  /**
+   * Creates options for signing in with any passkey for this site
+   */
+  public async getAuthenticationOptions(): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const options = await generateAuthenticationOptions({
+      rpID: config.webauthn.rpId,
+      userVerification: config.webauthn.userVerification
+    });
+
+    await this.saveChallenge(options.challenge, { purpose: 'authentication' });
+
+    return options;
+  }
+
+  /**
+   * Verifies a passkey sign-in
+   * @param response Response from `navigator.credentials.get`
+   * @returns ID of the user who signed in
+   */
+  public async authenticate(response: AuthenticationResponseJSON): Promise<string> {
+    const challenge = await this.takeChallenge(response.response.clientDataJSON, 'authentication');
+    if (!challenge) {
+      throw new AuthErrors.InvalidTokenError('Passkey request expired, please try again');
+    }
+
+    const passkey = await this.passkeyRepository.findByCredentialId(response.id);
+    if (!passkey) {
+      throw new AuthErrors.InvalidCredentialsError('Passkey not recognized');
+    }
+
+    // Discoverable credentials name their account; it has to be the owner's
+    const { userHandle } = response.response;
+    if (userHandle && isoBase64URL.toString(userHandle) !== passkey.userId) {
+      throw new AuthErrors.InvalidCredentialsError('Passkey not recognized');
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge.challenge,
+        expectedOrigin: config.webauthn.origins,
+        expectedRPID: config.webauthn.rpId,
+        authenticator: {
+          credentialID: isoBase64URL.toBuffer(passkey.credentialId),
+          credentialPublicKey: new Uint8Array(passkey.publicKey),
+          counter: passkey.counter,
+          transports: passkey.transports as AuthenticatorTransportFuture[]
+        },
+        requireUserVerification: config.webauthn.userVerification === 'required'
+      });
+    } catch (error) {
+      this.logger.warn('Passkey sign-in rejected', { passkeyId: passkey.id, error: (error as Error).message });
+      throw new AuthErrors.InvalidCredentialsError('Passkey could not be verified');
+    }
+
+    if (!verification.verified) {
+      throw new AuthErrors.InvalidCredentialsError('Passkey could not be verified');
+    }
+
+    await this.passkeyRepository.recordUse(
+      passkey.id,
+      verification.authenticationInfo.newCounter,
+      verification.authenticationInfo.credentialBackedUp
+    );
+
+    return passkey.userId;
+  }
+
+  private async saveChallenge(challenge: string, data: StoredChallenge): Promise<void> {
+    await this.redis.set(
+      `${CHALLENGE_KEY_PREFIX}${challenge}`,
+      JSON.stringify(data),
+      'EX',
+      config.webauthn.challengeTtl
+    );
+  }
+
+  // Reads the challenge the browser signed and claims it, so each is used once
+  private async takeChallenge(
+    clientDataJSON: string,
+    purpose: ChallengePurpose
+  ): Promise<(StoredChallenge & { challenge: string }) | null> {
+    let challenge: string;
+    try {
+      challenge = JSON.parse(isoBase64URL.toString(clientDataJSON)).challenge;
+    } catch {
+      return null;
+    }
+    if (typeof challenge !== 'string') {
+      return null;
+    }
+
+    const stored = await this.redis.getdel(`${CHALLENGE_KEY_PREFIX}${challenge}`);
+    if (!stored) {
+      return null;
+    }
+
+    const data: StoredChallenge = JSON.parse(stored);
+    return data.purpose === purpose ? { ...data, challenge } : null;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Session service tracking where users are signed in
+ * Revoked sessions are published to Redis so the API gateway rejects their
+ * access tokens before they expire
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import Redis from 'ioredis'; // v5.3.2
+import UAParser from 'ua-parser-js'; // v1.0.37
+import { AuthErrors, Logger } from '@projectx/common'; // v1.0.0
+import { SessionRepository } from '../repositories/session.repository';
+import { AuthAuditAction, AuthRequestContext, AuthSession, SessionDeviceInfo } from '../types';
+import { logAuthAudit } from '../utils/audit.utils';
+import { config } from '../config';
+
+/**
+ * Session details shown in account settings
+ */
+export type SessionSummary = Omit<AuthSession, 'userId' | 'expiresAt'> & {
+  /** Whether this is the session making the request */
+  readonly current: boolean;
+};
+
+/**
+ * Redis key prefix for revoked session IDs, checked by the API gateway
+ */
+export const REVOKED_SESSION_KEY_PREFIX = 'session:revoked:';
+
+/**
+ * Records sessions at login and refresh, and revokes them on logout, from
+ * another device or when a rotated refresh token is replayed
+ */
+export class SessionService {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly redis: Redis,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Records a new session after a login
+   * @param userId User ID
+   * @param sessionId Session ID carried in the tokens
+   * @param refreshToken Refresh token issued for the session
+   * @param context Request details
+   */
+  public async start(
+    userId: string,
+    sessionId: string,
+    refreshToken: string,
+    context: AuthRequestContext
+  ): Promise<void> {
+    await this.sessionRepository.create({
+      id: sessionId,
+      userId,
+      deviceInfo: this.parseDevice(context.userAgent),
+      ipAddress: context.ipAddress || null,
+      expiresAt: new Date(Date.now() + config.session.ttl * 1000)
+    }, this.hashToken(refreshToken));
+  }
+
+  /**
+   * Rotates the session's refresh token. Each session is a refresh-token
+   * family: only its latest token is accepted, and presenting an older one
+   * means the token was copied, so the whole session is revoked.
+   * @param userId User ID
+   * @param sessionId Session ID from the refresh token
+   * @param presentedToken Refresh token sent by the client
+   * @param nextToken Refresh token replacing it
+   * @param context Request details
+   * @throws InvalidTokenError if the session is gone or the token was reused
+   */
+  public async rotate(
+    userId: string,
+    sessionId: string,
+    presentedToken: string,
+    nextToken: string,
+    context: AuthRequestContext
+  ): Promise<void> {
+    const rotated = await this.sessionRepository.rotateToken(
+      sessionId,
+      userId,
+      this.hashToken(presentedToken),
+      this.hashToken(nextToken),
+      context.ipAddress || null
+    );
+    if (rotated) {
+      return;
+    }
+
+    const session = await this.sessionRepository.findActiveById(sessionId, userId);
+    if (!session) {
+      throw new AuthErrors.InvalidTokenError('Session has been signed out');
+    }
+
+    // Revoke before answering so neither holder of the token can continue
+    const revoked = await this.sessionRepository.delete(sessionId, userId);
+    if (revoked) {
+      await this.markRevoked([revoked]);
+    }
+
+    logAuthAudit(this.logger, AuthAuditAction.REFRESH_TOKEN_REUSED, userId, context);
+    this.logger.warn('Refresh token reuse detected, session revoked', { userId, sessionId });
+
+    throw new AuthErrors.InvalidTokenError('Refresh token has already been used');
+  }
+
+  /**
+   * Lists where the user is signed in
+   * @param userId User ID
+   * @param currentSessionId Session making the request
+   */
+  public async listSessions(userId: string, currentSessionId: string): Promise<SessionSummary[]> {
+    const sessions = await this.sessionRepository.findActiveByUser(userId);
+
+    return sessions.map(({ id, deviceInfo, ipAddress, createdAt, lastUsedAt }) => ({
+      id, deviceInfo, ipAddress, createdAt, lastUsedAt, current: id === currentSessionId
+    }));
+  }
+
+  /**
+   * Signs a session out
+   * @param userId User ID
+   * @param sessionId Session to revoke
+   * @param context Request details for the audit log
+   */
+  public async revokeSession(userId: string, sessionId: string, context: AuthRequestContext): Promise<void> {
+    const session = await this.sessionRepository.delete(sessionId, userId);
+    if (!session) {
+      throw new AuthErrors.NotFoundError('Session not found');
+    }
+
+    await this.markRevoked([session]);
+    logAuthAudit(this.logger, AuthAuditAction.SESSION_REVOKED, userId, context);
+  }
+
+  /**
+   * Signs out every session except the one making the request
+   * @param userId User ID
+   * @param currentSessionId Session to keep
+   * @param context Request details for the audit log
+   * @returns Number of sessions revoked
+   */
+  public async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+    context: AuthRequestContext
+  ): Promise<number> {
+    const sessions = await this.sessionRepository.deleteOthers(userId, currentSessionId);
+
+    if (sessions.length > 0) {
+      await this.markRevoked(sessions);
+      logAuthAudit(this.logger, AuthAuditAction.SESSION_REVOKED, userId, context);
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Ends the current session on logout. Logging out of a session that was
+   * already revoked is not an error.
+   * @param userId User ID
+   * @param sessionId Current session
+   * @param context Request details for the audit log
+   */
+  public async endSession(userId: string, sessionId: string, context: AuthRequestContext): Promise<void> {
+    const session = await this.sessionRepository.delete(sessionId, userId);
+    if (session) {
+      await this.markRevoked([session]);
+    }
+
+    logAuthAudit(this.logger, AuthAuditAction.LOGOUT, userId, context);
+  }
+
+  /**
+   * Adds sessions to the revocation list until their tokens could no longer
+   * be used anyway
+   */
+  private async markRevoked(sessions: AuthSession[]): Promise<void> {
+    const pipeline = this.redis.pipeline();
+
+    for (const session of sessions) {
+      const ttl = Math.ceil((new Date(session.expiresAt).getTime() - Date.now()) / 1000);
+      if (ttl > 0) {
+        pipeline.set(`${REVOKED_SESSION_KEY_PREFIX}${session.id}`, '1', 'EX', ttl);
+      }
+    }
+
+    await pipeline.exec();
+  }
+
+  private parseDevice(userAgent: string): SessionDeviceInfo {
+    const { browser, os, device } = new UAParser(userAgent).getResult();
+
+    return {
+      browser: browser.name ? [browser.name, browser.major].filter(Boolean).join(' ') : undefined,
+      os: os.name ? [os.name, os.version].filter(Boolean).join(' ') : undefined,
+      deviceType: device.type
+    };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -84,6 +84,8 @@ export interface JWTCustomPayload extends JwtPayload {
   readonly sessionId: string;
   /** Whether MFA has been verified for this session */
   readonly mfaVerified: boolean;
+  /** Whether the session is limited to enrolling MFA or a passkey */
+  readonly mfaSetupRequired?: boolean;
 }
 
 /**
@@ -119,6 +121,11 @@ export enum AuthAuditAction {
   PASSWORD_RESET_COMPLETE = 'PASSWORD_RESET_COMPLETE',
   MFA_ENABLED = 'MFA_ENABLED',
   MFA_DISABLED = 'MFA_DISABLED',
+  PASSKEY_ADDED = 'PASSKEY_ADDED',
+  PASSKEY_REMOVED = 'PASSKEY_REMOVED',
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED',
+  EMAIL_VERIFIED = 'EMAIL_VERIFIED',
   ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
   ACCOUNT_UNLOCKED = 'ACCOUNT_UNLOCKED'
 }
@@ -137,4 +144,104 @@ export interface AuthAuditLog {
   readonly ipAddress: string;
   /** User agent string from the request */
   readonly userAgent: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Request details recorded with audit events
+ */
+export type AuthRequestContext = Pick<AuthAuditLog, 'ipAddress' | 'userAgent'>;
+
+/**
+ * MFA state of an account as shown in account settings
+ */
+export interface MfaStatus {
+  /** Whether MFA is enabled */
+  readonly enabled: boolean;
+  /** Whether the user's role requires MFA, in which case it can't be disabled */
+  readonly required: boolean;
+  /** Unused backup codes left */
+  readonly backupCodesRemaining: number;
+}
+
+/**
+ * Authenticator details for an enrollment awaiting its first code
+ */
+export interface MfaEnrollment {
+  /** Base32 secret for manual entry */
+  readonly secret: string;
+  /** otpauth URI encoded in the QR code */
+  readonly otpauthUrl: string;
+  /** QR code as a PNG data URL */
+  readonly qrCode: string;
+}
+
+/**
+ * Second factor proving possession of the authenticator or a backup code
+ */
+export interface MfaVerification {
+  /** Current TOTP code */
+  readonly mfaToken?: string;
+  /** Unused backup code */
+  readonly backupCode?: string;
+}
+
+/**
+ * Passkey registered to an account, stored in `webauthn_credentials`
+ */
+export interface PasskeyCredential {
+  /** Row ID */
+  readonly id: string;
+  /** Owning user ID */
+  readonly userId: string;
+  /** Base64url credential ID from the authenticator */
+  readonly credentialId: string;
+  /** COSE-encoded public key */
+  readonly publicKey: Buffer;
+  /** Last signature counter seen */
+  readonly counter: number;
+  /** How the browser can reach the authenticator (usb, internal, hybrid...) */
+  readonly transports: string[];
+  /** Whether the passkey syncs across devices */
+  readonly deviceType: 'singleDevice' | 'multiDevice';
+  /** Whether the passkey is currently backed up */
+  readonly backedUp: boolean;
+  /** Label chosen by the user */
+  readonly name: string | null;
+  /** Last sign-in with this passkey */
+  readonly lastUsedAt: Date | null;
+  /** Registration time */
+  readonly createdAt: Date;
+}
+
+/**
+ * Device details parsed from the user agent when a session starts
+ */
+export interface SessionDeviceInfo {
+  /** Browser name and major version */
+  readonly browser?: string;
+  /** Operating system name and version */
+  readonly os?: string;
+  /** mobile, tablet, etc.; absent for desktops */
+  readonly deviceType?: string;
+}
+
+/**
+ * Signed-in session, stored in `sessions`. One row per login; refreshes
+ * keep the same session.
+ */
+export interface AuthSession {
+  /** Session ID carried in the tokens as `sessionId` */
+  readonly id: string;
+  /** Owning user ID */
+  readonly userId: string;
+  /** Device the session was started on */
+  readonly deviceInfo: SessionDeviceInfo;
+  /** IP address of the last login or refresh */
+  readonly ipAddress: string | null;
+  /** Login time */
+  readonly createdAt: Date;
+  /** Last login or token refresh */
+  readonly lastUsedAt: Date;
+  /** When the refresh token stops working */
+  readonly expiresAt: Date;
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Authentication audit logging
+ * @version 1.0.0
+ */
+
+import { Logger } from '@projectx/common'; // v1.0.0
+import { AuthAuditAction, AuthAuditLog, AuthRequestContext } from '../types';
+
+/**
+ * Writes an authentication audit event to the service log
+ * @param logger - Service logger
+ * @param action - Audited action
+ * @param userId - Account the action applies to
+ * @param context - Request details
+ */
+export function logAuthAudit(
+  logger: Logger,
+  action: AuthAuditAction,
+  userId: string,
+  context: AuthRequestContext
+): void {
+  const entry: AuthAuditLog = {
+    userId,
+    action,
+    timestamp: new Date(),
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent
+  };
+
+  logger.info('Auth audit event', entry);
+}
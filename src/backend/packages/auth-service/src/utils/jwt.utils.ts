@@ -38,6 +38,12 @@ export interface TokenPayload {
   role: UserRole;
   /** Token version for revocation */
   tokenVersion: string;
+  /** Session the token was issued for; revoked sessions are rejected */
+  sessionId?: string;
+  /** Whether the account's email address was verified when the token was issued */
+  emailVerified?: boolean;
+  /** Set while the role enforces MFA and the account has no second factor; only enrollment accepts the token */
+  mfaSetupRequired?: boolean;
 }
 
 /**
@@ -152,6 +158,65 @@ export const verifyToken = async (token: string): Promise<TokenPayload> => {
   }
 };
 
+/**
+ * Claims of an email verification link token
+ */
+export interface EmailVerificationPayload {
+  /** Subject (user ID) */
+  sub: string;
+  /** Address the link was sent to */
+  email: string;
+}
+
+// Separate audience so verification links can't be used as access tokens
+const EMAIL_VERIFICATION_AUDIENCE = 'project-x-email-verification';
+
+/**
+ * Signs the token embedded in an email verification link
+ * @param user - User whose address is being verified
+ * @returns Promise resolving to the signed token, valid for `emailVerification.tokenTtl` seconds
+ */
+export const generateEmailVerificationToken = async (user: Pick<User, 'id' | 'email'>): Promise<string> => {
+  const payload: EmailVerificationPayload = { sub: user.id, email: user.email };
+
+  return sign(payload, config.jwt.privateKey, {
+    algorithm: 'RS256',
+    keyid: 'current',
+    issuer: config.jwt.issuer,
+    audience: EMAIL_VERIFICATION_AUDIENCE,
+    expiresIn: config.emailVerification.tokenTtl,
+    jwtid: randomBytes(16).toString('hex')
+  });
+};
+
+/**
+ * Verifies the token from an email verification link
+ * @param token - Token from the link
+ * @returns Promise resolving to the verified claims
+ * @throws Error if the token is invalid or has expired
+ */
+export const verifyEmailVerificationToken = async (token: string): Promise<EmailVerificationPayload> => {
+  try {
+    const decoded = verify(token, config.jwt.publicKey, {
+      algorithms: ['RS256'],
+      issuer: config.jwt.issuer,
+      audience: EMAIL_VERIFICATION_AUDIENCE
+    }) as EmailVerificationPayload;
+
+    if (!decoded.sub || !decoded.email) {
+      throw new JsonWebTokenError('Invalid token claims');
+    }
+
+    return decoded;
+  } catch (error) {
+    if (error instanceof TokenExpiredError) {
+      throw new Error('Verification link has expired');
+    }
+    logger.warn('Email verification token rejected', { error });
+    throw new Error('Invalid verification link');
+  }
+};
+
 /**
  * Securely extracts and validates JWT token from Authorization header
  * @param authHeader - Authorization header string
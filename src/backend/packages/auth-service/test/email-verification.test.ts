@@ -0,0 +1,139 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import Redis from 'ioredis';
+import { Logger } from '@projectx/common';
+import { UserStatus } from '@projectx/common/interfaces';
+import { NotificationClient } from '@projectx/common/clients';
+import {
+  EmailVerificationService,
+  VERIFIED_EMAIL_KEY_PREFIX
+} from '../src/services/email-verification.service';
+import { UserRepository } from '../src/repositories/user.repository';
+import { AuthAuditAction } from '../src/types';
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken
+} from '../src/utils/jwt.utils';
+import { config } from '../src/config';
+
+jest.mock('../src/utils/jwt.utils', () => ({
+  generateEmailVerificationToken: jest.fn(),
+  verifyEmailVerificationToken: jest.fn()
+}));
+
+const CONTEXT = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+const createUser = (overrides: Record<string, unknown> = {}) => ({
+  id: 'user-1',
+  email: 'tenant@example.com',
+  status: UserStatus.PENDING_VERIFICATION,
+  profile: { firstName: 'Ada' },
+  ...overrides
+}) as any;
+
+describe('EmailVerificationService', () => {
+  let users: MockProxy<UserRepository>;
+  let notifications: MockProxy<NotificationClient>;
+  let redis: MockProxy<Redis>;
+  let logger: MockProxy<Logger>;
+  let service: EmailVerificationService;
+
+  beforeEach(() => {
+    users = mock<UserRepository>();
+    notifications = mock<NotificationClient>();
+    redis = mock<Redis>();
+    logger = mock<Logger>();
+    service = new EmailVerificationService(users, notifications, redis, logger);
+
+    redis.set.mockResolvedValue('OK');
+    redis.incr.mockResolvedValue(1);
+    (generateEmailVerificationToken as jest.Mock).mockResolvedValue('signed.token');
+  });
+
+  describe('Sending', () => {
+    it('should email a link carrying the signed token', async () => {
+      await service.sendVerificationEmail(createUser());
+
+      expect(notifications.notify).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        toEmail: 'tenant@example.com',
+        templateId: 'email-verification',
+        data: expect.objectContaining({
+          link: `${config.emailVerification.verifyUrl}?token=signed.token`
+        })
+      }));
+    });
+
+    it('should refuse a resend inside the cooldown', async () => {
+      users.findById.mockResolvedValue(createUser());
+      redis.set.mockResolvedValue(null);
+
+      await expect(service.resend('user-1')).rejects.toThrow(/wait/i);
+      expect(notifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a resend past the daily limit', async () => {
+      users.findById.mockResolvedValue(createUser());
+      redis.incr.mockResolvedValue(config.emailVerification.maxSendsPerDay + 1);
+
+      await expect(service.resend('user-1')).rejects.toThrow(/today/i);
+      expect(notifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not resend to a verified address', async () => {
+      users.findById.mockResolvedValue(createUser({ status: UserStatus.ACTIVE }));
+
+      await expect(service.resend('user-1')).rejects.toThrow(/already verified/i);
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Verification', () => {
+    beforeEach(() => {
+      (verifyEmailVerificationToken as jest.Mock).mockResolvedValue({
+        sub: 'user-1',
+        email: 'tenant@example.com'
+      });
+    });
+
+    it('should activate the account and tell the gateway', async () => {
+      users.findById.mockResolvedValue(createUser());
+      users.markEmailVerified.mockResolvedValue(true);
+
+      await service.verify('signed.token', CONTEXT);
+
+      expect(users.markEmailVerified).toHaveBeenCalledWith('user-1', 'tenant@example.com');
+      expect(redis.set).toHaveBeenCalledWith(
+        `${VERIFIED_EMAIL_KEY_PREFIX}user-1`,
+        '1',
+        'EX',
+        expect.any(Number)
+      );
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        userId: 'user-1',
+        action: AuthAuditAction.EMAIL_VERIFIED
+      }));
+    });
+
+    it('should accept a link for an account that is already verified', async () => {
+      users.findById.mockResolvedValue(createUser({ status: UserStatus.ACTIVE }));
+
+      await expect(service.verify('signed.token', CONTEXT)).resolves.toBeUndefined();
+      expect(users.markEmailVerified).not.toHaveBeenCalled();
+    });
+
+    it('should reject a link sent before the address changed', async () => {
+      users.findById.mockResolvedValue(createUser({ email: 'new@example.com' }));
+      users.markEmailVerified.mockResolvedValue(false);
+
+      await expect(service.verify('signed.token', CONTEXT)).rejects.toThrow(/invalid verification link/i);
+      expect(redis.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired link', async () => {
+      (verifyEmailVerificationToken as jest.Mock).mockRejectedValue(new Error('Verification link has expired'));
+
+      await expect(service.verify('signed.token', CONTEXT)).rejects.toThrow(/expired/i);
+      expect(users.findById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import { authenticator } from 'otplib'; // v12.0.1
+import { HashAlgorithms } from '@otplib/core'; // v12.0.1
+import { Logger } from '@projectx/common';
+import { UserRole } from '@projectx/common/interfaces';
+import { MfaService } from '../src/services/mfa.service';
+import { UserRepository } from '../src/repositories/user.repository';
+import { PasskeyRepository } from '../src/repositories/passkey.repository';
+import { AuthAuditAction } from '../src/types';
+import { hashBackupCode } from '../src/utils/mfa.utils';
+import { config } from '../src/config';
+
+const CONTEXT = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+const SECRET = 'JBSWY3DPEHPK3PXP';
+
+const generateToken = (secret: string) => authenticator.clone({
+  digits: config.mfa.digits,
+  step: config.mfa.step,
+  algorithm: config.mfa.algorithm.toLowerCase() as HashAlgorithms
+}).generate(secret);
+
+const createUser = (overrides: Record<string, any> = {}): any => ({
+  id: 'user-1',
+  email: 'renter@example.com',
+  role: 'RENTER',
+  isActive: true,
+  mfaEnabled: false,
+  comparePassword: jest.fn().mockResolvedValue(true),
+  ...overrides
+});
+
+describe('MfaService', () => {
+  let repository: MockProxy<UserRepository>;
+  let passkeys: MockProxy<PasskeyRepository>;
+  let logger: MockProxy<Logger>;
+  let service: MfaService;
+
+  beforeEach(() => {
+    repository = mock<UserRepository>();
+    passkeys = mock<PasskeyRepository>();
+    passkeys.countByUser.mockResolvedValue(0);
+    logger = mock<Logger>();
+    service = new MfaService(repository, passkeys, logger);
+  });
+
+  describe('Enrollment', () => {
+    it('should store a pending secret and return an otpauth URI with QR code', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser());
+
+      const enrollment = await service.startEnrollment('user-1');
+
+      expect(repository.savePendingMfaSecret).toHaveBeenCalledWith('user-1', enrollment.secret);
+      expect(enrollment.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+      expect(enrollment.otpauthUrl).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.qrCode).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should not restart enrollment when MFA is already enabled', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({ mfaEnabled: true }));
+
+      await expect(service.startEnrollment('user-1')).rejects.toThrow(/already enabled/i);
+      expect(repository.savePendingMfaSecret).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong first code', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({ mfaPendingSecret: SECRET }));
+
+      await expect(service.confirmEnrollment('user-1', '000000', CONTEXT)).rejects.toThrow(/invalid mfa code/i);
+      expect(repository.enableMfa).not.toHaveBeenCalled();
+    });
+
+    it('should enable MFA with hashed backup codes and audit it', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({ mfaPendingSecret: SECRET }));
+      repository.enableMfa.mockResolvedValue(true);
+
+      const backupCodes = await service.confirmEnrollment('user-1', generateToken(SECRET), CONTEXT);
+
+      expect(backupCodes).toHaveLength(config.mfa.backupCodesCount);
+      expect(repository.enableMfa).toHaveBeenCalledWith('user-1', SECRET, backupCodes.map(hashBackupCode));
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        userId: 'user-1',
+        action: AuthAuditAction.MFA_ENABLED,
+        ipAddress: CONTEXT.ipAddress
+      }));
+    });
+  });
+
+  describe('Backup Codes', () => {
+    it('should match backup codes regardless of case and dashes', () => {
+      expect(hashBackupCode('3F9A1-C04BE')).toBe(hashBackupCode('3f9a1c04be'));
+    });
+
+    it('should require a valid code to regenerate backup codes', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({ mfaEnabled: true, mfaSecret: SECRET }));
+
+      await expect(service.regenerateBackupCodes('user-1', '000000')).rejects.toThrow(/invalid mfa code/i);
+
+      const backupCodes = await service.regenerateBackupCodes('user-1', generateToken(SECRET));
+      expect(repository.replaceBackupCodes).toHaveBeenCalledWith('user-1', backupCodes.map(hashBackupCode));
+    });
+  });
+
+  describe('Disabling', () => {
+    it('should disable MFA with the password and a backup code and audit it', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({ mfaEnabled: true, mfaSecret: SECRET }));
+      repository.consumeBackupCode.mockResolvedValue(true);
+
+      await service.disable('user-1', 'Test123!@#$', { backupCode: '3f9a1-c04be' }, CONTEXT);
+
+      expect(repository.consumeBackupCode).toHaveBeenCalledWith('user-1', '3f9a1-c04be');
+      expect(repository.disableMfa).toHaveBeenCalledWith('user-1');
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        action: AuthAuditAction.MFA_DISABLED
+      }));
+    });
+
+    it('should reject a wrong password', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({
+        mfaEnabled: true,
+        mfaSecret: SECRET,
+        comparePassword: jest.fn().mockResolvedValue(false)
+      }));
+
+      await expect(
+        service.disable('user-1', 'wrong', { mfaToken: generateToken(SECRET) }, CONTEXT)
+      ).rejects.toThrow(/invalid password/i);
+      expect(repository.disableMfa).not.toHaveBeenCalled();
+    });
+
+    it('should keep MFA on for roles that enforce it', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({
+        role: UserRole.ADMIN,
+        mfaEnabled: true,
+        mfaSecret: SECRET
+      }));
+
+      await expect(
+        service.disable('user-1', 'Test123!@#$', { mfaToken: generateToken(SECRET) }, CONTEXT)
+      ).rejects.toThrow(/required for your role/i);
+      expect(repository.disableMfa).not.toHaveBeenCalled();
+    });
+
+    it('should let roles that enforce MFA turn it off once they have a passkey', async () => {
+      repository.findByIdWithMfa.mockResolvedValue(createUser({
+        role: UserRole.ADMIN,
+        mfaEnabled: true,
+        mfaSecret: SECRET
+      }));
+      passkeys.countByUser.mockResolvedValue(1);
+
+      await service.disable('user-1', 'Test123!@#$', { mfaToken: generateToken(SECRET) }, CONTEXT);
+
+      expect(repository.disableMfa).toHaveBeenCalledWith('user-1');
+    });
+  });
+});
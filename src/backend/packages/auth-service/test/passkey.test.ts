@@ -0,0 +1,210 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import Redis from 'ioredis';
+import {
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import { Logger } from '@projectx/common';
+import { UserRole } from '@projectx/common/interfaces';
+import { PasskeyService } from '../src/services/passkey.service';
+import { PasskeyRepository } from '../src/repositories/passkey.repository';
+import { UserRepository } from '../src/repositories/user.repository';
+import { AuthAuditAction, PasskeyCredential } from '../src/types';
+import { config } from '../src/config';
+
+jest.mock('@simplewebauthn/server', () => ({
+  generateRegistrationOptions: jest.fn(),
+  generateAuthenticationOptions: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+  verifyAuthenticationResponse: jest.fn()
+}));
+
+const CONTEXT = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+const encode = (value: string) => Buffer.from(value).toString('base64url');
+
+const clientData = (challenge: string) => encode(JSON.stringify({ type: 'webauthn.get', challenge }));
+
+const createPasskey = (overrides: Partial<PasskeyCredential> = {}): PasskeyCredential => ({
+  id: '7f1c2a4e-0000-4000-8000-000000000001',
+  userId: 'user-1',
+  credentialId: encode('credential-1'),
+  publicKey: Buffer.from('public-key'),
+  counter: 4,
+  transports: ['internal'],
+  deviceType: 'multiDevice',
+  backedUp: true,
+  name: 'Laptop',
+  lastUsedAt: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const authenticationResponse = (challenge: string, userHandle = encode('user-1')): any => ({
+  id: encode('credential-1'),
+  rawId: encode('credential-1'),
+  type: 'public-key',
+  response: {
+    clientDataJSON: clientData(challenge),
+    authenticatorData: 'data',
+    signature: 'signature',
+    userHandle
+  },
+  clientExtensionResults: {}
+});
+
+describe('PasskeyService', () => {
+  let passkeys: MockProxy<PasskeyRepository>;
+  let users: MockProxy<UserRepository>;
+  let redis: MockProxy<Redis>;
+  let logger: MockProxy<Logger>;
+  let service: PasskeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    passkeys = mock<PasskeyRepository>();
+    users = mock<UserRepository>();
+    redis = mock<Redis>();
+    logger = mock<Logger>();
+    service = new PasskeyService(passkeys, users, redis, logger);
+
+    users.findById.mockResolvedValue({
+      id: 'user-1',
+      email: 'manager@example.com',
+      role: 'RENTER',
+      isActive: true,
+      mfaEnabled: false
+    } as any);
+  });
+
+  describe('Registration', () => {
+    it('should keep the challenge for the user and exclude existing passkeys', async () => {
+      passkeys.findByUser.mockResolvedValue([createPasskey()]);
+      (generateRegistrationOptions as jest.Mock).mockResolvedValue({ challenge: 'reg-challenge' });
+
+      await service.getRegistrationOptions('user-1');
+
+      expect(generateRegistrationOptions).toHaveBeenCalledWith(expect.objectContaining({
+        userID: 'user-1',
+        userName: 'manager@example.com',
+        excludeCredentials: [expect.objectContaining({ type: 'public-key', transports: ['internal'] })]
+      }));
+      expect(redis.set).toHaveBeenCalledWith(
+        'webauthn:challenge:reg-challenge',
+        JSON.stringify({ purpose: 'registration', userId: 'user-1' }),
+        'EX',
+        config.webauthn.challengeTtl
+      );
+    });
+
+    it('should reject a challenge issued to another user', async () => {
+      redis.getdel.mockResolvedValue(JSON.stringify({ purpose: 'registration', userId: 'user-2' }));
+
+      await expect(service.register(
+        'user-1',
+        { response: { clientDataJSON: clientData('reg-challenge') } } as any,
+        'Phone',
+        CONTEXT
+      )).rejects.toThrow(/expired/i);
+      expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should store a verified passkey and audit it', async () => {
+      redis.getdel.mockResolvedValue(JSON.stringify({ purpose: 'registration', userId: 'user-1' }));
+      (verifyRegistrationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credentialID: Buffer.from('credential-1'),
+          credentialPublicKey: Buffer.from('public-key'),
+          counter: 0,
+          credentialDeviceType: 'multiDevice',
+          credentialBackedUp: true
+        }
+      });
+      passkeys.create.mockImplementation(async (credential) => createPasskey({ ...credential, counter: 0 }));
+
+      const passkey = await service.register(
+        'user-1',
+        { response: { clientDataJSON: clientData('reg-challenge'), transports: ['internal', 'hybrid'] } } as any,
+        '  Phone ',
+        CONTEXT
+      );
+
+      expect(passkeys.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-1',
+        credentialId: encode('credential-1'),
+        transports: ['internal', 'hybrid'],
+        name: 'Phone'
+      }));
+      expect(passkey).not.toHaveProperty('publicKey');
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        action: AuthAuditAction.PASSKEY_ADDED
+      }));
+    });
+  });
+
+  describe('Sign-in', () => {
+    it('should use each challenge only once', async () => {
+      redis.getdel.mockResolvedValue(null);
+
+      await expect(service.authenticate(authenticationResponse('used-challenge'))).rejects.toThrow(/expired/i);
+      expect(redis.getdel).toHaveBeenCalledWith('webauthn:challenge:used-challenge');
+    });
+
+    it('should reject a passkey whose user handle names another account', async () => {
+      redis.getdel.mockResolvedValue(JSON.stringify({ purpose: 'authentication' }));
+      passkeys.findByCredentialId.mockResolvedValue(createPasskey());
+
+      await expect(
+        service.authenticate(authenticationResponse('login-challenge', encode('user-2')))
+      ).rejects.toThrow(/not recognized/i);
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should return the owner and record the new counter', async () => {
+      redis.getdel.mockResolvedValue(JSON.stringify({ purpose: 'authentication' }));
+      passkeys.findByCredentialId.mockResolvedValue(createPasskey());
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 5, credentialBackedUp: true }
+      });
+
+      const userId = await service.authenticate(authenticationResponse('login-challenge'));
+
+      expect(userId).toBe('user-1');
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(expect.objectContaining({
+        expectedChallenge: 'login-challenge',
+        expectedRPID: config.webauthn.rpId
+      }));
+      expect(passkeys.recordUse).toHaveBeenCalledWith(createPasskey().id, 5, true);
+    });
+  });
+
+  describe('Removal', () => {
+    it('should keep the last passkey of a role that requires MFA without an authenticator app', async () => {
+      users.findById.mockResolvedValue({
+        id: 'user-1',
+        role: UserRole.ADMIN,
+        isActive: true,
+        mfaEnabled: false
+      } as any);
+      passkeys.findByUser.mockResolvedValue([createPasskey()]);
+
+      await expect(service.removePasskey('user-1', createPasskey().id, CONTEXT)).rejects.toThrow(/required/i);
+      expect(passkeys.delete).not.toHaveBeenCalled();
+    });
+
+    it('should remove a passkey and audit it', async () => {
+      passkeys.findByUser.mockResolvedValue([createPasskey()]);
+      passkeys.delete.mockResolvedValue(true);
+
+      await service.removePasskey('user-1', createPasskey().id, CONTEXT);
+
+      expect(passkeys.delete).toHaveBeenCalledWith(createPasskey().id, 'user-1');
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        action: AuthAuditAction.PASSKEY_REMOVED
+      }));
+    });
+  });
+});
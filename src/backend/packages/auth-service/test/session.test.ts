@@ -0,0 +1,173 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import Redis from 'ioredis';
+import { Logger } from '@projectx/common';
+import { SessionService, REVOKED_SESSION_KEY_PREFIX } from '../src/services/session.service';
+import { SessionRepository } from '../src/repositories/session.repository';
+import { AuthAuditAction, AuthSession } from '../src/types';
+import { config } from '../src/config';
+
+const CONTEXT = {
+  ipAddress: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 ' +
+    '(KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+};
+
+const createSession = (overrides: Partial<AuthSession> = {}): AuthSession => ({
+  id: '4b2d7a10-0000-4000-8000-000000000001',
+  userId: 'user-1',
+  deviceInfo: { browser: 'Chrome 120', os: 'Mac OS 10.15.7' },
+  ipAddress: '198.51.100.4',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  lastUsedAt: new Date('2024-01-02T00:00:00Z'),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  ...overrides
+});
+
+describe('SessionService', () => {
+  let sessions: MockProxy<SessionRepository>;
+  let redis: MockProxy<Redis>;
+  let pipeline: { set: jest.Mock; exec: jest.Mock };
+  let logger: MockProxy<Logger>;
+  let service: SessionService;
+
+  beforeEach(() => {
+    sessions = mock<SessionRepository>();
+    redis = mock<Redis>();
+    pipeline = { set: jest.fn(), exec: jest.fn().mockResolvedValue([]) };
+    redis.pipeline.mockReturnValue(pipeline as any);
+    logger = mock<Logger>();
+    service = new SessionService(sessions, redis, logger);
+  });
+
+  describe('Tracking', () => {
+    it('should record the device, IP and a hash of the refresh token', async () => {
+      await service.start('user-1', 'session-1', 'refresh-token', CONTEXT);
+
+      const [session, tokenHash] = sessions.create.mock.calls[0];
+      expect(session).toEqual(expect.objectContaining({
+        id: 'session-1',
+        userId: 'user-1',
+        ipAddress: CONTEXT.ipAddress,
+        deviceInfo: expect.objectContaining({ browser: 'Mobile Safari 17', os: 'iOS 17.0', deviceType: 'mobile' })
+      }));
+      expect(session.expiresAt.getTime()).toBeGreaterThan(Date.now() + (config.session.ttl - 60) * 1000);
+      expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(tokenHash).not.toContain('refresh-token');
+    });
+
+    it('should flag the session making the request', async () => {
+      sessions.findActiveByUser.mockResolvedValue([
+        createSession(),
+        createSession({ id: 'other-session' })
+      ]);
+
+      const list = await service.listSessions('user-1', createSession().id);
+
+      expect(list.map((session) => session.current)).toEqual([true, false]);
+      expect(list[0]).not.toHaveProperty('userId');
+    });
+  });
+
+  describe('Refresh Token Rotation', () => {
+    it('should swap the current refresh token for the new one', async () => {
+      sessions.rotateToken.mockResolvedValue(true);
+
+      await service.rotate('user-1', 'session-1', 'token-1', 'token-2', CONTEXT);
+
+      const [, , currentHash, nextHash, ipAddress] = sessions.rotateToken.mock.calls[0];
+      expect(currentHash).not.toBe(nextHash);
+      expect(ipAddress).toBe(CONTEXT.ipAddress);
+      expect(sessions.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject a refresh for a signed-out session', async () => {
+      sessions.rotateToken.mockResolvedValue(false);
+      sessions.findActiveById.mockResolvedValue(null);
+
+      await expect(
+        service.rotate('user-1', 'session-1', 'token-1', 'token-2', CONTEXT)
+      ).rejects.toThrow(/signed out/i);
+      expect(sessions.delete).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when a rotated token is replayed', async () => {
+      sessions.rotateToken.mockResolvedValue(false);
+      sessions.findActiveById.mockResolvedValue(createSession());
+      sessions.delete.mockResolvedValue(createSession());
+
+      await expect(
+        service.rotate('user-1', createSession().id, 'token-1', 'token-3', CONTEXT)
+      ).rejects.toThrow(/already been used/i);
+
+      expect(sessions.delete).toHaveBeenCalledWith(createSession().id, 'user-1');
+      expect(pipeline.set).toHaveBeenCalledWith(
+        `${REVOKED_SESSION_KEY_PREFIX}${createSession().id}`,
+        '1',
+        'EX',
+        expect.any(Number)
+      );
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        userId: 'user-1',
+        action: AuthAuditAction.REFRESH_TOKEN_REUSED
+      }));
+    });
+  });
+
+  describe('Revocation', () => {
+    it('should add a revoked session to the revocation list until it expires', async () => {
+      sessions.delete.mockResolvedValue(createSession());
+
+      await service.revokeSession('user-1', createSession().id, CONTEXT);
+
+      expect(sessions.delete).toHaveBeenCalledWith(createSession().id, 'user-1');
+      expect(pipeline.set).toHaveBeenCalledWith(
+        `${REVOKED_SESSION_KEY_PREFIX}${createSession().id}`,
+        '1',
+        'EX',
+        expect.any(Number)
+      );
+      const ttl = pipeline.set.mock.calls[0][3];
+      expect(ttl).toBeGreaterThan(3500);
+      expect(ttl).toBeLessThanOrEqual(3600);
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        action: AuthAuditAction.SESSION_REVOKED
+      }));
+    });
+
+    it('should not revoke another user\'s session', async () => {
+      sessions.delete.mockResolvedValue(null);
+
+      await expect(service.revokeSession('user-2', createSession().id, CONTEXT)).rejects.toThrow(/not found/i);
+      expect(pipeline.set).not.toHaveBeenCalled();
+    });
+
+    it('should revoke every session except the current one', async () => {
+      sessions.deleteOthers.mockResolvedValue([
+        createSession({ id: 'session-a' }),
+        createSession({ id: 'session-b' })
+      ]);
+
+      const revoked = await service.revokeOtherSessions('user-1', 'current-session', CONTEXT);
+
+      expect(revoked).toBe(2);
+      expect(sessions.deleteOthers).toHaveBeenCalledWith('user-1', 'current-session');
+      expect(pipeline.set).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revoke the current session on logout', async () => {
+      sessions.delete.mockResolvedValue(createSession());
+
+      await service.endSession('user-1', createSession().id, CONTEXT);
+
+      expect(pipeline.set).toHaveBeenCalledWith(
+        `${REVOKED_SESSION_KEY_PREFIX}${createSession().id}`,
+        '1',
+        'EX',
+        expect.any(Number)
+      );
+      expect(logger.info).toHaveBeenCalledWith('Auth audit event', expect.objectContaining({
+        action: AuthAuditAction.LOGOUT
+      }));
+    });
+  });
+});
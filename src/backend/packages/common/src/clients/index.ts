@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Shared clients for calling platform services
+ * Provides the notification-service client used by every backend microservice
+ * @version 1.0.0
+ */
+
+import axios from 'axios'; // v1.4.0
+import type { Logger } from 'winston'; // v3.11.0
+
+/**
+ * Connection settings for notification-service
+ */
+export interface NotificationClientConfig {
+  /** Deliveries are skipped entirely when false */
+  readonly enabled: boolean;
+  readonly serviceUrl: string;
+  readonly tenantId: string;
+  /** Send an email copy; also required for emails to a toEmail address */
+  readonly emailEnabled?: boolean;
+  /** Allow SMS copies for requests that ask for one */
+  readonly smsEnabled?: boolean;
+}
+
+/**
+ * File attached to an email notification
+ */
+export interface NotificationAttachment {
+  readonly filename: string;
+  /** Base64 encoded file content */
+  readonly content: string;
+  readonly contentType: string;
+}
+
+/**
+ * Notification request forwarded to notification-service
+ */
+export interface NotificationRequest {
+  /** Recipient user identifier */
+  readonly userId: string;
+  /** Notification template identifier */
+  readonly templateId: string;
+  /** Short subject line */
+  readonly subject: string;
+  /** Plain text body */
+  readonly body: string;
+  /** Template variables and deep-link data */
+  readonly data?: Record<string, any>;
+  /** Files attached to the email copy, e.g. calendar invites */
+  readonly attachments?: readonly NotificationAttachment[];
+  /** Also deliver over SMS when SMS notifications are enabled */
+  readonly sms?: boolean;
+  /**
+   * Address to email instead of the user's inbox, e.g. an invited
+   * co-applicant or an address awaiting verification. Only the email
+   * channel is used.
+   */
+  readonly toEmail?: string;
+  /**
+   * Preference category; PAYMENT_FAILURE and LEASE_DEADLINE are delivered
+   * even during the recipient's quiet hours
+   */
+  readonly category?: string;
+  /** One-click unsubscribe endpoint advertised on the email copy */
+  readonly unsubscribeUrl?: string;
+}
+
+/**
+ * Client delivering domain events to notification-service over HTTP.
+ * Delivery failures are logged and never fail the calling operation.
+ */
+export class NotificationClient {
+  private readonly REQUEST_TIMEOUT = 5000; // 5 seconds
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly config: NotificationClientConfig
+  ) {}
+
+  /**
+   * Sends an in-app notification and the enabled email and SMS copies, or
+   * only an email when the request names an address
+   * @param request - Notification details
+   * @param correlationId - Optional request correlation identifier
+   */
+  async notify(request: NotificationRequest, correlationId?: string): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const channels = request.toEmail
+      ? (this.config.emailEnabled ? ['EMAIL'] : [])
+      : [
+        'IN_APP',
+        ...(this.config.emailEnabled ? ['EMAIL'] : []),
+        ...(this.config.smsEnabled && request.sms ? ['SMS'] : [])
+      ];
+
+    await Promise.all(channels.map(async (type) => {
+      try {
+        await axios.post(
+          `${this.config.serviceUrl}/api/v1/notifications`,
+          {
+            type,
+            userId: request.userId,
+            templateId: request.templateId,
+            category: request.category,
+            content: {
+              subject: request.subject,
+              body: request.body,
+              data: request.data,
+              ...(request.toEmail ? { to: request.toEmail } : {}),
+              ...(type === 'EMAIL' && request.attachments?.length
+                ? { attachments: request.attachments }
+                : {}),
+              ...(type === 'EMAIL' && request.unsubscribeUrl
+                ? { unsubscribeUrl: request.unsubscribeUrl }
+                : {})
+            }
+          },
+          {
+            timeout: this.REQUEST_TIMEOUT,
+            headers: {
+              'x-tenant-id': this.config.tenantId,
+              ...(correlationId ? { 'x-correlation-id': correlationId } : {})
+            }
+          }
+        );
+      } catch (error) {
+        this.logger.warn('Failed to deliver notification', {
+          error: (error as Error).message,
+          userId: request.userId,
+          templateId: request.templateId,
+          type
+        });
+      }
+    }));
+  }
+}
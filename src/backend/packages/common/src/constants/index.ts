@@ -33,6 +33,7 @@ export const ALL_STATUS_CODES = Object.values(HTTP_STATUS);
 export const USER_ROLES = {
   RENTER: 'RENTER',
   LANDLORD: 'LANDLORD',
+  OWNER: 'OWNER',
   AGENT: 'AGENT',
   ADMIN: 'ADMIN',
   SUPER_ADMIN: 'SUPER_ADMIN',
@@ -58,6 +58,8 @@ export interface UserProfile {
 export enum UserRole {
   RENTER = 'RENTER',
   PROPERTY_MANAGER = 'PROPERTY_MANAGER',
+  /** Read-only access to the properties they own */
+  OWNER = 'OWNER',
   AGENT = 'AGENT',
   ADMIN = 'ADMIN'
 }
@@ -130,6 +132,8 @@ export interface Address {
   readonly street2: string | null;
   /** City name */
   readonly city: string;
+  /** Neighborhood name, when known */
+  readonly neighborhood?: string | null;
   /** State/province code */
   readonly state: string;
   /** Postal code */
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Database migration for lease management tables
+ * Creates leases and lease parties with audit logging and unit status tracking
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for lease schema
+const SCHEMA_VERSION = '6';
+const LEASE_STATUSES = ['DRAFT', 'PENDING_SIGNATURE', 'ACTIVE', 'TERMINATED', 'EXPIRED', 'CANCELLED'];
+const LEASE_PARTY_ROLES = ['TENANT', 'LANDLORD', 'PROPERTY_MANAGER'];
+const UNIT_STATUSES = ['AVAILABLE', 'RENTED', 'MAINTENANCE', 'RESERVED'];
+
+/**
+ * Creates lease tables and adds unit status tracking
+ */
+export async function up(knex: Knex): Promise<void> {
+  // Track unit lifecycle explicitly instead of relying on is_available alone
+  await knex.schema.alterTable('units', (table) => {
+    table.string('status').notNullable().defaultTo('AVAILABLE').checkIn(UNIT_STATUSES);
+    table.index(['status'], 'idx_units_status');
+  });
+
+  await knex.raw(`
+    CREATE TYPE lease_status AS ENUM (${LEASE_STATUSES.map((status) => `'${status}'`).join(', ')})
+  `);
+
+  // Create leases table
+  await knex.schema.createTable('leases', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('application_id').notNullable().unique();
+    table.uuid('property_id').notNullable().references('id').inTable('properties');
+    table.uuid('unit_id').notNullable().references('id').inTable('units');
+    table.specificType('status', 'lease_status').notNullable().defaultTo('DRAFT');
+    table.date('start_date').notNullable();
+    table.date('end_date').notNullable();
+    table.decimal('monthly_rent', 10, 2).notNullable();
+    table.decimal('security_deposit', 10, 2).notNullable();
+    table.decimal('pet_deposit', 10, 2);
+    table.jsonb('terms').notNullable().defaultTo('{}');
+    table.timestamp('activated_at');
+    table.timestamp('terminated_at');
+    table.text('termination_reason');
+    table.integer('version').notNullable().defaultTo(1);
+    table.uuid('created_by').notNullable().references('id').inTable('users');
+    table.timestamps(true, true);
+    table.timestamp('deleted_at');
+  });
+
+  // Create lease parties table
+  await knex.schema.createTable('lease_parties', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('lease_id').notNullable().references('id').inTable('leases').onDelete('CASCADE');
+    table.uuid('user_id').notNullable().references('id').inTable('users');
+    table.string('role').notNullable().checkIn(LEASE_PARTY_ROLES);
+    table.timestamps(true, true);
+    table.unique(['lease_id', 'user_id', 'role']);
+  });
+
+  // Create indexes
+  await knex.raw(`
+    CREATE INDEX idx_leases_unit_status ON leases(unit_id, status);
+    CREATE INDEX idx_leases_property ON leases(property_id);
+    CREATE INDEX idx_leases_term ON leases(start_date, end_date);
+    CREATE INDEX idx_lease_parties_user ON lease_parties(user_id);
+  `);
+
+  // Only one active lease may exist per unit at any time
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_leases_unit_active ON leases(unit_id)
+    WHERE status = 'ACTIVE' AND deleted_at IS NULL
+  `);
+
+  // Create audit triggers
+  for (const tableName of ['leases', 'lease_parties']) {
+    await knex.raw(`
+      CREATE TRIGGER ${tableName}_audit_trigger
+      AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+      FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+    `);
+  }
+
+  await knex.raw(`COMMENT ON TABLE leases IS 'Lease agreements - schema version ${SCHEMA_VERSION}'`);
+}
+
+/**
+ * Rolls back the lease tables migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  for (const tableName of ['lease_parties', 'leases']) {
+    await knex.raw(`DROP TRIGGER IF EXISTS ${tableName}_audit_trigger ON ${tableName}`);
+  }
+
+  await knex.schema.dropTableIfExists('lease_parties');
+  await knex.schema.dropTableIfExists('leases');
+  await knex.raw('DROP TYPE IF EXISTS lease_status');
+
+  await knex.schema.alterTable('units', (table) => {
+    table.dropIndex(['status'], 'idx_units_status');
+    table.dropColumn('status');
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Database migration for electronic lease signing
+ * Creates signature requests, a hash-chained signing audit trail and executed lease documents
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for lease signing schema
+const SIGNATURE_STATUSES = ['PENDING', 'SIGNED'];
+const SIGNATURE_EVENT_ACTIONS = ['SIGNATURE_REQUESTED', 'SIGNED', 'COMPLETED'];
+
+/**
+ * Creates lease signing tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    // Hash of the lease content sent for signature
+    await trx.schema.alterTable('leases', (table) => {
+      table.string('content_hash', 64);
+    });
+
+    // Create per-party signature requests
+    await trx.schema.createTable('lease_signatures', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('lease_id').notNullable().references('id').inTable('leases').onDelete('CASCADE');
+      table.uuid('user_id').notNullable().references('id').inTable('users');
+      table.string('role').notNullable();
+      table.integer('signing_order').notNullable();
+      table.string('status').notNullable().defaultTo('PENDING').checkIn(SIGNATURE_STATUSES);
+      table.text('signature_image');
+      table.string('content_hash', 64).notNullable();
+      table.specificType('ip_address', 'inet');
+      table.text('user_agent');
+      table.timestamp('signed_at');
+      table.timestamps(true, true);
+      table.unique(['lease_id', 'user_id']);
+      table.index(['lease_id', 'signing_order'], 'idx_lease_signatures_order');
+    });
+
+    // Append-only signing audit trail; each event hashes the previous one
+    await trx.schema.createTable('lease_signature_events', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('lease_id').notNullable().references('id').inTable('leases');
+      table.uuid('user_id').notNullable().references('id').inTable('users');
+      table.string('action').notNullable().checkIn(SIGNATURE_EVENT_ACTIONS);
+      // Kept as text: the event hash covers the address exactly as recorded
+      table.text('ip_address');
+      table.text('user_agent');
+      table.string('signature_hash', 64);
+      table.string('content_hash', 64);
+      table.timestamp('timestamp').notNullable().defaultTo(knex.fn.now());
+      table.string('previous_hash', 64);
+      table.string('event_hash', 64).notNullable().unique();
+      table.index(['lease_id', 'timestamp'], 'idx_lease_signature_events_lease');
+      // Each event has one successor, so concurrent writers cannot fork the chain
+      table.unique(['lease_id', 'previous_hash']);
+    });
+
+    // Only one event may start a lease's chain
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_lease_signature_events_root
+      ON lease_signature_events (lease_id)
+      WHERE previous_hash IS NULL
+    `);
+
+    // Executed lease PDF with its SHA-256 digest
+    await trx.schema.createTable('lease_documents', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('lease_id').notNullable().unique().references('id').inTable('leases').onDelete('CASCADE');
+      table.binary('content').notNullable();
+      table.string('mime_type').notNullable().defaultTo('application/pdf');
+      table.string('sha256', 64).notNullable();
+      table.timestamp('finalized_at').notNullable().defaultTo(knex.fn.now());
+      table.timestamps(true, true);
+    });
+
+    // Prevent tampering with the audit trail
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION prevent_lease_signature_event_changes()
+      RETURNS TRIGGER AS $$
+      BEGIN
+        RAISE EXCEPTION 'lease_signature_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE TRIGGER lease_signature_events_immutable
+      BEFORE UPDATE OR DELETE ON lease_signature_events
+      FOR EACH ROW EXECUTE FUNCTION prevent_lease_signature_event_changes();
+    `);
+
+    for (const tableName of ['lease_signatures', 'lease_documents']) {
+      await trx.raw(`
+        CREATE TRIGGER ${tableName}_audit_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+        FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+      `);
+    }
+  });
+}
+
+/**
+ * Rolls back the lease signing migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    for (const tableName of ['lease_signatures', 'lease_documents']) {
+      await trx.raw(`DROP TRIGGER IF EXISTS ${tableName}_audit_trigger ON ${tableName}`);
+    }
+    await trx.raw('DROP TRIGGER IF EXISTS lease_signature_events_immutable ON lease_signature_events');
+    await trx.raw('DROP FUNCTION IF EXISTS prevent_lease_signature_event_changes()');
+
+    await trx.schema.dropTableIfExists('lease_documents');
+    await trx.schema.dropTableIfExists('lease_signature_events');
+    await trx.schema.dropTableIfExists('lease_signatures');
+
+    await trx.schema.alterTable('leases', (table) => {
+      table.dropColumn('content_hash');
+    });
+  });
+}
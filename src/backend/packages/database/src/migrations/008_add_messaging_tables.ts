@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Database migration for in-app messaging
+ * Creates message threads tied to properties or applications, messages,
+ * attachments and per-recipient read receipts
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for messaging schema
+const THREAD_TYPES = ['DIRECT', 'GROUP'];
+const MESSAGE_TYPES = ['TEXT', 'IMAGE', 'DOCUMENT', 'SYSTEM'];
+const MESSAGE_STATUSES = ['SENT', 'DELIVERED', 'READ'];
+const ENCRYPTION_STATUSES = ['ENCRYPTED', 'NONE'];
+const ATTACHMENT_MIME_TYPES = ['image/jpeg', 'image/png', 'application/pdf', 'application/docx'];
+
+/**
+ * Creates messaging tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    // Create message threads
+    await trx.schema.createTable('message_threads', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.string('type').notNullable().defaultTo('DIRECT').checkIn(THREAD_TYPES);
+      table.uuid('property_id').references('id').inTable('properties');
+      table.uuid('application_id').references('id').inTable('applications');
+      table.string('subject', 255);
+      table.uuid('created_by').notNullable().references('id').inTable('users');
+      table.timestamp('last_message_at');
+      table.jsonb('metadata').notNullable().defaultTo('{}');
+      table.timestamps(true, true);
+      table.index(['property_id'], 'idx_message_threads_property');
+      table.index(['application_id'], 'idx_message_threads_application');
+    });
+
+    // Create thread participants
+    await trx.schema.createTable('message_thread_participants', (table) => {
+      table.uuid('thread_id').notNullable().references('id').inTable('message_threads').onDelete('CASCADE');
+      table.uuid('user_id').notNullable().references('id').inTable('users');
+      table.timestamp('joined_at').notNullable().defaultTo(knex.fn.now());
+      table.primary(['thread_id', 'user_id']);
+      table.index(['user_id'], 'idx_message_thread_participants_user');
+    });
+
+    // Create messages
+    await trx.schema.createTable('messages', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('thread_id').notNullable().references('id').inTable('message_threads').onDelete('CASCADE');
+      table.uuid('sender_id').notNullable().references('id').inTable('users');
+      table.string('type').notNullable().checkIn(MESSAGE_TYPES);
+      table.text('content').notNullable();
+      table.string('status').notNullable().defaultTo('SENT').checkIn(MESSAGE_STATUSES);
+      table.string('encryption_status').notNullable().defaultTo('NONE').checkIn(ENCRYPTION_STATUSES);
+      table.uuid('reply_to').references('id').inTable('messages');
+      table.jsonb('metadata').notNullable().defaultTo('{}');
+      table.jsonb('system_data');
+      table.timestamps(true, true);
+      table.index(['thread_id', 'created_at'], 'idx_messages_thread_created');
+    });
+
+    // Create message attachments; uploaded before the message that references them
+    await trx.schema.createTable('message_attachments', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('message_id').references('id').inTable('messages').onDelete('CASCADE');
+      table.uuid('uploaded_by').notNullable().references('id').inTable('users');
+      table.string('mime_type').notNullable().checkIn(ATTACHMENT_MIME_TYPES);
+      table.string('name', 255).notNullable();
+      table.integer('size').notNullable();
+      table.binary('content').notNullable();
+      table.timestamps(true, true);
+      table.index(['message_id'], 'idx_message_attachments_message');
+    });
+
+    // Create per-recipient delivery and read receipts
+    await trx.schema.createTable('message_receipts', (table) => {
+      table.uuid('message_id').notNullable().references('id').inTable('messages').onDelete('CASCADE');
+      table.uuid('user_id').notNullable().references('id').inTable('users');
+      table.string('status').notNullable().defaultTo('SENT').checkIn(MESSAGE_STATUSES);
+      table.timestamp('delivered_at');
+      table.timestamp('read_at');
+      table.primary(['message_id', 'user_id']);
+    });
+
+    // Unread counts are computed per recipient
+    await trx.raw(`
+      CREATE INDEX idx_message_receipts_unread
+      ON message_receipts (user_id)
+      WHERE status <> 'READ';
+    `);
+
+    for (const tableName of ['message_threads', 'messages']) {
+      await trx.raw(`
+        CREATE TRIGGER ${tableName}_audit_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+        FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+      `);
+    }
+  });
+}
+
+/**
+ * Rolls back the messaging migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    for (const tableName of ['message_threads', 'messages']) {
+      await trx.raw(`DROP TRIGGER IF EXISTS ${tableName}_audit_trigger ON ${tableName}`);
+    }
+
+    await trx.schema.dropTableIfExists('message_receipts');
+    await trx.schema.dropTableIfExists('message_attachments');
+    await trx.schema.dropTableIfExists('messages');
+    await trx.schema.dropTableIfExists('message_thread_participants');
+    await trx.schema.dropTableIfExists('message_threads');
+  });
+}
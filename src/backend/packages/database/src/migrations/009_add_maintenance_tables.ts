@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Database migration for maintenance request ticketing
+ * Creates tenant maintenance requests, their photos and status history
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for maintenance schema
+const MAINTENANCE_STATUSES = ['OPEN', 'ASSIGNED', 'SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+const MAINTENANCE_PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'EMERGENCY'];
+const MAINTENANCE_CATEGORIES = ['PLUMBING', 'ELECTRICAL', 'HVAC', 'APPLIANCE', 'STRUCTURAL', 'PEST', 'OTHER'];
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+/**
+ * Creates maintenance tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    // Create maintenance requests
+    await trx.schema.createTable('maintenance_requests', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('property_id').notNullable().references('id').inTable('properties');
+      table.uuid('unit_id').notNullable().references('id').inTable('units');
+      table.uuid('lease_id').notNullable().references('id').inTable('leases');
+      table.uuid('reported_by').notNullable().references('id').inTable('users');
+      table.string('title', 200).notNullable();
+      table.text('description').notNullable();
+      table.string('category').notNullable().checkIn(MAINTENANCE_CATEGORIES);
+      table.string('priority').notNullable().checkIn(MAINTENANCE_PRIORITIES);
+      table.string('status').notNullable().defaultTo('OPEN').checkIn(MAINTENANCE_STATUSES);
+      table.boolean('permission_to_enter').notNullable().defaultTo(false);
+      table.string('vendor_name', 200);
+      table.string('vendor_phone', 50);
+      table.string('vendor_email', 255);
+      table.uuid('assigned_by').references('id').inTable('users');
+      table.timestamp('entry_window_start');
+      table.timestamp('entry_window_end');
+      table.text('resolution_notes');
+      table.timestamp('completed_at');
+      table.integer('version').notNullable().defaultTo(1);
+      table.timestamps(true, true);
+      table.index(['unit_id', 'status'], 'idx_maintenance_requests_unit_status');
+      table.index(['property_id', 'status', 'priority'], 'idx_maintenance_requests_property');
+      table.index(['reported_by'], 'idx_maintenance_requests_reporter');
+    });
+
+    // Entry windows must be well-formed
+    await trx.raw(`
+      ALTER TABLE maintenance_requests
+      ADD CONSTRAINT chk_maintenance_entry_window
+      CHECK (
+        (entry_window_start IS NULL AND entry_window_end IS NULL) OR
+        (entry_window_start IS NOT NULL AND entry_window_end > entry_window_start)
+      );
+    `);
+
+    // Create request photos
+    await trx.schema.createTable('maintenance_request_photos', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('request_id').notNullable().references('id').inTable('maintenance_requests').onDelete('CASCADE');
+      table.string('mime_type').notNullable().checkIn(PHOTO_MIME_TYPES);
+      table.string('file_name', 255).notNullable();
+      table.integer('size').notNullable();
+      table.binary('content').notNullable();
+      table.uuid('uploaded_by').notNullable().references('id').inTable('users');
+      table.timestamp('uploaded_at').notNullable().defaultTo(knex.fn.now());
+      table.index(['request_id'], 'idx_maintenance_photos_request');
+    });
+
+    // Create status history
+    await trx.schema.createTable('maintenance_request_events', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('request_id').notNullable().references('id').inTable('maintenance_requests').onDelete('CASCADE');
+      table.string('from_status').checkIn(MAINTENANCE_STATUSES);
+      table.string('to_status').notNullable().checkIn(MAINTENANCE_STATUSES);
+      table.uuid('actor_id').notNullable().references('id').inTable('users');
+      table.text('note');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+      table.index(['request_id', 'created_at'], 'idx_maintenance_events_request');
+    });
+
+    await trx.raw(`
+      CREATE TRIGGER maintenance_requests_audit_trigger
+      AFTER INSERT OR UPDATE OR DELETE ON maintenance_requests
+      FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+    `);
+  });
+}
+
+/**
+ * Rolls back the maintenance migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP TRIGGER IF EXISTS maintenance_requests_audit_trigger ON maintenance_requests');
+
+    await trx.schema.dropTableIfExists('maintenance_request_events');
+    await trx.schema.dropTableIfExists('maintenance_request_photos');
+    await trx.schema.dropTableIfExists('maintenance_requests');
+  });
+}
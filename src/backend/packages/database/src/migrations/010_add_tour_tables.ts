@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Database migration for property tour scheduling
+ * Creates manager availability slots and renter tour bookings
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for tour schema
+const TOUR_TYPES = ['IN_PERSON', 'SELF_GUIDED'];
+const TOUR_STATUSES = ['SCHEDULED', 'CANCELLED', 'COMPLETED', 'NO_SHOW'];
+
+/**
+ * Creates tour tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    // Create availability slots published by property staff
+    await trx.schema.createTable('tour_availability_slots', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('property_id').notNullable().references('id').inTable('properties').onDelete('CASCADE');
+      table.uuid('unit_id').references('id').inTable('units').onDelete('CASCADE');
+      table.uuid('created_by').notNullable().references('id').inTable('users');
+      table.timestamp('starts_at').notNullable();
+      table.timestamp('ends_at').notNullable();
+      table.specificType('tour_types', 'text[]').notNullable();
+      table.integer('capacity').notNullable().defaultTo(1);
+      table.integer('booked_count').notNullable().defaultTo(0);
+      table.boolean('is_cancelled').notNullable().defaultTo(false);
+      table.timestamps(true, true);
+      table.index(['property_id', 'starts_at'], 'idx_tour_slots_property_start');
+    });
+
+    // Slots must be well-formed and never overbooked
+    await trx.raw(`
+      ALTER TABLE tour_availability_slots
+      ADD CONSTRAINT chk_tour_slot_window CHECK (ends_at > starts_at),
+      ADD CONSTRAINT chk_tour_slot_capacity CHECK (capacity > 0 AND booked_count BETWEEN 0 AND capacity),
+      ADD CONSTRAINT chk_tour_slot_types CHECK (
+        cardinality(tour_types) > 0 AND tour_types <@ ARRAY['${TOUR_TYPES.join("','")}']::text[]
+      );
+    `);
+
+    // Create tour bookings
+    await trx.schema.createTable('tours', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('slot_id').notNullable().references('id').inTable('tour_availability_slots');
+      table.uuid('property_id').notNullable().references('id').inTable('properties').onDelete('CASCADE');
+      table.uuid('unit_id').references('id').inTable('units');
+      table.uuid('renter_id').notNullable().references('id').inTable('users');
+      table.string('type').notNullable().checkIn(TOUR_TYPES);
+      table.string('status').notNullable().defaultTo('SCHEDULED').checkIn(TOUR_STATUSES);
+      table.timestamp('starts_at').notNullable();
+      table.timestamp('ends_at').notNullable();
+      table.text('notes');
+      table.timestamp('reminder_sent_at');
+      table.timestamp('cancelled_at');
+      table.uuid('cancelled_by').references('id').inTable('users');
+      table.timestamps(true, true);
+      table.index(['renter_id', 'starts_at'], 'idx_tours_renter_start');
+      table.index(['property_id', 'starts_at'], 'idx_tours_property_start');
+    });
+
+    // A renter may hold only one active booking per slot
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_tours_active_booking
+      ON tours (slot_id, renter_id) WHERE status = 'SCHEDULED';
+    `);
+
+    // Reminder sweep looks up upcoming tours that have not been reminded
+    await trx.raw(`
+      CREATE INDEX idx_tours_pending_reminder
+      ON tours (starts_at) WHERE status = 'SCHEDULED' AND reminder_sent_at IS NULL;
+    `);
+
+    await trx.raw(`
+      CREATE TRIGGER tours_audit_trigger
+      AFTER INSERT OR UPDATE OR DELETE ON tours
+      FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+    `);
+  });
+}
+
+/**
+ * Rolls back the tour migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP TRIGGER IF EXISTS tours_audit_trigger ON tours');
+
+    await trx.schema.dropTableIfExists('tours');
+    await trx.schema.dropTableIfExists('tour_availability_slots');
+  });
+}
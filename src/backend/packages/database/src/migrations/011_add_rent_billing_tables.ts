@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Database migration for rent billing policies
+ * Stores per-property due dates, grace periods, late-fee rules and reminder settings
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for rent billing schema
+const SCHEMA_VERSION = '11';
+const LATE_FEE_TYPES = ['FLAT', 'PERCENTAGE', 'DAILY'];
+
+/**
+ * Creates the rent billing policy table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('rent_billing_policies', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.uuid('property_id').notNullable().unique().references('id').inTable('properties').onDelete('CASCADE');
+    table.integer('due_day').notNullable().defaultTo(1);
+    table.integer('grace_period_days').notNullable().defaultTo(5);
+    table.string('late_fee_type').notNullable().defaultTo('FLAT').checkIn(LATE_FEE_TYPES);
+    table.decimal('late_fee_amount', 10, 2).notNullable().defaultTo(0);
+    table.decimal('late_fee_cap', 10, 2);
+    table.integer('reminder_days_before').notNullable().defaultTo(3);
+    table.uuid('updated_by').references('id').inTable('users');
+    table.timestamps(true, true);
+  });
+
+  // Due days stop at 28 so every month has a due date
+  await knex.raw(`
+    ALTER TABLE rent_billing_policies
+      ADD CONSTRAINT chk_rent_billing_due_day CHECK (due_day BETWEEN 1 AND 28),
+      ADD CONSTRAINT chk_rent_billing_grace CHECK (grace_period_days >= 0),
+      ADD CONSTRAINT chk_rent_billing_reminder CHECK (reminder_days_before >= 0),
+      ADD CONSTRAINT chk_rent_billing_fee CHECK (
+        late_fee_amount >= 0 AND (late_fee_type <> 'PERCENTAGE' OR late_fee_amount <= 100)
+      ),
+      ADD CONSTRAINT chk_rent_billing_cap CHECK (late_fee_cap IS NULL OR late_fee_cap > 0)
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER rent_billing_policies_audit_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON rent_billing_policies
+    FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+  `);
+
+  await knex.raw(`COMMENT ON TABLE rent_billing_policies IS 'Rent billing policies - schema version ${SCHEMA_VERSION}'`);
+}
+
+/**
+ * Rolls back the rent billing migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS rent_billing_policies_audit_trigger ON rent_billing_policies');
+  await knex.schema.dropTableIfExists('rent_billing_policies');
+}
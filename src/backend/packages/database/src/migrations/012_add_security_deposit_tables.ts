@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Database migration for security deposit escrow
+ * Creates per-lease deposit ledgers, itemized move-out deductions with photos
+ * and disposition records
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for security deposit schema
+const SCHEMA_VERSION = '12';
+const DEPOSIT_STATUSES = ['HELD', 'DISPOSED'];
+const LEDGER_ENTRY_TYPES = ['COLLECTED', 'INTEREST', 'DEDUCTION', 'REFUND'];
+const DEDUCTION_CATEGORIES = ['CLEANING', 'DAMAGE', 'UNPAID_RENT', 'UNPAID_UTILITIES', 'KEYS', 'OTHER'];
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+/**
+ * Creates security deposit tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.createTable('security_deposits', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('lease_id').notNullable().unique().references('id').inTable('leases');
+      table.uuid('property_id').notNullable().references('id').inTable('properties');
+      table.uuid('tenant_id').notNullable().references('id').inTable('users');
+      // Captured SECURITY_DEPOSIT payment in payment-service
+      table.string('payment_id').notNullable().unique();
+      table.decimal('amount', 10, 2).notNullable();
+      table.string('currency', 3).notNullable().defaultTo('USD');
+      // Annual simple interest in percent; zero where the jurisdiction does not require it
+      table.decimal('interest_rate', 5, 3).notNullable().defaultTo(0);
+      table.timestamp('held_since').notNullable();
+      table.string('status').notNullable().defaultTo('HELD').checkIn(DEPOSIT_STATUSES);
+      table.decimal('refund_amount', 10, 2);
+      table.decimal('manual_payout_amount', 10, 2);
+      table.string('stripe_refund_id');
+      table.binary('statement');
+      table.string('statement_sha256', 64);
+      table.timestamp('disposed_at');
+      table.uuid('disposed_by').references('id').inTable('users');
+      table.integer('version').notNullable().defaultTo(1);
+      table.uuid('opened_by').notNullable().references('id').inTable('users');
+      table.timestamps(true, true);
+      table.index(['property_id', 'status'], 'idx_security_deposits_property');
+      table.index(['tenant_id'], 'idx_security_deposits_tenant');
+    });
+
+    await trx.raw(`
+      ALTER TABLE security_deposits
+      ADD CONSTRAINT chk_security_deposit_amounts CHECK (
+        amount > 0 AND interest_rate >= 0 AND interest_rate <= 100 AND
+        (refund_amount IS NULL OR refund_amount >= 0)
+      )
+    `);
+
+    // Append-only ledger; the balance is the sum of signed entries
+    await trx.schema.createTable('security_deposit_ledger', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('deposit_id').notNullable().references('id').inTable('security_deposits').onDelete('CASCADE');
+      table.string('type').notNullable().checkIn(LEDGER_ENTRY_TYPES);
+      table.decimal('amount', 10, 2).notNullable();
+      table.text('description').notNullable();
+      table.uuid('created_by').references('id').inTable('users');
+      table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+      table.index(['deposit_id', 'created_at'], 'idx_security_deposit_ledger_deposit');
+    });
+
+    await trx.schema.createTable('security_deposit_deductions', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('deposit_id').notNullable().references('id').inTable('security_deposits').onDelete('CASCADE');
+      table.string('category').notNullable().checkIn(DEDUCTION_CATEGORIES);
+      table.text('description').notNullable();
+      table.decimal('amount', 10, 2).notNullable();
+      table.uuid('created_by').notNullable().references('id').inTable('users');
+      table.timestamps(true, true);
+      table.index(['deposit_id'], 'idx_security_deposit_deductions_deposit');
+    });
+
+    await trx.raw(`
+      ALTER TABLE security_deposit_deductions
+      ADD CONSTRAINT chk_security_deposit_deduction_amount CHECK (amount > 0)
+    `);
+
+    await trx.schema.createTable('security_deposit_deduction_photos', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('deduction_id').notNullable()
+        .references('id').inTable('security_deposit_deductions').onDelete('CASCADE');
+      table.string('mime_type').notNullable().checkIn(PHOTO_MIME_TYPES);
+      table.string('file_name', 255).notNullable();
+      table.integer('size').notNullable();
+      table.binary('content').notNullable();
+      table.uuid('uploaded_by').notNullable().references('id').inTable('users');
+      table.timestamp('uploaded_at').notNullable().defaultTo(knex.fn.now());
+      table.index(['deduction_id'], 'idx_security_deposit_photos_deduction');
+    });
+
+    for (const tableName of ['security_deposits', 'security_deposit_ledger', 'security_deposit_deductions']) {
+      await trx.raw(`
+        CREATE TRIGGER ${tableName}_audit_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+        FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+      `);
+    }
+
+    await trx.raw(`COMMENT ON TABLE security_deposits IS 'Security deposit escrow - schema version ${SCHEMA_VERSION}'`);
+  });
+}
+
+/**
+ * Rolls back the security deposit tables migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    for (const tableName of ['security_deposit_deductions', 'security_deposit_ledger', 'security_deposits']) {
+      await trx.raw(`DROP TRIGGER IF EXISTS ${tableName}_audit_trigger ON ${tableName}`);
+    }
+
+    await trx.schema.dropTableIfExists('security_deposit_deduction_photos');
+    await trx.schema.dropTableIfExists('security_deposit_deductions');
+    await trx.schema.dropTableIfExists('security_deposit_ledger');
+    await trx.schema.dropTableIfExists('security_deposits');
+  });
+}
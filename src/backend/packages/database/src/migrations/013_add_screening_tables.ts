@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Database migration for tenant screening rules
+ * Creates per-property screening criteria and recorded screening recommendations
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for screening schema
+const SCREENING_RECOMMENDATIONS = ['APPROVE', 'APPROVE_WITH_CO_SIGNER', 'DECLINE', 'INCOMPLETE'];
+
+/**
+ * Creates screening tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    // Create screening criteria, one row per property. Only financial and
+    // rental-history criteria have columns so protected characteristics
+    // cannot be configured.
+    await trx.schema.createTable('screening_criteria', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('property_id').notNullable().unique().references('id').inTable('properties').onDelete('CASCADE');
+      table.decimal('income_multiple', 4, 2);
+      table.integer('min_credit_score');
+      table.integer('max_evictions');
+      table.integer('eviction_lookback_years').notNullable().defaultTo(7);
+      table.boolean('allow_co_signer').notNullable().defaultTo(false);
+      table.decimal('co_signer_income_multiple', 4, 2);
+      table.uuid('updated_by').notNullable().references('id').inTable('users');
+      table.timestamps(true, true);
+    });
+
+    // Eviction history older than seven years may not be reported (FCRA)
+    await trx.raw(`
+      ALTER TABLE screening_criteria
+      ADD CONSTRAINT chk_screening_income_multiple CHECK (income_multiple IS NULL OR income_multiple BETWEEN 1 AND 4),
+      ADD CONSTRAINT chk_screening_credit_score CHECK (min_credit_score IS NULL OR min_credit_score BETWEEN 300 AND 850),
+      ADD CONSTRAINT chk_screening_evictions CHECK (max_evictions IS NULL OR max_evictions >= 0),
+      ADD CONSTRAINT chk_screening_eviction_lookback CHECK (eviction_lookback_years BETWEEN 1 AND 7),
+      ADD CONSTRAINT chk_screening_co_signer_multiple CHECK (
+        co_signer_income_multiple IS NULL OR co_signer_income_multiple BETWEEN 1 AND 6
+      );
+    `);
+
+    // Create screening results; every evaluation is kept with the criteria
+    // and facts it was computed from
+    await trx.schema.createTable('application_screening_results', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('application_id').notNullable();
+      table.uuid('property_id').notNullable().references('id').inTable('properties');
+      table.string('recommendation').notNullable().checkIn(SCREENING_RECOMMENDATIONS);
+      table.jsonb('reasons').notNullable();
+      table.jsonb('criteria').notNullable();
+      table.jsonb('facts').notNullable();
+      table.uuid('evaluated_by').references('id').inTable('users');
+      table.timestamp('evaluated_at').notNullable().defaultTo(knex.fn.now());
+      table.index(['application_id', 'evaluated_at'], 'idx_screening_results_application');
+    });
+
+    for (const table of ['screening_criteria', 'application_screening_results']) {
+      await trx.raw(`
+        CREATE TRIGGER ${table}_audit_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${table}
+        FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+      `);
+    }
+  });
+}
+
+/**
+ * Rolls back the screening migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP TRIGGER IF EXISTS application_screening_results_audit_trigger ON application_screening_results');
+    await trx.raw('DROP TRIGGER IF EXISTS screening_criteria_audit_trigger ON screening_criteria');
+
+    await trx.schema.dropTableIfExists('application_screening_results');
+    await trx.schema.dropTableIfExists('screening_criteria');
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Database migration for household rental applications
+ * Adds co-applicants and guarantors invited onto a primary application, each
+ * with their own income, employment, documents and verification
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for household schema
+const PARTICIPANT_ROLES = ['CO_APPLICANT', 'GUARANTOR'];
+const PARTICIPANT_STATUSES = ['INVITED', 'ACCEPTED', 'SUBMITTED', 'DECLINED', 'REMOVED'];
+const VERIFICATION_STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'FAILED'];
+
+/**
+ * Creates household tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.createTable('application_participants', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('application_id').notNullable();
+      table.string('role').notNullable().checkIn(PARTICIPANT_ROLES);
+      table.string('email').notNullable();
+      table.uuid('user_id').references('id').inTable('users');
+      table.string('status').notNullable().defaultTo('INVITED').checkIn(PARTICIPANT_STATUSES);
+      // Only the SHA-256 of the emailed token is stored
+      table.string('invite_token_hash', 64).notNullable().unique();
+      table.timestamp('invite_expires_at').notNullable();
+      table.decimal('monthly_income', 12, 2);
+      table.integer('credit_score');
+      table.jsonb('employment_details');
+      table.jsonb('documents').notNullable().defaultTo('[]');
+      table.string('verification_status').notNullable().defaultTo('PENDING').checkIn(VERIFICATION_STATUSES);
+      table.uuid('invited_by').notNullable().references('id').inTable('users');
+      table.timestamp('accepted_at');
+      table.timestamp('submitted_at');
+      table.timestamps(true, true);
+      table.index(['application_id'], 'idx_application_participants_application');
+      table.index(['user_id'], 'idx_application_participants_user');
+    });
+
+    // A person can hold only one live seat on an application
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_application_participants_active_email
+      ON application_participants (application_id, lower(email))
+      WHERE status NOT IN ('DECLINED', 'REMOVED');
+    `);
+
+    await trx.raw(`
+      ALTER TABLE application_participants
+      ADD CONSTRAINT chk_participant_income CHECK (monthly_income IS NULL OR monthly_income >= 0);
+    `);
+
+    // Background checks run per person
+    await trx.schema.alterTable('background_checks', (table) => {
+      table.uuid('participant_id').references('id').inTable('application_participants');
+    });
+
+    await trx.raw(`
+      CREATE TRIGGER application_participants_audit_trigger
+      AFTER INSERT OR UPDATE OR DELETE ON application_participants
+      FOR EACH ROW EXECUTE FUNCTION audit.process_audit();
+    `);
+  });
+}
+
+/**
+ * Rolls back the household migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP TRIGGER IF EXISTS application_participants_audit_trigger ON application_participants');
+
+    await trx.schema.alterTable('background_checks', (table) => {
+      table.dropColumn('participant_id');
+    });
+    await trx.schema.dropTableIfExists('application_participants');
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Database migration for the owner portal
+ * Adds the OWNER role and records maintenance spend so owner statements can
+ * report it alongside rent, refunds and fees
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+const OWNER_ROLE = 'OWNER';
+
+/**
+ * Adds owner reporting schema
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx('roles')
+      .insert({
+        name: OWNER_ROLE,
+        permissions: JSON.stringify([]),
+        description: 'Read-only access to owned properties and statements'
+      })
+      .onConflict('name')
+      .ignore();
+
+    // Invoiced vendor cost, recorded when work completes
+    await trx.schema.alterTable('maintenance_requests', (table) => {
+      table.decimal('cost', 10, 2);
+    });
+
+    await trx.raw(`
+      ALTER TABLE maintenance_requests
+      ADD CONSTRAINT chk_maintenance_cost CHECK (cost IS NULL OR cost >= 0);
+    `);
+
+    await trx.raw(`
+      CREATE INDEX IF NOT EXISTS idx_properties_owner ON properties (owner_id);
+      CREATE INDEX idx_maintenance_requests_completed ON maintenance_requests (property_id, completed_at)
+      WHERE status = 'COMPLETED';
+    `);
+  });
+}
+
+/**
+ * Rolls back the owner reporting migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP INDEX IF EXISTS idx_maintenance_requests_completed');
+    await trx.raw('DROP INDEX IF EXISTS idx_properties_owner');
+
+    await trx.schema.alterTable('maintenance_requests', (table) => {
+      table.dropColumn('cost');
+    });
+
+    await trx('roles').where({ name: OWNER_ROLE }).del();
+  });
+}
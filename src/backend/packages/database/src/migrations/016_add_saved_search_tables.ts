@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Database migration for saved searches
+ * Stores renters' search filters and the listings matched against them so
+ * new and re-priced listings can be alerted instantly or in a daily digest
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Global constants for saved search schema
+const ALERT_FREQUENCIES = ['INSTANT', 'DAILY'];
+const MATCH_REASONS = ['NEW_LISTING', 'PRICE_CHANGE'];
+
+/**
+ * Creates saved search tables
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.createTable('saved_searches', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+      table.string('name', 100).notNullable();
+      // SearchParams or GeoSearchParams as submitted from the search filters
+      table.jsonb('criteria').notNullable();
+      table.string('frequency').notNullable().defaultTo('DAILY').checkIn(ALERT_FREQUENCIES);
+      table.timestamp('unsubscribed_at');
+      table.timestamp('last_notified_at');
+      table.timestamps(true, true);
+      table.index(['user_id'], 'idx_saved_searches_user');
+    });
+
+    await trx.raw(`
+      CREATE INDEX idx_saved_searches_active ON saved_searches (frequency)
+      WHERE unsubscribed_at IS NULL;
+    `);
+
+    await trx.schema.createTable('saved_search_matches', (table) => {
+      table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+      table.uuid('saved_search_id').notNullable().references('id').inTable('saved_searches').onDelete('CASCADE');
+      table.uuid('property_id').notNullable().references('id').inTable('properties').onDelete('CASCADE');
+      table.string('reason').notNullable().checkIn(MATCH_REASONS);
+      // Lowest matching rent when the match was recorded
+      table.decimal('monthly_rent', 10, 2).notNullable();
+      table.timestamp('matched_at').notNullable().defaultTo(knex.fn.now());
+      table.timestamp('notified_at');
+      table.index(['saved_search_id', 'property_id'], 'idx_saved_search_matches_search_property');
+    });
+
+    // A listing waits in a digest at most once per search
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_saved_search_matches_pending
+      ON saved_search_matches (saved_search_id, property_id)
+      WHERE notified_at IS NULL;
+    `);
+  });
+}
+
+/**
+ * Rolls back the saved search migration
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.dropTableIfExists('saved_search_matches');
+    await trx.schema.dropTableIfExists('saved_searches');
+  });
+}
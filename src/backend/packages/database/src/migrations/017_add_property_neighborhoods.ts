@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Database migration adding neighborhoods to property addresses
+ * so listing search can suggest and match neighborhood names
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+/**
+ * Adds the neighborhood column
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.alterTable('property_addresses', (table) => {
+      table.string('neighborhood', 100);
+    });
+
+    await trx.raw(`
+      CREATE INDEX idx_property_addresses_neighborhood ON property_addresses (city, neighborhood)
+      WHERE neighborhood IS NOT NULL;
+    `);
+  });
+}
+
+/**
+ * Rolls back the neighborhood column
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.raw('DROP INDEX IF EXISTS idx_property_addresses_neighborhood');
+
+    await trx.schema.alterTable('property_addresses', (table) => {
+      table.dropColumn('neighborhood');
+    });
+  });
+}
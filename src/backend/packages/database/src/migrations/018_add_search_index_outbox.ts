@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Database migration for the search index outbox
+ * Triggers on the tables that make up a listing publish each change into an
+ * outbox in the same transaction as the write, so the listing indexer can keep
+ * Elasticsearch consistent whatever code path changed the data
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+// Tables whose rows are part of a listing's search document
+const SOURCE_TABLES = ['properties', 'property_addresses', 'units', 'property_amenities'];
+
+/**
+ * Creates the outbox table and publishing triggers
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.createTable('search_index_outbox', (table) => {
+      table.bigIncrements('id').primary();
+      // No foreign key: deletions must still be published
+      table.uuid('property_id').notNullable();
+      table.string('source_table', 50).notNullable();
+      table.string('operation', 10).notNullable();
+      table.timestamp('created_at').notNullable().defaultTo(trx.fn.now());
+      table.timestamp('processed_at');
+      table.timestamp('locked_until');
+      table.integer('attempts').notNullable().defaultTo(0);
+      table.text('last_error');
+    });
+
+    await trx.raw(`
+      CREATE INDEX idx_search_index_outbox_pending ON search_index_outbox (id)
+      WHERE processed_at IS NULL;
+      CREATE INDEX idx_search_index_outbox_processed ON search_index_outbox (processed_at)
+      WHERE processed_at IS NOT NULL;
+    `);
+
+    await trx.raw(`
+      CREATE OR REPLACE FUNCTION publish_search_index_change() RETURNS trigger AS $$
+      BEGIN
+        IF TG_TABLE_NAME = 'properties' THEN
+          INSERT INTO search_index_outbox (property_id, source_table, operation)
+          VALUES (COALESCE(NEW.id, OLD.id), TG_TABLE_NAME, TG_OP);
+          RETURN NULL;
+        END IF;
+
+        IF TG_OP <> 'INSERT' THEN
+          INSERT INTO search_index_outbox (property_id, source_table, operation)
+          VALUES (OLD.property_id, TG_TABLE_NAME, TG_OP);
+        END IF;
+
+        -- Inserts, and updates that move a row to another property
+        IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.property_id IS DISTINCT FROM OLD.property_id) THEN
+          INSERT INTO search_index_outbox (property_id, source_table, operation)
+          VALUES (NEW.property_id, TG_TABLE_NAME, TG_OP);
+        END IF;
+
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+    `);
+
+    for (const tableName of SOURCE_TABLES) {
+      await trx.raw(`
+        CREATE TRIGGER ${tableName}_search_index_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+        FOR EACH ROW EXECUTE FUNCTION publish_search_index_change();
+      `);
+    }
+  });
+}
+
+/**
+ * Rolls back the search index outbox
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    for (const tableName of SOURCE_TABLES) {
+      await trx.raw(`DROP TRIGGER IF EXISTS ${tableName}_search_index_trigger ON ${tableName}`);
+    }
+
+    await trx.raw('DROP FUNCTION IF EXISTS publish_search_index_change()');
+    await trx.schema.dropTableIfExists('search_index_outbox');
+  });
+}
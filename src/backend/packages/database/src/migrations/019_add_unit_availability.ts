@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Database migration for unit availability calendars
+ * Replaces the single is_available flag with dated unavailability: leases up to
+ * their notice-to-vacate or end date, turnover days after each move-out, holds
+ * from pending applications and blocks entered by property managers
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+const BLOCK_REASONS = ['MAINTENANCE', 'OWNER_HOLD'];
+
+// Lease and application states that keep a unit off the market
+const OCCUPYING_LEASE_STATUSES = ['PENDING_SIGNATURE', 'ACTIVE'];
+const HOLDING_APPLICATION_STATUSES = ['SUBMITTED', 'UNDER_REVIEW', 'PENDING_DOCUMENTS', 'APPROVED'];
+
+// New sources of a listing's availability, published to the search index outbox
+const SEARCH_INDEX_SOURCES = ['unit_availability_blocks', 'leases', 'applications'];
+
+const quoted = (values: string[]): string => values.map((value) => `'${value}'`).join(', ');
+
+/**
+ * Creates availability blocks, notice and turnover columns and the
+ * unit_unavailability view
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.alterTable('units', (table) => {
+      table.integer('turnover_days').notNullable().defaultTo(0);
+    });
+    await trx.raw('ALTER TABLE units ADD CONSTRAINT chk_units_turnover_days CHECK (turnover_days BETWEEN 0 AND 90)');
+
+    await trx.schema.alterTable('leases', (table) => {
+      table.date('notice_to_vacate_date');
+      table.timestamp('notice_given_at');
+    });
+
+    await trx.schema.createTable('unit_availability_blocks', (table) => {
+      table.uuid('id').primary().defaultTo(trx.raw('gen_random_uuid()'));
+      table.uuid('property_id').notNullable().references('id').inTable('properties').onDelete('CASCADE');
+      table.uuid('unit_id').notNullable().references('id').inTable('units').onDelete('CASCADE');
+      table.string('reason', 20).notNullable().checkIn(BLOCK_REASONS);
+      table.date('starts_on').notNullable();
+      // Open-ended when null
+      table.date('ends_on');
+      table.string('note', 500);
+      table.uuid('created_by').notNullable().references('id').inTable('users');
+      table.timestamps(true, true);
+
+      table.index(['unit_id', 'starts_on'], 'idx_unit_availability_blocks_unit');
+    });
+    await trx.raw(`
+      ALTER TABLE unit_availability_blocks
+      ADD CONSTRAINT chk_unit_availability_blocks_dates CHECK (ends_on IS NULL OR ends_on >= starts_on)
+    `);
+
+    // Every dated reason a unit can't be moved into, inclusive of both ends
+    await trx.raw(`
+      CREATE VIEW unit_unavailability AS
+        SELECT l.property_id, l.unit_id, 'LEASE' AS reason,
+               l.start_date AS starts_on,
+               COALESCE(l.notice_to_vacate_date, l.end_date) AS ends_on,
+               l.id AS source_id, l.updated_at
+          FROM leases l
+         WHERE l.status IN (${quoted(OCCUPYING_LEASE_STATUSES)}) AND l.deleted_at IS NULL
+        UNION ALL
+        SELECT l.property_id, l.unit_id, 'TURNOVER',
+               COALESCE(l.notice_to_vacate_date, l.end_date) + 1,
+               COALESCE(l.notice_to_vacate_date, l.end_date) + u.turnover_days,
+               l.id, GREATEST(l.updated_at, u.updated_at)
+          FROM leases l
+          JOIN units u ON u.id = l.unit_id
+         WHERE l.status IN (${quoted(OCCUPYING_LEASE_STATUSES)}) AND l.deleted_at IS NULL
+           AND u.turnover_days > 0
+        UNION ALL
+        SELECT a.property_id, a.unit_id, 'APPLICATION_HOLD',
+               a.desired_move_in_date, NULL,
+               a.id, a.updated_at
+          FROM applications a
+         WHERE a.status IN (${quoted(HOLDING_APPLICATION_STATUSES)}) AND a.deleted_at IS NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM leases l
+              WHERE l.application_id = a.id AND l.status <> 'CANCELLED' AND l.deleted_at IS NULL
+           )
+        UNION ALL
+        SELECT b.property_id, b.unit_id, b.reason,
+               b.starts_on, b.ends_on,
+               b.id, b.updated_at
+          FROM unit_availability_blocks b
+    `);
+
+    for (const tableName of SEARCH_INDEX_SOURCES) {
+      await trx.raw(`
+        CREATE TRIGGER ${tableName}_search_index_trigger
+        AFTER INSERT OR UPDATE OR DELETE ON ${tableName}
+        FOR EACH ROW EXECUTE FUNCTION publish_search_index_change();
+      `);
+    }
+  });
+}
+
+/**
+ * Rolls back unit availability calendars
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    for (const tableName of SEARCH_INDEX_SOURCES) {
+      await trx.raw(`DROP TRIGGER IF EXISTS ${tableName}_search_index_trigger ON ${tableName}`);
+    }
+
+    await trx.raw('DROP VIEW IF EXISTS unit_unavailability');
+    await trx.schema.dropTableIfExists('unit_availability_blocks');
+
+    await trx.schema.alterTable('leases', (table) => {
+      table.dropColumn('notice_to_vacate_date');
+      table.dropColumn('notice_given_at');
+    });
+
+    await trx.raw('ALTER TABLE units DROP CONSTRAINT IF EXISTS chk_units_turnover_days');
+    await trx.schema.alterTable('units', (table) => {
+      table.dropColumn('turnover_days');
+    });
+  });
+}
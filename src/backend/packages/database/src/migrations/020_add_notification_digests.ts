@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Database migration for notification digests
+ * Reuses notification_batches as the per-recipient digest that low-priority
+ * emails accumulate in until its hourly or daily send time
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+const DIGEST_FREQUENCIES = ['HOURLY', 'DAILY'];
+
+/**
+ * Adds digest columns to notification_batches and the batch items table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.alterTable('notification_batches', (table) => {
+      table.string('tenant_id');
+      table.uuid('user_id');
+      table.string('frequency', 10).checkIn(DIGEST_FREQUENCIES);
+      table.timestamp('scheduled_for');
+      table.timestamp('sent_at');
+    });
+
+    // Digests move open -> processing -> sent | failed; each recipient has at
+    // most one open digest per frequency
+    await trx.raw(`
+      CREATE UNIQUE INDEX idx_notification_batches_open_digest
+        ON notification_batches (tenant_id, user_id, frequency) WHERE status = 'open';
+      CREATE INDEX idx_notification_batches_due
+        ON notification_batches (scheduled_for) WHERE status = 'open';
+    `);
+
+    await trx.schema.createTable('notification_batch_items', (table) => {
+      table.uuid('id').primary().defaultTo(trx.raw('gen_random_uuid()'));
+      table.uuid('batch_id').notNullable().references('id').inTable('notification_batches').onDelete('CASCADE');
+      // Notification document held back from immediate delivery
+      table.string('notification_id').notNullable().unique();
+      table.string('category');
+      table.text('subject');
+      table.text('body').notNullable();
+      table.jsonb('data').notNullable().defaultTo('{}');
+      table.timestamp('created_at').notNullable().defaultTo(trx.fn.now());
+      table.index(['batch_id', 'created_at']);
+    });
+  });
+}
+
+/**
+ * Rolls back notification digests
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.dropTableIfExists('notification_batch_items');
+    await trx.raw('DROP INDEX IF EXISTS idx_notification_batches_due');
+    await trx.raw('DROP INDEX IF EXISTS idx_notification_batches_open_digest');
+    await trx.schema.alterTable('notification_batches', (table) => {
+      table.dropColumns('tenant_id', 'user_id', 'frequency', 'scheduled_for', 'sent_at');
+    });
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Database migration for passkeys
+ * Stores WebAuthn credentials next to mfa_settings as a second way to
+ * satisfy MFA
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+/**
+ * Creates the WebAuthn credentials table
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('webauthn_credentials', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    // Account ID issued by auth-service
+    table.string('user_id').notNullable();
+    // Base64url credential ID from the authenticator
+    table.text('credential_id').notNullable().unique();
+    table.binary('public_key').notNullable();
+    // Signature counter; 0 for authenticators that don't keep one
+    table.bigInteger('counter').notNullable().defaultTo(0);
+    table.specificType('transports', 'text[]').notNullable().defaultTo('{}');
+    table.string('device_type', 20).notNullable().checkIn(['singleDevice', 'multiDevice']);
+    table.boolean('backed_up').notNullable().defaultTo(false);
+    table.string('name', 100);
+    table.timestamp('last_used_at');
+    table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+    table.index(['user_id'], 'webauthn_credentials_user_idx');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER webauthn_credentials_audit_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON webauthn_credentials
+    FOR EACH ROW EXECUTE FUNCTION audit_trigger_func();
+  `);
+}
+
+/**
+ * Rolls back passkeys
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS webauthn_credentials_audit_trigger ON webauthn_credentials');
+  await knex.schema.dropTableIfExists('webauthn_credentials');
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Database migration for session tracking
+ * Keys sessions by the account ID issued by auth-service so active sessions
+ * can be listed and revoked
+ * @version 1.0.0
+ */
+
+import { Knex } from 'knex'; // v2.5.0
+
+/**
+ * Re-keys sessions by auth-service account ID
+ */
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('sessions', (table) => {
+    table.dropForeign(['user_id']);
+  });
+
+  await knex.schema.alterTable('sessions', (table) => {
+    // Account ID issued by auth-service
+    table.string('user_id').notNullable().alter();
+  });
+}
+
+/**
+ * Restores the users foreign key. Sessions keyed by auth-service IDs can't be
+ * converted back and are dropped.
+ */
+export async function down(knex: Knex): Promise<void> {
+  await knex('sessions').del();
+
+  await knex.raw('ALTER TABLE sessions ALTER COLUMN user_id DROP NOT NULL');
+  await knex.raw('ALTER TABLE sessions ALTER COLUMN user_id TYPE uuid USING user_id::uuid');
+
+  await knex.schema.alterTable('sessions', (table) => {
+    table.foreign('user_id').references('id').inTable('users').onDelete('CASCADE');
+  });
+}
@@ -9,14 +9,32 @@ import cors from 'cors'; // v2.8.5
 import helmet from 'helmet'; // v7.0.0
 import compression from 'compression'; // v1.7.4
 import rateLimit from 'express-rate-limit'; // v6.9.0
+import * as promClient from 'prom-client'; // v14.2.0
+import { CacheService } from '@nestjs/cache-manager';
 
 import { configureListingRoutes } from './routes/listing.routes';
+import { ListingController } from './controllers/listing.controller';
+import { ListingService } from './services/listing.service';
+import { PropertyRepository } from './repositories/property.repository';
+import { SearchService } from './services/search.service';
+import { AvailabilityRepository } from './repositories/availability.repository';
+import { AvailabilityService } from './services/availability.service';
+import { configureSavedSearchRoutes } from './routes/saved-search.routes';
+import { SavedSearchController } from './controllers/saved-search.controller';
+import { SavedSearchRepository } from './repositories/saved-search.repository';
+import { SavedSearchService } from './services/saved-search.service';
+import { SearchIndexRepository } from './repositories/search-index.repository';
+import { SearchIndexerService } from './services/search-indexer.service';
 import {
   SERVICE_CONFIG,
   ELASTICSEARCH_CONFIG,
+  NOTIFICATION_CONFIG,
   REDIS_CONFIG,
+  SAVED_SEARCH_CONFIG,
+  SEARCH_INDEX_CONFIG,
   createElasticsearchClient,
-  createRedisClient
+  createRedisClient,
+  createTravelTimeGrid
 } from './config';
 import {
   logger,
@@ -24,6 +42,65 @@ import {
   requestTracker,
   healthCheck
 } from '@common/middleware';
+import { NotificationClient } from '@common/clients';
+
+let savedSearchDigestTimer: NodeJS.Timeout | undefined;
+let searchIndexerTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Starts the periodic sweep sending daily saved search digests
+ * @param savedSearchService - Saved search service
+ * @returns Interval handle cleared on shutdown
+ */
+const startSavedSearchDigests = (savedSearchService: SavedSearchService): NodeJS.Timeout =>
+  setInterval(() => {
+    savedSearchService.sendDailyDigests()
+      .then((sent) => {
+        if (sent) {
+          logger.info('Saved search digests sent', { sent });
+        }
+      })
+      .catch((error) => {
+        logger.error('Saved search digest sweep failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+  }, SAVED_SEARCH_CONFIG.digestIntervalMs);
+
+/**
+ * Starts polling the outbox and applying listing changes to the search index.
+ * A full batch is followed immediately by the next one; applied events are
+ * purged once a day.
+ * @param indexer - Search indexer
+ * @returns Interval handle cleared on shutdown
+ */
+const startSearchIndexer = (indexer: SearchIndexerService): NodeJS.Timeout => {
+  let running = false;
+  let lastPurge = 0;
+
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      let applied: number;
+      do {
+        applied = await indexer.processOutbox();
+      } while (applied >= SEARCH_INDEX_CONFIG.batchSize);
+
+      if (Date.now() - lastPurge > 24 * 60 * 60 * 1000) {
+        lastPurge = Date.now();
+        await indexer.purgeProcessed();
+      }
+    } catch (error) {
+      logger.error('Search indexer run failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      running = false;
+    }
+  }, SEARCH_INDEX_CONFIG.pollIntervalMs);
+};
 
 /**
  * Initializes and configures the Express application with comprehensive
@@ -113,8 +190,49 @@ const initializeApp = async (): Promise<Express> => {
     }
   });
 
+  // Saved searches and listing alerts
+  const savedSearchService = new SavedSearchService(
+    new SavedSearchRepository(),
+    new NotificationClient(logger, NOTIFICATION_CONFIG),
+    logger
+  );
+
+  // Listings; changes are matched against saved searches
+  const listingService = new ListingService(
+    new PropertyRepository(undefined, elasticsearchClient),
+    new SearchService(
+      elasticsearchClient,
+      redisClient,
+      { indexName: ELASTICSEARCH_CONFIG.indices.properties },
+      createTravelTimeGrid()
+    ),
+    redisClient,
+    logger,
+    promClient,
+    savedSearchService
+  );
+  // Listing entries are cached in Redis under the keys the controller evicts
+  const listingCache = { del: (key: string) => redisClient.del(key) } as unknown as CacheService;
+  const listingController = new ListingController(
+    listingService,
+    listingCache,
+    new AvailabilityService(new AvailabilityRepository(), logger)
+  );
+
   // API routes
-  app.use('/api/v1/listings', configureListingRoutes);
+  app.use('/api/v1/listings', configureListingRoutes(listingController));
+  app.use('/api/v1/saved-searches', configureSavedSearchRoutes(new SavedSearchController(savedSearchService)));
+
+  if (SAVED_SEARCH_CONFIG.digestEnabled && process.env.NODE_ENV !== 'test') {
+    savedSearchDigestTimer = startSavedSearchDigests(savedSearchService);
+  }
+
+  // Keep the search index in sync with listing changes
+  if (SEARCH_INDEX_CONFIG.enabled && process.env.NODE_ENV !== 'test') {
+    searchIndexerTimer = startSearchIndexer(
+      new SearchIndexerService(new SearchIndexRepository(), elasticsearchClient, logger)
+    );
+  }
 
   // Error handling
   app.use(errorHandler);
@@ -141,6 +259,13 @@ const startServer = async (): Promise<void> => {
     const shutdown = async (signal: string) => {
       logger.info(`Received ${signal}, starting graceful shutdown...`);
 
+      if (savedSearchDigestTimer) {
+        clearInterval(savedSearchDigestTimer);
+      }
+      if (searchIndexerTimer) {
+        clearInterval(searchIndexerTimer);
+      }
+
       server.close(async () => {
         try {
           // Close database connections and cleanup
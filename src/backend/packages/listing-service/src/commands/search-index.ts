@@ -0,0 +1,56 @@
+/**
+ * Search index maintenance command.
+ *
+ *   search-index reindex  Rebuilds the index and swaps the alias to it
+ *   search-index drift    Reports differences between the database and the
+ *                         index; exits non-zero when they are out of sync
+ * @packageDocumentation
+ */
+
+import { logger } from '@common/middleware';
+import { SearchIndexRepository } from '../repositories/search-index.repository';
+import { SearchIndexerService } from '../services/search-indexer.service';
+import { createElasticsearchClient } from '../config';
+
+const COMMANDS = ['reindex', 'drift'] as const;
+type Command = typeof COMMANDS[number];
+
+/**
+ * Runs a search index command
+ * @param command - Command name
+ * @returns Process exit code
+ */
+export const runSearchIndexCommand = async (command: Command): Promise<number> => {
+  const elasticsearchClient = createElasticsearchClient();
+  const indexer = new SearchIndexerService(new SearchIndexRepository(), elasticsearchClient, logger);
+
+  try {
+    if (command === 'reindex') {
+      const result = await indexer.reindex();
+      console.log(JSON.stringify(result, null, 2));
+      return 0;
+    }
+
+    const report = await indexer.reportDrift();
+    console.log(JSON.stringify(report, null, 2));
+    return report.inSync ? 0 : 1;
+  } finally {
+    await elasticsearchClient.close();
+  }
+};
+
+if (require.main === module) {
+  const command = process.argv[2] as Command;
+
+  if (!COMMANDS.includes(command)) {
+    console.error(`Usage: search-index <${COMMANDS.join('|')}>`);
+    process.exit(2);
+  }
+
+  runSearchIndexCommand(command)
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      logger.error(`Search index ${command} failed`, { error: error.message });
+      process.exit(1);
+    });
+}
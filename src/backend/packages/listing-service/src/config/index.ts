@@ -8,6 +8,7 @@ import { Client } from '@elastic/elasticsearch'; // v8.9.0
 import Redis from 'ioredis'; // v5.3.2
 import { HTTP_STATUS } from '../../../common/src/constants';
 import { DATABASE_CONFIG } from '../../../database/src/config';
+import { TravelTimeGrid } from '../services/travel-time.grid';
 
 /**
  * Core service configuration with enhanced security and monitoring
@@ -99,6 +100,74 @@ export const SEARCH_CONFIG = {
     enabled: true,
     sampleRate: 0.1,
   },
+  maxPolygonVertices: 100,
+  suggest: {
+    minLength: 2,
+    defaultLimit: 8,
+    maxLimit: 15,
+    cacheExpiry: 60,
+  },
+} as const;
+
+/**
+ * Listing search index synchronization configuration
+ */
+export const SEARCH_INDEX_CONFIG = {
+  // Searches go through this alias; reindexing swaps it to a fresh index
+  alias: ELASTICSEARCH_CONFIG.indices.properties,
+  enabled: process.env.SEARCH_INDEXER_ENABLED !== 'false',
+  pollIntervalMs: parseInt(process.env.SEARCH_INDEXER_POLL_INTERVAL_MS, 10) || 2000,
+  batchSize: 200,
+  // Claimed events are retried by another instance if not applied in time
+  leaseSeconds: 60,
+  maxAttempts: 10,
+  retentionDays: 7,
+  reindexPageSize: 500,
+  driftPageSize: 1000,
+  driftSampleSize: 100,
+} as const;
+
+/**
+ * Commute search configuration backed by the precomputed travel-time grid
+ */
+export const COMMUTE_CONFIG = {
+  // Grid JSON produced offline for the service region; commute search is off without it
+  gridPath: process.env.TRAVEL_TIME_GRID_PATH,
+  maxMinutes: 90,
+  // Upper bound on rectangles sent to Elasticsearch for one isochrone
+  maxAreaBoxes: 1000,
+} as const;
+
+/**
+ * Notification service configuration for saved search alerts
+ */
+export const NOTIFICATION_CONFIG = {
+  enabled: process.env.NOTIFICATIONS_ENABLED === 'true',
+  serviceUrl: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3005',
+  tenantId: process.env.NOTIFICATION_TENANT_ID || 'projectx',
+  emailEnabled: process.env.EMAIL_NOTIFICATIONS_ENABLED === 'true',
+  templates: {
+    savedSearchInstant: process.env.TEMPLATE_SAVED_SEARCH_INSTANT || 'saved-search-instant',
+    savedSearchDigest: process.env.TEMPLATE_SAVED_SEARCH_DIGEST || 'saved-search-digest',
+  },
+} as const;
+
+/**
+ * Saved search and listing alert configuration
+ */
+export const SAVED_SEARCH_CONFIG = {
+  maxPerUser: parseInt(process.env.SAVED_SEARCH_MAX_PER_USER, 10) || 20,
+  maxListingsPerDigest: 20,
+  digestEnabled: process.env.SAVED_SEARCH_DIGEST_ENABLED !== 'false',
+  // How often pending daily matches are checked; each search digests at most once a day
+  digestIntervalMs: parseInt(process.env.SAVED_SEARCH_DIGEST_INTERVAL_MS, 10) || 60 * 60 * 1000,
+  // Signs the one-click unsubscribe tokens embedded in alert emails
+  unsubscribeSecret: process.env.SAVED_SEARCH_UNSUBSCRIBE_SECRET,
+  // Page linked from the email body, and the endpoint mail clients POST to for RFC 8058 one-click
+  unsubscribeUrl: process.env.SAVED_SEARCH_UNSUBSCRIBE_URL || 'https://app.projectx.com/saved-searches/unsubscribe',
+  oneClickUnsubscribeUrl: process.env.SAVED_SEARCH_ONE_CLICK_UNSUBSCRIBE_URL
+    || 'https://api.projectx.com/api/v1/saved-searches/unsubscribe',
+  listingUrl: process.env.LISTING_URL || 'https://app.projectx.com/properties',
 } as const;
 
 /**
@@ -141,6 +210,23 @@ export const createElasticsearchClient = (): Client => {
   }
 };
 
+/**
+ * Loads the travel-time grid used for commute searches
+ * @returns Grid instance, or undefined when no grid is configured
+ */
+export const createTravelTimeGrid = (): TravelTimeGrid | undefined => {
+  if (!COMMUTE_CONFIG.gridPath) {
+    return undefined;
+  }
+
+  try {
+    return TravelTimeGrid.fromFile(COMMUTE_CONFIG.gridPath);
+  } catch (error) {
+    console.error('Failed to load travel-time grid:', error);
+    throw new Error(`Travel-time grid initialization failed: ${error.message}`);
+  }
+};
+
 /**
  * Creates and configures a production-ready Redis client with clustering support
  * @returns Configured Redis client instance
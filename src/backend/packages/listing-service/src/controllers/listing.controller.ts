@@ -29,6 +29,11 @@ import { RateLimit } from '@nestjs/throttler';
 import { CacheInterceptor, CacheService } from '@nestjs/cache-manager';
 
 import { ListingService } from '../services/listing.service';
+import { PolygonSearchParams, CommuteSearchParams } from '../services/search.service';
+import { Suggestion } from '../services/suggestion.ranker';
+import { AvailabilityService } from '../services/availability.service';
+import { AvailabilityBlockRecord } from '../repositories/availability.repository';
+import { CreateAvailabilityBlockInput, UnitAvailability } from '../models/availability.model';
 import { Property, PropertyType, PropertyStatus } from '../models/property.model';
 import { ApiResponse as CustomApiResponse } from '@common/interfaces';
 import { CACHE_TTL, HTTP_STATUS } from '@common/constants';
@@ -67,7 +72,8 @@ interface SearchQueryParams {
   bedrooms?: number;
   bathrooms?: number;
   amenities?: string[];
-  availableFrom?: Date;
+  moveInFrom?: string;
+  moveInTo?: string;
   page?: number;
   limit?: number;
   sortBy?: string;
@@ -87,7 +93,8 @@ export class ListingController {
 
   constructor(
     private readonly listingService: ListingService,
-    private readonly cacheService: CacheService
+    private readonly cacheService: CacheService,
+    private readonly availabilityService: AvailabilityService
   ) {}
 
   /**
@@ -225,32 +232,183 @@ export class ListingController {
   }
 
   /**
-   * Updates property availability status
+   * Suggests neighborhoods, cities, properties and amenities as the renter types
    */
-  @Put(':id/availability')
-  @ApiOperation({ summary: 'Update property availability' })
+  @Get('search/suggest')
+  @ApiOperation({ summary: 'Suggest search terms' })
+  @ApiQuery({ name: 'q', required: true, description: 'Text typed so far' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Maximum suggestions' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Suggestions retrieved successfully' })
+  async suggestSearchTerms(
+    @Query('q') input: string,
+    @Query('limit') limit?: number
+  ): Promise<CustomApiResponse<Suggestion[]>> {
+    try {
+      const suggestions = await this.listingService.suggestSearchTerms(input, limit);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: suggestions,
+        message: 'Suggestions retrieved successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to suggest search terms', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches property listings inside a polygon drawn on the map
+   */
+  @Post('search/polygon')
+  @ApiOperation({ summary: 'Search property listings within a polygon' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Search results retrieved successfully' })
+  async searchWithinPolygon(
+    @Body() params: PolygonSearchParams
+  ): Promise<CustomApiResponse<any>> {
+    try {
+      const results = await this.listingService.searchWithinPolygon(params);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: results,
+        message: 'Search results retrieved successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to search property listings within polygon', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches property listings within a travel time of an address
+   */
+  @Post('search/commute')
+  @ApiOperation({ summary: 'Search property listings by commute time' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Search results retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.SERVICE_UNAVAILABLE, description: 'Commute search not configured' })
+  async searchByCommute(
+    @Body() params: CommuteSearchParams
+  ): Promise<CustomApiResponse<any>> {
+    try {
+      const results = await this.listingService.searchByCommute(params);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: results,
+        message: 'Search results retrieved successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to search property listings by commute', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the availability calendar of every unit
+   */
+  @Get(':id/availability')
+  @ApiOperation({ summary: 'Get unit availability calendars' })
   @ApiParam({ name: 'id', description: 'Property ID' })
-  @ApiResponse({ status: HttpStatus.OK, description: 'Availability updated successfully' })
-  async updateAvailability(
-    @Param('id') id: string,
-    @Body() data: { status: PropertyStatus }
-  ): Promise<CustomApiResponse<Property>> {
-    this.logger.log(`Updating property availability: ${id}`);
-    
+  @ApiResponse({ status: HttpStatus.OK, description: 'Availability retrieved successfully' })
+  async getAvailability(
+    @Param('id') id: string
+  ): Promise<CustomApiResponse<UnitAvailability[]>> {
     try {
-      const property = await this.listingService.updateAvailability(id, data.status);
-      await this.cacheService.del(`listing:${id}`);
-      
+      const availability = await this.availabilityService.getPropertyAvailability(id);
+
       return {
         status: HTTP_STATUS.OK,
-        data: property,
-        message: 'Property availability updated successfully',
+        data: availability,
+        message: 'Unit availability retrieved successfully',
         errors: [],
         timestamp: new Date(),
         requestId: crypto.randomUUID()
       };
     } catch (error) {
-      this.logger.error(`Failed to update property availability: ${id}`, error.stack);
+      this.logger.error(`Failed to retrieve unit availability: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Takes a unit off the market for a period
+   */
+  @Post(':id/availability/blocks')
+  @ApiOperation({ summary: 'Add unit availability block' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Block added successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Unit not found' })
+  async addAvailabilityBlock(
+    @Param('id') id: string,
+    @Body() input: CreateAvailabilityBlockInput,
+    userId: string
+  ): Promise<CustomApiResponse<AvailabilityBlockRecord>> {
+    this.logger.log(`Adding unit availability block: ${id}`);
+
+    try {
+      const block = await this.availabilityService.addBlock(id, input, userId);
+
+      return {
+        status: HTTP_STATUS.CREATED,
+        data: block,
+        message: 'Unit availability block added successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error(`Failed to add unit availability block: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a manual availability block
+   */
+  @Delete(':id/availability/blocks/:blockId')
+  @ApiOperation({ summary: 'Remove unit availability block' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiParam({ name: 'blockId', description: 'Block ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Block removed successfully' })
+  async removeAvailabilityBlock(
+    @Param('id') id: string,
+    @Param('blockId') blockId: string
+  ): Promise<void> {
+    try {
+      await this.availabilityService.removeBlock(id, blockId);
+    } catch (error) {
+      this.logger.error(`Failed to remove unit availability block: ${blockId}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Sets the days a unit stays off the market after each move-out
+   */
+  @Put(':id/units/:unitId/turnover')
+  @ApiOperation({ summary: 'Update unit turnover days' })
+  @ApiParam({ name: 'id', description: 'Property ID' })
+  @ApiParam({ name: 'unitId', description: 'Unit ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Turnover days updated successfully' })
+  async setTurnoverDays(
+    @Param('id') id: string,
+    @Param('unitId') unitId: string,
+    @Body('turnoverDays') turnoverDays: number
+  ): Promise<void> {
+    try {
+      await this.availabilityService.setTurnoverDays(id, unitId, turnoverDays);
+    } catch (error) {
+      this.logger.error(`Failed to update unit turnover days: ${unitId}`, error.stack);
       throw error;
     }
   }
@@ -0,0 +1,158 @@
+/**
+ * REST API controller for renters' saved searches and the one-click
+ * unsubscribe link sent with listing alerts.
+ * @packageDocumentation
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+
+import { SavedSearchService, SaveSearchParams } from '../services/saved-search.service';
+import { SavedSearch, SavedSearchFrequency } from '../models/saved-search.model';
+import { ApiResponse as CustomApiResponse } from '@common/interfaces';
+import { HTTP_STATUS } from '@common/constants';
+
+@Controller('v1/saved-searches')
+@ApiTags('saved-searches')
+export class SavedSearchController {
+  private readonly logger = new Logger(SavedSearchController.name);
+
+  constructor(private readonly savedSearchService: SavedSearchService) {}
+
+  /**
+   * Saves the renter's current search filters
+   */
+  @Post()
+  @ApiOperation({ summary: 'Save search filters' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Search saved successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Saved search limit reached' })
+  async saveSearch(
+    @Body() params: SaveSearchParams,
+    userId: string
+  ): Promise<CustomApiResponse<SavedSearch>> {
+    try {
+      const savedSearch = await this.savedSearchService.saveSearch(userId, params);
+
+      return {
+        status: HTTP_STATUS.CREATED,
+        data: savedSearch,
+        message: 'Search saved successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to save search', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the renter's saved searches
+   */
+  @Get()
+  @ApiOperation({ summary: 'List saved searches' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Saved searches retrieved successfully' })
+  async listSavedSearches(userId: string): Promise<CustomApiResponse<SavedSearch[]>> {
+    try {
+      const savedSearches = await this.savedSearchService.listSavedSearches(userId);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: savedSearches,
+        message: 'Saved searches retrieved successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to list saved searches', error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Renames a saved search or changes its alert frequency
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update saved search' })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Saved search updated successfully' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Saved search belongs to another user' })
+  async updateSavedSearch(
+    @Param('id') id: string,
+    @Body() changes: { name?: string; frequency?: SavedSearchFrequency },
+    userId: string
+  ): Promise<CustomApiResponse<SavedSearch>> {
+    try {
+      const savedSearch = await this.savedSearchService.updateSavedSearch(id, userId, changes);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: savedSearch,
+        message: 'Saved search updated successfully',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error(`Failed to update saved search: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes a saved search
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete saved search' })
+  @ApiParam({ name: 'id', description: 'Saved search ID' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Saved search deleted successfully' })
+  async deleteSavedSearch(
+    @Param('id') id: string,
+    userId: string
+  ): Promise<void> {
+    try {
+      await this.savedSearchService.deleteSavedSearch(id, userId);
+    } catch (error) {
+      this.logger.error(`Failed to delete saved search: ${id}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Switches off alerts from the link in an alert email
+   */
+  @Post('unsubscribe')
+  @ApiOperation({ summary: 'Unsubscribe from saved search alerts' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Alerts switched off' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid unsubscribe link' })
+  async unsubscribe(@Query('token') token: string): Promise<CustomApiResponse<void>> {
+    try {
+      await this.savedSearchService.unsubscribe(token);
+
+      return {
+        status: HTTP_STATUS.OK,
+        data: null,
+        message: 'You will no longer receive alerts for this search',
+        errors: [],
+        timestamp: new Date(),
+        requestId: crypto.randomUUID()
+      };
+    } catch (error) {
+      this.logger.error('Failed to unsubscribe saved search', error.stack);
+      throw error;
+    }
+  }
+}
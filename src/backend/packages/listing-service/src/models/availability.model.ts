@@ -0,0 +1,79 @@
+/**
+ * Core TypeScript model for unit availability calendars.
+ * A unit is available on every day not covered by one of its unavailability
+ * blocks; dates are calendar days in `YYYY-MM-DD` form.
+ * @packageDocumentation
+ */
+
+/**
+ * Enumeration of reasons a unit can't be moved into
+ */
+export enum UnavailabilityReason {
+  /** Signed or pending lease, up to the notice-to-vacate or end date */
+  LEASE = 'LEASE',
+  /** Cleaning and repairs after a move-out */
+  TURNOVER = 'TURNOVER',
+  /** Pending application for the unit, from its desired move-in date */
+  APPLICATION_HOLD = 'APPLICATION_HOLD',
+  /** Entered by the property manager */
+  MAINTENANCE = 'MAINTENANCE',
+  /** Entered by the property manager */
+  OWNER_HOLD = 'OWNER_HOLD'
+}
+
+/**
+ * Reasons property managers can enter by hand; the rest are derived from
+ * leases, applications and turnover days
+ */
+export const MANUAL_UNAVAILABILITY_REASONS = [
+  UnavailabilityReason.MAINTENANCE,
+  UnavailabilityReason.OWNER_HOLD
+] as const;
+
+export type ManualUnavailabilityReason = typeof MANUAL_UNAVAILABILITY_REASONS[number];
+
+/**
+ * Period a unit can't be moved into, inclusive of both ends
+ */
+export interface UnavailabilityBlock {
+  readonly reason: UnavailabilityReason;
+  readonly startsOn: string;
+  /** Null when open-ended */
+  readonly endsOn: string | null;
+  /** Lease, application or manual block the period comes from */
+  readonly sourceId: string;
+}
+
+/**
+ * Period a unit can be moved into, inclusive of both ends
+ */
+export interface AvailabilityWindow {
+  /** Null when the unit has been available since before any block */
+  readonly from: string | null;
+  /** Null when open-ended */
+  readonly until: string | null;
+}
+
+/**
+ * Availability calendar of one unit
+ */
+export interface UnitAvailability {
+  readonly unitId: string;
+  readonly unitNumber: string;
+  readonly turnoverDays: number;
+  /** First day from today the unit can be moved into, null when fully booked */
+  readonly nextAvailableDate: string | null;
+  readonly windows: AvailabilityWindow[];
+  readonly blocks: UnavailabilityBlock[];
+}
+
+/**
+ * Manual unavailability entered by a property manager
+ */
+export interface CreateAvailabilityBlockInput {
+  readonly unitId: string;
+  readonly reason: ManualUnavailabilityReason;
+  readonly startsOn: string;
+  readonly endsOn?: string | null;
+  readonly note?: string;
+}
@@ -6,6 +6,7 @@
  */
 
 import { BaseEntity, Address, GeoLocation } from '@common/interfaces';
+import { AvailabilityWindow } from './availability.model';
 
 /**
  * Enumeration of supported property types
@@ -73,6 +74,8 @@ export interface Unit {
   isAvailable: boolean;
   monthlyRent: number;
   features: string[];
+  /** Days the unit can be moved into, when its calendar has been loaded */
+  availability?: AvailabilityWindow[];
 }
 
 /**
@@ -0,0 +1,86 @@
+/**
+ * Core TypeScript model defining renters' saved searches.
+ * A saved search keeps the filters of a property search so newly created or
+ * re-priced listings matching them can be alerted instantly or in a daily digest.
+ * @packageDocumentation
+ */
+
+import { BaseEntity } from '@common/interfaces';
+import { GeoSearchParams, SearchParams } from '../services/search.service';
+
+/**
+ * Enumeration of alert frequencies
+ */
+export enum SavedSearchFrequency {
+  /** Alert as soon as a listing matches */
+  INSTANT = 'INSTANT',
+  /** Collect matches into one digest a day */
+  DAILY = 'DAILY'
+}
+
+/**
+ * Enumeration of listing changes that trigger a match
+ */
+export enum SavedSearchMatchReason {
+  NEW_LISTING = 'NEW_LISTING',
+  PRICE_CHANGE = 'PRICE_CHANGE'
+}
+
+/**
+ * Filters stored with a saved search. Paging and sorting are not kept.
+ */
+export type SavedSearchCriteria =
+  | Omit<SearchParams, 'page' | 'limit' | 'sortBy' | 'sortOrder'>
+  | Omit<GeoSearchParams, 'page' | 'limit' | 'sortBy' | 'sortOrder'>;
+
+/**
+ * Renter's saved search
+ */
+export interface SavedSearch extends BaseEntity {
+  readonly id: string;
+
+  /** Renter who saved the search */
+  readonly userId: string;
+
+  /** Display name chosen by the renter */
+  readonly name: string;
+
+  /** Saved filters */
+  readonly criteria: SavedSearchCriteria;
+
+  /** Alert frequency */
+  readonly frequency: SavedSearchFrequency;
+
+  /** Set when alerts were switched off through the unsubscribe link */
+  readonly unsubscribedAt: Date | null;
+
+  /** Last time an alert was sent */
+  readonly lastNotifiedAt: Date | null;
+
+  readonly createdAt: Date;
+
+  readonly updatedAt: Date;
+}
+
+/**
+ * Listing matched against a saved search
+ */
+export interface SavedSearchMatch {
+  readonly id: string;
+  readonly savedSearchId: string;
+  readonly propertyId: string;
+  readonly reason: SavedSearchMatchReason;
+  /** Lowest matching rent when the match was recorded */
+  readonly monthlyRent: number;
+  readonly matchedAt: Date;
+  /** Null while waiting for the next digest */
+  readonly notifiedAt: Date | null;
+}
+
+/**
+ * Pending digest match with the listing details shown in the alert
+ */
+export interface SavedSearchDigestEntry extends SavedSearchMatch {
+  readonly propertyName: string;
+  readonly city: string;
+}
@@ -0,0 +1,113 @@
+/**
+ * Core TypeScript model for keeping the listing search index in sync with the
+ * database. Database triggers publish every listing change into an outbox;
+ * the indexer applies those events to Elasticsearch.
+ * @packageDocumentation
+ */
+
+/**
+ * Listing change published by the database outbox triggers
+ */
+export interface SearchIndexEvent {
+  /** Monotonic outbox ID, also used as the external document version */
+  readonly id: number;
+
+  readonly propertyId: string;
+
+  /** Table whose row changed */
+  readonly sourceTable: string;
+
+  /** INSERT, UPDATE or DELETE */
+  readonly operation: string;
+
+  readonly createdAt: Date;
+
+  /** Delivery attempts so far, including the current one */
+  readonly attempts: number;
+}
+
+/**
+ * Listing as stored in the search index
+ */
+export interface PropertySearchDocument {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string | null;
+  readonly type: string;
+  readonly status: string;
+  readonly ownerId: string;
+  readonly yearBuilt: number | null;
+  readonly totalUnits: number | null;
+  readonly address: {
+    readonly street1: string;
+    readonly street2: string | null;
+    readonly city: string;
+    readonly neighborhood: string | null;
+    readonly state: string;
+    readonly zipCode: string;
+    readonly country: string;
+  } | null;
+  readonly location: { readonly lat: number; readonly lon: number } | null;
+  readonly amenities: string[];
+  readonly units: {
+    readonly id: string;
+    readonly unitNumber: string;
+    readonly bedrooms: number;
+    readonly bathrooms: number;
+    readonly squareFeet: number | null;
+    readonly monthlyRent: number;
+    /** Days the unit can be moved into; a missing bound is open */
+    readonly availability: { readonly gte?: string; readonly lte?: string }[];
+  }[];
+  readonly createdAt: Date;
+  /** Latest change to any row in the document, used to detect stale entries */
+  readonly sourceUpdatedAt: Date;
+}
+
+/**
+ * Listing's freshness in the database, compared against the index for drift
+ */
+export interface SearchIndexSourceVersion {
+  readonly id: string;
+  readonly sourceUpdatedAt: Date;
+}
+
+/**
+ * Outbox backlog summary
+ */
+export interface SearchIndexOutboxStats {
+  /** Events waiting to be applied */
+  readonly pending: number;
+
+  /** Events that exhausted their retries */
+  readonly failed: number;
+
+  readonly oldestPendingAt: Date | null;
+}
+
+/**
+ * Differences between the database and the search index
+ */
+export interface SearchIndexDriftReport {
+  readonly checkedAt: Date;
+  readonly databaseCount: number;
+  readonly indexCount: number;
+
+  readonly missingCount: number;
+  readonly orphanedCount: number;
+  readonly staleCount: number;
+
+  /** Sample of listings in the database but not in the index */
+  readonly missing: string[];
+
+  /** Sample of documents for listings that are deleted or inactive */
+  readonly orphaned: string[];
+
+  /** Sample of documents older than the listing in the database */
+  readonly stale: string[];
+
+  readonly outbox: SearchIndexOutboxStats;
+
+  /** True when nothing is missing, orphaned or stale */
+  readonly inSync: boolean;
+}
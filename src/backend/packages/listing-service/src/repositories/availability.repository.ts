@@ -0,0 +1,152 @@
+/**
+ * Availability repository reading unit unavailability from leases,
+ * applications and turnover days, and persisting manual blocks.
+ * @packageDocumentation
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool } from '@database/config';
+import {
+  CreateAvailabilityBlockInput,
+  UnavailabilityBlock,
+  UnavailabilityReason
+} from '../models/availability.model';
+
+/**
+ * Unit with its unavailability, before windows are computed
+ */
+export interface UnitCalendarRecord {
+  readonly unitId: string;
+  readonly unitNumber: string;
+  readonly turnoverDays: number;
+  readonly blocks: UnavailabilityBlock[];
+}
+
+/**
+ * Stored manual block
+ */
+export interface AvailabilityBlockRecord extends UnavailabilityBlock {
+  readonly id: string;
+  readonly propertyId: string;
+  readonly unitId: string;
+  readonly note: string | null;
+  readonly createdBy: string;
+}
+
+@Injectable()
+export class AvailabilityRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Loads every unit of a property with its unavailability
+   * @param propertyId Property ID
+   * @returns Units in unit number order
+   */
+  async findPropertyCalendar(propertyId: string): Promise<UnitCalendarRecord[]> {
+    const { rows } = await this.dbPool.query(
+      `SELECT u.id, u.unit_number, u.turnover_days,
+              COALESCE(json_agg(json_build_object(
+                'reason', v.reason,
+                'startsOn', v.starts_on,
+                'endsOn', v.ends_on,
+                'sourceId', v.source_id
+              ) ORDER BY v.starts_on) FILTER (WHERE v.unit_id IS NOT NULL), '[]') AS blocks
+         FROM units u
+         LEFT JOIN unit_unavailability v ON v.unit_id = u.id
+        WHERE u.property_id = $1 AND u.deleted_at IS NULL
+        GROUP BY u.id
+        ORDER BY u.unit_number`,
+      [propertyId]
+    );
+
+    return rows.map((row) => ({
+      unitId: row.id,
+      unitNumber: row.unit_number,
+      turnoverDays: row.turnover_days,
+      blocks: row.blocks
+    }));
+  }
+
+  /**
+   * Checks that a unit belongs to a property
+   * @param propertyId Property ID
+   * @param unitId Unit ID
+   */
+  async unitExists(propertyId: string, unitId: string): Promise<boolean> {
+    const { rows: [row] } = await this.dbPool.query(
+      'SELECT 1 FROM units WHERE id = $1 AND property_id = $2 AND deleted_at IS NULL',
+      [unitId, propertyId]
+    );
+
+    return Boolean(row);
+  }
+
+  /**
+   * Saves a manual block
+   * @param propertyId Property ID
+   * @param input Block details
+   * @param createdBy Property manager entering the block
+   */
+  async createBlock(
+    propertyId: string,
+    input: CreateAvailabilityBlockInput,
+    createdBy: string
+  ): Promise<AvailabilityBlockRecord> {
+    const { rows: [row] } = await this.dbPool.query(
+      `INSERT INTO unit_availability_blocks (property_id, unit_id, reason, starts_on, ends_on, note, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id, property_id, unit_id, reason, note, created_by,
+                 starts_on::text AS starts_on, ends_on::text AS ends_on`,
+      [propertyId, input.unitId, input.reason, input.startsOn, input.endsOn ?? null, input.note ?? null, createdBy]
+    );
+
+    return this.mapBlock(row);
+  }
+
+  /**
+   * Deletes a manual block of a property
+   * @param propertyId Property ID
+   * @param blockId Block ID
+   * @returns Whether the block existed
+   */
+  async deleteBlock(propertyId: string, blockId: string): Promise<boolean> {
+    const { rowCount } = await this.dbPool.query(
+      'DELETE FROM unit_availability_blocks WHERE id = $1 AND property_id = $2',
+      [blockId, propertyId]
+    );
+
+    return rowCount > 0;
+  }
+
+  /**
+   * Sets the days a unit needs between tenants
+   * @param propertyId Property ID
+   * @param unitId Unit ID
+   * @param turnoverDays Days after each move-out
+   * @returns Whether the unit exists
+   */
+  async updateTurnoverDays(propertyId: string, unitId: string, turnoverDays: number): Promise<boolean> {
+    const { rowCount } = await this.dbPool.query(
+      `UPDATE units SET turnover_days = $3, updated_at = NOW()
+        WHERE id = $1 AND property_id = $2 AND deleted_at IS NULL`,
+      [unitId, propertyId, turnoverDays]
+    );
+
+    return rowCount > 0;
+  }
+
+  private mapBlock(row: any): AvailabilityBlockRecord {
+    return {
+      id: row.id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      reason: row.reason as UnavailabilityReason,
+      startsOn: row.starts_on,
+      endsOn: row.ends_on,
+      sourceId: row.id,
+      note: row.note,
+      createdBy: row.created_by
+    };
+  }
+}
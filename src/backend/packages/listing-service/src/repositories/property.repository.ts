@@ -152,21 +152,7 @@ export class PropertyRepository {
         );
       }
 
-      // Index in Elasticsearch
-      await this.searchCircuitBreaker.fire(async () => {
-        await this.esClient.index({
-          index: 'properties',
-          id: propertyResult.rows[0].id,
-          document: {
-            ...propertyResult.rows[0],
-            location: {
-              lat: property.location.latitude,
-              lon: property.location.longitude
-            }
-          }
-        });
-      });
-
+      // The search index is updated from the outbox once this commits
       await client.query('COMMIT');
       return propertyResult.rows[0];
 
@@ -0,0 +1,329 @@
+/**
+ * Saved search repository implementing persistence for renters' saved searches
+ * and the listings matched against them.
+ * @packageDocumentation
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool } from '@database/config';
+import { NotFoundError } from '@common/errors';
+import { PropertyType } from '../models/property.model';
+import {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchDigestEntry,
+  SavedSearchFrequency,
+  SavedSearchMatch,
+  SavedSearchMatchReason
+} from '../models/saved-search.model';
+
+/**
+ * Parameters for a new saved search
+ */
+export interface CreateSavedSearchParams {
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency: SavedSearchFrequency;
+}
+
+@Injectable()
+export class SavedSearchRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Creates a saved search
+   * @param params Saved search details
+   * @returns Created saved search
+   */
+  async create(params: CreateSavedSearchParams): Promise<SavedSearch> {
+    const { rows: [row] } = await this.dbPool.query(
+      `INSERT INTO saved_searches (user_id, name, criteria, frequency)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [params.userId, params.name, JSON.stringify(params.criteria), params.frequency]
+    );
+
+    return this.mapSavedSearch(row);
+  }
+
+  /**
+   * Retrieves a saved search by ID
+   * @param id Saved search ID
+   * @returns Saved search
+   * @throws NotFoundError if the saved search doesn't exist
+   */
+  async findById(id: string): Promise<SavedSearch> {
+    const { rows: [row] } = await this.dbPool.query(
+      'SELECT * FROM saved_searches WHERE id = $1',
+      [id]
+    );
+
+    if (!row) {
+      throw new NotFoundError('Saved search not found');
+    }
+
+    return this.mapSavedSearch(row);
+  }
+
+  /**
+   * Retrieves a renter's saved searches, newest first
+   * @param userId Renter ID
+   * @returns Saved searches
+   */
+  async findByUser(userId: string): Promise<SavedSearch[]> {
+    const { rows } = await this.dbPool.query(
+      'SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+
+    return rows.map((row) => this.mapSavedSearch(row));
+  }
+
+  /**
+   * Counts a renter's saved searches
+   * @param userId Renter ID
+   * @returns Number of saved searches
+   */
+  async countByUser(userId: string): Promise<number> {
+    const { rows: [row] } = await this.dbPool.query(
+      'SELECT COUNT(*)::int AS count FROM saved_searches WHERE user_id = $1',
+      [userId]
+    );
+
+    return row.count;
+  }
+
+  /**
+   * Changes the name or alert frequency of a saved search. Choosing a
+   * frequency turns alerts back on after an unsubscribe.
+   * @param id Saved search ID
+   * @param changes Fields to change
+   * @returns Updated saved search
+   * @throws NotFoundError if the saved search doesn't exist
+   */
+  async update(
+    id: string,
+    changes: { name?: string; frequency?: SavedSearchFrequency }
+  ): Promise<SavedSearch> {
+    const { rows: [row] } = await this.dbPool.query(
+      `UPDATE saved_searches
+          SET name = COALESCE($2, name),
+              frequency = COALESCE($3, frequency),
+              unsubscribed_at = CASE WHEN $3::text IS NULL THEN unsubscribed_at END,
+              updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [id, changes.name ?? null, changes.frequency ?? null]
+    );
+
+    if (!row) {
+      throw new NotFoundError('Saved search not found');
+    }
+
+    return this.mapSavedSearch(row);
+  }
+
+  /**
+   * Deletes a saved search and its matches
+   * @param id Saved search ID
+   */
+  async delete(id: string): Promise<void> {
+    await this.dbPool.query('DELETE FROM saved_searches WHERE id = $1', [id]);
+  }
+
+  /**
+   * Switches off alerts for a saved search. Repeating the request is harmless.
+   * @param id Saved search ID
+   * @throws NotFoundError if the saved search doesn't exist
+   */
+  async unsubscribe(id: string): Promise<void> {
+    const { rowCount } = await this.dbPool.query(
+      `UPDATE saved_searches
+          SET unsubscribed_at = COALESCE(unsubscribed_at, NOW()), updated_at = NOW()
+        WHERE id = $1`,
+      [id]
+    );
+
+    if (!rowCount) {
+      throw new NotFoundError('Saved search not found');
+    }
+  }
+
+  /**
+   * Retrieves saved searches still alerting that could match a listing of
+   * the given type. Searches without a type filter match every type.
+   * @param propertyType Listing property type
+   * @param excludeUserId Listing owner, who is never alerted about their own listing
+   * @returns Candidate saved searches
+   */
+  async findActiveCandidates(propertyType: PropertyType, excludeUserId: string): Promise<SavedSearch[]> {
+    const { rows } = await this.dbPool.query(
+      `SELECT * FROM saved_searches
+        WHERE unsubscribed_at IS NULL
+          AND user_id <> $2
+          AND (jsonb_array_length(COALESCE(criteria->'propertyTypes', '[]'::jsonb)) = 0
+               OR criteria->'propertyTypes' ? $1)`,
+      [propertyType, excludeUserId]
+    );
+
+    return rows.map((row) => this.mapSavedSearch(row));
+  }
+
+  /**
+   * Retrieves the rent last recorded for a listing on a saved search
+   * @param savedSearchId Saved search ID
+   * @param propertyId Listing ID
+   * @returns Recorded rent or null when the listing never matched
+   */
+  async findLastMatchedRent(savedSearchId: string, propertyId: string): Promise<number | null> {
+    const { rows: [row] } = await this.dbPool.query(
+      `SELECT monthly_rent FROM saved_search_matches
+        WHERE saved_search_id = $1 AND property_id = $2
+        ORDER BY matched_at DESC
+        LIMIT 1`,
+      [savedSearchId, propertyId]
+    );
+
+    return row ? Number(row.monthly_rent) : null;
+  }
+
+  /**
+   * Records a match. A listing already waiting in a digest is updated in
+   * place so the digest lists it once with its latest rent.
+   * @param savedSearchId Saved search ID
+   * @param propertyId Listing ID
+   * @param reason Listing change that matched
+   * @param monthlyRent Lowest matching rent
+   * @param notified Whether the alert was sent immediately
+   * @returns Recorded match
+   */
+  async recordMatch(
+    savedSearchId: string,
+    propertyId: string,
+    reason: SavedSearchMatchReason,
+    monthlyRent: number,
+    notified: boolean
+  ): Promise<SavedSearchMatch> {
+    const { rows: [row] } = await this.dbPool.query(
+      `INSERT INTO saved_search_matches (saved_search_id, property_id, reason, monthly_rent, notified_at)
+       VALUES ($1, $2, $3, $4, CASE WHEN $5 THEN NOW() END)
+       ON CONFLICT (saved_search_id, property_id) WHERE notified_at IS NULL
+       DO UPDATE SET monthly_rent = EXCLUDED.monthly_rent, matched_at = NOW()
+       RETURNING *`,
+      [savedSearchId, propertyId, reason, monthlyRent, notified]
+    );
+
+    return this.mapMatch(row);
+  }
+
+  /**
+   * Retrieves daily saved searches with matches waiting for a digest and no
+   * digest in the last day. The window is an hour short of a full day so
+   * hourly sweeps keep each digest at a steady time of day.
+   * @returns Saved searches to digest
+   */
+  async findDigestDue(): Promise<SavedSearch[]> {
+    const { rows } = await this.dbPool.query(
+      `SELECT s.* FROM saved_searches s
+        WHERE s.frequency = $1 AND s.unsubscribed_at IS NULL
+          AND (s.last_notified_at IS NULL OR s.last_notified_at <= NOW() - INTERVAL '23 hours')
+          AND EXISTS (
+            SELECT 1 FROM saved_search_matches m
+             WHERE m.saved_search_id = s.id AND m.notified_at IS NULL
+          )`,
+      [SavedSearchFrequency.DAILY]
+    );
+
+    return rows.map((row) => this.mapSavedSearch(row));
+  }
+
+  /**
+   * Retrieves the matches waiting in a saved search's digest, skipping
+   * listings that have since been removed
+   * @param savedSearchId Saved search ID
+   * @returns Pending matches with listing details
+   */
+  async findPendingMatches(savedSearchId: string): Promise<SavedSearchDigestEntry[]> {
+    const { rows } = await this.dbPool.query(
+      `SELECT m.*, p.name AS property_name, a.city
+         FROM saved_search_matches m
+         JOIN properties p ON p.id = m.property_id AND p.deleted_at IS NULL
+         LEFT JOIN property_addresses a ON a.property_id = p.id AND a.is_primary
+        WHERE m.saved_search_id = $1 AND m.notified_at IS NULL
+        ORDER BY m.matched_at ASC`,
+      [savedSearchId]
+    );
+
+    return rows.map((row) => ({
+      ...this.mapMatch(row),
+      propertyName: row.property_name,
+      city: row.city
+    }));
+  }
+
+  /**
+   * Marks a saved search's pending matches as sent
+   * @param savedSearchId Saved search ID
+   */
+  async markNotified(savedSearchId: string): Promise<void> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE saved_search_matches SET notified_at = NOW()
+          WHERE saved_search_id = $1 AND notified_at IS NULL`,
+        [savedSearchId]
+      );
+      await client.query(
+        'UPDATE saved_searches SET last_notified_at = NOW() WHERE id = $1',
+        [savedSearchId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Records that an instant alert was sent
+   * @param savedSearchId Saved search ID
+   */
+  async touchLastNotified(savedSearchId: string): Promise<void> {
+    await this.dbPool.query(
+      'UPDATE saved_searches SET last_notified_at = NOW() WHERE id = $1',
+      [savedSearchId]
+    );
+  }
+
+  private mapSavedSearch(row: any): SavedSearch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      criteria: row.criteria,
+      frequency: row.frequency,
+      unsubscribedAt: row.unsubscribed_at,
+      lastNotifiedAt: row.last_notified_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMatch(row: any): SavedSearchMatch {
+    return {
+      id: row.id,
+      savedSearchId: row.saved_search_id,
+      propertyId: row.property_id,
+      reason: row.reason,
+      monthlyRent: Number(row.monthly_rent),
+      matchedAt: row.matched_at,
+      notifiedAt: row.notified_at
+    };
+  }
+}
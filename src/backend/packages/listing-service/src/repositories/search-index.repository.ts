@@ -0,0 +1,309 @@
+/**
+ * Search index repository reading the listing outbox and building search
+ * documents from the listing tables.
+ * @packageDocumentation
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool } from '@database/config';
+import {
+  PropertySearchDocument,
+  SearchIndexEvent,
+  SearchIndexOutboxStats,
+  SearchIndexSourceVersion
+} from '../models/search-index.model';
+import { toAvailabilityWindows } from '../services/availability.calendar';
+
+// Listings that belong in the index, with the latest change across their rows
+const INDEXABLE_PROPERTIES = `
+  SELECT p.*,
+         pt.name AS type_name,
+         ps.name AS status_name,
+         a.street_address, a.unit_number, a.city, a.neighborhood, a.state,
+         a.postal_code, a.country, a.latitude, a.longitude,
+         COALESCE(u.units, '[]'::json) AS unit_documents,
+         COALESCE(am.names, '{}') AS amenity_names,
+         GREATEST(p.updated_at, a.updated_at, u.updated_at, ua.updated_at) AS source_updated_at
+    FROM properties p
+    JOIN property_types pt ON pt.id = p.property_type_id
+    JOIN property_statuses ps ON ps.id = p.status_id
+    LEFT JOIN property_addresses a ON a.property_id = p.id AND a.is_primary
+    LEFT JOIN LATERAL (
+      SELECT json_agg(json_build_object(
+               'id', un.id,
+               'unitNumber', un.unit_number,
+               'bedrooms', un.bedrooms,
+               'bathrooms', un.bathrooms,
+               'squareFeet', un.area,
+               'monthlyRent', un.base_rent,
+               'blocks', (
+                 SELECT COALESCE(json_agg(json_build_object(
+                          'reason', v.reason,
+                          'startsOn', v.starts_on,
+                          'endsOn', v.ends_on,
+                          'sourceId', v.source_id
+                        )), '[]')
+                   FROM unit_unavailability v
+                  WHERE v.unit_id = un.id
+               )
+             ) ORDER BY un.unit_number) AS units,
+             MAX(un.updated_at) AS updated_at
+        FROM units un
+       WHERE un.property_id = p.id AND un.deleted_at IS NULL
+    ) u ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT MAX(updated_at) AS updated_at
+        FROM unit_unavailability
+       WHERE property_id = p.id
+    ) ua ON TRUE
+    LEFT JOIN LATERAL (
+      SELECT array_agg(am.name ORDER BY am.name) AS names
+        FROM property_amenities pa
+        JOIN amenities am ON am.id = pa.amenity_id
+       WHERE pa.property_id = p.id
+    ) am ON TRUE
+   WHERE p.deleted_at IS NULL AND p.is_active`;
+
+@Injectable()
+export class SearchIndexRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Claims the oldest pending outbox events. Claimed events are hidden from
+   * other indexer instances until the lease expires.
+   * @param limit Maximum events to claim
+   * @param leaseSeconds How long the claim lasts
+   * @param maxAttempts Events at this many attempts are no longer retried
+   * @returns Claimed events in outbox order
+   */
+  async claimPending(limit: number, leaseSeconds: number, maxAttempts: number): Promise<SearchIndexEvent[]> {
+    const { rows } = await this.dbPool.query(
+      `UPDATE search_index_outbox
+          SET locked_until = NOW() + make_interval(secs => $2), attempts = attempts + 1
+        WHERE id IN (
+          SELECT id FROM search_index_outbox
+           WHERE processed_at IS NULL
+             AND attempts < $3
+             AND (locked_until IS NULL OR locked_until < NOW())
+           ORDER BY id
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`,
+      [limit, leaseSeconds, maxAttempts]
+    );
+
+    return rows.map((row) => this.mapEvent(row)).sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Marks events as applied to the index
+   * @param ids Outbox event IDs
+   */
+  async markProcessed(ids: number[]): Promise<void> {
+    if (!ids.length) return;
+
+    await this.dbPool.query(
+      `UPDATE search_index_outbox
+          SET processed_at = NOW(), locked_until = NULL, last_error = NULL
+        WHERE id = ANY($1)`,
+      [ids]
+    );
+  }
+
+  /**
+   * Releases events that failed so they are retried
+   * @param ids Outbox event IDs
+   * @param error Failure reason
+   */
+  async markFailed(ids: number[], error: string): Promise<void> {
+    if (!ids.length) return;
+
+    await this.dbPool.query(
+      `UPDATE search_index_outbox
+          SET locked_until = NULL, last_error = $2
+        WHERE id = ANY($1)`,
+      [ids, error.slice(0, 1000)]
+    );
+  }
+
+  /**
+   * Deletes applied events older than the retention period
+   * @param retentionDays Days to keep applied events
+   * @returns Number of deleted events
+   */
+  async purgeProcessed(retentionDays: number): Promise<number> {
+    const { rowCount } = await this.dbPool.query(
+      `DELETE FROM search_index_outbox
+        WHERE processed_at < NOW() - make_interval(days => $1)`,
+      [retentionDays]
+    );
+
+    return rowCount ?? 0;
+  }
+
+  /**
+   * Latest outbox event ID; changes after it are not yet in a reindex
+   */
+  async findLatestEventId(): Promise<number> {
+    const { rows: [row] } = await this.dbPool.query(
+      'SELECT COALESCE(MAX(id), 0) AS id FROM search_index_outbox'
+    );
+
+    return Number(row.id);
+  }
+
+  /**
+   * Lists listings changed after an outbox event
+   * @param eventId Outbox event ID
+   * @returns Latest event ID per changed property
+   */
+  async findChangedSince(eventId: number): Promise<Map<string, number>> {
+    const { rows } = await this.dbPool.query(
+      `SELECT property_id, MAX(id) AS latest_id
+         FROM search_index_outbox
+        WHERE id > $1
+        GROUP BY property_id`,
+      [eventId]
+    );
+
+    return new Map(rows.map((row) => [row.property_id, Number(row.latest_id)]));
+  }
+
+  /**
+   * Builds search documents for listings; deleted or inactive listings are
+   * left out so the caller can remove them from the index
+   * @param propertyIds Property IDs
+   * @returns Documents keyed by property ID
+   */
+  async findDocuments(propertyIds: string[]): Promise<Map<string, PropertySearchDocument>> {
+    if (!propertyIds.length) return new Map();
+
+    const { rows } = await this.dbPool.query(
+      `${INDEXABLE_PROPERTIES} AND p.id = ANY($1)`,
+      [propertyIds]
+    );
+
+    return new Map(rows.map((row) => [row.id, this.mapDocument(row)]));
+  }
+
+  /**
+   * Pages through every indexable listing in ID order
+   * @param afterId Last property ID of the previous page
+   * @param limit Page size
+   * @returns Documents for the page
+   */
+  async findDocumentPage(afterId: string | null, limit: number): Promise<PropertySearchDocument[]> {
+    const { rows } = await this.dbPool.query(
+      `${INDEXABLE_PROPERTIES} AND ($1::uuid IS NULL OR p.id > $1)
+       ORDER BY p.id
+       LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return rows.map((row) => this.mapDocument(row));
+  }
+
+  /**
+   * Pages through the freshness of every indexable listing in ID order
+   * @param afterId Last property ID of the previous page
+   * @param limit Page size
+   */
+  async findSourceVersionPage(afterId: string | null, limit: number): Promise<SearchIndexSourceVersion[]> {
+    const { rows } = await this.dbPool.query(
+      `SELECT id, source_updated_at FROM (${INDEXABLE_PROPERTIES}) indexable
+        WHERE ($1::uuid IS NULL OR id > $1)
+        ORDER BY id
+        LIMIT $2`,
+      [afterId, limit]
+    );
+
+    return rows.map((row) => ({ id: row.id, sourceUpdatedAt: row.source_updated_at }));
+  }
+
+  /**
+   * Filters property IDs down to listings that belong in the index
+   * @param propertyIds Property IDs
+   */
+  async findIndexableIds(propertyIds: string[]): Promise<Set<string>> {
+    if (!propertyIds.length) return new Set();
+
+    const { rows } = await this.dbPool.query(
+      `SELECT id FROM properties
+        WHERE id = ANY($1) AND deleted_at IS NULL AND is_active`,
+      [propertyIds]
+    );
+
+    return new Set(rows.map((row) => row.id));
+  }
+
+  /**
+   * Summarizes the outbox backlog
+   * @param maxAttempts Attempts after which an event counts as failed
+   */
+  async getOutboxStats(maxAttempts: number): Promise<SearchIndexOutboxStats> {
+    const { rows: [row] } = await this.dbPool.query(
+      `SELECT COUNT(*) FILTER (WHERE attempts < $1) AS pending,
+              COUNT(*) FILTER (WHERE attempts >= $1) AS failed,
+              MIN(created_at) FILTER (WHERE attempts < $1) AS oldest_pending_at
+         FROM search_index_outbox
+        WHERE processed_at IS NULL`,
+      [maxAttempts]
+    );
+
+    return {
+      pending: Number(row.pending),
+      failed: Number(row.failed),
+      oldestPendingAt: row.oldest_pending_at
+    };
+  }
+
+  private mapEvent(row: any): SearchIndexEvent {
+    return {
+      id: Number(row.id),
+      propertyId: row.property_id,
+      sourceTable: row.source_table,
+      operation: row.operation,
+      createdAt: row.created_at,
+      attempts: row.attempts
+    };
+  }
+
+  private mapDocument(row: any): PropertySearchDocument {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      type: row.type_name,
+      status: row.status_name,
+      ownerId: row.owner_id,
+      yearBuilt: row.year_built,
+      totalUnits: row.total_units,
+      address: row.street_address ? {
+        street1: row.street_address,
+        street2: row.unit_number,
+        city: row.city,
+        neighborhood: row.neighborhood,
+        state: row.state,
+        zipCode: row.postal_code,
+        country: row.country
+      } : null,
+      location: row.latitude !== null && row.longitude !== null
+        ? { lat: Number(row.latitude), lon: Number(row.longitude) }
+        : null,
+      amenities: row.amenity_names,
+      units: row.unit_documents.map(({ blocks, ...unit }: any) => ({
+        ...unit,
+        squareFeet: unit.squareFeet === null ? null : Number(unit.squareFeet),
+        monthlyRent: Number(unit.monthlyRent),
+        availability: toAvailabilityWindows(blocks).map(({ from, until }) => ({
+          ...(from ? { gte: from } : {}),
+          ...(until ? { lte: until } : {})
+        }))
+      })),
+      createdAt: row.created_at,
+      sourceUpdatedAt: row.source_updated_at
+    };
+  }
+}
@@ -9,6 +9,9 @@ import compression from 'compression'; // v1.7.4
 import joi from 'joi'; // v17.9.2
 
 import { ListingController } from '../controllers/listing.controller';
+import { TravelMode } from '../services/travel-time.grid';
+import { MANUAL_UNAVAILABILITY_REASONS } from '../models/availability.model';
+import { COMMUTE_CONFIG, SEARCH_CONFIG } from '../config';
 import {
   validateToken,
   validateRole,
@@ -26,6 +29,7 @@ const PROTECTED_ROLES = ['admin', 'propertyManager', 'agent'];
 // Rate limiting configuration per endpoint
 const RATE_LIMIT_CONFIG = {
   search: { window: '1m', max: 60 },
+  suggest: { window: '1m', max: 300 },
   create: { window: '1m', max: 30 },
   update: { window: '1m', max: 30 }
 };
@@ -37,7 +41,11 @@ const CACHE_TTL = {
 };
 
 // Validation schemas
-const searchSchema = joi.object({
+const calendarDaySchema = joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom((value, helpers) => (Number.isNaN(Date.parse(value)) ? helpers.error('any.invalid') : value));
+
+export const searchSchema = joi.object({
   query: joi.string().max(100),
   propertyTypes: joi.array().items(joi.string()),
   priceRange: joi.object({
@@ -47,14 +55,47 @@ const searchSchema = joi.object({
   bedrooms: joi.number().min(0),
   bathrooms: joi.number().min(0),
   amenities: joi.array().items(joi.string()),
-  availableFrom: joi.date().iso(),
+  moveInFrom: calendarDaySchema,
+  moveInTo: calendarDaySchema,
   page: joi.number().min(1),
   limit: joi.number().min(1).max(100),
   sortBy: joi.string(),
   sortOrder: joi.string().valid('asc', 'desc'),
   latitude: joi.number(),
   longitude: joi.number(),
-  radius: joi.number()
+  radius: joi.number(),
+  unit: joi.string().valid('km', 'mi')
+});
+
+const areaSearchSchema = searchSchema.fork(['latitude', 'longitude', 'radius', 'unit'], (schema) => schema.forbidden());
+
+const suggestSchema = joi.object({
+  q: joi.string().trim().required().max(100),
+  limit: joi.number().integer().min(1).max(SEARCH_CONFIG.suggest.maxLimit)
+});
+
+const pointSchema = joi.object({
+  latitude: joi.number().min(-90).max(90).required(),
+  longitude: joi.number().min(-180).max(180).required()
+});
+
+const polygonSearchSchema = areaSearchSchema.keys({
+  polygon: joi.array().items(pointSchema).min(3).max(SEARCH_CONFIG.maxPolygonVertices).required()
+});
+
+const commuteSearchSchema = areaSearchSchema.keys({
+  latitude: joi.number().min(-90).max(90).required(),
+  longitude: joi.number().min(-180).max(180).required(),
+  maxMinutes: joi.number().integer().min(1).max(COMMUTE_CONFIG.maxMinutes).required(),
+  mode: joi.string().valid(...Object.values(TravelMode)).default(TravelMode.DRIVING)
+});
+
+const availabilityBlockSchema = joi.object({
+  unitId: joi.string().uuid().required(),
+  reason: joi.string().valid(...MANUAL_UNAVAILABILITY_REASONS).required(),
+  startsOn: calendarDaySchema.required(),
+  endsOn: calendarDaySchema.allow(null),
+  note: joi.string().trim().max(500)
 });
 
 const listingSchema = joi.object({
@@ -68,6 +109,7 @@ const listingSchema = joi.object({
     street1: joi.string().required(),
     street2: joi.string().allow(null),
     city: joi.string().required(),
+    neighborhood: joi.string().max(100).allow(null),
     state: joi.string().required(),
     zipCode: joi.string().required(),
     country: joi.string().required()
@@ -115,6 +157,49 @@ export const configureListingRoutes = (controller: ListingController): Router =>
     }
   );
 
+  // Typeahead suggestions - public; typing sends a request per pause
+  router.get('/search/suggest',
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.suggest),
+    validateRequest({ query: suggestSchema }),
+    async (req, res, next) => {
+      try {
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+        const results = await controller.suggestSearchTerms(req.query.q as string, limit);
+        res.json(results);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Search within a polygon drawn on the map - public with rate limiting
+  router.post('/search/polygon',
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.search),
+    validateRequest({ body: polygonSearchSchema }),
+    async (req, res, next) => {
+      try {
+        const results = await controller.searchWithinPolygon(req.body);
+        res.json(results);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Search within a travel time of an address - public with rate limiting
+  router.post('/search/commute',
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.search),
+    validateRequest({ body: commuteSearchSchema }),
+    async (req, res, next) => {
+      try {
+        const results = await controller.searchByCommute(req.body);
+        res.json(results);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Get listing by ID - public with caching
   router.get('/:id',
     validateRequest({ params: joi.object({ id: joi.string().required() }) }),
@@ -179,20 +264,68 @@ export const configureListingRoutes = (controller: ListingController): Router =>
     }
   );
 
-  // Update listing availability - protected endpoint
-  router.put('/:id/availability',
+  // Unit availability calendars - public; the next available date moves daily
+  router.get('/:id/availability',
+    validateRequest({ params: joi.object({ id: joi.string().required() }) }),
+    async (req, res, next) => {
+      try {
+        const availability = await controller.getAvailability(req.params.id);
+        res.json(availability);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Take a unit off the market - protected endpoint
+  router.post('/:id/availability/blocks',
     validateToken,
     validateRole(PROTECTED_ROLES),
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.update),
     validateRequest({
       params: joi.object({ id: joi.string().required() }),
-      body: joi.object({
-        status: joi.string().required().valid('ACTIVE', 'INACTIVE', 'PENDING', 'MAINTENANCE', 'RESERVED')
-      })
+      body: availabilityBlockSchema
     }),
     async (req, res, next) => {
       try {
-        const listing = await controller.updateAvailability(req.params.id, req.body);
-        res.json(listing);
+        const block = await controller.addAvailabilityBlock(req.params.id, req.body, req.user.id);
+        res.status(201).json(block);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.delete('/:id/availability/blocks/:blockId',
+    validateToken,
+    validateRole(PROTECTED_ROLES),
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.update),
+    validateRequest({
+      params: joi.object({ id: joi.string().required(), blockId: joi.string().uuid().required() })
+    }),
+    async (req, res, next) => {
+      try {
+        await controller.removeAvailabilityBlock(req.params.id, req.params.blockId);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Days a unit needs between tenants - protected endpoint
+  router.put('/:id/units/:unitId/turnover',
+    validateToken,
+    validateRole(PROTECTED_ROLES),
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.update),
+    validateRequest({
+      params: joi.object({ id: joi.string().required(), unitId: joi.string().uuid().required() }),
+      body: joi.object({ turnoverDays: joi.number().integer().min(0).max(90).required() })
+    }),
+    async (req, res, next) => {
+      try {
+        await controller.setTurnoverDays(req.params.id, req.params.unitId, req.body.turnoverDays);
+        res.status(204).send();
       } catch (error) {
         next(error);
       }
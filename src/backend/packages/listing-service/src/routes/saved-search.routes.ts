@@ -0,0 +1,135 @@
+/**
+ * Express router configuration for saved search endpoints and the public
+ * one-click unsubscribe link sent with listing alerts.
+ * @packageDocumentation
+ */
+
+import { Router, Request } from 'express'; // v4.18.2
+import joi from 'joi'; // v17.9.2
+
+import { SavedSearchController } from '../controllers/saved-search.controller';
+import { SavedSearchFrequency } from '../models/saved-search.model';
+import { searchSchema } from './listing.routes';
+import {
+  validateToken,
+  rateLimitMiddleware,
+  validateRequest,
+  errorHandler,
+  requestTracker
+} from '@common/middleware';
+
+// Rate limiting configuration per endpoint
+const RATE_LIMIT_CONFIG = {
+  manage: { window: '1m', max: 30 },
+  unsubscribe: { window: '1m', max: 10 }
+};
+
+// Validation schemas
+const savedSearchCriteriaSchema = searchSchema
+  .fork(['page', 'limit', 'sortBy', 'sortOrder'], (schema) => schema.strip())
+  .and('latitude', 'longitude', 'radius');
+
+const saveSearchSchema = joi.object({
+  name: joi.string().trim().required().min(1).max(100),
+  criteria: savedSearchCriteriaSchema.required(),
+  frequency: joi.string().valid(...Object.values(SavedSearchFrequency))
+});
+
+const updateSavedSearchSchema = joi.object({
+  name: joi.string().trim().min(1).max(100),
+  frequency: joi.string().valid(...Object.values(SavedSearchFrequency))
+}).or('name', 'frequency');
+
+const idParamsSchema = joi.object({ id: joi.string().uuid().required() });
+
+const unsubscribeQuerySchema = joi.object({ token: joi.string().required().max(200) });
+
+const getUserId = (req: Request): string => req.user.id;
+
+/**
+ * Configures and returns Express router with saved search endpoints
+ * @param controller - Saved search controller instance
+ * @returns Configured Express router
+ */
+export const configureSavedSearchRoutes = (controller: SavedSearchController): Router => {
+  const router = Router();
+
+  router.use(requestTracker);
+
+  // One-click unsubscribe - public; mail clients POST here per RFC 8058 and
+  // the unsubscribe page posts the same token
+  router.post('/unsubscribe',
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.unsubscribe),
+    validateRequest({ query: unsubscribeQuerySchema }),
+    async (req, res, next) => {
+      try {
+        const result = await controller.unsubscribe(req.query.token as string);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Save search filters
+  router.post('/',
+    validateToken,
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.manage),
+    validateRequest({ body: saveSearchSchema }),
+    async (req, res, next) => {
+      try {
+        const result = await controller.saveSearch(req.body, getUserId(req));
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // List own saved searches
+  router.get('/',
+    validateToken,
+    async (req, res, next) => {
+      try {
+        const result = await controller.listSavedSearches(getUserId(req));
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Rename or change alert frequency
+  router.put('/:id',
+    validateToken,
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.manage),
+    validateRequest({ params: idParamsSchema, body: updateSavedSearchSchema }),
+    async (req, res, next) => {
+      try {
+        const result = await controller.updateSavedSearch(req.params.id, req.body, getUserId(req));
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Delete saved search
+  router.delete('/:id',
+    validateToken,
+    rateLimitMiddleware(RATE_LIMIT_CONFIG.manage),
+    validateRequest({ params: idParamsSchema }),
+    async (req, res, next) => {
+      try {
+        await controller.deleteSavedSearch(req.params.id, getUserId(req));
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler);
+
+  return router;
+};
@@ -0,0 +1,90 @@
+/**
+ * Turns a unit's unavailability blocks into the windows it can be moved into.
+ * Works on calendar days (`YYYY-MM-DD`) so results don't depend on the
+ * server's time zone.
+ * @packageDocumentation
+ */
+
+import { AvailabilityWindow, UnavailabilityBlock } from '../models/availability.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (day: string): number => Date.parse(`${day}T00:00:00Z`) / DAY_MS;
+
+const fromDayNumber = (dayNumber: number): string => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Shifts a calendar day
+ * @param day - Day in `YYYY-MM-DD` form
+ * @param days - Days to add, may be negative
+ */
+export const addDays = (day: string, days: number): string => fromDayNumber(toDayNumber(day) + days);
+
+/**
+ * Calendar day of a timestamp in UTC
+ */
+export const toCalendarDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Computes the gaps between blocks. Overlapping and adjacent blocks are
+ * merged, so windows are never empty.
+ * @param blocks - Unit's unavailability blocks in any order
+ * @returns Windows in date order
+ */
+export const toAvailabilityWindows = (blocks: readonly UnavailabilityBlock[]): AvailabilityWindow[] => {
+  const sorted = [...blocks].sort((a, b) => toDayNumber(a.startsOn) - toDayNumber(b.startsOn));
+  const windows: AvailabilityWindow[] = [];
+
+  // First day not yet covered by a block; -Infinity before the first block
+  let freeFrom = -Infinity;
+
+  for (const block of sorted) {
+    const start = toDayNumber(block.startsOn);
+    const end = block.endsOn === null ? Infinity : toDayNumber(block.endsOn);
+
+    if (start > freeFrom) {
+      windows.push({
+        from: freeFrom === -Infinity ? null : fromDayNumber(freeFrom),
+        until: fromDayNumber(start - 1)
+      });
+    }
+
+    freeFrom = Math.max(freeFrom, end + 1);
+    if (freeFrom === Infinity) {
+      return windows;
+    }
+  }
+
+  windows.push({ from: freeFrom === -Infinity ? null : fromDayNumber(freeFrom), until: null });
+  return windows;
+};
+
+/**
+ * First day on or after `today` inside a window
+ * @param windows - Windows in date order
+ * @param today - Day in `YYYY-MM-DD` form
+ * @returns Day, or null when no window reaches `today`
+ */
+export const findNextAvailableDate = (windows: readonly AvailabilityWindow[], today: string): string | null => {
+  const window = windows.find(({ until }) => until === null || until >= today);
+  if (!window) {
+    return null;
+  }
+
+  return window.from === null || window.from < today ? today : window.from;
+};
+
+/**
+ * Checks whether a unit can be moved into on some day of a range
+ * @param windows - Unit's windows
+ * @param from - First move-in day, open when omitted
+ * @param to - Last move-in day, open when omitted
+ */
+export const isAvailableBetween = (
+  windows: readonly AvailabilityWindow[],
+  from?: string,
+  to?: string
+): boolean => windows.some((window) =>
+  (to === undefined || window.from === null || window.from <= to)
+  && (from === undefined || window.until === null || window.until >= from)
+);
@@ -0,0 +1,105 @@
+/**
+ * Availability service building unit availability calendars from leases,
+ * notice-to-vacate dates, turnover days, pending applications and manual
+ * blocks.
+ * @packageDocumentation
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Logger } from 'winston'; // v3.10.0
+import { BadRequestError, NotFoundError } from '@common/errors';
+
+import {
+  CreateAvailabilityBlockInput,
+  UnitAvailability
+} from '../models/availability.model';
+import { AvailabilityBlockRecord, AvailabilityRepository } from '../repositories/availability.repository';
+import { findNextAvailableDate, toAvailabilityWindows, toCalendarDay } from './availability.calendar';
+
+/**
+ * Service managing unit availability calendars
+ */
+@Injectable()
+export class AvailabilityService {
+  constructor(
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Builds the availability calendar of every unit of a property
+   * @param propertyId Property ID
+   * @param today Day the next available date is counted from
+   * @returns Calendars in unit number order
+   */
+  async getPropertyAvailability(
+    propertyId: string,
+    today: string = toCalendarDay(new Date())
+  ): Promise<UnitAvailability[]> {
+    const units = await this.availabilityRepository.findPropertyCalendar(propertyId);
+
+    return units.map((unit) => {
+      const windows = toAvailabilityWindows(unit.blocks);
+      return {
+        ...unit,
+        windows,
+        nextAvailableDate: findNextAvailableDate(windows, today)
+      };
+    });
+  }
+
+  /**
+   * Takes a unit off the market for a period
+   * @param propertyId Property ID
+   * @param input Unit, reason and dates
+   * @param userId Property manager entering the block
+   * @throws BadRequestError when the block ends before it starts
+   * @throws NotFoundError when the unit isn't part of the property
+   */
+  async addBlock(
+    propertyId: string,
+    input: CreateAvailabilityBlockInput,
+    userId: string
+  ): Promise<AvailabilityBlockRecord> {
+    if (input.endsOn && input.endsOn < input.startsOn) {
+      throw new BadRequestError('Block must not end before it starts');
+    }
+
+    if (!await this.availabilityRepository.unitExists(propertyId, input.unitId)) {
+      throw new NotFoundError('Unit not found');
+    }
+
+    const block = await this.availabilityRepository.createBlock(propertyId, input, userId);
+    this.logger.info('Unit availability block added', { propertyId, unitId: input.unitId, blockId: block.id });
+    return block;
+  }
+
+  /**
+   * Removes a manual block
+   * @param propertyId Property ID
+   * @param blockId Block ID
+   * @throws NotFoundError when the block doesn't exist
+   */
+  async removeBlock(propertyId: string, blockId: string): Promise<void> {
+    if (!await this.availabilityRepository.deleteBlock(propertyId, blockId)) {
+      throw new NotFoundError('Availability block not found');
+    }
+
+    this.logger.info('Unit availability block removed', { propertyId, blockId });
+  }
+
+  /**
+   * Sets the days a unit stays off the market after each move-out
+   * @param propertyId Property ID
+   * @param unitId Unit ID
+   * @param turnoverDays Days after each move-out
+   * @throws NotFoundError when the unit isn't part of the property
+   */
+  async setTurnoverDays(propertyId: string, unitId: string, turnoverDays: number): Promise<void> {
+    if (!await this.availabilityRepository.updateTurnoverDays(propertyId, unitId, turnoverDays)) {
+      throw new NotFoundError('Unit not found');
+    }
+
+    this.logger.info('Unit turnover days updated', { propertyId, unitId, turnoverDays });
+  }
+}
@@ -12,7 +12,11 @@ import { Metrics } from 'prom-client'; // v14.2.0
 
 import { Property, PropertyType, PropertyStatus } from '../models/property.model';
 import { PropertyRepository } from '../repositories/property.repository';
-import { SearchService } from './search.service';
+import { SearchService, PolygonSearchParams, CommuteSearchParams } from './search.service';
+import { Suggestion } from './suggestion.ranker';
+import { SavedSearchService } from './saved-search.service';
+import { isRepriced } from './saved-search.matcher';
+import { SavedSearchMatchReason } from '../models/saved-search.model';
 import { CACHE_TTL } from '@common/constants';
 
 /**
@@ -52,7 +56,8 @@ export class ListingService {
     private readonly searchService: SearchService,
     private readonly cacheClient: Redis,
     private readonly logger: Logger,
-    private readonly metricsClient: Metrics
+    private readonly metricsClient: Metrics,
+    private readonly savedSearchService: SavedSearchService
   ) {
     // Initialize circuit breaker for repository operations
     this.circuitBreaker = new CircuitBreaker(
@@ -97,6 +102,9 @@ export class ListingService {
       // Cache the new property
       await this.cacheProperty(property);
 
+      // Alert renters whose saved searches match
+      this.alertSavedSearches(property, SavedSearchMatchReason.NEW_LISTING);
+
       // Track metrics
       this.trackListingCreation(Date.now() - startTime);
 
@@ -137,6 +145,10 @@ export class ListingService {
       // Update cache
       await this.cacheProperty(updated);
 
+      if (isRepriced(existing, updated)) {
+        this.alertSavedSearches(updated, SavedSearchMatchReason.PRICE_CHANGE);
+      }
+
       // Track metrics
       this.trackListingUpdate(Date.now() - startTime);
 
@@ -212,6 +224,57 @@ export class ListingService {
     }
   }
 
+  /**
+   * Searches for property listings inside a polygon drawn on the map
+   */
+  async searchWithinPolygon(params: PolygonSearchParams): Promise<any> {
+    const startTime = Date.now();
+    this.logger.info('Searching property listings within polygon', {
+      vertices: params.polygon.length
+    });
+
+    try {
+      const results = await this.searchService.searchWithinPolygon(params);
+      this.trackListingSearch(Date.now() - startTime, results.total);
+      return results;
+    } catch (error) {
+      this.logger.error('Failed to search property listings within polygon', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Searches for property listings within a travel time of an address
+   */
+  async searchByCommute(params: CommuteSearchParams): Promise<any> {
+    const startTime = Date.now();
+    this.logger.info('Searching property listings by commute', {
+      maxMinutes: params.maxMinutes,
+      mode: params.mode
+    });
+
+    try {
+      const results = await this.searchService.searchByCommute(params);
+      this.trackListingSearch(Date.now() - startTime, results.total);
+      return results;
+    } catch (error) {
+      this.logger.error('Failed to search property listings by commute', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Suggests search terms for the search box typeahead
+   */
+  async suggestSearchTerms(input: string, limit?: number): Promise<Suggestion[]> {
+    try {
+      return await this.searchService.suggest(input, limit);
+    } catch (error) {
+      this.logger.error('Failed to suggest search terms', { error, input });
+      throw error;
+    }
+  }
+
   /**
    * Validates property data before creation/update
    */
@@ -251,6 +314,20 @@ export class ListingService {
     }
   }
 
+  /**
+   * Matches a listing against saved searches in the background; alert
+   * failures never fail the listing change
+   */
+  private alertSavedSearches(property: Property, reason: SavedSearchMatchReason): void {
+    this.savedSearchService.handleListingChange(property, reason).catch((error) => {
+      this.logger.warn('Failed to match listing against saved searches', {
+        error: error.message,
+        propertyId: property.id,
+        reason
+      });
+    });
+  }
+
   /**
    * Caches property data with TTL
    */
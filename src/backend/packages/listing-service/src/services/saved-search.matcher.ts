@@ -0,0 +1,113 @@
+/**
+ * Matches a single listing against saved search filters in memory, mirroring
+ * the filters SearchService sends to Elasticsearch.
+ * @packageDocumentation
+ */
+
+import { Property, Unit } from '../models/property.model';
+import { SavedSearchCriteria } from '../models/saved-search.model';
+import { isAvailableBetween } from './availability.calendar';
+
+const EARTH_RADIUS = { km: 6371, mi: 3958.8 } as const;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points
+ * @param from - Origin coordinates
+ * @param to - Destination coordinates
+ * @param unit - Distance unit
+ */
+export const haversineDistance = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number },
+  unit: 'km' | 'mi' = 'km'
+): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS[unit] * Math.asin(Math.sqrt(a));
+};
+
+const matchesText = (query: string, property: Property): boolean => {
+  const haystack = [
+    property.name,
+    property.description,
+    ...(property.amenities || []),
+    ...Object.values(property.address || {}).filter((value) => typeof value === 'string')
+  ].join(' ').toLowerCase();
+
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((term) => haystack.includes(term));
+};
+
+const matchesUnit = (criteria: SavedSearchCriteria, unit: Unit): boolean => {
+  const { priceRange } = criteria;
+
+  if (priceRange?.min && unit.monthlyRent < priceRange.min) return false;
+  if (priceRange?.max && unit.monthlyRent > priceRange.max) return false;
+  if (criteria.bedrooms && unit.bedrooms !== criteria.bedrooms) return false;
+  if (criteria.bathrooms && unit.bathrooms !== criteria.bathrooms) return false;
+
+  if ((criteria.moveInFrom || criteria.moveInTo) && unit.availability
+    && !isAvailableBetween(unit.availability, criteria.moveInFrom, criteria.moveInTo)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Checks a listing against saved search filters. Rent, bedroom and bathroom
+ * filters must all hold on the same available unit.
+ * @param criteria - Saved search filters
+ * @param property - Listing to check
+ * @returns Lowest rent among matching units, or null when the listing doesn't match
+ */
+export const matchSavedSearch = (
+  criteria: SavedSearchCriteria,
+  property: Property
+): number | null => {
+  if (criteria.propertyTypes?.length && !criteria.propertyTypes.includes(property.type)) {
+    return null;
+  }
+
+  if (criteria.amenities?.length && !criteria.amenities.every((amenity) => property.amenities?.includes(amenity))) {
+    return null;
+  }
+
+  if (criteria.query && !matchesText(criteria.query, property)) {
+    return null;
+  }
+
+  if ('latitude' in criteria && criteria.latitude !== undefined) {
+    const distance = haversineDistance(
+      { latitude: criteria.latitude, longitude: criteria.longitude },
+      property.location,
+      criteria.unit || 'km'
+    );
+    if (distance > criteria.radius) {
+      return null;
+    }
+  }
+
+  const rents = (property.units || [])
+    .filter((unit) => unit.isAvailable && matchesUnit(criteria, unit))
+    .map((unit) => unit.monthlyRent);
+
+  return rents.length ? Math.min(...rents) : null;
+};
+
+/**
+ * Checks whether an update changed the rent of any unit
+ * @param before - Listing before the update
+ * @param after - Listing after the update
+ */
+export const isRepriced = (before: Property, after: Property): boolean => {
+  const previousRents = new Map((before.units || []).map((unit) => [unit.id, unit.monthlyRent]));
+
+  return (after.units || []).some((unit) =>
+    previousRents.has(unit.id) && previousRents.get(unit.id) !== unit.monthlyRent
+  );
+};
@@ -0,0 +1,302 @@
+/**
+ * Saved search service letting renters keep search filters and alerting them
+ * when new or re-priced listings match, instantly or in a daily digest.
+ * @packageDocumentation
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Logger } from 'winston'; // v3.10.0
+import { createHmac, timingSafeEqual } from 'crypto';
+import { BadRequestError, ForbiddenError } from '@common/errors';
+import { NotificationClient } from '@common/clients';
+
+import { Property } from '../models/property.model';
+import {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchFrequency,
+  SavedSearchMatchReason
+} from '../models/saved-search.model';
+import { SavedSearchRepository } from '../repositories/saved-search.repository';
+import { matchSavedSearch } from './saved-search.matcher';
+import { NOTIFICATION_CONFIG, SAVED_SEARCH_CONFIG } from '../config';
+
+/**
+ * Parameters for saving a search
+ */
+export interface SaveSearchParams {
+  name: string;
+  criteria: SavedSearchCriteria & { page?: number; limit?: number; sortBy?: string; sortOrder?: string };
+  frequency?: SavedSearchFrequency;
+}
+
+const formatRent = (amount: number): string => `$${amount.toFixed(0)}`;
+
+/**
+ * Service managing saved searches and their listing alerts
+ */
+@Injectable()
+export class SavedSearchService {
+  constructor(
+    private readonly savedSearchRepository: SavedSearchRepository,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Saves a renter's search filters
+   * @param userId Renter ID
+   * @param params Name, filters and alert frequency
+   * @returns Saved search
+   * @throws BadRequestError when the renter has reached the saved search limit
+   */
+  async saveSearch(userId: string, params: SaveSearchParams): Promise<SavedSearch> {
+    const count = await this.savedSearchRepository.countByUser(userId);
+    if (count >= SAVED_SEARCH_CONFIG.maxPerUser) {
+      throw new BadRequestError(`No more than ${SAVED_SEARCH_CONFIG.maxPerUser} searches can be saved`);
+    }
+
+    // Paging and sorting only shape a results page, not which listings match
+    const { page, limit, sortBy, sortOrder, ...criteria } = params.criteria;
+
+    const savedSearch = await this.savedSearchRepository.create({
+      userId,
+      name: params.name.trim(),
+      criteria,
+      frequency: params.frequency || SavedSearchFrequency.DAILY
+    });
+
+    this.logger.info('Search saved', { savedSearchId: savedSearch.id, userId });
+    return savedSearch;
+  }
+
+  /**
+   * Lists a renter's saved searches
+   * @param userId Renter ID
+   */
+  async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return this.savedSearchRepository.findByUser(userId);
+  }
+
+  /**
+   * Renames a saved search or changes its alert frequency
+   * @param id Saved search ID
+   * @param userId Requesting renter
+   * @param changes Fields to change
+   * @throws ForbiddenError when the search belongs to someone else
+   */
+  async updateSavedSearch(
+    id: string,
+    userId: string,
+    changes: { name?: string; frequency?: SavedSearchFrequency }
+  ): Promise<SavedSearch> {
+    await this.getOwnedSearch(id, userId);
+    return this.savedSearchRepository.update(id, {
+      name: changes.name?.trim(),
+      frequency: changes.frequency
+    });
+  }
+
+  /**
+   * Deletes a saved search
+   * @param id Saved search ID
+   * @param userId Requesting renter
+   * @throws ForbiddenError when the search belongs to someone else
+   */
+  async deleteSavedSearch(id: string, userId: string): Promise<void> {
+    await this.getOwnedSearch(id, userId);
+    await this.savedSearchRepository.delete(id);
+    this.logger.info('Saved search deleted', { savedSearchId: id, userId });
+  }
+
+  /**
+   * Switches off alerts from the link in an alert email, without sign-in
+   * @param token Unsubscribe token from the link
+   * @throws BadRequestError when the token is malformed or forged
+   */
+  async unsubscribe(token: string): Promise<void> {
+    const [id, signature] = (token || '').split('.');
+    if (!id || !signature) {
+      throw new BadRequestError('Invalid unsubscribe link');
+    }
+
+    const expected = Buffer.from(this.sign(id));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new BadRequestError('Invalid unsubscribe link');
+    }
+
+    await this.savedSearchRepository.unsubscribe(id);
+    this.logger.info('Saved search unsubscribed', { savedSearchId: id });
+  }
+
+  /**
+   * Matches a new or re-priced listing against saved searches. Instant
+   * searches are alerted now; daily searches queue the listing for their
+   * digest. A re-priced listing already alerted at the same rent is skipped.
+   * A saved search that fails is logged and does not stop the others.
+   * @param property Listing after the change
+   * @param reason Listing change
+   * @returns Number of saved searches matched
+   */
+  async handleListingChange(property: Property, reason: SavedSearchMatchReason): Promise<number> {
+    const candidates = await this.savedSearchRepository.findActiveCandidates(
+      property.type,
+      property.ownerId
+    );
+
+    let matched = 0;
+    for (const savedSearch of candidates) {
+      const rent = matchSavedSearch(savedSearch.criteria, property);
+      if (rent === null) {
+        continue;
+      }
+
+      try {
+        if (reason === SavedSearchMatchReason.PRICE_CHANGE) {
+          const lastRent = await this.savedSearchRepository.findLastMatchedRent(savedSearch.id, property.id);
+          if (lastRent === rent) {
+            continue;
+          }
+        }
+
+        const instant = savedSearch.frequency === SavedSearchFrequency.INSTANT;
+        await this.savedSearchRepository.recordMatch(savedSearch.id, property.id, reason, rent, instant);
+
+        if (instant) {
+          await this.sendInstantAlert(savedSearch, property, reason, rent);
+        }
+        matched++;
+      } catch (error) {
+        this.logger.error('Failed to alert saved search', {
+          error: (error as Error).message,
+          savedSearchId: savedSearch.id,
+          propertyId: property.id
+        });
+      }
+    }
+
+    this.logger.info('Listing matched against saved searches', {
+      propertyId: property.id,
+      reason,
+      candidates: candidates.length,
+      matched
+    });
+
+    return matched;
+  }
+
+  /**
+   * Sends one digest per daily saved search with listings waiting. A digest
+   * that fails is logged and its matches stay pending for the next run.
+   * @returns Number of digests sent
+   */
+  async sendDailyDigests(): Promise<number> {
+    const due = await this.savedSearchRepository.findDigestDue();
+
+    let sent = 0;
+    for (const savedSearch of due) {
+      try {
+        const entries = await this.savedSearchRepository.findPendingMatches(savedSearch.id);
+
+        if (entries.length) {
+          const shown = entries.slice(0, SAVED_SEARCH_CONFIG.maxListingsPerDigest);
+          const lines = shown.map((entry) =>
+            `${entry.propertyName}${entry.city ? ` in ${entry.city}` : ''} from ${formatRent(entry.monthlyRent)}/month`
+            + (entry.reason === SavedSearchMatchReason.PRICE_CHANGE ? ' (price changed)' : '')
+          );
+          if (entries.length > shown.length) {
+            lines.push(`and ${entries.length - shown.length} more`);
+          }
+
+          const token = this.unsubscribeToken(savedSearch.id);
+          await this.notificationClient.notify({
+            userId: savedSearch.userId,
+            templateId: NOTIFICATION_CONFIG.templates.savedSearchDigest,
+            subject: `${entries.length} new match(es) for "${savedSearch.name}"`,
+            body: lines.join('\n'),
+            data: {
+              savedSearchId: savedSearch.id,
+              listings: shown.map((entry) => ({
+                propertyId: entry.propertyId,
+                name: entry.propertyName,
+                city: entry.city,
+                monthlyRent: entry.monthlyRent,
+                reason: entry.reason,
+                url: `${SAVED_SEARCH_CONFIG.listingUrl}/${entry.propertyId}`
+              })),
+              unsubscribeUrl: this.unsubscribeUrl(SAVED_SEARCH_CONFIG.unsubscribeUrl, token)
+            },
+            unsubscribeUrl: this.unsubscribeUrl(SAVED_SEARCH_CONFIG.oneClickUnsubscribeUrl, token)
+          });
+          sent++;
+        }
+
+        // Matches on listings removed since are cleared along with the rest
+        await this.savedSearchRepository.markNotified(savedSearch.id);
+      } catch (error) {
+        this.logger.error('Failed to send saved search digest', {
+          error: (error as Error).message,
+          savedSearchId: savedSearch.id
+        });
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendInstantAlert(
+    savedSearch: SavedSearch,
+    property: Property,
+    reason: SavedSearchMatchReason,
+    rent: number
+  ): Promise<void> {
+    const city = property.address?.city;
+    const token = this.unsubscribeToken(savedSearch.id);
+
+    await this.notificationClient.notify({
+      userId: savedSearch.userId,
+      templateId: NOTIFICATION_CONFIG.templates.savedSearchInstant,
+      subject: reason === SavedSearchMatchReason.PRICE_CHANGE
+        ? `Price change on ${property.name}`
+        : `New listing for "${savedSearch.name}"`,
+      body: `${property.name}${city ? ` in ${city}` : ''} from ${formatRent(rent)}/month matches your saved search "${savedSearch.name}"`,
+      data: {
+        savedSearchId: savedSearch.id,
+        propertyId: property.id,
+        monthlyRent: rent,
+        reason,
+        url: `${SAVED_SEARCH_CONFIG.listingUrl}/${property.id}`,
+        unsubscribeUrl: this.unsubscribeUrl(SAVED_SEARCH_CONFIG.unsubscribeUrl, token)
+      },
+      unsubscribeUrl: this.unsubscribeUrl(SAVED_SEARCH_CONFIG.oneClickUnsubscribeUrl, token)
+    });
+
+    await this.savedSearchRepository.touchLastNotified(savedSearch.id);
+  }
+
+  private async getOwnedSearch(id: string, userId: string): Promise<SavedSearch> {
+    const savedSearch = await this.savedSearchRepository.findById(id);
+    if (savedSearch.userId !== userId) {
+      throw new ForbiddenError('Saved search belongs to another user');
+    }
+    return savedSearch;
+  }
+
+  private unsubscribeToken(savedSearchId: string): string {
+    return `${savedSearchId}.${this.sign(savedSearchId)}`;
+  }
+
+  private unsubscribeUrl(baseUrl: string, token: string): string {
+    return `${baseUrl}?token=${encodeURIComponent(token)}`;
+  }
+
+  private sign(savedSearchId: string): string {
+    if (!SAVED_SEARCH_CONFIG.unsubscribeSecret) {
+      throw new Error('Missing required SAVED_SEARCH_UNSUBSCRIBE_SECRET environment variable');
+    }
+    return createHmac('sha256', SAVED_SEARCH_CONFIG.unsubscribeSecret)
+      .update(savedSearchId)
+      .digest('base64url');
+  }
+}
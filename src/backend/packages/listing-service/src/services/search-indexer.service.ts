@@ -0,0 +1,360 @@
+/**
+ * Search indexer keeping the listing search index consistent with the
+ * database. Listing changes arrive through the database outbox and are applied
+ * with external versions, so replays and out-of-order deliveries are harmless.
+ * @packageDocumentation
+ */
+
+import { Client } from '@elastic/elasticsearch'; // v8.9.0
+import { Logger } from 'winston'; // v3.10.0
+
+import { SearchIndexRepository } from '../repositories/search-index.repository';
+import { SearchIndexDriftReport } from '../models/search-index.model';
+import { ELASTICSEARCH_CONFIG, SEARCH_INDEX_CONFIG } from '../config';
+
+/**
+ * Outcome of a full reindex
+ */
+export interface ReindexResult {
+  index: string;
+  documents: number;
+  /** Indices the alias pointed to before the swap */
+  previousIndices: string[];
+}
+
+// Field types the search and suggest queries rely on
+const PROPERTY_INDEX_MAPPINGS = {
+  dynamic: false,
+  properties: {
+    id: { type: 'keyword' },
+    name: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+    description: { type: 'text' },
+    type: { type: 'keyword' },
+    status: { type: 'keyword' },
+    ownerId: { type: 'keyword' },
+    yearBuilt: { type: 'integer' },
+    totalUnits: { type: 'integer' },
+    address: {
+      properties: {
+        street1: { type: 'text' },
+        street2: { type: 'text' },
+        city: { type: 'keyword' },
+        neighborhood: { type: 'keyword' },
+        state: { type: 'keyword' },
+        zipCode: { type: 'keyword' },
+        country: { type: 'keyword' }
+      }
+    },
+    location: { type: 'geo_point' },
+    amenities: { type: 'keyword' },
+    units: {
+      properties: {
+        id: { type: 'keyword' },
+        unitNumber: { type: 'keyword' },
+        bedrooms: { type: 'integer' },
+        bathrooms: { type: 'float' },
+        squareFeet: { type: 'float' },
+        monthlyRent: { type: 'float' },
+        availability: { type: 'date_range', format: 'yyyy-MM-dd' }
+      }
+    },
+    createdAt: { type: 'date' },
+    sourceUpdatedAt: { type: 'date' }
+  }
+};
+
+/**
+ * Service applying listing changes to the search index
+ */
+export class SearchIndexerService {
+  constructor(
+    private readonly searchIndexRepository: SearchIndexRepository,
+    private readonly elasticsearchClient: Client,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Applies one batch of pending outbox events to the index
+   * @returns Number of events applied
+   */
+  async processOutbox(): Promise<number> {
+    const events = await this.searchIndexRepository.claimPending(
+      SEARCH_INDEX_CONFIG.batchSize,
+      SEARCH_INDEX_CONFIG.leaseSeconds,
+      SEARCH_INDEX_CONFIG.maxAttempts
+    );
+    if (!events.length) {
+      return 0;
+    }
+
+    // Several changes to one listing collapse into a single apply at its latest version
+    const versions = new Map<string, number>();
+    events.forEach((event) => versions.set(event.propertyId, event.id));
+
+    let failures: Map<string, string>;
+    try {
+      failures = await this.applyChanges(SEARCH_INDEX_CONFIG.alias, versions);
+    } catch (error) {
+      this.logger.error('Failed to apply search index changes', { error, events: events.length });
+      await this.searchIndexRepository.markFailed(events.map((event) => event.id), error.message);
+      return 0;
+    }
+
+    const applied = events.filter((event) => !failures.has(event.propertyId));
+    await this.searchIndexRepository.markProcessed(applied.map((event) => event.id));
+
+    for (const [propertyId, reason] of failures) {
+      const failed = events.filter((event) => event.propertyId === propertyId);
+      this.logger.warn('Failed to index listing', {
+        propertyId,
+        reason,
+        attempts: Math.max(...failed.map((event) => event.attempts))
+      });
+      await this.searchIndexRepository.markFailed(failed.map((event) => event.id), reason);
+    }
+
+    return applied.length;
+  }
+
+  /**
+   * Deletes applied outbox events past the retention period
+   * @returns Number of deleted events
+   */
+  async purgeProcessed(): Promise<number> {
+    return this.searchIndexRepository.purgeProcessed(SEARCH_INDEX_CONFIG.retentionDays);
+  }
+
+  /**
+   * Rebuilds the index from the database into a fresh index and swaps the
+   * alias to it atomically, so searches never see a partial index
+   */
+  async reindex(): Promise<ReindexResult> {
+    const alias = SEARCH_INDEX_CONFIG.alias;
+    const index = `${alias}_${Date.now()}`;
+
+    // Changes after this point are replayed once the bulk load finishes
+    const loadedThrough = await this.searchIndexRepository.findLatestEventId();
+    const loadVersion = Math.max(loadedThrough, 1);
+
+    await this.elasticsearchClient.indices.create({
+      index,
+      settings: { ...ELASTICSEARCH_CONFIG.settings, refresh_interval: '-1' },
+      mappings: PROPERTY_INDEX_MAPPINGS as any
+    });
+
+    let documents = 0;
+    let afterId: string | null = null;
+    for (;;) {
+      const page = await this.searchIndexRepository.findDocumentPage(afterId, SEARCH_INDEX_CONFIG.reindexPageSize);
+      if (!page.length) break;
+
+      const response = await this.elasticsearchClient.bulk({
+        operations: page.flatMap((document) => [
+          { index: { _index: index, _id: document.id, version: loadVersion, version_type: 'external_gte' } },
+          document
+        ])
+      });
+      const failures = this.collectFailures(response);
+      if (failures.size) {
+        throw new Error(`Reindex failed for ${failures.size} listing(s): ${[...failures.values()][0]}`);
+      }
+
+      documents += page.length;
+      afterId = page[page.length - 1].id;
+      this.logger.info('Reindexed listings', { index, documents });
+    }
+
+    await this.elasticsearchClient.indices.putSettings({
+      index,
+      settings: { refresh_interval: ELASTICSEARCH_CONFIG.settings.refresh_interval }
+    });
+
+    // Catch up on changes made during the load, then swap
+    const caughtUpThrough = await this.replayChangesSince(index, loadedThrough);
+    await this.elasticsearchClient.indices.refresh({ index });
+
+    const previousIndices = await this.findAliasedIndices(alias);
+    const aliasIsIndex = !previousIndices.length
+      && await this.elasticsearchClient.indices.exists({ index: alias });
+
+    await this.elasticsearchClient.indices.updateAliases({
+      actions: [
+        // A concrete index squatting the alias name is replaced in the same step
+        ...(aliasIsIndex ? [{ remove_index: { index: alias } }] : []),
+        ...previousIndices.map((previous) => ({ remove: { index: previous, alias } })),
+        { add: { index, alias } }
+      ]
+    });
+
+    // Changes the live indexer wrote to the old index between catch-up and swap
+    await this.replayChangesSince(alias, caughtUpThrough);
+
+    await this.deleteOldIndices(alias, index, previousIndices);
+
+    this.logger.info('Search index rebuilt', { index, documents, previousIndices });
+    return { index, documents, previousIndices };
+  }
+
+  /**
+   * Compares the database with the index and reports missing, orphaned and
+   * stale documents along with the outbox backlog
+   */
+  async reportDrift(): Promise<SearchIndexDriftReport> {
+    const alias = SEARCH_INDEX_CONFIG.alias;
+    const sampleSize = SEARCH_INDEX_CONFIG.driftSampleSize;
+    const missing: string[] = [];
+    const stale: string[] = [];
+    const orphaned: string[] = [];
+    let missingCount = 0;
+    let staleCount = 0;
+    let orphanedCount = 0;
+    let databaseCount = 0;
+
+    // Database to index: missing and stale documents
+    let afterId: string | null = null;
+    for (;;) {
+      const page = await this.searchIndexRepository.findSourceVersionPage(afterId, SEARCH_INDEX_CONFIG.driftPageSize);
+      if (!page.length) break;
+
+      const { docs } = await this.elasticsearchClient.mget({
+        index: alias,
+        ids: page.map((source) => source.id),
+        _source_includes: ['sourceUpdatedAt']
+      });
+
+      page.forEach((source, position) => {
+        const doc: any = docs[position];
+        if (!doc?.found) {
+          missingCount++;
+          if (missing.length < sampleSize) missing.push(source.id);
+        } else if (new Date(doc._source.sourceUpdatedAt).getTime() < new Date(source.sourceUpdatedAt).getTime()) {
+          staleCount++;
+          if (stale.length < sampleSize) stale.push(source.id);
+        }
+      });
+
+      databaseCount += page.length;
+      afterId = page[page.length - 1].id;
+    }
+
+    // Index to database: documents for listings that no longer belong
+    let searchAfter: any[] | undefined;
+    for (;;) {
+      const response = await this.elasticsearchClient.search({
+        index: alias,
+        size: SEARCH_INDEX_CONFIG.driftPageSize,
+        _source: false,
+        sort: [{ id: 'asc' }],
+        ...(searchAfter ? { search_after: searchAfter } : {})
+      });
+      const hits = response.hits.hits;
+      if (!hits.length) break;
+
+      const ids = hits.map((hit) => hit._id);
+      const indexable = await this.searchIndexRepository.findIndexableIds(ids);
+      ids.filter((id) => !indexable.has(id)).forEach((id) => {
+        orphanedCount++;
+        if (orphaned.length < sampleSize) orphaned.push(id);
+      });
+
+      searchAfter = hits[hits.length - 1].sort as any[];
+    }
+
+    const { count: indexCount } = await this.elasticsearchClient.count({ index: alias });
+    const outbox = await this.searchIndexRepository.getOutboxStats(SEARCH_INDEX_CONFIG.maxAttempts);
+
+    return {
+      checkedAt: new Date(),
+      databaseCount,
+      indexCount,
+      missingCount,
+      orphanedCount,
+      staleCount,
+      missing,
+      orphaned,
+      stale,
+      outbox,
+      inSync: missingCount === 0 && orphanedCount === 0 && staleCount === 0
+    };
+  }
+
+  /**
+   * Writes the current database state of listings to an index, deleting
+   * listings that are gone or inactive
+   * @param index Index or alias to write to
+   * @param versions Outbox version per property
+   * @returns Failure reason per property; version conflicts mean a newer
+   * change was already applied and are not failures
+   */
+  private async applyChanges(index: string, versions: Map<string, number>): Promise<Map<string, string>> {
+    const documents = await this.searchIndexRepository.findDocuments([...versions.keys()]);
+
+    const operations = [...versions].flatMap(([propertyId, version]) => {
+      const metadata = { _index: index, _id: propertyId, version, version_type: 'external_gte' as const };
+      const document = documents.get(propertyId);
+      return document ? [{ index: metadata }, document] : [{ delete: metadata }];
+    });
+
+    const response = await this.elasticsearchClient.bulk({ operations });
+    return this.collectFailures(response);
+  }
+
+  /**
+   * Re-applies listings changed after an outbox event
+   * @returns Latest outbox event replayed
+   */
+  private async replayChangesSince(index: string, eventId: number): Promise<number> {
+    const changes = await this.searchIndexRepository.findChangedSince(eventId);
+    if (!changes.size) {
+      return eventId;
+    }
+
+    const failures = await this.applyChanges(index, changes);
+    if (failures.size) {
+      throw new Error(`Replay failed for ${failures.size} listing(s): ${[...failures.values()][0]}`);
+    }
+
+    return Math.max(eventId, ...changes.values());
+  }
+
+  private collectFailures(response: any): Map<string, string> {
+    const failures = new Map<string, string>();
+    if (!response.errors) {
+      return failures;
+    }
+
+    for (const item of response.items) {
+      const [action, result] = Object.entries(item)[0] as [string, any];
+      const ignorable = result.status === 409 || (action === 'delete' && result.status === 404);
+      if (result.error && !ignorable) {
+        failures.set(result._id, result.error.reason || result.error.type);
+      }
+    }
+
+    return failures;
+  }
+
+  private async findAliasedIndices(alias: string): Promise<string[]> {
+    try {
+      return Object.keys(await this.elasticsearchClient.indices.getAlias({ name: alias }));
+    } catch (error) {
+      if (error.meta?.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Keeps the index just replaced for rollback and deletes older generations
+   */
+  private async deleteOldIndices(alias: string, current: string, previousIndices: string[]): Promise<void> {
+    const generations = Object.keys(await this.elasticsearchClient.indices.get({ index: `${alias}_*` }))
+      .filter((name) => name !== current && !previousIndices.includes(name));
+
+    if (generations.length) {
+      await this.elasticsearchClient.indices.delete({ index: generations });
+      this.logger.info('Deleted old search indices', { indices: generations });
+    }
+  }
+}
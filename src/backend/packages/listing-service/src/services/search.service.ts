@@ -9,18 +9,32 @@ import Redis from 'ioredis'; // v5.3.2
 import CircuitBreaker from 'opossum'; // v7.1.0
 import { Property, PropertyType } from '../models/property.model';
 import { Unit, UnitStatus } from '../models/unit.model';
+import { BadRequestError, BaseError } from '@common/errors';
+import { HTTP_STATUS } from '@common/constants';
+import { COMMUTE_CONFIG, SEARCH_CONFIG } from '../config';
+import { TravelMode, TravelTimeGrid } from './travel-time.grid';
+import {
+  Suggestion,
+  SuggestionCandidate,
+  SuggestionType,
+  normalizeSuggestionText,
+  rankSuggestions
+} from './suggestion.ranker';
 
 /**
  * Search parameters interface for property queries
  */
-interface SearchParams {
+export interface SearchParams {
   query?: string;
   propertyTypes?: PropertyType[];
   priceRange?: { min?: number; max?: number };
   bedrooms?: number;
   bathrooms?: number;
   amenities?: string[];
-  availableFrom?: Date;
+  /** First acceptable move-in day, `YYYY-MM-DD` */
+  moveInFrom?: string;
+  /** Last acceptable move-in day, `YYYY-MM-DD` */
+  moveInTo?: string;
   page?: number;
   limit?: number;
   sortBy?: string;
@@ -30,13 +44,30 @@ interface SearchParams {
 /**
  * Geo-search parameters interface
  */
-interface GeoSearchParams extends SearchParams {
+export interface GeoSearchParams extends SearchParams {
   latitude: number;
   longitude: number;
   radius: number;
   unit?: 'km' | 'mi';
 }
 
+/**
+ * Polygon search parameters interface; vertices in drawing order
+ */
+export interface PolygonSearchParams extends SearchParams {
+  polygon: { latitude: number; longitude: number }[];
+}
+
+/**
+ * Commute search parameters interface
+ */
+export interface CommuteSearchParams extends SearchParams {
+  latitude: number;
+  longitude: number;
+  maxMinutes: number;
+  mode: TravelMode;
+}
+
 /**
  * Search result interface with metadata
  */
@@ -55,12 +86,14 @@ interface SearchResult {
 export class SearchService {
   private readonly CACHE_TTL_SECONDS = 300; // 5 minutes
   private readonly MAX_SEARCH_RESULTS = 1000;
+  private readonly POPULAR_TERMS_KEY = 'search:popular-terms';
   private readonly searchCircuitBreaker: CircuitBreaker;
 
   constructor(
     private readonly elasticsearchClient: Client,
     private readonly redisClient: Redis,
-    private readonly config: { indexName: string }
+    private readonly config: { indexName: string },
+    private readonly travelTimeGrid?: TravelTimeGrid
   ) {
     // Initialize circuit breaker for Elasticsearch
     this.searchCircuitBreaker = new CircuitBreaker(
@@ -87,6 +120,7 @@ export class SearchService {
     }
 
     const query = this.buildSearchQuery(params);
+    this.recordSearchTerm(params.query);
     
     try {
       const result = await this.searchCircuitBreaker.fire({
@@ -127,6 +161,130 @@ export class SearchService {
     }
   }
 
+  /**
+   * Performs property search within a polygon drawn on the map
+   */
+  async searchWithinPolygon(params: PolygonSearchParams): Promise<SearchResult> {
+    const polygonQuery = this.buildPolygonSearchQuery(params);
+
+    try {
+      const result = await this.searchCircuitBreaker.fire({
+        index: this.config.indexName,
+        body: polygonQuery
+      });
+
+      return this.formatSearchResult(result);
+    } catch (error) {
+      throw new Error(`Polygon search failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Performs property search within a travel time of an address using the
+   * precomputed travel-time grid
+   * @throws BaseError if no travel-time grid is loaded
+   * @throws BadRequestError if the grid doesn't cover the origin or mode
+   */
+  async searchByCommute(params: CommuteSearchParams): Promise<SearchResult> {
+    if (!this.travelTimeGrid) {
+      throw new BaseError('Commute search is not available', HTTP_STATUS.SERVICE_UNAVAILABLE);
+    }
+
+    const origin = { latitude: params.latitude, longitude: params.longitude };
+    if (!this.travelTimeGrid.covers(origin)) {
+      throw new BadRequestError('Commute search is not available for this address');
+    }
+    if (!this.travelTimeGrid.modes.includes(params.mode)) {
+      throw new BadRequestError(`Commute search does not support ${params.mode.toLowerCase()}`);
+    }
+
+    const isochrone = this.travelTimeGrid.isochrone(origin, params.maxMinutes, params.mode);
+    if (isochrone.boxes.length > COMMUTE_CONFIG.maxAreaBoxes) {
+      throw new BadRequestError('Commute area is too large; choose a shorter travel time');
+    }
+
+    const commuteQuery = this.buildSearchQuery(params);
+    commuteQuery.query.bool.filter.push({
+      bool: {
+        should: isochrone.boxes.map((box) => ({ geo_bounding_box: { location: box } })),
+        minimum_should_match: 1
+      }
+    });
+
+    // Travel time isn't indexed; distance from the origin is the closest proxy
+    if (!params.sortBy) {
+      commuteQuery.sort = [{
+        _geo_distance: {
+          location: { lat: params.latitude, lon: params.longitude },
+          order: 'asc',
+          unit: 'km'
+        }
+      }];
+    }
+
+    try {
+      const result = await this.searchCircuitBreaker.fire({
+        index: this.config.indexName,
+        body: commuteQuery
+      });
+
+      const searchResult = this.formatSearchResult(result);
+      searchResult.items = searchResult.items.map((item: any) => ({
+        ...item,
+        commuteMinutes: item.location
+          ? isochrone.minutesTo({
+            latitude: item.location.lat ?? item.location.latitude,
+            longitude: item.location.lon ?? item.location.longitude
+          })
+          : null
+      }));
+
+      return searchResult;
+    } catch (error) {
+      throw new Error(`Commute search failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Suggests neighborhoods, cities, properties and amenities for partially
+   * typed text, tolerating typos and ranking by popularity
+   * @param input - Text typed so far
+   * @param limit - Maximum suggestions
+   */
+  async suggest(input: string, limit: number = SEARCH_CONFIG.suggest.defaultLimit): Promise<Suggestion[]> {
+    const normalized = normalizeSuggestionText(input);
+    if (normalized.length < SEARCH_CONFIG.suggest.minLength) {
+      return [];
+    }
+
+    const cacheKey = `suggest:${limit}:${normalized}`;
+    const cachedResult = await this.redisClient.get(cacheKey);
+    if (cachedResult) {
+      return JSON.parse(cachedResult);
+    }
+
+    let result: any;
+    try {
+      result = await this.searchCircuitBreaker.fire({
+        index: this.config.indexName,
+        body: this.buildSuggestQuery(normalized, limit)
+      });
+    } catch (error) {
+      throw new Error(`Suggest failed: ${error.message}`);
+    }
+
+    const candidates = this.collectSuggestionCandidates(result);
+    const searchCounts = await this.getSearchCounts(candidates.map((candidate) => candidate.value));
+    candidates.forEach((candidate, index) => {
+      candidate.searchCount = searchCounts[index];
+    });
+
+    const suggestions = rankSuggestions(normalized, candidates, limit);
+    await this.redisClient.setex(cacheKey, SEARCH_CONFIG.suggest.cacheExpiry, JSON.stringify(suggestions));
+
+    return suggestions;
+  }
+
   /**
    * Builds optimized Elasticsearch query
    */
@@ -193,12 +351,18 @@ export class SearchService {
       });
     }
 
-    // Availability filter
-    if (params.availableFrom) {
+    // Move-in filter: some unit has an availability window overlapping the range
+    if (params.moveInFrom || params.moveInTo) {
+      if (params.moveInFrom && params.moveInTo && params.moveInFrom > params.moveInTo) {
+        throw new BadRequestError('Move-in range must not end before it starts');
+      }
+
       query.query.bool.filter.push({
         range: {
-          'units.availableFrom': {
-            lte: params.availableFrom.toISOString()
+          'units.availability': {
+            ...(params.moveInFrom ? { gte: params.moveInFrom } : {}),
+            ...(params.moveInTo ? { lte: params.moveInTo } : {}),
+            relation: 'intersects'
           }
         }
       });
@@ -249,6 +413,130 @@ export class SearchService {
     return baseQuery;
   }
 
+  /**
+   * Builds polygon search query; the ring is closed if the client didn't
+   */
+  private buildPolygonSearchQuery(params: PolygonSearchParams): any {
+    const baseQuery = this.buildSearchQuery(params);
+    const ring = params.polygon.map(({ latitude, longitude }) => [longitude, latitude]);
+    const [first] = ring;
+    const last = ring[ring.length - 1];
+
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      ring.push(first);
+    }
+
+    baseQuery.query.bool.filter.push({
+      geo_shape: {
+        location: {
+          shape: { type: 'polygon', coordinates: [ring] },
+          relation: 'within'
+        }
+      }
+    });
+
+    return baseQuery;
+  }
+
+  /**
+   * Builds the candidate query for suggestions: fuzzy prefix matches on
+   * property names, and prefix or fuzzy term matches on places and amenities
+   */
+  private buildSuggestQuery(input: string, limit: number): any {
+    const termFields = ['address.neighborhood', 'address.city', 'amenities'];
+
+    return {
+      size: limit,
+      _source: ['id', 'name', 'address.city'],
+      query: {
+        bool: {
+          should: [
+            { match_bool_prefix: { name: { query: input, fuzziness: 'AUTO' } } },
+            ...termFields.flatMap((field) => [
+              { prefix: { [field]: { value: input, case_insensitive: true } } },
+              { fuzzy: { [field]: { value: input, fuzziness: 'AUTO' } } }
+            ])
+          ],
+          minimum_should_match: 1
+        }
+      },
+      aggs: {
+        neighborhoods: {
+          terms: { field: 'address.neighborhood', size: 20 },
+          aggs: { city: { terms: { field: 'address.city', size: 1 } } }
+        },
+        cities: {
+          terms: { field: 'address.city', size: 20 }
+        },
+        amenities: {
+          terms: { field: 'amenities', size: 20 }
+        }
+      }
+    };
+  }
+
+  /**
+   * Turns suggest hits and term buckets into ranking candidates; bucket
+   * counts are the number of matching listings
+   */
+  private collectSuggestionCandidates(result: any): SuggestionCandidate[] {
+    const aggregations = result.aggregations || {};
+    const bucketCandidates = (buckets: any[] = [], type: SuggestionType): SuggestionCandidate[] =>
+      buckets.map((bucket: any) => ({
+        type,
+        value: bucket.key,
+        city: bucket.city?.buckets?.[0]?.key,
+        listingCount: bucket.doc_count,
+        searchCount: 0
+      }));
+
+    return [
+      ...bucketCandidates(aggregations.neighborhoods?.buckets, SuggestionType.NEIGHBORHOOD),
+      ...bucketCandidates(aggregations.cities?.buckets, SuggestionType.CITY),
+      ...bucketCandidates(aggregations.amenities?.buckets, SuggestionType.AMENITY),
+      ...result.hits.hits.map((hit: any) => ({
+        type: SuggestionType.PROPERTY,
+        value: hit._source.name,
+        propertyId: hit._source.id,
+        city: hit._source.address?.city,
+        listingCount: 1,
+        searchCount: 0
+      }))
+    ];
+  }
+
+  /**
+   * Counts searches for free-text queries so popular terms rank higher in
+   * suggestions; failures never affect the search itself
+   */
+  private recordSearchTerm(query?: string): void {
+    const term = query ? normalizeSuggestionText(query) : '';
+    if (term.length < SEARCH_CONFIG.suggest.minLength) {
+      return;
+    }
+
+    this.redisClient.zincrby(this.POPULAR_TERMS_KEY, 1, term).catch(() => undefined);
+  }
+
+  /**
+   * Looks up search counts for suggestion values
+   */
+  private async getSearchCounts(values: string[]): Promise<number[]> {
+    if (!values.length) {
+      return [];
+    }
+
+    try {
+      const scores = await this.redisClient.zmscore(
+        this.POPULAR_TERMS_KEY,
+        ...values.map(normalizeSuggestionText)
+      );
+      return scores.map((score) => Number(score) || 0);
+    } catch {
+      return values.map(() => 0);
+    }
+  }
+
   /**
    * Builds aggregations for faceted search
    */
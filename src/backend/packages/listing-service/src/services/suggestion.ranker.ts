@@ -0,0 +1,162 @@
+/**
+ * Typo-tolerant matching and popularity ranking for search suggestions.
+ * Elasticsearch narrows candidates and counts listings; this module decides
+ * which candidates actually match what was typed and in what order.
+ * @packageDocumentation
+ */
+
+/**
+ * Enumeration of suggestion kinds
+ */
+export enum SuggestionType {
+  NEIGHBORHOOD = 'NEIGHBORHOOD',
+  CITY = 'CITY',
+  PROPERTY = 'PROPERTY',
+  AMENITY = 'AMENITY'
+}
+
+/**
+ * Suggestion returned to the search box
+ */
+export interface Suggestion {
+  type: SuggestionType;
+  value: string;
+  /** Set for property suggestions so the client can link straight to the listing */
+  propertyId?: string;
+  /** City context for neighborhoods and properties */
+  city?: string;
+  /** Active listings behind the suggestion */
+  listingCount: number;
+}
+
+/**
+ * Suggestion candidate with its popularity signals
+ */
+export interface SuggestionCandidate extends Suggestion {
+  /** Times the value was searched for */
+  searchCount: number;
+}
+
+// Small boost so places rank ahead of amenities at equal match and popularity
+const TYPE_WEIGHTS: Record<SuggestionType, number> = {
+  [SuggestionType.NEIGHBORHOOD]: 1.1,
+  [SuggestionType.CITY]: 1.1,
+  [SuggestionType.PROPERTY]: 1,
+  [SuggestionType.AMENITY]: 0.9
+};
+
+/**
+ * Lowercases and strips accents and punctuation for comparison
+ * @param text - Raw text
+ */
+export const normalizeSuggestionText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Edits allowed for a typed prefix, mirroring Elasticsearch AUTO fuzziness
+ */
+const allowedEdits = (length: number): number => (length < 3 ? 0 : length < 6 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance, counting adjacent transpositions as one edit
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const distances: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+};
+
+/**
+ * Scores how well typed text matches the start of a candidate or of any word
+ * in it, tolerating typos
+ * @param input - Normalized typed text
+ * @param candidate - Normalized candidate text
+ * @returns Score in (0, 1], or 0 when the candidate doesn't match
+ */
+export const matchScore = (input: string, candidate: string): number => {
+  if (!input || !candidate) {
+    return 0;
+  }
+
+  const maxEdits = allowedEdits(input.length);
+  let best = 0;
+
+  // Candidate positions where a word starts
+  const starts = [0];
+  for (let i = 1; i < candidate.length; i++) {
+    if (candidate[i - 1] === ' ') starts.push(i);
+  }
+
+  for (const start of starts) {
+    // Compare against shorter and longer prefixes to allow missed or extra letters
+    for (let length = input.length - maxEdits; length <= input.length + maxEdits; length++) {
+      if (length < 1 || start + length > candidate.length) continue;
+
+      const edits = editDistance(input, candidate.slice(start, start + length));
+      if (edits > maxEdits) continue;
+
+      const wordPenalty = start === 0 ? 1 : 0.8;
+      const exactBonus = edits === 0 && start + length === candidate.length ? 1 : 0.9;
+      best = Math.max(best, (1 - edits / (input.length + 1)) * wordPenalty * exactBonus);
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Filters candidates to those matching the typed text and orders them by
+ * match quality weighted by popularity
+ * @param input - Raw typed text
+ * @param candidates - Candidates with popularity signals
+ * @param limit - Maximum suggestions
+ */
+export const rankSuggestions = (
+  input: string,
+  candidates: SuggestionCandidate[],
+  limit: number
+): Suggestion[] => {
+  const normalizedInput = normalizeSuggestionText(input);
+  const seen = new Set<string>();
+
+  return candidates
+    .map((candidate) => {
+      const score = matchScore(normalizedInput, normalizeSuggestionText(candidate.value));
+      const popularity = 1 + Math.log1p(candidate.listingCount) + Math.log1p(candidate.searchCount);
+      return { candidate, rank: score * popularity * TYPE_WEIGHTS[candidate.type] };
+    })
+    .filter(({ rank }) => rank > 0)
+    .sort((a, b) => b.rank - a.rank)
+    .filter(({ candidate }) => {
+      const key = `${candidate.type}:${candidate.propertyId ?? normalizeSuggestionText(candidate.value)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit)
+    .map(({ candidate: { searchCount, ...suggestion } }) => suggestion);
+};
@@ -0,0 +1,265 @@
+/**
+ * Travel-time grid backing commute searches without a live routing API.
+ * The grid is precomputed offline for the service region: each cell holds
+ * the minutes needed to cross it for a travel mode, and isochrones are
+ * derived locally by expanding outward from the origin cell.
+ * @packageDocumentation
+ */
+
+import { readFileSync } from 'fs';
+
+/**
+ * Enumeration of travel modes a grid can be precomputed for
+ */
+export enum TravelMode {
+  DRIVING = 'DRIVING',
+  TRANSIT = 'TRANSIT',
+  CYCLING = 'CYCLING',
+  WALKING = 'WALKING'
+}
+
+/**
+ * Serialized grid as produced by the offline precomputation
+ */
+export interface TravelTimeGridData {
+  /** South-west corner of cell (0, 0) */
+  readonly origin: { latitude: number; longitude: number };
+  /** Cell edge length in degrees */
+  readonly cellSizeDegrees: number;
+  readonly rows: number;
+  readonly cols: number;
+  /**
+   * Row-major minutes to cross each cell, south to north and west to east.
+   * Null marks cells that cannot be crossed, e.g. water for driving.
+   */
+  readonly modes: Partial<Record<TravelMode, readonly (number | null)[]>>;
+}
+
+/**
+ * Geo bounding box in Elasticsearch geo_bounding_box form
+ */
+export interface GridBoundingBox {
+  readonly top_left: { lat: number; lon: number };
+  readonly bottom_right: { lat: number; lon: number };
+}
+
+/**
+ * Area reachable from an origin within a travel time
+ */
+export interface Isochrone {
+  readonly mode: TravelMode;
+  readonly maxMinutes: number;
+  /** Reachable cells merged into rectangles */
+  readonly boxes: GridBoundingBox[];
+  /** Travel minutes to a point, or null when it is not reachable in time */
+  minutesTo(point: { latitude: number; longitude: number }): number | null;
+}
+
+// Neighbour offsets with their distance relative to the cell edge
+const NEIGHBOURS: readonly [number, number, number][] = [
+  [-1, 0, 1], [1, 0, 1], [0, -1, 1], [0, 1, 1],
+  [-1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [1, 1, Math.SQRT2]
+];
+
+/**
+ * Binary min-heap of [minutes, cell] pairs
+ */
+class MinutesHeap {
+  private readonly items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]): void {
+    this.items.push(item);
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.items[parent][0] <= this.items[index][0]) break;
+      [this.items[parent], this.items[index]] = [this.items[index], this.items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.items[left][0] < this.items[smallest][0]) smallest = left;
+        if (right < this.items.length && this.items[right][0] < this.items[smallest][0]) smallest = right;
+        if (smallest === index) break;
+        [this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Precomputed travel-time grid
+ */
+export class TravelTimeGrid {
+  constructor(private readonly data: TravelTimeGridData) {
+    if (!(data.cellSizeDegrees > 0) || !(data.rows > 0) || !(data.cols > 0)) {
+      throw new Error('Travel-time grid dimensions are invalid');
+    }
+
+    for (const [mode, cells] of Object.entries(data.modes)) {
+      if (cells!.length !== data.rows * data.cols) {
+        throw new Error(`Travel-time grid for ${mode} has ${cells!.length} cells; expected ${data.rows * data.cols}`);
+      }
+    }
+  }
+
+  /**
+   * Loads a grid produced by the offline precomputation
+   * @param path - Path to the grid JSON file
+   */
+  static fromFile(path: string): TravelTimeGrid {
+    return new TravelTimeGrid(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  /**
+   * Travel modes the grid was precomputed for
+   */
+  get modes(): TravelMode[] {
+    return Object.keys(this.data.modes) as TravelMode[];
+  }
+
+  /**
+   * Checks whether a point lies inside the grid
+   * @param point - Coordinates
+   */
+  covers(point: { latitude: number; longitude: number }): boolean {
+    return this.cellOf(point) !== null;
+  }
+
+  /**
+   * Computes the area reachable from an origin within a travel time
+   * @param origin - Starting point
+   * @param maxMinutes - Travel time budget
+   * @param mode - Travel mode
+   * @throws Error if the grid has no data for the mode or doesn't cover the origin
+   */
+  isochrone(
+    origin: { latitude: number; longitude: number },
+    maxMinutes: number,
+    mode: TravelMode
+  ): Isochrone {
+    const costs = this.data.modes[mode];
+    if (!costs) {
+      throw new Error(`Travel-time grid has no ${mode} data`);
+    }
+
+    const start = this.cellOf(origin);
+    if (start === null) {
+      throw new Error('Origin is outside the travel-time grid');
+    }
+
+    const { rows, cols } = this.data;
+    const minutes = new Float64Array(rows * cols).fill(Infinity);
+    minutes[start] = 0;
+
+    const heap = new MinutesHeap();
+    heap.push([0, start]);
+
+    while (heap.size) {
+      const [elapsed, cell] = heap.pop();
+      if (elapsed > minutes[cell]) continue;
+
+      const row = Math.floor(cell / cols);
+      const col = cell % cols;
+      const here = costs[cell] ?? 0;
+
+      for (const [dRow, dCol, distance] of NEIGHBOURS) {
+        const nextRow = row + dRow;
+        const nextCol = col + dCol;
+        if (nextRow < 0 || nextRow >= rows || nextCol < 0 || nextCol >= cols) continue;
+
+        const next = nextRow * cols + nextCol;
+        const there = costs[next];
+        if (there === null || there === undefined) continue;
+
+        // Half of each cell is crossed moving between their centres
+        const arrival = elapsed + ((here + there) / 2) * distance;
+        if (arrival <= maxMinutes && arrival < minutes[next]) {
+          minutes[next] = arrival;
+          heap.push([arrival, next]);
+        }
+      }
+    }
+
+    return {
+      mode,
+      maxMinutes,
+      boxes: this.toBoxes(minutes),
+      minutesTo: (point) => {
+        const cell = this.cellOf(point);
+        return cell === null || minutes[cell] === Infinity ? null : Math.round(minutes[cell]);
+      }
+    };
+  }
+
+  private cellOf(point: { latitude: number; longitude: number }): number | null {
+    const { origin, cellSizeDegrees, rows, cols } = this.data;
+    const row = Math.floor((point.latitude - origin.latitude) / cellSizeDegrees);
+    const col = Math.floor((point.longitude - origin.longitude) / cellSizeDegrees);
+
+    if (row < 0 || row >= rows || col < 0 || col >= cols) {
+      return null;
+    }
+    return row * cols + col;
+  }
+
+  /**
+   * Merges reachable cells into rectangles: contiguous cells in a row form a
+   * run, and identical runs in consecutive rows are stacked
+   */
+  private toBoxes(minutes: Float64Array): GridBoundingBox[] {
+    const { origin, cellSizeDegrees, rows, cols } = this.data;
+    const boxes: GridBoundingBox[] = [];
+    let open = new Map<string, { fromRow: number; fromCol: number; toCol: number }>();
+
+    const close = (rect: { fromRow: number; fromCol: number; toCol: number }, toRow: number) => {
+      boxes.push({
+        top_left: {
+          lat: origin.latitude + (toRow + 1) * cellSizeDegrees,
+          lon: origin.longitude + rect.fromCol * cellSizeDegrees
+        },
+        bottom_right: {
+          lat: origin.latitude + rect.fromRow * cellSizeDegrees,
+          lon: origin.longitude + (rect.toCol + 1) * cellSizeDegrees
+        }
+      });
+    };
+
+    for (let row = 0; row < rows; row++) {
+      const next = new Map<string, { fromRow: number; fromCol: number; toCol: number }>();
+
+      for (let col = 0; col < cols; col++) {
+        if (minutes[row * cols + col] === Infinity) continue;
+
+        const fromCol = col;
+        while (col + 1 < cols && minutes[row * cols + col + 1] !== Infinity) col++;
+
+        const key = `${fromCol}:${col}`;
+        next.set(key, open.get(key) ?? { fromRow: row, fromCol, toCol: col });
+        open.delete(key);
+      }
+
+      open.forEach((rect) => close(rect, row - 1));
+      open = next;
+    }
+
+    open.forEach((rect) => close(rect, rows - 1));
+    return boxes;
+  }
+}
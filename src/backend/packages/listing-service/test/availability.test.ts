@@ -0,0 +1,148 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Client } from '@elastic/elasticsearch';
+import Redis from 'ioredis';
+import { Logger } from 'winston';
+import { BadRequestError, NotFoundError } from '@common/errors';
+
+import { AvailabilityService } from '../src/services/availability.service';
+import { AvailabilityRepository } from '../src/repositories/availability.repository';
+import { SearchService } from '../src/services/search.service';
+import {
+  addDays,
+  findNextAvailableDate,
+  isAvailableBetween,
+  toAvailabilityWindows
+} from '../src/services/availability.calendar';
+import { UnavailabilityBlock, UnavailabilityReason } from '../src/models/availability.model';
+
+jest.mock('../src/config', () => ({
+  COMMUTE_CONFIG: { maxAreaBoxes: 10 }
+}));
+
+const block = (
+  startsOn: string,
+  endsOn: string | null,
+  reason = UnavailabilityReason.LEASE
+): UnavailabilityBlock => ({ reason, startsOn, endsOn, sourceId: `${reason}-${startsOn}` });
+
+describe('availability calendar', () => {
+  it('opens a window after the notice date and turnover days', () => {
+    const windows = toAvailabilityWindows([
+      block('2024-01-01', '2024-06-30'),
+      block('2024-07-01', '2024-07-03', UnavailabilityReason.TURNOVER)
+    ]);
+
+    expect(windows).toEqual([
+      { from: null, until: '2023-12-31' },
+      { from: '2024-07-04', until: null }
+    ]);
+  });
+
+  it('merges overlapping blocks and keeps gaps between them', () => {
+    const windows = toAvailabilityWindows([
+      block('2024-08-01', null, UnavailabilityReason.APPLICATION_HOLD),
+      block('2024-03-01', '2024-03-10', UnavailabilityReason.MAINTENANCE),
+      block('2024-03-05', '2024-03-20', UnavailabilityReason.OWNER_HOLD)
+    ]);
+
+    expect(windows).toEqual([
+      { from: null, until: '2024-02-29' },
+      { from: '2024-03-21', until: '2024-07-31' }
+    ]);
+  });
+
+  it('finds the next available date from today', () => {
+    const windows = toAvailabilityWindows([block('2024-01-01', '2024-06-30')]);
+
+    expect(findNextAvailableDate(windows, '2024-05-15')).toBe('2024-07-01');
+    expect(findNextAvailableDate(windows, '2024-09-01')).toBe('2024-09-01');
+    expect(findNextAvailableDate(toAvailabilityWindows([block('2024-01-01', null)]), '2024-05-15')).toBeNull();
+  });
+
+  it('matches move-in ranges overlapping a window', () => {
+    const windows = toAvailabilityWindows([block('2024-01-01', '2024-06-30')]);
+
+    expect(isAvailableBetween(windows, '2024-06-01', '2024-07-01')).toBe(true);
+    expect(isAvailableBetween(windows, '2024-02-01', '2024-06-30')).toBe(false);
+    expect(isAvailableBetween(windows, undefined, '2024-06-30')).toBe(true);
+  });
+
+  it('crosses month and leap-day boundaries', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('AvailabilityService', () => {
+  let mockRepository: MockProxy<AvailabilityRepository>;
+  let availabilityService: AvailabilityService;
+
+  beforeEach(() => {
+    mockRepository = mock<AvailabilityRepository>();
+    availabilityService = new AvailabilityService(mockRepository, mock<Logger>());
+  });
+
+  it('computes the next available date per unit', async () => {
+    mockRepository.findPropertyCalendar.mockResolvedValue([
+      { unitId: 'unit-1', unitNumber: '101', turnoverDays: 3, blocks: [block('2024-01-01', '2024-06-30')] },
+      { unitId: 'unit-2', unitNumber: '102', turnoverDays: 0, blocks: [] }
+    ]);
+
+    const units = await availabilityService.getPropertyAvailability('property-1', '2024-05-15');
+
+    expect(units.map((unit) => unit.nextAvailableDate)).toEqual(['2024-07-01', '2024-05-15']);
+    expect(units[1].windows).toEqual([{ from: null, until: null }]);
+  });
+
+  it('rejects blocks that end before they start', async () => {
+    await expect(availabilityService.addBlock('property-1', {
+      unitId: 'unit-1',
+      reason: UnavailabilityReason.MAINTENANCE,
+      startsOn: '2024-03-10',
+      endsOn: '2024-03-01'
+    }, 'manager-1')).rejects.toThrow(BadRequestError);
+    expect(mockRepository.createBlock).not.toHaveBeenCalled();
+  });
+
+  it('rejects blocks for units of another property', async () => {
+    mockRepository.unitExists.mockResolvedValue(false);
+
+    await expect(availabilityService.addBlock('property-1', {
+      unitId: 'unit-9',
+      reason: UnavailabilityReason.OWNER_HOLD,
+      startsOn: '2024-03-01'
+    }, 'manager-1')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('SearchService move-in filter', () => {
+  let mockElasticsearch: MockProxy<Client>;
+
+  beforeEach(() => {
+    mockElasticsearch = mock<Client>();
+    mockElasticsearch.search.mockResolvedValue({
+      hits: { hits: [], total: { value: 0 }, from: 0, size: 10 },
+      aggregations: {},
+      took: 1
+    } as any);
+  });
+
+  it('filters on unit availability windows overlapping the range', async () => {
+    const searchService = new SearchService(mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' });
+
+    await searchService.searchProperties({ moveInFrom: '2024-07-01', moveInTo: '2024-07-15' });
+
+    const body = (mockElasticsearch.search.mock.calls[0][0] as any).body;
+    expect(body.query.bool.filter).toContainEqual({
+      range: { 'units.availability': { gte: '2024-07-01', lte: '2024-07-15', relation: 'intersects' } }
+    });
+  });
+
+  it('rejects ranges that end before they start', async () => {
+    const searchService = new SearchService(mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' });
+
+    await expect(searchService.searchProperties({ moveInFrom: '2024-07-15', moveInTo: '2024-07-01' }))
+      .rejects.toThrow(BadRequestError);
+  });
+});
@@ -7,10 +7,12 @@
 import request from 'supertest'; // v6.3.3
 import { describe, test, expect, beforeAll, afterAll, beforeEach } from '@jest/globals'; // v29.6.0
 import { faker } from '@faker-js/faker'; // v8.0.2
+import { mock } from 'jest-mock-extended'; // v3.0.4
 import { TestDatabase } from '@testing-library/database-mock'; // v1.0.0
 
 import app from '../src/app';
 import { ListingService } from '../src/services/listing.service';
+import { SavedSearchService } from '../src/services/saved-search.service';
 import { Property, PropertyType, PropertyStatus } from '../src/models/property.model';
 import { HTTP_STATUS } from '@common/constants';
 
@@ -38,7 +40,8 @@ describe('Listing Service Tests', () => {
       testDb.getSearchClient(),
       testDb.getCacheClient(),
       testDb.getLogger(),
-      testDb.getMetricsClient()
+      testDb.getMetricsClient(),
+      mock<SavedSearchService>()
     );
 
     // Generate test property data
@@ -0,0 +1,277 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Logger } from 'winston';
+import { BadRequestError, ForbiddenError } from '@common/errors';
+import { NotificationClient } from '@common/clients';
+
+import { SavedSearchService } from '../src/services/saved-search.service';
+import { matchSavedSearch, isRepriced } from '../src/services/saved-search.matcher';
+import { SavedSearchRepository } from '../src/repositories/saved-search.repository';
+import { Property, PropertyType } from '../src/models/property.model';
+import {
+  SavedSearch,
+  SavedSearchDigestEntry,
+  SavedSearchFrequency,
+  SavedSearchMatchReason
+} from '../src/models/saved-search.model';
+
+jest.mock('../src/config', () => ({
+  NOTIFICATION_CONFIG: {
+    templates: {
+      savedSearchInstant: 'saved-search-instant',
+      savedSearchDigest: 'saved-search-digest'
+    }
+  },
+  SAVED_SEARCH_CONFIG: {
+    maxPerUser: 2,
+    maxListingsPerDigest: 1,
+    unsubscribeSecret: 'test-secret',
+    unsubscribeUrl: 'https://app.example.com/saved-searches/unsubscribe',
+    oneClickUnsubscribeUrl: 'https://api.example.com/api/v1/saved-searches/unsubscribe',
+    listingUrl: 'https://app.example.com/properties'
+  }
+}));
+
+const property = {
+  id: 'property-1',
+  name: 'Harbor Lofts',
+  description: 'Bright lofts near the waterfront',
+  type: PropertyType.APARTMENT,
+  ownerId: 'owner-1',
+  address: { street1: '1 Pier Way', street2: null, city: 'Portland', state: 'OR', zipCode: '97201', country: 'US' },
+  location: { latitude: 45.5152, longitude: -122.6784, accuracy: null },
+  amenities: ['Parking', 'Gym'],
+  units: [
+    { id: 'unit-1', bedrooms: 1, bathrooms: 1, isAvailable: true, monthlyRent: 1800 },
+    { id: 'unit-2', bedrooms: 2, bathrooms: 2, isAvailable: true, monthlyRent: 2600 },
+    { id: 'unit-3', bedrooms: 2, bathrooms: 1, isAvailable: false, monthlyRent: 2100 }
+  ]
+} as unknown as Property;
+
+const savedSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 'search-1',
+  userId: 'renter-1',
+  name: 'Portland 2BR',
+  criteria: { bedrooms: 2 },
+  frequency: SavedSearchFrequency.INSTANT,
+  unsubscribedAt: null,
+  lastNotifiedAt: null,
+  ...overrides
+} as SavedSearch);
+
+describe('matchSavedSearch', () => {
+  it('returns the lowest rent among available units matching every unit filter', () => {
+    expect(matchSavedSearch({ bedrooms: 2 }, property)).toBe(2600);
+    expect(matchSavedSearch({ priceRange: { max: 2000 } }, property)).toBe(1800);
+  });
+
+  it('requires rent, bedroom and bathroom filters to hold on the same unit', () => {
+    expect(matchSavedSearch({ bedrooms: 2, priceRange: { max: 2200 } }, property)).toBeNull();
+  });
+
+  it('applies type, amenity and text filters to the listing', () => {
+    expect(matchSavedSearch({ propertyTypes: [PropertyType.HOUSE] }, property)).toBeNull();
+    expect(matchSavedSearch({ amenities: ['Parking', 'Pool'] }, property)).toBeNull();
+    expect(matchSavedSearch({ query: 'waterfront portland' }, property)).toBe(1800);
+    expect(matchSavedSearch({ query: 'downtown' }, property)).toBeNull();
+  });
+
+  it('limits geo searches to the radius', () => {
+    const seattle = { latitude: 47.6062, longitude: -122.3321 };
+    expect(matchSavedSearch({ ...seattle, radius: 100, unit: 'mi' }, property)).toBeNull();
+    expect(matchSavedSearch({ ...seattle, radius: 300, unit: 'km' }, property)).toBe(1800);
+  });
+});
+
+describe('isRepriced', () => {
+  it('detects a changed unit rent', () => {
+    const repriced = {
+      ...property,
+      units: property.units.map((unit) => unit.id === 'unit-2' ? { ...unit, monthlyRent: 2450 } : unit)
+    } as Property;
+
+    expect(isRepriced(property, repriced)).toBe(true);
+    expect(isRepriced(property, { ...property } as Property)).toBe(false);
+  });
+});
+
+describe('SavedSearchService', () => {
+  let savedSearchService: SavedSearchService;
+  let mockRepository: MockProxy<SavedSearchRepository>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  beforeEach(() => {
+    mockRepository = mock<SavedSearchRepository>();
+    mockNotificationClient = mock<NotificationClient>();
+    savedSearchService = new SavedSearchService(mockRepository, mockNotificationClient, mock<Logger>());
+  });
+
+  describe('saveSearch', () => {
+    it('stores filters without paging or sorting', async () => {
+      mockRepository.countByUser.mockResolvedValue(0);
+      mockRepository.create.mockResolvedValue(savedSearch());
+
+      await savedSearchService.saveSearch('renter-1', {
+        name: ' Portland 2BR ',
+        criteria: { bedrooms: 2, page: 3, limit: 20, sortBy: 'price', sortOrder: 'asc' }
+      });
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId: 'renter-1',
+        name: 'Portland 2BR',
+        criteria: { bedrooms: 2 },
+        frequency: SavedSearchFrequency.DAILY
+      });
+    });
+
+    it('rejects searches beyond the per-user limit', async () => {
+      mockRepository.countByUser.mockResolvedValue(2);
+
+      await expect(savedSearchService.saveSearch('renter-1', { name: 'Another', criteria: {} }))
+        .rejects.toBeInstanceOf(BadRequestError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('prevents deleting another renter\'s search', async () => {
+    mockRepository.findById.mockResolvedValue(savedSearch());
+
+    await expect(savedSearchService.deleteSavedSearch('search-1', 'renter-2'))
+      .rejects.toBeInstanceOf(ForbiddenError);
+    expect(mockRepository.delete).not.toHaveBeenCalled();
+  });
+
+  describe('handleListingChange', () => {
+    it('alerts instant searches with a one-click unsubscribe link', async () => {
+      mockRepository.findActiveCandidates.mockResolvedValue([savedSearch()]);
+
+      const matched = await savedSearchService.handleListingChange(property, SavedSearchMatchReason.NEW_LISTING);
+
+      expect(matched).toBe(1);
+      expect(mockRepository.findActiveCandidates).toHaveBeenCalledWith(PropertyType.APARTMENT, 'owner-1');
+      expect(mockRepository.recordMatch).toHaveBeenCalledWith(
+        'search-1', 'property-1', SavedSearchMatchReason.NEW_LISTING, 2600, true
+      );
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'renter-1',
+        templateId: 'saved-search-instant',
+        unsubscribeUrl: expect.stringMatching(/^https:\/\/api\.example\.com\/api\/v1\/saved-searches\/unsubscribe\?token=search-1\./)
+      }));
+      expect(mockRepository.touchLastNotified).toHaveBeenCalledWith('search-1');
+    });
+
+    it('queues daily searches for the digest without notifying', async () => {
+      mockRepository.findActiveCandidates.mockResolvedValue([
+        savedSearch({ frequency: SavedSearchFrequency.DAILY }),
+        savedSearch({ id: 'search-2', criteria: { bedrooms: 4 } })
+      ]);
+
+      const matched = await savedSearchService.handleListingChange(property, SavedSearchMatchReason.NEW_LISTING);
+
+      expect(matched).toBe(1);
+      expect(mockRepository.recordMatch).toHaveBeenCalledWith(
+        'search-1', 'property-1', SavedSearchMatchReason.NEW_LISTING, 2600, false
+      );
+      expect(mockNotificationClient.notify).not.toHaveBeenCalled();
+    });
+
+    it('skips a re-priced listing already alerted at the same rent', async () => {
+      mockRepository.findActiveCandidates.mockResolvedValue([savedSearch()]);
+      mockRepository.findLastMatchedRent.mockResolvedValue(2600);
+
+      const matched = await savedSearchService.handleListingChange(property, SavedSearchMatchReason.PRICE_CHANGE);
+
+      expect(matched).toBe(0);
+      expect(mockRepository.recordMatch).not.toHaveBeenCalled();
+    });
+
+    it('keeps alerting other searches when one alert fails', async () => {
+      mockRepository.findActiveCandidates.mockResolvedValue([
+        savedSearch(),
+        savedSearch({ id: 'search-2', userId: 'renter-2' })
+      ]);
+      mockNotificationClient.notify.mockRejectedValueOnce(new Error('notification-service unavailable'));
+
+      const matched = await savedSearchService.handleListingChange(property, SavedSearchMatchReason.NEW_LISTING);
+
+      expect(matched).toBe(1);
+      expect(mockNotificationClient.notify).toHaveBeenCalledTimes(2);
+      expect(mockNotificationClient.notify).toHaveBeenLastCalledWith(expect.objectContaining({ userId: 'renter-2' }));
+    });
+  });
+
+  describe('sendDailyDigests', () => {
+    const entry = (propertyId: string): SavedSearchDigestEntry => ({
+      id: `match-${propertyId}`,
+      savedSearchId: 'search-1',
+      propertyId,
+      reason: SavedSearchMatchReason.NEW_LISTING,
+      monthlyRent: 2600,
+      matchedAt: new Date('2026-10-18T12:00:00Z'),
+      notifiedAt: null,
+      propertyName: 'Harbor Lofts',
+      city: 'Portland'
+    });
+
+    it('sends one digest per search and marks its matches sent', async () => {
+      mockRepository.findDigestDue.mockResolvedValue([savedSearch({ frequency: SavedSearchFrequency.DAILY })]);
+      mockRepository.findPendingMatches.mockResolvedValue([entry('property-1'), entry('property-2')]);
+
+      const sent = await savedSearchService.sendDailyDigests();
+
+      expect(sent).toBe(1);
+      expect(mockNotificationClient.notify).toHaveBeenCalledTimes(1);
+      const [request] = mockNotificationClient.notify.mock.calls[0];
+      expect(request.templateId).toBe('saved-search-digest');
+      expect(request.subject).toBe('2 new match(es) for "Portland 2BR"');
+      expect(request.data?.listings).toHaveLength(1);
+      expect(request.body).toContain('and 1 more');
+      expect(mockRepository.markNotified).toHaveBeenCalledWith('search-1');
+    });
+
+    it('clears matches on removed listings without sending an empty digest', async () => {
+      mockRepository.findDigestDue.mockResolvedValue([savedSearch({ frequency: SavedSearchFrequency.DAILY })]);
+      mockRepository.findPendingMatches.mockResolvedValue([]);
+
+      const sent = await savedSearchService.sendDailyDigests();
+
+      expect(sent).toBe(0);
+      expect(mockNotificationClient.notify).not.toHaveBeenCalled();
+      expect(mockRepository.markNotified).toHaveBeenCalledWith('search-1');
+    });
+
+    it('keeps a failed digest pending and sends the rest', async () => {
+      mockRepository.findDigestDue.mockResolvedValue([
+        savedSearch({ frequency: SavedSearchFrequency.DAILY }),
+        savedSearch({ id: 'search-2', frequency: SavedSearchFrequency.DAILY })
+      ]);
+      mockRepository.findPendingMatches.mockResolvedValue([entry('property-1')]);
+      mockNotificationClient.notify.mockRejectedValueOnce(new Error('notification-service unavailable'));
+
+      const sent = await savedSearchService.sendDailyDigests();
+
+      expect(sent).toBe(1);
+      expect(mockRepository.markNotified).toHaveBeenCalledTimes(1);
+      expect(mockRepository.markNotified).toHaveBeenCalledWith('search-2');
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('accepts the token from an alert link', async () => {
+      mockRepository.findActiveCandidates.mockResolvedValue([savedSearch()]);
+      await savedSearchService.handleListingChange(property, SavedSearchMatchReason.NEW_LISTING);
+      const [request] = mockNotificationClient.notify.mock.calls[0];
+      const token = new URL(request.unsubscribeUrl!).searchParams.get('token')!;
+
+      await savedSearchService.unsubscribe(token);
+
+      expect(mockRepository.unsubscribe).toHaveBeenCalledWith('search-1');
+    });
+
+    it('rejects a forged token', async () => {
+      await expect(savedSearchService.unsubscribe('search-1.forged'))
+        .rejects.toBeInstanceOf(BadRequestError);
+      expect(mockRepository.unsubscribe).not.toHaveBeenCalled();
+    });
+  });
+});
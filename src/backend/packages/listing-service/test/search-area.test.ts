@@ -0,0 +1,157 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Client } from '@elastic/elasticsearch';
+import Redis from 'ioredis';
+import { BadRequestError, BaseError } from '@common/errors';
+
+import { SearchService } from '../src/services/search.service';
+import { TravelMode, TravelTimeGrid } from '../src/services/travel-time.grid';
+
+jest.mock('../src/config', () => ({
+  COMMUTE_CONFIG: { maxAreaBoxes: 10 }
+}));
+
+// 3 rows x 4 cols of 0.01 degree cells; every cell takes 2 minutes to drive
+// across, and walking can't cross the cell east of the origin
+const grid = new TravelTimeGrid({
+  origin: { latitude: 45.5, longitude: -122.7 },
+  cellSizeDegrees: 0.01,
+  rows: 3,
+  cols: 4,
+  modes: {
+    [TravelMode.DRIVING]: Array(12).fill(2),
+    [TravelMode.WALKING]: [10, null, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10]
+  }
+});
+
+const origin = { latitude: 45.505, longitude: -122.695 };
+
+const searchResponse = {
+  hits: {
+    hits: [{
+      _source: { id: 'property-1', name: 'Harbor Lofts', location: { lat: 45.505, lon: -122.675 } },
+      _score: 1,
+      sort: [1.6]
+    }],
+    total: { value: 1 },
+    from: 0,
+    size: 10
+  },
+  aggregations: {
+    property_types: { buckets: [{ key: 'APARTMENT', doc_count: 1 }] }
+  },
+  took: 4
+};
+
+describe('TravelTimeGrid', () => {
+  it('expands from the origin cell within the travel time', () => {
+    const isochrone = grid.isochrone(origin, 4, TravelMode.DRIVING);
+
+    expect(isochrone.minutesTo({ latitude: 45.505, longitude: -122.675 })).toBe(4);
+    expect(isochrone.minutesTo({ latitude: 45.515, longitude: -122.685 })).toBe(3);
+    expect(isochrone.minutesTo({ latitude: 45.515, longitude: -122.675 })).toBeNull();
+    expect(isochrone.minutesTo({ latitude: 46, longitude: -122.695 })).toBeNull();
+  });
+
+  it('merges reachable cells into bounding boxes', () => {
+    const { boxes } = grid.isochrone(origin, 4, TravelMode.DRIVING);
+
+    expect(boxes).toHaveLength(3);
+    expect(boxes[0].top_left.lat).toBeCloseTo(45.51);
+    expect(boxes[0].top_left.lon).toBeCloseTo(-122.7);
+    expect(boxes[0].bottom_right.lat).toBeCloseTo(45.5);
+    expect(boxes[0].bottom_right.lon).toBeCloseTo(-122.67);
+  });
+
+  it('routes around cells that cannot be crossed', () => {
+    const isochrone = grid.isochrone(origin, 40, TravelMode.WALKING);
+
+    expect(isochrone.minutesTo({ latitude: 45.505, longitude: -122.685 })).toBeNull();
+    expect(isochrone.minutesTo({ latitude: 45.505, longitude: -122.675 })).toBe(28);
+  });
+
+  it('rejects grids whose cell count does not match the dimensions', () => {
+    expect(() => new TravelTimeGrid({
+      origin: { latitude: 0, longitude: 0 },
+      cellSizeDegrees: 0.01,
+      rows: 2,
+      cols: 2,
+      modes: { [TravelMode.DRIVING]: [1, 1, 1] }
+    })).toThrow('expected 4');
+  });
+});
+
+describe('SearchService area searches', () => {
+  let mockElasticsearch: MockProxy<Client>;
+
+  beforeEach(() => {
+    mockElasticsearch = mock<Client>();
+    mockElasticsearch.search.mockResolvedValue(searchResponse as any);
+  });
+
+  const searchBody = (): any => (mockElasticsearch.search.mock.calls[0][0] as any).body;
+
+  describe('searchWithinPolygon', () => {
+    it('filters by the closed polygon and keeps facets', async () => {
+      const searchService = new SearchService(mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' });
+
+      const result = await searchService.searchWithinPolygon({
+        bedrooms: 2,
+        polygon: [
+          { latitude: 45.5, longitude: -122.7 },
+          { latitude: 45.53, longitude: -122.7 },
+          { latitude: 45.53, longitude: -122.66 }
+        ]
+      });
+
+      const body = searchBody();
+      expect(body.aggs.property_types).toBeDefined();
+      expect(body.query.bool.filter).toContainEqual({
+        geo_shape: {
+          location: {
+            shape: {
+              type: 'polygon',
+              coordinates: [[[-122.7, 45.5], [-122.7, 45.53], [-122.66, 45.53], [-122.7, 45.5]]]
+            },
+            relation: 'within'
+          }
+        }
+      });
+      expect(result.facets.property_types).toEqual([{ value: 'APARTMENT', count: 1 }]);
+    });
+  });
+
+  describe('searchByCommute', () => {
+    it('filters by the isochrone and annotates travel times', async () => {
+      const searchService = new SearchService(
+        mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' }, grid
+      );
+
+      const result = await searchService.searchByCommute({ ...origin, maxMinutes: 4, mode: TravelMode.DRIVING });
+
+      const areaFilter = searchBody().query.bool.filter[0].bool;
+      expect(areaFilter.should).toHaveLength(3);
+      expect(areaFilter.minimum_should_match).toBe(1);
+      expect(searchBody().aggs).toBeDefined();
+      expect(result.items[0]).toEqual(expect.objectContaining({ id: 'property-1', commuteMinutes: 4 }));
+    });
+
+    it('rejects an origin outside the grid', async () => {
+      const searchService = new SearchService(
+        mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' }, grid
+      );
+
+      await expect(searchService.searchByCommute({
+        latitude: 47.6, longitude: -122.3, maxMinutes: 30, mode: TravelMode.DRIVING
+      })).rejects.toBeInstanceOf(BadRequestError);
+      expect(mockElasticsearch.search).not.toHaveBeenCalled();
+    });
+
+    it('is unavailable without a travel-time grid', async () => {
+      const searchService = new SearchService(mockElasticsearch, mock<Redis>(), { indexName: 'rental_properties' });
+
+      await expect(searchService.searchByCommute({ ...origin, maxMinutes: 30, mode: TravelMode.DRIVING }))
+        .rejects.toBeInstanceOf(BaseError);
+    });
+  });
+});
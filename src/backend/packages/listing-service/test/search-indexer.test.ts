@@ -0,0 +1,194 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { mock, mockDeep, DeepMockProxy, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Client } from '@elastic/elasticsearch';
+import { Logger } from 'winston';
+
+import { SearchIndexerService } from '../src/services/search-indexer.service';
+import { SearchIndexRepository } from '../src/repositories/search-index.repository';
+import { PropertySearchDocument, SearchIndexEvent } from '../src/models/search-index.model';
+
+jest.mock('../src/config', () => ({
+  ELASTICSEARCH_CONFIG: { settings: { number_of_shards: 1, refresh_interval: '1s' } },
+  SEARCH_INDEX_CONFIG: {
+    alias: 'properties',
+    batchSize: 200,
+    leaseSeconds: 60,
+    maxAttempts: 10,
+    retentionDays: 7,
+    reindexPageSize: 2,
+    driftPageSize: 2,
+    driftSampleSize: 10
+  }
+}));
+
+const event = (id: number, propertyId: string): SearchIndexEvent => ({
+  id,
+  propertyId,
+  sourceTable: 'units',
+  operation: 'UPDATE',
+  createdAt: new Date('2024-03-01T12:00:00Z'),
+  attempts: 1
+});
+
+const document = (id: string, sourceUpdatedAt = '2024-03-01T12:00:00Z'): PropertySearchDocument => ({
+  id,
+  name: 'Harbor Lofts',
+  description: null,
+  type: 'APARTMENT',
+  status: 'ACTIVE',
+  ownerId: 'owner-1',
+  yearBuilt: 2010,
+  totalUnits: 1,
+  address: null,
+  location: null,
+  amenities: [],
+  units: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  sourceUpdatedAt: new Date(sourceUpdatedAt)
+});
+
+describe('SearchIndexerService', () => {
+  let mockRepository: MockProxy<SearchIndexRepository>;
+  let mockClient: DeepMockProxy<Client>;
+  let indexer: SearchIndexerService;
+
+  beforeEach(() => {
+    mockRepository = mock<SearchIndexRepository>();
+    mockClient = mockDeep<Client>();
+    indexer = new SearchIndexerService(mockRepository, mockClient, mock<Logger>());
+  });
+
+  describe('processOutbox', () => {
+    it('applies each listing once at its latest outbox version', async () => {
+      mockRepository.claimPending.mockResolvedValue([
+        event(1, 'property-1'),
+        event(2, 'property-2'),
+        event(3, 'property-1')
+      ]);
+      mockRepository.findDocuments.mockResolvedValue(new Map([['property-1', document('property-1')]]));
+      mockClient.bulk.mockResolvedValue({ errors: false, items: [] } as any);
+
+      const applied = await indexer.processOutbox();
+
+      expect(applied).toBe(3);
+      expect(mockClient.bulk).toHaveBeenCalledWith({
+        operations: [
+          { index: { _index: 'properties', _id: 'property-1', version: 3, version_type: 'external_gte' } },
+          document('property-1'),
+          // Gone from the database, so removed from the index
+          { delete: { _index: 'properties', _id: 'property-2', version: 2, version_type: 'external_gte' } }
+        ]
+      });
+      expect(mockRepository.markProcessed).toHaveBeenCalledWith([1, 2, 3]);
+    });
+
+    it('treats version conflicts as already applied and retries other failures', async () => {
+      mockRepository.claimPending.mockResolvedValue([event(4, 'property-1'), event(5, 'property-2')]);
+      mockRepository.findDocuments.mockResolvedValue(new Map([
+        ['property-1', document('property-1')],
+        ['property-2', document('property-2')]
+      ]));
+      mockClient.bulk.mockResolvedValue({
+        errors: true,
+        items: [
+          { index: { _id: 'property-1', status: 409, error: { type: 'version_conflict_engine_exception' } } },
+          { index: { _id: 'property-2', status: 400, error: { type: 'mapper_parsing_exception', reason: 'bad location' } } }
+        ]
+      } as any);
+
+      const applied = await indexer.processOutbox();
+
+      expect(applied).toBe(1);
+      expect(mockRepository.markProcessed).toHaveBeenCalledWith([4]);
+      expect(mockRepository.markFailed).toHaveBeenCalledWith([5], 'bad location');
+    });
+
+    it('releases the whole batch when the index is unreachable', async () => {
+      mockRepository.claimPending.mockResolvedValue([event(6, 'property-1')]);
+      mockRepository.findDocuments.mockResolvedValue(new Map());
+      mockClient.bulk.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(indexer.processOutbox()).resolves.toBe(0);
+      expect(mockRepository.markFailed).toHaveBeenCalledWith([6], 'connect ECONNREFUSED');
+    });
+  });
+
+  describe('reindex', () => {
+    it('loads a new index, catches up and swaps the alias to it', async () => {
+      mockRepository.findLatestEventId.mockResolvedValue(40);
+      mockRepository.findDocumentPage
+        .mockResolvedValueOnce([document('property-1'), document('property-2')])
+        .mockResolvedValueOnce([]);
+      mockRepository.findChangedSince
+        .mockResolvedValueOnce(new Map([['property-2', 42]]))
+        .mockResolvedValueOnce(new Map());
+      mockRepository.findDocuments.mockResolvedValue(new Map([['property-2', document('property-2')]]));
+      mockClient.bulk.mockResolvedValue({ errors: false, items: [] } as any);
+      mockClient.indices.getAlias.mockResolvedValue({ properties_1000: { aliases: { properties: {} } } } as any);
+      mockClient.indices.get.mockResolvedValue({ properties_1: {}, properties_1000: {} } as any);
+
+      const result = await indexer.reindex();
+
+      expect(result.documents).toBe(2);
+      expect(result.previousIndices).toEqual(['properties_1000']);
+      expect(mockClient.bulk).toHaveBeenNthCalledWith(1, {
+        operations: expect.arrayContaining([
+          { index: { _index: result.index, _id: 'property-1', version: 40, version_type: 'external_gte' } }
+        ])
+      });
+      expect(mockRepository.findChangedSince).toHaveBeenNthCalledWith(1, 40);
+      expect(mockRepository.findChangedSince).toHaveBeenNthCalledWith(2, 42);
+      expect(mockClient.indices.updateAliases).toHaveBeenCalledWith({
+        actions: [
+          { remove: { index: 'properties_1000', alias: 'properties' } },
+          { add: { index: result.index, alias: 'properties' } }
+        ]
+      });
+      // The replaced index is kept for rollback
+      expect(mockClient.indices.delete).toHaveBeenCalledWith({ index: ['properties_1'] });
+    });
+  });
+
+  describe('reportDrift', () => {
+    it('reports missing, stale and orphaned listings', async () => {
+      mockRepository.findSourceVersionPage
+        .mockResolvedValueOnce([
+          { id: 'property-1', sourceUpdatedAt: new Date('2024-03-01T12:00:00Z') },
+          { id: 'property-2', sourceUpdatedAt: new Date('2024-03-02T12:00:00Z') }
+        ])
+        .mockResolvedValueOnce([
+          { id: 'property-3', sourceUpdatedAt: new Date('2024-03-01T12:00:00Z') }
+        ])
+        .mockResolvedValueOnce([]);
+      mockClient.mget
+        .mockResolvedValueOnce({
+          docs: [
+            { _id: 'property-1', found: true, _source: { sourceUpdatedAt: '2024-03-01T12:00:00Z' } },
+            { _id: 'property-2', found: true, _source: { sourceUpdatedAt: '2024-03-01T12:00:00Z' } }
+          ]
+        } as any)
+        .mockResolvedValueOnce({ docs: [{ _id: 'property-3', found: false }] } as any);
+      mockClient.search
+        .mockResolvedValueOnce({
+          hits: { hits: [{ _id: 'property-1', sort: ['property-1'] }, { _id: 'property-9', sort: ['property-9'] }] }
+        } as any)
+        .mockResolvedValueOnce({ hits: { hits: [] } } as any);
+      mockRepository.findIndexableIds.mockResolvedValue(new Set(['property-1']));
+      mockClient.count.mockResolvedValue({ count: 3 } as any);
+      mockRepository.getOutboxStats.mockResolvedValue({ pending: 2, failed: 0, oldestPendingAt: null });
+
+      const report = await indexer.reportDrift();
+
+      expect(report).toMatchObject({
+        databaseCount: 3,
+        indexCount: 3,
+        missing: ['property-3'],
+        stale: ['property-2'],
+        orphaned: ['property-9'],
+        outbox: { pending: 2, failed: 0 },
+        inSync: false
+      });
+      expect(mockClient.search).toHaveBeenLastCalledWith(expect.objectContaining({ search_after: ['property-9'] }));
+    });
+  });
+});
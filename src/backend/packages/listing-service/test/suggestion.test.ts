@@ -0,0 +1,105 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Client } from '@elastic/elasticsearch';
+import Redis from 'ioredis';
+
+import { SearchService } from '../src/services/search.service';
+import {
+  SuggestionCandidate,
+  SuggestionType,
+  matchScore,
+  rankSuggestions
+} from '../src/services/suggestion.ranker';
+
+jest.mock('../src/config', () => ({
+  SEARCH_CONFIG: {
+    suggest: { minLength: 2, defaultLimit: 8, maxLimit: 15, cacheExpiry: 60 }
+  },
+  COMMUTE_CONFIG: { maxAreaBoxes: 10 }
+}));
+
+const candidate = (overrides: Partial<SuggestionCandidate>): SuggestionCandidate => ({
+  type: SuggestionType.CITY,
+  value: 'Portland',
+  listingCount: 1,
+  searchCount: 0,
+  ...overrides
+});
+
+describe('matchScore', () => {
+  it('matches the start of the text or of any word', () => {
+    expect(matchScore('port', 'portland')).toBeGreaterThan(0);
+    expect(matchScore('lofts', 'harbor lofts')).toBeGreaterThan(0);
+    expect(matchScore('land', 'portland')).toBe(0);
+  });
+
+  it('tolerates typos in proportion to the typed length', () => {
+    expect(matchScore('protland', 'portland')).toBeGreaterThan(0);
+    expect(matchScore('pirtl', 'portland')).toBeGreaterThan(0);
+    expect(matchScore('pz', 'portland')).toBe(0);
+  });
+
+  it('scores exact matches above typos', () => {
+    expect(matchScore('portland', 'portland')).toBeGreaterThan(matchScore('portlnd', 'portland'));
+  });
+});
+
+describe('rankSuggestions', () => {
+  it('ranks equally good matches by popularity', () => {
+    const ranked = rankSuggestions('pe', [
+      candidate({ type: SuggestionType.AMENITY, value: 'Pets Allowed', listingCount: 3 }),
+      candidate({ type: SuggestionType.NEIGHBORHOOD, value: 'Pearl District', listingCount: 40, searchCount: 120 })
+    ], 5);
+
+    expect(ranked.map((suggestion) => suggestion.value)).toEqual(['Pearl District', 'Pets Allowed']);
+  });
+
+  it('drops candidates that do not match and de-duplicates values', () => {
+    const ranked = rankSuggestions('Gym', [
+      candidate({ type: SuggestionType.AMENITY, value: 'Gym' }),
+      candidate({ type: SuggestionType.AMENITY, value: 'gym' }),
+      candidate({ type: SuggestionType.AMENITY, value: 'Pool' })
+    ], 5);
+
+    expect(ranked).toEqual([{ type: SuggestionType.AMENITY, value: 'Gym', listingCount: 1 }]);
+  });
+});
+
+describe('SearchService.suggest', () => {
+  let searchService: SearchService;
+  let mockElasticsearch: MockProxy<Client>;
+  let mockRedis: MockProxy<Redis>;
+
+  beforeEach(() => {
+    mockElasticsearch = mock<Client>();
+    mockRedis = mock<Redis>();
+    mockRedis.get.mockResolvedValue(null);
+    mockRedis.zmscore.mockResolvedValue(['25', null, null]);
+    searchService = new SearchService(mockElasticsearch, mockRedis, { indexName: 'rental_properties' });
+  });
+
+  it('ranks places, properties and amenities from one query', async () => {
+    mockElasticsearch.search.mockResolvedValue({
+      hits: {
+        hits: [{ _source: { id: 'property-1', name: 'Harbor Lofts', address: { city: 'Portland' } } }]
+      },
+      aggregations: {
+        neighborhoods: { buckets: [{ key: 'Hawthorne', doc_count: 12, city: { buckets: [{ key: 'Portland' }] } }] },
+        cities: { buckets: [{ key: 'Portland', doc_count: 80 }] },
+        amenities: { buckets: [] }
+      }
+    } as any);
+
+    const suggestions = await searchService.suggest('Hawt', 5);
+
+    expect(suggestions).toEqual([
+      { type: SuggestionType.NEIGHBORHOOD, value: 'Hawthorne', city: 'Portland', listingCount: 12 }
+    ]);
+    expect(mockRedis.setex).toHaveBeenCalledWith('suggest:5:hawt', 60, JSON.stringify(suggestions));
+  });
+
+  it('skips the search for text shorter than the minimum', async () => {
+    await expect(searchService.suggest(' p ')).resolves.toEqual([]);
+    expect(mockElasticsearch.search).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Main application entry point for the messaging service
+ * Configures the Express server for the messaging REST API and attaches the
+ * Socket.IO endpoint used for real-time message delivery
+ * @version 1.0.0
+ */
+
+import express, { Express, Request, Response, NextFunction, Router } from 'express'; // v4.18.2
+import cors from 'cors'; // v2.8.5
+import helmet from 'helmet'; // v7.0.0
+import compression from 'compression'; // v1.7.4
+import { getCustomRepository } from 'typeorm'; // typeorm v0.3.17
+
+import { config } from './config';
+import { configureMessageRoutes } from './routes/message.routes';
+import { MessageController } from './controllers/message.controller';
+import { MessageService } from './services/message.service';
+import { MessageRepository } from './repositories/message.repository';
+import { MessageGateway } from './websocket/message.gateway';
+import {
+  logger,
+  errorHandler,
+  healthCheck
+} from '@common/middleware';
+
+// Initialize Express application
+const app: Express = express();
+
+// Real-time gateway shared by the REST API and the socket endpoint
+const messageGateway = new MessageGateway(logger);
+const messageController = new MessageController(
+  new MessageService(getCustomRepository(MessageRepository), messageGateway, logger)
+);
+
+/**
+ * Configures all required middleware for the Express application
+ * @param app Express application instance
+ */
+const configureMiddleware = (app: Express): void => {
+  // Security middleware
+  app.use(helmet());
+
+  // CORS configuration with whitelist
+  app.use(cors({
+    origin: config.service.corsOrigins,
+    methods: ['GET', 'POST', 'PUT'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-correlation-id'],
+    credentials: true,
+    maxAge: 86400 // 24 hours
+  }));
+
+  // Request compression
+  app.use(compression());
+
+  // Body parsers; attachments are uploaded as multipart and handled by the router
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+
+  // Request logging
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    logger.info('Incoming request', {
+      method: req.method,
+      path: req.path,
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    });
+    next();
+  });
+};
+
+/**
+ * Configures all API routes
+ * @param app Express application instance
+ */
+const configureRoutes = (app: Express): void => {
+  // Health check endpoint
+  app.get('/health', healthCheck());
+
+  // API routes
+  app.use('/api/v1/messages', configureMessageRoutes(Router(), messageController));
+
+  // 404 handler
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'The requested resource does not exist'
+    });
+  });
+
+  // Global error handler
+  app.use(errorHandler());
+};
+
+/**
+ * Starts the HTTP and WebSocket server with graceful shutdown
+ * @param app Express application instance
+ */
+const startServer = async (app: Express): Promise<void> => {
+  try {
+    const server = app.listen(config.service.port, config.service.host, () => {
+      logger.info('Messaging service started', {
+        port: config.service.port,
+        environment: config.service.nodeEnv,
+        version: config.service.version
+      });
+    });
+
+    messageGateway.attach(server, messageController);
+
+    // Graceful shutdown handler
+    const shutdown = async () => {
+      logger.info('Shutting down messaging service...');
+
+      await messageGateway.close();
+      server.close(() => {
+        logger.info('Server closed');
+        process.exit(0);
+      });
+
+      // Force close after timeout
+      setTimeout(() => {
+        logger.error('Could not close connections in time, forcefully shutting down');
+        process.exit(1);
+      }, 10000);
+    };
+
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+
+  } catch (error) {
+    logger.error('Failed to start server', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    process.exit(1);
+  }
+};
+
+configureMiddleware(app);
+configureRoutes(app);
+
+// Start server if not in test environment
+if (process.env.NODE_ENV !== 'test') {
+  startServer(app).catch(error => {
+    logger.error('Server startup failed', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    process.exit(1);
+  });
+}
+
+export default app;
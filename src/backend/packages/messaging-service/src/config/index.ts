@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Configuration module for the messaging service
+ * Manages environment variables for the REST API, WebSocket endpoint and
+ * attachment handling of in-app messaging
+ * @version 1.0.0
+ */
+
+import { z } from 'zod'; // ^3.22.0
+import dotenv from 'dotenv'; // ^16.3.1
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Custom error class for configuration-related issues
+ */
+export class ConfigurationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string = 'CONFIG_ERROR'
+  ) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Service configuration schema validation
+ */
+const serviceConfigSchema = z.object({
+  port: z.number().int().positive(),
+  host: z.string().min(1),
+  nodeEnv: z.enum(['development', 'production', 'test']),
+  logLevel: z.enum(['debug', 'info', 'warn', 'error']),
+  serviceName: z.string().min(1),
+  version: z.string().min(1),
+  corsOrigins: z.array(z.string())
+});
+
+/**
+ * WebSocket configuration schema validation
+ */
+const socketConfigSchema = z.object({
+  namespace: z.string().startsWith('/'),
+  path: z.string().startsWith('/'),
+  pingIntervalMs: z.number().int().positive(),
+  pingTimeoutMs: z.number().int().positive()
+});
+
+/**
+ * Message configuration schema validation
+ */
+const messageConfigSchema = z.object({
+  maxContentLength: z.number().int().positive(),
+  defaultPageSize: z.number().int().positive(),
+  maxPageSize: z.number().int().positive()
+});
+
+/**
+ * Attachment configuration schema validation
+ */
+const attachmentConfigSchema = z.object({
+  maxFileSize: z.number().int().positive(),
+  allowedMimeTypes: z.array(z.string()).nonempty(),
+  maxAttachmentsPerMessage: z.number().int().positive()
+});
+
+/**
+ * Service configuration object
+ */
+export const MESSAGING_SERVICE_CONFIG = {
+  port: parseInt(process.env.MESSAGING_SERVICE_PORT || '3006', 10),
+  host: process.env.MESSAGING_SERVICE_HOST || '0.0.0.0',
+  nodeEnv: process.env.NODE_ENV || 'development',
+  logLevel: process.env.LOG_LEVEL || 'info',
+  serviceName: 'messaging-service',
+  version: process.env.SERVICE_VERSION || '1.0.0',
+  corsOrigins: (process.env.CORS_ORIGIN || 'http://localhost:3000').split(',')
+} as const;
+
+/**
+ * WebSocket configuration object
+ */
+export const SOCKET_CONFIG = {
+  namespace: process.env.MESSAGING_SOCKET_NAMESPACE || '/messages',
+  path: process.env.MESSAGING_SOCKET_PATH || '/socket.io',
+  pingIntervalMs: parseInt(process.env.MESSAGING_SOCKET_PING_INTERVAL, 10) || 25000,
+  pingTimeoutMs: parseInt(process.env.MESSAGING_SOCKET_PING_TIMEOUT, 10) || 20000
+} as const;
+
+/**
+ * Message configuration object
+ */
+export const MESSAGE_CONFIG = {
+  // Encrypted content is larger than the 5000 character plaintext limit
+  maxContentLength: parseInt(process.env.MESSAGE_MAX_CONTENT_LENGTH, 10) || 10000,
+  defaultPageSize: 50,
+  maxPageSize: 100
+} as const;
+
+/**
+ * Attachment configuration object
+ */
+export const ATTACHMENT_CONFIG = {
+  maxFileSize: 10 * 1024 * 1024, // 10MB
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'application/pdf', 'application/docx'],
+  maxAttachmentsPerMessage: parseInt(process.env.MESSAGE_MAX_ATTACHMENTS, 10) || 5
+} as const;
+
+/**
+ * Validates configuration values against schemas
+ * @param config Configuration object to validate
+ * @throws {ConfigurationError} If validation fails
+ */
+export const validateConfig = (config: any): boolean => {
+  try {
+    serviceConfigSchema.parse(config.service);
+    socketConfigSchema.parse(config.socket);
+    messageConfigSchema.parse(config.message);
+    attachmentConfigSchema.parse(config.attachment);
+    return true;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ConfigurationError(`Configuration validation failed: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Loads and validates all configuration settings
+ * @returns Validated configuration object
+ * @throws {ConfigurationError} If configuration loading or validation fails
+ */
+export const loadConfig = () => {
+  try {
+    const config = {
+      service: MESSAGING_SERVICE_CONFIG,
+      socket: SOCKET_CONFIG,
+      message: MESSAGE_CONFIG,
+      attachment: ATTACHMENT_CONFIG
+    };
+
+    validateConfig(config);
+
+    return config;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to load configuration: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
+
+// Export validated configuration
+export const config = loadConfig();
@@ -0,0 +1,253 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam
+} from '@nestjs/swagger'; // @nestjs/swagger v7.1.0
+import { JwtAuthGuard } from '@nestjs/jwt'; // @nestjs/jwt v10.1.0
+
+import {
+  MessageService,
+  CreateThreadInput,
+  SendMessageInput,
+  UploadedAttachment
+} from '../services/message.service';
+import { AttachmentContent, MessageQuery } from '../repositories/message.repository';
+import {
+  Message,
+  MessageAttachment,
+  MessageStatus,
+  MessageThread,
+  MessageThreadSummary
+} from '../models/message.model';
+
+/**
+ * Controller handling message thread, message, attachment and receipt endpoints
+ */
+@Controller('messages')
+@ApiTags('messages')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+export class MessageController {
+  private readonly logger = new Logger(MessageController.name);
+
+  constructor(private readonly messageService: MessageService) {}
+
+  /**
+   * Opens a thread about a property or application
+   * @param input - Thread details
+   * @returns Promise resolving to the new or existing thread
+   */
+  @Post('threads')
+  @ApiOperation({ summary: 'Open message thread' })
+  @ApiResponse({ status: 201, description: 'Thread opened' })
+  @ApiResponse({ status: 403, description: 'User is not a party to the application' })
+  async createThread(@Body() input: CreateThreadInput): Promise<MessageThread> {
+    try {
+      return await this.messageService.createThread(input);
+    } catch (error) {
+      this.logger.error('Failed to open thread', { error: error.message, userId: input.createdBy });
+      throw this.mapError(error, 'Failed to open thread');
+    }
+  }
+
+  /**
+   * Retrieves the user's threads with unread counts
+   * @param userId - Requesting user
+   * @param page - Page number
+   * @param limit - Page size
+   * @returns Promise resolving to paginated thread summaries
+   */
+  @Get('threads')
+  @ApiOperation({ summary: 'List message threads' })
+  async getThreads(
+    userId: string,
+    @Query('page') page = 1,
+    @Query('limit') limit = 20
+  ): Promise<{ data: MessageThreadSummary[]; meta: Record<string, number> }> {
+    const { threads, total } = await this.messageService.getThreads(userId, page, limit);
+    return {
+      data: threads,
+      meta: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalItems: total
+      }
+    };
+  }
+
+  /**
+   * Retrieves a thread
+   * @param threadId - Thread identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to thread
+   */
+  @Get('threads/:id')
+  @ApiOperation({ summary: 'Get message thread' })
+  @ApiParam({ name: 'id', description: 'Thread ID' })
+  async getThread(@Param('id') threadId: string, userId: string): Promise<MessageThread> {
+    try {
+      return await this.messageService.getThread(threadId, userId);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve thread');
+    }
+  }
+
+  /**
+   * Marks all messages in a thread as read
+   * @param threadId - Thread identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to number of messages marked read
+   */
+  @Put('threads/:id/read')
+  @ApiOperation({ summary: 'Mark thread as read' })
+  @ApiParam({ name: 'id', description: 'Thread ID' })
+  async markThreadRead(
+    @Param('id') threadId: string,
+    userId: string
+  ): Promise<{ updated: number }> {
+    try {
+      return { updated: await this.messageService.markThreadRead(userId, threadId) };
+    } catch (error) {
+      throw this.mapError(error, 'Failed to mark thread as read');
+    }
+  }
+
+  /**
+   * Retrieves thread messages, newest first
+   * @param userId - Requesting user
+   * @param query - Message filters and cursor
+   * @returns Promise resolving to paginated messages
+   */
+  @Get()
+  @ApiOperation({ summary: 'List thread messages' })
+  async getMessages(
+    userId: string,
+    @Query() query: MessageQuery
+  ): Promise<{ data: Message[]; meta: { nextCursor?: string } }> {
+    try {
+      const { messages, nextCursor } = await this.messageService.getMessages(userId, query);
+      return { data: messages, meta: { nextCursor } };
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve messages');
+    }
+  }
+
+  /**
+   * Sends a message to a thread
+   * @param userId - Sending user
+   * @param input - Message details
+   * @returns Promise resolving to created message
+   */
+  @Post()
+  @ApiOperation({ summary: 'Send message' })
+  @ApiResponse({ status: 201, description: 'Message sent' })
+  async sendMessage(userId: string, @Body() input: SendMessageInput): Promise<Message> {
+    try {
+      return await this.messageService.sendMessage(userId, input);
+    } catch (error) {
+      this.logger.error('Failed to send message', {
+        error: error.message,
+        threadId: input.threadId
+      });
+      throw this.mapError(error, 'Failed to send message');
+    }
+  }
+
+  /**
+   * Records a delivery or read receipt
+   * @param messageId - Message identifier
+   * @param userId - Recipient
+   * @param status - DELIVERED or READ
+   */
+  @Put(':id/status')
+  @ApiOperation({ summary: 'Update message status' })
+  @ApiParam({ name: 'id', description: 'Message ID' })
+  async updateMessageStatus(
+    @Param('id') messageId: string,
+    userId: string,
+    @Body('status') status: MessageStatus
+  ): Promise<void> {
+    try {
+      await this.messageService.updateMessageStatus(userId, messageId, status);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to update message status');
+    }
+  }
+
+  /**
+   * Records delivery receipts acknowledged over the socket
+   * @param userId - Recipient
+   * @param messageIds - Delivered message identifiers
+   */
+  async markDelivered(userId: string, messageIds: readonly string[]): Promise<void> {
+    await this.messageService.markDelivered(userId, messageIds);
+  }
+
+  /**
+   * Uploads an attachment for a subsequent message
+   * @param userId - Uploading user
+   * @param file - Uploaded file
+   * @returns Promise resolving to stored attachment
+   */
+  @Post('attachments')
+  @ApiOperation({ summary: 'Upload message attachment' })
+  async uploadAttachment(userId: string, file: UploadedAttachment): Promise<MessageAttachment> {
+    try {
+      return await this.messageService.uploadAttachment(userId, file);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to upload attachment');
+    }
+  }
+
+  /**
+   * Retrieves attachment content
+   * @param attachmentId - Attachment identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to attachment content
+   */
+  @Get('attachments/:id')
+  @ApiOperation({ summary: 'Download message attachment' })
+  @ApiParam({ name: 'id', description: 'Attachment ID' })
+  async getAttachment(
+    @Param('id') attachmentId: string,
+    userId: string
+  ): Promise<AttachmentContent> {
+    try {
+      return await this.messageService.getAttachment(userId, attachmentId);
+    } catch (error) {
+      throw this.mapError(error, 'Failed to retrieve attachment');
+    }
+  }
+
+  /**
+   * Preserves known HTTP exceptions and wraps anything else as a bad request
+   */
+  private mapError(error: Error, message: string): Error {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof ConflictException ||
+      error instanceof BadRequestException ||
+      error instanceof ForbiddenException
+    ) {
+      return error;
+    }
+    return new BadRequestException(message);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Core TypeScript models for in-app messaging.
+ * Threads are tied to a property inquiry or a rental application and hold
+ * persisted messages with per-recipient delivery and read receipts.
+ * @packageDocumentation
+ */
+
+/**
+ * Enumeration of supported message content types
+ */
+export enum MessageType {
+  /** Plain text message */
+  TEXT = 'TEXT',
+  /** Message carrying image attachments */
+  IMAGE = 'IMAGE',
+  /** Message carrying document attachments */
+  DOCUMENT = 'DOCUMENT',
+  /** Platform-generated message, never sent by users */
+  SYSTEM = 'SYSTEM'
+}
+
+/**
+ * Enumeration of message delivery statuses, in progression order
+ */
+export enum MessageStatus {
+  /** Persisted but not yet received by recipients */
+  SENT = 'SENT',
+  /** Received by every recipient's client */
+  DELIVERED = 'DELIVERED',
+  /** Read by every recipient */
+  READ = 'READ'
+}
+
+/**
+ * Status progression rank; a receipt can only move forward
+ */
+export const MESSAGE_STATUS_RANK: Readonly<Record<MessageStatus, number>> = {
+  [MessageStatus.SENT]: 0,
+  [MessageStatus.DELIVERED]: 1,
+  [MessageStatus.READ]: 2
+};
+
+/**
+ * Enumeration of thread types
+ */
+export enum ThreadType {
+  /** Conversation between two participants */
+  DIRECT = 'DIRECT',
+  /** Conversation between three or more participants */
+  GROUP = 'GROUP'
+}
+
+/**
+ * Supported attachment MIME types
+ */
+export type AttachmentMimeType = 'image/jpeg' | 'image/png' | 'application/pdf' | 'application/docx';
+
+/**
+ * Message content encryption state as stored
+ */
+export type EncryptionStatus = 'ENCRYPTED' | 'NONE';
+
+/**
+ * Interface for a conversation between participants
+ */
+export interface MessageThread {
+  /** Unique thread identifier */
+  readonly id: string;
+  /** Thread type derived from participant count */
+  readonly type: ThreadType;
+  /** Property the conversation is about */
+  readonly propertyId: string | null;
+  /** Application the conversation is about */
+  readonly applicationId: string | null;
+  /** Optional thread subject */
+  subject: string | null;
+  /** User identifiers of participants */
+  readonly participants: readonly string[];
+  /** User who opened the thread */
+  readonly createdBy: string;
+  /** Timestamp of the latest message */
+  lastMessageAt: Date | null;
+  /** Additional thread metadata */
+  metadata: Record<string, unknown>;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Thread summary returned in a user's inbox
+ */
+export interface MessageThreadSummary extends MessageThread {
+  /** Most recent message in the thread */
+  readonly lastMessage: Message | null;
+  /** Messages the requesting user has not read */
+  readonly unreadCount: number;
+}
+
+/**
+ * Interface for a file attached to a message
+ */
+export interface MessageAttachment {
+  /** Unique attachment identifier */
+  readonly id: string;
+  /** Message the attachment belongs to, null until the message is sent */
+  readonly messageId: string | null;
+  /** User who uploaded the attachment */
+  readonly uploadedBy: string;
+  /** Attachment MIME type */
+  readonly type: AttachmentMimeType;
+  /** Download URL */
+  readonly url: string;
+  /** Original file name */
+  readonly name: string;
+  /** File size in bytes */
+  readonly size: number;
+  /** Maximum allowed file size in bytes */
+  readonly maxSize: number;
+}
+
+/**
+ * Interface for a persisted message
+ */
+export interface Message {
+  /** Unique message identifier */
+  readonly id: string;
+  /** Thread the message belongs to */
+  readonly threadId: string;
+  /** Sending user */
+  readonly senderId: string;
+  /** Message content type */
+  readonly type: MessageType;
+  /** Message content, ciphertext when encrypted */
+  readonly content: string;
+  /** Attached files */
+  readonly attachments: readonly MessageAttachment[];
+  /** Aggregate status across all recipients */
+  status: MessageStatus;
+  /** Message being replied to */
+  readonly replyTo?: string;
+  /** Additional message metadata */
+  metadata: Record<string, unknown>;
+  /** Structured payload for SYSTEM messages */
+  readonly systemData?: Record<string, unknown>;
+  /** Content encryption state */
+  readonly encryptionStatus: EncryptionStatus;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Per-recipient delivery and read receipt
+ */
+export interface MessageReceipt {
+  /** Message the receipt belongs to */
+  readonly messageId: string;
+  /** Recipient user */
+  readonly userId: string;
+  /** Recipient status */
+  status: MessageStatus;
+  /** Timestamp the recipient's client received the message */
+  deliveredAt: Date | null;
+  /** Timestamp the recipient read the message */
+  readAt: Date | null;
+}
@@ -0,0 +1,617 @@
+import { EntityRepository, Repository, QueryRunner } from 'typeorm'; // typeorm v0.3.17
+import { Logger } from 'winston'; // winston v3.9.0
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common'; // @nestjs/common v10.0.0
+import {
+  AttachmentMimeType,
+  Message,
+  MessageAttachment,
+  MessageStatus,
+  MessageThread,
+  MessageThreadSummary,
+  MessageType,
+  MESSAGE_STATUS_RANK
+} from '../models/message.model';
+import { ATTACHMENT_CONFIG } from '../config';
+
+/**
+ * Property staff and, for applications, the applicant a thread is tied to
+ */
+export interface ThreadContext {
+  readonly propertyId: string;
+  readonly applicationId: string | null;
+  readonly applicantId: string | null;
+  readonly ownerId: string;
+  readonly propertyManagerId: string | null;
+}
+
+/**
+ * Message query filters with cursor pagination
+ */
+export interface MessageQuery {
+  readonly threadId: string;
+  readonly types?: readonly MessageType[];
+  readonly startDate?: Date;
+  readonly endDate?: Date;
+  /** ID of the oldest message already loaded */
+  readonly cursor?: string;
+  readonly limit: number;
+}
+
+/**
+ * Aggregate status change produced by a receipt update
+ */
+export interface MessageStatusChange {
+  readonly messageId: string;
+  readonly threadId: string;
+  readonly senderId: string;
+  readonly status: MessageStatus;
+}
+
+/**
+ * Stored attachment content for download
+ */
+export interface AttachmentContent {
+  readonly attachment: MessageAttachment;
+  readonly content: Buffer;
+}
+
+/**
+ * Repository class for message threads, messages, attachments and receipts
+ * with transaction management
+ */
+@EntityRepository(Message)
+export class MessageRepository extends Repository<Message> {
+  private readonly logger: Logger;
+  private readonly queryRunner: QueryRunner;
+
+  constructor(logger: Logger, queryRunner: QueryRunner) {
+    super();
+    this.logger = logger;
+    this.queryRunner = queryRunner;
+  }
+
+  /**
+   * Loads the applicant and property staff for an application thread
+   * @param applicationId - Application identifier
+   * @returns Promise resolving to the thread context
+   * @throws NotFoundException if the application doesn't exist
+   */
+  async findApplicationContext(applicationId: string): Promise<ThreadContext> {
+    const [row] = await this.queryRunner.query(
+      `SELECT a.id AS application_id, a.applicant_id, u.property_id,
+              p.owner_id, p.property_manager_id
+         FROM applications a
+         JOIN units u ON u.id = a.unit_id
+         JOIN properties p ON p.id = u.property_id
+        WHERE a.id = $1`,
+      [applicationId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Application not found');
+    }
+
+    return {
+      propertyId: row.property_id,
+      applicationId: row.application_id,
+      applicantId: row.applicant_id,
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id
+    };
+  }
+
+  /**
+   * Loads the property staff for a property inquiry thread
+   * @param propertyId - Property identifier
+   * @returns Promise resolving to the thread context
+   * @throws NotFoundException if the property doesn't exist
+   */
+  async findPropertyContext(propertyId: string): Promise<ThreadContext> {
+    const [row] = await this.queryRunner.query(
+      `SELECT id, owner_id, property_manager_id
+         FROM properties
+        WHERE id = $1 AND deleted_at IS NULL`,
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Property not found');
+    }
+
+    return {
+      propertyId: row.id,
+      applicationId: null,
+      applicantId: null,
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id
+    };
+  }
+
+  /**
+   * Finds an existing thread for the same application, or for the same
+   * user's inquiry about a property
+   * @param context - Thread context
+   * @param createdBy - User opening the thread
+   * @returns Promise resolving to the thread or null
+   */
+  async findExistingThread(context: ThreadContext, createdBy: string): Promise<MessageThread | null> {
+    const [row] = context.applicationId
+      ? await this.queryRunner.query(
+        'SELECT id FROM message_threads WHERE application_id = $1',
+        [context.applicationId]
+      )
+      : await this.queryRunner.query(
+        `SELECT id FROM message_threads
+          WHERE property_id = $1 AND application_id IS NULL AND created_by = $2`,
+        [context.propertyId, createdBy]
+      );
+
+    return row ? this.findThreadById(row.id) : null;
+  }
+
+  /**
+   * Creates a thread and its participants in one transaction
+   * @param thread - Thread details
+   * @returns Promise resolving to created thread
+   */
+  async createThread(thread: Omit<MessageThread, 'id' | 'createdAt' | 'updatedAt' | 'lastMessageAt'>): Promise<MessageThread> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [row] = await this.queryRunner.query(
+        `INSERT INTO message_threads (type, property_id, application_id, subject, created_by, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [
+          thread.type,
+          thread.propertyId,
+          thread.applicationId,
+          thread.subject,
+          thread.createdBy,
+          JSON.stringify(thread.metadata)
+        ]
+      );
+
+      for (const userId of thread.participants) {
+        await this.queryRunner.query(
+          'INSERT INTO message_thread_participants (thread_id, user_id) VALUES ($1, $2)',
+          [row.id, userId]
+        );
+      }
+
+      await this.queryRunner.commitTransaction();
+
+      this.logger.info('Message thread created', { threadId: row.id });
+
+      return this.findThreadById(row.id);
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to create message thread', {
+        error: error.message,
+        propertyId: thread.propertyId,
+        applicationId: thread.applicationId
+      });
+
+      throw new ConflictException('Failed to create message thread');
+    }
+  }
+
+  /**
+   * Retrieves a thread with its participants
+   * @param threadId - Thread identifier
+   * @returns Promise resolving to thread
+   * @throws NotFoundException if thread doesn't exist
+   */
+  async findThreadById(threadId: string): Promise<MessageThread> {
+    const [row] = await this.queryRunner.query(
+      `SELECT t.*, array_agg(tp.user_id) AS participants
+         FROM message_threads t
+         JOIN message_thread_participants tp ON tp.thread_id = t.id
+        WHERE t.id = $1
+        GROUP BY t.id`,
+      [threadId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Message thread not found');
+    }
+
+    return this.mapThread(row);
+  }
+
+  /**
+   * Retrieves a user's threads, most recently active first, with unread counts
+   * @param userId - Participant identifier
+   * @param page - Page number starting at 1
+   * @param limit - Page size
+   * @returns Promise resolving to thread summaries and total count
+   */
+  async findThreadsForUser(
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ threads: MessageThreadSummary[]; total: number }> {
+    const rows = await this.queryRunner.query(
+      `SELECT t.*,
+              (SELECT array_agg(p.user_id) FROM message_thread_participants p WHERE p.thread_id = t.id) AS participants,
+              (SELECT count(*) FROM message_receipts r
+                 JOIN messages m ON m.id = r.message_id
+                WHERE m.thread_id = t.id AND r.user_id = $1 AND r.status <> 'READ')::int AS unread_count,
+              (SELECT m.id FROM messages m WHERE m.thread_id = t.id
+                ORDER BY m.created_at DESC LIMIT 1) AS last_message_id,
+              count(*) OVER()::int AS total
+         FROM message_threads t
+         JOIN message_thread_participants tp ON tp.thread_id = t.id AND tp.user_id = $1
+        ORDER BY COALESCE(t.last_message_at, t.created_at) DESC
+        LIMIT $2 OFFSET $3`,
+      [userId, limit, (page - 1) * limit]
+    );
+
+    const lastMessageIds = rows.map((row) => row.last_message_id).filter(Boolean);
+    const lastMessages = lastMessageIds.length
+      ? await this.findMessagesByIds(lastMessageIds)
+      : [];
+
+    return {
+      threads: rows.map((row) => ({
+        ...this.mapThread(row),
+        lastMessage: lastMessages.find((message) => message.id === row.last_message_id) || null,
+        unreadCount: row.unread_count
+      })),
+      total: rows[0]?.total ?? 0
+    };
+  }
+
+  /**
+   * Persists a message with recipient receipts and links its uploaded attachments
+   * @param message - Message details
+   * @param recipientIds - Thread participants other than the sender
+   * @param attachmentIds - Attachments previously uploaded by the sender
+   * @returns Promise resolving to created message
+   * @throws BadRequestException if an attachment is missing or already used
+   */
+  async createMessage(
+    message: Omit<Message, 'id' | 'attachments' | 'status' | 'createdAt' | 'updatedAt'>,
+    recipientIds: readonly string[],
+    attachmentIds: readonly string[] = []
+  ): Promise<Message> {
+    try {
+      await this.queryRunner.startTransaction();
+
+      const [row] = await this.queryRunner.query(
+        `INSERT INTO messages
+           (thread_id, sender_id, type, content, encryption_status, reply_to, metadata, system_data)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id, created_at`,
+        [
+          message.threadId,
+          message.senderId,
+          message.type,
+          message.content,
+          message.encryptionStatus,
+          message.replyTo ?? null,
+          JSON.stringify(message.metadata),
+          message.systemData ? JSON.stringify(message.systemData) : null
+        ]
+      );
+
+      for (const userId of recipientIds) {
+        await this.queryRunner.query(
+          'INSERT INTO message_receipts (message_id, user_id) VALUES ($1, $2)',
+          [row.id, userId]
+        );
+      }
+
+      if (attachmentIds.length) {
+        const linked = await this.queryRunner.query(
+          `UPDATE message_attachments
+              SET message_id = $1, updated_at = NOW()
+            WHERE id = ANY($2) AND uploaded_by = $3 AND message_id IS NULL
+            RETURNING id`,
+          [row.id, attachmentIds, message.senderId]
+        );
+        if (linked.length !== attachmentIds.length) {
+          throw new BadRequestException('Attachment not found or already sent');
+        }
+      }
+
+      await this.queryRunner.query(
+        'UPDATE message_threads SET last_message_at = $1, updated_at = NOW() WHERE id = $2',
+        [row.created_at, message.threadId]
+      );
+
+      await this.queryRunner.commitTransaction();
+
+      const [created] = await this.findMessagesByIds([row.id]);
+      return created;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to create message', {
+        error: error.message,
+        threadId: message.threadId
+      });
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new ConflictException('Failed to create message');
+    }
+  }
+
+  /**
+   * Retrieves a message by ID
+   * @param messageId - Message identifier
+   * @returns Promise resolving to message
+   * @throws NotFoundException if message doesn't exist
+   */
+  async findMessageById(messageId: string): Promise<Message> {
+    const [message] = await this.findMessagesByIds([messageId]);
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+    return message;
+  }
+
+  /**
+   * Retrieves a page of thread messages, newest first
+   * @param query - Message filters and cursor
+   * @returns Promise resolving to messages and the cursor for the next page
+   */
+  async findMessages(query: MessageQuery): Promise<{ messages: Message[]; nextCursor?: string }> {
+    const conditions = ['m.thread_id = $1'];
+    const params: unknown[] = [query.threadId];
+
+    if (query.types?.length) {
+      params.push(query.types);
+      conditions.push(`m.type = ANY($${params.length})`);
+    }
+    if (query.startDate) {
+      params.push(query.startDate);
+      conditions.push(`m.created_at >= $${params.length}`);
+    }
+    if (query.endDate) {
+      params.push(query.endDate);
+      conditions.push(`m.created_at <= $${params.length}`);
+    }
+    if (query.cursor) {
+      params.push(query.cursor);
+      conditions.push(
+        `(m.created_at, m.id) < (SELECT created_at, id FROM messages WHERE id = $${params.length})`
+      );
+    }
+
+    params.push(query.limit + 1);
+    const rows = await this.queryRunner.query(
+      `SELECT m.id FROM messages m
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT $${params.length}`,
+      params
+    );
+
+    const pageIds = rows.slice(0, query.limit).map((row) => row.id);
+    const messages = pageIds.length ? await this.findMessagesByIds(pageIds) : [];
+
+    return {
+      messages,
+      nextCursor: rows.length > query.limit ? pageIds[pageIds.length - 1] : undefined
+    };
+  }
+
+  /**
+   * Advances recipients' receipts for the given messages and recalculates the
+   * aggregate message status. Receipts never move backwards.
+   * @param messageIds - Messages to update
+   * @param userId - Recipient identifier
+   * @param status - Target receipt status
+   * @returns Promise resolving to messages whose aggregate status changed
+   */
+  async updateReceipts(
+    messageIds: readonly string[],
+    userId: string,
+    status: MessageStatus
+  ): Promise<MessageStatusChange[]> {
+    if (!messageIds.length) {
+      return [];
+    }
+
+    const lowerStatuses = Object.values(MessageStatus)
+      .filter((item) => MESSAGE_STATUS_RANK[item] < MESSAGE_STATUS_RANK[status]);
+
+    try {
+      await this.queryRunner.startTransaction();
+
+      const updated = await this.queryRunner.query(
+        `UPDATE message_receipts
+            SET status = $1,
+                delivered_at = COALESCE(delivered_at, NOW()),
+                read_at = CASE WHEN $1 = 'READ' THEN NOW() ELSE read_at END
+          WHERE message_id = ANY($2) AND user_id = $3 AND status = ANY($4)
+          RETURNING message_id`,
+        [status, messageIds, userId, lowerStatuses]
+      );
+
+      const changes: MessageStatusChange[] = [];
+      for (const { message_id: messageId } of updated) {
+        const receipts = await this.queryRunner.query(
+          'SELECT status FROM message_receipts WHERE message_id = $1',
+          [messageId]
+        );
+        const aggregate = receipts.reduce(
+          (lowest, receipt) =>
+            MESSAGE_STATUS_RANK[receipt.status as MessageStatus] < MESSAGE_STATUS_RANK[lowest]
+              ? receipt.status
+              : lowest,
+          MessageStatus.READ
+        );
+
+        const [changed] = await this.queryRunner.query(
+          `UPDATE messages SET status = $1, updated_at = NOW()
+            WHERE id = $2 AND status <> $1
+            RETURNING id, thread_id, sender_id, status`,
+          [aggregate, messageId]
+        );
+        if (changed) {
+          changes.push({
+            messageId: changed.id,
+            threadId: changed.thread_id,
+            senderId: changed.sender_id,
+            status: changed.status
+          });
+        }
+      }
+
+      await this.queryRunner.commitTransaction();
+
+      return changes;
+
+    } catch (error) {
+      await this.queryRunner.rollbackTransaction();
+
+      this.logger.error('Failed to update message receipts', {
+        error: error.message,
+        userId,
+        status
+      });
+
+      throw new ConflictException('Failed to update message status');
+    }
+  }
+
+  /**
+   * Retrieves IDs of a recipient's unread messages in a thread
+   * @param threadId - Thread identifier
+   * @param userId - Recipient identifier
+   * @returns Promise resolving to message IDs
+   */
+  async findUnreadMessageIds(threadId: string, userId: string): Promise<string[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT r.message_id
+         FROM message_receipts r
+         JOIN messages m ON m.id = r.message_id
+        WHERE m.thread_id = $1 AND r.user_id = $2 AND r.status <> 'READ'`,
+      [threadId, userId]
+    );
+    return rows.map((row) => row.message_id);
+  }
+
+  /**
+   * Stores an uploaded attachment until it is sent with a message
+   * @param attachment - Attachment metadata
+   * @param content - File content
+   * @returns Promise resolving to stored attachment
+   */
+  async saveAttachment(
+    attachment: { uploadedBy: string; type: AttachmentMimeType; name: string; size: number },
+    content: Buffer
+  ): Promise<MessageAttachment> {
+    const [row] = await this.queryRunner.query(
+      `INSERT INTO message_attachments (uploaded_by, mime_type, name, size, content)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, message_id, uploaded_by, mime_type, name, size`,
+      [attachment.uploadedBy, attachment.type, attachment.name, attachment.size, content]
+    );
+
+    return this.mapAttachment(row);
+  }
+
+  /**
+   * Retrieves an attachment with its content and owning thread
+   * @param attachmentId - Attachment identifier
+   * @returns Promise resolving to attachment content and thread ID
+   * @throws NotFoundException if attachment doesn't exist
+   */
+  async findAttachment(attachmentId: string): Promise<AttachmentContent & { threadId: string | null }> {
+    const [row] = await this.queryRunner.query(
+      `SELECT a.*, m.thread_id
+         FROM message_attachments a
+         LEFT JOIN messages m ON m.id = a.message_id
+        WHERE a.id = $1`,
+      [attachmentId]
+    );
+
+    if (!row) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return {
+      attachment: this.mapAttachment(row),
+      content: row.content,
+      threadId: row.thread_id
+    };
+  }
+
+  /**
+   * Loads messages with their attachments, preserving the requested order
+   */
+  private async findMessagesByIds(messageIds: readonly string[]): Promise<Message[]> {
+    const rows = await this.queryRunner.query(
+      `SELECT m.*,
+              COALESCE(json_agg(json_build_object(
+                'id', a.id, 'message_id', a.message_id, 'uploaded_by', a.uploaded_by,
+                'mime_type', a.mime_type, 'name', a.name, 'size', a.size
+              )) FILTER (WHERE a.id IS NOT NULL), '[]') AS attachments
+         FROM messages m
+         LEFT JOIN message_attachments a ON a.message_id = m.id
+        WHERE m.id = ANY($1)
+        GROUP BY m.id`,
+      [messageIds]
+    );
+
+    return messageIds
+      .map((id) => rows.find((row) => row.id === id))
+      .filter(Boolean)
+      .map((row) => this.mapMessage(row));
+  }
+
+  private mapThread(row: any): MessageThread {
+    return {
+      id: row.id,
+      type: row.type,
+      propertyId: row.property_id,
+      applicationId: row.application_id,
+      subject: row.subject,
+      participants: row.participants,
+      createdBy: row.created_by,
+      lastMessageAt: row.last_message_at,
+      metadata: row.metadata,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapMessage(row: any): Message {
+    return {
+      id: row.id,
+      threadId: row.thread_id,
+      senderId: row.sender_id,
+      type: row.type,
+      content: row.content,
+      attachments: row.attachments.map((attachment) => this.mapAttachment(attachment)),
+      status: row.status,
+      replyTo: row.reply_to ?? undefined,
+      metadata: row.metadata,
+      systemData: row.system_data ?? undefined,
+      encryptionStatus: row.encryption_status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapAttachment(row: any): MessageAttachment {
+    return {
+      id: row.id,
+      messageId: row.message_id,
+      uploadedBy: row.uploaded_by,
+      type: row.mime_type,
+      url: `/api/v1/messages/attachments/${row.id}`,
+      name: row.name,
+      size: row.size,
+      maxSize: ATTACHMENT_CONFIG.maxFileSize
+    };
+  }
+}
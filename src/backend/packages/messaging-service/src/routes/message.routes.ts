@@ -0,0 +1,208 @@
+import { Router } from 'express'; // express v4.18.0
+import { validateRequest } from 'express-validator'; // express-validator v7.0.0
+import { authenticate } from '@common/middleware'; // @common/middleware v1.0.0
+import { rateLimit } from 'express-rate-limit'; // express-rate-limit v6.9.0
+import helmet from 'helmet'; // helmet v7.0.0
+import multer from 'multer'; // multer v1.4.5-lts.1
+import { correlationMiddleware, errorHandler } from '@common/middleware'; // @common/middleware v1.0.0
+import { MessageController } from '../controllers/message.controller';
+import { MessageType } from '../models/message.model';
+import { ATTACHMENT_CONFIG, MESSAGE_CONFIG } from '../config';
+
+// Constants for rate limiting
+const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
+const RATE_LIMIT_MAX_REQUESTS = 120;
+
+// Attachments are held in memory and persisted by the service
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_CONFIG.maxFileSize, files: 1 }
+});
+
+/**
+ * Configures and returns the message router with security and validation
+ */
+export function configureMessageRoutes(
+  router: Router,
+  messageController: MessageController
+): Router {
+  router.use(helmet());
+
+  router.use(correlationMiddleware());
+  router.use(rateLimit({
+    windowMs: RATE_LIMIT_WINDOW_MS,
+    max: RATE_LIMIT_MAX_REQUESTS,
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: 'Too many requests from this IP, please try again later'
+  }));
+  router.use(authenticate());
+
+  // Thread inbox
+  router.get('/threads',
+    validateRequest([
+      { field: 'page', rules: ['optional', 'numeric', 'min:1'] },
+      { field: 'limit', rules: ['optional', 'numeric', 'min:1', `max:${MESSAGE_CONFIG.maxPageSize}`] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const threads = await messageController.getThreads(
+          req.user.id,
+          Number(req.query.page) || 1,
+          Number(req.query.limit) || 20
+        );
+        res.status(200).json(threads);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Open a thread about a property or application
+  router.post('/threads',
+    validateRequest([
+      { field: 'propertyId', rules: ['optional', 'uuid'] },
+      { field: 'applicationId', rules: ['optional', 'uuid'] },
+      { field: 'subject', rules: ['optional', 'string', 'max:255'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const thread = await messageController.createThread({
+          propertyId: req.body.propertyId,
+          applicationId: req.body.applicationId,
+          subject: req.body.subject,
+          createdBy: req.user.id
+        });
+        res.status(201).json(thread);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get('/threads/:id',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const thread = await messageController.getThread(req.params.id, req.user.id);
+        res.status(200).json(thread);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.put('/threads/:id/read',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const result = await messageController.markThreadRead(req.params.id, req.user.id);
+        res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Attachment upload and download
+  router.post('/attachments',
+    upload.single('file'),
+    async (req, res, next) => {
+      try {
+        const attachment = await messageController.uploadAttachment(req.user.id, req.file);
+        res.status(201).json(attachment);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.get('/attachments/:id',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const { attachment, content } = await messageController.getAttachment(
+          req.params.id,
+          req.user.id
+        );
+        res.setHeader('Content-Type', attachment.type);
+        res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(attachment.name)}"`);
+        res.status(200).send(content);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Thread messages
+  router.get('/',
+    validateRequest([
+      { field: 'threadId', rules: ['required', 'uuid'] },
+      { field: 'cursor', rules: ['optional', 'uuid'] },
+      { field: 'startDate', rules: ['optional', 'date'] },
+      { field: 'endDate', rules: ['optional', 'date'] },
+      { field: 'limit', rules: ['optional', 'numeric', 'min:1', `max:${MESSAGE_CONFIG.maxPageSize}`] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const { type } = req.query;
+        const messages = await messageController.getMessages(req.user.id, {
+          threadId: req.query.threadId as string,
+          types: type ? ([] as MessageType[]).concat(type as MessageType | MessageType[]) : undefined,
+          startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+          endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+          cursor: req.query.cursor as string,
+          limit: Number(req.query.limit) || MESSAGE_CONFIG.defaultPageSize
+        });
+        res.status(200).json(messages);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.post('/',
+    validateRequest([
+      { field: 'threadId', rules: ['required', 'uuid'] },
+      { field: 'type', rules: ['required', 'in:TEXT,IMAGE,DOCUMENT'] },
+      { field: 'content', rules: ['required', 'string', `max:${MESSAGE_CONFIG.maxContentLength}`] },
+      { field: 'attachments', rules: ['optional', 'array', `max:${ATTACHMENT_CONFIG.maxAttachmentsPerMessage}`] },
+      { field: 'replyTo', rules: ['optional', 'uuid'] },
+      { field: 'encryptionStatus', rules: ['optional', 'in:ENCRYPTED,NONE'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        const message = await messageController.sendMessage(req.user.id, req.body);
+        res.status(201).json(message);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Delivery and read receipts
+  router.put('/:id/status',
+    validateRequest([
+      { field: 'id', rules: ['required', 'uuid'] },
+      { field: 'status', rules: ['required', 'in:DELIVERED,READ'] }
+    ]),
+    async (req, res, next) => {
+      try {
+        await messageController.updateMessageStatus(req.params.id, req.user.id, req.body.status);
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  router.use(errorHandler());
+
+  return router;
+}
@@ -0,0 +1,376 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException
+} from '@nestjs/common'; // @nestjs/common v10.0.0
+import { Logger } from 'winston'; // winston v3.9.0
+
+import {
+  AttachmentMimeType,
+  EncryptionStatus,
+  Message,
+  MessageAttachment,
+  MessageStatus,
+  MessageThread,
+  MessageThreadSummary,
+  MessageType,
+  ThreadType
+} from '../models/message.model';
+import {
+  AttachmentContent,
+  MessageQuery,
+  MessageRepository,
+  MessageStatusChange,
+  ThreadContext
+} from '../repositories/message.repository';
+import { ATTACHMENT_CONFIG, MESSAGE_CONFIG } from '../config';
+
+/**
+ * Real-time events pushed to connected clients
+ */
+export const MESSAGE_EVENTS = {
+  NEW: 'message:new',
+  STATUS: 'message:status'
+} as const;
+
+/**
+ * Delivers real-time events to connected users
+ */
+export interface MessageEventPublisher {
+  publishToUsers(userIds: readonly string[], event: string, payload: unknown): void;
+}
+
+/**
+ * Thread creation request details
+ */
+export interface CreateThreadInput {
+  /** User opening the thread */
+  readonly createdBy: string;
+  /** Property the conversation is about */
+  readonly propertyId?: string;
+  /** Application the conversation is about; takes precedence over propertyId */
+  readonly applicationId?: string;
+  /** Optional thread subject */
+  readonly subject?: string;
+}
+
+/**
+ * Message send request details
+ */
+export interface SendMessageInput {
+  readonly threadId: string;
+  readonly type: MessageType;
+  readonly content: string;
+  /** Attachments returned by the upload endpoint, or their IDs */
+  readonly attachments?: ReadonlyArray<string | { id: string }>;
+  readonly replyTo?: string;
+  readonly encryptionStatus?: EncryptionStatus;
+  readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Uploaded file details
+ */
+export interface UploadedAttachment {
+  readonly originalname: string;
+  readonly mimetype: string;
+  readonly size: number;
+  readonly buffer: Buffer;
+}
+
+/**
+ * Service handling message threads, persisted messages, attachments and
+ * read receipts with real-time delivery to thread participants
+ */
+@Injectable()
+export class MessageService {
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly publisher: MessageEventPublisher,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Opens a thread about an application or a property, or returns the existing one.
+   * Participants are the applicant or inquiring user plus the property staff.
+   * @param input - Thread details
+   * @returns Promise resolving to the thread
+   */
+  async createThread(input: CreateThreadInput): Promise<MessageThread> {
+    let context: ThreadContext;
+    if (input.applicationId) {
+      context = await this.messageRepository.findApplicationContext(input.applicationId);
+    } else if (input.propertyId) {
+      context = await this.messageRepository.findPropertyContext(input.propertyId);
+    } else {
+      throw new BadRequestException('Thread must reference a property or an application');
+    }
+
+    const staff = [context.ownerId, context.propertyManagerId].filter(Boolean);
+    const participants = [...new Set([context.applicantId ?? input.createdBy, ...staff])];
+
+    if (!participants.includes(input.createdBy)) {
+      throw new ForbiddenException('User is not a party to this application');
+    }
+    if (participants.length < 2) {
+      throw new BadRequestException('Cannot open a thread with yourself');
+    }
+
+    const existing = await this.messageRepository.findExistingThread(context, input.createdBy);
+    if (existing) {
+      return existing;
+    }
+
+    const thread = await this.messageRepository.createThread({
+      type: participants.length > 2 ? ThreadType.GROUP : ThreadType.DIRECT,
+      propertyId: context.propertyId,
+      applicationId: context.applicationId,
+      subject: input.subject ?? null,
+      participants,
+      createdBy: input.createdBy,
+      metadata: {}
+    });
+
+    this.logger.info('Thread opened', {
+      threadId: thread.id,
+      propertyId: thread.propertyId,
+      applicationId: thread.applicationId
+    });
+
+    return thread;
+  }
+
+  /**
+   * Retrieves the user's threads with unread counts
+   * @param userId - Participant identifier
+   * @param page - Page number starting at 1
+   * @param limit - Page size
+   * @returns Promise resolving to thread summaries and total count
+   */
+  async getThreads(
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ threads: MessageThreadSummary[]; total: number }> {
+    return this.messageRepository.findThreadsForUser(
+      userId,
+      page,
+      Math.min(limit, MESSAGE_CONFIG.maxPageSize)
+    );
+  }
+
+  /**
+   * Retrieves a thread the user participates in
+   * @param threadId - Thread identifier
+   * @param userId - Requesting user
+   * @returns Promise resolving to thread
+   */
+  async getThread(threadId: string, userId: string): Promise<MessageThread> {
+    const thread = await this.messageRepository.findThreadById(threadId);
+    this.assertParticipant(thread, userId);
+    return thread;
+  }
+
+  /**
+   * Retrieves a page of thread messages, newest first
+   * @param userId - Requesting user
+   * @param query - Message filters and cursor
+   * @returns Promise resolving to messages and next cursor
+   */
+  async getMessages(
+    userId: string,
+    query: MessageQuery
+  ): Promise<{ messages: Message[]; nextCursor?: string }> {
+    await this.getThread(query.threadId, userId);
+    return this.messageRepository.findMessages({
+      ...query,
+      limit: Math.min(query.limit || MESSAGE_CONFIG.defaultPageSize, MESSAGE_CONFIG.maxPageSize)
+    });
+  }
+
+  /**
+   * Persists a message and pushes it to every thread participant
+   * @param senderId - Sending user
+   * @param input - Message details
+   * @returns Promise resolving to created message
+   */
+  async sendMessage(senderId: string, input: SendMessageInput): Promise<Message> {
+    const thread = await this.getThread(input.threadId, senderId);
+    const attachmentIds = (input.attachments ?? []).map((item) =>
+      typeof item === 'string' ? item : item.id
+    );
+
+    this.validateMessage(input, attachmentIds);
+
+    if (input.replyTo) {
+      const original = await this.messageRepository.findMessageById(input.replyTo);
+      if (original.threadId !== thread.id) {
+        throw new BadRequestException('Reply must reference a message in the same thread');
+      }
+    }
+
+    const message = await this.messageRepository.createMessage(
+      {
+        threadId: thread.id,
+        senderId,
+        type: input.type,
+        content: input.content,
+        replyTo: input.replyTo,
+        encryptionStatus: input.encryptionStatus ?? 'NONE',
+        metadata: input.metadata ?? {}
+      },
+      thread.participants.filter((userId) => userId !== senderId),
+      attachmentIds
+    );
+
+    this.publisher.publishToUsers(thread.participants, MESSAGE_EVENTS.NEW, { message });
+
+    this.logger.info('Message sent', {
+      messageId: message.id,
+      threadId: thread.id,
+      attachments: attachmentIds.length
+    });
+
+    return message;
+  }
+
+  /**
+   * Records a delivery or read receipt for a single message
+   * @param userId - Recipient identifier
+   * @param messageId - Message identifier
+   * @param status - DELIVERED or READ
+   */
+  async updateMessageStatus(
+    userId: string,
+    messageId: string,
+    status: MessageStatus
+  ): Promise<void> {
+    if (status === MessageStatus.SENT) {
+      throw new BadRequestException('Status must be DELIVERED or READ');
+    }
+
+    const message = await this.messageRepository.findMessageById(messageId);
+    if (message.senderId === userId) {
+      throw new BadRequestException('Senders cannot acknowledge their own messages');
+    }
+    await this.getThread(message.threadId, userId);
+
+    await this.applyReceipts([messageId], userId, status);
+  }
+
+  /**
+   * Marks every unread message in a thread as read by the user
+   * @param userId - Recipient identifier
+   * @param threadId - Thread identifier
+   * @returns Promise resolving to number of messages marked read
+   */
+  async markThreadRead(userId: string, threadId: string): Promise<number> {
+    await this.getThread(threadId, userId);
+    const messageIds = await this.messageRepository.findUnreadMessageIds(threadId, userId);
+    await this.applyReceipts(messageIds, userId, MessageStatus.READ);
+    return messageIds.length;
+  }
+
+  /**
+   * Records delivery receipts acknowledged by a connected client
+   * @param userId - Recipient identifier
+   * @param messageIds - Messages received by the client
+   */
+  async markDelivered(userId: string, messageIds: readonly string[]): Promise<void> {
+    await this.applyReceipts(messageIds, userId, MessageStatus.DELIVERED);
+  }
+
+  /**
+   * Stores an uploaded attachment to be referenced by a subsequent message
+   * @param userId - Uploading user
+   * @param file - Uploaded file
+   * @returns Promise resolving to stored attachment
+   */
+  async uploadAttachment(userId: string, file: UploadedAttachment): Promise<MessageAttachment> {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+    if (!(ATTACHMENT_CONFIG.allowedMimeTypes as readonly string[]).includes(file.mimetype)) {
+      throw new BadRequestException('Unsupported attachment type');
+    }
+    if (file.size > ATTACHMENT_CONFIG.maxFileSize) {
+      throw new BadRequestException('Attachment exceeds maximum file size');
+    }
+
+    return this.messageRepository.saveAttachment(
+      {
+        uploadedBy: userId,
+        type: file.mimetype as AttachmentMimeType,
+        name: file.originalname,
+        size: file.size
+      },
+      file.buffer
+    );
+  }
+
+  /**
+   * Retrieves an attachment for download. Unsent attachments are only visible
+   * to their uploader; sent ones to thread participants.
+   * @param userId - Requesting user
+   * @param attachmentId - Attachment identifier
+   * @returns Promise resolving to attachment content
+   */
+  async getAttachment(userId: string, attachmentId: string): Promise<AttachmentContent> {
+    const { threadId, ...content } = await this.messageRepository.findAttachment(attachmentId);
+
+    if (threadId) {
+      await this.getThread(threadId, userId);
+    } else if (content.attachment.uploadedBy !== userId) {
+      throw new ForbiddenException('Access to attachment denied');
+    }
+
+    return content;
+  }
+
+  /**
+   * Advances receipts and pushes aggregate status changes to thread participants
+   */
+  private async applyReceipts(
+    messageIds: readonly string[],
+    userId: string,
+    status: MessageStatus
+  ): Promise<void> {
+    const changes = await this.messageRepository.updateReceipts(messageIds, userId, status);
+    await Promise.all(changes.map((change) => this.publishStatusChange(change)));
+  }
+
+  private async publishStatusChange(change: MessageStatusChange): Promise<void> {
+    const thread = await this.messageRepository.findThreadById(change.threadId);
+    this.publisher.publishToUsers(thread.participants, MESSAGE_EVENTS.STATUS, {
+      messageId: change.messageId,
+      status: change.status
+    });
+  }
+
+  /**
+   * Validates message type, content length and attachments
+   */
+  private validateMessage(input: SendMessageInput, attachmentIds: readonly string[]): void {
+    if (input.type === MessageType.SYSTEM) {
+      throw new BadRequestException('SYSTEM messages cannot be sent by users');
+    }
+    if (!input.content || input.content.length > MESSAGE_CONFIG.maxContentLength) {
+      throw new BadRequestException('Message content is empty or too long');
+    }
+    if (attachmentIds.length > ATTACHMENT_CONFIG.maxAttachmentsPerMessage) {
+      throw new BadRequestException('Too many attachments');
+    }
+    if (
+      (input.type === MessageType.IMAGE || input.type === MessageType.DOCUMENT) &&
+      !attachmentIds.length
+    ) {
+      throw new BadRequestException(`${input.type} messages require an attachment`);
+    }
+  }
+
+  private assertParticipant(thread: MessageThread, userId: string): void {
+    if (!thread.participants.includes(userId)) {
+      throw new ForbiddenException('User is not a participant in this thread');
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Socket.IO endpoint for real-time messaging
+ * Authenticates connections with the platform JWT, joins each socket to its
+ * user's room and relays delivery and read receipts from clients
+ * @version 1.0.0
+ */
+
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io'; // v4.7.2
+import { Logger } from 'winston'; // winston v3.9.0
+import { verifyToken } from '@projectx/auth-service';
+
+import { MessageEventPublisher } from '../services/message.service';
+import { MessageController } from '../controllers/message.controller';
+import { MESSAGING_SERVICE_CONFIG, SOCKET_CONFIG } from '../config';
+
+// Events received from clients
+const CLIENT_EVENTS = {
+  DELIVERED: 'message:delivered',
+  READ: 'message:read'
+} as const;
+
+const userRoom = (userId: string): string => `user:${userId}`;
+
+/**
+ * Real-time messaging gateway; publishes events to all sockets of a user
+ */
+export class MessageGateway implements MessageEventPublisher {
+  private server: Server | null = null;
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Attaches the Socket.IO server to the HTTP server
+   * @param httpServer - HTTP server the service listens on
+   * @param messageController - Controller handling receipts sent by clients
+   */
+  attach(httpServer: HttpServer, messageController: MessageController): void {
+    this.server = new Server(httpServer, {
+      path: SOCKET_CONFIG.path,
+      pingInterval: SOCKET_CONFIG.pingIntervalMs,
+      pingTimeout: SOCKET_CONFIG.pingTimeoutMs,
+      cors: {
+        origin: MESSAGING_SERVICE_CONFIG.corsOrigins,
+        credentials: true
+      }
+    });
+
+    const namespace = this.server.of(SOCKET_CONFIG.namespace);
+
+    namespace.use(async (socket, next) => {
+      try {
+        const token = socket.handshake.auth?.token ||
+          socket.handshake.headers.authorization?.replace(/^Bearer /, '');
+        if (!token) {
+          throw new Error('No token provided');
+        }
+
+        const decoded = await verifyToken(token);
+        socket.data.userId = decoded.sub;
+        next();
+      } catch (error) {
+        this.logger.warn('Rejected messaging socket connection', {
+          error: error.message,
+          ip: socket.handshake.address
+        });
+        next(new Error('Unauthorized'));
+      }
+    });
+
+    namespace.on('connection', (socket: Socket) => {
+      const userId: string = socket.data.userId;
+      socket.join(userRoom(userId));
+
+      socket.on(CLIENT_EVENTS.DELIVERED, async (payload: { messageIds?: string[] }) => {
+        try {
+          await messageController.markDelivered(userId, payload?.messageIds ?? []);
+        } catch (error) {
+          this.logger.warn('Failed to record delivery receipt', { error: error.message, userId });
+        }
+      });
+
+      socket.on(CLIENT_EVENTS.READ, async (payload: { threadId?: string }) => {
+        try {
+          if (payload?.threadId) {
+            await messageController.markThreadRead(payload.threadId, userId);
+          }
+        } catch (error) {
+          this.logger.warn('Failed to record read receipt', { error: error.message, userId });
+        }
+      });
+
+      socket.on('disconnect', (reason) => {
+        this.logger.debug('Messaging socket disconnected', { userId, reason });
+      });
+    });
+
+    this.logger.info('Messaging socket endpoint ready', {
+      namespace: SOCKET_CONFIG.namespace,
+      path: SOCKET_CONFIG.path
+    });
+  }
+
+  /**
+   * Emits an event to every connected socket of the given users
+   * @param userIds - Recipient user identifiers
+   * @param event - Event name
+   * @param payload - Event payload
+   */
+  publishToUsers(userIds: readonly string[], event: string, payload: unknown): void {
+    if (!this.server) {
+      return;
+    }
+    this.server
+      .of(SOCKET_CONFIG.namespace)
+      .to(userIds.map(userRoom))
+      .emit(event, payload);
+  }
+
+  /**
+   * Closes all socket connections
+   */
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, beforeEach, expect } from '@jest/globals';
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Logger } from 'winston';
+
+import {
+  MessageService,
+  MessageEventPublisher,
+  MESSAGE_EVENTS
+} from '../src/services/message.service';
+import { MessageRepository, ThreadContext } from '../src/repositories/message.repository';
+import {
+  Message,
+  MessageStatus,
+  MessageThread,
+  MessageType,
+  ThreadType
+} from '../src/models/message.model';
+
+describe('MessageService', () => {
+  let messageService: MessageService;
+  let mockRepository: MockProxy<MessageRepository>;
+  let mockPublisher: MockProxy<MessageEventPublisher>;
+
+  const applicationContext: ThreadContext = {
+    propertyId: 'property-1',
+    applicationId: 'application-1',
+    applicantId: 'renter-1',
+    ownerId: 'owner-1',
+    propertyManagerId: 'manager-1'
+  };
+
+  const thread = {
+    id: 'thread-1',
+    type: ThreadType.GROUP,
+    propertyId: 'property-1',
+    applicationId: 'application-1',
+    participants: ['renter-1', 'owner-1', 'manager-1'],
+    createdBy: 'renter-1'
+  } as MessageThread;
+
+  beforeEach(() => {
+    mockRepository = mock<MessageRepository>();
+    mockPublisher = mock<MessageEventPublisher>();
+
+    messageService = new MessageService(mockRepository, mockPublisher, mock<Logger>());
+
+    mockRepository.findThreadById.mockResolvedValue(thread);
+    mockRepository.createThread.mockImplementation(async (data) => ({ id: 'thread-1', ...data }) as MessageThread);
+  });
+
+  describe('createThread', () => {
+    it('should include the applicant and property staff on application threads', async () => {
+      mockRepository.findApplicationContext.mockResolvedValue(applicationContext);
+      mockRepository.findExistingThread.mockResolvedValue(null);
+
+      const created = await messageService.createThread({
+        applicationId: 'application-1',
+        createdBy: 'manager-1'
+      });
+
+      expect(created.type).toBe(ThreadType.GROUP);
+      expect(created.participants).toEqual(['renter-1', 'owner-1', 'manager-1']);
+    });
+
+    it('should reject users who are not party to the application', async () => {
+      mockRepository.findApplicationContext.mockResolvedValue(applicationContext);
+
+      await expect(messageService.createThread({
+        applicationId: 'application-1',
+        createdBy: 'stranger-1'
+      })).rejects.toThrow(ForbiddenException);
+      expect(mockRepository.createThread).not.toHaveBeenCalled();
+    });
+
+    it('should reuse an existing thread for the same property inquiry', async () => {
+      mockRepository.findPropertyContext.mockResolvedValue({
+        ...applicationContext,
+        applicationId: null,
+        applicantId: null,
+        propertyManagerId: null
+      });
+      mockRepository.findExistingThread.mockResolvedValue(thread);
+
+      const result = await messageService.createThread({
+        propertyId: 'property-1',
+        createdBy: 'renter-2'
+      });
+
+      expect(result).toBe(thread);
+      expect(mockRepository.createThread).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should persist receipts for other participants and push the message', async () => {
+      const message = { id: 'message-1', threadId: 'thread-1' } as Message;
+      mockRepository.createMessage.mockResolvedValue(message);
+
+      await messageService.sendMessage('renter-1', {
+        threadId: 'thread-1',
+        type: MessageType.IMAGE,
+        content: 'ciphertext',
+        attachments: [{ id: 'attachment-1' }],
+        encryptionStatus: 'ENCRYPTED'
+      });
+
+      expect(mockRepository.createMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ senderId: 'renter-1', encryptionStatus: 'ENCRYPTED' }),
+        ['owner-1', 'manager-1'],
+        ['attachment-1']
+      );
+      expect(mockPublisher.publishToUsers).toHaveBeenCalledWith(
+        thread.participants,
+        MESSAGE_EVENTS.NEW,
+        { message }
+      );
+    });
+
+    it('should not allow users to send SYSTEM messages', async () => {
+      await expect(messageService.sendMessage('renter-1', {
+        threadId: 'thread-1',
+        type: MessageType.SYSTEM,
+        content: 'Application approved'
+      })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject senders outside the thread', async () => {
+      await expect(messageService.sendMessage('stranger-1', {
+        threadId: 'thread-1',
+        type: MessageType.TEXT,
+        content: 'Hello'
+      })).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('read receipts', () => {
+    it('should publish aggregate status changes to the thread', async () => {
+      mockRepository.findMessageById.mockResolvedValue({
+        id: 'message-1',
+        threadId: 'thread-1',
+        senderId: 'renter-1'
+      } as Message);
+      mockRepository.updateReceipts.mockResolvedValue([{
+        messageId: 'message-1',
+        threadId: 'thread-1',
+        senderId: 'renter-1',
+        status: MessageStatus.READ
+      }]);
+
+      await messageService.updateMessageStatus('owner-1', 'message-1', MessageStatus.READ);
+
+      expect(mockRepository.updateReceipts).toHaveBeenCalledWith(['message-1'], 'owner-1', MessageStatus.READ);
+      expect(mockPublisher.publishToUsers).toHaveBeenCalledWith(
+        thread.participants,
+        MESSAGE_EVENTS.STATUS,
+        { messageId: 'message-1', status: MessageStatus.READ }
+      );
+    });
+
+    it('should not let senders acknowledge their own messages', async () => {
+      mockRepository.findMessageById.mockResolvedValue({
+        id: 'message-1',
+        threadId: 'thread-1',
+        senderId: 'renter-1'
+      } as Message);
+
+      await expect(messageService.updateMessageStatus('renter-1', 'message-1', MessageStatus.READ))
+        .rejects.toThrow(BadRequestException);
+      expect(mockRepository.updateReceipts).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -12,6 +12,7 @@ import compression from 'compression'; // v1.7.4
 import { Registry } from 'prom-client'; // v14.2.0
 
 import { 
+  config,
   service, 
   email, 
   sms 
@@ -24,7 +25,17 @@ import {
   healthCheck
 } from '@projectx/common';
 
-import { notificationRouter } from './routes/notification.routes';
+import {
+  notificationRouter,
+  notificationService,
+  deferredDeliveryQueue
+} from './routes/notification.routes';
+import { templateRouter } from './routes/template.routes';
+import { pushRouter, pushService } from './routes/push.routes';
+import { streamRouter } from './routes/stream.routes';
+import { schedulePushSubscriptionPruning } from './jobs/push-prune.job';
+import { processDeferredDeliveries } from './jobs/deferred-delivery.job';
+import { scheduleDigestDelivery } from './jobs/digest.job';
 
 // Initialize Express application
 const app = express();
@@ -116,8 +127,12 @@ const initializeRoutes = (app: express.Application): void => {
     }
   });
 
-  // API routes
+  // API routes; user-facing routers go before the admin-only template router,
+  // whose role check applies to every request reaching it
+  app.use(`/api/${service.apiVersion}`, streamRouter);
+  app.use(`/api/${service.apiVersion}`, pushRouter);
   app.use(`/api/${service.apiVersion}`, notificationRouter);
+  app.use(`/api/${service.apiVersion}`, templateRouter);
 
   // 404 handler
   app.use((req, res) => {
@@ -146,6 +161,10 @@ const startServer = async (app: express.Application): Promise<void> => {
       });
     });
 
+    const pushPruneQueue = await schedulePushSubscriptionPruning(pushService, logger, config.redis.url);
+    processDeferredDeliveries(deferredDeliveryQueue, notificationService, logger);
+    const digestQueue = await scheduleDigestDelivery(notificationService, logger, config.redis.url);
+
     // Graceful shutdown handler
     const gracefulShutdown = async () => {
       logger.info('Received shutdown signal, starting graceful shutdown');
@@ -154,6 +173,11 @@ const startServer = async (app: express.Application): Promise<void> => {
         try {
           // Cleanup resources
           logger.info('Server closed, cleaning up resources');
+          await Promise.all([
+            pushPruneQueue.close(),
+            deferredDeliveryQueue.close(),
+            digestQueue.close()
+          ]);
           process.exit(0);
         } catch (error) {
           logger.error('Error during cleanup', error);
@@ -1,7 +1,7 @@
 /**
  * @fileoverview Configuration module for the notification microservice
  * Handles environment variables, service settings, and integration configurations
- * for email, SMS and in-app notifications with enhanced security validation
+ * for email, SMS, push and in-app notifications with enhanced security validation
  * @version 1.0.0
  */
 
@@ -87,6 +87,17 @@ const configSchema = Joi.object({
     })
   }),
 
+  redis: Joi.object({
+    url: Joi.string().uri().default('redis://localhost:6379')
+  }),
+
+  push: Joi.object({
+    vapidPublicKey: Joi.string().allow('').default(''),
+    vapidPrivateKey: Joi.string().allow('').default(''),
+    subject: Joi.string().pattern(/^(mailto:|https:)/).default('mailto:support@projectx.com'),
+    ttlSeconds: Joi.number().min(0).default(86400)
+  }),
+
   security: Joi.object({
     encryption: Joi.object({
       algorithm: Joi.string().valid('aes-256-gcm').default('aes-256-gcm'),
@@ -217,6 +228,17 @@ const validateConfig = (): void => {
           w: 'majority'
         }
       },
+      redis: {
+        // Holds deliveries deferred by recipient schedules and blackouts
+        url: process.env.REDIS_URL || 'redis://localhost:6379'
+      },
+      push: {
+        // Web Push stays off until a VAPID key pair is configured
+        vapidPublicKey: process.env.VAPID_PUBLIC_KEY || '',
+        vapidPrivateKey: process.env.VAPID_PRIVATE_KEY || '',
+        subject: process.env.VAPID_SUBJECT || 'mailto:support@projectx.com',
+        ttlSeconds: parseInt(process.env.PUSH_TTL_SECONDS || '86400', 10)
+      },
       security: {
         encryption: {
           algorithm: 'aes-256-gcm',
@@ -259,6 +281,8 @@ export type Config = typeof config;
 export type EmailConfig = Config['email'];
 export type SMSConfig = Config['sms'];
 export type DatabaseConfig = Config['database'];
+export type RedisConfig = Config['redis'];
+export type PushConfig = Config['push'];
 export type SecurityConfig = Config['security'];
 
 export default config;
\ No newline at end of file
@@ -52,7 +52,7 @@ export class NotificationController {
       }
 
       // Validate request body
-      const { type, userId, content, priority, expiresAt } = req.body;
+      const { type, userId, content, priority, expiresAt, category, timezone } = req.body;
 
       if (!type || !userId || !content) {
         throw new BadRequestError('Missing required notification fields');
@@ -70,6 +70,8 @@ export class NotificationController {
           type,
           userId,
           content,
+          category,
+          timezone,
           priority,
           expiresAt: expiresAt ? new Date(expiresAt) : undefined
         },
@@ -196,6 +198,35 @@ export class NotificationController {
     }
   }
 
+  /**
+   * Marks all of the user's in-app notifications as read
+   * @route PUT /api/notifications/read-all
+   */
+  public async markAllAsRead(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<Response> {
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+
+      if (!tenantId) {
+        throw new BadRequestError('Tenant ID is required');
+      }
+
+      const count = await this.notificationService.markAllNotificationsAsRead(req.user.id, tenantId);
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: { count },
+        message: 'Notifications marked as read'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Sends batch notifications with progress tracking
    * @route POST /api/notifications/batch
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { HttpStatus } from 'http-status-codes'; // v2.2.0
+import { PushService, RegisterPushSubscriptionInput } from '../services/push.service';
+import { PushSubscription } from '../models/notification.model';
+import { BadRequestError } from '@projectx/common/src/errors';
+
+/**
+ * Controller for the signed-in user's Web Push subscriptions
+ */
+export class PushController {
+  constructor(private readonly pushService: PushService) {
+    if (!this.pushService) {
+      throw new Error('PushService is required');
+    }
+  }
+
+  /**
+   * Returns the VAPID public key browsers subscribe with
+   * @route GET /api/push/vapid-public-key
+   */
+  public async getPublicKey(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: { publicKey: this.pushService.getPublicKey() }
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists the devices the user receives push notifications on
+   * @route GET /api/push/subscriptions
+   */
+  public async listSubscriptions(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const subscriptions = await this.pushService.listSubscriptions(this.getTenantId(req), req.user.id);
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: subscriptions.map((subscription) => this.toDevice(subscription))
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Registers the calling browser for push notifications
+   * @route POST /api/push/subscriptions
+   */
+  public async registerSubscription(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const subscription = await this.pushService.registerSubscription(
+        this.getTenantId(req),
+        req.user.id,
+        req.body as RegisterPushSubscriptionInput,
+        req.get('user-agent')
+      );
+
+      return res.status(HttpStatus.CREATED).json({
+        status: HttpStatus.CREATED,
+        data: this.toDevice(subscription),
+        message: 'Push notifications enabled on this device'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Stops push notifications to one of the user's devices
+   * @route DELETE /api/push/subscriptions/:id
+   */
+  public async removeSubscription(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      await this.pushService.removeSubscription(this.getTenantId(req), req.user.id, req.params.id);
+
+      return res.status(HttpStatus.NO_CONTENT).send();
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Keys stay server-side; the endpoint lets a browser recognise its own entry
+  private toDevice(subscription: PushSubscription) {
+    return {
+      id: subscription.id,
+      endpoint: subscription.endpoint,
+      deviceName: subscription.deviceName,
+      userAgent: subscription.userAgent,
+      createdAt: subscription.createdAt,
+      lastUsedAt: subscription.lastUsedAt
+    };
+  }
+
+  private getTenantId(req: Request): string {
+    const tenantId = req.headers['x-tenant-id'] as string;
+    if (!tenantId) {
+      throw new BadRequestError('Tenant ID is required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,143 @@
+import { Request, Response, NextFunction } from 'express';
+import { HttpStatus } from 'http-status-codes'; // v2.2.0
+import { Logger } from 'winston'; // v3.10.0
+import { BadRequestError } from '@projectx/common/src/errors';
+import {
+  NotificationStream,
+  NotificationStreamEvent,
+  compareEventIds,
+  isEventId
+} from '../services/notification.stream';
+
+/**
+ * Interval of comments keeping idle connections open through proxies
+ */
+export const STREAM_HEARTBEAT_MS = 25000;
+
+// Reconnect delay suggested to EventSource clients
+const STREAM_RETRY_MS = 5000;
+
+/**
+ * Controller for the Server-Sent Events stream of in-app notifications and
+ * read-state changes
+ */
+export class StreamController {
+  constructor(
+    private readonly notificationStream: NotificationStream,
+    private readonly logger: Logger
+  ) {
+    if (!this.notificationStream) {
+      throw new Error('NotificationStream is required');
+    }
+  }
+
+  /**
+   * Streams the user's events. Clients resuming with `Last-Event-ID` first
+   * receive what they missed; a `reset` event means the gap could not be
+   * filled and the feed should be reloaded.
+   * @route GET /api/notifications/stream
+   */
+  public async streamNotifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+    let unsubscribe: (() => Promise<void>) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    let closed = false;
+
+    const release = async () => {
+      clearInterval(heartbeat);
+      const stop = unsubscribe;
+      unsubscribe = undefined;
+      await stop?.();
+    };
+
+    // Registered before anything is awaited, so a client leaving during setup
+    // or replay still releases its subscription
+    req.on('close', () => {
+      closed = true;
+      release().catch((error) => this.logger.error('Failed to end notification stream', {
+        userId: req.user?.id,
+        error
+      }));
+    });
+
+    const write = (chunk: string) => {
+      if (!closed) {
+        res.write(chunk);
+      }
+    };
+
+    try {
+      const tenantId = req.headers['x-tenant-id'] as string;
+      if (!tenantId) {
+        throw new BadRequestError('Tenant ID is required');
+      }
+
+      const userId = req.user.id;
+      const requestedId = req.get('last-event-id') ?? req.query.lastEventId;
+      const lastEventId = isEventId(requestedId) ? requestedId : undefined;
+
+      // Live events arriving during the replay are held, then sent without the
+      // ones the replay already covered
+      let sentUpTo = lastEventId;
+      let held: NotificationStreamEvent[] | null = [];
+
+      const send = (event: NotificationStreamEvent) => {
+        if (sentUpTo && compareEventIds(event.id, sentUpTo) <= 0) {
+          return;
+        }
+        write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        sentUpTo = event.id;
+      };
+
+      unsubscribe = await this.notificationStream.subscribe(tenantId, userId, (event) => {
+        if (held) {
+          held.push(event);
+        } else {
+          send(event);
+        }
+      });
+
+      if (closed) {
+        await release();
+        return;
+      }
+
+      // no-transform keeps the compression middleware from buffering events
+      res.status(HttpStatus.OK).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+      if (lastEventId) {
+        const { events, complete } = await this.notificationStream.replay(tenantId, userId, lastEventId);
+        if (!complete) {
+          write('event: reset\ndata: {}\n\n');
+        }
+        events.forEach(send);
+      }
+
+      if (closed) {
+        return;
+      }
+
+      const pending = held;
+      held = null;
+      pending.forEach(send);
+
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+
+    } catch (error) {
+      await release().catch(() => undefined);
+
+      if (res.headersSent) {
+        this.logger.error('Notification stream failed', { error });
+        res.end();
+        return;
+      }
+      next(error);
+    }
+  }
+}
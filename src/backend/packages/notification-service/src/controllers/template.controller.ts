@@ -0,0 +1,220 @@
+import { Request, Response, NextFunction } from 'express';
+import { HttpStatus } from 'http-status-codes'; // v2.2.0
+import { TemplateService, CreateTemplateInput, UpdateTemplateInput } from '../services/template.service';
+import { NotificationType, TemplateStatus } from '../models/notification.model';
+import { BadRequestError } from '@projectx/common/src/errors';
+
+const UPDATABLE_FIELDS: Array<keyof UpdateTemplateInput> = [
+  'description',
+  'subject',
+  'template',
+  'variables',
+  'validationRules',
+  'sampleData'
+];
+
+/**
+ * Controller for notification template management, publishing and previews
+ */
+export class TemplateController {
+  constructor(private readonly templateService: TemplateService) {
+    if (!this.templateService) {
+      throw new Error('TemplateService is required');
+    }
+  }
+
+  /**
+   * Lists the newest version of each template and locale
+   * @route GET /api/templates
+   */
+  public async listTemplates(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const tenantId = this.getTenantId(req);
+      const templates = await this.templateService.listTemplates(tenantId, {
+        type: req.query.type as NotificationType | undefined,
+        status: req.query.status as TemplateStatus | undefined,
+        locale: req.query.locale as string | undefined
+      });
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: templates
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Creates a template, or a new locale variant of an existing name
+   * @route POST /api/templates
+   */
+  public async createTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const tenantId = this.getTenantId(req);
+      const input = req.body as CreateTemplateInput;
+
+      if (!input.name || !input.template || !Object.values(NotificationType).includes(input.type)) {
+        throw new BadRequestError('Template name, type and body are required');
+      }
+
+      const template = await this.templateService.createTemplate(tenantId, input, req.user?.id);
+
+      return res.status(HttpStatus.CREATED).json({
+        status: HttpStatus.CREATED,
+        data: template,
+        message: 'Template draft created'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retrieves a template version
+   * @route GET /api/templates/:id
+   */
+  public async getTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const template = await this.templateService.getTemplate(this.getTenantId(req), req.params.id);
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: template
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists every version of a template name
+   * @route GET /api/templates/:id/versions
+   */
+  public async listVersions(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const tenantId = this.getTenantId(req);
+      const template = await this.templateService.getTemplate(tenantId, req.params.id);
+      const versions = await this.templateService.listVersions(
+        tenantId,
+        template.name,
+        req.query.locale as string | undefined
+      );
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: versions
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Edits a draft, or starts a new draft from a published version
+   * @route PUT /api/templates/:id
+   */
+  public async updateTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const changes: UpdateTemplateInput = {};
+      for (const field of UPDATABLE_FIELDS) {
+        if (req.body[field] !== undefined) {
+          changes[field] = req.body[field];
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        throw new BadRequestError('No template changes provided');
+      }
+
+      const template = await this.templateService.updateTemplate(
+        this.getTenantId(req),
+        req.params.id,
+        changes,
+        req.user?.id
+      );
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: template,
+        message: `Template version ${template.version} saved as draft`
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Publishes a draft
+   * @route POST /api/templates/:id/publish
+   */
+  public async publishTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const template = await this.templateService.publishTemplate(
+        this.getTenantId(req),
+        req.params.id,
+        req.user?.id
+      );
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: template,
+        message: `Template version ${template.version} published`
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Renders a version with sample data
+   * @route POST /api/templates/:id/preview
+   */
+  public async previewTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      const data = req.body?.data ?? {};
+      if (typeof data !== 'object' || Array.isArray(data)) {
+        throw new BadRequestError('Preview data must be an object');
+      }
+
+      const preview = await this.templateService.previewTemplate(this.getTenantId(req), req.params.id, data);
+
+      return res.status(HttpStatus.OK).json({
+        status: HttpStatus.OK,
+        data: preview
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Discards a draft, or retires a published template
+   * @route DELETE /api/templates/:id
+   */
+  public async deleteTemplate(req: Request, res: Response, next: NextFunction): Promise<Response> {
+    try {
+      await this.templateService.deleteTemplate(this.getTenantId(req), req.params.id);
+
+      return res.status(HttpStatus.NO_CONTENT).send();
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getTenantId(req: Request): string {
+    const tenantId = req.headers['x-tenant-id'] as string;
+    if (!tenantId) {
+      throw new BadRequestError('Tenant ID is required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,46 @@
+import Queue from 'bull'; // v4.11.3
+import { Logger } from 'winston'; // v3.10.0
+import type { NotificationService } from '../services/notification.service';
+
+export const DEFERRED_DELIVERY_QUEUE = 'deferred-notifications';
+
+/**
+ * Payload of a delayed job releasing a deferred notification
+ */
+export interface DeferredDeliveryJob {
+  notificationId: string;
+  tenantId: string;
+}
+
+/**
+ * Creates the queue holding notifications deferred by recipient schedules
+ * and blackouts. Jobs are delayed until the release time and survive restarts.
+ * @param redisUrl - Redis connection string
+ */
+export const createDeferredDeliveryQueue = (redisUrl: string): Queue.Queue<DeferredDeliveryJob> =>
+  new Queue<DeferredDeliveryJob>(DEFERRED_DELIVERY_QUEUE, redisUrl);
+
+/**
+ * Starts releasing deferred notifications as their delays expire
+ * @param queue - Queue from {@link createDeferredDeliveryQueue}
+ * @param notificationService - Service delivering the notifications
+ * @param logger - Service logger
+ */
+export const processDeferredDeliveries = (
+  queue: Queue.Queue<DeferredDeliveryJob>,
+  notificationService: NotificationService,
+  logger: Logger
+): void => {
+  queue.process(async (job) =>
+    notificationService.releaseDeferredNotification(job.data.notificationId, job.data.tenantId)
+  );
+
+  queue.on('failed', (job, error) => {
+    logger.error('Deferred notification release failed', {
+      jobId: job.id,
+      notificationId: job.data.notificationId,
+      attempts: job.attemptsMade,
+      error: error.message
+    });
+  });
+};
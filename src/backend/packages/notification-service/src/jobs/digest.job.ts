@@ -0,0 +1,48 @@
+import Queue from 'bull'; // v4.11.3
+import { Logger } from 'winston'; // v3.10.0
+import type { NotificationService } from '../services/notification.service';
+
+export const DIGEST_QUEUE = 'notification-digests';
+
+// Hourly digests are due on the hour, so a short interval keeps them on time
+const DIGEST_SCHEDULE = '*/5 * * * *';
+
+/**
+ * Registers the repeatable job sending due digests. Bull de-duplicates the
+ * repeat schedule across service instances, and digests are claimed with
+ * row locks, so each one is sent once.
+ * @param notificationService - Service sending the summary emails
+ * @param logger - Service logger
+ * @param redisUrl - Redis connection string
+ * @returns Queue to close on shutdown
+ */
+export const scheduleDigestDelivery = async (
+  notificationService: NotificationService,
+  logger: Logger,
+  redisUrl: string
+): Promise<Queue.Queue> => {
+  const queue = new Queue(DIGEST_QUEUE, redisUrl);
+
+  queue.process(async () => notificationService.sendDueDigests());
+
+  queue.on('completed', (job, sent: number) => {
+    if (sent > 0) {
+      logger.info('Notification digests sent', { jobId: job.id, sent });
+    }
+  });
+
+  queue.on('failed', (job, error) => {
+    logger.error('Notification digest job failed', {
+      jobId: job.id,
+      attempts: job.attemptsMade,
+      error: error.message
+    });
+  });
+
+  await queue.add({}, {
+    repeat: { cron: DIGEST_SCHEDULE, tz: 'UTC' },
+    removeOnComplete: true
+  });
+
+  return queue;
+};
@@ -0,0 +1,44 @@
+import Queue from 'bull'; // v4.11.3
+import { Logger } from 'winston'; // v3.10.0
+import type { PushService } from '../services/push.service';
+
+export const PUSH_PRUNE_QUEUE = 'push-subscription-prune';
+
+// Subscriptions reported gone are removed when sending; this catches the rest
+const PUSH_PRUNE_SCHEDULE = '30 3 * * *';
+
+/**
+ * Registers the daily job removing expired and abandoned push subscriptions
+ * @param pushService - Service owning the subscriptions
+ * @param logger - Service logger
+ * @param redisUrl - Redis connection string
+ * @returns Queue to close on shutdown
+ */
+export const schedulePushSubscriptionPruning = async (
+  pushService: PushService,
+  logger: Logger,
+  redisUrl: string
+): Promise<Queue.Queue> => {
+  const queue = new Queue(PUSH_PRUNE_QUEUE, redisUrl);
+
+  queue.process(async () => pushService.pruneSubscriptions());
+
+  queue.on('completed', (job, pruned: number) => {
+    logger.info('Push subscriptions pruned', { jobId: job.id, pruned });
+  });
+
+  queue.on('failed', (job, error) => {
+    logger.error('Push subscription pruning failed', {
+      jobId: job.id,
+      attempts: job.attemptsMade,
+      error: error.message
+    });
+  });
+
+  await queue.add({}, {
+    repeat: { cron: PUSH_PRUNE_SCHEDULE, tz: 'UTC' },
+    removeOnComplete: true
+  });
+
+  return queue;
+};
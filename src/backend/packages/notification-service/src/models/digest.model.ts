@@ -0,0 +1,41 @@
+/**
+ * Notification digest model. A digest is a `notification_batches` row that
+ * collects a recipient's low-priority emails until its send time.
+ * @packageDocumentation
+ */
+
+import { DigestFrequency } from './notification.model';
+
+/**
+ * Lifecycle of a digest batch
+ */
+export enum DigestStatus {
+  OPEN = 'open',
+  PROCESSING = 'processing',
+  SENT = 'sent',
+  FAILED = 'failed'
+}
+
+/**
+ * Email held back for a digest
+ */
+export interface DigestItem {
+  notificationId: string;
+  category?: string;
+  subject?: string;
+  body: string;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+/**
+ * Digest due to be sent, with its items in arrival order
+ */
+export interface DigestBatch {
+  id: string;
+  tenantId: string;
+  userId: string;
+  frequency: DigestFrequency;
+  scheduledFor: Date;
+  items: DigestItem[];
+}
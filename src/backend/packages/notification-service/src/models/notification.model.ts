@@ -31,6 +31,15 @@ export enum NotificationStatus {
   BOUNCED = 'BOUNCED'
 }
 
+/**
+ * Template version lifecycle; only one version per name and locale is published
+ */
+export enum TemplateStatus {
+  DRAFT = 'DRAFT',
+  PUBLISHED = 'PUBLISHED',
+  ARCHIVED = 'ARCHIVED'
+}
+
 /**
  * Template variable definition for dynamic content
  */
@@ -43,7 +52,9 @@ export interface TemplateVariable {
 }
 
 /**
- * Template validation rule definition
+ * Template validation rule definition.
+ * `rule` is one of `email`, `url`, `phone`, `min:<n>`, `max:<n>`,
+ * `minLength:<n>`, `maxLength:<n>` or `pattern:<regex>`
  */
 export interface ValidationRule {
   field: string;
@@ -51,6 +62,12 @@ export interface ValidationRule {
   message: string;
 }
 
+/**
+ * Categories delivered immediately even during blackouts or outside the
+ * recipient's delivery schedules
+ */
+export const URGENT_NOTIFICATION_CATEGORIES = ['PAYMENT_FAILURE', 'LEASE_DEADLINE'];
+
 /**
  * Channel-specific notification content
  */
@@ -64,6 +81,8 @@ export interface NotificationContent {
     content: string;
     contentType: string;
   }>;
+  /** One-click unsubscribe endpoint advertised in the email headers */
+  unsubscribeUrl?: string;
 }
 
 /**
@@ -94,6 +113,14 @@ export interface BlackoutPeriod {
   reason?: string;
 }
 
+/**
+ * How often a category's low-priority emails are summarized
+ */
+export enum DigestFrequency {
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY'
+}
+
 /**
  * Category-specific notification preferences
  */
@@ -101,6 +128,8 @@ export interface CategoryPreference {
   category: string;
   enabled: boolean;
   channels: NotificationType[];
+  /** Collect emails into a summary instead of sending each one; in-app items are unaffected */
+  digest?: DigestFrequency;
 }
 
 /**
@@ -113,6 +142,8 @@ export interface Notification extends BaseEntity {
   title: string;
   content: NotificationContent;
   templateId?: string;
+  /** Matches `CategoryPreference.category`; see {@link URGENT_NOTIFICATION_CATEGORIES} */
+  category?: string;
   status: NotificationStatus;
   priority: number;
   metadata: Record<string, any>;
@@ -121,6 +152,8 @@ export interface Notification extends BaseEntity {
   deliveredAt?: Date;
   readAt?: Date;
   expiresAt?: Date;
+  /** Release time of a delivery deferred by the recipient's schedules or blackouts */
+  scheduledFor?: Date;
 }
 
 /**
@@ -137,6 +170,14 @@ export interface NotificationTemplate extends BaseEntity {
   variables: TemplateVariable[];
   isActive: boolean;
   validationRules: ValidationRule[];
+  /** BCP 47 tag such as `en` or `fr-CA` */
+  locale: string;
+  status: TemplateStatus;
+  /** Values used by the preview endpoint when the request doesn't supply them */
+  sampleData?: Record<string, any>;
+  createdBy: string;
+  publishedBy?: string;
+  publishedAt?: Date;
 }
 
 /**
@@ -149,6 +190,29 @@ export interface NotificationPreference {
   schedules: DeliverySchedule[];
   blackoutPeriods: BlackoutPeriod[];
   categories: CategoryPreference[];
+  /** IANA time zone from the recipient's `UserProfile.timezone` */
+  timezone?: string;
+}
+
+/**
+ * Web Push subscription of one browser or device of a user
+ */
+export interface PushSubscription extends BaseEntity {
+  tenantId: string;
+  userId: string;
+  /** Push service URL; unique per browser profile */
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  /** Set by push services that rotate subscriptions */
+  expirationTime?: Date;
+  deviceName?: string;
+  userAgent?: string;
+  lastUsedAt?: Date;
+  /** Consecutive failed sends; reset on success */
+  failureCount: number;
 }
 
 /**
@@ -171,6 +235,7 @@ export const NotificationSchema = new Schema<Notification>({
     }]
   },
   templateId: { type: String, index: true },
+  category: String,
   status: { 
     type: String, 
     enum: Object.values(NotificationStatus), 
@@ -184,6 +249,7 @@ export const NotificationSchema = new Schema<Notification>({
   deliveredAt: Date,
   readAt: Date,
   expiresAt: { type: Date, index: true },
+  scheduledFor: Date,
   createdAt: { type: Date, default: Date.now, index: true },
   updatedAt: { type: Date, default: Date.now }
 }, {
@@ -215,6 +281,17 @@ export const NotificationTemplateSchema = new Schema<NotificationTemplate>({
     rule: String,
     message: String
   }],
+  locale: { type: String, required: true, default: 'en' },
+  status: {
+    type: String,
+    enum: Object.values(TemplateStatus),
+    default: TemplateStatus.DRAFT,
+    index: true
+  },
+  sampleData: { type: Schema.Types.Mixed, default: {} },
+  createdBy: { type: String, required: true },
+  publishedBy: String,
+  publishedAt: Date,
   createdAt: { type: Date, default: Date.now },
   updatedAt: { type: Date, default: Date.now }
 }, {
@@ -247,17 +324,43 @@ export const NotificationPreferenceSchema = new Schema<NotificationPreference>({
   categories: [{
     category: String,
     enabled: Boolean,
-    channels: [{ type: String, enum: Object.values(NotificationType) }]
-  }]
+    channels: [{ type: String, enum: Object.values(NotificationType) }],
+    digest: { type: String, enum: Object.values(DigestFrequency) }
+  }],
+  timezone: String
 }, {
   timestamps: true,
   collection: 'notification_preferences'
 });
 
+/**
+ * Mongoose schema for PushSubscription
+ */
+export const PushSubscriptionSchema = new Schema<PushSubscription>({
+  tenantId: { type: String, required: true, index: true },
+  userId: { type: String, required: true, index: true },
+  endpoint: { type: String, required: true, unique: true },
+  keys: {
+    p256dh: { type: String, required: true },
+    auth: { type: String, required: true }
+  },
+  expirationTime: { type: Date, index: true },
+  deviceName: String,
+  userAgent: String,
+  lastUsedAt: Date,
+  failureCount: { type: Number, default: 0 }
+}, {
+  timestamps: true,
+  collection: 'push_subscriptions'
+});
+
 // Create indexes for performance optimization
 NotificationSchema.index({ tenantId: 1, userId: 1, createdAt: -1 });
 NotificationSchema.index({ tenantId: 1, status: 1, priority: -1 });
 NotificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+NotificationSchema.index({ status: 1, scheduledFor: 1 });
 
 NotificationTemplateSchema.index({ tenantId: 1, name: 1, version: -1 });
-NotificationPreferenceSchema.index({ userId: 1, tenantId: 1 }, { unique: true });
\ No newline at end of file
+NotificationTemplateSchema.index({ tenantId: 1, name: 1, locale: 1, version: 1 }, { unique: true });
+NotificationPreferenceSchema.index({ userId: 1, tenantId: 1 }, { unique: true });
+PushSubscriptionSchema.index({ tenantId: 1, userId: 1 });
\ No newline at end of file
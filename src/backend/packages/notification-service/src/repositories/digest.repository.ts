@@ -0,0 +1,135 @@
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool } from '@projectx/database/config';
+import { DigestFrequency } from '../models/notification.model';
+import { DigestBatch, DigestItem, DigestStatus } from '../models/digest.model';
+
+/**
+ * Repository class for notification digests stored in `notification_batches`
+ * and `notification_batch_items`
+ */
+export class DigestRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Adds an email to the recipient's open digest, opening one when needed
+   * @param digest - Recipient, frequency and send time for a new digest
+   * @param item - Email held back
+   * @returns ID of the digest the email joined
+   */
+  async addItem(
+    digest: { tenantId: string; userId: string; frequency: DigestFrequency; scheduledFor: Date },
+    item: Omit<DigestItem, 'createdAt'>
+  ): Promise<string> {
+    const client = await this.dbPool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // The no-op update locks an existing open digest so it can't be claimed mid-insert
+      const { rows: [batch] } = await client.query(
+        `INSERT INTO notification_batches (tenant_id, user_id, frequency, scheduled_for, status, total_count)
+         VALUES ($1, $2, $3, $4, $5, 0)
+         ON CONFLICT (tenant_id, user_id, frequency) WHERE status = 'open'
+         DO UPDATE SET updated_at = NOW()
+         RETURNING id`,
+        [digest.tenantId, digest.userId, digest.frequency, digest.scheduledFor, DigestStatus.OPEN]
+      );
+
+      await client.query(
+        `INSERT INTO notification_batch_items (batch_id, notification_id, category, subject, body, data)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [batch.id, item.notificationId, item.category ?? null, item.subject ?? null, item.body, item.data]
+      );
+
+      await client.query(
+        'UPDATE notification_batches SET total_count = total_count + 1 WHERE id = $1',
+        [batch.id]
+      );
+
+      await client.query('COMMIT');
+      return batch.id;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Claims open digests whose send time has passed. Concurrent workers claim
+   * disjoint digests.
+   * @param now - Current time
+   * @param limit - Maximum digests to claim
+   */
+  async claimDueBatches(now: Date, limit: number): Promise<DigestBatch[]> {
+    const { rows: batches } = await this.dbPool.query(
+      `UPDATE notification_batches SET status = $2, updated_at = NOW()
+        WHERE id IN (
+          SELECT id FROM notification_batches
+           WHERE status = $3 AND scheduled_for <= $1
+           ORDER BY scheduled_for
+           LIMIT $4
+           FOR UPDATE SKIP LOCKED
+        )
+       RETURNING id, tenant_id, user_id, frequency, scheduled_for`,
+      [now, DigestStatus.PROCESSING, DigestStatus.OPEN, limit]
+    );
+
+    if (batches.length === 0) {
+      return [];
+    }
+
+    const { rows: items } = await this.dbPool.query(
+      `SELECT batch_id, notification_id, category, subject, body, data, created_at
+         FROM notification_batch_items
+        WHERE batch_id = ANY($1)
+        ORDER BY created_at`,
+      [batches.map((batch) => batch.id)]
+    );
+
+    return batches.map((batch) => ({
+      id: batch.id,
+      tenantId: batch.tenant_id,
+      userId: batch.user_id,
+      frequency: batch.frequency as DigestFrequency,
+      scheduledFor: batch.scheduled_for,
+      items: items
+        .filter((item) => item.batch_id === batch.id)
+        .map((item) => this.mapItem(item))
+    }));
+  }
+
+  /**
+   * Records the outcome of sending a digest
+   * @param id - Digest ID
+   * @param status - SENT or FAILED
+   * @param itemCount - Items the digest covered
+   */
+  async completeBatch(id: string, status: DigestStatus.SENT | DigestStatus.FAILED, itemCount: number): Promise<void> {
+    const sent = status === DigestStatus.SENT;
+
+    await this.dbPool.query(
+      `UPDATE notification_batches
+          SET status = $2,
+              processed_count = $3,
+              success_count = $4,
+              failure_count = $5,
+              sent_at = CASE WHEN $6 THEN NOW() ELSE sent_at END,
+              updated_at = NOW()
+        WHERE id = $1`,
+      [id, status, itemCount, sent ? itemCount : 0, sent ? 0 : itemCount, sent]
+    );
+  }
+
+  private mapItem(row: any): DigestItem {
+    return {
+      notificationId: row.notification_id,
+      category: row.category ?? undefined,
+      subject: row.subject ?? undefined,
+      body: row.body,
+      data: row.data,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -155,6 +155,65 @@ export class NotificationRepository {
     return updatedNotification;
   }
 
+  /**
+   * Retrieves a notification by ID
+   */
+  async findById(id: string): Promise<Notification | null> {
+    return this.notificationModel.findById(id).exec();
+  }
+
+  /**
+   * Retrieves a user's notification preferences
+   */
+  async getNotificationPreferences(
+    userId: string,
+    tenantId: string
+  ): Promise<NotificationPreference | null> {
+    return this.preferenceModel.findOne({ userId, tenantId }).lean<NotificationPreference>().exec();
+  }
+
+  /**
+   * Holds a pending notification until its release time
+   */
+  async deferNotification(id: string, scheduledFor: Date): Promise<Notification> {
+    const deferred = await this.notificationModel.findOneAndUpdate(
+      { _id: id, status: { $in: [NotificationStatus.PENDING, NotificationStatus.QUEUED] } },
+      { $set: { status: NotificationStatus.QUEUED, scheduledFor, updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!deferred) {
+      throw new Error(`Failed to defer notification: ${id}`);
+    }
+
+    return deferred;
+  }
+
+  /**
+   * Marks one of a user's in-app notifications as read
+   * @returns The notification, or null when the user has no such unread notification
+   */
+  async markAsRead(id: string, userId: string, tenantId: string): Promise<Notification | null> {
+    return this.notificationModel.findOneAndUpdate(
+      { _id: id, userId, tenantId, type: NotificationType.IN_APP, readAt: { $exists: false } },
+      { $set: { status: NotificationStatus.READ, readAt: new Date(), updatedAt: new Date() } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Marks all of a user's unread in-app notifications as read
+   * @returns Number of notifications marked
+   */
+  async markAllAsRead(userId: string, tenantId: string, readAt: Date): Promise<number> {
+    const result = await this.notificationModel.updateMany(
+      { userId, tenantId, type: NotificationType.IN_APP, readAt: { $exists: false } },
+      { $set: { status: NotificationStatus.READ, readAt, updatedAt: readAt } }
+    );
+
+    return result.modifiedCount;
+  }
+
   /**
    * Retrieves notifications by tenant with advanced filtering
    */
@@ -0,0 +1,95 @@
+import { Model } from 'mongoose'; // v7.4.0
+import { Logger } from 'winston'; // v3.10.0
+import { PushSubscription } from '../models/notification.model';
+
+/**
+ * Repository class for users' Web Push subscriptions, one per browser or device
+ */
+export class PushSubscriptionRepository {
+  constructor(
+    private readonly subscriptionModel: Model<PushSubscription>,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Lists a user's subscriptions, most recently registered first
+   */
+  async findByUser(tenantId: string, userId: string): Promise<PushSubscription[]> {
+    return this.subscriptionModel
+      .find({ tenantId, userId })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Saves a subscription. A browser re-registering the same endpoint, including
+   * after another user signed in on it, replaces the earlier registration.
+   */
+  async upsert(
+    subscription: Pick<PushSubscription, 'tenantId' | 'userId' | 'endpoint' | 'keys' | 'expirationTime' | 'deviceName' | 'userAgent'>
+  ): Promise<PushSubscription> {
+    return this.subscriptionModel
+      .findOneAndUpdate(
+        { endpoint: subscription.endpoint },
+        { $set: { ...subscription, failureCount: 0 } },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Removes one of a user's subscriptions
+   * @returns Whether a subscription was removed
+   */
+  async deleteForUser(tenantId: string, userId: string, id: string): Promise<boolean> {
+    const { deletedCount } = await this.subscriptionModel.deleteOne({ _id: id, tenantId, userId }).exec();
+    return deletedCount > 0;
+  }
+
+  /**
+   * Removes subscriptions the push service reported as gone
+   */
+  async deleteByEndpoints(endpoints: string[]): Promise<number> {
+    if (endpoints.length === 0) {
+      return 0;
+    }
+
+    const { deletedCount } = await this.subscriptionModel.deleteMany({ endpoint: { $in: endpoints } }).exec();
+    this.logger.info('Removed expired push subscriptions', { count: deletedCount });
+    return deletedCount;
+  }
+
+  /**
+   * Records a successful send
+   */
+  async markUsed(endpoint: string, usedAt: Date = new Date()): Promise<void> {
+    await this.subscriptionModel
+      .updateOne({ endpoint }, { $set: { lastUsedAt: usedAt, failureCount: 0 } })
+      .exec();
+  }
+
+  /**
+   * Records a failed send that doesn't prove the subscription is gone
+   */
+  async recordFailure(endpoint: string): Promise<void> {
+    await this.subscriptionModel.updateOne({ endpoint }, { $inc: { failureCount: 1 } }).exec();
+  }
+
+  /**
+   * Removes subscriptions past their expiration time, failing repeatedly, or
+   * unused since the given date
+   * @returns Number of subscriptions removed
+   */
+  async deleteStale(now: Date, maxFailures: number, unusedSince: Date): Promise<number> {
+    const { deletedCount } = await this.subscriptionModel.deleteMany({
+      $or: [
+        { expirationTime: { $lte: now } },
+        { failureCount: { $gte: maxFailures } },
+        { lastUsedAt: { $lt: unusedSince } },
+        { lastUsedAt: { $exists: false }, createdAt: { $lt: unusedSince } }
+      ]
+    }).exec();
+
+    return deletedCount;
+  }
+}
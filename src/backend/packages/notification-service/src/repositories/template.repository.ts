@@ -0,0 +1,176 @@
+import { Model } from 'mongoose'; // v7.4.0
+import { Logger } from 'winston'; // v3.10.0
+import {
+  NotificationTemplate,
+  NotificationType,
+  TemplateStatus
+} from '../models/notification.model';
+
+/**
+ * Repository class for notification template versions. Each save of a
+ * template name and locale is its own document; at most one is published.
+ */
+export class TemplateRepository {
+  constructor(
+    private readonly templateModel: Model<NotificationTemplate>,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Retrieves a template version of a tenant
+   */
+  async findById(tenantId: string, id: string): Promise<NotificationTemplate | null> {
+    return this.templateModel.findOne({ _id: id, tenantId }).exec();
+  }
+
+  /**
+   * Retrieves every version of a template, newest first
+   */
+  async findVersions(tenantId: string, name: string, locale?: string): Promise<NotificationTemplate[]> {
+    return this.templateModel
+      .find({ tenantId, name, ...(locale ? { locale } : {}) })
+      .sort({ locale: 1, version: -1 })
+      .exec();
+  }
+
+  /**
+   * Retrieves the newest version of a template in one locale
+   */
+  async findLatestVersion(tenantId: string, name: string, locale: string): Promise<NotificationTemplate | null> {
+    return this.templateModel
+      .findOne({ tenantId, name, locale })
+      .sort({ version: -1 })
+      .exec();
+  }
+
+  /**
+   * Retrieves the published version of a template in the first of the given
+   * locales that has one
+   */
+  async findPublished(
+    tenantId: string,
+    name: string,
+    locales: string[]
+  ): Promise<NotificationTemplate | null> {
+    const published = await this.templateModel
+      .find({ tenantId, name, locale: { $in: locales }, status: TemplateStatus.PUBLISHED, isActive: true })
+      .exec();
+
+    for (const locale of locales) {
+      const match = published.find((template) => template.locale === locale);
+      if (match) {
+        return match;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Lists the newest version of each template name and locale
+   */
+  async findLatestByTenant(
+    tenantId: string,
+    filters: { type?: NotificationType; status?: TemplateStatus; locale?: string }
+  ): Promise<NotificationTemplate[]> {
+    const latest = await this.templateModel.aggregate([
+      { $match: { tenantId, ...(filters.type ? { type: filters.type } : {}), ...(filters.locale ? { locale: filters.locale } : {}) } },
+      { $sort: { name: 1, locale: 1, version: -1 } },
+      { $group: { _id: { name: '$name', locale: '$locale' }, latest: { $first: '$$ROOT' } } },
+      { $replaceRoot: { newRoot: '$latest' } },
+      { $sort: { name: 1, locale: 1 } }
+    ]);
+
+    return filters.status ? latest.filter((template) => template.status === filters.status) : latest;
+  }
+
+  /**
+   * Saves a new template version
+   */
+  async createVersion(
+    template: Omit<NotificationTemplate, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<NotificationTemplate> {
+    return this.templateModel.create(template);
+  }
+
+  /**
+   * Updates a draft in place; published and archived versions are immutable
+   * @returns The draft, or null when it doesn't exist or is no longer a draft
+   */
+  async updateDraft(
+    tenantId: string,
+    id: string,
+    changes: Partial<NotificationTemplate>
+  ): Promise<NotificationTemplate | null> {
+    return this.templateModel.findOneAndUpdate(
+      { _id: id, tenantId, status: TemplateStatus.DRAFT },
+      { $set: { ...changes, updatedAt: new Date() } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Publishes a draft and archives the version it replaces
+   * @returns The published version, or null when the draft doesn't exist
+   */
+  async publishDraft(tenantId: string, id: string, publishedBy: string): Promise<NotificationTemplate | null> {
+    const session = await this.templateModel.startSession();
+
+    try {
+      session.startTransaction();
+
+      const draft = await this.templateModel
+        .findOne({ _id: id, tenantId, status: TemplateStatus.DRAFT })
+        .session(session);
+
+      if (!draft) {
+        await session.abortTransaction();
+        return null;
+      }
+
+      await this.templateModel.updateMany(
+        { tenantId, name: draft.name, locale: draft.locale, status: TemplateStatus.PUBLISHED },
+        { $set: { status: TemplateStatus.ARCHIVED, updatedAt: new Date() } },
+        { session }
+      );
+
+      const published = await this.templateModel.findByIdAndUpdate(
+        id,
+        { $set: { status: TemplateStatus.PUBLISHED, publishedBy, publishedAt: new Date(), updatedAt: new Date() } },
+        { new: true, session }
+      );
+
+      await session.commitTransaction();
+      return published;
+
+    } catch (error) {
+      await session.abortTransaction();
+      this.logger.error('Failed to publish template', { error, tenantId, id });
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  }
+
+  /**
+   * Deletes a draft that was never published
+   * @returns Whether a draft was deleted
+   */
+  async deleteDraft(tenantId: string, id: string): Promise<boolean> {
+    const result = await this.templateModel.deleteOne({ _id: id, tenantId, status: TemplateStatus.DRAFT });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Retires every version of a template. Versions are kept because sent
+   * notifications refer to them.
+   * @returns Number of versions retired
+   */
+  async deactivateTemplate(tenantId: string, name: string): Promise<number> {
+    const result = await this.templateModel.updateMany(
+      { tenantId, name, isActive: true },
+      { $set: { isActive: false, updatedAt: new Date() } }
+    );
+    return result.modifiedCount;
+  }
+}
@@ -0,0 +1,24 @@
+import { Pool } from 'pg'; // v8.11.0
+import { createDatabasePool } from '@projectx/database/config';
+
+/**
+ * Read-only access to the recipient details notification-service needs from
+ * `user_profiles`
+ */
+export class UserProfileRepository {
+  constructor(private readonly dbPool: Pool = createDatabasePool()) {}
+
+  /**
+   * Looks up the IANA time zone saved in a user's profile preferences
+   * @param userId - Recipient user identifier
+   * @returns Time zone, or null when the user has not set one
+   */
+  async findTimezone(userId: string): Promise<string | null> {
+    const { rows: [profile] } = await this.dbPool.query(
+      `SELECT preferences->>'timezone' AS timezone FROM user_profiles WHERE user_id = $1`,
+      [userId]
+    );
+
+    return profile?.timezone || null;
+  }
+}
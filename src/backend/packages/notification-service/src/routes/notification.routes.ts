@@ -5,6 +5,10 @@
  */
 
 import { Router } from 'express'; // v4.18.2
+import { model } from 'mongoose'; // v7.4.0
+import CircuitBreaker from 'opossum'; // v7.1.0
+import * as promClient from 'prom-client'; // v14.2.0
+import { RateLimiterMemory } from 'rate-limiter-flexible'; // v2.4.1
 import { 
   NotificationController,
   validateToken,
@@ -12,7 +16,23 @@ import {
   rateLimitMiddleware,
   errorHandler
 } from '../controllers/notification.controller';
-import { USER_ROLES } from '@projectx/common';
+import { USER_ROLES, logger } from '@projectx/common';
+import { NotificationService } from '../services/notification.service';
+import { DigestService } from '../services/digest.service';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { DigestRepository } from '../repositories/digest.repository';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import {
+  Notification,
+  NotificationPreference,
+  NotificationSchema,
+  NotificationPreferenceSchema
+} from '../models/notification.model';
+import { createDeferredDeliveryQueue } from '../jobs/deferred-delivery.job';
+import { templateModel } from './template.routes';
+import { pushService } from './push.routes';
+import { notificationStream } from './stream.routes';
+import { config } from '../config';
 
 // Constants for rate limiting and roles
 const ADMIN_ROLE = USER_ROLES.ADMIN;
@@ -60,6 +80,19 @@ const initializeRoutes = (controller: NotificationController): Router => {
     }
   });
 
+  /**
+   * PUT /notifications/read-all
+   * Marks all of the user's in-app notifications as read
+   * @security JWT Bearer token required
+   */
+  router.put('/notifications/read-all', async (req, res, next) => {
+    try {
+      await controller.markAllAsRead(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * PUT /notifications/:id/read
    * Marks a notification as read
@@ -114,7 +147,40 @@ const initializeRoutes = (controller: NotificationController): Router => {
 };
 
 // Export configured router
-export const notificationRouter = initializeRoutes(new NotificationController());
+// Deliveries deferred by recipient schedules; app.ts starts releasing them
+export const deferredDeliveryQueue = createDeferredDeliveryQueue(config.redis.url);
+
+const notificationRepository = new NotificationRepository(
+  model<Notification>('Notification', NotificationSchema),
+  templateModel,
+  model<NotificationPreference>('NotificationPreference', NotificationPreferenceSchema),
+  logger
+);
+
+const deliveryRateLimiter = new RateLimiterMemory({
+  points: config.service.rateLimits.max,
+  duration: config.service.rateLimits.windowMs / 1000
+});
+
+export const notificationService = new NotificationService(
+  notificationRepository,
+  new CircuitBreaker((deliver: () => Promise<unknown>) => deliver(), {
+    timeout: 30000,
+    errorThresholdPercentage: 50,
+    resetTimeout: 30000
+  }),
+  promClient,
+  deliveryRateLimiter,
+  deferredDeliveryQueue,
+  new DigestService(new DigestRepository(), notificationRepository, logger),
+  pushService,
+  notificationStream,
+  new UserProfileRepository()
+);
+
+export const notificationRouter = initializeRoutes(
+  new NotificationController(notificationService, deliveryRateLimiter, promClient)
+);
 
 // Export route initialization function for testing
 export { initializeRoutes };
\ No newline at end of file
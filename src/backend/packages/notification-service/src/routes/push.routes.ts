@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Web Push subscription routes. Every route acts on the
+ * signed-in user's own devices.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { model } from 'mongoose'; // v7.4.0
+import {
+  logger,
+  validateToken,
+  rateLimitMiddleware,
+  errorHandler
+} from '@projectx/common';
+import { PushController } from '../controllers/push.controller';
+import { PushService } from '../services/push.service';
+import { PushSubscriptionRepository } from '../repositories/push-subscription.repository';
+import { PushSubscription, PushSubscriptionSchema } from '../models/notification.model';
+import { config } from '../config';
+
+/**
+ * Initializes push subscription routes with security middleware
+ * @param controller - Push controller instance
+ * @returns Configured Express router
+ */
+const initializePushRoutes = (controller: PushController): Router => {
+  const router = Router();
+
+  // Scoped to /push: the router shares its mount point with the other routers
+  router.use('/push', validateToken);
+  router.use('/push', rateLimitMiddleware);
+
+  /**
+   * GET /push/vapid-public-key
+   * Returns the application server key for `PushManager.subscribe`
+   */
+  router.get('/push/vapid-public-key', (req, res, next) => controller.getPublicKey(req, res, next));
+
+  /**
+   * GET /push/subscriptions
+   * Lists the devices the user receives push notifications on
+   */
+  router.get('/push/subscriptions', (req, res, next) => controller.listSubscriptions(req, res, next));
+
+  /**
+   * POST /push/subscriptions
+   * Registers the calling browser's subscription
+   */
+  router.post('/push/subscriptions', (req, res, next) => controller.registerSubscription(req, res, next));
+
+  /**
+   * DELETE /push/subscriptions/:id
+   * Removes one of the user's devices
+   */
+  router.delete('/push/subscriptions/:id', (req, res, next) => controller.removeSubscription(req, res, next));
+
+  router.use(errorHandler);
+
+  return router;
+};
+
+const subscriptionModel = model<PushSubscription>('PushSubscription', PushSubscriptionSchema);
+
+export const pushService = new PushService(new PushSubscriptionRepository(subscriptionModel, logger), config.push, logger);
+
+// Export configured router
+export const pushRouter = initializePushRoutes(new PushController(pushService));
+
+// Export route initialization function for testing
+export { initializePushRoutes };
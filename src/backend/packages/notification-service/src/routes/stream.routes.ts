@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Real-time notification stream route. Clients hold one
+ * Server-Sent Events connection per tab.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import Redis from 'ioredis'; // v5.3.2
+import {
+  logger,
+  validateToken,
+  errorHandler
+} from '@projectx/common';
+import { StreamController } from '../controllers/stream.controller';
+import { NotificationStream } from '../services/notification.stream';
+import { config } from '../config';
+
+/**
+ * Initializes the stream route. The request rate limiter is left off since
+ * each connection is long-lived and reconnects are already spaced out.
+ * @param controller - Stream controller instance
+ * @returns Configured Express router
+ */
+const initializeStreamRoutes = (controller: StreamController): Router => {
+  const router = Router();
+
+  router.use(validateToken);
+
+  /**
+   * GET /notifications/stream
+   * Server-Sent Events stream of new in-app notifications and read-state
+   * changes; honours the Last-Event-ID header
+   */
+  router.get('/notifications/stream', (req, res, next) => controller.streamNotifications(req, res, next));
+
+  router.use(errorHandler);
+
+  return router;
+};
+
+// Subscriber connections can't run other commands, so publishing uses its own
+export const notificationStream = new NotificationStream(
+  new Redis(config.redis.url),
+  new Redis(config.redis.url),
+  logger
+);
+
+// Export configured router
+export const streamRouter = initializeStreamRoutes(new StreamController(notificationStream, logger));
+
+// Export route initialization function for testing
+export { initializeStreamRoutes };
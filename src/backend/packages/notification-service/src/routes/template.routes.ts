@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Notification template management routes. Every route is
+ * limited to administrators.
+ * @version 1.0.0
+ */
+
+import { Router } from 'express'; // v4.18.2
+import { model } from 'mongoose'; // v7.4.0
+import {
+  USER_ROLES,
+  logger,
+  validateToken,
+  validateRole,
+  rateLimitMiddleware,
+  errorHandler
+} from '@projectx/common';
+import { ForbiddenError } from '@projectx/common/src/errors';
+import { TemplateController } from '../controllers/template.controller';
+import { TemplateService } from '../services/template.service';
+import { TemplateRepository } from '../repositories/template.repository';
+import { NotificationTemplate, NotificationTemplateSchema } from '../models/notification.model';
+
+const ADMIN_ROLES = [USER_ROLES.ADMIN, USER_ROLES.SUPER_ADMIN];
+
+/**
+ * Initializes template routes with security middleware
+ * @param controller - Template controller instance
+ * @returns Configured Express router
+ */
+const initializeTemplateRoutes = (controller: TemplateController): Router => {
+  const router = Router();
+
+  // Scoped to /templates: the router shares its mount point with the other routers
+  router.use('/templates', validateToken);
+  router.use('/templates', rateLimitMiddleware);
+  router.use('/templates', (req, res, next) => {
+    if (!validateRole(req.user?.role, ADMIN_ROLES)) {
+      return next(new ForbiddenError('Template management requires an administrator'));
+    }
+    next();
+  });
+
+  /**
+   * GET /templates
+   * Lists the newest version of each template and locale
+   */
+  router.get('/templates', (req, res, next) => controller.listTemplates(req, res, next));
+
+  /**
+   * POST /templates
+   * Creates a template draft, or a draft for a new locale of an existing name
+   */
+  router.post('/templates', (req, res, next) => controller.createTemplate(req, res, next));
+
+  /**
+   * GET /templates/:id
+   * Retrieves a template version
+   */
+  router.get('/templates/:id', (req, res, next) => controller.getTemplate(req, res, next));
+
+  /**
+   * GET /templates/:id/versions
+   * Lists every version of the template's name
+   */
+  router.get('/templates/:id/versions', (req, res, next) => controller.listVersions(req, res, next));
+
+  /**
+   * PUT /templates/:id
+   * Edits a draft, or starts a new draft from a published version
+   */
+  router.put('/templates/:id', (req, res, next) => controller.updateTemplate(req, res, next));
+
+  /**
+   * POST /templates/:id/publish
+   * Publishes a draft and archives the version it replaces
+   */
+  router.post('/templates/:id/publish', (req, res, next) => controller.publishTemplate(req, res, next));
+
+  /**
+   * POST /templates/:id/preview
+   * Renders a version with its sample data merged with `data` from the body
+   */
+  router.post('/templates/:id/preview', (req, res, next) => controller.previewTemplate(req, res, next));
+
+  /**
+   * DELETE /templates/:id
+   * Discards a draft, or retires every version of a published template
+   */
+  router.delete('/templates/:id', (req, res, next) => controller.deleteTemplate(req, res, next));
+
+  router.use(errorHandler);
+
+  return router;
+};
+
+// Shared with the notification repository, which renders templates when sending
+export const templateModel = model<NotificationTemplate>('NotificationTemplate', NotificationTemplateSchema);
+
+// Export configured router
+export const templateRouter = initializeTemplateRoutes(
+  new TemplateController(new TemplateService(new TemplateRepository(templateModel, logger), logger))
+);
+
+// Export route initialization function for testing
+export { initializeTemplateRoutes };
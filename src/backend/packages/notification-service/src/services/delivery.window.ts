@@ -0,0 +1,187 @@
+/**
+ * Works out when a notification may be delivered given the recipient's
+ * delivery schedules and blackout periods. Schedule times are wall-clock
+ * times in the recipient's time zone, so windows follow daylight saving.
+ * @packageDocumentation
+ */
+
+import { BlackoutPeriod, DeliverySchedule } from '../models/notification.model';
+
+const MINUTE_MS = 60 * 1000;
+
+// Blackouts and schedules alternate at most a few times before a window is
+// found; the cap only guards against inconsistent preferences
+const MAX_STEPS = 32;
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  /** 0 = Sunday */
+  weekday: number;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Returns the time zone if the runtime knows it, otherwise UTC
+ * @param timeZone - IANA time zone such as `America/Chicago`
+ */
+export const resolveTimeZone = (timeZone?: string | null): string => {
+  if (!timeZone) {
+    return 'UTC';
+  }
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+};
+
+const toLocalTime = (instant: number, timeZone: string): LocalTime => {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[type] = Number(value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+    minutes: parts.hour * 60 + parts.minute
+  };
+};
+
+// Offset of the zone from UTC at an instant, in milliseconds
+const zoneOffset = (instant: number, timeZone: string): number => {
+  const local = toLocalTime(instant, timeZone);
+  const flooredInstant = Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+  return Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - flooredInstant;
+};
+
+// Instant of a wall-clock time; `day` may overflow the month
+const fromLocalTime = (year: number, month: number, day: number, minutes: number, timeZone: string): number => {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = zoneOffset(wallClock, timeZone);
+  const instant = wallClock - offset;
+  const corrected = zoneOffset(instant, timeZone);
+  return corrected === offset ? instant : wallClock - corrected;
+};
+
+const parseClock = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const coversDay = (schedule: DeliverySchedule, weekday: number): boolean =>
+  !schedule.days?.length || schedule.days.includes(weekday);
+
+/**
+ * Checks whether an instant falls inside a schedule. A window whose end is
+ * before its start runs past midnight and belongs to the day it starts on;
+ * equal start and end times cover the whole day. A schedule without days
+ * applies every day.
+ */
+export const isWithinSchedule = (instant: Date, schedule: DeliverySchedule, timeZone: string): boolean => {
+  const local = toLocalTime(instant.getTime(), timeZone);
+  const start = parseClock(schedule.startTime);
+  const end = parseClock(schedule.endTime);
+
+  if (start === end) {
+    return coversDay(schedule, local.weekday);
+  }
+  if (start < end) {
+    return coversDay(schedule, local.weekday) && local.minutes >= start && local.minutes < end;
+  }
+  return (coversDay(schedule, local.weekday) && local.minutes >= start)
+    || (coversDay(schedule, (local.weekday + 6) % 7) && local.minutes < end);
+};
+
+/**
+ * First time a schedule's window opens after an instant
+ * @returns Start of the window, or null when the schedule never opens
+ */
+export const nextScheduleStart = (instant: Date, schedule: DeliverySchedule, timeZone: string): Date | null => {
+  const local = toLocalTime(instant.getTime(), timeZone);
+  const start = parseClock(schedule.startTime);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    if (!coversDay(schedule, day.getUTCDay())) {
+      continue;
+    }
+
+    const opensAt = fromLocalTime(local.year, local.month, local.day + offset, start, timeZone);
+    if (opensAt > instant.getTime()) {
+      return new Date(opensAt);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Earliest time at or after `now` outside every blackout and inside one of
+ * the schedules. No schedules means any time outside blackouts.
+ * @param now - Time the notification was requested
+ * @param preferences - Recipient's schedules and blackouts
+ * @param timeZone - Recipient's time zone; a schedule's own zone is only used when unknown
+ */
+export const findNextDeliveryTime = (
+  now: Date,
+  preferences: { schedules?: DeliverySchedule[]; blackoutPeriods?: BlackoutPeriod[] } | null | undefined,
+  timeZone?: string
+): Date => {
+  const schedules = preferences?.schedules ?? [];
+  const blackouts = preferences?.blackoutPeriods ?? [];
+  const zoneOf = (schedule: DeliverySchedule): string => resolveTimeZone(timeZone || schedule.timezone);
+
+  let candidate = now;
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const blackout = blackouts.find(({ startDate, endDate }) =>
+      new Date(startDate) <= candidate && candidate < new Date(endDate)
+    );
+    if (blackout) {
+      candidate = new Date(blackout.endDate);
+      continue;
+    }
+
+    if (schedules.length === 0 || schedules.some((schedule) => isWithinSchedule(candidate, schedule, zoneOf(schedule)))) {
+      return candidate;
+    }
+
+    const opening = schedules
+      .map((schedule) => nextScheduleStart(candidate, schedule, zoneOf(schedule)))
+      .filter((start): start is Date => start !== null)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+
+    // A schedule that never opens would hold notifications forever
+    if (!opening) {
+      return candidate;
+    }
+    candidate = opening;
+  }
+
+  return candidate;
+};
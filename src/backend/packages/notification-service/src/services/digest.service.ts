@@ -0,0 +1,154 @@
+import { Logger } from 'winston'; // v3.10.0
+import {
+  DigestFrequency,
+  Notification,
+  NotificationContent,
+  NotificationPreference,
+  NotificationStatus,
+  NotificationType,
+  URGENT_NOTIFICATION_CATEGORIES
+} from '../models/notification.model';
+import { DigestBatch, DigestStatus } from '../models/digest.model';
+import { DigestRepository } from '../repositories/digest.repository';
+import { NotificationRepository } from '../repositories/notification.repository';
+import { nextScheduleStart, resolveTimeZone } from './delivery.window';
+import { renderTemplate } from './template.renderer';
+
+/**
+ * Local time daily digests are sent at
+ */
+export const DIGEST_DAILY_TIME = '08:00';
+
+/**
+ * Emails above this priority are always sent on their own
+ */
+export const DIGEST_MAX_PRIORITY = 0;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DIGEST_TEXT_TEMPLATE = '{{#each items}}- {{#if this.subject}}{{this.subject}}: {{/if}}{{this.body}}\n{{/each}}';
+const DIGEST_HTML_TEMPLATE = '<ul>{{#each items}}<li>{{#if this.subject}}<strong>{{this.subject}}</strong><br>{{/if}}{{this.body}}</li>{{/each}}</ul>';
+
+/**
+ * Service collecting low-priority emails into hourly or daily summary emails
+ * for recipients who asked for digests of a category
+ */
+export class DigestService {
+  constructor(
+    private readonly digestRepository: DigestRepository,
+    private readonly notificationRepository: NotificationRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Digest an email belongs in, if any. Only emails are collected, so in-app
+   * notifications for the same event still appear one by one.
+   * @returns Frequency of the digest, or null to send on its own
+   */
+  getDigestFrequency(
+    notification: Pick<Notification, 'type' | 'category' | 'priority'>,
+    preferences: NotificationPreference | null
+  ): DigestFrequency | null {
+    if (
+      notification.type !== NotificationType.EMAIL
+      || !notification.category
+      || URGENT_NOTIFICATION_CATEGORIES.includes(notification.category)
+      || (notification.priority ?? 0) > DIGEST_MAX_PRIORITY
+    ) {
+      return null;
+    }
+
+    const category = preferences?.categories?.find((preference) => preference.category === notification.category);
+    return category?.digest ?? null;
+  }
+
+  /**
+   * Send time of a digest opened now: the next full hour, or the next
+   * {@link DIGEST_DAILY_TIME} in the recipient's time zone
+   */
+  getDigestTime(frequency: DigestFrequency, now: Date, timeZone?: string): Date {
+    if (frequency === DigestFrequency.HOURLY) {
+      return new Date((Math.floor(now.getTime() / HOUR_MS) + 1) * HOUR_MS);
+    }
+
+    const zone = resolveTimeZone(timeZone);
+    return nextScheduleStart(
+      now,
+      { days: [], startTime: DIGEST_DAILY_TIME, endTime: DIGEST_DAILY_TIME, timezone: zone },
+      zone
+    ) ?? new Date(now.getTime() + 24 * HOUR_MS);
+  }
+
+  /**
+   * Holds an email for the recipient's digest
+   * @returns Time the digest is due; a digest already open keeps its own time
+   */
+  async addToDigest(
+    notification: Notification,
+    frequency: DigestFrequency,
+    timeZone?: string
+  ): Promise<Date> {
+    const scheduledFor = this.getDigestTime(frequency, new Date(), timeZone);
+
+    const batchId = await this.digestRepository.addItem(
+      { tenantId: notification.tenantId, userId: notification.userId, frequency, scheduledFor },
+      {
+        notificationId: notification.id,
+        category: notification.category,
+        subject: notification.content.subject,
+        body: notification.content.body,
+        data: notification.content.data ?? {}
+      }
+    );
+    await this.notificationRepository.deferNotification(notification.id, scheduledFor);
+
+    this.logger.info('Notification added to digest', { notificationId: notification.id, batchId, frequency });
+    return scheduledFor;
+  }
+
+  /**
+   * Claims digests whose send time has passed
+   */
+  async claimDueDigests(now: Date, limit: number = 100): Promise<DigestBatch[]> {
+    return this.digestRepository.claimDueBatches(now, limit);
+  }
+
+  /**
+   * Summary email of a digest
+   */
+  buildDigestContent(batch: DigestBatch): Omit<NotificationContent, 'attachments'> {
+    const count = batch.items.length;
+    const data = { items: batch.items };
+
+    return {
+      subject: `You have ${count} new update${count === 1 ? '' : 's'}`,
+      body: renderTemplate(DIGEST_TEXT_TEMPLATE, data, { locale: 'en', escape: false }),
+      html: renderTemplate(DIGEST_HTML_TEMPLATE, data, { locale: 'en', escape: true }),
+      data: { digestId: batch.id, frequency: batch.frequency, count }
+    };
+  }
+
+  /**
+   * Records the outcome of a digest on the digest and each email it held
+   * @param batch - Digest that was sent
+   * @param delivered - Whether the summary email was accepted
+   */
+  async completeDigest(batch: DigestBatch, delivered: boolean): Promise<void> {
+    const status = delivered ? NotificationStatus.SENT : NotificationStatus.FAILED;
+
+    await Promise.all(batch.items.map((item) =>
+      this.notificationRepository.updateNotificationStatusWithTracking(item.notificationId, status, {
+        attempts: 1,
+        latency: (Date.now() - item.createdAt.getTime()) / 1000,
+        provider: 'digest',
+        metadata: { digestId: batch.id }
+      })
+    ));
+
+    await this.digestRepository.completeBatch(
+      batch.id,
+      delivered ? DigestStatus.SENT : DigestStatus.FAILED,
+      batch.items.length
+    );
+  }
+}
@@ -4,7 +4,7 @@ import { RateLimiter } from 'rate-limiter-flexible'; // v2.4.1
 import { EmailAnalytics } from '@sendgrid/analytics'; // v1.0.0
 import { NotificationRepository } from '../repositories/notification.repository';
 import { email as emailConfig, templateConfig, rateLimits } from '../config';
-import { NotificationStatus, NotificationType } from '../models/notification.model';
+import { NotificationContent, NotificationStatus, NotificationType } from '../models/notification.model';
 
 /**
  * Interface for email tracking metrics
@@ -73,7 +73,9 @@ export class EmailService {
     subject: string,
     templateId: string,
     dynamicData: Record<string, any>,
-    tenantId: string
+    tenantId: string,
+    attachments: NotificationContent['attachments'] = [],
+    unsubscribeUrl?: NotificationContent['unsubscribeUrl']
   ): Promise<void> {
     try {
       // Check rate limit for tenant
@@ -104,7 +106,21 @@ export class EmailService {
         customArgs: {
           tenant_id: tenantId,
           template_version: templateVersion
-        }
+        },
+        // Attachment content is already base64 encoded by the sender
+        attachments: attachments.map(attachment => ({
+          content: attachment.content,
+          filename: attachment.filename,
+          type: attachment.contentType,
+          disposition: 'attachment'
+        })),
+        // RFC 8058 one-click unsubscribe for alert emails
+        ...(unsubscribeUrl ? {
+          headers: {
+            'List-Unsubscribe': `<${unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+          }
+        } : {})
       };
 
       // Send email with retry mechanism
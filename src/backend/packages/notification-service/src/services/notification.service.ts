@@ -1,10 +1,25 @@
 import { Logger } from 'winston'; // v3.10.0
 import { CircuitBreaker } from 'opossum'; // v6.0.0
 import { Metrics } from 'prom-client'; // v14.0.0
-import { NotificationType, NotificationStatus } from '../models/notification.model';
+import Queue from 'bull'; // v4.11.3
+import {
+  Notification,
+  NotificationType,
+  NotificationStatus,
+  NotificationContent,
+  NotificationPreference,
+  URGENT_NOTIFICATION_CATEGORIES
+} from '../models/notification.model';
 import { NotificationRepository } from '../repositories/notification.repository';
+import { UserProfileRepository } from '../repositories/user-profile.repository';
+import { DeferredDeliveryJob } from '../jobs/deferred-delivery.job';
+import { DigestService } from './digest.service';
+import { PushService } from './push.service';
+import { NotificationStream } from './notification.stream';
+import { findNextDeliveryTime } from './delivery.window';
 import { RateLimiter } from 'rate-limiter-flexible'; // v2.4.1
 import { v4 as uuidv4 } from 'uuid'; // v9.0.0
+import { NotFoundError } from '@projectx/common/src/errors';
 
 /**
  * Enhanced notification delivery result with detailed tracking
@@ -45,7 +60,12 @@ export class NotificationService {
     private readonly notificationRepository: NotificationRepository,
     private readonly circuitBreaker: CircuitBreaker,
     private readonly metrics: Metrics,
-    private readonly rateLimiter: RateLimiter
+    private readonly rateLimiter: RateLimiter,
+    private readonly deferredQueue: Queue.Queue<DeferredDeliveryJob>,
+    private readonly digestService: DigestService,
+    private readonly pushService: PushService,
+    private readonly notificationStream: NotificationStream,
+    private readonly userProfileRepository: UserProfileRepository
   ) {
     // Initialize enhanced logging with correlation ID support
     this.logger = new Logger({
@@ -77,17 +97,27 @@ export class NotificationService {
   }
 
   /**
-   * Sends a notification with enhanced tracking and error handling
+   * Sends a notification with enhanced tracking and error handling. Deliveries
+   * falling in a blackout or outside the recipient's schedules are queued
+   * until the next allowed time, unless the category is urgent. Low-priority
+   * emails in categories the recipient digests wait for the summary email.
+   * Times are read in the recipient's profile time zone unless the sender
+   * passes one.
    */
   async sendNotification(
     notification: {
       type: NotificationType;
       userId: string;
+      category?: string;
+      /** Time zone to use instead of the recipient's profile and preferences */
+      timezone?: string;
       content: {
         subject?: string;
         body: string;
         html?: string;
         data?: Record<string, any>;
+        attachments?: NotificationContent['attachments'];
+        unsubscribeUrl?: NotificationContent['unsubscribeUrl'];
       };
       priority?: number;
       expiresAt?: Date;
@@ -111,51 +141,51 @@ export class NotificationService {
         throw new Error('Notification delivery not allowed by user preferences');
       }
 
+      const timezone = notification.timezone ??
+        await this.userProfileRepository.findTimezone(notification.userId) ??
+        undefined;
+
       // Create notification record
-      const createdNotification = await this.notificationRepository.createNotificationBatch(
+      const [createdNotification] = await this.notificationRepository.createNotificationBatch(
         [{
           tenantId,
           type: notification.type,
           userId: notification.userId,
           content: notification.content,
+          category: notification.category,
           priority: notification.priority || 0,
           status: NotificationStatus.PENDING,
-          metadata: { correlationId },
+          metadata: { correlationId, ...(timezone ? { timezone } : {}) },
           expiresAt: notification.expiresAt
         }],
         tenantId
       );
 
-      // Attempt delivery with circuit breaker
-      const deliveryResult = await this.circuitBreaker.fire(async () => {
-        return this.deliverNotification(createdNotification[0], preferences);
-      });
-
-      // Update notification status and tracking
-      const latency = (Date.now() - startTime) / 1000;
-      await this.notificationRepository.updateNotificationStatusWithTracking(
-        createdNotification[0].id,
-        deliveryResult.status,
-        {
-          attempts: 1,
-          latency,
-          provider: deliveryResult.provider,
-          metadata: deliveryResult.metadata
-        }
-      );
+      const digestFrequency = this.digestService.getDigestFrequency(createdNotification, preferences);
+      if (digestFrequency) {
+        const scheduledFor = await this.digestService.addToDigest(
+          createdNotification,
+          digestFrequency,
+          timezone ?? preferences?.timezone
+        );
+
+        return {
+          id: createdNotification.id,
+          status: NotificationStatus.QUEUED,
+          deliveryAttempts: 0,
+          latency: 0,
+          provider: 'digest',
+          correlationId,
+          metadata: { scheduledFor: scheduledFor.toISOString(), digest: digestFrequency }
+        };
+      }
 
-      // Record metrics
-      this.recordDeliveryMetrics(notification.type, deliveryResult.status, tenantId, latency);
+      const releaseAt = this.getReleaseTime(createdNotification, preferences);
+      if (releaseAt) {
+        return this.deferDelivery(createdNotification, releaseAt, correlationId);
+      }
 
-      return {
-        id: createdNotification[0].id,
-        status: deliveryResult.status,
-        deliveryAttempts: 1,
-        latency,
-        provider: deliveryResult.provider,
-        correlationId,
-        metadata: deliveryResult.metadata
-      };
+      return this.deliverAndTrack(createdNotification, preferences, startTime, correlationId);
 
     } catch (error) {
       this.logger.error('Notification delivery failed', {
@@ -170,6 +200,119 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Delivers a notification held by the recipient's schedules or blackouts.
+   * Preferences are read again, so changes made while it waited apply.
+   */
+  async releaseDeferredNotification(notificationId: string, tenantId: string): Promise<NotificationResult | null> {
+    const notification = await this.notificationRepository.findById(notificationId);
+
+    // Expired, already released, or not this tenant's
+    if (!notification || notification.tenantId !== tenantId || notification.status !== NotificationStatus.QUEUED) {
+      this.logger.info('Skipping deferred notification', { notificationId, status: notification?.status });
+      return null;
+    }
+
+    const correlationId = notification.metadata?.correlationId ?? uuidv4();
+    const preferences = await this.notificationRepository.getNotificationPreferences(
+      notification.userId,
+      tenantId
+    );
+
+    if (!this.isDeliveryAllowed(notification, preferences)) {
+      await this.notificationRepository.updateNotificationStatusWithTracking(
+        notification.id,
+        NotificationStatus.FAILED,
+        {
+          attempts: 0,
+          latency: 0,
+          provider: 'deferred',
+          metadata: { reason: 'Notification delivery not allowed by user preferences' }
+        }
+      );
+      return null;
+    }
+
+    const releaseAt = this.getReleaseTime(notification, preferences);
+    if (releaseAt) {
+      return this.deferDelivery(notification, releaseAt, correlationId);
+    }
+
+    return this.deliverAndTrack(notification, preferences, Date.now(), correlationId);
+  }
+
+  /**
+   * Sends the summary email of every digest that is due. The summary goes
+   * through {@link sendNotification}, so it still respects quiet hours.
+   * @returns Number of digests sent
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const batches = await this.digestService.claimDueDigests(now);
+    let sent = 0;
+
+    for (const batch of batches) {
+      try {
+        const result = await this.sendNotification(
+          {
+            type: NotificationType.EMAIL,
+            userId: batch.userId,
+            content: this.digestService.buildDigestContent(batch)
+          },
+          batch.tenantId
+        );
+
+        const delivered = result.status !== NotificationStatus.FAILED;
+        await this.digestService.completeDigest(batch, delivered);
+        sent += delivered ? 1 : 0;
+      } catch (error) {
+        this.logger.error('Digest delivery failed', { error, digestId: batch.id, tenantId: batch.tenantId });
+        await this.digestService.completeDigest(batch, false);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Marks one of a user's in-app notifications as read and tells their other
+   * open sessions
+   * @throws NotFoundError when the user has no such notification
+   */
+  async markNotificationAsRead(notificationId: string, userId: string, tenantId: string): Promise<Notification> {
+    const notification = await this.notificationRepository.markAsRead(notificationId, userId, tenantId);
+
+    if (!notification) {
+      // Already read, or not the user's
+      const existing = await this.notificationRepository.findById(notificationId);
+      if (!existing || existing.userId !== userId || existing.tenantId !== tenantId) {
+        throw new NotFoundError('Notification not found');
+      }
+      return existing;
+    }
+
+    await this.notificationStream.publish(tenantId, userId, 'read', {
+      id: notification.id,
+      readAt: notification.readAt
+    });
+
+    return notification;
+  }
+
+  /**
+   * Marks all of a user's in-app notifications as read
+   * @returns Number of notifications marked
+   */
+  async markAllNotificationsAsRead(userId: string, tenantId: string): Promise<number> {
+    const readAt = new Date();
+    const count = await this.notificationRepository.markAllAsRead(userId, tenantId, readAt);
+
+    if (count > 0) {
+      await this.notificationStream.publish(tenantId, userId, 'read-all', { readAt });
+    }
+
+    return count;
+  }
+
   /**
    * Processes delivery status webhooks from providers
    */
@@ -208,6 +351,109 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Next time the recipient accepts the notification
+   * @returns Release time, or null to deliver now
+   */
+  private getReleaseTime(
+    notification: Notification,
+    preferences: NotificationPreference | null
+  ): Date | null {
+    if (notification.category && URGENT_NOTIFICATION_CATEGORIES.includes(notification.category)) {
+      return null;
+    }
+
+    const now = new Date();
+    const releaseAt = findNextDeliveryTime(
+      now,
+      preferences,
+      notification.metadata?.timezone ?? preferences?.timezone
+    );
+
+    return releaseAt > now ? releaseAt : null;
+  }
+
+  /**
+   * Queues a notification until its release time
+   */
+  private async deferDelivery(
+    notification: Notification,
+    releaseAt: Date,
+    correlationId: string
+  ): Promise<NotificationResult> {
+    await this.notificationRepository.deferNotification(notification.id, releaseAt);
+
+    // Unique per release time, so a notification deferred again while being released gets a new job
+    const jobId = `${notification.id}:${releaseAt.getTime()}`;
+    await this.deferredQueue.add(
+      { notificationId: notification.id, tenantId: notification.tenantId },
+      {
+        jobId,
+        delay: releaseAt.getTime() - Date.now(),
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 60000 },
+        removeOnComplete: true
+      }
+    );
+
+    this.logger.info('Notification deferred by recipient preferences', {
+      correlationId,
+      notificationId: notification.id,
+      scheduledFor: releaseAt.toISOString()
+    });
+
+    return {
+      id: notification.id,
+      status: NotificationStatus.QUEUED,
+      deliveryAttempts: 0,
+      latency: 0,
+      provider: 'deferred',
+      correlationId,
+      metadata: { scheduledFor: releaseAt.toISOString() }
+    };
+  }
+
+  /**
+   * Attempts delivery through the circuit breaker and records the outcome
+   */
+  private async deliverAndTrack(
+    notification: Notification,
+    preferences: NotificationPreference | null,
+    startTime: number,
+    correlationId: string
+  ): Promise<NotificationResult> {
+    // Attempt delivery with circuit breaker
+    const deliveryResult = await this.circuitBreaker.fire(async () => {
+      return this.deliverNotification(notification, preferences);
+    });
+
+    // Update notification status and tracking
+    const latency = (Date.now() - startTime) / 1000;
+    await this.notificationRepository.updateNotificationStatusWithTracking(
+      notification.id,
+      deliveryResult.status,
+      {
+        attempts: 1,
+        latency,
+        provider: deliveryResult.provider,
+        metadata: deliveryResult.metadata
+      }
+    );
+
+    // Record metrics
+    this.recordDeliveryMetrics(notification.type, deliveryResult.status, notification.tenantId, latency);
+
+    return {
+      id: notification.id,
+      status: deliveryResult.status,
+      deliveryAttempts: 1,
+      latency,
+      provider: deliveryResult.provider,
+      correlationId,
+      metadata: deliveryResult.metadata
+    };
+  }
+
   /**
    * Delivers notification through appropriate channel
    */
@@ -226,6 +472,8 @@ export class NotificationService {
         return this.sendSMS(notification, preferences);
       case NotificationType.IN_APP:
         return this.sendInApp(notification);
+      case NotificationType.PUSH:
+        return this.pushService.sendToUser(notification);
       default:
         throw new Error(`Unsupported notification type: ${notification.type}`);
     }
@@ -280,14 +528,29 @@ export class NotificationService {
   }
 
   /**
-   * Checks if delivery is allowed based on user preferences
+   * Checks the recipient hasn't turned off the channel or category. Timing is
+   * handled by deferral rather than here.
    */
   private isDeliveryAllowed(
-    notification: any,
-    preferences: any
+    notification: Pick<Notification, 'type' | 'category'>,
+    preferences: NotificationPreference | null
   ): boolean {
-    // Implementation for checking delivery preferences
-    // Placeholder for preference checking logic
+    if (!preferences) {
+      return true;
+    }
+
+    const channel = preferences.channels?.find(({ type }) => type === notification.type);
+    if (channel && !channel.enabled) {
+      return false;
+    }
+
+    const category = notification.category
+      ? preferences.categories?.find((preference) => preference.category === notification.category)
+      : undefined;
+    if (category && (!category.enabled || (category.channels?.length && !category.channels.includes(notification.type)))) {
+      return false;
+    }
+
     return true;
   }
 
@@ -311,13 +574,22 @@ export class NotificationService {
     };
   }
 
-  private async sendInApp(notification: any): Promise<any> {
-    // Implementation for in-app notification delivery
-    // Placeholder for in-app notification logic
+  private async sendInApp(notification: Notification): Promise<any> {
+    // The notification is already stored for the feed; delivery pushes it to open sessions
+    const eventId = await this.notificationStream.publish(notification.tenantId, notification.userId, 'notification', {
+      id: notification.id,
+      type: notification.type,
+      category: notification.category,
+      priority: notification.priority,
+      content: notification.content,
+      status: NotificationStatus.SENT,
+      createdAt: notification.createdAt
+    });
+
     return {
       status: NotificationStatus.SENT,
       provider: 'in-app',
-      metadata: {}
+      metadata: { eventId }
     };
   }
 
@@ -0,0 +1,184 @@
+import Redis from 'ioredis'; // v5.3.2
+import { Logger } from 'winston'; // v3.10.0
+
+/**
+ * Events sent to a user's open sessions
+ */
+export type NotificationStreamEventType = 'notification' | 'read' | 'read-all';
+
+/**
+ * Event in a user's stream. IDs are Redis stream IDs, so they increase and
+ * double as the SSE `id` clients resume from.
+ */
+export interface NotificationStreamEvent {
+  id: string;
+  type: NotificationStreamEventType;
+  data: Record<string, any>;
+}
+
+type StreamListener = (event: NotificationStreamEvent) => void;
+
+/**
+ * Events kept per user for clients resuming after a reconnect
+ */
+export const STREAM_MAX_LENGTH = 500;
+
+/**
+ * Streams idle this long are dropped from Redis
+ */
+export const STREAM_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const STREAM_KEY_PREFIX = 'notifications:stream:';
+const LIVE_CHANNEL_PREFIX = 'notifications:live:';
+const EVENT_ID_PATTERN = /^\d+-\d+$/;
+
+/**
+ * Orders two stream event IDs
+ * @returns Negative, zero or positive like `Array.prototype.sort` comparators
+ */
+export const compareEventIds = (a: string, b: string): number => {
+  const [aTime, aSequence] = a.split('-').map(Number);
+  const [bTime, bSequence] = b.split('-').map(Number);
+  return aTime - bTime || aSequence - bSequence;
+};
+
+/**
+ * Whether a client-supplied Last-Event-ID is a stream ID
+ */
+export const isEventId = (id: unknown): id is string =>
+  typeof id === 'string' && EVENT_ID_PATTERN.test(id);
+
+/**
+ * Per-user event stream backing the real-time in-app feed. Events are appended
+ * to a capped Redis stream for replay and published on a per-user channel so
+ * every service instance holding a connection for the user receives them.
+ */
+export class NotificationStream {
+  private readonly channels = new Map<string, { listeners: Set<StreamListener>; ready: Promise<unknown> }>();
+
+  /**
+   * @param redis - Connection for stream commands and publishing
+   * @param subscriber - Connection dedicated to channel subscriptions
+   */
+  constructor(
+    private readonly redis: Redis,
+    private readonly subscriber: Redis,
+    private readonly logger: Logger
+  ) {
+    this.subscriber.on('message', (channel: string, message: string) => this.dispatch(channel, message));
+  }
+
+  /**
+   * Appends an event to a user's stream and sends it to their open sessions
+   * @returns ID of the event
+   */
+  async publish(
+    tenantId: string,
+    userId: string,
+    type: NotificationStreamEventType,
+    data: Record<string, any>
+  ): Promise<string> {
+    const key = this.streamKey(tenantId, userId);
+    const id = await this.redis.xadd(key, 'MAXLEN', '~', STREAM_MAX_LENGTH, '*', 'type', type, 'data', JSON.stringify(data));
+
+    await this.redis
+      .pipeline()
+      .expire(key, STREAM_RETENTION_SECONDS)
+      .publish(this.channel(tenantId, userId), JSON.stringify({ id, type, data }))
+      .exec();
+
+    return id as string;
+  }
+
+  /**
+   * Starts receiving a user's live events. Resolves once the subscription is
+   * active, so a replay started afterwards can't miss events.
+   * @returns Function ending the subscription
+   */
+  async subscribe(tenantId: string, userId: string, listener: StreamListener): Promise<() => Promise<void>> {
+    const channel = this.channel(tenantId, userId);
+
+    let entry = this.channels.get(channel);
+    if (!entry) {
+      entry = {
+        listeners: new Set(),
+        ready: this.subscriber.subscribe(channel).catch((error) => {
+          this.channels.delete(channel);
+          throw error;
+        })
+      };
+      this.channels.set(channel, entry);
+    }
+
+    const subscription = entry;
+    subscription.listeners.add(listener);
+    await subscription.ready;
+
+    return async () => {
+      subscription.listeners.delete(listener);
+      if (subscription.listeners.size === 0 && this.channels.get(channel) === subscription) {
+        this.channels.delete(channel);
+        await this.subscriber.unsubscribe(channel);
+      }
+    };
+  }
+
+  /**
+   * Reads the events a client missed since the last one it received
+   * @returns The events, and whether they are complete; older events may have
+   * been trimmed, in which case the client should reload its feed
+   */
+  async replay(
+    tenantId: string,
+    userId: string,
+    lastEventId: string
+  ): Promise<{ events: NotificationStreamEvent[]; complete: boolean }> {
+    const key = this.streamKey(tenantId, userId);
+    const [entries, oldest] = await Promise.all([
+      this.redis.xrange(key, `(${lastEventId}`, '+', 'COUNT', STREAM_MAX_LENGTH),
+      this.redis.xrange(key, '-', '+', 'COUNT', 1)
+    ]);
+
+    const complete = oldest.length > 0 && compareEventIds(oldest[0][0], lastEventId) <= 0;
+
+    return {
+      events: entries.map(([id, fields]) => this.toEvent(id, fields)),
+      complete
+    };
+  }
+
+  private dispatch(channel: string, message: string): void {
+    const subscription = this.channels.get(channel);
+    if (!subscription) {
+      return;
+    }
+
+    try {
+      const event = JSON.parse(message) as NotificationStreamEvent;
+      subscription.listeners.forEach((listener) => listener(event));
+    } catch (error) {
+      this.logger.error('Invalid notification stream message', { channel, error });
+    }
+  }
+
+  private toEvent(id: string, fields: string[]): NotificationStreamEvent {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < fields.length; i += 2) {
+      values[fields[i]] = fields[i + 1];
+    }
+
+    return {
+      id,
+      type: values.type as NotificationStreamEventType,
+      data: JSON.parse(values.data ?? '{}')
+    };
+  }
+
+  private streamKey(tenantId: string, userId: string): string {
+    return `${STREAM_KEY_PREFIX}${tenantId}:${userId}`;
+  }
+
+  private channel(tenantId: string, userId: string): string {
+    return `${LIVE_CHANNEL_PREFIX}${tenantId}:${userId}`;
+  }
+}
@@ -0,0 +1,239 @@
+import webpush, { WebPushError } from 'web-push'; // v3.6.6
+import { Logger } from 'winston'; // v3.10.0
+import { BadRequestError, NotFoundError } from '@projectx/common/src/errors';
+import { Notification, NotificationStatus, PushSubscription } from '../models/notification.model';
+import { PushSubscriptionRepository } from '../repositories/push-subscription.repository';
+import type { PushConfig } from '../config';
+
+/**
+ * Consecutive failed sends after which a subscription is pruned
+ */
+export const PUSH_MAX_FAILURES = 5;
+
+/**
+ * Days without a successful send after which a subscription is pruned
+ */
+export const PUSH_MAX_IDLE_DAYS = 90;
+
+// Push services cap encrypted payloads at about 4KB
+const PUSH_BODY_MAX_LENGTH = 1000;
+
+// Responses meaning the subscription no longer exists
+const GONE_STATUS_CODES = [404, 410];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Subscription as serialized by the browser's `PushSubscription.toJSON()`
+ */
+export interface RegisterPushSubscriptionInput {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  deviceName?: string;
+}
+
+/**
+ * Outcome of sending a notification to every device of its recipient
+ */
+export interface PushDeliveryResult {
+  status: NotificationStatus;
+  provider: string;
+  metadata: {
+    delivered: number;
+    failed: number;
+    pruned: number;
+    reason?: string;
+  };
+}
+
+/**
+ * Service delivering the PUSH channel over Web Push (VAPID) and managing the
+ * subscriptions of each user's browsers and devices
+ */
+export class PushService {
+  private readonly enabled: boolean;
+
+  constructor(
+    private readonly subscriptionRepository: PushSubscriptionRepository,
+    private readonly settings: PushConfig,
+    private readonly logger: Logger
+  ) {
+    this.enabled = Boolean(settings.vapidPublicKey && settings.vapidPrivateKey);
+
+    if (this.enabled) {
+      webpush.setVapidDetails(settings.subject, settings.vapidPublicKey, settings.vapidPrivateKey);
+    } else {
+      this.logger.warn('VAPID keys are not configured; push notifications are disabled');
+    }
+  }
+
+  /**
+   * VAPID public key browsers subscribe with
+   * @throws NotFoundError when push is not configured
+   */
+  getPublicKey(): string {
+    if (!this.enabled) {
+      throw new NotFoundError('Push notifications are not enabled');
+    }
+    return this.settings.vapidPublicKey;
+  }
+
+  /**
+   * Lists the devices a user receives push notifications on
+   */
+  async listSubscriptions(tenantId: string, userId: string): Promise<PushSubscription[]> {
+    return this.subscriptionRepository.findByUser(tenantId, userId);
+  }
+
+  /**
+   * Registers a browser for push notifications, replacing an earlier
+   * registration of the same browser
+   * @throws BadRequestError when the subscription is malformed
+   */
+  async registerSubscription(
+    tenantId: string,
+    userId: string,
+    input: RegisterPushSubscriptionInput,
+    userAgent?: string
+  ): Promise<PushSubscription> {
+    if (!this.isValidEndpoint(input?.endpoint) || !input.keys?.p256dh || !input.keys?.auth) {
+      throw new BadRequestError('A push subscription endpoint and keys are required');
+    }
+
+    const subscription = await this.subscriptionRepository.upsert({
+      tenantId,
+      userId,
+      endpoint: input.endpoint,
+      keys: { p256dh: input.keys.p256dh, auth: input.keys.auth },
+      expirationTime: input.expirationTime ? new Date(input.expirationTime) : undefined,
+      deviceName: input.deviceName?.trim().slice(0, 100) || undefined,
+      userAgent: userAgent?.slice(0, 500)
+    });
+
+    this.logger.info('Push subscription registered', { tenantId, userId, subscriptionId: subscription.id });
+    return subscription;
+  }
+
+  /**
+   * Stops push notifications to one of a user's devices
+   * @throws NotFoundError when the user has no such subscription
+   */
+  async removeSubscription(tenantId: string, userId: string, id: string): Promise<void> {
+    if (!(await this.subscriptionRepository.deleteForUser(tenantId, userId, id))) {
+      throw new NotFoundError('Push subscription not found');
+    }
+  }
+
+  /**
+   * Sends a notification to every device of its recipient. Subscriptions the
+   * push service reports as gone are removed straight away.
+   * @returns SENT when at least one device accepted the notification
+   */
+  async sendToUser(notification: Notification): Promise<PushDeliveryResult> {
+    if (!this.enabled) {
+      return this.failure('PUSH_DISABLED');
+    }
+
+    const now = new Date();
+    const subscriptions = await this.subscriptionRepository.findByUser(notification.tenantId, notification.userId);
+    const active = subscriptions.filter((subscription) => !this.isExpired(subscription, now));
+    const gone = subscriptions.filter((subscription) => this.isExpired(subscription, now)).map(({ endpoint }) => endpoint);
+
+    if (active.length === 0) {
+      await this.subscriptionRepository.deleteByEndpoints(gone);
+      return this.failure('NO_SUBSCRIPTIONS', gone.length);
+    }
+
+    const payload = JSON.stringify({
+      notificationId: notification.id,
+      title: notification.content.subject || notification.title,
+      body: notification.content.body.slice(0, PUSH_BODY_MAX_LENGTH),
+      category: notification.category,
+      url: notification.content.data?.url
+    });
+
+    const results = await Promise.allSettled(active.map((subscription) =>
+      webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        payload,
+        { TTL: this.settings.ttlSeconds, urgency: notification.priority > 0 ? 'high' : 'normal' }
+      )
+    ));
+
+    let delivered = 0;
+    let failed = 0;
+
+    await Promise.all(results.map(async (result, index) => {
+      const { endpoint } = active[index];
+
+      if (result.status === 'fulfilled') {
+        delivered += 1;
+        await this.subscriptionRepository.markUsed(endpoint, now);
+        return;
+      }
+
+      const error = result.reason;
+      if (error instanceof WebPushError && GONE_STATUS_CODES.includes(error.statusCode)) {
+        gone.push(endpoint);
+        return;
+      }
+
+      failed += 1;
+      this.logger.warn('Push delivery failed', {
+        notificationId: notification.id,
+        statusCode: error?.statusCode,
+        error: error?.message
+      });
+      await this.subscriptionRepository.recordFailure(endpoint);
+    }));
+
+    await this.subscriptionRepository.deleteByEndpoints(gone);
+
+    return {
+      status: delivered > 0 ? NotificationStatus.SENT : NotificationStatus.FAILED,
+      provider: 'web-push',
+      metadata: { delivered, failed, pruned: gone.length }
+    };
+  }
+
+  /**
+   * Removes subscriptions that expired, keep failing, or haven't been used in
+   * {@link PUSH_MAX_IDLE_DAYS} days
+   * @returns Number of subscriptions removed
+   */
+  async pruneSubscriptions(now: Date = new Date()): Promise<number> {
+    return this.subscriptionRepository.deleteStale(
+      now,
+      PUSH_MAX_FAILURES,
+      new Date(now.getTime() - PUSH_MAX_IDLE_DAYS * DAY_MS)
+    );
+  }
+
+  private failure(reason: string, pruned: number = 0): PushDeliveryResult {
+    return {
+      status: NotificationStatus.FAILED,
+      provider: 'web-push',
+      metadata: { delivered: 0, failed: 0, pruned, reason }
+    };
+  }
+
+  private isExpired(subscription: PushSubscription, now: Date): boolean {
+    return Boolean(subscription.expirationTime && subscription.expirationTime <= now);
+  }
+
+  private isValidEndpoint(endpoint: unknown): endpoint is string {
+    if (typeof endpoint !== 'string') {
+      return false;
+    }
+
+    try {
+      return new URL(endpoint).protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
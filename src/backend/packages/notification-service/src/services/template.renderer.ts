@@ -0,0 +1,398 @@
+/**
+ * Handlebars-style renderer for notification templates.
+ * Supports `{{path}}` (HTML-escaped), `{{{path}}}` (raw), `{{! comments }}`
+ * and the `#if`, `#unless` and `#each` block helpers with `{{else}}`.
+ * Inside `#each`, `this`, `@index`, `@first` and `@last` refer to the current
+ * item; other names are looked up on the item first, then on the outer data.
+ * @packageDocumentation
+ */
+
+import { BadRequestError } from '@projectx/common/src/errors';
+import { TemplateVariable, ValidationRule } from '../models/notification.model';
+
+type BlockHelper = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; path: string; escape: boolean }
+  | { kind: 'block'; helper: BlockHelper; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+/**
+ * Options controlling how values are written out
+ */
+export interface RenderOptions {
+  /** Locale used to format numbers and dates */
+  locale: string;
+  /** HTML-escape `{{path}}` output; off for subjects and SMS bodies */
+  escape: boolean;
+}
+
+/**
+ * Problem found in the data passed to a template
+ */
+export interface TemplateDataError {
+  field: string;
+  message: string;
+}
+
+const TAG_PATTERN = /\{\{(\{)?\s*([^}]*?)\s*(\})?\}\}/g;
+const PATH_PATTERN = /^(this|@index|@first|@last|[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+const BLOCK_HELPERS: readonly BlockHelper[] = ['if', 'unless', 'each'];
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+  '`': '&#x60;',
+  '=': '&#x3D;'
+};
+
+const syntaxError = (message: string, offset: number): BadRequestError =>
+  new BadRequestError(`Template syntax error at offset ${offset}: ${message}`, { offset }, 'TEMPLATE_SYNTAX');
+
+const assertPath = (path: string, offset: number): void => {
+  if (!PATH_PATTERN.test(path)) {
+    throw syntaxError(`invalid expression "${path}"`, offset);
+  }
+};
+
+/**
+ * Parses a template into a node tree
+ * @param source - Template source
+ * @throws BadRequestError with code TEMPLATE_SYNTAX on unbalanced blocks or bad expressions
+ */
+export const compileTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'block' }>; inElse: boolean; offset: number }> = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) {
+      return root;
+    }
+    return open.inElse ? open.node.inverse : open.node.body;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const offset = match.index ?? 0;
+    const [tag, rawOpen, expression, rawClose] = match;
+
+    if (offset > cursor) {
+      target().push({ kind: 'text', value: source.slice(cursor, offset) });
+    }
+    cursor = offset + tag.length;
+
+    if (Boolean(rawOpen) !== Boolean(rawClose)) {
+      throw syntaxError('unbalanced triple braces', offset);
+    }
+
+    if (expression.startsWith('!')) {
+      continue;
+    }
+
+    if (rawOpen) {
+      assertPath(expression, offset);
+      target().push({ kind: 'value', path: expression, escape: false });
+      continue;
+    }
+
+    if (expression.startsWith('#')) {
+      const [helper, path, ...rest] = expression.slice(1).split(/\s+/);
+      if (!BLOCK_HELPERS.includes(helper as BlockHelper)) {
+        throw syntaxError(`unknown helper "${helper}"`, offset);
+      }
+      if (!path || rest.length > 0) {
+        throw syntaxError(`#${helper} takes exactly one argument`, offset);
+      }
+      assertPath(path, offset);
+
+      const node = { kind: 'block' as const, helper: helper as BlockHelper, path, body: [], inverse: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, offset });
+      continue;
+    }
+
+    if (expression === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw syntaxError('unexpected {{else}}', offset);
+      }
+      open.inElse = true;
+      continue;
+    }
+
+    if (expression.startsWith('/')) {
+      const open = stack.pop();
+      const helper = expression.slice(1);
+      if (!open || open.node.helper !== helper) {
+        throw syntaxError(`unexpected {{/${helper}}}`, offset);
+      }
+      continue;
+    }
+
+    assertPath(expression, offset);
+    target().push({ kind: 'value', path: expression, escape: true });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw syntaxError(`{{#${unclosed.node.helper}}} is never closed`, unclosed.offset);
+  }
+
+  if (cursor < source.length) {
+    root.push({ kind: 'text', value: source.slice(cursor) });
+  }
+
+  return root;
+};
+
+/**
+ * Top-level data names a template reads. Names used inside `#each` are left
+ * out, since they may be fields of the items.
+ * @param source - Template source
+ */
+export const referencedVariables = (source: string): string[] => {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]): void => {
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        continue;
+      }
+
+      const [head] = node.path.split('.');
+      if (head !== 'this' && !head.startsWith('@')) {
+        names.add(head);
+      }
+
+      if (node.kind === 'block') {
+        if (node.helper !== 'each') {
+          visit(node.body);
+        }
+        visit(node.inverse);
+      }
+    }
+  };
+
+  visit(compileTemplate(source));
+  return [...names];
+};
+
+type Scope = { value: any; index?: number; count?: number; parent?: Scope };
+
+const resolvePath = (path: string, scope: Scope): any => {
+  if (path.startsWith('@')) {
+    if (scope.index === undefined) {
+      return undefined;
+    }
+    switch (path) {
+      case '@index':
+        return scope.index;
+      case '@first':
+        return scope.index === 0;
+      default:
+        return scope.index === (scope.count ?? 0) - 1;
+    }
+  }
+
+  const [head, ...rest] = path.split('.');
+  const dig = (value: any): any => rest.reduce((current, key) => current?.[key], value);
+
+  if (head === 'this') {
+    return dig(scope.value);
+  }
+
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current.value !== null && typeof current.value === 'object' && head in current.value) {
+      return dig(current.value[head]);
+    }
+  }
+
+  return undefined;
+};
+
+const isTruthy = (value: any): boolean => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+const formatValue = (value: any, options: RenderOptions): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    // Dates usually arrive as calendar days, which parse to UTC midnight
+    return new Intl.DateTimeFormat(options.locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(value);
+  }
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(options.locale).format(value);
+  }
+  return String(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], scope: Scope, options: RenderOptions): string =>
+  nodes.map((node) => {
+    switch (node.kind) {
+      case 'text':
+        return node.value;
+      case 'value': {
+        const text = formatValue(resolvePath(node.path, scope), options);
+        return node.escape && options.escape ? text.replace(/[&<>"'`=]/g, (char) => HTML_ESCAPES[char]) : text;
+      }
+      default: {
+        const value = resolvePath(node.path, scope);
+        if (node.helper === 'each') {
+          const items: any[] = Array.isArray(value) ? value : [];
+          if (items.length === 0) {
+            return renderNodes(node.inverse, scope, options);
+          }
+          return items
+            .map((item, index) => renderNodes(node.body, { value: item, index, count: items.length, parent: scope }, options))
+            .join('');
+        }
+
+        const show = node.helper === 'if' ? isTruthy(value) : !isTruthy(value);
+        return renderNodes(show ? node.body : node.inverse, scope, options);
+      }
+    }
+  }).join('');
+
+/**
+ * Renders a template
+ * @param source - Template source
+ * @param data - Values, usually from {@link validateTemplateData}
+ * @param options - Locale and escaping
+ * @throws BadRequestError with code TEMPLATE_SYNTAX when the template doesn't parse
+ */
+export const renderTemplate = (
+  source: string,
+  data: Record<string, any>,
+  options: RenderOptions
+): string => renderNodes(compileTemplate(source), { value: data }, options);
+
+const RULE_CHECKS: Record<string, (value: any, arg: string) => boolean> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value)),
+  url: (value) => /^https?:\/\/[^\s]+$/.test(String(value)),
+  phone: (value) => /^\+?[1-9]\d{6,14}$/.test(String(value)),
+  min: (value, arg) => Number(value) >= Number(arg),
+  max: (value, arg) => Number(value) <= Number(arg),
+  minLength: (value, arg) => String(value).length >= Number(arg),
+  maxLength: (value, arg) => String(value).length <= Number(arg),
+  pattern: (value, arg) => new RegExp(arg).test(String(value))
+};
+
+const NUMERIC_RULES = ['min', 'max', 'minLength', 'maxLength'];
+
+const splitRule = (rule: string): [string, string] => {
+  const separator = rule.indexOf(':');
+  return separator === -1 ? [rule, ''] : [rule.slice(0, separator), rule.slice(separator + 1)];
+};
+
+/**
+ * Checks that template variable and rule definitions are usable
+ * @returns Problems found, empty when the definitions are valid
+ */
+export const checkTemplateDefinition = (
+  variables: TemplateVariable[],
+  rules: ValidationRule[]
+): TemplateDataError[] => {
+  const errors: TemplateDataError[] = [];
+  const names = new Set<string>();
+
+  for (const variable of variables) {
+    if (names.has(variable.name)) {
+      errors.push({ field: variable.name, message: 'Variable is declared twice' });
+    }
+    names.add(variable.name);
+  }
+
+  for (const { field, rule } of rules) {
+    const [name, arg] = splitRule(rule);
+    if (!names.has(field)) {
+      errors.push({ field, message: 'Rule refers to an undeclared variable' });
+    } else if (!RULE_CHECKS[name]) {
+      errors.push({ field, message: `Unknown rule "${name}"` });
+    } else if (NUMERIC_RULES.includes(name) && !Number.isFinite(Number(arg))) {
+      errors.push({ field, message: `Rule "${name}" needs a numeric argument` });
+    } else if (name === 'pattern') {
+      try {
+        new RegExp(arg);
+      } catch {
+        errors.push({ field, message: 'Rule pattern is not a valid regular expression' });
+      }
+    }
+  }
+
+  return errors;
+};
+
+const coerce = (variable: TemplateVariable, value: any): { value?: any; error?: string } => {
+  switch (variable.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? { value: number } : { error: 'Must be a number' };
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : { error: 'Must be true or false' };
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value);
+      return typeof value !== 'boolean' && !Number.isNaN(date.getTime()) ? { value: date } : { error: 'Must be a date' };
+    }
+    default:
+      return typeof value === 'string' ? { value } : { error: 'Must be a string' };
+  }
+};
+
+/**
+ * Applies defaults and types to template data and checks it against the
+ * template's variables and validation rules. Data keys without a variable
+ * are passed through unchanged.
+ * @param variables - Declared variables
+ * @param rules - Validation rules
+ * @param data - Caller-supplied values
+ * @returns Data ready for {@link renderTemplate}
+ * @throws BadRequestError with code TEMPLATE_DATA_INVALID listing every problem
+ */
+export const validateTemplateData = (
+  variables: TemplateVariable[],
+  rules: ValidationRule[],
+  data: Record<string, any>
+): Record<string, any> => {
+  const resolved: Record<string, any> = { ...data };
+  const errors: TemplateDataError[] = [];
+
+  for (const variable of variables) {
+    const supplied = data[variable.name];
+    const value = supplied === undefined || supplied === null ? variable.defaultValue : supplied;
+
+    if (value === undefined || value === null) {
+      if (variable.required) {
+        errors.push({ field: variable.name, message: 'Is required' });
+      }
+      continue;
+    }
+
+    const coerced = coerce(variable, value);
+    if (coerced.error) {
+      errors.push({ field: variable.name, message: coerced.error });
+      continue;
+    }
+    resolved[variable.name] = coerced.value;
+  }
+
+  for (const { field, rule, message } of rules) {
+    const value = resolved[field];
+    if (value === undefined || value === null || errors.some((error) => error.field === field)) {
+      continue;
+    }
+
+    const [name, arg] = splitRule(rule);
+    const check = RULE_CHECKS[name];
+    if (check && !check(value, arg)) {
+      errors.push({ field, message });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestError('Template data is invalid', { errors }, 'TEMPLATE_DATA_INVALID');
+  }
+
+  return resolved;
+};
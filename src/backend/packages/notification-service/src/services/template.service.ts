@@ -0,0 +1,324 @@
+import { Logger } from 'winston'; // v3.10.0
+import { HTTP_STATUS } from '@projectx/common';
+import { BadRequestError, BaseError, NotFoundError } from '@projectx/common/src/errors';
+import {
+  NotificationTemplate,
+  NotificationType,
+  TemplateStatus,
+  TemplateVariable,
+  ValidationRule
+} from '../models/notification.model';
+import { TemplateRepository } from '../repositories/template.repository';
+import {
+  checkTemplateDefinition,
+  referencedVariables,
+  renderTemplate,
+  validateTemplateData
+} from './template.renderer';
+
+/**
+ * Locale every template name is expected to exist in, used as the last fallback
+ */
+export const DEFAULT_TEMPLATE_LOCALE = 'en';
+
+/**
+ * Fields accepted when creating a template or a locale variant of one
+ */
+export interface CreateTemplateInput {
+  name: string;
+  type: NotificationType;
+  locale?: string;
+  description?: string;
+  subject?: string;
+  template: string;
+  variables?: TemplateVariable[];
+  validationRules?: ValidationRule[];
+  sampleData?: Record<string, any>;
+}
+
+/**
+ * Fields that can change between versions
+ */
+export type UpdateTemplateInput = Partial<Omit<CreateTemplateInput, 'name' | 'type' | 'locale'>>;
+
+/**
+ * Rendered subject and body of a template version
+ */
+export interface RenderedTemplate {
+  templateId: string;
+  name: string;
+  locale: string;
+  version: number;
+  status: TemplateStatus;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Service managing notification templates: locale variants, draft and
+ * publish workflow, validation and rendering
+ */
+export class TemplateService {
+  constructor(
+    private readonly templateRepository: TemplateRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Creates the first draft of a template in one locale
+   * @throws BadRequestError when the template doesn't parse or its variables are inconsistent
+   * @throws BaseError (409) when the name already exists in the locale, or with another type
+   */
+  async createTemplate(
+    tenantId: string,
+    input: CreateTemplateInput,
+    userId: string
+  ): Promise<NotificationTemplate> {
+    const locale = input.locale || DEFAULT_TEMPLATE_LOCALE;
+    const variables = input.variables ?? [];
+    const validationRules = input.validationRules ?? [];
+    this.checkDefinition(input.subject ?? '', input.template, variables, validationRules);
+
+    const existing = await this.templateRepository.findVersions(tenantId, input.name);
+    if (existing.some((template) => template.locale === locale)) {
+      throw this.conflict(`Template "${input.name}" already exists in locale ${locale}`);
+    }
+    if (existing.some((template) => template.type !== input.type)) {
+      throw this.conflict(`Template "${input.name}" is already used for another notification type`);
+    }
+
+    const template = await this.templateRepository.createVersion({
+      tenantId,
+      type: input.type,
+      name: input.name,
+      description: input.description ?? '',
+      subject: input.subject ?? '',
+      template: input.template,
+      version: 1,
+      variables,
+      validationRules,
+      sampleData: input.sampleData ?? {},
+      locale,
+      status: TemplateStatus.DRAFT,
+      isActive: true,
+      createdBy: userId
+    });
+
+    this.logger.info('Template created', { tenantId, name: input.name, locale });
+    return template;
+  }
+
+  /**
+   * Edits a draft in place, or starts a new draft version from a published
+   * or archived one
+   * @throws NotFoundError when the template doesn't exist
+   * @throws BaseError (409) when another draft of the template is already open
+   */
+  async updateTemplate(
+    tenantId: string,
+    id: string,
+    changes: UpdateTemplateInput,
+    userId: string
+  ): Promise<NotificationTemplate> {
+    const current = await this.getTemplate(tenantId, id);
+    const next = { ...this.toInput(current), ...changes };
+    this.checkDefinition(next.subject ?? '', next.template, next.variables ?? [], next.validationRules ?? []);
+
+    if (current.status === TemplateStatus.DRAFT) {
+      const updated = await this.templateRepository.updateDraft(tenantId, id, changes);
+      if (!updated) {
+        throw this.conflict('Template was published while being edited');
+      }
+      return updated;
+    }
+
+    const latest = await this.templateRepository.findLatestVersion(tenantId, current.name, current.locale);
+    if (latest && latest.status === TemplateStatus.DRAFT) {
+      throw this.conflict(`Version ${latest.version} of "${current.name}" is already a draft`);
+    }
+
+    const draft = await this.templateRepository.createVersion({
+      ...next,
+      tenantId,
+      type: current.type,
+      name: current.name,
+      locale: current.locale,
+      description: next.description ?? '',
+      subject: next.subject ?? '',
+      variables: next.variables ?? [],
+      validationRules: next.validationRules ?? [],
+      version: (latest?.version ?? current.version) + 1,
+      status: TemplateStatus.DRAFT,
+      isActive: true,
+      createdBy: userId
+    });
+
+    this.logger.info('Template draft created', { tenantId, name: current.name, version: draft.version });
+    return draft;
+  }
+
+  /**
+   * Publishes a draft, replacing the published version of its locale. The
+   * draft must render with its own sample data.
+   * @throws NotFoundError when the template doesn't exist
+   * @throws BaseError (409) when the version isn't a draft
+   */
+  async publishTemplate(tenantId: string, id: string, userId: string): Promise<NotificationTemplate> {
+    const draft = await this.getTemplate(tenantId, id);
+    if (draft.status !== TemplateStatus.DRAFT) {
+      throw this.conflict(`Version ${draft.version} of "${draft.name}" is already ${draft.status.toLowerCase()}`);
+    }
+
+    this.render(draft, draft.sampleData ?? {});
+
+    const published = await this.templateRepository.publishDraft(tenantId, id, userId);
+    if (!published) {
+      throw this.conflict('Template was published while being edited');
+    }
+
+    this.logger.info('Template published', {
+      tenantId,
+      name: published.name,
+      locale: published.locale,
+      version: published.version,
+      userId
+    });
+    return published;
+  }
+
+  /**
+   * Retrieves a template version
+   * @throws NotFoundError when it doesn't exist
+   */
+  async getTemplate(tenantId: string, id: string): Promise<NotificationTemplate> {
+    const template = await this.templateRepository.findById(tenantId, id);
+    if (!template) {
+      throw new NotFoundError('Template not found');
+    }
+    return template;
+  }
+
+  /**
+   * Lists the newest version of each template name and locale
+   */
+  async listTemplates(
+    tenantId: string,
+    filters: { type?: NotificationType; status?: TemplateStatus; locale?: string } = {}
+  ): Promise<NotificationTemplate[]> {
+    return this.templateRepository.findLatestByTenant(tenantId, filters);
+  }
+
+  /**
+   * Lists every version of a template across locales
+   * @throws NotFoundError when the name doesn't exist
+   */
+  async listVersions(tenantId: string, name: string, locale?: string): Promise<NotificationTemplate[]> {
+    const versions = await this.templateRepository.findVersions(tenantId, name, locale);
+    if (versions.length === 0) {
+      throw new NotFoundError('Template not found');
+    }
+    return versions;
+  }
+
+  /**
+   * Discards a draft, or retires every version of a published template
+   * @throws NotFoundError when the template doesn't exist
+   */
+  async deleteTemplate(tenantId: string, id: string): Promise<void> {
+    const template = await this.getTemplate(tenantId, id);
+
+    if (template.status === TemplateStatus.DRAFT) {
+      if (!await this.templateRepository.deleteDraft(tenantId, id)) {
+        throw new NotFoundError('Template not found');
+      }
+      this.logger.info('Template draft discarded', { tenantId, name: template.name, version: template.version });
+      return;
+    }
+
+    const retired = await this.templateRepository.deactivateTemplate(tenantId, template.name);
+    this.logger.info('Template retired', { tenantId, name: template.name, versions: retired });
+  }
+
+  /**
+   * Renders any version with its sample data, overridden by the given values
+   * @throws BadRequestError with code TEMPLATE_DATA_INVALID when the data fails validation
+   */
+  async previewTemplate(
+    tenantId: string,
+    id: string,
+    data: Record<string, any> = {}
+  ): Promise<RenderedTemplate> {
+    const template = await this.getTemplate(tenantId, id);
+    return this.render(template, { ...(template.sampleData ?? {}), ...data });
+  }
+
+  /**
+   * Renders the published version of a template for delivery. Falls back
+   * from a regional locale to its language, then to the default locale.
+   * @throws NotFoundError when no locale has a published version
+   * @throws BadRequestError with code TEMPLATE_DATA_INVALID when the data fails validation
+   */
+  async renderPublished(
+    tenantId: string,
+    name: string,
+    locale: string,
+    data: Record<string, any>
+  ): Promise<RenderedTemplate> {
+    const locales = [...new Set([locale, locale.split('-')[0], DEFAULT_TEMPLATE_LOCALE])];
+    const template = await this.templateRepository.findPublished(tenantId, name, locales);
+    if (!template) {
+      throw new NotFoundError(`No published template "${name}"`);
+    }
+    return this.render(template, data);
+  }
+
+  private render(template: NotificationTemplate, data: Record<string, any>): RenderedTemplate {
+    const values = validateTemplateData(template.variables, template.validationRules, data);
+    const escape = template.type === NotificationType.EMAIL;
+
+    return {
+      templateId: template.id,
+      name: template.name,
+      locale: template.locale,
+      version: template.version,
+      status: template.status,
+      subject: renderTemplate(template.subject ?? '', values, { locale: template.locale, escape: false }),
+      body: renderTemplate(template.template, values, { locale: template.locale, escape })
+    };
+  }
+
+  private checkDefinition(
+    subject: string,
+    template: string,
+    variables: TemplateVariable[],
+    validationRules: ValidationRule[]
+  ): void {
+    const errors = checkTemplateDefinition(variables, validationRules);
+    const declared = new Set(variables.map((variable) => variable.name));
+
+    for (const name of [...referencedVariables(subject), ...referencedVariables(template)]) {
+      if (!declared.has(name) && !errors.some((error) => error.field === name)) {
+        errors.push({ field: name, message: 'Template uses an undeclared variable' });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestError('Template definition is invalid', { errors }, 'TEMPLATE_DEFINITION_INVALID');
+    }
+  }
+
+  private toInput(template: NotificationTemplate): Omit<CreateTemplateInput, 'name' | 'type' | 'locale'> {
+    return {
+      description: template.description,
+      subject: template.subject,
+      template: template.template,
+      variables: template.variables,
+      validationRules: template.validationRules,
+      sampleData: template.sampleData
+    };
+  }
+
+  private conflict(message: string): BaseError {
+    return new BaseError(message, HTTP_STATUS.CONFLICT, {}, 'TEMPLATE_CONFLICT');
+  }
+}
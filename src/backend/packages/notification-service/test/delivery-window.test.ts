@@ -0,0 +1,55 @@
+import { findNextDeliveryTime, isWithinSchedule, resolveTimeZone } from '../src/services/delivery.window';
+
+describe('delivery window', () => {
+  const weekdays = { days: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00', timezone: 'UTC' };
+
+  it('should deliver immediately without schedules or blackouts', () => {
+    const now = new Date('2024-03-02T03:00:00Z');
+
+    expect(findNextDeliveryTime(now, { schedules: [], blackoutPeriods: [] })).toEqual(now);
+    expect(findNextDeliveryTime(now, null)).toEqual(now);
+  });
+
+  it('should move weekend deliveries to Monday morning in the user time zone', () => {
+    // Saturday noon in New York
+    const now = new Date('2024-03-02T17:00:00Z');
+
+    expect(findNextDeliveryTime(now, { schedules: [weekdays] }, 'America/New_York'))
+      .toEqual(new Date('2024-03-04T14:00:00Z'));
+  });
+
+  it('should follow daylight saving changes', () => {
+    // Saturday night before the US switch to daylight time
+    const now = new Date('2024-03-10T04:00:00Z');
+    const daily = { days: [], startTime: '08:00', endTime: '20:00', timezone: 'UTC' };
+
+    expect(findNextDeliveryTime(now, { schedules: [daily] }, 'America/Chicago'))
+      .toEqual(new Date('2024-03-10T13:00:00Z'));
+  });
+
+  it('should treat windows ending before they start as running past midnight', () => {
+    const overnight = { days: [5], startTime: '22:00', endTime: '02:00', timezone: 'UTC' };
+
+    expect(isWithinSchedule(new Date('2024-03-08T23:00:00Z'), overnight, 'UTC')).toBe(true);
+    expect(isWithinSchedule(new Date('2024-03-09T01:30:00Z'), overnight, 'UTC')).toBe(true);
+    expect(isWithinSchedule(new Date('2024-03-09T02:30:00Z'), overnight, 'UTC')).toBe(false);
+  });
+
+  it('should wait out blackouts before looking for a window', () => {
+    // Tuesday 10:00 UTC, inside a blackout ending Tuesday 18:00
+    const now = new Date('2024-03-05T10:00:00Z');
+    const blackoutPeriods = [{
+      startDate: new Date('2024-03-05T00:00:00Z'),
+      endDate: new Date('2024-03-05T18:00:00Z'),
+      reason: 'Vacation'
+    }];
+
+    expect(findNextDeliveryTime(now, { schedules: [weekdays], blackoutPeriods }, 'UTC'))
+      .toEqual(new Date('2024-03-06T09:00:00Z'));
+  });
+
+  it('should fall back to UTC for unknown time zones', () => {
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimeZone('Europe/Berlin')).toBe('Europe/Berlin');
+  });
+});
@@ -0,0 +1,98 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import { Logger } from 'winston';
+import { DigestService } from '../src/services/digest.service';
+import { DigestRepository } from '../src/repositories/digest.repository';
+import { NotificationRepository } from '../src/repositories/notification.repository';
+import { DigestFrequency, NotificationStatus, NotificationType } from '../src/models/notification.model';
+import { DigestStatus } from '../src/models/digest.model';
+
+describe('DigestService', () => {
+  let digestService: DigestService;
+  let mockDigestRepository: MockProxy<DigestRepository>;
+  let mockNotificationRepository: MockProxy<NotificationRepository>;
+
+  const preferences = {
+    userId: 'manager-1',
+    tenantId: 'test-tenant-123',
+    channels: [],
+    schedules: [],
+    blackoutPeriods: [],
+    categories: [{ category: 'APPLICATION_UPDATE', enabled: true, channels: [], digest: DigestFrequency.DAILY }]
+  };
+
+  beforeEach(() => {
+    mockDigestRepository = mock<DigestRepository>();
+    mockNotificationRepository = mock<NotificationRepository>();
+    digestService = new DigestService(mockDigestRepository, mockNotificationRepository, mock<Logger>());
+  });
+
+  describe('getDigestFrequency', () => {
+    const email = { type: NotificationType.EMAIL, category: 'APPLICATION_UPDATE', priority: 0 };
+
+    it('should digest low-priority emails in digested categories', () => {
+      expect(digestService.getDigestFrequency(email, preferences)).toBe(DigestFrequency.DAILY);
+    });
+
+    it('should leave in-app, high-priority and urgent notifications alone', () => {
+      expect(digestService.getDigestFrequency({ ...email, type: NotificationType.IN_APP }, preferences)).toBeNull();
+      expect(digestService.getDigestFrequency({ ...email, priority: 1 }, preferences)).toBeNull();
+      expect(digestService.getDigestFrequency({ ...email, category: 'PAYMENT_FAILURE' }, {
+        ...preferences,
+        categories: [{ category: 'PAYMENT_FAILURE', enabled: true, channels: [], digest: DigestFrequency.DAILY }]
+      })).toBeNull();
+    });
+  });
+
+  describe('getDigestTime', () => {
+    it('should send hourly digests on the next hour', () => {
+      expect(digestService.getDigestTime(DigestFrequency.HOURLY, new Date('2024-03-04T15:20:00Z')))
+        .toEqual(new Date('2024-03-04T16:00:00Z'));
+    });
+
+    it('should send daily digests the next morning in the recipient time zone', () => {
+      // 09:00 in Los Angeles, after today's send time
+      expect(digestService.getDigestTime(DigestFrequency.DAILY, new Date('2024-03-04T17:00:00Z'), 'America/Los_Angeles'))
+        .toEqual(new Date('2024-03-05T16:00:00Z'));
+    });
+  });
+
+  it('should render items into a single escaped summary email', () => {
+    const content = digestService.buildDigestContent({
+      id: 'digest-1',
+      tenantId: 'test-tenant-123',
+      userId: 'manager-1',
+      frequency: DigestFrequency.DAILY,
+      scheduledFor: new Date('2024-03-05T16:00:00Z'),
+      items: [
+        { notificationId: 'n-1', subject: 'New application', body: 'Unit <4B>', data: {}, createdAt: new Date() },
+        { notificationId: 'n-2', body: 'Screening complete', data: {}, createdAt: new Date() }
+      ]
+    });
+
+    expect(content.subject).toBe('You have 2 new updates');
+    expect(content.body).toBe('- New application: Unit <4B>\n- Screening complete\n');
+    expect(content.html).toBe(
+      '<ul><li><strong>New application</strong><br>Unit &lt;4B&gt;</li><li>Screening complete</li></ul>'
+    );
+  });
+
+  it('should mark held emails with the digest outcome', async () => {
+    const batch = {
+      id: 'digest-1',
+      tenantId: 'test-tenant-123',
+      userId: 'manager-1',
+      frequency: DigestFrequency.HOURLY,
+      scheduledFor: new Date(),
+      items: [{ notificationId: 'n-1', body: 'Update', data: {}, createdAt: new Date() }]
+    };
+
+    await digestService.completeDigest(batch, true);
+
+    expect(mockNotificationRepository.updateNotificationStatusWithTracking).toHaveBeenCalledWith(
+      'n-1',
+      NotificationStatus.SENT,
+      expect.objectContaining({ provider: 'digest', metadata: { digestId: 'digest-1' } })
+    );
+    expect(mockDigestRepository.completeBatch).toHaveBeenCalledWith('digest-1', DigestStatus.SENT, 1);
+  });
+});
@@ -1,11 +1,17 @@
 import { mock, mockReset, MockProxy } from 'jest-mock-extended';
 import { NotificationService } from '../src/services/notification.service';
 import { NotificationRepository } from '../src/repositories/notification.repository';
-import { NotificationType, NotificationStatus } from '../src/models/notification.model';
+import { UserProfileRepository } from '../src/repositories/user-profile.repository';
+import { NotificationType, NotificationStatus, DigestFrequency } from '../src/models/notification.model';
 import { CircuitBreaker } from 'opossum';
 import { Metrics } from 'prom-client';
 import { RateLimiter } from 'rate-limiter-flexible';
 import { Logger } from 'winston';
+import Queue from 'bull';
+import { DeferredDeliveryJob } from '../src/jobs/deferred-delivery.job';
+import { DigestService } from '../src/services/digest.service';
+import { PushService } from '../src/services/push.service';
+import { NotificationStream } from '../src/services/notification.stream';
 
 describe('NotificationService', () => {
   let notificationService: NotificationService;
@@ -14,6 +20,11 @@ describe('NotificationService', () => {
   let mockMetrics: MockProxy<Metrics>;
   let mockRateLimiter: MockProxy<RateLimiter>;
   let mockLogger: MockProxy<Logger>;
+  let mockQueue: MockProxy<Queue.Queue<DeferredDeliveryJob>>;
+  let mockDigestService: MockProxy<DigestService>;
+  let mockPushService: MockProxy<PushService>;
+  let mockStream: MockProxy<NotificationStream>;
+  let mockProfiles: MockProxy<UserProfileRepository>;
 
   const TEST_TENANT_ID = 'test-tenant-123';
   const TEST_USER_ID = 'test-user-456';
@@ -24,12 +35,24 @@ describe('NotificationService', () => {
     mockMetrics = mock<Metrics>();
     mockRateLimiter = mock<RateLimiter>();
     mockLogger = mock<Logger>();
+    mockQueue = mock<Queue.Queue<DeferredDeliveryJob>>();
+    mockDigestService = mock<DigestService>();
+    mockDigestService.getDigestFrequency.mockReturnValue(null);
+    mockPushService = mock<PushService>();
+    mockStream = mock<NotificationStream>();
+    mockProfiles = mock<UserProfileRepository>();
+    mockProfiles.findTimezone.mockResolvedValue(null);
 
     notificationService = new NotificationService(
       mockRepository,
       mockCircuitBreaker,
       mockMetrics,
-      mockRateLimiter
+      mockRateLimiter,
+      mockQueue,
+      mockDigestService,
+      mockPushService,
+      mockStream,
+      mockProfiles
     );
   });
 
@@ -115,6 +138,286 @@ describe('NotificationService', () => {
         notificationService.sendNotification(testNotification, TEST_TENANT_ID)
       ).rejects.toThrow('Notification delivery not allowed by user preferences');
     });
+
+    it('should deliver push notifications to the recipient devices', async () => {
+      mockRateLimiter.consume.mockResolvedValue(undefined);
+      mockRepository.getNotificationPreferences.mockResolvedValue(null);
+      mockRepository.createNotificationBatch.mockImplementation(async (notifications) =>
+        notifications.map((notification) => ({ ...notification, id: 'test-notification-id' })) as any
+      );
+      mockCircuitBreaker.fire.mockImplementation(async (deliver: () => Promise<any>) => deliver());
+      mockPushService.sendToUser.mockResolvedValue({
+        status: NotificationStatus.SENT,
+        provider: 'web-push',
+        metadata: { delivered: 2, failed: 0, pruned: 1 }
+      });
+
+      const result = await notificationService.sendNotification(
+        { ...testNotification, type: NotificationType.PUSH },
+        TEST_TENANT_ID
+      );
+
+      expect(result).toMatchObject({ status: NotificationStatus.SENT, provider: 'web-push' });
+      expect(mockPushService.sendToUser).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'test-notification-id', type: NotificationType.PUSH })
+      );
+    });
+  });
+
+  describe('In-app Stream', () => {
+    it('should push in-app notifications to the recipient open sessions', async () => {
+      mockRateLimiter.consume.mockResolvedValue(undefined);
+      mockRepository.getNotificationPreferences.mockResolvedValue(null);
+      mockRepository.createNotificationBatch.mockImplementation(async (notifications) =>
+        notifications.map((notification) => ({ ...notification, id: 'test-notification-id' })) as any
+      );
+      mockCircuitBreaker.fire.mockImplementation(async (deliver: () => Promise<any>) => deliver());
+      mockStream.publish.mockResolvedValue('1700000000000-0');
+
+      const result = await notificationService.sendNotification({
+        type: NotificationType.IN_APP,
+        userId: TEST_USER_ID,
+        content: { subject: 'New message', body: 'You have a new message' }
+      }, TEST_TENANT_ID);
+
+      expect(result.metadata).toEqual({ eventId: '1700000000000-0' });
+      expect(mockStream.publish).toHaveBeenCalledWith(
+        TEST_TENANT_ID,
+        TEST_USER_ID,
+        'notification',
+        expect.objectContaining({ id: 'test-notification-id', content: expect.objectContaining({ body: 'You have a new message' }) })
+      );
+    });
+
+    it('should tell other sessions when a notification is read', async () => {
+      const readAt = new Date();
+      mockRepository.markAsRead.mockResolvedValue({ id: 'test-notification-id', readAt } as any);
+
+      await notificationService.markNotificationAsRead('test-notification-id', TEST_USER_ID, TEST_TENANT_ID);
+
+      expect(mockStream.publish).toHaveBeenCalledWith(TEST_TENANT_ID, TEST_USER_ID, 'read', {
+        id: 'test-notification-id',
+        readAt
+      });
+    });
+
+    it('should not publish when the notification was already read', async () => {
+      mockRepository.markAsRead.mockResolvedValue(null);
+      mockRepository.findById.mockResolvedValue({
+        id: 'test-notification-id',
+        userId: TEST_USER_ID,
+        tenantId: TEST_TENANT_ID
+      } as any);
+
+      await notificationService.markNotificationAsRead('test-notification-id', TEST_USER_ID, TEST_TENANT_ID);
+
+      expect(mockStream.publish).not.toHaveBeenCalled();
+    });
+
+    it('should reject marking another user notification as read', async () => {
+      mockRepository.markAsRead.mockResolvedValue(null);
+      mockRepository.findById.mockResolvedValue({
+        id: 'test-notification-id',
+        userId: 'other-user',
+        tenantId: TEST_TENANT_ID
+      } as any);
+
+      await expect(
+        notificationService.markNotificationAsRead('test-notification-id', TEST_USER_ID, TEST_TENANT_ID)
+      ).rejects.toThrow('Notification not found');
+    });
+  });
+
+  describe('Delivery Schedules', () => {
+    const testNotification = {
+      type: NotificationType.EMAIL,
+      userId: TEST_USER_ID,
+      content: { body: 'Test Body' }
+    };
+
+    // Monday 2024-03-04 03:00 in Chicago
+    const NIGHT = new Date('2024-03-04T09:00:00Z');
+
+    const preferences = {
+      userId: TEST_USER_ID,
+      tenantId: TEST_TENANT_ID,
+      channels: [{ type: NotificationType.EMAIL, enabled: true, priority: 1 }],
+      schedules: [{ days: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '21:00', timezone: 'UTC' }],
+      blackoutPeriods: [],
+      categories: [],
+      timezone: 'America/Chicago'
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NIGHT });
+      mockRateLimiter.consume.mockResolvedValue(undefined as any);
+      mockRepository.getNotificationPreferences.mockResolvedValue(preferences);
+      mockRepository.createNotificationBatch.mockImplementation(async (notifications) =>
+        notifications.map((notification) => ({ ...notification, id: 'test-notification-id' })) as any
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should defer deliveries outside the schedule to the next window in the user time zone', async () => {
+      const result = await notificationService.sendNotification(testNotification, TEST_TENANT_ID);
+
+      // 08:00 CST
+      const releaseAt = new Date('2024-03-04T14:00:00Z');
+      expect(result.status).toBe(NotificationStatus.QUEUED);
+      expect(mockRepository.deferNotification).toHaveBeenCalledWith('test-notification-id', releaseAt);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        { notificationId: 'test-notification-id', tenantId: TEST_TENANT_ID },
+        expect.objectContaining({ delay: releaseAt.getTime() - NIGHT.getTime() })
+      );
+      expect(mockCircuitBreaker.fire).not.toHaveBeenCalled();
+    });
+
+    it('should read schedules in the time zone from the recipient profile', async () => {
+      mockProfiles.findTimezone.mockResolvedValue('America/New_York');
+
+      await notificationService.sendNotification(testNotification, TEST_TENANT_ID);
+
+      // 08:00 EST
+      expect(mockProfiles.findTimezone).toHaveBeenCalledWith(TEST_USER_ID);
+      expect(mockRepository.deferNotification)
+        .toHaveBeenCalledWith('test-notification-id', new Date('2024-03-04T13:00:00Z'));
+      expect(mockRepository.createNotificationBatch).toHaveBeenCalledWith(
+        [expect.objectContaining({ metadata: expect.objectContaining({ timezone: 'America/New_York' }) })],
+        TEST_TENANT_ID
+      );
+    });
+
+    it('should deliver urgent categories immediately', async () => {
+      mockCircuitBreaker.fire.mockResolvedValue({
+        status: NotificationStatus.SENT,
+        provider: 'test-provider',
+        metadata: {}
+      });
+
+      const result = await notificationService.sendNotification(
+        { ...testNotification, category: 'PAYMENT_FAILURE' },
+        TEST_TENANT_ID
+      );
+
+      expect(result.status).toBe(NotificationStatus.SENT);
+      expect(mockQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should reject categories the user turned off', async () => {
+      mockRepository.getNotificationPreferences.mockResolvedValue({
+        ...preferences,
+        categories: [{ category: 'MARKETING', enabled: false, channels: [] }]
+      });
+
+      await expect(
+        notificationService.sendNotification({ ...testNotification, category: 'MARKETING' }, TEST_TENANT_ID)
+      ).rejects.toThrow('Notification delivery not allowed by user preferences');
+    });
+
+    it('should deliver a released notification once its window opens', async () => {
+      jest.setSystemTime(new Date('2024-03-04T14:00:00Z'));
+      mockRepository.findById.mockResolvedValue({
+        id: 'test-notification-id',
+        tenantId: TEST_TENANT_ID,
+        userId: TEST_USER_ID,
+        type: NotificationType.EMAIL,
+        status: NotificationStatus.QUEUED,
+        metadata: { correlationId: 'corr-1' }
+      } as any);
+      mockCircuitBreaker.fire.mockResolvedValue({
+        status: NotificationStatus.SENT,
+        provider: 'test-provider',
+        metadata: {}
+      });
+
+      const result = await notificationService.releaseDeferredNotification('test-notification-id', TEST_TENANT_ID);
+
+      expect(result?.status).toBe(NotificationStatus.SENT);
+      expect(result?.correlationId).toBe('corr-1');
+    });
+
+    it('should skip released notifications that are no longer queued', async () => {
+      mockRepository.findById.mockResolvedValue({
+        id: 'test-notification-id',
+        tenantId: TEST_TENANT_ID,
+        status: NotificationStatus.FAILED
+      } as any);
+
+      await expect(
+        notificationService.releaseDeferredNotification('test-notification-id', TEST_TENANT_ID)
+      ).resolves.toBeNull();
+      expect(mockCircuitBreaker.fire).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Digests', () => {
+    const digestPreferences = {
+      userId: TEST_USER_ID,
+      tenantId: TEST_TENANT_ID,
+      channels: [{ type: NotificationType.EMAIL, enabled: true, priority: 1 }],
+      schedules: [],
+      blackoutPeriods: [],
+      categories: [{ category: 'APPLICATION_UPDATE', enabled: true, channels: [], digest: DigestFrequency.HOURLY }]
+    };
+
+    beforeEach(() => {
+      mockRateLimiter.consume.mockResolvedValue(undefined as any);
+      mockRepository.getNotificationPreferences.mockResolvedValue(digestPreferences);
+      mockRepository.createNotificationBatch.mockImplementation(async (notifications) =>
+        notifications.map((notification) => ({ ...notification, id: 'test-notification-id' })) as any
+      );
+    });
+
+    it('should hold digested emails instead of delivering them', async () => {
+      const scheduledFor = new Date('2024-03-04T15:00:00Z');
+      mockDigestService.getDigestFrequency.mockReturnValue(DigestFrequency.HOURLY);
+      mockDigestService.addToDigest.mockResolvedValue(scheduledFor);
+
+      const result = await notificationService.sendNotification({
+        type: NotificationType.EMAIL,
+        userId: TEST_USER_ID,
+        category: 'APPLICATION_UPDATE',
+        content: { subject: 'Application updated', body: 'Your application moved to review.' }
+      }, TEST_TENANT_ID);
+
+      expect(result).toMatchObject({ status: NotificationStatus.QUEUED, provider: 'digest' });
+      expect(mockDigestService.addToDigest).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'test-notification-id' }),
+        DigestFrequency.HOURLY,
+        undefined
+      );
+      expect(mockCircuitBreaker.fire).not.toHaveBeenCalled();
+    });
+
+    it('should send one summary email per due digest', async () => {
+      const batch = {
+        id: 'digest-1',
+        tenantId: TEST_TENANT_ID,
+        userId: TEST_USER_ID,
+        frequency: DigestFrequency.HOURLY,
+        scheduledFor: new Date('2024-03-04T15:00:00Z'),
+        items: []
+      };
+      mockDigestService.claimDueDigests.mockResolvedValue([batch]);
+      mockDigestService.buildDigestContent.mockReturnValue({ subject: 'You have 2 new updates', body: '- a\n- b\n' });
+      mockCircuitBreaker.fire.mockResolvedValue({
+        status: NotificationStatus.SENT,
+        provider: 'test-provider',
+        metadata: {}
+      });
+
+      const sent = await notificationService.sendDueDigests(new Date('2024-03-04T15:00:00Z'));
+
+      expect(sent).toBe(1);
+      expect(mockRepository.createNotificationBatch).toHaveBeenCalledWith(
+        [expect.objectContaining({ type: NotificationType.EMAIL, content: expect.objectContaining({ subject: 'You have 2 new updates' }) })],
+        TEST_TENANT_ID
+      );
+      expect(mockDigestService.completeDigest).toHaveBeenCalledWith(batch, true);
+    });
   });
 
   describe('handleWebhook', () => {
@@ -0,0 +1,125 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import { Logger } from 'winston';
+import webpush, { WebPushError } from 'web-push';
+import { PushService, PUSH_MAX_FAILURES } from '../src/services/push.service';
+import { PushSubscriptionRepository } from '../src/repositories/push-subscription.repository';
+import { NotificationStatus, NotificationType } from '../src/models/notification.model';
+
+jest.mock('web-push', () => ({
+  __esModule: true,
+  WebPushError: jest.requireActual('web-push').WebPushError,
+  default: {
+    setVapidDetails: jest.fn(),
+    sendNotification: jest.fn()
+  }
+}));
+
+describe('PushService', () => {
+  let pushService: PushService;
+  let mockRepository: MockProxy<PushSubscriptionRepository>;
+  const sendNotification = webpush.sendNotification as jest.Mock;
+
+  const settings = {
+    vapidPublicKey: 'public-key',
+    vapidPrivateKey: 'private-key',
+    subject: 'mailto:support@projectx.com',
+    ttlSeconds: 3600
+  };
+
+  const notification = {
+    id: 'notification-1',
+    tenantId: 'test-tenant-123',
+    userId: 'test-user-456',
+    type: NotificationType.PUSH,
+    title: 'Payment received',
+    priority: 0,
+    content: { body: 'Your rent payment was received.', data: { url: '/payments' } }
+  } as any;
+
+  const subscription = (endpoint: string, extra: Record<string, any> = {}) => ({
+    id: endpoint,
+    endpoint: `https://push.example.com/${endpoint}`,
+    keys: { p256dh: 'p256dh', auth: 'auth' },
+    failureCount: 0,
+    ...extra
+  }) as any;
+
+  beforeEach(() => {
+    sendNotification.mockReset();
+    mockRepository = mock<PushSubscriptionRepository>();
+    pushService = new PushService(mockRepository, settings, mock<Logger>());
+  });
+
+  it('should only accept https subscriptions with keys', async () => {
+    await expect(pushService.registerSubscription('test-tenant-123', 'test-user-456', {
+      endpoint: 'http://push.example.com/abc',
+      keys: { p256dh: 'p256dh', auth: 'auth' }
+    })).rejects.toThrow('A push subscription endpoint and keys are required');
+
+    expect(mockRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should send to every device and prune subscriptions reported gone', async () => {
+    mockRepository.findByUser.mockResolvedValue([
+      subscription('laptop'),
+      subscription('phone'),
+      subscription('tablet', { expirationTime: new Date('2020-01-01T00:00:00Z') })
+    ]);
+    sendNotification
+      .mockResolvedValueOnce({ statusCode: 201 })
+      .mockRejectedValueOnce(new WebPushError('Gone', 410, {}, '', 'https://push.example.com/phone'));
+
+    const result = await pushService.sendToUser(notification);
+
+    expect(result).toEqual({
+      status: NotificationStatus.SENT,
+      provider: 'web-push',
+      metadata: { delivered: 1, failed: 0, pruned: 2 }
+    });
+    expect(sendNotification).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(sendNotification.mock.calls[0][1])).toEqual({
+      notificationId: 'notification-1',
+      title: 'Payment received',
+      body: 'Your rent payment was received.',
+      url: '/payments'
+    });
+    expect(mockRepository.markUsed).toHaveBeenCalledWith('https://push.example.com/laptop', expect.any(Date));
+    expect(mockRepository.deleteByEndpoints).toHaveBeenCalledWith([
+      'https://push.example.com/tablet',
+      'https://push.example.com/phone'
+    ]);
+  });
+
+  it('should count other errors against the subscription without removing it', async () => {
+    mockRepository.findByUser.mockResolvedValue([subscription('laptop')]);
+    sendNotification.mockRejectedValue(new WebPushError('Server error', 500, {}, '', 'https://push.example.com/laptop'));
+
+    const result = await pushService.sendToUser(notification);
+
+    expect(result.status).toBe(NotificationStatus.FAILED);
+    expect(mockRepository.recordFailure).toHaveBeenCalledWith('https://push.example.com/laptop');
+    expect(mockRepository.deleteByEndpoints).toHaveBeenCalledWith([]);
+  });
+
+  it('should fail without contacting the push service when the user has no devices', async () => {
+    mockRepository.findByUser.mockResolvedValue([]);
+
+    const result = await pushService.sendToUser(notification);
+
+    expect(result.metadata.reason).toBe('NO_SUBSCRIPTIONS');
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should prune stale subscriptions', async () => {
+    mockRepository.deleteStale.mockResolvedValue(3);
+
+    const pruned = await pushService.pruneSubscriptions(new Date('2024-06-01T00:00:00Z'));
+
+    expect(pruned).toBe(3);
+    expect(mockRepository.deleteStale).toHaveBeenCalledWith(
+      new Date('2024-06-01T00:00:00Z'),
+      PUSH_MAX_FAILURES,
+      new Date('2024-03-03T00:00:00Z')
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import { EventEmitter } from 'events';
+import { Logger } from 'winston';
+import Redis from 'ioredis';
+import { NotificationStream, NotificationStreamEvent, compareEventIds } from '../src/services/notification.stream';
+import { StreamController } from '../src/controllers/stream.controller';
+
+describe('NotificationStream', () => {
+  let redis: MockProxy<Redis>;
+  let stream: NotificationStream;
+
+  beforeEach(() => {
+    redis = mock<Redis>();
+    stream = new NotificationStream(redis, mock<Redis>(), mock<Logger>());
+  });
+
+  it('should order event IDs by time, then sequence', () => {
+    expect(compareEventIds('1700000000000-1', '1700000000000-0')).toBeGreaterThan(0);
+    expect(compareEventIds('1700000000000-5', '1700000000001-0')).toBeLessThan(0);
+    expect(compareEventIds('1700000000000-2', '1700000000000-2')).toBe(0);
+  });
+
+  it('should replay events after the last one received', async () => {
+    redis.xrange
+      .mockResolvedValueOnce([['1700000000002-0', ['type', 'read', 'data', '{"id":"n-1"}']]])
+      .mockResolvedValueOnce([['1700000000000-0', ['type', 'notification', 'data', '{}']]]);
+
+    const replay = await stream.replay('tenant-1', 'user-1', '1700000000001-0');
+
+    expect(redis.xrange).toHaveBeenCalledWith(
+      'notifications:stream:tenant-1:user-1', '(1700000000001-0', '+', 'COUNT', expect.any(Number)
+    );
+    expect(replay).toEqual({
+      events: [{ id: '1700000000002-0', type: 'read', data: { id: 'n-1' } }],
+      complete: true
+    });
+  });
+
+  it('should flag a gap when the last event received was trimmed', async () => {
+    redis.xrange
+      .mockResolvedValueOnce([['1700000000009-0', ['type', 'notification', 'data', '{}']]])
+      .mockResolvedValueOnce([['1700000000009-0', ['type', 'notification', 'data', '{}']]]);
+
+    const replay = await stream.replay('tenant-1', 'user-1', '1700000000001-0');
+
+    expect(replay.complete).toBe(false);
+  });
+});
+
+describe('StreamController', () => {
+  let stream: MockProxy<NotificationStream>;
+  let controller: StreamController;
+  let live: (event: NotificationStreamEvent) => void;
+
+  const createResponse = () => {
+    const written: string[] = [];
+    const res: any = {
+      headersSent: false,
+      status: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      flushHeaders: jest.fn(() => { res.headersSent = true; }),
+      write: jest.fn((chunk: string) => written.push(chunk)),
+      end: jest.fn()
+    };
+    return { res, written };
+  };
+
+  const createRequest = (lastEventId?: string) => Object.assign(new EventEmitter(), {
+    headers: { 'x-tenant-id': 'tenant-1' },
+    query: {},
+    user: { id: 'user-1' },
+    get: (name: string) => (name === 'last-event-id' ? lastEventId : undefined)
+  }) as any;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    stream = mock<NotificationStream>();
+    stream.subscribe.mockImplementation(async (_tenantId, _userId, listener) => {
+      live = listener;
+      return async () => undefined;
+    });
+    controller = new StreamController(stream, mock<Logger>());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send missed events before live ones, without duplicates', async () => {
+    stream.replay.mockImplementation(async () => {
+      // Published while the backlog is read; it is part of both
+      live({ id: '1700000000003-0', type: 'read', data: { id: 'n-2' } });
+      return {
+        events: [
+          { id: '1700000000002-0', type: 'notification', data: { id: 'n-2' } },
+          { id: '1700000000003-0', type: 'read', data: { id: 'n-2' } }
+        ],
+        complete: true
+      };
+    });
+    const req = createRequest('1700000000001-0');
+    const { res, written } = createResponse();
+
+    await controller.streamNotifications(req, res, jest.fn());
+    live({ id: '1700000000004-0', type: 'read-all', data: {} });
+    req.emit('close');
+
+    expect(res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(written.filter((chunk) => chunk.startsWith('id:'))).toEqual([
+      'id: 1700000000002-0\nevent: notification\ndata: {"id":"n-2"}\n\n',
+      'id: 1700000000003-0\nevent: read\ndata: {"id":"n-2"}\n\n',
+      'id: 1700000000004-0\nevent: read-all\ndata: {}\n\n'
+    ]);
+  });
+
+  it('should tell clients to reload when events were missed beyond the stream', async () => {
+    stream.replay.mockResolvedValue({ events: [], complete: false });
+    const req = createRequest('1700000000001-0');
+    const { res, written } = createResponse();
+
+    await controller.streamNotifications(req, res, jest.fn());
+    req.emit('close');
+
+    expect(written).toContain('event: reset\ndata: {}\n\n');
+  });
+
+  it('should ignore malformed Last-Event-ID values', async () => {
+    const req = createRequest('not-an-id');
+    const { res } = createResponse();
+
+    await controller.streamNotifications(req, res, jest.fn());
+    req.emit('close');
+
+    expect(stream.replay).not.toHaveBeenCalled();
+  });
+
+  it('should release the subscription when the client leaves during replay', async () => {
+    const stop = jest.fn(async () => undefined);
+    stream.subscribe.mockResolvedValue(stop);
+    const req = createRequest('1700000000001-0');
+    stream.replay.mockImplementation(async () => {
+      req.emit('close');
+      return { events: [{ id: '1700000000002-0', type: 'notification', data: {} }], complete: true };
+    });
+    const { res, written } = createResponse();
+
+    await controller.streamNotifications(req, res, jest.fn());
+    const writes = written.length;
+    jest.advanceTimersByTime(60000);
+
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(written.some((chunk) => chunk.startsWith('id:'))).toBe(false);
+    expect(written).toHaveLength(writes);
+  });
+});
@@ -0,0 +1,202 @@
+import { mock, MockProxy } from 'jest-mock-extended';
+import { Logger } from 'winston';
+import { TemplateService } from '../src/services/template.service';
+import { TemplateRepository } from '../src/repositories/template.repository';
+import { compileTemplate, renderTemplate, validateTemplateData } from '../src/services/template.renderer';
+import {
+  NotificationTemplate,
+  NotificationType,
+  TemplateStatus
+} from '../src/models/notification.model';
+
+describe('template renderer', () => {
+  const options = { locale: 'en', escape: true };
+
+  it('should render values, conditionals and loops', () => {
+    const output = renderTemplate(
+      'Hi {{user.name}}!{{#if units}} Units:{{#each units}} {{@index}}={{this.number}}{{#unless @last}},{{/unless}}{{/each}}{{else}} None{{/if}}',
+      { user: { name: 'Ana' }, units: [{ number: '101' }, { number: '102' }] },
+      options
+    );
+
+    expect(output).toBe('Hi Ana! Units: 0=101, 1=102');
+  });
+
+  it('should escape HTML unless triple braces are used', () => {
+    const data = { note: '<b>Tom & Jerry</b>' };
+
+    expect(renderTemplate('{{note}}', data, options)).toBe('&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;');
+    expect(renderTemplate('{{{note}}}', data, options)).toBe('<b>Tom & Jerry</b>');
+    expect(renderTemplate('{{note}}', data, { ...options, escape: false })).toBe('<b>Tom & Jerry</b>');
+  });
+
+  it('should format numbers and dates for the locale', () => {
+    const data = { rent: 1250.5, moveIn: new Date('2024-07-01') };
+
+    expect(renderTemplate('{{rent}} / {{moveIn}}', data, { locale: 'de', escape: false }))
+      .toBe('1.250,5 / 01.07.2024');
+  });
+
+  it('should reject unbalanced blocks', () => {
+    expect(() => compileTemplate('{{#if paid}}Thanks')).toThrow('never closed');
+    expect(() => compileTemplate('{{#each items}}{{/if}}')).toThrow('unexpected {{/if}}');
+    expect(() => compileTemplate('{{#with user}}{{/with}}')).toThrow('unknown helper');
+  });
+
+  it('should apply defaults, coerce types and check rules', () => {
+    const variables = [
+      { name: 'email', type: 'string' as const, required: true },
+      { name: 'amount', type: 'number' as const, required: true },
+      { name: 'currency', type: 'string' as const, required: false, defaultValue: 'USD' }
+    ];
+    const rules = [
+      { field: 'email', rule: 'email', message: 'Must be an email address' },
+      { field: 'amount', rule: 'min:1', message: 'Must be at least 1' }
+    ];
+
+    expect(validateTemplateData(variables, rules, { email: 'a@b.co', amount: '12' }))
+      .toEqual({ email: 'a@b.co', amount: 12, currency: 'USD' });
+
+    try {
+      validateTemplateData(variables, rules, { email: 'nope', amount: 0 });
+      throw new Error('expected validation to fail');
+    } catch (error: any) {
+      expect(error.errorCode).toBe('TEMPLATE_DATA_INVALID');
+      expect(error.details.errors).toEqual([
+        { field: 'email', message: 'Must be an email address' },
+        { field: 'amount', message: 'Must be at least 1' }
+      ]);
+    }
+  });
+});
+
+describe('TemplateService', () => {
+  let templateService: TemplateService;
+  let mockRepository: MockProxy<TemplateRepository>;
+
+  const TEST_TENANT_ID = 'test-tenant-123';
+  const TEST_ADMIN_ID = 'test-admin-1';
+
+  const template = (overrides: Partial<NotificationTemplate> = {}): NotificationTemplate => ({
+    id: 'template-1',
+    tenantId: TEST_TENANT_ID,
+    type: NotificationType.EMAIL,
+    name: 'rent-reminder',
+    description: '',
+    subject: 'Rent due {{dueDate}}',
+    template: '<p>Hello {{name}}, {{amount}} is due.</p>',
+    version: 1,
+    variables: [
+      { name: 'name', type: 'string', required: true },
+      { name: 'amount', type: 'number', required: true },
+      { name: 'dueDate', type: 'date', required: true }
+    ],
+    validationRules: [],
+    sampleData: { name: 'Sam', amount: 1200, dueDate: '2024-08-01' },
+    locale: 'en',
+    status: TemplateStatus.DRAFT,
+    isActive: true,
+    createdBy: TEST_ADMIN_ID,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  } as NotificationTemplate);
+
+  beforeEach(() => {
+    mockRepository = mock<TemplateRepository>();
+    templateService = new TemplateService(mockRepository, mock<Logger>());
+  });
+
+  describe('createTemplate', () => {
+    it('should reject templates using undeclared variables', async () => {
+      await expect(templateService.createTemplate(TEST_TENANT_ID, {
+        name: 'welcome',
+        type: NotificationType.EMAIL,
+        template: 'Welcome {{firstName}}'
+      }, TEST_ADMIN_ID)).rejects.toThrow('Template definition is invalid');
+
+      expect(mockRepository.createVersion).not.toHaveBeenCalled();
+    });
+
+    it('should allow a new locale variant but not a duplicate locale', async () => {
+      mockRepository.findVersions.mockResolvedValue([template()]);
+      mockRepository.createVersion.mockImplementation(async (input) => template(input as any));
+      const input = {
+        name: 'rent-reminder',
+        type: NotificationType.EMAIL,
+        template: 'Bonjour {{name}}',
+        variables: [{ name: 'name', type: 'string' as const, required: true }]
+      };
+
+      const variant = await templateService.createTemplate(TEST_TENANT_ID, { ...input, locale: 'fr' }, TEST_ADMIN_ID);
+      expect(variant).toMatchObject({ locale: 'fr', version: 1, status: TemplateStatus.DRAFT });
+
+      await expect(templateService.createTemplate(TEST_TENANT_ID, input, TEST_ADMIN_ID))
+        .rejects.toThrow('already exists in locale en');
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should start a new draft version from a published template', async () => {
+      mockRepository.findById.mockResolvedValue(template({ status: TemplateStatus.PUBLISHED, version: 3 }));
+      mockRepository.findLatestVersion.mockResolvedValue(template({ status: TemplateStatus.PUBLISHED, version: 3 }));
+      mockRepository.createVersion.mockImplementation(async (input) => template(input as any));
+
+      const draft = await templateService.updateTemplate(
+        TEST_TENANT_ID,
+        'template-1',
+        { subject: 'Reminder: rent due {{dueDate}}' },
+        TEST_ADMIN_ID
+      );
+
+      expect(draft).toMatchObject({ version: 4, status: TemplateStatus.DRAFT, subject: 'Reminder: rent due {{dueDate}}' });
+      expect(mockRepository.updateDraft).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to open a second draft', async () => {
+      mockRepository.findById.mockResolvedValue(template({ status: TemplateStatus.PUBLISHED }));
+      mockRepository.findLatestVersion.mockResolvedValue(template({ id: 'template-2', version: 2 }));
+
+      await expect(templateService.updateTemplate(TEST_TENANT_ID, 'template-1', { description: 'x' }, TEST_ADMIN_ID))
+        .rejects.toThrow('already a draft');
+    });
+  });
+
+  describe('publishTemplate', () => {
+    it('should refuse drafts whose sample data fails validation', async () => {
+      mockRepository.findById.mockResolvedValue(template({ sampleData: { name: 'Sam' } }));
+
+      await expect(templateService.publishTemplate(TEST_TENANT_ID, 'template-1', TEST_ADMIN_ID))
+        .rejects.toThrow('Template data is invalid');
+      expect(mockRepository.publishDraft).not.toHaveBeenCalled();
+    });
+
+    it('should refuse versions that are already published', async () => {
+      mockRepository.findById.mockResolvedValue(template({ status: TemplateStatus.PUBLISHED }));
+
+      await expect(templateService.publishTemplate(TEST_TENANT_ID, 'template-1', TEST_ADMIN_ID))
+        .rejects.toThrow('already published');
+    });
+  });
+
+  describe('previewTemplate', () => {
+    it('should render with sample data overridden by request data', async () => {
+      mockRepository.findById.mockResolvedValue(template());
+
+      const preview = await templateService.previewTemplate(TEST_TENANT_ID, 'template-1', { name: '<Kim>' });
+
+      expect(preview.subject).toBe('Rent due Aug 1, 2024');
+      expect(preview.body).toBe('<p>Hello &lt;Kim&gt;, 1,200 is due.</p>');
+    });
+  });
+
+  describe('renderPublished', () => {
+    it('should fall back from a regional locale to its language and the default', async () => {
+      mockRepository.findPublished.mockResolvedValue(template({ locale: 'fr', status: TemplateStatus.PUBLISHED }));
+
+      await templateService.renderPublished(TEST_TENANT_ID, 'rent-reminder', 'fr-CA', template().sampleData!);
+
+      expect(mockRepository.findPublished).toHaveBeenCalledWith(TEST_TENANT_ID, 'rent-reminder', ['fr-CA', 'fr', 'en']);
+    });
+  });
+});
@@ -15,14 +15,34 @@ import winston from 'winston'; // v3.10.x
 import rateLimit from 'express-rate-limit'; // v6.9.x
 import { CircuitBreaker } from 'opossum'; // v7.1.x
 import errorHandler from 'express-error-handler'; // v1.1.x
+import Queue from 'bull'; // v4.11.x
+import { Pool } from 'pg'; // v8.11.x
+import { createDatabasePool } from '@projectx/database';
+import { NotificationClient } from '@projectx/common/clients';
 
-import { config } from './config';
+import { config, depositConfig, notificationConfig, rentBillingConfig } from './config';
 import configurePaymentRoutes from './routes/payment.routes';
+import configureRentBillingRoutes from './routes/rent-billing.routes';
+import configureDepositRoutes from './routes/deposit.routes';
+import configureOwnerRoutes from './routes/owner.routes';
 import { PaymentService } from './services/payment.service';
+import { StripeService } from './services/stripe.service';
+import { RentBillingService } from './services/rent-billing.service';
+import { DepositService } from './services/deposit.service';
+import { OwnerService } from './services/owner.service';
+import { RentBillingRepository } from './repositories/rent-billing.repository';
+import { DepositRepository } from './repositories/deposit.repository';
+import { OwnerRepository } from './repositories/owner.repository';
+import { scheduleRentBilling } from './jobs/rent-billing.job';
+import { scheduleDepositInterest } from './jobs/deposit-interest.job';
 
 // Initialize Express application
 const app = express();
 
+// Repeatable rent billing and deposit interest jobs, closed on shutdown
+let rentBillingQueue: Queue.Queue | undefined;
+let depositInterestQueue: Queue.Queue | undefined;
+
 /**
  * Configures Express middleware with PCI DSS compliant security
  */
@@ -134,6 +154,32 @@ const configureDependencies = (): Container => {
   // Bind services
   container.bind<winston.Logger>('Logger').toConstantValue(logger);
   container.bind<PaymentService>('PaymentService').to(PaymentService);
+  container.bind<Pool>('DatabasePool').toDynamicValue(() => createDatabasePool()).inSingletonScope();
+  container.bind<StripeService>('StripeService').toDynamicValue(() => new StripeService(
+    process.env.STRIPE_API_KEY!,
+    logger,
+    new CircuitBreaker(async (fn: () => Promise<any>) => await fn(), {
+      timeout: 10000,
+      errorThresholdPercentage: 50,
+      resetTimeout: 30000
+    })
+  )).inSingletonScope();
+  container.bind<RentBillingService>('RentBillingService').toDynamicValue((context) => new RentBillingService(
+    new RentBillingRepository(logger, context.container.get<Pool>('DatabasePool')),
+    context.container.get<StripeService>('StripeService'),
+    new NotificationClient(logger, notificationConfig),
+    logger
+  )).inSingletonScope();
+  container.bind<DepositService>('DepositService').toDynamicValue((context) => new DepositService(
+    new DepositRepository(logger, context.container.get<Pool>('DatabasePool')),
+    context.container.get<StripeService>('StripeService'),
+    new NotificationClient(logger, notificationConfig),
+    logger
+  )).inSingletonScope();
+  container.bind<OwnerService>('OwnerService').toDynamicValue((context) => new OwnerService(
+    new OwnerRepository(logger, context.container.get<Pool>('DatabasePool')),
+    logger
+  )).inSingletonScope();
 
   return container;
 };
@@ -167,6 +213,8 @@ const startServer = async (
     // Graceful shutdown
     const shutdown = async () => {
       logger.info('Shutting down payment service...');
+      await rentBillingQueue?.close();
+      await depositInterestQueue?.close();
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
@@ -201,6 +249,12 @@ const initializeApp = async (): Promise<void> => {
 
     // Configure routes
     const paymentService = container.get<PaymentService>('PaymentService');
+    const rentBillingService = container.get<RentBillingService>('RentBillingService');
+    const depositService = container.get<DepositService>('DepositService');
+    const ownerService = container.get<OwnerService>('OwnerService');
+    app.use('/api/v1/payments/billing', configureRentBillingRoutes(rentBillingService));
+    app.use('/api/v1/payments/deposits', configureDepositRoutes(depositService));
+    app.use('/api/v1/payments/owners', configureOwnerRoutes(ownerService));
     app.use('/api/v1/payments', configurePaymentRoutes(paymentService));
 
     // Global error handler
@@ -216,6 +270,20 @@ const initializeApp = async (): Promise<void> => {
 
     // Start server
     await startServer(app, config.port);
+
+    if (rentBillingConfig.enabled) {
+      rentBillingQueue = await scheduleRentBilling(
+        rentBillingService,
+        container.get<winston.Logger>('Logger')
+      );
+    }
+
+    if (depositConfig.interestEnabled) {
+      depositInterestQueue = await scheduleDepositInterest(
+        depositService,
+        container.get<winston.Logger>('Logger')
+      );
+    }
   } catch (error) {
     logger.error('Failed to initialize application', {
       error: error.message,
@@ -7,6 +7,7 @@
 import { config as dotenv } from 'dotenv'; // ^16.0.0
 import { AES, enc } from 'crypto-js'; // ^4.1.1
 import { PAYMENT_STATUS, ConfigValidationError } from '@projectx/common';
+import { LateFeeType, RentBillingPolicy } from '../models/rent-billing.model';
 
 // Load environment variables with validation
 dotenv();
@@ -168,4 +169,49 @@ export const paymentConfig = {
     encryptData: true,
     auditLogging: true
   }
-};
\ No newline at end of file
+};
+
+// Rent billing engine configuration
+export const rentBillingConfig = {
+  enabled: process.env.RENT_BILLING_ENABLED !== 'false',
+  schedule: process.env.RENT_BILLING_CRON || '0 6 * * *', // Daily at 06:00 UTC
+  invoiceLeadDays: parseInt(process.env.RENT_INVOICE_LEAD_DAYS || '10', 10),
+  // Applied to properties without a billing policy; no late fee until one is configured
+  defaultPolicy: {
+    dueDay: 1,
+    gracePeriodDays: 5,
+    lateFeeType: LateFeeType.FLAT,
+    lateFeeAmount: 0,
+    lateFeeCap: null,
+    reminderDaysBefore: 3
+  } as Omit<RentBillingPolicy, 'propertyId'>
+};
+
+// Security deposit escrow configuration
+export const depositConfig = {
+  interestEnabled: process.env.DEPOSIT_INTEREST_ENABLED !== 'false',
+  interestSchedule: process.env.DEPOSIT_INTEREST_CRON || '0 5 1 * *', // Monthly on the 1st at 05:00 UTC
+  maxPhotos: parseInt(process.env.DEPOSIT_MAX_PHOTOS || '10', 10),
+  maxPhotoSize: parseInt(process.env.DEPOSIT_MAX_PHOTO_SIZE || String(10 * 1024 * 1024), 10), // 10MB
+  allowedPhotoTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+};
+
+// Owner portal reporting
+export const ownerConfig = {
+  maxDashboardRangeDays: parseInt(process.env.OWNER_DASHBOARD_MAX_RANGE_DAYS || '366', 10)
+};
+
+// Notification service integration
+export const notificationConfig = {
+  enabled: process.env.NOTIFICATIONS_ENABLED === 'true',
+  serviceUrl: process.env.NOTIFICATION_SERVICE_URL || 'http://notification-service:3005',
+  tenantId: process.env.NOTIFICATION_TENANT_ID || 'projectx',
+  emailEnabled: process.env.EMAIL_NOTIFICATIONS_ENABLED === 'true',
+  templates: {
+    rentInvoiceIssued: process.env.TEMPLATE_RENT_INVOICE_ISSUED || 'rent-invoice-issued',
+    rentDueReminder: process.env.TEMPLATE_RENT_DUE_REMINDER || 'rent-due-reminder',
+    rentOverdue: process.env.TEMPLATE_RENT_OVERDUE || 'rent-overdue',
+    lateFeeAssessed: process.env.TEMPLATE_LATE_FEE_ASSESSED || 'late-fee-assessed',
+    depositDisposition: process.env.TEMPLATE_DEPOSIT_DISPOSITION || 'deposit-disposition'
+  }
+};
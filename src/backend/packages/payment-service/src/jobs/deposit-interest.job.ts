@@ -0,0 +1,43 @@
+import Queue from 'bull'; // v4.11.x
+import { Logger } from 'winston'; // v3.x
+import { depositConfig, redisConfig } from '../config';
+import { DepositService } from '../services/deposit.service';
+
+export const DEPOSIT_INTEREST_QUEUE = 'deposit-interest';
+
+/**
+ * Registers the repeatable job posting accrued interest to held deposits
+ * @param depositService - Deposit escrow service
+ * @param logger - Service logger
+ * @returns Queue to close on shutdown
+ */
+export const scheduleDepositInterest = async (
+  depositService: DepositService,
+  logger: Logger
+): Promise<Queue.Queue> => {
+  const queue = new Queue(DEPOSIT_INTEREST_QUEUE, redisConfig.url!);
+
+  queue.process(async () => depositService.accrueInterest());
+
+  queue.on('completed', (job, credited: number) => {
+    logger.info('Deposit interest job completed', { jobId: job.id, credited });
+  });
+
+  queue.on('failed', (job, error) => {
+    logger.error('Deposit interest job failed', {
+      jobId: job.id,
+      attempts: job.attemptsMade,
+      error: error.message
+    });
+  });
+
+  await queue.add({}, {
+    repeat: { cron: depositConfig.interestSchedule, tz: 'UTC' },
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 60000 },
+    removeOnComplete: true
+  });
+
+  logger.info('Deposit interest accrual scheduled', { schedule: depositConfig.interestSchedule });
+  return queue;
+};
@@ -0,0 +1,45 @@
+import Queue from 'bull'; // v4.11.x
+import { Logger } from 'winston'; // v3.x
+import { redisConfig, rentBillingConfig } from '../config';
+import { RentBillingService } from '../services/rent-billing.service';
+import { BillingRunSummary } from '../models/rent-billing.model';
+
+export const RENT_BILLING_QUEUE = 'rent-billing';
+
+/**
+ * Registers the repeatable rent billing job. Bull de-duplicates the repeat
+ * schedule across service instances so each cycle runs once.
+ * @param rentBillingService - Billing engine
+ * @param logger - Service logger
+ * @returns Queue to close on shutdown
+ */
+export const scheduleRentBilling = async (
+  rentBillingService: RentBillingService,
+  logger: Logger
+): Promise<Queue.Queue> => {
+  const queue = new Queue(RENT_BILLING_QUEUE, redisConfig.url!);
+
+  queue.process(async () => rentBillingService.runBillingCycle());
+
+  queue.on('completed', (job, summary: BillingRunSummary) => {
+    logger.info('Rent billing job completed', { jobId: job.id, ...summary });
+  });
+
+  queue.on('failed', (job, error) => {
+    logger.error('Rent billing job failed', {
+      jobId: job.id,
+      attempts: job.attemptsMade,
+      error: error.message
+    });
+  });
+
+  await queue.add({}, {
+    repeat: { cron: rentBillingConfig.schedule, tz: 'UTC' },
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 60000 },
+    removeOnComplete: true
+  });
+
+  logger.info('Rent billing scheduled', { schedule: rentBillingConfig.schedule });
+  return queue;
+};
@@ -0,0 +1,108 @@
+/**
+ * Enumeration of security deposit lifecycle states
+ */
+export enum DepositStatus {
+  HELD = 'HELD',
+  DISPOSED = 'DISPOSED'
+}
+
+/**
+ * Enumeration of deposit ledger entry types
+ */
+export enum DepositLedgerEntryType {
+  COLLECTED = 'COLLECTED',
+  INTEREST = 'INTEREST',
+  DEDUCTION = 'DEDUCTION',
+  REFUND = 'REFUND'
+}
+
+/**
+ * Enumeration of move-out deduction categories
+ */
+export enum DeductionCategory {
+  CLEANING = 'CLEANING',
+  DAMAGE = 'DAMAGE',
+  UNPAID_RENT = 'UNPAID_RENT',
+  UNPAID_UTILITIES = 'UNPAID_UTILITIES',
+  KEYS = 'KEYS',
+  OTHER = 'OTHER'
+}
+
+/**
+ * Security deposit held in escrow for a lease
+ */
+export interface SecurityDeposit {
+  id: string;
+  leaseId: string;
+  propertyId: string;
+  tenantId: string;
+  paymentId: string;
+  amount: number;
+  currency: string;
+  /** Annual simple interest in percent */
+  interestRate: number;
+  heldSince: Date;
+  status: DepositStatus;
+  refundAmount: number | null;
+  /** Refund owed beyond the original charge, paid outside Stripe */
+  manualPayoutAmount: number | null;
+  stripeRefundId: string | null;
+  statementSha256: string | null;
+  disposedAt: Date | null;
+  disposedBy: string | null;
+  version: number;
+  openedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Signed ledger entry; credits are positive and debits negative
+ */
+export interface DepositLedgerEntry {
+  id: string;
+  depositId: string;
+  type: DepositLedgerEntryType;
+  amount: number;
+  description: string;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Photo metadata attached to a deduction
+ */
+export interface DeductionPhoto {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+/**
+ * Itemized move-out deduction
+ */
+export interface DepositDeduction {
+  id: string;
+  depositId: string;
+  category: DeductionCategory;
+  description: string;
+  amount: number;
+  createdBy: string;
+  createdAt: Date;
+  photos: DeductionPhoto[];
+}
+
+/**
+ * Deposit with its ledger, pending deductions and current balance
+ */
+export interface DepositLedger {
+  deposit: SecurityDeposit;
+  entries: DepositLedgerEntry[];
+  deductions: DepositDeduction[];
+  /** Sum of posted ledger entries */
+  balance: number;
+  /** Interest earned but not yet posted to the ledger */
+  unpostedInterest: number;
+}
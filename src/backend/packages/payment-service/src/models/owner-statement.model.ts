@@ -0,0 +1,94 @@
+/**
+ * Enumeration of owner statement line categories
+ */
+export enum OwnerStatementCategory {
+  RENT = 'RENT',
+  LATE_FEE = 'LATE_FEE',
+  REFUND = 'REFUND',
+  /** Processing fees and commissions withheld from collections */
+  FEE = 'FEE',
+  MAINTENANCE = 'MAINTENANCE'
+}
+
+/**
+ * Enumeration of statement export formats
+ */
+export enum OwnerStatementFormat {
+  PDF = 'pdf',
+  CSV = 'csv'
+}
+
+/**
+ * Money in and out of an owner's properties over a period
+ */
+export interface OwnerFinancials {
+  /** Rent and late fees collected */
+  rentCollected: number;
+  refunds: number;
+  fees: number;
+  maintenanceSpend: number;
+  /** Collected less refunds, fees and maintenance */
+  net: number;
+}
+
+/**
+ * Occupancy of an owner's units
+ */
+export interface OwnerOccupancy {
+  totalUnits: number;
+  occupiedUnits: number;
+  /** Occupied share of units in percent */
+  occupancyRate: number;
+}
+
+/**
+ * Property shown on the owner dashboard and statements
+ */
+export interface OwnerPropertySummary extends OwnerFinancials, OwnerOccupancy {
+  propertyId: string;
+  name: string;
+}
+
+/**
+ * Read-only overview of an owner's portfolio for a period
+ */
+export interface OwnerDashboard {
+  ownerId: string;
+  periodStart: Date;
+  /** Exclusive end of the period */
+  periodEnd: Date;
+  properties: OwnerPropertySummary[];
+  occupancy: OwnerOccupancy;
+  totals: OwnerFinancials;
+}
+
+/**
+ * Signed statement line; income is positive and deductions negative
+ */
+export interface OwnerStatementLine {
+  date: Date;
+  propertyId: string;
+  propertyName: string;
+  category: OwnerStatementCategory;
+  description: string;
+  amount: number;
+  /** Payment transaction or maintenance request the line came from */
+  reference: string;
+}
+
+/**
+ * Monthly owner statement
+ */
+export interface OwnerStatement {
+  ownerId: string;
+  ownerName: string;
+  year: number;
+  /** Calendar month, 1-12 */
+  month: number;
+  periodStart: Date;
+  periodEnd: Date;
+  properties: OwnerPropertySummary[];
+  totals: OwnerFinancials;
+  lines: OwnerStatementLine[];
+  generatedAt: Date;
+}
@@ -104,7 +104,10 @@ const PaymentSchema = new Schema<IPayment>(
     },
     stripePaymentMethodId: {
       type: String,
-      required: true,
+      // Rent invoices are issued before the tenant chooses how to pay
+      required: function (this: IPayment) {
+        return this.status !== PaymentStatus.PENDING;
+      },
       select: false // PCI compliance - restricted field access
     },
     stripeCustomerId: {
@@ -0,0 +1,70 @@
+/**
+ * Enumeration of supported late-fee rules
+ */
+export enum LateFeeType {
+  FLAT = 'FLAT',
+  PERCENTAGE = 'PERCENTAGE',
+  DAILY = 'DAILY'
+}
+
+/**
+ * Enumeration of rent reminders tracked on each rent payment
+ */
+export enum RentReminderType {
+  UPCOMING = 'upcoming',
+  OVERDUE = 'overdue',
+  LATE_FEE = 'late_fee'
+}
+
+/**
+ * Per-property rent billing policy
+ */
+export interface RentBillingPolicy {
+  propertyId: string;
+  /** Day of month rent is due (1-28) */
+  dueDay: number;
+  /** Days after the due date before a late fee applies */
+  gracePeriodDays: number;
+  lateFeeType: LateFeeType;
+  /** Dollars for FLAT and DAILY rules, percent of rent for PERCENTAGE */
+  lateFeeAmount: number;
+  /** Maximum total late fee per rent payment */
+  lateFeeCap: number | null;
+  reminderDaysBefore: number;
+}
+
+/**
+ * Active lease billed by the rent engine
+ */
+export interface Tenancy {
+  leaseId: string;
+  propertyId: string;
+  unitId: string;
+  tenantId: string;
+  tenantEmail: string;
+  tenantName: string;
+  monthlyRent: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Calendar month billed as a single rent charge
+ */
+export interface BillingPeriod {
+  /** Period key in YYYY-MM format */
+  key: string;
+  start: Date;
+  /** Exclusive end of the period */
+  end: Date;
+  dueDate: Date;
+}
+
+/**
+ * Outcome of a billing engine run
+ */
+export interface BillingRunSummary {
+  invoicesCreated: number;
+  lateFeesAssessed: number;
+  remindersSent: number;
+}
@@ -0,0 +1,457 @@
+import { injectable } from 'inversify';
+import { Logger } from 'winston';
+import { Pool, PoolClient } from 'pg'; // v8.11.0
+import { BaseError, HTTP_STATUS, NotFoundError } from '@projectx/common';
+import {
+  DeductionCategory,
+  DeductionPhoto,
+  DepositDeduction,
+  DepositLedgerEntry,
+  DepositLedgerEntryType,
+  DepositStatus,
+  SecurityDeposit
+} from '../models/deposit.model';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Lease details needed to open and report on a deposit
+ */
+export interface DepositLeaseContext {
+  leaseId: string;
+  applicationId: string;
+  propertyId: string;
+  propertyName: string;
+  unitNumber: string;
+  tenantId: string | null;
+  tenantName: string | null;
+  ownerId: string;
+  propertyManagerId: string | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Uploaded deduction photo
+ */
+export interface DeductionPhotoUpload {
+  fileName: string;
+  mimeType: string;
+  size: number;
+  content: Buffer;
+}
+
+/**
+ * Ledger entry to post at disposition
+ */
+export type NewLedgerEntry = Pick<DepositLedgerEntry, 'type' | 'amount' | 'description'>;
+
+/**
+ * Repository for security deposit ledgers, deductions and dispositions
+ */
+@injectable()
+export class DepositRepository {
+  constructor(
+    private readonly logger: Logger,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Retrieves the lease, property and primary tenant for a deposit
+   * @throws {NotFoundError} If the lease does not exist
+   */
+  public async findLeaseContext(leaseId: string): Promise<DepositLeaseContext> {
+    const { rows: [row] } = await this.pool.query(
+      `SELECT l.id, l.application_id, l.property_id, l.start_date::text AS start_date,
+              l.end_date::text AS end_date, p.name AS property_name, p.owner_id,
+              p.property_manager_id, u.unit_number, tenant.user_id AS tenant_id,
+              TRIM(CONCAT(up.first_name, ' ', up.last_name)) AS tenant_name
+       FROM leases l
+       JOIN properties p ON p.id = l.property_id
+       JOIN units u ON u.id = l.unit_id
+       LEFT JOIN LATERAL (
+         SELECT lp.user_id FROM lease_parties lp
+         WHERE lp.lease_id = l.id AND lp.role = 'TENANT'
+         ORDER BY lp.created_at
+         LIMIT 1
+       ) tenant ON TRUE
+       LEFT JOIN user_profiles up ON up.user_id = tenant.user_id
+       WHERE l.id = $1 AND l.deleted_at IS NULL`,
+      [leaseId]
+    );
+
+    if (!row) {
+      throw new NotFoundError('Lease not found');
+    }
+
+    return {
+      leaseId: row.id,
+      applicationId: row.application_id,
+      propertyId: row.property_id,
+      propertyName: row.property_name,
+      unitNumber: row.unit_number,
+      tenantId: row.tenant_id,
+      tenantName: row.tenant_name || null,
+      ownerId: row.owner_id,
+      propertyManagerId: row.property_manager_id,
+      startDate: new Date(row.start_date),
+      endDate: new Date(row.end_date)
+    };
+  }
+
+  /**
+   * Opens a deposit ledger with its collection entry
+   * @throws {BaseError} 409 if the lease or payment already has a ledger
+   */
+  public async createDeposit(
+    deposit: Pick<SecurityDeposit,
+      'leaseId' | 'propertyId' | 'tenantId' | 'paymentId' | 'amount' | 'currency' |
+      'interestRate' | 'heldSince' | 'openedBy'>
+  ): Promise<SecurityDeposit> {
+    return this.withTransaction(async (client) => {
+      const { rows: [row] } = await client.query(
+        `INSERT INTO security_deposits (
+           lease_id, property_id, tenant_id, payment_id, amount, currency,
+           interest_rate, held_since, opened_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          deposit.leaseId,
+          deposit.propertyId,
+          deposit.tenantId,
+          deposit.paymentId,
+          deposit.amount,
+          deposit.currency,
+          deposit.interestRate,
+          deposit.heldSince,
+          deposit.openedBy
+        ]
+      );
+
+      await this.insertEntries(client, row.id, [{
+        type: DepositLedgerEntryType.COLLECTED,
+        amount: deposit.amount,
+        description: 'Security deposit collected'
+      }], deposit.openedBy);
+
+      return this.mapDeposit(row);
+    }).catch((error) => {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new BaseError('A deposit ledger already exists for this lease', HTTP_STATUS.CONFLICT, {}, 'CONFLICT');
+      }
+      throw error;
+    });
+  }
+
+  public async findById(id: string): Promise<SecurityDeposit | null> {
+    const { rows: [row] } = await this.pool.query('SELECT * FROM security_deposits WHERE id = $1', [id]);
+    return row ? this.mapDeposit(row) : null;
+  }
+
+  public async findByLeaseId(leaseId: string): Promise<SecurityDeposit | null> {
+    const { rows: [row] } = await this.pool.query('SELECT * FROM security_deposits WHERE lease_id = $1', [leaseId]);
+    return row ? this.mapDeposit(row) : null;
+  }
+
+  /**
+   * Retrieves held deposits that earn interest
+   */
+  public async findInterestBearing(): Promise<SecurityDeposit[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM security_deposits WHERE status = $1 AND interest_rate > 0',
+      [DepositStatus.HELD]
+    );
+    return rows.map((row) => this.mapDeposit(row));
+  }
+
+  public async findEntries(depositId: string): Promise<DepositLedgerEntry[]> {
+    const { rows } = await this.pool.query(
+      'SELECT * FROM security_deposit_ledger WHERE deposit_id = $1 ORDER BY created_at, id',
+      [depositId]
+    );
+    return rows.map((row) => this.mapEntry(row));
+  }
+
+  /**
+   * Retrieves deductions with photo metadata, excluding photo content
+   */
+  public async findDeductions(depositId: string): Promise<DepositDeduction[]> {
+    const { rows } = await this.pool.query(
+      `SELECT d.*,
+              COALESCE(json_agg(json_build_object(
+                'id', ph.id, 'fileName', ph.file_name, 'mimeType', ph.mime_type,
+                'size', ph.size, 'uploadedAt', ph.uploaded_at
+              ) ORDER BY ph.uploaded_at) FILTER (WHERE ph.id IS NOT NULL), '[]') AS photos
+       FROM security_deposit_deductions d
+       LEFT JOIN security_deposit_deduction_photos ph ON ph.deduction_id = d.id
+       WHERE d.deposit_id = $1
+       GROUP BY d.id
+       ORDER BY d.created_at`,
+      [depositId]
+    );
+    return rows.map((row) => this.mapDeduction(row));
+  }
+
+  /**
+   * Posts accrued interest, guarded by the deposit version
+   * @returns Whether the entry was posted
+   */
+  public async postInterest(deposit: SecurityDeposit, amount: number, description: string): Promise<boolean> {
+    return this.withTransaction(async (client) => {
+      const { rowCount } = await client.query(
+        `UPDATE security_deposits SET version = version + 1, updated_at = NOW()
+         WHERE id = $1 AND version = $2 AND status = $3`,
+        [deposit.id, deposit.version, DepositStatus.HELD]
+      );
+      if (rowCount === 0) {
+        return false;
+      }
+
+      await this.insertEntries(client, deposit.id, [{
+        type: DepositLedgerEntryType.INTEREST,
+        amount,
+        description
+      }], null);
+      return true;
+    });
+  }
+
+  /**
+   * Adds an itemized deduction with its photos
+   */
+  public async createDeduction(
+    deduction: Pick<DepositDeduction, 'depositId' | 'category' | 'description' | 'amount' | 'createdBy'>,
+    photos: readonly DeductionPhotoUpload[]
+  ): Promise<DepositDeduction> {
+    const id = await this.withTransaction(async (client) => {
+      await this.touchHeldDeposit(client, deduction.depositId);
+
+      const { rows: [row] } = await client.query(
+        `INSERT INTO security_deposit_deductions (deposit_id, category, description, amount, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id`,
+        [deduction.depositId, deduction.category, deduction.description, deduction.amount, deduction.createdBy]
+      );
+
+      for (const photo of photos) {
+        await client.query(
+          `INSERT INTO security_deposit_deduction_photos
+             (deduction_id, mime_type, file_name, size, content, uploaded_by)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [row.id, photo.mimeType, photo.fileName, photo.size, photo.content, deduction.createdBy]
+        );
+      }
+
+      return row.id as string;
+    });
+
+    this.logger.info('Deposit deduction recorded', {
+      depositId: deduction.depositId,
+      deductionId: id,
+      photoCount: photos.length
+    });
+
+    const deductions = await this.findDeductions(deduction.depositId);
+    return deductions.find((item) => item.id === id)!;
+  }
+
+  /**
+   * Removes a deduction from a held deposit
+   * @returns Whether a deduction was removed
+   */
+  public async deleteDeduction(depositId: string, deductionId: string): Promise<boolean> {
+    return this.withTransaction(async (client) => {
+      await this.touchHeldDeposit(client, depositId);
+
+      const { rowCount } = await client.query(
+        'DELETE FROM security_deposit_deductions WHERE id = $1 AND deposit_id = $2',
+        [deductionId, depositId]
+      );
+      return rowCount > 0;
+    });
+  }
+
+  public async findPhoto(
+    depositId: string,
+    photoId: string
+  ): Promise<(DeductionPhoto & { content: Buffer }) | null> {
+    const { rows: [row] } = await this.pool.query(
+      `SELECT ph.* FROM security_deposit_deduction_photos ph
+       JOIN security_deposit_deductions d ON d.id = ph.deduction_id
+       WHERE ph.id = $1 AND d.deposit_id = $2`,
+      [photoId, depositId]
+    );
+
+    return row ? {
+      id: row.id,
+      fileName: row.file_name,
+      mimeType: row.mime_type,
+      size: row.size,
+      uploadedAt: row.uploaded_at,
+      content: row.content
+    } : null;
+  }
+
+  /**
+   * Posts the disposition entries and closes the deposit, guarded by version
+   * @throws {BaseError} 409 if the deposit changed concurrently
+   */
+  public async recordDisposition(
+    deposit: SecurityDeposit,
+    disposition: {
+      entries: readonly NewLedgerEntry[];
+      refundAmount: number;
+      manualPayoutAmount: number;
+      statement: Buffer;
+      statementSha256: string;
+      disposedBy: string;
+    }
+  ): Promise<SecurityDeposit> {
+    return this.withTransaction(async (client) => {
+      const { rows: [row] } = await client.query(
+        `UPDATE security_deposits SET
+           status = $3, refund_amount = $4, manual_payout_amount = $5,
+           statement = $6, statement_sha256 = $7, disposed_at = NOW(), disposed_by = $8,
+           version = version + 1, updated_at = NOW()
+         WHERE id = $1 AND version = $2 AND status = $9
+         RETURNING *`,
+        [
+          deposit.id,
+          deposit.version,
+          DepositStatus.DISPOSED,
+          disposition.refundAmount,
+          disposition.manualPayoutAmount,
+          disposition.statement,
+          disposition.statementSha256,
+          disposition.disposedBy,
+          DepositStatus.HELD
+        ]
+      );
+
+      if (!row) {
+        throw new BaseError('Deposit was modified concurrently', HTTP_STATUS.CONFLICT, {}, 'CONFLICT');
+      }
+
+      await this.insertEntries(client, deposit.id, disposition.entries, disposition.disposedBy);
+      return this.mapDeposit(row);
+    });
+  }
+
+  /**
+   * Records the Stripe refund executed after disposition
+   */
+  public async setStripeRefundId(depositId: string, stripeRefundId: string): Promise<SecurityDeposit> {
+    const { rows: [row] } = await this.pool.query(
+      `UPDATE security_deposits SET stripe_refund_id = $2, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [depositId, stripeRefundId]
+    );
+    return this.mapDeposit(row);
+  }
+
+  public async findStatement(depositId: string): Promise<Buffer | null> {
+    const { rows: [row] } = await this.pool.query(
+      'SELECT statement FROM security_deposits WHERE id = $1',
+      [depositId]
+    );
+    return row?.statement || null;
+  }
+
+  /**
+   * Bumps the version of a held deposit so concurrent dispositions fail
+   * @throws {BaseError} 409 if the deposit has already been disposed
+   */
+  private async touchHeldDeposit(client: PoolClient, depositId: string): Promise<void> {
+    const { rowCount } = await client.query(
+      `UPDATE security_deposits SET version = version + 1, updated_at = NOW()
+       WHERE id = $1 AND status = $2`,
+      [depositId, DepositStatus.HELD]
+    );
+    if (rowCount === 0) {
+      throw new BaseError('Deposit has already been disposed', HTTP_STATUS.CONFLICT, {}, 'CONFLICT');
+    }
+  }
+
+  private async insertEntries(
+    client: PoolClient,
+    depositId: string,
+    entries: readonly NewLedgerEntry[],
+    createdBy: string | null
+  ): Promise<void> {
+    for (const entry of entries) {
+      await client.query(
+        `INSERT INTO security_deposit_ledger (deposit_id, type, amount, description, created_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [depositId, entry.type, entry.amount, entry.description, createdBy]
+      );
+    }
+  }
+
+  private async withTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapDeposit(row: any): SecurityDeposit {
+    return {
+      id: row.id,
+      leaseId: row.lease_id,
+      propertyId: row.property_id,
+      tenantId: row.tenant_id,
+      paymentId: row.payment_id,
+      amount: Number(row.amount),
+      currency: row.currency,
+      interestRate: Number(row.interest_rate),
+      heldSince: row.held_since,
+      status: row.status as DepositStatus,
+      refundAmount: row.refund_amount === null ? null : Number(row.refund_amount),
+      manualPayoutAmount: row.manual_payout_amount === null ? null : Number(row.manual_payout_amount),
+      stripeRefundId: row.stripe_refund_id,
+      statementSha256: row.statement_sha256,
+      disposedAt: row.disposed_at,
+      disposedBy: row.disposed_by,
+      version: row.version,
+      openedBy: row.opened_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapEntry(row: any): DepositLedgerEntry {
+    return {
+      id: row.id,
+      depositId: row.deposit_id,
+      type: row.type as DepositLedgerEntryType,
+      amount: Number(row.amount),
+      description: row.description,
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapDeduction(row: any): DepositDeduction {
+    return {
+      id: row.id,
+      depositId: row.deposit_id,
+      category: row.category as DeductionCategory,
+      description: row.description,
+      amount: Number(row.amount),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      photos: row.photos
+    };
+  }
+}
+
+export default DepositRepository;
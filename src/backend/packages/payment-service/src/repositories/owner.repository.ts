@@ -0,0 +1,129 @@
+import { injectable } from 'inversify';
+import { Logger } from 'winston';
+import { Pool } from 'pg'; // v8.11.0
+import { NotFoundError } from '@projectx/common';
+
+/**
+ * Owner named on statements
+ */
+export interface OwnerAccount {
+  ownerId: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Owned property with unit occupancy
+ */
+export interface OwnedProperty {
+  propertyId: string;
+  name: string;
+  totalUnits: number;
+  occupiedUnits: number;
+}
+
+/**
+ * Completed maintenance with a recorded vendor cost
+ */
+export interface MaintenanceExpense {
+  requestId: string;
+  propertyId: string;
+  title: string;
+  vendorName: string | null;
+  cost: number;
+  completedAt: Date;
+}
+
+/**
+ * Read-only repository for owner portfolios and maintenance spend
+ */
+@injectable()
+export class OwnerRepository {
+  constructor(
+    private readonly logger: Logger,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Retrieves the owner's name and email
+   * @throws {NotFoundError} If the user does not exist
+   */
+  public async findOwner(ownerId: string): Promise<OwnerAccount> {
+    const { rows: [row] } = await this.pool.query(
+      `SELECT u.id, u.email, TRIM(CONCAT(up.first_name, ' ', up.last_name)) AS name
+       FROM users u
+       LEFT JOIN user_profiles up ON up.user_id = u.id
+       WHERE u.id = $1`,
+      [ownerId]
+    );
+
+    if (!row) {
+      throw new NotFoundError('Owner not found');
+    }
+
+    return { ownerId: row.id, email: row.email, name: row.name || row.email };
+  }
+
+  /**
+   * Retrieves the owner's properties with units under an active lease today
+   */
+  public async findProperties(ownerId: string): Promise<OwnedProperty[]> {
+    const { rows } = await this.pool.query(
+      `SELECT p.id, p.name,
+              COUNT(u.id) AS total_units,
+              COUNT(u.id) FILTER (WHERE EXISTS (
+                SELECT 1 FROM leases l
+                WHERE l.unit_id = u.id AND l.status = 'ACTIVE' AND l.deleted_at IS NULL
+                  AND l.start_date <= CURRENT_DATE AND l.end_date >= CURRENT_DATE
+              )) AS occupied_units
+       FROM properties p
+       LEFT JOIN units u ON u.property_id = p.id AND u.deleted_at IS NULL
+       WHERE p.owner_id = $1 AND p.deleted_at IS NULL
+       GROUP BY p.id, p.name
+       ORDER BY p.name`,
+      [ownerId]
+    );
+
+    this.logger.debug('Loaded owner properties', { ownerId, count: rows.length });
+
+    return rows.map((row) => ({
+      propertyId: row.id,
+      name: row.name,
+      totalUnits: Number(row.total_units),
+      occupiedUnits: Number(row.occupied_units)
+    }));
+  }
+
+  /**
+   * Retrieves maintenance completed with a cost in [from, to)
+   */
+  public async findMaintenanceExpenses(
+    propertyIds: string[],
+    from: Date,
+    to: Date
+  ): Promise<MaintenanceExpense[]> {
+    if (!propertyIds.length) {
+      return [];
+    }
+
+    const { rows } = await this.pool.query(
+      `SELECT id, property_id, title, vendor_name, cost, completed_at
+       FROM maintenance_requests
+       WHERE property_id = ANY($1) AND status = 'COMPLETED' AND cost IS NOT NULL
+         AND completed_at >= $2 AND completed_at < $3
+       ORDER BY completed_at`,
+      [propertyIds, from, to]
+    );
+
+    return rows.map((row) => ({
+      requestId: row.id,
+      propertyId: row.property_id,
+      title: row.title,
+      vendorName: row.vendor_name,
+      cost: Number(row.cost),
+      completedAt: row.completed_at
+    }));
+  }
+}
+
+export default OwnerRepository;
@@ -0,0 +1,158 @@
+import { injectable } from 'inversify';
+import { Logger } from 'winston';
+import { Pool } from 'pg'; // v8.11.0
+import { NotFoundError } from '@projectx/common';
+import { LateFeeType, RentBillingPolicy, Tenancy } from '../models/rent-billing.model';
+
+/**
+ * Property ownership used for billing policy access checks
+ */
+export interface PropertyStaff {
+  ownerId: string;
+  propertyManagerId: string | null;
+}
+
+/**
+ * Repository reading active tenancies and rent billing policies from the
+ * relational store shared with application-service
+ */
+@injectable()
+export class RentBillingRepository {
+  constructor(
+    private readonly logger: Logger,
+    private readonly pool: Pool
+  ) {}
+
+  /**
+   * Retrieves every active lease with its primary tenant
+   */
+  public async findActiveTenancies(): Promise<Tenancy[]> {
+    const { rows } = await this.pool.query(
+      // Dates are read as ISO strings so they parse as UTC midnight
+      `SELECT l.id, l.property_id, l.unit_id, l.monthly_rent,
+              l.start_date::text AS start_date, l.end_date::text AS end_date,
+              tenant.user_id AS tenant_id, u.email AS tenant_email,
+              TRIM(CONCAT(up.first_name, ' ', up.last_name)) AS tenant_name
+       FROM leases l
+       JOIN LATERAL (
+         SELECT lp.user_id FROM lease_parties lp
+         WHERE lp.lease_id = l.id AND lp.role = 'TENANT'
+         ORDER BY lp.created_at
+         LIMIT 1
+       ) tenant ON TRUE
+       JOIN users u ON u.id = tenant.user_id
+       LEFT JOIN user_profiles up ON up.user_id = tenant.user_id
+       WHERE l.status = 'ACTIVE' AND l.deleted_at IS NULL`
+    );
+
+    this.logger.debug('Loaded active tenancies for billing', { count: rows.length });
+    return rows.map((row) => this.mapTenancy(row));
+  }
+
+  /**
+   * Retrieves billing policies for the given properties keyed by property ID
+   */
+  public async findPolicies(propertyIds: string[]): Promise<Map<string, RentBillingPolicy>> {
+    if (!propertyIds.length) {
+      return new Map();
+    }
+
+    const { rows } = await this.pool.query(
+      'SELECT * FROM rent_billing_policies WHERE property_id = ANY($1::uuid[])',
+      [propertyIds]
+    );
+
+    return new Map(rows.map((row) => [row.property_id, this.mapPolicy(row)]));
+  }
+
+  /**
+   * Retrieves a property's billing policy, if one is configured
+   */
+  public async findPolicy(propertyId: string): Promise<RentBillingPolicy | null> {
+    const { rows: [row] } = await this.pool.query(
+      'SELECT * FROM rent_billing_policies WHERE property_id = $1',
+      [propertyId]
+    );
+    return row ? this.mapPolicy(row) : null;
+  }
+
+  /**
+   * Creates or replaces a property's billing policy
+   */
+  public async upsertPolicy(policy: RentBillingPolicy, updatedBy: string): Promise<RentBillingPolicy> {
+    const { rows: [row] } = await this.pool.query(
+      `INSERT INTO rent_billing_policies (
+         property_id, due_day, grace_period_days, late_fee_type,
+         late_fee_amount, late_fee_cap, reminder_days_before, updated_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (property_id) DO UPDATE SET
+         due_day = EXCLUDED.due_day,
+         grace_period_days = EXCLUDED.grace_period_days,
+         late_fee_type = EXCLUDED.late_fee_type,
+         late_fee_amount = EXCLUDED.late_fee_amount,
+         late_fee_cap = EXCLUDED.late_fee_cap,
+         reminder_days_before = EXCLUDED.reminder_days_before,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        policy.propertyId,
+        policy.dueDay,
+        policy.gracePeriodDays,
+        policy.lateFeeType,
+        policy.lateFeeAmount,
+        policy.lateFeeCap,
+        policy.reminderDaysBefore,
+        updatedBy
+      ]
+    );
+
+    this.logger.info('Rent billing policy saved', { propertyId: policy.propertyId, updatedBy });
+    return this.mapPolicy(row);
+  }
+
+  /**
+   * Retrieves the owner and manager of a property
+   * @throws {NotFoundError} If the property does not exist
+   */
+  public async findPropertyStaff(propertyId: string): Promise<PropertyStaff> {
+    const { rows: [row] } = await this.pool.query(
+      'SELECT owner_id, property_manager_id FROM properties WHERE id = $1',
+      [propertyId]
+    );
+
+    if (!row) {
+      throw new NotFoundError('Property not found');
+    }
+
+    return { ownerId: row.owner_id, propertyManagerId: row.property_manager_id };
+  }
+
+  private mapTenancy(row: any): Tenancy {
+    return {
+      leaseId: row.id,
+      propertyId: row.property_id,
+      unitId: row.unit_id,
+      tenantId: row.tenant_id,
+      tenantEmail: row.tenant_email,
+      tenantName: row.tenant_name || row.tenant_email,
+      monthlyRent: Number(row.monthly_rent),
+      startDate: new Date(row.start_date),
+      endDate: new Date(row.end_date)
+    };
+  }
+
+  private mapPolicy(row: any): RentBillingPolicy {
+    return {
+      propertyId: row.property_id,
+      dueDay: row.due_day,
+      gracePeriodDays: row.grace_period_days,
+      lateFeeType: row.late_fee_type as LateFeeType,
+      lateFeeAmount: Number(row.late_fee_amount),
+      lateFeeCap: row.late_fee_cap === null ? null : Number(row.late_fee_cap),
+      reminderDaysBefore: row.reminder_days_before
+    };
+  }
+}
+
+export default RentBillingRepository;
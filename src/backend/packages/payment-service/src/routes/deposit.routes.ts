@@ -0,0 +1,279 @@
+import { Router, Request } from 'express'; // v4.18.x
+import multer from 'multer'; // v1.4.5-lts.1
+import {
+  authenticate,
+  validate,
+  rateLimit,
+  auditLog,
+  monitor
+} from '@projectx/common'; // v1.0.x
+import { DepositService, DepositActor } from '../services/deposit.service';
+import { DeductionCategory } from '../models/deposit.model';
+import { depositConfig } from '../config';
+
+// Deduction photos are held in memory and persisted by the repository
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: depositConfig.maxPhotoSize, files: depositConfig.maxPhotos }
+});
+
+/**
+ * Extracts the acting user for deposit access checks
+ */
+const getDepositActor = (req: Request): DepositActor => ({
+  userId: req.user.id,
+  role: req.user.role
+});
+
+/**
+ * Configures security deposit ledger, deduction and disposition endpoints
+ */
+export const configureDepositRoutes = (depositService: DepositService): Router => {
+  const router = Router();
+
+  router.use(authenticate({
+    requireApiKey: true,
+    validateToken: true
+  }));
+
+  const rateLimitConfig = {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 100,
+    message: 'Too many deposit requests, please try again later'
+  };
+
+  /**
+   * Open the escrow ledger for a lease's captured deposit
+   * POST /api/v1/payments/deposits
+   */
+  router.post('/',
+    validate({
+      body: {
+        leaseId: { type: 'string', required: true },
+        interestRate: { type: 'number', min: 0, max: 100, optional: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 20 }),
+    auditLog('deposit_open'),
+    monitor('deposit_open'),
+    async (req, res, next) => {
+      try {
+        const ledger = await depositService.openDeposit(
+          req.body.leaseId,
+          req.body.interestRate ?? 0,
+          getDepositActor(req)
+        );
+        res.status(201).json(ledger);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Get the deposit ledger for a lease
+   * GET /api/v1/payments/deposits/lease/:leaseId
+   */
+  router.get('/lease/:leaseId',
+    validate({
+      params: {
+        leaseId: { type: 'string', required: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('deposit_ledger_retrieval'),
+    async (req, res, next) => {
+      try {
+        const ledger = await depositService.getLedgerForLease(req.params.leaseId, getDepositActor(req));
+        res.status(200).json(ledger);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Get a deposit ledger with entries and pending deductions
+   * GET /api/v1/payments/deposits/:id
+   */
+  router.get('/:id',
+    validate({
+      params: {
+        id: { type: 'string', required: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('deposit_ledger_retrieval'),
+    async (req, res, next) => {
+      try {
+        const ledger = await depositService.getLedger(req.params.id, getDepositActor(req));
+        res.status(200).json(ledger);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Add an itemized deduction with optional photos
+   * POST /api/v1/payments/deposits/:id/deductions
+   */
+  router.post('/:id/deductions',
+    upload.array('photos', depositConfig.maxPhotos),
+    validate({
+      params: {
+        id: { type: 'string', required: true }
+      },
+      body: {
+        category: { type: 'string', enum: Object.values(DeductionCategory), required: true },
+        description: { type: 'string', maxLength: 2000, required: true },
+        amount: { type: 'string', required: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 50 }),
+    auditLog('deposit_deduction_create'),
+    monitor('deposit_deduction_create'),
+    async (req, res, next) => {
+      try {
+        const files = (req.files as Express.Multer.File[]) || [];
+        const deduction = await depositService.addDeduction(req.params.id, {
+          category: req.body.category,
+          description: req.body.description,
+          // Multipart fields arrive as strings
+          amount: Number(req.body.amount)
+        }, files.map((file) => ({
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          content: file.buffer
+        })), getDepositActor(req));
+        res.status(201).json(deduction);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Remove a deduction before disposition
+   * DELETE /api/v1/payments/deposits/:id/deductions/:deductionId
+   */
+  router.delete('/:id/deductions/:deductionId',
+    validate({
+      params: {
+        id: { type: 'string', required: true },
+        deductionId: { type: 'string', required: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 50 }),
+    auditLog('deposit_deduction_delete'),
+    monitor('deposit_deduction_delete'),
+    async (req, res, next) => {
+      try {
+        await depositService.removeDeduction(req.params.id, req.params.deductionId, getDepositActor(req));
+        res.status(204).send();
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Download a deduction photo
+   * GET /api/v1/payments/deposits/:id/photos/:photoId
+   */
+  router.get('/:id/photos/:photoId',
+    validate({
+      params: {
+        id: { type: 'string', required: true },
+        photoId: { type: 'string', required: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('deposit_photo_retrieval'),
+    async (req, res, next) => {
+      try {
+        const photo = await depositService.getDeductionPhoto(req.params.id, req.params.photoId, getDepositActor(req));
+        res.setHeader('Content-Type', photo.mimeType);
+        res.setHeader('Content-Disposition', `inline; filename="${photo.fileName}"`);
+        res.status(200).send(photo.content);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Close the deposit, issue the statement and refund the remainder
+   * POST /api/v1/payments/deposits/:id/disposition
+   */
+  router.post('/:id/disposition',
+    validate({
+      params: {
+        id: { type: 'string', required: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 10 }),
+    auditLog('deposit_disposition'),
+    monitor('deposit_disposition'),
+    async (req, res, next) => {
+      try {
+        const deposit = await depositService.disposeDeposit(req.params.id, getDepositActor(req));
+        res.status(200).json(deposit);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Retry a pending Stripe refund after disposition
+   * POST /api/v1/payments/deposits/:id/refund
+   */
+  router.post('/:id/refund',
+    validate({
+      params: {
+        id: { type: 'string', required: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 10 }),
+    auditLog('deposit_refund_retry'),
+    monitor('deposit_refund_retry'),
+    async (req, res, next) => {
+      try {
+        const deposit = await depositService.retryRefund(req.params.id, getDepositActor(req));
+        res.status(200).json(deposit);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Download the disposition statement
+   * GET /api/v1/payments/deposits/:id/statement
+   */
+  router.get('/:id/statement',
+    validate({
+      params: {
+        id: { type: 'string', required: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('deposit_statement_retrieval'),
+    async (req, res, next) => {
+      try {
+        const statement = await depositService.getStatement(req.params.id, getDepositActor(req));
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="deposit-statement-${req.params.id}.pdf"`);
+        res.status(200).send(statement);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+export default configureDepositRoutes;
@@ -0,0 +1,121 @@
+import { Router, Request } from 'express'; // v4.18.x
+import {
+  authenticate,
+  validate,
+  rateLimit,
+  monitor
+} from '@projectx/common'; // v1.0.x
+import { OwnerService, OwnerActor } from '../services/owner.service';
+import { OwnerStatementFormat } from '../models/owner-statement.model';
+
+/**
+ * Extracts the acting user for owner access checks
+ */
+const getOwnerActor = (req: Request): OwnerActor => ({
+  userId: req.user.id,
+  role: req.user.role
+});
+
+/**
+ * Owner being reported on; admins may pass another owner's ID
+ */
+const getOwnerId = (req: Request): string =>
+  (req.query.ownerId as string) || req.user.id;
+
+const parseDate = (value: unknown): Date | undefined =>
+  value ? new Date(value as string) : undefined;
+
+/**
+ * Configures read-only owner dashboard and statement endpoints
+ */
+export const configureOwnerRoutes = (ownerService: OwnerService): Router => {
+  const router = Router();
+
+  router.use(authenticate({
+    requireApiKey: true,
+    validateToken: true
+  }));
+
+  const rateLimitConfig = {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 100,
+    message: 'Too many owner portal requests, please try again later'
+  };
+
+  /**
+   * Portfolio occupancy and financials for a period
+   * GET /api/v1/payments/owners/dashboard
+   */
+  router.get('/dashboard',
+    validate({
+      query: {
+        ownerId: { type: 'string', optional: true },
+        from: { type: 'date', optional: true },
+        to: { type: 'date', optional: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('owner_dashboard_retrieval'),
+    async (req, res, next) => {
+      try {
+        const dashboard = await ownerService.getDashboard(
+          getOwnerId(req),
+          getOwnerActor(req),
+          parseDate(req.query.from),
+          parseDate(req.query.to)
+        );
+        res.status(200).json(dashboard);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Monthly statement as JSON, or as a PDF or CSV download with ?format=
+   * GET /api/v1/payments/owners/statements/:year/:month
+   */
+  router.get('/statements/:year/:month',
+    validate({
+      params: {
+        year: { type: 'number', min: 2000, required: true },
+        month: { type: 'number', min: 1, max: 12, required: true }
+      },
+      query: {
+        ownerId: { type: 'string', optional: true },
+        format: { type: 'string', enum: Object.values(OwnerStatementFormat), optional: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 30 }),
+    monitor('owner_statement_retrieval'),
+    async (req, res, next) => {
+      try {
+        const year = parseInt(req.params.year, 10);
+        const month = parseInt(req.params.month, 10);
+
+        if (!req.query.format) {
+          const statement = await ownerService.getStatement(getOwnerId(req), year, month, getOwnerActor(req));
+          res.status(200).json(statement);
+          return;
+        }
+
+        const file = await ownerService.renderStatement(
+          getOwnerId(req),
+          year,
+          month,
+          req.query.format as OwnerStatementFormat,
+          getOwnerActor(req)
+        );
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+        res.status(200).send(file.content);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+export default configureOwnerRoutes;
@@ -0,0 +1,119 @@
+import { Router, Request } from 'express'; // v4.18.x
+import {
+  authenticate,
+  validate,
+  rateLimit,
+  auditLog,
+  monitor,
+  ForbiddenError
+} from '@projectx/common'; // v1.0.x
+import { RentBillingService, BillingActor } from '../services/rent-billing.service';
+import { LateFeeType } from '../models/rent-billing.model';
+
+/**
+ * Extracts the acting user for billing policy access checks
+ */
+const getBillingActor = (req: Request): BillingActor => ({
+  userId: req.user.id,
+  role: req.user.role
+});
+
+/**
+ * Configures rent billing policy and billing run endpoints
+ */
+export const configureRentBillingRoutes = (rentBillingService: RentBillingService): Router => {
+  const router = Router();
+
+  router.use(authenticate({
+    requireApiKey: true,
+    validateToken: true
+  }));
+
+  const rateLimitConfig = {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 100,
+    message: 'Too many billing requests, please try again later'
+  };
+
+  /**
+   * Get a property's rent billing policy
+   * GET /api/v1/payments/billing/policies/:propertyId
+   */
+  router.get('/policies/:propertyId',
+    validate({
+      params: {
+        propertyId: { type: 'string', required: true }
+      }
+    }),
+    rateLimit(rateLimitConfig),
+    monitor('billing_policy_retrieval'),
+    async (req, res, next) => {
+      try {
+        const policy = await rentBillingService.getPolicy(req.params.propertyId, getBillingActor(req));
+        res.status(200).json(policy);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Replace a property's rent billing policy
+   * PUT /api/v1/payments/billing/policies/:propertyId
+   */
+  router.put('/policies/:propertyId',
+    validate({
+      params: {
+        propertyId: { type: 'string', required: true }
+      },
+      body: {
+        dueDay: { type: 'number', min: 1, max: 28, required: true },
+        gracePeriodDays: { type: 'number', min: 0, required: true },
+        lateFeeType: { type: 'string', enum: Object.values(LateFeeType), required: true },
+        lateFeeAmount: { type: 'number', min: 0, required: true },
+        lateFeeCap: { type: 'number', min: 0.01, optional: true },
+        reminderDaysBefore: { type: 'number', min: 0, required: true }
+      }
+    }),
+    rateLimit({ ...rateLimitConfig, max: 20 }),
+    auditLog('billing_policy_update'),
+    monitor('billing_policy_update'),
+    async (req, res, next) => {
+      try {
+        const policy = await rentBillingService.updatePolicy(
+          req.params.propertyId,
+          req.body,
+          getBillingActor(req)
+        );
+        res.status(200).json(policy);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * Trigger a billing cycle outside the schedule
+   * POST /api/v1/payments/billing/runs
+   */
+  router.post('/runs',
+    rateLimit({ ...rateLimitConfig, max: 5 }),
+    auditLog('billing_run'),
+    monitor('billing_run'),
+    async (req, res, next) => {
+      try {
+        if (req.user.role !== 'ADMIN') {
+          throw new ForbiddenError('Only administrators can trigger billing runs');
+        }
+        const summary = await rentBillingService.runBillingCycle();
+        res.status(200).json(summary);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+};
+
+export default configureRentBillingRoutes;
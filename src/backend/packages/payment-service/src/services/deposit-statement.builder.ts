@@ -0,0 +1,92 @@
+import PDFDocument from 'pdfkit'; // pdfkit v0.13.0
+import { DepositDeduction, SecurityDeposit } from '../models/deposit.model';
+import { DepositLeaseContext } from '../repositories/deposit.repository';
+
+const DEDUCTION_CATEGORY_LABELS: Record<string, string> = {
+  CLEANING: 'Cleaning',
+  DAMAGE: 'Damage',
+  UNPAID_RENT: 'Unpaid rent',
+  UNPAID_UTILITIES: 'Unpaid utilities',
+  KEYS: 'Keys and locks',
+  OTHER: 'Other'
+};
+
+/**
+ * Figures shown on a disposition statement
+ */
+export interface DispositionTotals {
+  interest: number;
+  deductions: number;
+  refund: number;
+  /** Portion of the refund paid outside the original payment method */
+  manualPayout: number;
+}
+
+const formatAmount = (amount: number): string => `$${amount.toFixed(2)}`;
+
+/**
+ * Renders the itemized move-out disposition statement sent to the tenant
+ */
+export const buildDispositionStatement = (
+  deposit: SecurityDeposit,
+  lease: DepositLeaseContext,
+  deductions: readonly DepositDeduction[],
+  totals: DispositionTotals,
+  issuedAt: Date
+): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 50,
+      info: { Title: `Security Deposit Disposition ${deposit.id}` }
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text('Security Deposit Disposition Statement', { align: 'center' }).moveDown();
+    doc.fontSize(11)
+      .text(`Statement date: ${issuedAt.toDateString()}`)
+      .text(`Property: ${lease.propertyName}, unit ${lease.unitNumber}`)
+      .text(`Tenant: ${lease.tenantName || deposit.tenantId}`)
+      .text(`Lease term: ${lease.startDate.toDateString()} - ${lease.endDate.toDateString()}`)
+      .moveDown();
+
+    doc.fontSize(14).text('Deposit').moveDown(0.5);
+    doc.fontSize(11)
+      .text(`Deposit received ${new Date(deposit.heldSince).toDateString()}: ${formatAmount(deposit.amount)}`)
+      .text(`Interest earned (${deposit.interestRate}% annual): ${formatAmount(totals.interest)}`)
+      .moveDown();
+
+    doc.fontSize(14).text('Itemized deductions').moveDown(0.5);
+    if (!deductions.length) {
+      doc.fontSize(11).text('No deductions were made.');
+    }
+    for (const deduction of deductions) {
+      doc.fontSize(11).text(
+        `${DEDUCTION_CATEGORY_LABELS[deduction.category]}: ${formatAmount(deduction.amount)}`
+      );
+      doc.fontSize(9).text(deduction.description);
+      if (deduction.photos.length) {
+        doc.text(`${deduction.photos.length} supporting photo(s) on file`);
+      }
+      doc.moveDown(0.5);
+    }
+    doc.fontSize(11).text(`Total deductions: ${formatAmount(totals.deductions)}`).moveDown();
+
+    doc.fontSize(14).text('Refund').moveDown(0.5);
+    doc.fontSize(11).text(`Amount returned to tenant: ${formatAmount(totals.refund)}`);
+    if (totals.refund > 0) {
+      doc.text(`Refunded to the original payment method: ${formatAmount(totals.refund - totals.manualPayout)}`);
+    }
+    if (totals.manualPayout > 0) {
+      doc.text(`Paid separately by the property manager: ${formatAmount(totals.manualPayout)}`);
+    }
+
+    doc.moveDown(2).fontSize(8).text(`Deposit reference: ${deposit.id}`);
+
+    doc.end();
+  });
+};
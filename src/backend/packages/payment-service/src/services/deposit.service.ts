@@ -0,0 +1,510 @@
+import { injectable } from 'inversify'; // v6.x
+import { Logger } from 'winston'; // v3.x
+import { createHash } from 'crypto';
+import {
+  BadRequestError,
+  BaseError,
+  ForbiddenError,
+  HTTP_STATUS,
+  NotFoundError
+} from '@projectx/common';
+import { NotificationClient } from '@projectx/common/clients';
+import { IPayment, Payment, PaymentStatus, PaymentType } from '../models/payment.model';
+import { TransactionModel, TransactionStatus, TransactionType } from '../models/transaction.model';
+import {
+  DeductionCategory,
+  DeductionPhoto,
+  DepositDeduction,
+  DepositLedger,
+  DepositLedgerEntryType,
+  DepositStatus,
+  SecurityDeposit
+} from '../models/deposit.model';
+import {
+  DeductionPhotoUpload,
+  DepositLeaseContext,
+  DepositRepository,
+  NewLedgerEntry
+} from '../repositories/deposit.repository';
+import { StripeService } from './stripe.service';
+import { buildDispositionStatement } from './deposit-statement.builder';
+import { daysBetween } from './rent-billing.calculator';
+import { depositConfig, notificationConfig } from '../config';
+
+const DAYS_PER_YEAR = 365;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * User acting on a deposit ledger
+ */
+export interface DepositActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Itemized deduction submitted by property staff
+ */
+export interface CreateDeductionInput {
+  category: DeductionCategory;
+  description: string;
+  amount: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumAmounts = (items: readonly { amount: number }[]): number =>
+  roundCurrency(items.reduce((total, item) => total + item.amount, 0));
+
+/**
+ * Total simple interest earned on a deposit from the day it was received
+ * @param deposit - Deposit principal, annual rate and receipt date
+ * @param asOf - Accrual date
+ */
+export const calculateAccruedInterest = (
+  deposit: Pick<SecurityDeposit, 'amount' | 'interestRate' | 'heldSince'>,
+  asOf: Date
+): number => {
+  const days = Math.max(0, daysBetween(new Date(deposit.heldSince), asOf));
+  return roundCurrency(deposit.amount * (deposit.interestRate / 100) * days / DAYS_PER_YEAR);
+};
+
+/**
+ * Service managing security deposit escrow from collection through the
+ * move-out disposition and refund
+ */
+@injectable()
+export class DepositService {
+  constructor(
+    private readonly repository: DepositRepository,
+    private readonly stripeService: StripeService,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Opens the escrow ledger for a lease from its captured deposit payment
+   * @param leaseId - Lease identifier
+   * @param interestRate - Annual interest rate in percent where required, otherwise 0
+   * @param actor - Acting property staff
+   * @throws {BadRequestError} If no captured deposit payment exists
+   */
+  public async openDeposit(leaseId: string, interestRate: number, actor: DepositActor): Promise<DepositLedger> {
+    const lease = await this.repository.findLeaseContext(leaseId);
+    this.assertPropertyStaff(lease, actor);
+
+    if (!(interestRate >= 0 && interestRate <= 100)) {
+      throw new BadRequestError('Interest rate must be between 0 and 100 percent');
+    }
+
+    const payment = await Payment.findOne({
+      type: PaymentType.SECURITY_DEPOSIT,
+      status: PaymentStatus.CAPTURED,
+      $or: [{ applicationId: lease.applicationId }, { 'metadata.leaseId': leaseId }]
+    }).lean<IPayment & { _id: string; createdAt: Date }>();
+
+    if (!payment) {
+      throw new BadRequestError('No captured security deposit payment found for this lease');
+    }
+
+    const deposit = await this.repository.createDeposit({
+      leaseId,
+      propertyId: lease.propertyId,
+      // The payer receives the refund
+      tenantId: payment.userId,
+      paymentId: String(payment._id),
+      amount: payment.amount,
+      currency: payment.currency,
+      interestRate,
+      heldSince: payment.paidDate || payment.createdAt,
+      openedBy: actor.userId
+    });
+
+    this.logger.info('Security deposit ledger opened', {
+      depositId: deposit.id,
+      leaseId,
+      amount: deposit.amount
+    });
+
+    return this.buildLedger(deposit);
+  }
+
+  /**
+   * Retrieves a deposit ledger for property staff or the tenant
+   */
+  public async getLedger(depositId: string, actor: DepositActor): Promise<DepositLedger> {
+    const deposit = await this.requireDeposit(depositId);
+    await this.assertCanView(deposit, actor);
+    return this.buildLedger(deposit);
+  }
+
+  /**
+   * Retrieves the deposit ledger for a lease
+   */
+  public async getLedgerForLease(leaseId: string, actor: DepositActor): Promise<DepositLedger> {
+    const deposit = await this.repository.findByLeaseId(leaseId);
+    if (!deposit) {
+      throw new NotFoundError('No deposit ledger exists for this lease');
+    }
+    await this.assertCanView(deposit, actor);
+    return this.buildLedger(deposit);
+  }
+
+  /**
+   * Posts interest earned since the last posting on every interest-bearing deposit
+   * @param now - Accrual date
+   * @returns Number of deposits credited
+   */
+  public async accrueInterest(now: Date = new Date()): Promise<number> {
+    const deposits = await this.repository.findInterestBearing();
+
+    let credited = 0;
+    for (const deposit of deposits) {
+      try {
+        if (await this.postAccruedInterest(deposit, now)) {
+          credited++;
+        }
+      } catch (error) {
+        this.logger.error('Failed to accrue deposit interest', {
+          error: error.message,
+          depositId: deposit.id
+        });
+      }
+    }
+
+    this.logger.info('Deposit interest accrual completed', { deposits: deposits.length, credited });
+    return credited;
+  }
+
+  /**
+   * Adds an itemized move-out deduction with supporting photos
+   * @throws {BadRequestError} If the deduction is invalid or exceeds the remaining balance
+   */
+  public async addDeduction(
+    depositId: string,
+    input: CreateDeductionInput,
+    photos: readonly DeductionPhotoUpload[],
+    actor: DepositActor
+  ): Promise<DepositDeduction> {
+    const deposit = await this.requireHeldDeposit(depositId);
+    this.assertPropertyStaff(await this.repository.findLeaseContext(deposit.leaseId), actor);
+    this.validateDeduction(input, photos);
+
+    const ledger = await this.buildLedger(deposit);
+    const available = roundCurrency(ledger.balance + ledger.unpostedInterest - sumAmounts(ledger.deductions));
+    if (input.amount > available) {
+      throw new BadRequestError(`Deductions cannot exceed the remaining deposit balance of $${available.toFixed(2)}`);
+    }
+
+    return this.repository.createDeduction({
+      depositId,
+      category: input.category,
+      description: input.description.trim(),
+      amount: roundCurrency(input.amount),
+      createdBy: actor.userId
+    }, photos);
+  }
+
+  /**
+   * Removes a deduction before the deposit is disposed
+   */
+  public async removeDeduction(depositId: string, deductionId: string, actor: DepositActor): Promise<void> {
+    const deposit = await this.requireHeldDeposit(depositId);
+    this.assertPropertyStaff(await this.repository.findLeaseContext(deposit.leaseId), actor);
+
+    if (!await this.repository.deleteDeduction(depositId, deductionId)) {
+      throw new NotFoundError('Deduction not found');
+    }
+  }
+
+  /**
+   * Retrieves a deduction photo for property staff or the tenant
+   */
+  public async getDeductionPhoto(
+    depositId: string,
+    photoId: string,
+    actor: DepositActor
+  ): Promise<DeductionPhoto & { content: Buffer }> {
+    const deposit = await this.requireDeposit(depositId);
+    await this.assertCanView(deposit, actor);
+
+    const photo = await this.repository.findPhoto(depositId, photoId);
+    if (!photo) {
+      throw new NotFoundError('Photo not found');
+    }
+    return photo;
+  }
+
+  /**
+   * Closes the deposit at move-out: posts final interest and deductions,
+   * issues the disposition statement and refunds the remainder through Stripe.
+   * A failed Stripe refund leaves the disposition recorded with the refund
+   * pending so it can be retried.
+   * @throws {BaseError} 409 if the deposit was already disposed
+   */
+  public async disposeDeposit(depositId: string, actor: DepositActor): Promise<SecurityDeposit> {
+    let deposit = await this.requireHeldDeposit(depositId);
+    const lease = await this.repository.findLeaseContext(deposit.leaseId);
+    this.assertPropertyStaff(lease, actor);
+
+    const now = new Date();
+    if (await this.postAccruedInterest(deposit, now)) {
+      deposit = await this.requireHeldDeposit(depositId);
+    }
+
+    const [entries, deductions] = await Promise.all([
+      this.repository.findEntries(depositId),
+      this.repository.findDeductions(depositId)
+    ]);
+
+    const balance = sumAmounts(entries);
+    const totalDeductions = sumAmounts(deductions);
+    if (totalDeductions > balance) {
+      throw new BadRequestError('Deductions exceed the deposit balance');
+    }
+
+    const refund = roundCurrency(balance - totalDeductions);
+    // Stripe cannot refund more than the original charge; interest beyond it is paid separately
+    const manualPayout = roundCurrency(Math.max(0, refund - deposit.amount));
+    const statement = await buildDispositionStatement(deposit, lease, deductions, {
+      interest: sumAmounts(entries.filter((entry) => entry.type === DepositLedgerEntryType.INTEREST)),
+      deductions: totalDeductions,
+      refund,
+      manualPayout
+    }, now);
+
+    const dispositionEntries: NewLedgerEntry[] = deductions.map((deduction) => ({
+      type: DepositLedgerEntryType.DEDUCTION,
+      amount: -deduction.amount,
+      description: `${deduction.category}: ${deduction.description}`
+    }));
+    if (refund > 0) {
+      dispositionEntries.push({
+        type: DepositLedgerEntryType.REFUND,
+        amount: -refund,
+        description: 'Refund to tenant'
+      });
+    }
+
+    deposit = await this.repository.recordDisposition(deposit, {
+      entries: dispositionEntries,
+      refundAmount: refund,
+      manualPayoutAmount: manualPayout,
+      statement,
+      statementSha256: createHash('sha256').update(statement).digest('hex'),
+      disposedBy: actor.userId
+    });
+
+    this.logger.info('Security deposit disposed', {
+      depositId,
+      deductions: totalDeductions,
+      refund,
+      manualPayout
+    });
+
+    if (refund - manualPayout > 0) {
+      try {
+        deposit = await this.executeRefund(deposit);
+      } catch (error) {
+        this.logger.error('Deposit refund failed; disposition recorded with refund pending', {
+          error: error.message,
+          depositId
+        });
+      }
+    }
+
+    await this.notificationClient.notify({
+      userId: deposit.tenantId,
+      templateId: notificationConfig.templates.depositDisposition,
+      subject: 'Your security deposit statement',
+      body: refund > 0
+        ? `Your security deposit has been settled. $${refund.toFixed(2)} will be returned to you; the itemized statement is attached.`
+        : 'Your security deposit has been settled. The itemized statement is attached.',
+      data: { depositId, leaseId: deposit.leaseId, refund, deductions: totalDeductions },
+      attachments: [{
+        filename: 'security-deposit-statement.pdf',
+        content: statement.toString('base64'),
+        contentType: 'application/pdf'
+      }]
+    });
+
+    return deposit;
+  }
+
+  /**
+   * Retries the Stripe refund of a disposed deposit whose refund is pending
+   * @throws {BadRequestError} If no refund is pending
+   */
+  public async retryRefund(depositId: string, actor: DepositActor): Promise<SecurityDeposit> {
+    const deposit = await this.requireDeposit(depositId);
+    this.assertPropertyStaff(await this.repository.findLeaseContext(deposit.leaseId), actor);
+
+    const refundable = roundCurrency((deposit.refundAmount || 0) - (deposit.manualPayoutAmount || 0));
+    if (deposit.status !== DepositStatus.DISPOSED || deposit.stripeRefundId || refundable <= 0) {
+      throw new BadRequestError('No refund is pending for this deposit');
+    }
+
+    return this.executeRefund(deposit);
+  }
+
+  /**
+   * Retrieves the disposition statement PDF
+   */
+  public async getStatement(depositId: string, actor: DepositActor): Promise<Buffer> {
+    const deposit = await this.requireDeposit(depositId);
+    await this.assertCanView(deposit, actor);
+
+    const statement = await this.repository.findStatement(depositId);
+    if (!statement) {
+      throw new NotFoundError('No disposition statement has been issued for this deposit');
+    }
+    return statement;
+  }
+
+  /**
+   * Refunds the disposed amount to the original deposit charge. The
+   * idempotency key is fixed per deposit so retries cannot refund twice.
+   */
+  private async executeRefund(deposit: SecurityDeposit): Promise<SecurityDeposit> {
+    const amount = roundCurrency((deposit.refundAmount || 0) - (deposit.manualPayoutAmount || 0));
+
+    const charge = await TransactionModel.findOne({
+      paymentId: deposit.paymentId,
+      type: TransactionType.AUTHORIZATION,
+      status: TransactionStatus.COMPLETED
+    }).select('+stripeTransactionId').lean<{ stripeTransactionId?: string }>();
+
+    if (!charge?.stripeTransactionId) {
+      throw new BadRequestError('Deposit payment has no Stripe charge to refund');
+    }
+
+    const refund = await this.stripeService.createRefund({
+      paymentIntentId: charge.stripeTransactionId,
+      amount,
+      idempotencyKey: `deposit_refund_${deposit.id}`,
+      metadata: { depositId: deposit.id, leaseId: deposit.leaseId }
+    });
+
+    const transaction = new TransactionModel({
+      paymentId: deposit.paymentId,
+      type: TransactionType.REFUND,
+      status: TransactionStatus.COMPLETED,
+      amount,
+      currency: deposit.currency,
+      stripeTransactionId: refund.id,
+      description: 'Security deposit disposition refund',
+      metadata: { depositId: deposit.id }
+    });
+    await transaction.save();
+
+    await Payment.updateOne({ _id: deposit.paymentId }, {
+      $set: {
+        'metadata.refundedAmount': amount,
+        ...(amount >= deposit.amount ? { status: PaymentStatus.REFUNDED } : {})
+      },
+      $push: {
+        auditLog: {
+          action: 'deposit_refunded',
+          timestamp: new Date(),
+          details: { depositId: deposit.id, refundId: refund.id, amount }
+        }
+      }
+    });
+
+    return this.repository.setStripeRefundId(deposit.id, refund.id);
+  }
+
+  /**
+   * Posts interest earned since the last posting
+   * @returns Whether an interest entry was posted
+   */
+  private async postAccruedInterest(deposit: SecurityDeposit, now: Date): Promise<boolean> {
+    if (deposit.interestRate <= 0) {
+      return false;
+    }
+
+    const entries = await this.repository.findEntries(deposit.id);
+    const posted = sumAmounts(entries.filter((entry) => entry.type === DepositLedgerEntryType.INTEREST));
+    const due = roundCurrency(calculateAccruedInterest(deposit, now) - posted);
+    if (due <= 0) {
+      return false;
+    }
+
+    return this.repository.postInterest(
+      deposit,
+      due,
+      `Interest at ${deposit.interestRate}% through ${now.toISOString().slice(0, 10)}`
+    );
+  }
+
+  private async buildLedger(deposit: SecurityDeposit): Promise<DepositLedger> {
+    const [entries, deductions] = await Promise.all([
+      this.repository.findEntries(deposit.id),
+      this.repository.findDeductions(deposit.id)
+    ]);
+
+    const posted = sumAmounts(entries.filter((entry) => entry.type === DepositLedgerEntryType.INTEREST));
+
+    return {
+      deposit,
+      entries,
+      deductions,
+      balance: sumAmounts(entries),
+      unpostedInterest: deposit.status === DepositStatus.HELD
+        ? Math.max(0, roundCurrency(calculateAccruedInterest(deposit, new Date()) - posted))
+        : 0
+    };
+  }
+
+  private validateDeduction(input: CreateDeductionInput, photos: readonly DeductionPhotoUpload[]): void {
+    if (!Object.values(DeductionCategory).includes(input.category)) {
+      throw new BadRequestError('Unsupported deduction category');
+    }
+    if (!input.description?.trim() || input.description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new BadRequestError('Deduction description is required');
+    }
+    if (!(input.amount > 0)) {
+      throw new BadRequestError('Deduction amount must be greater than 0');
+    }
+    if (photos.length > depositConfig.maxPhotos) {
+      throw new BadRequestError(`At most ${depositConfig.maxPhotos} photos may be attached`);
+    }
+    for (const photo of photos) {
+      if (!depositConfig.allowedPhotoTypes.includes(photo.mimeType) || photo.size > depositConfig.maxPhotoSize) {
+        throw new BadRequestError(`Unsupported or oversized photo: ${photo.fileName}`);
+      }
+    }
+  }
+
+  private async requireDeposit(depositId: string): Promise<SecurityDeposit> {
+    const deposit = await this.repository.findById(depositId);
+    if (!deposit) {
+      throw new NotFoundError('Deposit not found');
+    }
+    return deposit;
+  }
+
+  private async requireHeldDeposit(depositId: string): Promise<SecurityDeposit> {
+    const deposit = await this.requireDeposit(depositId);
+    if (deposit.status !== DepositStatus.HELD) {
+      throw new BaseError('Deposit has already been disposed', HTTP_STATUS.CONFLICT, {}, 'CONFLICT');
+    }
+    return deposit;
+  }
+
+  private async assertCanView(deposit: SecurityDeposit, actor: DepositActor): Promise<void> {
+    if (actor.userId === deposit.tenantId) {
+      return;
+    }
+    this.assertPropertyStaff(await this.repository.findLeaseContext(deposit.leaseId), actor);
+  }
+
+  private assertPropertyStaff(lease: DepositLeaseContext, actor: DepositActor): void {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+    if (actor.userId !== lease.ownerId && actor.userId !== lease.propertyManagerId) {
+      throw new ForbiddenError('Only property staff can manage security deposits');
+    }
+  }
+}
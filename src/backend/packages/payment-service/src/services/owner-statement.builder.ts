@@ -0,0 +1,119 @@
+import PDFDocument from 'pdfkit'; // pdfkit v0.13.0
+import {
+  OwnerFinancials,
+  OwnerStatement,
+  OwnerStatementCategory
+} from '../models/owner-statement.model';
+
+const CATEGORY_LABELS: Record<OwnerStatementCategory, string> = {
+  [OwnerStatementCategory.RENT]: 'Rent',
+  [OwnerStatementCategory.LATE_FEE]: 'Late fee',
+  [OwnerStatementCategory.REFUND]: 'Refund',
+  [OwnerStatementCategory.FEE]: 'Processing fee',
+  [OwnerStatementCategory.MAINTENANCE]: 'Maintenance'
+};
+
+const CSV_HEADER = ['Date', 'Property', 'Category', 'Description', 'Amount', 'Reference'];
+
+const formatAmount = (amount: number): string =>
+  amount < 0 ? `-$${Math.abs(amount).toFixed(2)}` : `$${amount.toFixed(2)}`;
+
+const formatDate = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Quotes a CSV cell and neutralizes leading characters spreadsheets would
+ * evaluate as a formula
+ */
+const csvCell = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Statement heading, e.g. "March 2024"
+ */
+export const formatStatementPeriod = (statement: Pick<OwnerStatement, 'year' | 'month'>): string =>
+  new Date(Date.UTC(statement.year, statement.month - 1, 1))
+    .toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const writeFinancials = (doc: PDFKit.PDFDocument, financials: OwnerFinancials): void => {
+  doc.text(`Rent collected: ${formatAmount(financials.rentCollected)}`)
+    .text(`Refunds: ${formatAmount(-financials.refunds)}`)
+    .text(`Fees: ${formatAmount(-financials.fees)}`)
+    .text(`Maintenance: ${formatAmount(-financials.maintenanceSpend)}`)
+    .text(`Net: ${formatAmount(financials.net)}`);
+};
+
+/**
+ * Renders the monthly owner statement as a PDF
+ */
+export const buildOwnerStatementPdf = (statement: OwnerStatement): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const period = formatStatementPeriod(statement);
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 50,
+      info: { Title: `Owner Statement ${period}` }
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text('Owner Statement', { align: 'center' }).moveDown(0.5);
+    doc.fontSize(12).text(period, { align: 'center' }).moveDown();
+    doc.fontSize(11)
+      .text(`Owner: ${statement.ownerName}`)
+      .text(`Generated: ${statement.generatedAt.toDateString()}`)
+      .moveDown();
+
+    doc.fontSize(14).text('Summary').moveDown(0.5);
+    doc.fontSize(11);
+    writeFinancials(doc, statement.totals);
+    doc.moveDown();
+
+    for (const property of statement.properties) {
+      doc.fontSize(14).text(property.name).moveDown(0.5);
+      doc.fontSize(11).text(
+        `Occupancy: ${property.occupiedUnits} of ${property.totalUnits} units (${property.occupancyRate}%)`
+      );
+      writeFinancials(doc, property);
+
+      const lines = statement.lines.filter((line) => line.propertyId === property.propertyId);
+      if (lines.length) {
+        doc.moveDown(0.5).fontSize(9);
+        for (const line of lines) {
+          doc.text(
+            `${formatDate(line.date)}  ${CATEGORY_LABELS[line.category]}  ${line.description}  ${formatAmount(line.amount)}`
+          );
+        }
+      }
+      doc.moveDown();
+    }
+
+    if (!statement.properties.length) {
+      doc.fontSize(11).text('No properties are registered to this owner.');
+    }
+
+    doc.moveDown(2).fontSize(8).text(`Owner reference: ${statement.ownerId}`);
+
+    doc.end();
+  });
+};
+
+/**
+ * Renders the statement lines as CSV for accounting software
+ */
+export const buildOwnerStatementCsv = (statement: OwnerStatement): string => {
+  const rows = statement.lines.map((line) => [
+    formatDate(line.date),
+    csvCell(line.propertyName),
+    CATEGORY_LABELS[line.category],
+    csvCell(line.description),
+    line.amount.toFixed(2),
+    line.reference
+  ].join(','));
+
+  return [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,323 @@
+import { injectable } from 'inversify'; // v6.x
+import { Logger } from 'winston'; // v3.x
+import { BadRequestError, ForbiddenError } from '@projectx/common';
+import { Payment, PaymentType } from '../models/payment.model';
+import { TransactionModel, TransactionStatus, TransactionType } from '../models/transaction.model';
+import {
+  OwnerDashboard,
+  OwnerFinancials,
+  OwnerOccupancy,
+  OwnerPropertySummary,
+  OwnerStatement,
+  OwnerStatementCategory,
+  OwnerStatementFormat,
+  OwnerStatementLine
+} from '../models/owner-statement.model';
+import { OwnedProperty, OwnerRepository } from '../repositories/owner.repository';
+import { buildOwnerStatementCsv, buildOwnerStatementPdf } from './owner-statement.builder';
+import { ownerConfig } from '../config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deposits are escrowed for the tenant and application fees belong to the platform
+const OWNER_INCOME_PAYMENT_TYPES = [PaymentType.RENT, PaymentType.LATE_FEE];
+
+const STATEMENT_TRANSACTION_TYPES = [
+  TransactionType.CAPTURE,
+  TransactionType.REFUND,
+  TransactionType.FEE,
+  TransactionType.COMMISSION
+];
+
+/**
+ * User viewing an owner dashboard or statement
+ */
+export interface OwnerActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Rendered statement file
+ */
+export interface OwnerStatementFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Totals statement lines into rent collected, refunds, fees and maintenance
+ * @param lines - Signed statement lines
+ */
+export const summarizeStatementLines = (lines: readonly OwnerStatementLine[]): OwnerFinancials => {
+  const total = (...categories: OwnerStatementCategory[]) => roundCurrency(Math.abs(
+    lines
+      .filter((line) => categories.includes(line.category))
+      .reduce((sum, line) => sum + line.amount, 0)
+  ));
+
+  const rentCollected = total(OwnerStatementCategory.RENT, OwnerStatementCategory.LATE_FEE);
+  const refunds = total(OwnerStatementCategory.REFUND);
+  const fees = total(OwnerStatementCategory.FEE);
+  const maintenanceSpend = total(OwnerStatementCategory.MAINTENANCE);
+
+  return {
+    rentCollected,
+    refunds,
+    fees,
+    maintenanceSpend,
+    net: roundCurrency(rentCollected - refunds - fees - maintenanceSpend)
+  };
+};
+
+const toOccupancy = (totalUnits: number, occupiedUnits: number): OwnerOccupancy => ({
+  totalUnits,
+  occupiedUnits,
+  occupancyRate: totalUnits ? Math.round(occupiedUnits / totalUnits * 1000) / 10 : 0
+});
+
+/**
+ * Read-only owner portal: portfolio dashboard and monthly statements built
+ * from payment transactions and completed maintenance
+ */
+@injectable()
+export class OwnerService {
+  constructor(
+    private readonly repository: OwnerRepository,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Builds the dashboard for a period, month to date by default
+   * @param ownerId - Owner to report on; only admins may view other owners
+   * @param actor - Acting user
+   * @param from - Inclusive period start
+   * @param to - Exclusive period end
+   */
+  public async getDashboard(
+    ownerId: string,
+    actor: OwnerActor,
+    from?: Date,
+    to?: Date
+  ): Promise<OwnerDashboard> {
+    this.assertCanView(ownerId, actor);
+
+    const now = new Date();
+    const periodStart = from || new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const periodEnd = to || now;
+
+    if (Number.isNaN(periodStart.getTime()) || Number.isNaN(periodEnd.getTime()) || periodStart >= periodEnd) {
+      throw new BadRequestError('Dashboard period must start before it ends');
+    }
+    if (periodEnd.getTime() - periodStart.getTime() > ownerConfig.maxDashboardRangeDays * DAY_MS) {
+      throw new BadRequestError(`Dashboard period cannot exceed ${ownerConfig.maxDashboardRangeDays} days`);
+    }
+
+    const properties = await this.repository.findProperties(ownerId);
+    const lines = await this.collectLines(properties, periodStart, periodEnd);
+    const summaries = this.summarizeProperties(properties, lines);
+
+    return {
+      ownerId,
+      periodStart,
+      periodEnd,
+      properties: summaries,
+      occupancy: toOccupancy(
+        properties.reduce((sum, property) => sum + property.totalUnits, 0),
+        properties.reduce((sum, property) => sum + property.occupiedUnits, 0)
+      ),
+      totals: summarizeStatementLines(lines)
+    };
+  }
+
+  /**
+   * Builds the statement for a calendar month
+   * @param ownerId - Owner to report on; only admins may view other owners
+   * @param year - Statement year
+   * @param month - Statement month, 1-12
+   * @param actor - Acting user
+   * @throws {BadRequestError} If the month is invalid or has not started
+   */
+  public async getStatement(
+    ownerId: string,
+    year: number,
+    month: number,
+    actor: OwnerActor
+  ): Promise<OwnerStatement> {
+    this.assertCanView(ownerId, actor);
+
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new BadRequestError('Statement month must be a valid year and month');
+    }
+
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+    const periodEnd = new Date(Date.UTC(year, month, 1));
+    const generatedAt = new Date();
+    if (periodStart > generatedAt) {
+      throw new BadRequestError('Statements are not available for future months');
+    }
+
+    const owner = await this.repository.findOwner(ownerId);
+    const properties = await this.repository.findProperties(ownerId);
+    const lines = await this.collectLines(properties, periodStart, periodEnd);
+
+    this.logger.info('Owner statement generated', { ownerId, year, month, lines: lines.length });
+
+    return {
+      ownerId,
+      ownerName: owner.name,
+      year,
+      month,
+      periodStart,
+      periodEnd,
+      properties: this.summarizeProperties(properties, lines),
+      totals: summarizeStatementLines(lines),
+      lines,
+      generatedAt
+    };
+  }
+
+  /**
+   * Renders a monthly statement as PDF or CSV
+   */
+  public async renderStatement(
+    ownerId: string,
+    year: number,
+    month: number,
+    format: OwnerStatementFormat,
+    actor: OwnerActor
+  ): Promise<OwnerStatementFile> {
+    if (!Object.values(OwnerStatementFormat).includes(format)) {
+      throw new BadRequestError('Statement format must be pdf or csv');
+    }
+
+    const statement = await this.getStatement(ownerId, year, month, actor);
+    const baseName = `owner-statement-${year}-${String(month).padStart(2, '0')}`;
+
+    if (format === OwnerStatementFormat.CSV) {
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        content: Buffer.from(buildOwnerStatementCsv(statement), 'utf8')
+      };
+    }
+
+    return {
+      fileName: `${baseName}.pdf`,
+      contentType: 'application/pdf',
+      content: await buildOwnerStatementPdf(statement)
+    };
+  }
+
+  /**
+   * Collects rent, late fee, refund and fee transactions completed in the
+   * period together with maintenance spend, oldest first
+   */
+  private async collectLines(
+    properties: readonly OwnedProperty[],
+    from: Date,
+    to: Date
+  ): Promise<OwnerStatementLine[]> {
+    if (!properties.length) {
+      return [];
+    }
+
+    const propertyNames = new Map(properties.map((property) => [property.propertyId, property.name]));
+    const propertyIds = Array.from(propertyNames.keys());
+
+    const payments = await Payment.find({
+      propertyId: { $in: propertyIds },
+      type: { $in: OWNER_INCOME_PAYMENT_TYPES }
+    }).select('_id propertyId type').lean<Array<{ _id: unknown; propertyId: string; type: PaymentType }>>();
+
+    const paymentsById = new Map(payments.map((payment) => [String(payment._id), payment]));
+
+    const transactions = paymentsById.size
+      ? await TransactionModel.find({
+        paymentId: { $in: Array.from(paymentsById.keys()) },
+        type: { $in: STATEMENT_TRANSACTION_TYPES },
+        status: TransactionStatus.COMPLETED,
+        createdAt: { $gte: from, $lt: to }
+      }).lean<Array<{ _id: unknown; paymentId: string; type: TransactionType; amount: number; createdAt: Date }>>()
+      : [];
+
+    const lines: OwnerStatementLine[] = transactions.map((transaction) => {
+      const payment = paymentsById.get(transaction.paymentId)!;
+      const propertyName = propertyNames.get(payment.propertyId)!;
+      const isLateFee = payment.type === PaymentType.LATE_FEE;
+
+      switch (transaction.type) {
+        case TransactionType.CAPTURE:
+          return {
+            date: transaction.createdAt,
+            propertyId: payment.propertyId,
+            propertyName,
+            category: isLateFee ? OwnerStatementCategory.LATE_FEE : OwnerStatementCategory.RENT,
+            description: isLateFee ? 'Late fee collected' : 'Rent collected',
+            amount: transaction.amount,
+            reference: String(transaction._id)
+          };
+        case TransactionType.REFUND:
+          return {
+            date: transaction.createdAt,
+            propertyId: payment.propertyId,
+            propertyName,
+            category: OwnerStatementCategory.REFUND,
+            description: isLateFee ? 'Late fee refunded' : 'Rent refunded',
+            amount: -transaction.amount,
+            reference: String(transaction._id)
+          };
+        default:
+          return {
+            date: transaction.createdAt,
+            propertyId: payment.propertyId,
+            propertyName,
+            category: OwnerStatementCategory.FEE,
+            description: transaction.type === TransactionType.COMMISSION ? 'Commission' : 'Processing fee',
+            amount: -transaction.amount,
+            reference: String(transaction._id)
+          };
+      }
+    });
+
+    const expenses = await this.repository.findMaintenanceExpenses(propertyIds, from, to);
+    for (const expense of expenses) {
+      lines.push({
+        date: expense.completedAt,
+        propertyId: expense.propertyId,
+        propertyName: propertyNames.get(expense.propertyId)!,
+        category: OwnerStatementCategory.MAINTENANCE,
+        description: expense.vendorName ? `${expense.title} (${expense.vendorName})` : expense.title,
+        amount: -expense.cost,
+        reference: expense.requestId
+      });
+    }
+
+    return lines.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  private summarizeProperties(
+    properties: readonly OwnedProperty[],
+    lines: readonly OwnerStatementLine[]
+  ): OwnerPropertySummary[] {
+    return properties.map((property) => ({
+      propertyId: property.propertyId,
+      name: property.name,
+      ...toOccupancy(property.totalUnits, property.occupiedUnits),
+      ...summarizeStatementLines(lines.filter((line) => line.propertyId === property.propertyId))
+    }));
+  }
+
+  /**
+   * Owners see only their own portfolio; admins may view any owner
+   */
+  private assertCanView(ownerId: string, actor: OwnerActor): void {
+    if (actor.role === 'ADMIN' || actor.userId === ownerId) {
+      return;
+    }
+    throw new ForbiddenError('Owners can only view their own properties');
+  }
+}
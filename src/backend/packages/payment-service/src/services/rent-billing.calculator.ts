@@ -0,0 +1,121 @@
+import {
+  BillingPeriod,
+  LateFeeType,
+  RentBillingPolicy,
+  Tenancy
+} from '../models/rent-billing.model';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rounds a dollar amount to whole cents
+ */
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Truncates a date to midnight UTC
+ */
+export const startOfDayUtc = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Whole days from one date to another, ignoring time of day
+ */
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDayUtc(to).getTime() - startOfDayUtc(from).getTime()) / DAY_MS);
+
+/**
+ * Builds the calendar-month billing period containing the given date
+ * @param date - Any date within the period
+ * @param dueDay - Day of month rent is due
+ */
+export const getBillingPeriod = (date: Date, dueDay: number): BillingPeriod => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  return {
+    key: `${year}-${String(month + 1).padStart(2, '0')}`,
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+    dueDate: new Date(Date.UTC(year, month, dueDay))
+  };
+};
+
+/**
+ * Calculates the rent charge for a period, prorated by the days the lease
+ * covers when it starts or ends mid-month
+ * @returns Charge amount and due date, or null when the lease does not cover the period
+ */
+export const calculateRentCharge = (
+  tenancy: Pick<Tenancy, 'monthlyRent' | 'startDate' | 'endDate'>,
+  period: BillingPeriod
+): { amount: number; dueDate: Date; prorated: boolean } | null => {
+  const leaseStart = startOfDayUtc(tenancy.startDate);
+  // Lease end dates are inclusive
+  const leaseEnd = new Date(startOfDayUtc(tenancy.endDate).getTime() + DAY_MS);
+
+  const coveredStart = leaseStart > period.start ? leaseStart : period.start;
+  const coveredEnd = leaseEnd < period.end ? leaseEnd : period.end;
+  const coveredDays = daysBetween(coveredStart, coveredEnd);
+
+  if (coveredDays <= 0) {
+    return null;
+  }
+
+  const periodDays = daysBetween(period.start, period.end);
+  const prorated = coveredDays < periodDays;
+
+  return {
+    amount: roundCurrency(prorated ? tenancy.monthlyRent * coveredDays / periodDays : tenancy.monthlyRent),
+    // Move-in after the due day is billed on the move-in date
+    dueDate: coveredStart > period.dueDate ? coveredStart : period.dueDate,
+    prorated
+  };
+};
+
+/**
+ * Number of days a payment is late once the grace period has passed
+ */
+export const getDaysLate = (
+  policy: Pick<RentBillingPolicy, 'gracePeriodDays'>,
+  dueDate: Date,
+  now: Date
+): number => Math.max(0, daysBetween(dueDate, now) - policy.gracePeriodDays);
+
+/**
+ * Calculates the late fee owed on a rent payment under a property's policy
+ * @param policy - Property billing policy
+ * @param rentAmount - Rent payment amount
+ * @param dueDate - Rent due date
+ * @param now - Assessment time
+ * @returns Late fee amount, zero while within the grace period
+ */
+export const calculateLateFee = (
+  policy: Pick<RentBillingPolicy, 'gracePeriodDays' | 'lateFeeType' | 'lateFeeAmount' | 'lateFeeCap'>,
+  rentAmount: number,
+  dueDate: Date,
+  now: Date
+): number => {
+  const daysLate = getDaysLate(policy, dueDate, now);
+  if (daysLate === 0 || policy.lateFeeAmount <= 0) {
+    return 0;
+  }
+
+  let fee: number;
+  switch (policy.lateFeeType) {
+    case LateFeeType.PERCENTAGE:
+      fee = rentAmount * policy.lateFeeAmount / 100;
+      break;
+    case LateFeeType.DAILY:
+      fee = policy.lateFeeAmount * daysLate;
+      break;
+    default:
+      fee = policy.lateFeeAmount;
+  }
+
+  if (policy.lateFeeCap !== null) {
+    fee = Math.min(fee, policy.lateFeeCap);
+  }
+
+  return roundCurrency(fee);
+};
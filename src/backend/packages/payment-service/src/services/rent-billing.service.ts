@@ -0,0 +1,464 @@
+import { injectable } from 'inversify'; // v6.x
+import { Logger } from 'winston'; // v3.x
+import { BadRequestError, ForbiddenError } from '@projectx/common';
+import { NotificationClient } from '@projectx/common/clients';
+import {
+  IPayment,
+  Payment,
+  PaymentFrequency,
+  PaymentStatus,
+  PaymentType
+} from '../models/payment.model';
+import {
+  BillingPeriod,
+  BillingRunSummary,
+  LateFeeType,
+  RentBillingPolicy,
+  RentReminderType,
+  Tenancy
+} from '../models/rent-billing.model';
+import { RentBillingRepository } from '../repositories/rent-billing.repository';
+import { StripeService } from './stripe.service';
+import {
+  calculateLateFee,
+  calculateRentCharge,
+  daysBetween,
+  getBillingPeriod,
+  getDaysLate,
+  startOfDayUtc
+} from './rent-billing.calculator';
+import { notificationConfig, paymentConfig, rentBillingConfig } from '../config';
+
+const DUPLICATE_KEY_ERROR = 11000;
+const MAX_DUE_DAY = 28;
+const OUTSTANDING_STATUSES = [PaymentStatus.PENDING, PaymentStatus.FAILED];
+
+/**
+ * User acting on billing policies
+ */
+export interface BillingActor {
+  userId: string;
+  role: string;
+}
+
+/**
+ * Billing policy fields editable by property staff
+ */
+export type RentBillingPolicyInput = Omit<RentBillingPolicy, 'propertyId'>;
+
+/**
+ * Rent payment loaded with the Stripe customer needed to bill late fees
+ */
+type OutstandingRentPayment = IPayment & { _id: string };
+
+const formatAmount = (amount: number): string => `$${amount.toFixed(2)}`;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Billing engine issuing monthly rent invoices for active tenancies,
+ * assessing late fees and sending rent reminders
+ */
+@injectable()
+export class RentBillingService {
+  constructor(
+    private readonly repository: RentBillingRepository,
+    private readonly stripeService: StripeService,
+    private readonly notificationClient: NotificationClient,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Runs one billing cycle: issues upcoming rent invoices, then reminds and
+   * assesses late fees on outstanding rent. Safe to run repeatedly.
+   * @param now - Cycle time
+   * @returns Counts of invoices, late fees and reminders produced
+   */
+  public async runBillingCycle(now: Date = new Date()): Promise<BillingRunSummary> {
+    const summary: BillingRunSummary = { invoicesCreated: 0, lateFeesAssessed: 0, remindersSent: 0 };
+
+    const tenancies = await this.repository.findActiveTenancies();
+    const outstanding = await Payment.find({
+      type: PaymentType.RENT,
+      status: { $in: OUTSTANDING_STATUSES },
+      'metadata.leaseId': { $exists: true }
+    }).select('+stripeCustomerId').lean<OutstandingRentPayment[]>();
+
+    const policies = await this.repository.findPolicies(Array.from(new Set([
+      ...tenancies.map((tenancy) => tenancy.propertyId),
+      ...outstanding.map((payment) => payment.propertyId)
+    ])));
+
+    const customerIds = new Map<string, string>();
+    for (const tenancy of tenancies) {
+      try {
+        summary.invoicesCreated += await this.issueRentInvoices(
+          tenancy,
+          this.resolvePolicy(policies, tenancy.propertyId),
+          customerIds,
+          now
+        );
+      } catch (error) {
+        this.logger.error('Failed to issue rent invoice', {
+          error: error.message,
+          leaseId: tenancy.leaseId
+        });
+      }
+    }
+
+    for (const payment of outstanding) {
+      try {
+        const policy = this.resolvePolicy(policies, payment.propertyId);
+        summary.remindersSent += await this.sendRentReminders(payment, policy, now);
+        summary.lateFeesAssessed += await this.assessLateFee(payment, policy, now);
+      } catch (error) {
+        this.logger.error('Failed to process outstanding rent', {
+          error: error.message,
+          paymentId: payment._id
+        });
+      }
+    }
+
+    this.logger.info('Rent billing cycle completed', { ...summary, tenancies: tenancies.length });
+    return summary;
+  }
+
+  /**
+   * Retrieves a property's billing policy, falling back to the defaults
+   * @throws {ForbiddenError} If the actor does not manage the property
+   */
+  public async getPolicy(propertyId: string, actor: BillingActor): Promise<RentBillingPolicy> {
+    await this.assertPropertyStaff(propertyId, actor);
+    const policy = await this.repository.findPolicy(propertyId);
+    return policy || { propertyId, ...rentBillingConfig.defaultPolicy };
+  }
+
+  /**
+   * Replaces a property's billing policy. Applies to invoices and late fees
+   * produced from the next billing cycle onwards.
+   * @throws {BadRequestError} If the policy is invalid
+   * @throws {ForbiddenError} If the actor does not manage the property
+   */
+  public async updatePolicy(
+    propertyId: string,
+    input: RentBillingPolicyInput,
+    actor: BillingActor
+  ): Promise<RentBillingPolicy> {
+    await this.assertPropertyStaff(propertyId, actor);
+    this.validatePolicy(input);
+
+    return this.repository.upsertPolicy({
+      propertyId,
+      dueDay: input.dueDay,
+      gracePeriodDays: input.gracePeriodDays,
+      lateFeeType: input.lateFeeType,
+      lateFeeAmount: input.lateFeeAmount,
+      lateFeeCap: input.lateFeeCap ?? null,
+      reminderDaysBefore: input.reminderDaysBefore
+    }, actor.userId);
+  }
+
+  /**
+   * Issues invoices for this month and next once they fall within the
+   * invoice lead time
+   * @returns Number of invoices created
+   */
+  private async issueRentInvoices(
+    tenancy: Tenancy,
+    policy: RentBillingPolicy,
+    customerIds: Map<string, string>,
+    now: Date
+  ): Promise<number> {
+    const periods = [
+      getBillingPeriod(now, policy.dueDay),
+      getBillingPeriod(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)), policy.dueDay)
+    ];
+
+    let created = 0;
+    for (const period of periods) {
+      const charge = calculateRentCharge(tenancy, period);
+      if (!charge || daysBetween(now, charge.dueDate) > rentBillingConfig.invoiceLeadDays) {
+        continue;
+      }
+
+      if (await this.createRentInvoice(tenancy, period, charge, customerIds, now)) {
+        created++;
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Creates the rent payment for a tenancy period unless it already exists
+   * @returns Whether a new invoice was created
+   */
+  private async createRentInvoice(
+    tenancy: Tenancy,
+    period: BillingPeriod,
+    charge: { amount: number; dueDate: Date; prorated: boolean },
+    customerIds: Map<string, string>,
+    now: Date
+  ): Promise<boolean> {
+    const idempotencyKey = `rent:${tenancy.leaseId}:${period.key}`;
+    if (await Payment.exists({ idempotencyKey })) {
+      return false;
+    }
+
+    // An invoice is never due before it is issued, e.g. for leases activated late
+    const today = startOfDayUtc(now);
+    const dueDate = charge.dueDate < today ? today : charge.dueDate;
+
+    try {
+      await Payment.create({
+        propertyId: tenancy.propertyId,
+        userId: tenancy.tenantId,
+        type: PaymentType.RENT,
+        status: PaymentStatus.PENDING,
+        amount: charge.amount,
+        currency: paymentConfig.currency,
+        frequency: PaymentFrequency.MONTHLY,
+        stripeCustomerId: await this.resolveCustomerId(tenancy, customerIds),
+        dueDate,
+        idempotencyKey,
+        metadata: {
+          leaseId: tenancy.leaseId,
+          unitId: tenancy.unitId,
+          billingPeriod: period.key,
+          prorated: charge.prorated,
+          remindersSent: []
+        },
+        auditLog: [{
+          action: 'rent_invoice_issued',
+          timestamp: now,
+          details: { billingPeriod: period.key, amount: charge.amount }
+        }]
+      });
+    } catch (error) {
+      // Another worker issued the same invoice concurrently
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+
+    this.logger.info('Rent invoice issued', {
+      leaseId: tenancy.leaseId,
+      billingPeriod: period.key,
+      amount: charge.amount
+    });
+
+    await this.notificationClient.notify({
+      userId: tenancy.tenantId,
+      templateId: notificationConfig.templates.rentInvoiceIssued,
+      subject: `Rent for ${period.key} is due ${formatDate(dueDate)}`,
+      body: `Your rent of ${formatAmount(charge.amount)} for ${period.key} is due on ${formatDate(dueDate)}.`,
+      data: {
+        leaseId: tenancy.leaseId,
+        billingPeriod: period.key,
+        amount: charge.amount,
+        dueDate: formatDate(dueDate)
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Sends the upcoming and overdue reminders owed for a rent payment
+   * @returns Number of reminders sent
+   */
+  private async sendRentReminders(
+    payment: OutstandingRentPayment,
+    policy: RentBillingPolicy,
+    now: Date
+  ): Promise<number> {
+    const daysUntilDue = daysBetween(now, payment.dueDate);
+    const { billingPeriod } = payment.metadata;
+
+    if (daysUntilDue > 0 && daysUntilDue <= policy.reminderDaysBefore) {
+      if (!await this.claimReminder(payment._id, RentReminderType.UPCOMING)) {
+        return 0;
+      }
+      await this.notificationClient.notify({
+        userId: payment.userId,
+        templateId: notificationConfig.templates.rentDueReminder,
+        subject: `Rent due in ${daysUntilDue} day${daysUntilDue === 1 ? '' : 's'}`,
+        body: `Your rent of ${formatAmount(payment.amount)} for ${billingPeriod} is due on ${formatDate(payment.dueDate)}.`,
+        data: { paymentId: payment._id, billingPeriod, dueDate: formatDate(payment.dueDate) }
+      });
+      return 1;
+    }
+
+    if (daysUntilDue < 0) {
+      if (!await this.claimReminder(payment._id, RentReminderType.OVERDUE)) {
+        return 0;
+      }
+      const graceEnds = new Date(payment.dueDate.getTime());
+      graceEnds.setUTCDate(graceEnds.getUTCDate() + policy.gracePeriodDays);
+      await this.notificationClient.notify({
+        userId: payment.userId,
+        templateId: notificationConfig.templates.rentOverdue,
+        category: 'PAYMENT_FAILURE',
+        subject: `Rent for ${billingPeriod} is overdue`,
+        body: policy.lateFeeAmount > 0
+          ? `Your rent of ${formatAmount(payment.amount)} was due on ${formatDate(payment.dueDate)}. A late fee applies if it is not paid by ${formatDate(graceEnds)}.`
+          : `Your rent of ${formatAmount(payment.amount)} was due on ${formatDate(payment.dueDate)}.`,
+        data: { paymentId: payment._id, billingPeriod, dueDate: formatDate(payment.dueDate) }
+      });
+      return 1;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Charges or raises the late fee on an outstanding rent payment. Daily fees
+   * grow each cycle until the cap; other rules are charged once.
+   * @returns 1 when a late fee was created or increased, otherwise 0
+   */
+  private async assessLateFee(
+    payment: OutstandingRentPayment,
+    policy: RentBillingPolicy,
+    now: Date
+  ): Promise<number> {
+    const fee = calculateLateFee(policy, payment.amount, payment.dueDate, now);
+    if (fee === 0) {
+      return 0;
+    }
+
+    const idempotencyKey = `late_fee:${payment._id}`;
+    const daysLate = getDaysLate(policy, payment.dueDate, now);
+    const existing = await Payment.findOne({ idempotencyKey }).lean<IPayment>();
+
+    if (existing) {
+      if (existing.status !== PaymentStatus.PENDING || existing.amount >= fee) {
+        return 0;
+      }
+      const result = await Payment.updateOne(
+        { idempotencyKey, status: PaymentStatus.PENDING, amount: { $lt: fee } },
+        {
+          $set: { amount: fee, 'metadata.daysLate': daysLate },
+          $push: { auditLog: { action: 'late_fee_increased', timestamp: now, details: { amount: fee, daysLate } } }
+        }
+      );
+      return result.modifiedCount;
+    }
+
+    try {
+      await Payment.create({
+        propertyId: payment.propertyId,
+        userId: payment.userId,
+        type: PaymentType.LATE_FEE,
+        status: PaymentStatus.PENDING,
+        amount: fee,
+        currency: payment.currency,
+        frequency: PaymentFrequency.ONE_TIME,
+        stripeCustomerId: payment.stripeCustomerId,
+        dueDate: startOfDayUtc(now),
+        idempotencyKey,
+        metadata: {
+          leaseId: payment.metadata.leaseId,
+          rentPaymentId: String(payment._id),
+          billingPeriod: payment.metadata.billingPeriod,
+          lateFeeType: policy.lateFeeType,
+          daysLate
+        },
+        auditLog: [{ action: 'late_fee_assessed', timestamp: now, details: { amount: fee, daysLate } }]
+      });
+    } catch (error) {
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        return 0;
+      }
+      throw error;
+    }
+
+    this.logger.info('Late fee assessed', { rentPaymentId: payment._id, amount: fee, daysLate });
+
+    if (await this.claimReminder(payment._id, RentReminderType.LATE_FEE)) {
+      await this.notificationClient.notify({
+        userId: payment.userId,
+        templateId: notificationConfig.templates.lateFeeAssessed,
+        category: 'PAYMENT_FAILURE',
+        subject: `Late fee for ${payment.metadata.billingPeriod} rent`,
+        body: policy.lateFeeType === LateFeeType.DAILY
+          ? `A late fee of ${formatAmount(fee)} has been added and increases daily until your rent is paid.`
+          : `A late fee of ${formatAmount(fee)} has been added for rent due ${formatDate(payment.dueDate)}.`,
+        data: { paymentId: payment._id, billingPeriod: payment.metadata.billingPeriod, amount: fee }
+      });
+    }
+
+    return 1;
+  }
+
+  /**
+   * Records a reminder against a rent payment so it is sent at most once
+   * @returns Whether this call claimed the reminder
+   */
+  private async claimReminder(paymentId: string, reminder: RentReminderType): Promise<boolean> {
+    const result = await Payment.updateOne(
+      { _id: paymentId, 'metadata.remindersSent': { $ne: reminder } },
+      { $addToSet: { 'metadata.remindersSent': reminder } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Reuses the tenant's Stripe customer from earlier payments, creating one if needed
+   */
+  private async resolveCustomerId(tenancy: Tenancy, customerIds: Map<string, string>): Promise<string> {
+    const cached = customerIds.get(tenancy.tenantId);
+    if (cached) {
+      return cached;
+    }
+
+    const previous = await Payment.findOne({ userId: tenancy.tenantId })
+      .select('+stripeCustomerId')
+      .sort({ createdAt: -1 })
+      .lean<IPayment>();
+
+    const customerId = previous?.stripeCustomerId || (await this.stripeService.createCustomer({
+      email: tenancy.tenantEmail,
+      name: tenancy.tenantName,
+      metadata: { userId: tenancy.tenantId, propertyId: tenancy.propertyId }
+    })).id;
+
+    customerIds.set(tenancy.tenantId, customerId);
+    return customerId;
+  }
+
+  private resolvePolicy(policies: Map<string, RentBillingPolicy>, propertyId: string): RentBillingPolicy {
+    return policies.get(propertyId) || { propertyId, ...rentBillingConfig.defaultPolicy };
+  }
+
+  private validatePolicy(input: RentBillingPolicyInput): void {
+    if (!Number.isInteger(input.dueDay) || input.dueDay < 1 || input.dueDay > MAX_DUE_DAY) {
+      throw new BadRequestError(`Due day must be between 1 and ${MAX_DUE_DAY}`);
+    }
+    if (!Number.isInteger(input.gracePeriodDays) || input.gracePeriodDays < 0) {
+      throw new BadRequestError('Grace period must be a non-negative number of days');
+    }
+    if (!Number.isInteger(input.reminderDaysBefore) || input.reminderDaysBefore < 0) {
+      throw new BadRequestError('Reminder lead time must be a non-negative number of days');
+    }
+    if (!Object.values(LateFeeType).includes(input.lateFeeType)) {
+      throw new BadRequestError('Unsupported late fee type');
+    }
+    if (input.lateFeeAmount < 0 || (input.lateFeeType === LateFeeType.PERCENTAGE && input.lateFeeAmount > 100)) {
+      throw new BadRequestError('Invalid late fee amount');
+    }
+    if (input.lateFeeCap !== null && input.lateFeeCap !== undefined && input.lateFeeCap <= 0) {
+      throw new BadRequestError('Late fee cap must be greater than 0');
+    }
+  }
+
+  private async assertPropertyStaff(propertyId: string, actor: BillingActor): Promise<void> {
+    if (actor.role === 'ADMIN') {
+      return;
+    }
+
+    const staff = await this.repository.findPropertyStaff(propertyId);
+    if (actor.userId !== staff.ownerId && actor.userId !== staff.propertyManagerId) {
+      throw new ForbiddenError('Only property staff can manage rent billing');
+    }
+  }
+}
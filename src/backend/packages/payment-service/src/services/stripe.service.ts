@@ -153,6 +153,49 @@ export class StripeService {
     }
   }
 
+  /**
+   * Refunds all or part of a captured payment. Callers pass a stable
+   * idempotency key so retried refunds are never issued twice.
+   */
+  public async createRefund(
+    refundData: {
+      paymentIntentId: string;
+      amount: number;
+      idempotencyKey: string;
+      reason?: Stripe.RefundCreateParams.Reason;
+      metadata: Record<string, string>;
+    }
+  ): Promise<Stripe.Refund> {
+    if (refundData.amount <= 0) {
+      throw new Error('Refund amount must be greater than 0');
+    }
+
+    try {
+      const refund = await this.circuitBreaker.fire(async () => {
+        return await this.stripeClient.refunds.create({
+          payment_intent: refundData.paymentIntentId,
+          amount: Math.round(refundData.amount * 100),
+          ...(refundData.reason ? { reason: refundData.reason } : {}),
+          metadata: this.sanitizeMetadata(refundData.metadata)
+        }, {
+          idempotencyKey: refundData.idempotencyKey
+        });
+      });
+
+      this.logSecureEvent('refund_created', {
+        refundId: refund.id,
+        paymentIntentId: this.maskPII(refundData.paymentIntentId),
+        amount: refundData.amount,
+        status: refund.status
+      });
+
+      return refund;
+    } catch (error) {
+      this.handleStripeError(error, 'create_refund');
+      throw error;
+    }
+  }
+
   /**
    * Handles Stripe webhooks with signature verification
    */
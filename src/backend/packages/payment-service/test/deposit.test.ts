@@ -0,0 +1,223 @@
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Logger } from 'winston';
+import { BadRequestError, ForbiddenError } from '@projectx/common';
+import { NotificationClient } from '@projectx/common/clients';
+import { DepositService, calculateAccruedInterest } from '../src/services/deposit.service';
+import { DepositRepository, DepositLeaseContext } from '../src/repositories/deposit.repository';
+import { StripeService } from '../src/services/stripe.service';
+import {
+  DeductionCategory,
+  DepositDeduction,
+  DepositLedgerEntry,
+  DepositLedgerEntryType,
+  DepositStatus,
+  SecurityDeposit
+} from '../src/models/deposit.model';
+import { TransactionModel } from '../src/models/transaction.model';
+
+jest.mock('../src/config', () => ({
+  depositConfig: {
+    maxPhotos: 10,
+    maxPhotoSize: 10 * 1024 * 1024,
+    allowedPhotoTypes: ['image/jpeg', 'image/png']
+  },
+  notificationConfig: {
+    templates: { depositDisposition: 'deposit-disposition' }
+  }
+}));
+
+jest.mock('../src/models/payment.model', () => ({
+  PaymentType: { SECURITY_DEPOSIT: 'security_deposit' },
+  PaymentStatus: { CAPTURED: 'captured', REFUNDED: 'refunded' },
+  Payment: {
+    findOne: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+jest.mock('../src/models/transaction.model', () => {
+  const TransactionModel: any = jest.fn().mockImplementation(() => ({ save: jest.fn() }));
+  TransactionModel.findOne = jest.fn();
+  return {
+    TransactionModel,
+    TransactionType: { AUTHORIZATION: 'authorization', REFUND: 'refund' },
+    TransactionStatus: { COMPLETED: 'completed' }
+  };
+});
+
+jest.mock('../src/services/deposit-statement.builder', () => ({
+  buildDispositionStatement: jest.fn().mockResolvedValue(Buffer.from('%PDF-statement'))
+}));
+
+const mockTransaction = TransactionModel as unknown as jest.Mock & { findOne: jest.Mock };
+
+describe('DepositService', () => {
+  let repository: MockProxy<DepositRepository>;
+  let stripeService: MockProxy<StripeService>;
+  let notificationClient: MockProxy<NotificationClient>;
+  let service: DepositService;
+
+  const manager = { userId: 'manager_1', role: 'PROPERTY_MANAGER' };
+
+  const lease: DepositLeaseContext = {
+    leaseId: 'lease_1',
+    applicationId: 'app_1',
+    propertyId: 'prop_1',
+    propertyName: 'Maple Court',
+    unitNumber: '4B',
+    tenantId: 'tenant_1',
+    tenantName: 'Sam Tenant',
+    ownerId: 'owner_1',
+    propertyManagerId: 'manager_1',
+    startDate: new Date('2023-01-01T00:00:00Z'),
+    endDate: new Date('2023-12-31T00:00:00Z')
+  };
+
+  const deposit: SecurityDeposit = {
+    id: 'dep_1',
+    leaseId: 'lease_1',
+    propertyId: 'prop_1',
+    tenantId: 'tenant_1',
+    paymentId: 'pay_1',
+    amount: 1000,
+    currency: 'USD',
+    interestRate: 0,
+    heldSince: new Date('2023-01-01T00:00:00Z'),
+    status: DepositStatus.HELD,
+    refundAmount: null,
+    manualPayoutAmount: null,
+    stripeRefundId: null,
+    statementSha256: null,
+    disposedAt: null,
+    disposedBy: null,
+    version: 1,
+    openedBy: 'manager_1',
+    createdAt: new Date('2023-01-01T00:00:00Z'),
+    updatedAt: new Date('2023-01-01T00:00:00Z')
+  };
+
+  const entry = (type: DepositLedgerEntryType, amount: number): DepositLedgerEntry => ({
+    id: `entry_${type}`,
+    depositId: 'dep_1',
+    type,
+    amount,
+    description: type,
+    createdBy: null,
+    createdAt: new Date('2023-01-01T00:00:00Z')
+  });
+
+  const deduction = (amount: number): DepositDeduction => ({
+    id: `ded_${amount}`,
+    depositId: 'dep_1',
+    category: DeductionCategory.CLEANING,
+    description: 'Carpet cleaning',
+    amount,
+    createdBy: 'manager_1',
+    createdAt: new Date('2024-01-02T00:00:00Z'),
+    photos: []
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = mock<DepositRepository>();
+    stripeService = mock<StripeService>();
+    notificationClient = mock<NotificationClient>();
+    service = new DepositService(repository, stripeService, notificationClient, mock<Logger>());
+
+    repository.findLeaseContext.mockResolvedValue(lease);
+    mockTransaction.findOne.mockReturnValue({
+      select: () => ({ lean: () => Promise.resolve({ stripeTransactionId: 'pi_123' }) })
+    });
+  });
+
+  it('should accrue simple interest on the deposit principal', () => {
+    const accrued = calculateAccruedInterest(
+      { amount: 1000, interestRate: 1.5, heldSince: new Date('2023-01-01T00:00:00Z') },
+      new Date('2024-01-01T00:00:00Z')
+    );
+
+    expect(accrued).toBe(15);
+  });
+
+  it('should reject deductions that exceed the remaining balance', async () => {
+    repository.findById.mockResolvedValue(deposit);
+    repository.findEntries.mockResolvedValue([entry(DepositLedgerEntryType.COLLECTED, 1000)]);
+    repository.findDeductions.mockResolvedValue([deduction(800)]);
+
+    await expect(service.addDeduction('dep_1', {
+      category: DeductionCategory.DAMAGE,
+      description: 'Broken window',
+      amount: 250
+    }, [], manager)).rejects.toThrow(BadRequestError);
+    expect(repository.createDeduction).not.toHaveBeenCalled();
+  });
+
+  it('should only allow property staff to add deductions', async () => {
+    repository.findById.mockResolvedValue(deposit);
+
+    await expect(service.addDeduction('dep_1', {
+      category: DeductionCategory.DAMAGE,
+      description: 'Broken window',
+      amount: 50
+    }, [], { userId: 'tenant_1', role: 'TENANT' })).rejects.toThrow(ForbiddenError);
+  });
+
+  it('should cap the Stripe refund at the original charge and pay interest separately', async () => {
+    const interestBearing = { ...deposit, interestRate: 2 };
+    repository.findById.mockResolvedValue(interestBearing);
+    repository.postInterest.mockResolvedValue(true);
+    repository.findEntries.mockResolvedValue([
+      entry(DepositLedgerEntryType.COLLECTED, 1000),
+      entry(DepositLedgerEntryType.INTEREST, 20)
+    ]);
+    repository.findDeductions.mockResolvedValue([]);
+    repository.recordDisposition.mockImplementation(async (current, disposition) => ({
+      ...current,
+      status: DepositStatus.DISPOSED,
+      refundAmount: disposition.refundAmount,
+      manualPayoutAmount: disposition.manualPayoutAmount
+    }));
+    repository.setStripeRefundId.mockImplementation(async () => ({
+      ...interestBearing,
+      status: DepositStatus.DISPOSED,
+      stripeRefundId: 're_123'
+    }));
+    stripeService.createRefund.mockResolvedValue({ id: 're_123' } as any);
+
+    await service.disposeDeposit('dep_1', manager);
+
+    expect(repository.recordDisposition).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'dep_1' }),
+      expect.objectContaining({ refundAmount: 1020, manualPayoutAmount: 20 })
+    );
+    expect(stripeService.createRefund).toHaveBeenCalledWith(expect.objectContaining({
+      paymentIntentId: 'pi_123',
+      amount: 1000,
+      idempotencyKey: 'deposit_refund_dep_1'
+    }));
+    expect(notificationClient.notify).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'tenant_1',
+      attachments: [expect.objectContaining({ contentType: 'application/pdf' })]
+    }));
+  });
+
+  it('should keep the disposition when the Stripe refund fails', async () => {
+    repository.findById.mockResolvedValue(deposit);
+    repository.findEntries.mockResolvedValue([entry(DepositLedgerEntryType.COLLECTED, 1000)]);
+    repository.findDeductions.mockResolvedValue([deduction(150)]);
+    repository.recordDisposition.mockImplementation(async (current, disposition) => ({
+      ...current,
+      status: DepositStatus.DISPOSED,
+      refundAmount: disposition.refundAmount,
+      manualPayoutAmount: disposition.manualPayoutAmount
+    }));
+    stripeService.createRefund.mockRejectedValue(new Error('card_declined'));
+
+    const result = await service.disposeDeposit('dep_1', manager);
+
+    expect(result.status).toBe(DepositStatus.DISPOSED);
+    expect(result.refundAmount).toBe(850);
+    expect(result.stripeRefundId).toBeNull();
+    expect(repository.setStripeRefundId).not.toHaveBeenCalled();
+  });
+});
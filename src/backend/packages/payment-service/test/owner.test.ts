@@ -0,0 +1,185 @@
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Logger } from 'winston';
+import { BadRequestError, ForbiddenError } from '@projectx/common';
+import { OwnerService, summarizeStatementLines } from '../src/services/owner.service';
+import { OwnerRepository, OwnedProperty } from '../src/repositories/owner.repository';
+import { buildOwnerStatementCsv } from '../src/services/owner-statement.builder';
+import {
+  OwnerStatementCategory,
+  OwnerStatementFormat,
+  OwnerStatementLine
+} from '../src/models/owner-statement.model';
+import { Payment } from '../src/models/payment.model';
+import { TransactionModel } from '../src/models/transaction.model';
+
+jest.mock('../src/config', () => ({
+  ownerConfig: { maxDashboardRangeDays: 366 }
+}));
+
+jest.mock('../src/models/payment.model', () => ({
+  PaymentType: { RENT: 'rent', LATE_FEE: 'late_fee' },
+  Payment: { find: jest.fn() }
+}));
+
+jest.mock('../src/models/transaction.model', () => ({
+  TransactionModel: { find: jest.fn() },
+  TransactionType: {
+    CAPTURE: 'capture',
+    REFUND: 'refund',
+    FEE: 'fee',
+    COMMISSION: 'commission'
+  },
+  TransactionStatus: { COMPLETED: 'completed' }
+}));
+
+jest.mock('../src/services/owner-statement.builder', () => ({
+  ...jest.requireActual('../src/services/owner-statement.builder'),
+  buildOwnerStatementPdf: jest.fn().mockResolvedValue(Buffer.from('%PDF-owner'))
+}));
+
+const mockPaymentFind = Payment.find as jest.Mock;
+const mockTransactionFind = TransactionModel.find as unknown as jest.Mock;
+
+describe('OwnerService', () => {
+  let repository: MockProxy<OwnerRepository>;
+  let service: OwnerService;
+
+  const owner = { userId: 'owner_1', role: 'OWNER' };
+
+  const properties: OwnedProperty[] = [
+    { propertyId: 'prop_1', name: 'Maple Court', totalUnits: 4, occupiedUnits: 3 },
+    { propertyId: 'prop_2', name: 'Oak Terrace', totalUnits: 2, occupiedUnits: 2 }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = mock<OwnerRepository>();
+    service = new OwnerService(repository, mock<Logger>());
+
+    repository.findOwner.mockResolvedValue({ ownerId: 'owner_1', name: 'Pat Owner', email: 'pat@example.com' });
+    repository.findProperties.mockResolvedValue(properties);
+    repository.findMaintenanceExpenses.mockResolvedValue([{
+      requestId: 'maint_1',
+      propertyId: 'prop_1',
+      title: 'Replace water heater',
+      vendorName: 'Acme Plumbing',
+      cost: 900,
+      completedAt: new Date('2024-03-20T00:00:00Z')
+    }]);
+
+    mockPaymentFind.mockReturnValue({
+      select: () => ({
+        lean: jest.fn().mockResolvedValue([
+          { _id: 'pay_1', propertyId: 'prop_1', type: 'rent' },
+          { _id: 'pay_2', propertyId: 'prop_2', type: 'rent' },
+          { _id: 'pay_3', propertyId: 'prop_1', type: 'late_fee' }
+        ])
+      })
+    });
+    mockTransactionFind.mockReturnValue({
+      lean: jest.fn().mockResolvedValue([
+        { _id: 'txn_1', paymentId: 'pay_1', type: 'capture', amount: 2000, createdAt: new Date('2024-03-01T00:00:00Z') },
+        { _id: 'txn_2', paymentId: 'pay_2', type: 'capture', amount: 1500, createdAt: new Date('2024-03-02T00:00:00Z') },
+        { _id: 'txn_3', paymentId: 'pay_1', type: 'fee', amount: 60, createdAt: new Date('2024-03-01T00:00:00Z') },
+        { _id: 'txn_4', paymentId: 'pay_3', type: 'capture', amount: 50, createdAt: new Date('2024-03-08T00:00:00Z') },
+        { _id: 'txn_5', paymentId: 'pay_2', type: 'refund', amount: 100, createdAt: new Date('2024-03-15T00:00:00Z') }
+      ])
+    });
+  });
+
+  describe('getStatement', () => {
+    it('should total rent, refunds, fees and maintenance per property', async () => {
+      const statement = await service.getStatement('owner_1', 2024, 3, owner);
+
+      expect(statement.totals).toEqual({
+        rentCollected: 3550,
+        refunds: 100,
+        fees: 60,
+        maintenanceSpend: 900,
+        net: 2490
+      });
+      expect(statement.properties[0]).toEqual(expect.objectContaining({
+        propertyId: 'prop_1',
+        rentCollected: 2050,
+        maintenanceSpend: 900,
+        occupancyRate: 75
+      }));
+      expect(statement.lines.map((line) => line.reference)).toEqual(
+        ['txn_1', 'txn_3', 'txn_2', 'txn_4', 'txn_5', 'maint_1']
+      );
+      expect(mockTransactionFind).toHaveBeenCalledWith(expect.objectContaining({
+        createdAt: { $gte: new Date('2024-03-01T00:00:00Z'), $lt: new Date('2024-04-01T00:00:00Z') }
+      }));
+    });
+
+    it('should only let owners view their own statements', async () => {
+      await expect(service.getStatement('owner_2', 2024, 3, owner)).rejects.toThrow(ForbiddenError);
+      await expect(service.getStatement('owner_2', 2024, 3, { userId: 'admin_1', role: 'ADMIN' }))
+        .resolves.toEqual(expect.objectContaining({ ownerId: 'owner_2' }));
+    });
+
+    it('should reject future months', async () => {
+      const nextYear = new Date().getUTCFullYear() + 1;
+      await expect(service.getStatement('owner_1', nextYear, 1, owner)).rejects.toThrow(BadRequestError);
+    });
+
+    it('should render a CSV download', async () => {
+      const file = await service.renderStatement('owner_1', 2024, 3, OwnerStatementFormat.CSV, owner);
+
+      expect(file.fileName).toBe('owner-statement-2024-03.csv');
+      expect(file.content.toString('utf8').split('\r\n')[0])
+        .toBe('Date,Property,Category,Description,Amount,Reference');
+    });
+  });
+
+  describe('getDashboard', () => {
+    it('should report portfolio occupancy', async () => {
+      const dashboard = await service.getDashboard(
+        'owner_1',
+        owner,
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-04-01T00:00:00Z')
+      );
+
+      expect(dashboard.occupancy).toEqual({ totalUnits: 6, occupiedUnits: 5, occupancyRate: 83.3 });
+      expect(dashboard.totals.net).toBe(2490);
+    });
+
+    it('should reject a period longer than the configured range', async () => {
+      await expect(service.getDashboard(
+        'owner_1',
+        owner,
+        new Date('2022-01-01T00:00:00Z'),
+        new Date('2024-01-01T00:00:00Z')
+      )).rejects.toThrow(BadRequestError);
+    });
+  });
+});
+
+describe('owner statement helpers', () => {
+  const line = (category: OwnerStatementCategory, amount: number, description = 'Line'): OwnerStatementLine => ({
+    date: new Date('2024-03-01T00:00:00Z'),
+    propertyId: 'prop_1',
+    propertyName: 'Maple Court',
+    category,
+    description,
+    amount,
+    reference: 'ref_1'
+  });
+
+  it('should count late fees as rent collected', () => {
+    expect(summarizeStatementLines([
+      line(OwnerStatementCategory.RENT, 1000),
+      line(OwnerStatementCategory.LATE_FEE, 25),
+      line(OwnerStatementCategory.FEE, -30)
+    ])).toEqual({ rentCollected: 1025, refunds: 0, fees: 30, maintenanceSpend: 0, net: 995 });
+  });
+
+  it('should neutralize spreadsheet formulas in CSV text', () => {
+    const csv = buildOwnerStatementCsv({
+      lines: [line(OwnerStatementCategory.MAINTENANCE, -50, '=HYPERLINK("x")')]
+    } as any);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
@@ -0,0 +1,264 @@
+import { mock, MockProxy } from 'jest-mock-extended'; // v3.0.4
+import { Logger } from 'winston';
+import { BadRequestError, ForbiddenError } from '@projectx/common';
+import { NotificationClient } from '@projectx/common/clients';
+import { RentBillingService } from '../src/services/rent-billing.service';
+import { RentBillingRepository } from '../src/repositories/rent-billing.repository';
+import { StripeService } from '../src/services/stripe.service';
+import {
+  calculateLateFee,
+  calculateRentCharge,
+  getBillingPeriod
+} from '../src/services/rent-billing.calculator';
+import { LateFeeType, RentBillingPolicy, Tenancy } from '../src/models/rent-billing.model';
+import { Payment } from '../src/models/payment.model';
+
+jest.mock('../src/config', () => ({
+  paymentConfig: { currency: 'USD' },
+  rentBillingConfig: {
+    invoiceLeadDays: 10,
+    defaultPolicy: {
+      dueDay: 1,
+      gracePeriodDays: 5,
+      lateFeeType: 'FLAT',
+      lateFeeAmount: 0,
+      lateFeeCap: null,
+      reminderDaysBefore: 3
+    }
+  },
+  notificationConfig: {
+    templates: {
+      rentInvoiceIssued: 'rent-invoice-issued',
+      rentDueReminder: 'rent-due-reminder',
+      rentOverdue: 'rent-overdue',
+      lateFeeAssessed: 'late-fee-assessed'
+    }
+  }
+}));
+
+jest.mock('../src/models/payment.model', () => ({
+  PaymentType: { RENT: 'rent', LATE_FEE: 'late_fee' },
+  PaymentStatus: { PENDING: 'pending', FAILED: 'failed', CAPTURED: 'captured' },
+  PaymentFrequency: { MONTHLY: 'monthly', ONE_TIME: 'one_time' },
+  Payment: {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn()
+  }
+}));
+
+const mockPayment = Payment as unknown as Record<'find' | 'findOne' | 'exists' | 'create' | 'updateOne', jest.Mock>;
+
+/**
+ * Mimics a mongoose query resolving to the given value
+ */
+const query = (value: unknown) => {
+  const chain = {
+    select: () => chain,
+    sort: () => chain,
+    lean: () => Promise.resolve(value)
+  };
+  return chain;
+};
+
+describe('rent billing calculator', () => {
+  const policy: RentBillingPolicy = {
+    propertyId: 'prop_123',
+    dueDay: 1,
+    gracePeriodDays: 5,
+    lateFeeType: LateFeeType.FLAT,
+    lateFeeAmount: 50,
+    lateFeeCap: null,
+    reminderDaysBefore: 3
+  };
+
+  const dueDate = new Date('2024-03-01T00:00:00Z');
+
+  it('should prorate a mid-month move-in and bill it on the move-in date', () => {
+    const charge = calculateRentCharge(
+      {
+        monthlyRent: 3100,
+        startDate: new Date('2024-03-17T00:00:00Z'),
+        endDate: new Date('2025-03-16T00:00:00Z')
+      },
+      getBillingPeriod(new Date('2024-03-10T00:00:00Z'), 1)
+    );
+
+    expect(charge).toEqual({
+      amount: 1500,
+      dueDate: new Date('2024-03-17T00:00:00Z'),
+      prorated: true
+    });
+  });
+
+  it('should not bill periods outside the lease term', () => {
+    const charge = calculateRentCharge(
+      {
+        monthlyRent: 2000,
+        startDate: new Date('2024-01-01T00:00:00Z'),
+        endDate: new Date('2024-02-29T00:00:00Z')
+      },
+      getBillingPeriod(new Date('2024-03-01T00:00:00Z'), 1)
+    );
+
+    expect(charge).toBeNull();
+  });
+
+  it('should not charge a late fee within the grace period', () => {
+    expect(calculateLateFee(policy, 2000, dueDate, new Date('2024-03-06T12:00:00Z'))).toBe(0);
+    expect(calculateLateFee(policy, 2000, dueDate, new Date('2024-03-07T00:00:00Z'))).toBe(50);
+  });
+
+  it('should apply percentage and capped daily late fees', () => {
+    const now = new Date('2024-03-16T00:00:00Z'); // 10 days past grace
+
+    expect(calculateLateFee(
+      { ...policy, lateFeeType: LateFeeType.PERCENTAGE, lateFeeAmount: 5 },
+      2000, dueDate, now
+    )).toBe(100);
+    expect(calculateLateFee(
+      { ...policy, lateFeeType: LateFeeType.DAILY, lateFeeAmount: 10, lateFeeCap: 75 },
+      2000, dueDate, now
+    )).toBe(75);
+  });
+});
+
+describe('RentBillingService', () => {
+  let service: RentBillingService;
+  let mockRepository: MockProxy<RentBillingRepository>;
+  let mockStripeService: MockProxy<StripeService>;
+  let mockNotificationClient: MockProxy<NotificationClient>;
+
+  const tenancy: Tenancy = {
+    leaseId: 'lease_1',
+    propertyId: 'prop_123',
+    unitId: 'unit_1',
+    tenantId: 'user_456',
+    tenantEmail: 'test@example.com',
+    tenantName: 'Test User',
+    monthlyRent: 2000,
+    startDate: new Date('2024-01-01T00:00:00Z'),
+    endDate: new Date('2024-12-31T00:00:00Z')
+  };
+
+  const policy: RentBillingPolicy = {
+    propertyId: 'prop_123',
+    dueDay: 1,
+    gracePeriodDays: 3,
+    lateFeeType: LateFeeType.FLAT,
+    lateFeeAmount: 75,
+    lateFeeCap: null,
+    reminderDaysBefore: 3
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockRepository = mock<RentBillingRepository>();
+    mockStripeService = mock<StripeService>();
+    mockNotificationClient = mock<NotificationClient>();
+
+    service = new RentBillingService(
+      mockRepository,
+      mockStripeService,
+      mockNotificationClient,
+      mock<Logger>()
+    );
+
+    mockRepository.findPolicies.mockResolvedValue(new Map([['prop_123', policy]]));
+    mockPayment.updateOne.mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  describe('runBillingCycle', () => {
+    it('should issue next month\'s rent once it is within the invoice lead time', async () => {
+      mockRepository.findActiveTenancies.mockResolvedValue([tenancy]);
+      mockPayment.find.mockReturnValue(query([]));
+      // February was billed in the previous cycle
+      mockPayment.exists.mockImplementation(({ idempotencyKey }) =>
+        Promise.resolve(idempotencyKey === 'rent:lease_1:2024-02' ? { _id: 'pay_0' } : null)
+      );
+      mockPayment.findOne.mockReturnValue(query({ stripeCustomerId: 'cus_123' }));
+
+      const summary = await service.runBillingCycle(new Date('2024-02-25T06:00:00Z'));
+
+      expect(summary.invoicesCreated).toBe(1);
+      expect(mockPayment.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'rent',
+        amount: 2000,
+        stripeCustomerId: 'cus_123',
+        dueDate: new Date('2024-03-01T00:00:00Z'),
+        idempotencyKey: 'rent:lease_1:2024-03'
+      }));
+      expect(mockStripeService.createCustomer).not.toHaveBeenCalled();
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user_456', templateId: 'rent-invoice-issued' })
+      );
+    });
+
+    it('should not issue an invoice that already exists', async () => {
+      mockRepository.findActiveTenancies.mockResolvedValue([tenancy]);
+      mockPayment.find.mockReturnValue(query([]));
+      mockPayment.exists.mockResolvedValue({ _id: 'pay_1' });
+
+      const summary = await service.runBillingCycle(new Date('2024-02-25T06:00:00Z'));
+
+      expect(summary.invoicesCreated).toBe(0);
+      expect(mockPayment.create).not.toHaveBeenCalled();
+    });
+
+    it('should assess a late fee on rent unpaid after the grace period', async () => {
+      mockRepository.findActiveTenancies.mockResolvedValue([]);
+      mockPayment.find.mockReturnValue(query([{
+        _id: 'pay_1',
+        propertyId: 'prop_123',
+        userId: 'user_456',
+        amount: 2000,
+        currency: 'USD',
+        stripeCustomerId: 'cus_123',
+        dueDate: new Date('2024-03-01T00:00:00Z'),
+        metadata: { leaseId: 'lease_1', billingPeriod: '2024-03', remindersSent: ['overdue'] }
+      }]));
+      mockPayment.findOne.mockReturnValue(query(null));
+      mockPayment.updateOne
+        .mockResolvedValueOnce({ modifiedCount: 0 }) // overdue reminder already sent
+        .mockResolvedValueOnce({ modifiedCount: 1 });
+
+      const summary = await service.runBillingCycle(new Date('2024-03-05T06:00:00Z'));
+
+      expect(summary.lateFeesAssessed).toBe(1);
+      expect(mockPayment.create).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'late_fee',
+        amount: 75,
+        idempotencyKey: 'late_fee:pay_1'
+      }));
+      expect(mockNotificationClient.notify).toHaveBeenCalledWith(
+        expect.objectContaining({ templateId: 'late-fee-assessed', category: 'PAYMENT_FAILURE' })
+      );
+    });
+  });
+
+  describe('updatePolicy', () => {
+    const input = {
+      dueDay: 1,
+      gracePeriodDays: 5,
+      lateFeeType: LateFeeType.DAILY,
+      lateFeeAmount: 10,
+      lateFeeCap: 100,
+      reminderDaysBefore: 3
+    };
+
+    it('should only allow property staff to change the policy', async () => {
+      mockRepository.findPropertyStaff.mockResolvedValue({ ownerId: 'owner_1', propertyManagerId: 'manager_1' });
+
+      await expect(service.updatePolicy('prop_123', input, { userId: 'user_456', role: 'RENTER' }))
+        .rejects.toThrow(ForbiddenError);
+      expect(mockRepository.upsertPolicy).not.toHaveBeenCalled();
+    });
+
+    it('should reject due days missing from shorter months', async () => {
+      await expect(service.updatePolicy('prop_123', { ...input, dueDay: 31 }, { userId: 'admin_1', role: 'ADMIN' }))
+        .rejects.toThrow(BadRequestError);
+    });
+  });
+});
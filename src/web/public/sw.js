@@ -0,0 +1,70 @@
+/**
+ * Service worker showing Web Push notifications sent by the notification
+ * service and opening the page they link to when clicked
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'Project X', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Project X', {
+      body: payload.body,
+      icon: '/icon-192.png',
+      badge: '/icon-192.png',
+      // Re-sends of the same notification replace the earlier one
+      tag: payload.notificationId,
+      data: {
+        notificationId: payload.notificationId,
+        url: payload.url || '/dashboard'
+      }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const target = new URL(event.notification.data?.url || '/', self.location.origin);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Only navigate within the app
+      if (target.origin !== self.location.origin) {
+        return undefined;
+      }
+
+      const existing = windows.find((client) => new URL(client.url).origin === target.origin);
+      if (existing) {
+        return existing.navigate(target.href).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(target.href);
+    })
+  );
+});
+
+// The browser rotated the subscription; open pages re-register it with their
+// session since the worker has no credentials of its own
+self.addEventListener('pushsubscriptionchange', (event) => {
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((windows) => {
+      windows.forEach((client) => client.postMessage({ type: 'push:subscriptionchange' }));
+    })
+  );
+});
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, CircularProgress, Container, Paper, Typography } from '@mui/material'; // @mui/material@5.14.0
+import { useSearchParams } from 'next/navigation'; // @next/navigation@13.0.0
+import Link from 'next/link';
+import LoadingButton from '../../../components/common/LoadingButton';
+import useAuth from '../../../hooks/useAuth';
+import { resendVerificationEmail, verifyEmail } from '../../../lib/api/auth';
+import { useAppDispatch } from '../../../store';
+import { markEmailVerified } from '../../../store/slices/authSlice';
+
+type VerificationState = 'verifying' | 'verified' | 'failed';
+
+/**
+ * Landing page for the link in the verification email. Confirms the address
+ * and, for a signed-in user whose link failed, offers a new one.
+ */
+const VerifyEmailPage: React.FC = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+
+  const { isAuthenticated } = useAuth();
+  const dispatch = useAppDispatch();
+
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(
+    token ? null : 'This verification link is incomplete.'
+  );
+  const [resending, setResending] = useState(false);
+  const [resent, setResent] = useState(false);
+
+  // Links are single-purpose; avoid posting twice under React strict mode
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) {
+      return;
+    }
+    submitted.current = true;
+
+    verifyEmail(token)
+      .then(() => {
+        dispatch(markEmailVerified());
+        setState('verified');
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'This verification link is invalid or has expired.');
+        setState('failed');
+      });
+  }, [token, dispatch]);
+
+  const handleResend = async () => {
+    try {
+      setResending(true);
+      await resendVerificationEmail();
+      setResent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="sm">
+      <Paper
+        elevation={3}
+        sx={{
+          p: 4,
+          mt: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center'
+        }}
+      >
+        {state === 'verifying' && (
+          <>
+            <CircularProgress sx={{ mb: 3 }} />
+            <Typography variant="h5" component="h1" align="center">
+              Verifying your email address
+            </Typography>
+          </>
+        )}
+
+        {state === 'verified' && (
+          <>
+            <Typography variant="h5" component="h1" gutterBottom align="center">
+              Email address verified
+            </Typography>
+            <Typography variant="body1" color="text.secondary" align="center" sx={{ mb: 4 }}>
+              You can now submit applications and make payments.
+            </Typography>
+            <Button variant="contained" component={Link} href={isAuthenticated ? '/' : '/login'}>
+              Continue
+            </Button>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <Typography variant="h5" component="h1" gutterBottom align="center" color="error">
+              We couldn't verify your email
+            </Typography>
+            <Typography variant="body1" color="text.secondary" align="center" sx={{ mb: 3 }}>
+              {error}
+            </Typography>
+
+            {resent && (
+              <Alert severity="success" sx={{ mb: 3, width: '100%' }}>
+                We sent you a new verification link.
+              </Alert>
+            )}
+
+            {isAuthenticated ? (
+              !resent && (
+                <LoadingButton variant="contained" loading={resending} onClick={handleResend}>
+                  Send a new link
+                </LoadingButton>
+              )
+            ) : (
+              <Typography variant="body2" color="text.secondary" align="center">
+                Log in to request a new verification link.
+              </Typography>
+            )}
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default VerifyEmailPage;
@@ -24,6 +24,7 @@ import useApplications from '../../../hooks/useApplications';
 import ErrorBoundary from '../../../components/common/ErrorBoundary';
 import LoadingButton from '../../../components/common/LoadingButton';
 import Toast from '../../../components/common/Toast';
+import EmailVerificationNotice from '../../../components/auth/EmailVerificationNotice';
 
 import { Application, ApplicationStatus as AppStatus, VerificationStatus } from '../../../types/application';
 
@@ -165,6 +166,8 @@ const ApplicationsPage: React.FC = () => {
             <Typography variant="h4" component="h1" gutterBottom>
               Rental Applications
             </Typography>
+
+            <EmailVerificationNotice action="submit applications" />
             
             {/* Search and Filter Section */}
             <Grid container spacing={2} sx={{ mb: 4 }}>
@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Chip,
+  Paper,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material'; // @mui/material@5.14.0
+import SignaturePad from '@/components/lease/SignaturePad';
+import LoadingButton from '@/components/common/LoadingButton';
+import ErrorBoundary from '@/components/common/ErrorBoundary';
+import { useAuth } from '../../../../../hooks/useAuth';
+import {
+  getLeaseSigningStatus,
+  signLease,
+  downloadExecutedLease
+} from '../../../../../lib/api/leases';
+import {
+  LeaseSigningStatus,
+  LeaseSignatureStatus,
+  LeaseStatus
+} from '../../../../../types/lease';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: Date | string): string => new Date(date).toLocaleDateString();
+
+// Lease signing page showing signing order, audit trail and signature capture
+const LeaseSigningPage = ({ params }: { params: { id: string } }) => {
+  const { user } = useAuth();
+  const [signingStatus, setSigningStatus] = useState<LeaseSigningStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSigning, setIsSigning] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getLeaseSigningStatus(params.id)
+      .then((status) => {
+        if (isMounted) setSigningStatus(status);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [params.id]);
+
+  const handleSign = useCallback(async (signatureImage: string) => {
+    setIsSigning(true);
+    setError(null);
+    try {
+      setSigningStatus(await signLease(params.id, signatureImage));
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setIsSigning(false);
+    }
+  }, [params.id]);
+
+  const handleDownload = useCallback(async () => {
+    setIsDownloading(true);
+    try {
+      const { file } = await downloadExecutedLease(params.id);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `lease-${params.id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [params.id]);
+
+  // Loading state with accessibility
+  if (loading) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="200px"
+        role="status"
+        aria-label="Loading lease details"
+      >
+        <CircularProgress size={40} aria-label="Loading spinner" />
+      </Box>
+    );
+  }
+
+  if (!signingStatus) {
+    return (
+      <Alert severity="error" role="alert" aria-live="assertive" sx={{ mb: 2 }}>
+        {error || 'Lease not found or access denied'}
+      </Alert>
+    );
+  }
+
+  const { lease, signatures, events, awaitingUserIds, auditTrailValid } = signingStatus;
+  const canSign = !!user && awaitingUserIds.includes(user.id);
+  const mySignature = signatures.find((signature) => signature.userId === user?.id);
+
+  return (
+    <ErrorBoundary
+      showToast
+      fallbackMessage="An error occurred while displaying the lease"
+      enableDevelopmentLogging
+    >
+      <Box
+        component="main"
+        role="main"
+        aria-label="Lease Signing"
+        sx={{
+          maxWidth: 'lg',
+          mx: 'auto',
+          p: { xs: 2, sm: 3 },
+        }}
+      >
+        <Typography variant="h4" component="h1" gutterBottom sx={{ mb: 4 }}>
+          Lease Agreement
+        </Typography>
+
+        {error && (
+          <Alert severity="error" role="alert" aria-live="assertive" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!auditTrailValid && (
+          <Alert severity="warning" role="alert" sx={{ mb: 2 }}>
+            The signing audit trail failed verification. Do not sign until this is resolved.
+          </Alert>
+        )}
+
+        {/* Lease Summary Section */}
+        <Paper variant="outlined" sx={{ p: 3, mb: 4 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <Typography variant="h6">Lease Terms</Typography>
+            <Chip label={lease.status.replace('_', ' ')} size="small" />
+          </Box>
+          <Typography>Term: {formatDate(lease.startDate)} - {formatDate(lease.endDate)}</Typography>
+          <Typography>Monthly rent: {formatCurrency(lease.monthlyRent)}</Typography>
+          <Typography>Security deposit: {formatCurrency(lease.securityDeposit)}</Typography>
+          {lease.petDeposit !== null && (
+            <Typography>Pet deposit: {formatCurrency(lease.petDeposit)}</Typography>
+          )}
+          {lease.contentHash && (
+            <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+              Document fingerprint: {lease.contentHash}
+            </Typography>
+          )}
+        </Paper>
+
+        {/* Signing Order Section */}
+        <Box role="region" aria-label="Signers" sx={{ mb: 4 }}>
+          <Typography variant="h6" gutterBottom>
+            Signers
+          </Typography>
+          <List dense>
+            {signatures.map((signature) => (
+              <ListItem key={signature.id}>
+                <ListItemText
+                  primary={`${signature.signingOrder}. ${signature.role.replace('_', ' ')}`}
+                  secondary={signature.signedAt
+                    ? `Signed ${new Date(signature.signedAt).toLocaleString()}`
+                    : awaitingUserIds.includes(signature.userId) ? 'Awaiting signature' : 'Waiting'}
+                />
+                <Chip
+                  label={signature.status}
+                  color={signature.status === LeaseSignatureStatus.SIGNED ? 'success' : 'default'}
+                  size="small"
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+
+        {/* Signature Capture Section */}
+        {canSign && (
+          <Paper variant="outlined" sx={{ p: 3, mb: 4 }}>
+            <SignaturePad
+              onSubmit={handleSign}
+              isSubmitting={isSigning}
+              disabled={!auditTrailValid}
+            />
+          </Paper>
+        )}
+
+        {!canSign && mySignature?.status === LeaseSignatureStatus.PENDING && (
+          <Alert severity="info" sx={{ mb: 4 }}>
+            Waiting for earlier parties to sign before you can sign.
+          </Alert>
+        )}
+
+        {lease.status === LeaseStatus.ACTIVE && (
+          <Box sx={{ mb: 4 }}>
+            <LoadingButton
+              variant="contained"
+              onClick={handleDownload}
+              loading={isDownloading}
+              aria-label="Download executed lease"
+            >
+              Download Executed Lease
+            </LoadingButton>
+          </Box>
+        )}
+
+        {/* Audit Trail Section */}
+        <Box role="region" aria-label="Signing audit trail">
+          <Typography variant="h6" gutterBottom>
+            Audit Trail
+          </Typography>
+          <List dense>
+            {events.map((event) => (
+              <ListItem key={event.eventHash}>
+                <ListItemText
+                  primary={`${event.action.replace('_', ' ')} - ${new Date(event.timestamp).toLocaleString()}`}
+                  secondary={`IP ${event.ipAddress} · ${event.userAgent}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      </Box>
+    </ErrorBoundary>
+  );
+};
+
+export default LeaseSigningPage;
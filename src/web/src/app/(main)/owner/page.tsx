@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  Grid,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem
+} from '@mui/material'; // @mui/material@5.14.0
+import LoadingButton from '@/components/common/LoadingButton';
+import ErrorBoundary from '@/components/common/ErrorBoundary';
+import { useAuth } from '../../../hooks/useAuth';
+import { getOwnerDashboard, downloadOwnerStatement } from '../../../lib/api/owners';
+import { OwnerDashboard, OwnerStatementFormat } from '../../../types/owner';
+import { UserRole } from '../../../types/auth';
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const STATEMENT_MONTHS_SHOWN = 12;
+
+/**
+ * Completed and current months offered for statements, newest first
+ */
+const statementMonths = (now: Date): { year: number; month: number; label: string }[] =>
+  Array.from({ length: STATEMENT_MONTHS_SHOWN }, (_, index) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1));
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      label: date.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    };
+  });
+
+// Read-only owner portal with portfolio figures and monthly statements
+const OwnerPage = () => {
+  const { user } = useAuth();
+  const [dashboard, setDashboard] = useState<OwnerDashboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<OwnerStatementFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const months = useMemo(() => statementMonths(new Date()), []);
+  const [selectedMonth, setSelectedMonth] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getOwnerDashboard()
+      .then((result) => {
+        if (isMounted) setDashboard(result);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const handleDownload = useCallback(async (format: OwnerStatementFormat) => {
+    const { year, month } = months[selectedMonth];
+    setDownloading(format);
+    setError(null);
+    try {
+      const file = await downloadOwnerStatement(year, month, format);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `owner-statement-${year}-${String(month).padStart(2, '0')}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setDownloading(null);
+    }
+  }, [months, selectedMonth]);
+
+  if (user && user.role !== UserRole.OWNER && user.role !== UserRole.ADMIN) {
+    return (
+      <Alert severity="warning" role="alert" sx={{ mb: 2 }}>
+        The owner portal is only available to property owners.
+      </Alert>
+    );
+  }
+
+  // Loading state with accessibility
+  if (loading) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="200px"
+        role="status"
+        aria-label="Loading owner dashboard"
+      >
+        <CircularProgress size={40} aria-label="Loading spinner" />
+      </Box>
+    );
+  }
+
+  if (!dashboard) {
+    return (
+      <Alert severity="error" role="alert" aria-live="assertive" sx={{ mb: 2 }}>
+        {error || 'Owner dashboard is unavailable'}
+      </Alert>
+    );
+  }
+
+  const { totals, occupancy } = dashboard;
+  const figures = [
+    { label: 'Occupancy', value: `${occupancy.occupancyRate}% (${occupancy.occupiedUnits}/${occupancy.totalUnits})` },
+    { label: 'Rent collected', value: formatCurrency(totals.rentCollected) },
+    { label: 'Refunds', value: formatCurrency(totals.refunds) },
+    { label: 'Fees', value: formatCurrency(totals.fees) },
+    { label: 'Maintenance', value: formatCurrency(totals.maintenanceSpend) },
+    { label: 'Net', value: formatCurrency(totals.net) }
+  ];
+
+  return (
+    <ErrorBoundary
+      showToast
+      fallbackMessage="An error occurred while displaying the owner dashboard"
+      enableDevelopmentLogging
+    >
+      <Box
+        component="main"
+        role="main"
+        aria-label="Owner Portal"
+        sx={{
+          maxWidth: 'lg',
+          mx: 'auto',
+          p: { xs: 2, sm: 3 },
+        }}
+      >
+        <Typography variant="h4" component="h1" gutterBottom>
+          Owner Portal
+        </Typography>
+        <Typography color="text.secondary" sx={{ mb: 4 }}>
+          {new Date(dashboard.periodStart).toLocaleDateString()} - {new Date(dashboard.periodEnd).toLocaleDateString()}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" role="alert" aria-live="assertive" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {/* Portfolio Summary Section */}
+        <Grid container spacing={2} sx={{ mb: 4 }}>
+          {figures.map((figure) => (
+            <Grid item xs={6} md={2} key={figure.label}>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Typography variant="caption" color="text.secondary">{figure.label}</Typography>
+                <Typography variant="h6">{figure.value}</Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        {/* Properties Section */}
+        <TableContainer component={Paper} variant="outlined" sx={{ mb: 4 }}>
+          <Table size="small" aria-label="Owned properties">
+            <TableHead>
+              <TableRow>
+                <TableCell>Property</TableCell>
+                <TableCell align="right">Occupancy</TableCell>
+                <TableCell align="right">Rent collected</TableCell>
+                <TableCell align="right">Refunds</TableCell>
+                <TableCell align="right">Fees</TableCell>
+                <TableCell align="right">Maintenance</TableCell>
+                <TableCell align="right">Net</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {dashboard.properties.map((property) => (
+                <TableRow key={property.propertyId}>
+                  <TableCell>{property.name}</TableCell>
+                  <TableCell align="right">
+                    {property.occupiedUnits}/{property.totalUnits} ({property.occupancyRate}%)
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(property.rentCollected)}</TableCell>
+                  <TableCell align="right">{formatCurrency(property.refunds)}</TableCell>
+                  <TableCell align="right">{formatCurrency(property.fees)}</TableCell>
+                  <TableCell align="right">{formatCurrency(property.maintenanceSpend)}</TableCell>
+                  <TableCell align="right">{formatCurrency(property.net)}</TableCell>
+                </TableRow>
+              ))}
+              {!dashboard.properties.length && (
+                <TableRow>
+                  <TableCell colSpan={7}>No properties are registered to your account.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {/* Statements Section */}
+        <Paper variant="outlined" sx={{ p: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Monthly Statements
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2 }}>
+            <TextField
+              select
+              size="small"
+              label="Month"
+              value={selectedMonth}
+              onChange={(event) => setSelectedMonth(Number(event.target.value))}
+              sx={{ minWidth: 200 }}
+            >
+              {months.map((option, index) => (
+                <MenuItem key={option.label} value={index}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+            <LoadingButton
+              variant="contained"
+              onClick={() => handleDownload(OwnerStatementFormat.PDF)}
+              loading={downloading === OwnerStatementFormat.PDF}
+              disabled={!!downloading}
+              aria-label="Download PDF statement"
+            >
+              Download PDF
+            </LoadingButton>
+            <LoadingButton
+              variant="outlined"
+              onClick={() => handleDownload(OwnerStatementFormat.CSV)}
+              loading={downloading === OwnerStatementFormat.CSV}
+              disabled={!!downloading}
+              aria-label="Download CSV statement"
+            >
+              Download CSV
+            </LoadingButton>
+          </Box>
+        </Paper>
+      </Box>
+    </ErrorBoundary>
+  );
+};
+
+export default OwnerPage;
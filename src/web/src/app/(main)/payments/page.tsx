@@ -8,6 +8,7 @@ import { ErrorBoundary } from 'react-error-boundary';
 import PaymentForm from '../../../components/payment/PaymentForm';
 import PaymentHistory from '../../../components/payment/PaymentHistory';
 import PaymentSummary from '../../../components/payment/PaymentSummary';
+import EmailVerificationNotice from '../../../components/auth/EmailVerificationNotice';
 
 // Hooks and utilities
 import { usePayments } from '../../../hooks/usePayments';
@@ -98,6 +99,8 @@ const PaymentsPage: React.FC = () => {
           <Typography variant="h4" component="h1" gutterBottom>
             Payments Dashboard
           </Typography>
+
+          <EmailVerificationNotice action="make payments" />
           
           {/* Payment Analytics Summary */}
           <Grid container spacing={2} sx={{ mb: 4 }}>
@@ -15,6 +15,10 @@ import {
 } from '@mui/material';
 import { useAuth } from '../../../hooks/useAuth';
 import LoadingButton from '../../../components/common/LoadingButton';
+import MfaSettings from '../../../components/auth/MfaSettings';
+import PasskeySettings from '../../../components/auth/PasskeySettings';
+import SessionSettings from '../../../components/auth/SessionSettings';
+import PushDeviceSettings from '../../../components/notification/PushDeviceSettings';
 import { UserRole } from '../../../types/auth';
 
 interface ProfileFormData {
@@ -232,6 +236,14 @@ const ProfilePage: React.FC = () => {
         </form>
       </Card>
 
+      <MfaSettings />
+
+      <PasskeySettings />
+
+      <SessionSettings />
+
+      <PushDeviceSettings />
+
       {/* Confirmation Dialog */}
       <Dialog 
         open={showConfirmDialog} 
@@ -5,11 +5,13 @@ import {
   CircularProgress, 
   Alert, 
   Container, 
-  Skeleton 
+  Skeleton,
+  Box
 } from '@mui/material'; // ^5.14.0
 import { useAnalytics } from '@segment/analytics-next'; // ^1.51.0
 import { generateMetadata } from 'next'; // ^13.4.0
 import PropertyDetails from '../../../../components/property/PropertyDetails';
+import TourScheduler from '../../../../components/property/TourScheduler';
 import { useProperties } from '../../../../hooks/useProperties';
 import ErrorBoundary from '../../../../components/common/ErrorBoundary';
 import { Property } from '../../../../types/property';
@@ -170,6 +172,18 @@ const PropertyPage: React.FC<{ params: { id: string } }> = ({ params }) => {
         onPrint={handlePrint}
         theme="light"
       />
+      <Container maxWidth="lg" sx={{ pb: 4 }}>
+        <Box id="schedule-tour">
+          <TourScheduler
+            propertyId={property.id}
+            onBooked={(tour) => analytics.track('property_tour_booked', {
+              propertyId: property.id,
+              tourType: tour.type,
+              timestamp: new Date().toISOString(),
+            })}
+          />
+        </Box>
+      </Container>
     </ErrorBoundary>
   );
 };
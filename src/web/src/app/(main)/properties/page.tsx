@@ -1,16 +1,31 @@
 'use client';
 
 import React, { useCallback, useEffect, useState } from 'react';
-import { Box, Container, Typography } from '@mui/material'; // @mui/material@5.14.0
+import { Box, Button, Container, Typography } from '@mui/material'; // @mui/material@5.14.0
 import { useSearchParams } from 'next/navigation'; // next@13.0.0
 import { useDebounce } from 'use-debounce'; // use-debounce@9.0.0
 
 import PropertyGrid from '../../../components/property/PropertyGrid';
 import PropertyFilters from '../../../components/property/PropertyFilters';
+import PropertyMap from '../../../components/property/PropertyMap';
 import { useProperties } from '../../../hooks/useProperties';
-import { PropertyType, PropertySearchFilters } from '../../../types/property';
+import { MapPoint, PropertyType, PropertySearchFilters } from '../../../types/property';
 import { formatCurrency } from '../../../utils/currency';
 
+/**
+ * Parses a polygon URL param of `lat,lng` pairs separated by semicolons
+ */
+const parsePolygonParam = (value: string | null): MapPoint[] | undefined => {
+  if (!value) return undefined;
+  const polygon = value.split(';').map((pair) => {
+    const [latitude, longitude] = pair.split(',').map(Number);
+    return { latitude, longitude };
+  });
+  return polygon.length >= 3 && polygon.every((point) => isFinite(point.latitude) && isFinite(point.longitude))
+    ? polygon
+    : undefined;
+};
+
 /**
  * Main property listing page component with enhanced performance features
  * Implements virtualized rendering, optimistic updates, and advanced caching
@@ -25,12 +40,17 @@ const PropertiesPage: React.FC = () => {
     bedrooms: Number(searchParams.get('bedrooms')) || undefined,
     bathrooms: Number(searchParams.get('bathrooms')) || undefined,
     amenities: searchParams.get('amenities')?.split(',') || undefined,
+    moveInFrom: searchParams.get('moveInFrom') || undefined,
+    moveInTo: searchParams.get('moveInTo') || undefined,
     location: searchParams.get('location') ? {
       latitude: Number(searchParams.get('lat')),
       longitude: Number(searchParams.get('lng')),
       radiusInMiles: Number(searchParams.get('radius')) || 10
-    } : undefined
+    } : undefined,
+    polygon: parsePolygonParam(searchParams.get('polygon'))
   }));
+  const [searchArea, setSearchArea] = useState<MapPoint[] | undefined>(filterState.polygon);
+  const [drawingArea, setDrawingArea] = useState(false);
 
   // Initialize properties hook with caching
   const {
@@ -56,6 +76,11 @@ const PropertiesPage: React.FC = () => {
             params.set('lat', value.latitude.toString());
             params.set('lng', value.longitude.toString());
             params.set('radius', value.radiusInMiles?.toString() || '10');
+          } else if (key === 'polygon' && value) {
+            params.set('polygon', value.map((point: MapPoint) => `${point.latitude},${point.longitude}`).join(';'));
+          } else if (key === 'commute' && value) {
+            params.set('commuteMinutes', value.maxMinutes.toString());
+            params.set('commuteMode', value.mode);
           } else if (Array.isArray(value)) {
             params.set(key, value.join(','));
           } else {
@@ -71,15 +96,28 @@ const PropertiesPage: React.FC = () => {
     300
   );
 
-  // Handle filter changes
+  // Handle filter changes; the drawn area isn't part of the filter panel
   const handleFilterChange = useCallback((filters: PropertySearchFilters) => {
-    setFilterState(filters);
-    debouncedFilterChange(filters);
-  }, [debouncedFilterChange]);
+    const nextFilters = { ...filters, polygon: searchArea };
+    setFilterState(nextFilters);
+    debouncedFilterChange(nextFilters);
+  }, [debouncedFilterChange, searchArea]);
+
+  // Replace the location radius with the area drawn on the map; the filter
+  // panel re-reports its filters when handleFilterChange changes
+  const handleAreaDrawn = useCallback((polygon: MapPoint[]) => {
+    setDrawingArea(false);
+    setSearchArea(polygon);
+  }, []);
+
+  const handleClearArea = useCallback(() => {
+    setSearchArea(undefined);
+  }, []);
 
   // Handle filter reset
   const handleFilterReset = useCallback(() => {
     setFilterState({});
+    setSearchArea(undefined);
     clearCache();
     refreshProperties();
   }, [clearCache, refreshProperties]);
@@ -109,6 +147,35 @@ const PropertiesPage: React.FC = () => {
         onReset={handleFilterReset}
       />
 
+      <Box sx={{ mt: 4 }}>
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <Button
+            variant={drawingArea ? 'contained' : 'outlined'}
+            onClick={() => setDrawingArea((drawing) => !drawing)}
+          >
+            {drawingArea ? 'Cancel drawing' : 'Draw search area'}
+          </Button>
+          {searchArea && !drawingArea && (
+            <Button onClick={handleClearArea}>Clear area</Button>
+          )}
+          {drawingArea && (
+            <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+              Click to add points and double-click to finish
+            </Typography>
+          )}
+        </Box>
+        <PropertyMap
+          properties={properties}
+          height="360px"
+          drawingEnabled={drawingArea}
+          searchArea={searchArea}
+          onAreaDrawn={handleAreaDrawn}
+          onMarkerClick={(property) => {
+            window.location.href = `/properties/${property.id}`;
+          }}
+        />
+      </Box>
+
       <Box sx={{ mt: 4 }}>
         <PropertyGrid
           properties={properties}
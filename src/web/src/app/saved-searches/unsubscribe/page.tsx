@@ -0,0 +1,50 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Alert, CircularProgress, Container, Paper, Typography } from '@mui/material'; // @mui/material@5.14.0
+import { useSearchParams } from 'next/navigation'; // @next/navigation@13.0.0
+import { unsubscribeSavedSearch } from '../../../lib/api/savedSearches';
+
+// Landing page for the unsubscribe link in saved search alerts; works without sign-in
+const UnsubscribePage = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [loading, setLoading] = useState(Boolean(token));
+  const [error, setError] = useState<string | null>(token ? null : 'This unsubscribe link is invalid.');
+
+  useEffect(() => {
+    if (!token) return;
+    let isMounted = true;
+
+    unsubscribeSavedSearch(token)
+      .catch((err) => {
+        if (isMounted) setError(err.message);
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token]);
+
+  return (
+    <Container maxWidth="sm">
+      <Paper elevation={3} sx={{ p: 4, mt: 8, textAlign: 'center' }}>
+        <Typography variant="h5" component="h1" gutterBottom>
+          Saved Search Alerts
+        </Typography>
+        {loading && <CircularProgress aria-label="Unsubscribing" />}
+        {!loading && error && <Alert severity="error">{error}</Alert>}
+        {!loading && !error && (
+          <Alert severity="success">
+            You will no longer receive alerts for this search.
+          </Alert>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default UnsubscribePage;
@@ -0,0 +1,59 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, Button } from '@mui/material'; // @mui/material@5.14.0
+import { resendVerificationEmail } from '../../lib/api/auth';
+import { useAppSelector } from '../../store';
+import { UserStatus } from '../../types/auth';
+
+interface EmailVerificationNoticeProps {
+  /** What the user cannot do until they verify, e.g. "submit applications" */
+  action: string;
+}
+
+/**
+ * Reminds users with an unverified email address that an action is blocked,
+ * and lets them ask for another link. Renders nothing once verified.
+ */
+const EmailVerificationNotice: React.FC<EmailVerificationNoticeProps> = ({ action }) => {
+  const user = useAppSelector((state) => state.auth.user);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (user?.status !== UserStatus.PENDING_VERIFICATION) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      setError(null);
+      await resendVerificationEmail();
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Alert
+      severity={error ? 'error' : 'warning'}
+      sx={{ mb: 3 }}
+      action={!sent && (
+        <Button color="inherit" size="small" onClick={handleResend} disabled={sending}>
+          Resend email
+        </Button>
+      )}
+    >
+      {error
+        ?? (sent
+          ? `We sent a new verification link to ${user.email}.`
+          : `Verify your email address to ${action}. Check ${user.email} for the link.`)}
+    </Alert>
+  );
+};
+
+export default EmailVerificationNotice;
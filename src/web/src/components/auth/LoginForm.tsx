@@ -5,6 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useAuth } from '../../hooks/useAuth';
 import LoadingButton from '../common/LoadingButton';
 import { authSchemas } from '../../utils/validation';
+import { isPasskeySupported } from '../../lib/passkey';
 import { useRateLimit } from '@rentals/rate-limit'; // @version ^1.0.0
 
 interface LoginFormProps {
@@ -35,7 +36,8 @@ const LoginForm: React.FC<LoginFormProps> = ({
   // State management
   const [showMFA, setShowMFA] = useState(false);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
-  const { login, verifyMFA, verifyBiometric, loading, error } = useAuth();
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false);
+  const { login, loginWithPasskey, verifyMFA, verifyBiometric, loading, error } = useAuth();
   const { isRateLimited, incrementAttempts } = useRateLimit('login', maxAttempts);
 
   // Form validation setup
@@ -70,6 +72,11 @@ const LoginForm: React.FC<LoginFormProps> = ({
     checkBiometric();
   }, [enableBiometric, verifyBiometric]);
 
+  // Passkey support is only known in the browser
+  useEffect(() => {
+    setPasskeyAvailable(isPasskeySupported());
+  }, []);
+
   // Handle login submission with rate limiting
   const onLoginSubmit = useCallback(async (data: LoginFormData) => {
     if (isRateLimited) {
@@ -109,6 +116,19 @@ const LoginForm: React.FC<LoginFormProps> = ({
     }
   }, [verifyMFA, onSuccess, redirectUrl]);
 
+  // Handle passkey sign-in; a passkey also satisfies MFA
+  const handlePasskeyAuth = useCallback(async () => {
+    try {
+      await loginWithPasskey();
+      onSuccess?.();
+      if (redirectUrl) {
+        window.location.href = redirectUrl;
+      }
+    } catch (error) {
+      // Error handling managed by useAuth hook
+    }
+  }, [loginWithPasskey, onSuccess, redirectUrl]);
+
   // Handle biometric authentication
   const handleBiometricAuth = useCallback(async () => {
     try {
@@ -199,6 +219,20 @@ const LoginForm: React.FC<LoginFormProps> = ({
               Sign In
             </LoadingButton>
 
+            {passkeyAvailable && (
+              <LoadingButton
+                onClick={handlePasskeyAuth}
+                loading={loading}
+                disabled={isRateLimited}
+                variant="outlined"
+                color="primary"
+                size="large"
+                aria-label="Use a passkey"
+              >
+                Passkey
+              </LoadingButton>
+            )}
+
             {biometricAvailable && (
               <LoadingButton
                 onClick={handleBiometricAuth}
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography
+} from '@mui/material'; // @mui/material@5.14.0
+import LoadingButton from '../common/LoadingButton';
+import {
+  confirmMfaEnrollment,
+  disableMfa,
+  getMfaStatus,
+  regenerateBackupCodes,
+  startMfaEnrollment
+} from '../../lib/api/auth';
+import { MfaEnrollment, MfaStatus } from '../../types/auth';
+
+const MFA_CODE_PATTERN = /^\d{6}$/;
+
+/**
+ * Profile section for two-factor authentication: enrolling an authenticator
+ * app, managing backup codes and turning MFA off
+ */
+const MfaSettings: React.FC = () => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [showDisable, setShowDisable] = useState(false);
+  const [password, setPassword] = useState('');
+  const [disableCode, setDisableCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await getMfaStatus());
+    } catch (err) {
+      setError('Failed to load two-factor authentication status');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setBackupCodes(null);
+    setEnrollment(await startMfaEnrollment());
+  });
+
+  const handleConfirm = () => run(async () => {
+    setBackupCodes(await confirmMfaEnrollment(code));
+    setEnrollment(null);
+    setCode('');
+    await loadStatus();
+  });
+
+  const handleRegenerate = () => run(async () => {
+    setBackupCodes(await regenerateBackupCodes(code));
+    setCode('');
+    await loadStatus();
+  });
+
+  const handleDisable = () => run(async () => {
+    const value = disableCode.trim();
+    await disableMfa(MFA_CODE_PATTERN.test(value)
+      ? { password, mfaToken: value }
+      : { password, backupCode: value });
+    setShowDisable(false);
+    setPassword('');
+    setDisableCode('');
+    setBackupCodes(null);
+    await loadStatus();
+  });
+
+  const handleDownload = () => {
+    if (!backupCodes) return;
+    const blob = new Blob([`${backupCodes.join('\n')}\n`], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'backup-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const codeField = (
+    <TextField
+      fullWidth
+      label="Authentication Code"
+      placeholder="6-digit code from your app"
+      value={code}
+      onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+      inputProps={{ 'aria-label': 'Authentication Code', inputMode: 'numeric', autoComplete: 'one-time-code' }}
+      sx={{ mb: 2 }}
+    />
+  );
+
+  return (
+    <Card sx={{ p: 4, maxWidth: 800, mx: 'auto', my: 4 }}>
+      <Typography variant="h5" component="h2" gutterBottom>
+        Two-Factor Authentication
+      </Typography>
+
+      {error && !showDisable && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {status?.required && !status.enabled && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Your role requires two-factor authentication. Set it up to keep access to your account.
+        </Alert>
+      )}
+
+      {backupCodes && (
+        <Box sx={{ mb: 3 }}>
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Save these backup codes somewhere safe. Each one signs you in once if you lose your
+            authenticator, and they won't be shown again.
+          </Alert>
+          <Box
+            component="ul"
+            aria-label="Backup codes"
+            sx={{ fontFamily: 'monospace', columns: 2, listStyle: 'none', pl: 0, mb: 2 }}
+          >
+            {backupCodes.map((backupCode) => (
+              <li key={backupCode}>{backupCode}</li>
+            ))}
+          </Box>
+          <Button variant="outlined" onClick={handleDownload} sx={{ mr: 2 }}>
+            Download
+          </Button>
+          <Button onClick={() => setBackupCodes(null)}>I've saved them</Button>
+        </Box>
+      )}
+
+      {status && !status.enabled && !enrollment && (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Use an authenticator app to sign in with a code in addition to your password.
+          </Typography>
+          <LoadingButton
+            loading={loading}
+            variant="contained"
+            color="primary"
+            onClick={handleStart}
+            aria-label="Set Up Two-Factor Authentication"
+          >
+            Set up
+          </LoadingButton>
+        </>
+      )}
+
+      {enrollment && (
+        <>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Scan this QR code with your authenticator app, then enter the code it shows.
+          </Typography>
+          <Box
+            component="img"
+            src={enrollment.qrCode}
+            alt="QR code for your authenticator app"
+            sx={{ display: 'block', mb: 2 }}
+          />
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Can't scan it? Enter this key instead:{' '}
+            <Box component="code" sx={{ wordBreak: 'break-all' }}>{enrollment.secret}</Box>
+          </Typography>
+          {codeField}
+          <LoadingButton
+            loading={loading}
+            variant="contained"
+            color="primary"
+            disabled={!MFA_CODE_PATTERN.test(code)}
+            onClick={handleConfirm}
+            aria-label="Confirm Two-Factor Authentication"
+          >
+            Confirm
+          </LoadingButton>
+          <Button onClick={() => { setEnrollment(null); setCode(''); }} sx={{ ml: 2 }}>
+            Cancel
+          </Button>
+        </>
+      )}
+
+      {status?.enabled && (
+        <>
+          <Typography variant="body1" sx={{ mb: 1 }}>
+            Two-factor authentication is on.
+          </Typography>
+          <Typography
+            variant="body2"
+            color={status.backupCodesRemaining > 2 ? 'text.secondary' : 'warning.main'}
+            sx={{ mb: 2 }}
+          >
+            {status.backupCodesRemaining} backup codes left.
+          </Typography>
+          {codeField}
+          <LoadingButton
+            loading={loading}
+            variant="outlined"
+            disabled={!MFA_CODE_PATTERN.test(code)}
+            onClick={handleRegenerate}
+            aria-label="Generate New Backup Codes"
+          >
+            Generate new backup codes
+          </LoadingButton>
+          {!status.required && (
+            <Button color="error" onClick={() => setShowDisable(true)} sx={{ ml: 2 }}>
+              Turn off
+            </Button>
+          )}
+        </>
+      )}
+
+      <Dialog
+        open={showDisable}
+        onClose={() => { setShowDisable(false); setError(null); }}
+        aria-labelledby="disable-mfa-dialog-title"
+      >
+        <DialogTitle id="disable-mfa-dialog-title">
+          Turn Off Two-Factor Authentication
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography sx={{ mb: 2 }}>
+            Confirm your password and enter a code from your authenticator app or a backup code.
+          </Typography>
+          <TextField
+            fullWidth
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            inputProps={{ 'aria-label': 'Password', autoComplete: 'current-password' }}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            label="Authentication or Backup Code"
+            value={disableCode}
+            onChange={(e) => setDisableCode(e.target.value)}
+            inputProps={{ 'aria-label': 'Authentication or Backup Code', autoComplete: 'one-time-code' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => { setShowDisable(false); setError(null); }}>Cancel</Button>
+          <LoadingButton
+            loading={loading}
+            color="error"
+            disabled={!password || !disableCode.trim()}
+            onClick={handleDisable}
+          >
+            Turn off
+          </LoadingButton>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MfaSettings;
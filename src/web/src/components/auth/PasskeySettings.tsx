@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Card,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material'; // @mui/material@5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import LoadingButton from '../common/LoadingButton';
+import { getPasskeys, removePasskey } from '../../lib/api/auth';
+import { createPasskey, isPasskeySupported } from '../../lib/passkey';
+import { Passkey } from '../../types/auth';
+
+/**
+ * Profile section listing the account's passkeys and adding one for the
+ * current device
+ */
+const PasskeySettings: React.FC = () => {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [name, setName] = useState('');
+  const [supported, setSupported] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      setPasskeys(await getPasskeys());
+    } catch (err) {
+      setError('Failed to load passkeys');
+    }
+  }, []);
+
+  useEffect(() => {
+    setSupported(isPasskeySupported());
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const handleAdd = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await createPasskey(name.trim() || undefined);
+      setName('');
+      await loadPasskeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add passkey');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (passkey: Passkey) => {
+    try {
+      setError(null);
+      await removePasskey(passkey.id);
+      await loadPasskeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove passkey');
+    }
+  };
+
+  return (
+    <Card sx={{ p: 4, maxWidth: 800, mx: 'auto', my: 4 }}>
+      <Typography variant="h5" component="h2" gutterBottom>
+        Passkeys
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Sign in with your fingerprint, face or device PIN instead of a password.
+        A passkey also counts as two-factor authentication.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!supported && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This browser doesn't support passkeys.
+        </Alert>
+      )}
+
+      {supported && (
+        <>
+          <TextField
+            fullWidth
+            label="Passkey Name"
+            placeholder="e.g. Work laptop"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            inputProps={{ 'aria-label': 'Passkey Name', maxLength: 100 }}
+            sx={{ mb: 2 }}
+          />
+          <LoadingButton
+            loading={loading}
+            variant="contained"
+            color="primary"
+            onClick={handleAdd}
+            aria-label="Add A Passkey"
+          >
+            Add a passkey
+          </LoadingButton>
+        </>
+      )}
+
+      <List aria-label="Passkeys">
+        {passkeys.length === 0 && (
+          <ListItem disableGutters>
+            <ListItemText secondary="No passkeys yet." />
+          </ListItem>
+        )}
+        {passkeys.map((passkey) => (
+          <ListItem
+            key={passkey.id}
+            disableGutters
+            secondaryAction={
+              <IconButton
+                edge="end"
+                aria-label={`Remove ${passkey.name || 'passkey'}`}
+                onClick={() => handleRemove(passkey)}
+              >
+                <DeleteOutlineIcon />
+              </IconButton>
+            }
+          >
+            <ListItemText
+              primary={`${passkey.name || 'Passkey'}${passkey.deviceType === 'multiDevice' ? ' (synced)' : ''}`}
+              secondary={passkey.lastUsedAt
+                ? `Last used ${new Date(passkey.lastUsedAt).toLocaleString()}`
+                : `Added ${new Date(passkey.createdAt).toLocaleString()}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Card>
+  );
+};
+
+export default PasskeySettings;
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Card,
+  Chip,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material'; // @mui/material@5.14.0
+import LogoutIcon from '@mui/icons-material/Logout';
+import LoadingButton from '../common/LoadingButton';
+import { getSessions, revokeOtherSessions, revokeSession } from '../../lib/api/auth';
+import { Session } from '../../types/auth';
+
+const describeDevice = ({ deviceInfo }: Session): string => {
+  const parts = [deviceInfo.browser, deviceInfo.os].filter(Boolean);
+  return parts.length > 0 ? parts.join(' on ') : 'Unknown device';
+};
+
+/**
+ * Profile section listing where the account is signed in, with remote
+ * sign-out
+ */
+const SessionSettings: React.FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await getSessions());
+    } catch (err) {
+      setError('Failed to load sessions');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: Session) => {
+    try {
+      setError(null);
+      await revokeSession(session.id);
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await revokeOtherSessions();
+      await loadSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card sx={{ p: 4, maxWidth: 800, mx: 'auto', my: 4 }}>
+      <Typography variant="h5" component="h2" gutterBottom>
+        Where you're signed in
+      </Typography>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Sign out any session you don't recognize. It stops working right away.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <List aria-label="Active Sessions">
+        {sessions.map((session) => (
+          <ListItem
+            key={session.id}
+            disableGutters
+            secondaryAction={!session.current && (
+              <IconButton
+                edge="end"
+                aria-label={`Sign out ${describeDevice(session)}`}
+                onClick={() => handleRevoke(session)}
+              >
+                <LogoutIcon />
+              </IconButton>
+            )}
+          >
+            <ListItemText
+              primary={
+                <>
+                  {describeDevice(session)}
+                  {session.current && (
+                    <Chip label="This device" size="small" color="primary" sx={{ ml: 1 }} />
+                  )}
+                </>
+              }
+              secondary={[
+                session.ipAddress,
+                `Last active ${new Date(session.lastUsedAt).toLocaleString()}`
+              ].filter(Boolean).join(' · ')}
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      {hasOtherSessions && (
+        <LoadingButton
+          loading={loading}
+          variant="outlined"
+          color="error"
+          onClick={handleRevokeOthers}
+          aria-label="Sign Out Other Sessions"
+        >
+          Sign out all other sessions
+        </LoadingButton>
+      )}
+    </Card>
+  );
+};
+
+export default SessionSettings;
@@ -22,6 +22,7 @@ import {
   Home
 } from '@mui/icons-material';
 import { useAuth } from '../../hooks/useAuth';
+import { useNotifications } from '../../hooks/useNotifications';
 import { User } from '../../types/auth';
 import { LoadingButton } from './LoadingButton';
 
@@ -49,12 +50,16 @@ const AppBar: React.FC<AppBarProps> = ({
   // State for menu handling
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
-  const [notificationCount, setNotificationCount] = useState(0);
 
   // Hooks
   const isMobile = useMediaQuery('(max-width:600px)');
   const { user, isAuthenticated, logout, syncSession } = useAuth();
 
+  // Badge follows the real-time stream rather than polling
+  const { unreadCount: notificationCount } = useNotifications({
+    enableRealtime: isAuthenticated && !!menuConfig.showNotifications
+  });
+
   // Enable session synchronization across tabs if enabled
   useEffect(() => {
     if (enableSessionSync && isAuthenticated) {
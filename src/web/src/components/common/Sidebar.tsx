@@ -24,6 +24,7 @@ import {
   Payment as PaymentIcon,
   Message as MessageIcon,
   Settings as SettingsIcon,
+  AccountBalance as AccountBalanceIcon,
   ExpandLess,
   ExpandMore,
   ChevronLeft,
@@ -113,6 +114,17 @@ const Sidebar: React.FC<SidebarProps> = memo(({
         );
       }
 
+      if (user.role === UserRole.OWNER) {
+        items.push(
+          {
+            label: 'Owner Portal',
+            path: '/owner',
+            icon: <AccountBalanceIcon />,
+            roles: [UserRole.OWNER]
+          }
+        );
+      }
+
       if (user.role === UserRole.RENTER) {
         items.push(
           {
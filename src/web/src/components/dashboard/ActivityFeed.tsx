@@ -1,10 +1,12 @@
-import React, { useCallback, useEffect, useMemo, useRef } from 'react';
-import { Box, Typography, List, ListItem, Skeleton } from '@mui/material'; // @mui/material@5.14.0
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Typography, List, ListItem, Skeleton, Chip } from '@mui/material'; // @mui/material@5.14.0
 import { VariableSizeList as VirtualList } from 'react-window'; // react-window@1.8.9
 import { useIntersectionObserver } from 'react-intersection-observer'; // react-intersection-observer@9.5.2
 
 import { Notification, NotificationType } from '../../types/notification';
+import { Tour, TourStatus, TourType } from '../../types/tour';
 import { useNotifications } from '../../hooks/useNotifications';
+import { getUpcomingTours } from '../../lib/api/tours';
 import LoadingButton from '../common/LoadingButton';
 
 interface ActivityFeedProps {
@@ -15,6 +17,8 @@ interface ActivityFeedProps {
   cacheSize?: number;
   enablePullToRefresh?: boolean;
   onNotificationClick?: (notification: Notification) => void;
+  showUpcomingTours?: boolean;
+  onTourClick?: (tour: Tour) => void;
   retryConfig?: {
     maxAttempts: number;
     delay: number;
@@ -24,6 +28,16 @@ interface ActivityFeedProps {
 const DEFAULT_ROW_HEIGHT = 72;
 const DEFAULT_CACHE_SIZE = 50;
 const DEFAULT_LIMIT = 20;
+const MAX_UPCOMING_TOURS = 3;
+
+const formatTourTime = (date: Date, locale: string = 'en-US'): string =>
+  new Intl.DateTimeFormat(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).format(date);
 
 const formatActivityTime = (date: Date, locale: string = 'en-US'): string => {
   const now = new Date();
@@ -77,6 +91,8 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
   cacheSize = DEFAULT_CACHE_SIZE,
   enablePullToRefresh = true,
   onNotificationClick,
+  showUpcomingTours = true,
+  onTourClick,
   retryConfig
 }) => {
   const {
@@ -86,6 +102,8 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
     markAsRead
   } = useNotifications();
 
+  const [upcomingTours, setUpcomingTours] = useState<Tour[]>([]);
+
   const listRef = useRef<VirtualList>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const retryCountRef = useRef(0);
@@ -126,6 +144,25 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
     }
   }, [loadNotifications, notifications.length, limit, retryConfig]);
 
+  useEffect(() => {
+    if (!showUpcomingTours) return;
+
+    let isMounted = true;
+    getUpcomingTours()
+      .then((tours) => {
+        if (isMounted) {
+          setUpcomingTours(
+            tours.filter((tour) => tour.status === TourStatus.SCHEDULED).slice(0, MAX_UPCOMING_TOURS)
+          );
+        }
+      })
+      .catch((error) => console.error('Failed to load upcoming tours:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [showUpcomingTours]);
+
   useEffect(() => {
     if (inView && showLoadMore && !isLoading) {
       loadMore();
@@ -209,6 +246,34 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
         overflow: 'hidden'
       }}
     >
+      {upcomingTours.length > 0 && (
+        <Box mb={1}>
+          <Typography variant="overline" color="textSecondary" px={2}>
+            Upcoming tours
+          </Typography>
+          <List dense disablePadding>
+            {upcomingTours.map((tour) => (
+              <ListItem
+                key={tour.id}
+                button
+                divider
+                onClick={() => onTourClick?.(tour)}
+                aria-label={`Tour on ${formatTourTime(new Date(tour.startsAt))}`}
+              >
+                <Box display="flex" alignItems="center" justifyContent="space-between" width="100%">
+                  <Typography variant="body2">
+                    {formatTourTime(new Date(tour.startsAt))}
+                  </Typography>
+                  <Chip
+                    size="small"
+                    label={tour.type === TourType.SELF_GUIDED ? 'Self-guided' : 'In-person'}
+                  />
+                </Box>
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
       {isLoading && notifications.length === 0 ? (
         <List>{loadingItems}</List>
       ) : (
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Box, Button, Typography } from '@mui/material'; // @mui/material@5.14.0
+import LoadingButton from '../common/LoadingButton';
+
+// Canvas dimensions for signature capture
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 160;
+const STROKE_WIDTH = 2;
+
+interface SignaturePadProps {
+  onSubmit: (signatureImage: string) => Promise<void>;
+  isSubmitting: boolean;
+  disabled?: boolean;
+  ariaLabel?: string;
+}
+
+/**
+ * Canvas-based signature capture producing a PNG data URL
+ * Supports mouse, pen and touch input through pointer events
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({
+  onSubmit,
+  isSubmitting,
+  disabled = false,
+  ariaLabel = 'Signature pad'
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    context.lineWidth = STROKE_WIDTH;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#000';
+  }, []);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    isDrawingRef.current = true;
+  }, [disabled]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasSignature(true);
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    isDrawingRef.current = false;
+  }, []);
+
+  const handleClear = useCallback(() => {
+    const context = canvasRef.current?.getContext('2d');
+    context?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setHasSignature(false);
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!canvasRef.current || !hasSignature) return;
+    await onSubmit(canvasRef.current.toDataURL('image/png'));
+  }, [hasSignature, onSubmit]);
+
+  return (
+    <Box role="region" aria-label={ariaLabel}>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Draw your signature below
+      </Typography>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature drawing area"
+        sx={{
+          width: '100%',
+          maxWidth: CANVAS_WIDTH,
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          touchAction: 'none',
+          cursor: disabled ? 'not-allowed' : 'crosshair',
+          bgcolor: 'background.paper'
+        }}
+      />
+      <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+        <Button
+          variant="outlined"
+          onClick={handleClear}
+          disabled={disabled || isSubmitting || !hasSignature}
+        >
+          Clear
+        </Button>
+        <LoadingButton
+          variant="contained"
+          onClick={handleSubmit}
+          loading={isSubmitting}
+          disabled={disabled || !hasSignature}
+          aria-label="Sign lease"
+        >
+          Sign Lease
+        </LoadingButton>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Card,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography
+} from '@mui/material'; // @mui/material@5.14.0
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import LoadingButton from '../common/LoadingButton';
+import { getPushDevices } from '../../lib/api/notifications';
+import {
+  getCurrentSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeDevice,
+  watchSubscriptionChanges
+} from '../../lib/push';
+import { PushDevice } from '../../types/notification';
+
+/**
+ * Profile section listing the devices that receive push notifications and
+ * enabling them on the current browser
+ */
+const PushDeviceSettings: React.FC = () => {
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supported = isPushSupported();
+
+  const loadDevices = useCallback(async () => {
+    try {
+      const [registered, subscription] = await Promise.all([getPushDevices(), getCurrentSubscription()]);
+      setDevices(registered);
+      setCurrentEndpoint(subscription?.endpoint ?? null);
+    } catch (err) {
+      setError('Failed to load push notification devices');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+    return watchSubscriptionChanges();
+  }, [loadDevices]);
+
+  const handleEnable = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await subscribeToPush(deviceName.trim() || undefined);
+      setDeviceName('');
+      await loadDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable push notifications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (device: PushDevice) => {
+    try {
+      setError(null);
+      await unsubscribeDevice(device);
+      await loadDevices();
+    } catch (err) {
+      setError('Failed to remove device');
+    }
+  };
+
+  const currentRegistered = devices.some((device) => device.endpoint === currentEndpoint);
+
+  return (
+    <Card sx={{ p: 4, maxWidth: 800, mx: 'auto', my: 4 }}>
+      <Typography variant="h5" component="h2" gutterBottom>
+        Push Notifications
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!supported && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          This browser doesn't support push notifications.
+        </Alert>
+      )}
+
+      {supported && !currentRegistered && (
+        <>
+          <TextField
+            fullWidth
+            label="Device Name"
+            placeholder="e.g. Work laptop"
+            value={deviceName}
+            onChange={(e) => setDeviceName(e.target.value)}
+            inputProps={{ 'aria-label': 'Device Name', maxLength: 100 }}
+            sx={{ mb: 2 }}
+          />
+          <LoadingButton
+            loading={loading}
+            variant="contained"
+            color="primary"
+            onClick={handleEnable}
+            aria-label="Enable Push Notifications On This Device"
+          >
+            Enable on this device
+          </LoadingButton>
+        </>
+      )}
+
+      <List aria-label="Push notification devices">
+        {devices.length === 0 && (
+          <ListItem disableGutters>
+            <ListItemText secondary="No devices receive push notifications yet." />
+          </ListItem>
+        )}
+        {devices.map((device) => (
+          <ListItem
+            key={device.id}
+            disableGutters
+            secondaryAction={
+              <IconButton
+                edge="end"
+                aria-label={`Remove ${device.deviceName || 'device'}`}
+                onClick={() => handleRemove(device)}
+              >
+                <DeleteOutlineIcon />
+              </IconButton>
+            }
+          >
+            <ListItemText
+              primary={`${device.deviceName || device.userAgent || 'Unknown device'}${device.endpoint === currentEndpoint ? ' (this device)' : ''}`}
+              secondary={device.lastUsedAt
+                ? `Last notified ${new Date(device.lastUsedAt).toLocaleString()}`
+                : `Added ${new Date(device.createdAt).toLocaleString()}`}
+            />
+          </ListItem>
+        ))}
+      </List>
+    </Card>
+  );
+};
+
+export default PushDeviceSettings;
@@ -16,9 +16,22 @@ import {
 } from '@mui/material'; // ^5.14.0
 import { LoadingButton } from '@mui/lab'; // ^5.14.0
 import { useAnalytics } from '@analytics/react'; // ^0.1.0
-import { Property } from '../../types/property';
+import { parseISO } from 'date-fns'; // ^2.30.0
+import { Property, UnitAvailability } from '../../types/property';
+import { getPropertyAvailability } from '../../lib/api/properties';
+import { formatDate } from '../../utils/date';
 import ErrorBoundary from '../../components/common/ErrorBoundary';
 
+// Next available date of a unit, as shown to renters
+const formatNextAvailable = (unit: UnitAvailability, today: string): string => {
+  if (!unit.nextAvailableDate) {
+    return 'Not currently available';
+  }
+  return unit.nextAvailableDate <= today
+    ? 'Available now'
+    : `Available ${formatDate(parseISO(unit.nextAvailableDate), 'MMM d, yyyy')}`;
+};
+
 // Interface for component props
 interface PropertyDetailsProps {
   property: Property;
@@ -34,6 +47,7 @@ const usePropertyDetails = (property: Property) => {
   const [activeImageIndex, setActiveImageIndex] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [isImageLoaded, setIsImageLoaded] = useState<boolean[]>([]);
+  const [availability, setAvailability] = useState<UnitAvailability[] | null>(null);
 
   useEffect(() => {
     // Track page view
@@ -47,6 +61,18 @@ const usePropertyDetails = (property: Property) => {
     setIsImageLoaded(new Array(property.images.length).fill(false));
   }, [property, analytics]);
 
+  // Unit calendars change with leases and applications, so they're loaded separately
+  useEffect(() => {
+    const controller = new AbortController();
+    setAvailability(null);
+    getPropertyAvailability(property.id, controller.signal)
+      .then(setAvailability)
+      .catch(() => {
+        if (!controller.signal.aborted) setAvailability([]);
+      });
+    return () => controller.abort();
+  }, [property.id]);
+
   const handleImageLoad = useCallback((index: number) => {
     setIsImageLoaded(prev => {
       const newState = [...prev];
@@ -61,7 +87,8 @@ const usePropertyDetails = (property: Property) => {
     isLoading,
     setIsLoading,
     isImageLoaded,
-    handleImageLoad
+    handleImageLoad,
+    availability
   };
 };
 
@@ -79,8 +106,10 @@ const PropertyDetails: React.FC<PropertyDetailsProps> = ({
     isLoading,
     setIsLoading,
     isImageLoaded,
-    handleImageLoad
+    handleImageLoad,
+    availability
   } = usePropertyDetails(property);
+  const today = formatDate(new Date(), 'yyyy-MM-dd');
 
   const muiTheme = useTheme();
   const isMobile = useMediaQuery(muiTheme.breakpoints.down('sm'));
@@ -239,6 +268,35 @@ const PropertyDetails: React.FC<PropertyDetailsProps> = ({
                 ))}
               </Box>
 
+              {/* Unit Availability */}
+              <Typography variant="h6" gutterBottom>
+                Availability
+              </Typography>
+              <Box sx={{ mb: 2 }}>
+                {availability === null ? (
+                  <Skeleton variant="text" width="60%" />
+                ) : availability.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Contact for availability
+                  </Typography>
+                ) : (
+                  availability.map((unit) => (
+                    <Box
+                      key={unit.unitId}
+                      sx={{ display: 'flex', justifyContent: 'space-between', py: 0.5 }}
+                    >
+                      <Typography variant="body2">Unit {unit.unitNumber}</Typography>
+                      <Typography
+                        variant="body2"
+                        color={unit.nextAvailableDate ? 'text.primary' : 'text.secondary'}
+                      >
+                        {formatNextAvailable(unit, today)}
+                      </Typography>
+                    </Box>
+                  ))
+                )}
+              </Box>
+
               {/* Action Buttons */}
               <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
                 <LoadingButton
@@ -1,9 +1,12 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { Box, Slider, Select, Checkbox, TextField, CircularProgress, Alert, Button, FormControl, InputLabel, MenuItem, FormControlLabel, Typography } from '@mui/material';
+import { Box, Slider, Select, Checkbox, TextField, CircularProgress, Alert, Button, FormControl, InputLabel, MenuItem, FormControlLabel, Typography, Dialog, DialogTitle, DialogContent, DialogActions, ToggleButton, ToggleButtonGroup, Autocomplete } from '@mui/material';
 import { useMediaQuery } from '@mui/material';
 import { useDebounce } from 'use-debounce';
-import { PropertyType } from '../../types/property';
+import { PropertyType, SavedSearch, SavedSearchCriteria, SavedSearchFrequency, SearchSuggestion, SuggestionType, TravelMode } from '../../types/property';
 import { getCurrentPosition } from '../../utils/geolocation';
+import { createSavedSearch } from '../../lib/api/savedSearches';
+import { getSearchSuggestions } from '../../lib/api/properties';
+import useAuth from '../../hooks/useAuth';
 
 interface PropertyFiltersProps {
   onFilterChange: (filters: PropertyFilterState) => void;
@@ -11,9 +14,11 @@ interface PropertyFiltersProps {
   isLoading?: boolean;
   error?: string;
   onReset?: () => void;
+  onSearchSaved?: (savedSearch: SavedSearch) => void;
 }
 
-interface PropertyFilterState {
+export interface PropertyFilterState {
+  query?: string;
   propertyType: PropertyType | '';
   priceRange: {
     min: number;
@@ -23,12 +28,19 @@ interface PropertyFilterState {
   bedrooms: number;
   bathrooms: number;
   amenities: string[];
+  /** Move-in date range, `YYYY-MM-DD` */
+  moveInFrom?: string;
+  moveInTo?: string;
   location?: {
     latitude: number;
     longitude: number;
     address?: string;
   };
   radius: number;
+  commute?: {
+    maxMinutes: number;
+    mode: TravelMode;
+  };
   validation: {
     [key: string]: {
       isValid: boolean;
@@ -39,6 +51,20 @@ interface PropertyFilterState {
 
 const DEFAULT_PRICE_RANGE = { min: 0, max: 10000, isValid: true };
 const DEFAULT_RADIUS = 10;
+const DEFAULT_COMMUTE = { maxMinutes: 30, mode: TravelMode.TRANSIT };
+const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  [TravelMode.DRIVING]: 'Driving',
+  [TravelMode.TRANSIT]: 'Transit',
+  [TravelMode.CYCLING]: 'Cycling',
+  [TravelMode.WALKING]: 'Walking'
+};
+const MIN_SUGGEST_LENGTH = 2;
+const SUGGESTION_LABELS: Record<SuggestionType, string> = {
+  [SuggestionType.NEIGHBORHOOD]: 'Neighborhood',
+  [SuggestionType.CITY]: 'City',
+  [SuggestionType.PROPERTY]: 'Property',
+  [SuggestionType.AMENITY]: 'Amenity'
+};
 const COMMON_AMENITIES = [
   'Parking',
   'Pool',
@@ -50,23 +76,74 @@ const COMMON_AMENITIES = [
   'Furnished'
 ];
 
+/**
+ * Converts the filter panel state into saved search criteria, leaving out
+ * filters still at their defaults
+ */
+export const toSavedSearchCriteria = (filters: PropertyFilterState): SavedSearchCriteria => {
+  const criteria: SavedSearchCriteria = {};
+
+  if (filters.query) {
+    criteria.query = filters.query;
+  }
+  if (filters.propertyType) {
+    criteria.propertyTypes = [filters.propertyType];
+  }
+  if (filters.priceRange.min > DEFAULT_PRICE_RANGE.min || filters.priceRange.max < DEFAULT_PRICE_RANGE.max) {
+    criteria.priceRange = {
+      ...(filters.priceRange.min > DEFAULT_PRICE_RANGE.min ? { min: filters.priceRange.min } : {}),
+      ...(filters.priceRange.max < DEFAULT_PRICE_RANGE.max ? { max: filters.priceRange.max } : {})
+    };
+  }
+  // '5+' style options have no exact count to match on
+  if (typeof filters.bedrooms === 'number' && filters.bedrooms > 0) {
+    criteria.bedrooms = filters.bedrooms;
+  }
+  if (typeof filters.bathrooms === 'number' && filters.bathrooms > 0) {
+    criteria.bathrooms = filters.bathrooms;
+  }
+  if (filters.amenities.length) {
+    criteria.amenities = filters.amenities;
+  }
+  if (filters.moveInFrom) {
+    criteria.moveInFrom = filters.moveInFrom;
+  }
+  if (filters.moveInTo) {
+    criteria.moveInTo = filters.moveInTo;
+  }
+  if (filters.location) {
+    criteria.latitude = filters.location.latitude;
+    criteria.longitude = filters.location.longitude;
+    criteria.radius = filters.radius;
+    criteria.unit = 'mi';
+  }
+
+  return criteria;
+};
+
 export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
   onFilterChange,
   initialFilters,
   isLoading = false,
   error,
-  onReset
+  onReset,
+  onSearchSaved
 }) => {
   const isMobile = useMediaQuery('(max-width:768px)');
+  const { isAuthenticated } = useAuth();
   
   const [filters, setFilters] = useState<PropertyFilterState>({
+    query: initialFilters?.query,
     propertyType: initialFilters?.propertyType || '',
     priceRange: initialFilters?.priceRange || DEFAULT_PRICE_RANGE,
     bedrooms: initialFilters?.bedrooms || 0,
     bathrooms: initialFilters?.bathrooms || 0,
     amenities: initialFilters?.amenities || [],
+    moveInFrom: initialFilters?.moveInFrom,
+    moveInTo: initialFilters?.moveInTo,
     location: initialFilters?.location,
     radius: initialFilters?.radius || DEFAULT_RADIUS,
+    commute: initialFilters?.commute,
     validation: {
       priceRange: { isValid: true },
       location: { isValid: true }
@@ -74,12 +151,44 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
   });
 
   const [debouncedFilters] = useDebounce(filters, 500);
+  const [searchText, setSearchText] = useState(initialFilters?.query || '');
+  const [debouncedSearchText] = useDebounce(searchText, 250);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [suggestionsLoading, setSuggestionsLoading] = useState(false);
   const [locationLoading, setLocationLoading] = useState(false);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [searchName, setSearchName] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<SavedSearchFrequency>(SavedSearchFrequency.DAILY);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saveSuccess, setSaveSuccess] = useState(false);
 
   useEffect(() => {
     onFilterChange(debouncedFilters);
   }, [debouncedFilters, onFilterChange]);
 
+  // Fetch typeahead suggestions, cancelling the previous request as the renter types
+  useEffect(() => {
+    const text = debouncedSearchText.trim();
+    if (text.length < MIN_SUGGEST_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSuggestionsLoading(true);
+    getSearchSuggestions(text, controller.signal)
+      .then(setSuggestions)
+      .catch(() => {
+        if (!controller.signal.aborted) setSuggestions([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSuggestionsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [debouncedSearchText]);
+
   const handleFilterChange = useCallback((filterName: string, value: any) => {
     setFilters(prev => {
       const validation = { ...prev.validation };
@@ -94,6 +203,16 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
         };
       }
 
+      // Validate move-in range
+      if (filterName === 'moveInFrom' || filterName === 'moveInTo') {
+        const moveIn = { moveInFrom: prev.moveInFrom, moveInTo: prev.moveInTo, [filterName]: value };
+        const isValid = !moveIn.moveInFrom || !moveIn.moveInTo || moveIn.moveInFrom <= moveIn.moveInTo;
+        validation.moveIn = {
+          isValid,
+          message: isValid ? undefined : 'Latest move-in must be after earliest'
+        };
+      }
+
       return {
         ...prev,
         [filterName]: value,
@@ -102,6 +221,20 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
     });
   }, []);
 
+  // Amenity suggestions toggle the amenity filter; everything else becomes the search text
+  const handleSuggestionSelect = (selection: SearchSuggestion | string | null) => {
+    if (selection && typeof selection !== 'string' && selection.type === SuggestionType.AMENITY) {
+      if (!filters.amenities.includes(selection.value)) {
+        handleFilterChange('amenities', [...filters.amenities, selection.value]);
+      }
+      setSearchText('');
+      return;
+    }
+
+    const query = typeof selection === 'string' ? selection.trim() : selection?.value;
+    handleFilterChange('query', query || undefined);
+  };
+
   const handleLocationSearch = async (searchQuery: string) => {
     setLocationLoading(true);
     try {
@@ -131,6 +264,7 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
   };
 
   const handleReset = () => {
+    setSearchText('');
     setFilters({
       propertyType: '',
       priceRange: DEFAULT_PRICE_RANGE,
@@ -146,6 +280,26 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
     onReset?.();
   };
 
+  const handleSaveSearch = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const savedSearch = await createSavedSearch({
+        name: searchName.trim(),
+        criteria: toSavedSearchCriteria(filters),
+        frequency: alertFrequency
+      });
+      setSaveDialogOpen(false);
+      setSearchName('');
+      setSaveSuccess(true);
+      onSearchSaved?.(savedSearch);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <Box
       sx={{
@@ -166,6 +320,42 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
         </Alert>
       )}
 
+      <Autocomplete
+        freeSolo
+        fullWidth
+        options={suggestions}
+        // Suggestions arrive ranked and typo-tolerant; don't filter them again
+        filterOptions={(options) => options}
+        getOptionLabel={(option) => typeof option === 'string' ? option : option.value}
+        inputValue={searchText}
+        onInputChange={(_, value, reason) => {
+          setSearchText(value);
+          if (reason === 'clear') handleFilterChange('query', undefined);
+        }}
+        onChange={(_, value) => handleSuggestionSelect(value)}
+        loading={suggestionsLoading}
+        renderOption={(props, option) => (
+          <li {...props} key={`${option.type}:${option.propertyId || option.value}`}>
+            <Box>
+              <Typography variant="body2">{option.value}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {SUGGESTION_LABELS[option.type]}
+                {option.city && ` · ${option.city}`}
+                {option.type !== SuggestionType.PROPERTY && ` · ${option.listingCount} listings`}
+              </Typography>
+            </Box>
+          </li>
+        )}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label="Search"
+            placeholder="Neighborhood, city, property or amenity"
+            inputProps={{ ...params.inputProps, maxLength: 100 }}
+          />
+        )}
+      />
+
       <FormControl fullWidth>
         <InputLabel id="property-type-label">Property Type</InputLabel>
         <Select
@@ -231,6 +421,28 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
         </Select>
       </FormControl>
 
+      <Box sx={{ display: 'flex', gap: 1, width: '100%' }}>
+        <TextField
+          type="date"
+          label="Move in from"
+          value={filters.moveInFrom || ''}
+          onChange={(e) => handleFilterChange('moveInFrom', e.target.value || undefined)}
+          InputLabelProps={{ shrink: true }}
+          fullWidth
+        />
+        <TextField
+          type="date"
+          label="Move in by"
+          value={filters.moveInTo || ''}
+          onChange={(e) => handleFilterChange('moveInTo', e.target.value || undefined)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: filters.moveInFrom }}
+          error={filters.validation.moveIn?.isValid === false}
+          helperText={filters.validation.moveIn?.message}
+          fullWidth
+        />
+      </Box>
+
       <Box sx={{ width: '100%' }}>
         <TextField
           fullWidth
@@ -244,6 +456,21 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
           }}
         />
         {filters.location && (
+          <ToggleButtonGroup
+            value={filters.commute ? 'commute' : 'radius'}
+            exclusive
+            size="small"
+            onChange={(_, value) => {
+              if (value) handleFilterChange('commute', value === 'commute' ? DEFAULT_COMMUTE : undefined);
+            }}
+            aria-label="Search area"
+            sx={{ mt: 2 }}
+          >
+            <ToggleButton value="radius">Distance</ToggleButton>
+            <ToggleButton value="commute">Travel time</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+        {filters.location && !filters.commute && (
           <Slider
             value={filters.radius}
             onChange={(_, value) => handleFilterChange('radius', value)}
@@ -255,6 +482,41 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
             sx={{ mt: 2 }}
           />
         )}
+        {filters.location && filters.commute && (
+          <Box sx={{ mt: 2 }}>
+            <Typography id="commute-minutes-slider" variant="body2" gutterBottom>
+              Within {filters.commute.maxMinutes} minutes
+            </Typography>
+            <Slider
+              value={filters.commute.maxMinutes}
+              onChange={(_, value) => handleFilterChange('commute', {
+                ...filters.commute,
+                maxMinutes: value as number
+              })}
+              aria-labelledby="commute-minutes-slider"
+              valueLabelDisplay="auto"
+              min={5}
+              max={90}
+              step={5}
+            />
+            <FormControl fullWidth size="small">
+              <InputLabel id="travel-mode-label">Travel mode</InputLabel>
+              <Select
+                labelId="travel-mode-label"
+                value={filters.commute.mode}
+                onChange={(e) => handleFilterChange('commute', {
+                  ...filters.commute,
+                  mode: e.target.value as TravelMode
+                })}
+                label="Travel mode"
+              >
+                {Object.values(TravelMode).map((mode) => (
+                  <MenuItem key={mode} value={mode}>{TRAVEL_MODE_LABELS[mode]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+        )}
       </Box>
 
       <Box sx={{ width: '100%' }}>
@@ -288,6 +550,69 @@ export const PropertyFilters: React.FC<PropertyFiltersProps> = ({
       >
         Reset Filters
       </Button>
+
+      {isAuthenticated && (
+        <Button
+          onClick={() => {
+            setSaveSuccess(false);
+            setSaveDialogOpen(true);
+          }}
+          variant="contained"
+          disabled={isLoading || !filters.validation.priceRange?.isValid || filters.validation.moveIn?.isValid === false}
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          Save Search
+        </Button>
+      )}
+
+      {saveSuccess && (
+        <Alert severity="success" onClose={() => setSaveSuccess(false)}>
+          Search saved. We&apos;ll let you know about new matching listings.
+        </Alert>
+      )}
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Save Search</DialogTitle>
+        <DialogContent>
+          {saveError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {saveError}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            label="Search name"
+            value={searchName}
+            onChange={(e) => setSearchName(e.target.value)}
+            inputProps={{ maxLength: 100 }}
+            sx={{ mt: 1, mb: 2 }}
+          />
+          <FormControl fullWidth>
+            <InputLabel id="alert-frequency-label">Alerts</InputLabel>
+            <Select
+              labelId="alert-frequency-label"
+              value={alertFrequency}
+              onChange={(e) => setAlertFrequency(e.target.value as SavedSearchFrequency)}
+              label="Alerts"
+            >
+              <MenuItem value={SavedSearchFrequency.INSTANT}>As soon as a listing matches</MenuItem>
+              <MenuItem value={SavedSearchFrequency.DAILY}>Daily digest</MenuItem>
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSaveSearch}
+            variant="contained"
+            disabled={saving || !searchName.trim()}
+          >
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import mapboxgl from 'mapbox-gl'; // @version ^2.15.0
 import { initializeMap, addMarker, fitBounds, createPopup, MapOptions } from '../../lib/mapbox';
-import { Property } from '../../types/property';
+import { MapPoint, Property } from '../../types/property';
 
 // Interface for component props with comprehensive options
 interface PropertyMapProps {
@@ -15,8 +15,42 @@ interface PropertyMapProps {
   onMapLoad?: (map: mapboxgl.Map) => void;
   onMarkerClick?: (property: Property) => void;
   onError?: (error: Error) => void;
+  drawingEnabled?: boolean;
+  searchArea?: MapPoint[];
+  onAreaDrawn?: (polygon: MapPoint[]) => void;
 }
 
+const SEARCH_AREA_SOURCE = 'search-area';
+const AREA_COLOR = '#1976d2';
+
+// Renders the drawn search area, or the outline still being drawn
+const renderSearchArea = (map: mapboxgl.Map, points: MapPoint[], closed: boolean) => {
+  const coordinates = points.map(({ latitude, longitude }) => [longitude, latitude]);
+  const data: GeoJSON.Feature = closed && coordinates.length >= 3
+    ? { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] } }
+    : { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } };
+
+  const source = map.getSource(SEARCH_AREA_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+
+  map.addSource(SEARCH_AREA_SOURCE, { type: 'geojson', data });
+  map.addLayer({
+    id: `${SEARCH_AREA_SOURCE}-fill`,
+    type: 'fill',
+    source: SEARCH_AREA_SOURCE,
+    paint: { 'fill-color': AREA_COLOR, 'fill-opacity': 0.15 }
+  });
+  map.addLayer({
+    id: `${SEARCH_AREA_SOURCE}-line`,
+    type: 'line',
+    source: SEARCH_AREA_SOURCE,
+    paint: { 'line-color': AREA_COLOR, 'line-width': 2 }
+  });
+};
+
 // Custom hook for map initialization and lifecycle management
 const useMapInitialization = (
   containerRef: React.RefObject<HTMLDivElement>,
@@ -88,9 +122,13 @@ export const PropertyMap: React.FC<PropertyMapProps> = ({
   onMapLoad,
   onMarkerClick,
   onError,
+  drawingEnabled = false,
+  searchArea,
+  onAreaDrawn,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const draftRef = useRef<MapPoint[]>([]);
 
   // Convert single property to array for consistent handling
   const propertyArray = Array.isArray(properties) ? properties : [properties];
@@ -155,6 +193,47 @@ export const PropertyMap: React.FC<PropertyMapProps> = ({
     }
   }, [map, loading, propertyArray, darkMode, clusteringEnabled, onMapLoad, onMarkerClick, onError]);
 
+  // Show the current search area when not drawing a new one
+  useEffect(() => {
+    if (!map || loading || drawingEnabled) return;
+    renderSearchArea(map, searchArea || [], true);
+  }, [map, loading, drawingEnabled, searchArea]);
+
+  // Click adds a vertex; double-click closes the polygon
+  useEffect(() => {
+    if (!map || loading || !drawingEnabled) return;
+
+    draftRef.current = [];
+    renderSearchArea(map, [], false);
+    map.doubleClickZoom.disable();
+    map.getCanvas().style.cursor = 'crosshair';
+
+    const handleClick = (event: mapboxgl.MapMouseEvent) => {
+      // Second click of a double-click lands on the vertex just added
+      if (event.originalEvent.detail > 1) return;
+      draftRef.current = [...draftRef.current, { latitude: event.lngLat.lat, longitude: event.lngLat.lng }];
+      renderSearchArea(map, draftRef.current, false);
+    };
+
+    const handleDoubleClick = (event: mapboxgl.MapMouseEvent) => {
+      event.preventDefault();
+      if (draftRef.current.length < 3) return;
+      renderSearchArea(map, draftRef.current, true);
+      onAreaDrawn?.(draftRef.current);
+      draftRef.current = [];
+    };
+
+    map.on('click', handleClick);
+    map.on('dblclick', handleDoubleClick);
+
+    return () => {
+      map.off('click', handleClick);
+      map.off('dblclick', handleDoubleClick);
+      map.doubleClickZoom.enable();
+      map.getCanvas().style.cursor = '';
+    };
+  }, [map, loading, drawingEnabled, onAreaDrawn]);
+
   return (
     <div
       ref={containerRef}
@@ -166,7 +245,7 @@ export const PropertyMap: React.FC<PropertyMapProps> = ({
         overflow: 'hidden',
       }}
       role="region"
-      aria-label="Property Map"
+      aria-label={drawingEnabled ? 'Property Map - click to add points, double-click to finish' : 'Property Map'}
     >
       {loading && (
         <div
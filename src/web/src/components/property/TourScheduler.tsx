@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material'; // @mui/material@5.14.0
+import LoadingButton from '../common/LoadingButton';
+import { bookTour, downloadTourInvite, getTourSlots } from '../../lib/api/tours';
+import { Tour, TourSlot, TourType } from '../../types/tour';
+
+const TOUR_TYPE_LABELS: Record<TourType, string> = {
+  [TourType.IN_PERSON]: 'In-person',
+  [TourType.SELF_GUIDED]: 'Self-guided'
+};
+
+const MAX_NOTES_LENGTH = 1000;
+
+interface TourSchedulerProps {
+  propertyId: string;
+  onBooked?: (tour: Tour) => void;
+}
+
+const formatDay = (date: Date): string =>
+  new Intl.DateTimeFormat(undefined, { weekday: 'short', month: 'short', day: 'numeric' }).format(date);
+
+const formatTime = (date: Date): string =>
+  new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit' }).format(date);
+
+/**
+ * Lets renters pick a published availability slot and book an in-person
+ * or self-guided tour, then download the calendar invite
+ */
+const TourScheduler: React.FC<TourSchedulerProps> = ({ propertyId, onBooked }) => {
+  const [slots, setSlots] = useState<TourSlot[]>([]);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(null);
+  const [tourType, setTourType] = useState<TourType | null>(null);
+  const [notes, setNotes] = useState('');
+  const [bookedTour, setBookedTour] = useState<Tour | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBooking, setIsBooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSlots = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSlots(await getTourSlots(propertyId));
+      setError(null);
+    } catch (err) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, TourSlot[]>();
+    slots.forEach((slot) => {
+      const day = formatDay(new Date(slot.startsAt));
+      groups.set(day, [...(groups.get(day) || []), slot]);
+    });
+    return Array.from(groups.entries());
+  }, [slots]);
+
+  const selectedSlot = slots.find((slot) => slot.id === selectedSlotId);
+
+  const handleSelectSlot = useCallback((slot: TourSlot) => {
+    setSelectedSlotId(slot.id);
+    setTourType((current) =>
+      current && slot.tourTypes.includes(current) ? current : slot.tourTypes[0]
+    );
+  }, []);
+
+  const handleBook = useCallback(async () => {
+    if (!selectedSlot || !tourType) return;
+
+    setIsBooking(true);
+    setError(null);
+    try {
+      const tour = await bookTour({
+        slotId: selectedSlot.id,
+        type: tourType,
+        notes: notes.trim() || undefined
+      });
+      setBookedTour(tour);
+      onBooked?.(tour);
+    } catch (err) {
+      setError(err.message);
+      // The slot may have just been taken; refresh availability
+      if (err.status === 409) {
+        setSelectedSlotId(null);
+        await loadSlots();
+      }
+    } finally {
+      setIsBooking(false);
+    }
+  }, [selectedSlot, tourType, notes, onBooked, loadSlots]);
+
+  const handleDownloadInvite = useCallback(async () => {
+    if (!bookedTour) return;
+
+    try {
+      const file = await downloadTourInvite(bookedTour.id);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tour-${bookedTour.id}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err.message);
+    }
+  }, [bookedTour]);
+
+  if (bookedTour) {
+    const start = new Date(bookedTour.startsAt);
+    return (
+      <Paper variant="outlined" sx={{ p: 3 }}>
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Your {TOUR_TYPE_LABELS[bookedTour.type].toLowerCase()} tour is booked for{' '}
+          {formatDay(start)} at {formatTime(start)}. A confirmation has been sent to you.
+        </Alert>
+        <LoadingButton variant="outlined" onClick={handleDownloadInvite}>
+          Add to calendar
+        </LoadingButton>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper variant="outlined" sx={{ p: 3 }} component="section" aria-label="Schedule a tour">
+      <Typography variant="h6" gutterBottom>
+        Schedule a tour
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" py={2}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : slotsByDay.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No tour times are currently available. Please check back later.
+        </Typography>
+      ) : (
+        <>
+          {slotsByDay.map(([day, daySlots]) => (
+            <Box key={day} mb={2}>
+              <Typography variant="subtitle2" gutterBottom>
+                {day}
+              </Typography>
+              <Box display="flex" flexWrap="wrap" gap={1}>
+                {daySlots.map((slot) => (
+                  <Chip
+                    key={slot.id}
+                    label={formatTime(new Date(slot.startsAt))}
+                    color={slot.id === selectedSlotId ? 'primary' : 'default'}
+                    variant={slot.id === selectedSlotId ? 'filled' : 'outlined'}
+                    onClick={() => handleSelectSlot(slot)}
+                    aria-pressed={slot.id === selectedSlotId}
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))}
+
+          {selectedSlot && (
+            <Box mt={2} display="flex" flexDirection="column" gap={2}>
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={tourType}
+                onChange={(_, value: TourType | null) => value && setTourType(value)}
+                aria-label="Tour type"
+              >
+                {selectedSlot.tourTypes.map((type) => (
+                  <ToggleButton key={type} value={type}>
+                    {TOUR_TYPE_LABELS[type]}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+
+              <TextField
+                label="Notes for the property manager (optional)"
+                value={notes}
+                onChange={(event) => setNotes(event.target.value.slice(0, MAX_NOTES_LENGTH))}
+                multiline
+                minRows={2}
+              />
+
+              <LoadingButton
+                variant="contained"
+                loading={isBooking}
+                disabled={!tourType}
+                onClick={handleBook}
+              >
+                Book tour
+              </LoadingButton>
+            </Box>
+          )}
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default TourScheduler;
@@ -6,6 +6,7 @@ import { User } from '../../types/auth';
 import { 
   authSlice, 
   loginThunk, 
+  loginWithPasskeyThunk,
   verifyMFAThunk, 
   refreshTokenThunk,
   selectAuthState,
@@ -103,6 +104,21 @@ export const useAuth = () => {
     }
   };
 
+  /**
+   * Passkey login handler; passkeys satisfy MFA on their own
+   */
+  const loginWithPasskey = async (): Promise<void> => {
+    try {
+      await dispatch(loginWithPasskeyThunk()).unwrap();
+
+      // Initialize session monitoring
+      monitorSession();
+      syncSession();
+    } catch (error) {
+      throw new Error('Passkey authentication failed');
+    }
+  };
+
   /**
    * Biometric authentication handler
    */
@@ -198,6 +214,7 @@ export const useAuth = () => {
     
     // Authentication methods
     login,
+    loginWithPasskey,
     loginWithBiometric,
     verifyMFA,
     logout: handleLogout,
@@ -6,14 +6,22 @@ import {
   NotificationFilter, 
   NotificationPreference,
   NotificationStatus,
+  NotificationStreamEvent,
   NotificationType 
 } from '../types/notification';
+import { streamNotifications } from '../lib/api/notifications';
+import {
+  fetchNotifications,
+  handleRealTimeUpdate,
+  markAsRead as markNotificationRead,
+  markAllAsRead as markAllNotificationsRead
+} from '../store/slices/notificationSlice';
 
 // Constants for configuration
 const CACHE_KEY = 'notifications_cache_v1';
 const DEBOUNCE_DELAY = 300;
-const RETRY_ATTEMPTS = 3;
 const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
 
 interface UseNotificationsOptions {
   filter?: NotificationFilter;
@@ -40,7 +48,8 @@ export function useNotifications({
   enableRealtime = false 
 }: UseNotificationsOptions = {}) {
   const dispatch = useDispatch();
-  const wsRef = useRef<WebSocket | null>(null);
+  const streamRef = useRef<AbortController | null>(null);
+  const lastEventIdRef = useRef<string | undefined>(undefined);
   const retryCountRef = useRef<number>(0);
   
   // Redux selectors
@@ -48,6 +57,10 @@ export function useNotifications({
   const preferences = useSelector((state: any) => state.notifications.preferences);
   const isLoading = useSelector((state: any) => state.notifications.loading);
   const error = useSelector((state: any) => state.notifications.error);
+  const unreadCount = useSelector((state: any) => state.notifications.unreadCount);
+  const storedFilter = useSelector((state: any) => state.notifications.filter);
+  const storedFilterRef = useRef<NotificationFilter>(storedFilter);
+  storedFilterRef.current = storedFilter;
   
   // Local state
   const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
@@ -72,33 +85,67 @@ export function useNotifications({
     }
   }, []);
 
-  // WebSocket connection management
-  const initializeWebSocket = useCallback(() => {
-    if (!enableRealtime || wsRef.current) return;
+  // Real-time stream events
+  const handleStreamEvent = useCallback((event: NotificationStreamEvent) => {
+    retryCountRef.current = 0;
+    if (event.id) {
+      lastEventIdRef.current = event.id;
+    }
 
-    const ws = new WebSocket(process.env.REACT_APP_WS_URL as string);
-    
-    ws.onopen = () => {
-      retryCountRef.current = 0;
-      dispatch({ type: 'NOTIFICATIONS_WS_CONNECTED' });
-    };
+    switch (event.type) {
+      case 'notification':
+        dispatch(handleRealTimeUpdate({ notification: event.notification, action: 'new' }));
+        break;
+      case 'read':
+        dispatch(markNotificationRead(event.notificationId));
+        break;
+      case 'read-all':
+        dispatch(markAllNotificationsRead(undefined));
+        break;
+      case 'reset': {
+        // Missed events are gone from the stream; reload the feed up to now
+        const current = storedFilterRef.current;
+        dispatch(fetchNotifications({ ...current, dateRange: { ...current.dateRange, end: new Date() } }) as any);
+        break;
+      }
+    }
+  }, [dispatch]);
 
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      dispatch({ type: 'NOTIFICATIONS_RECEIVED', payload: data });
-    };
+  // Stream connection management; reconnects resume after the last event received
+  const initializeStream = useCallback(() => {
+    if (!enableRealtime || streamRef.current) return;
+
+    const controller = new AbortController();
+    streamRef.current = controller;
+
+    const connect = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          await streamNotifications({
+            lastEventId: lastEventIdRef.current,
+            onEvent: handleStreamEvent,
+            signal: controller.signal
+          });
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.error('Notification stream error:', error);
+        }
 
-    ws.onclose = () => {
-      if (retryCountRef.current < RETRY_ATTEMPTS) {
-        setTimeout(() => {
-          retryCountRef.current++;
-          initializeWebSocket();
-        }, RETRY_DELAY * retryCountRef.current);
+        const delay = Math.min(RETRY_DELAY * 2 ** retryCountRef.current, MAX_RETRY_DELAY);
+        retryCountRef.current++;
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     };
 
-    wsRef.current = ws;
-  }, [dispatch, enableRealtime]);
+    connect();
+  }, [enableRealtime, handleStreamEvent]);
+
+  const closeStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.abort();
+      streamRef.current = null;
+    }
+  }, []);
 
   // API calls with optimistic updates
   const loadNotifications = useCallback(async (filter?: NotificationFilter) => {
@@ -228,19 +275,14 @@ export function useNotifications({
     };
   }, []);
 
-  // Effect for WebSocket connection
+  // Effect for the real-time stream
   useEffect(() => {
     if (enableRealtime) {
-      initializeWebSocket();
+      initializeStream();
     }
     
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-    };
-  }, [enableRealtime, initializeWebSocket]);
+    return closeStream;
+  }, [enableRealtime, initializeStream, closeStream]);
 
   // Effect for filter updates
   useEffect(() => {
@@ -264,6 +306,7 @@ export function useNotifications({
     error,
     isOnline,
     hasUnread,
+    unreadCount,
     
     // Actions
     loadNotifications,
@@ -273,12 +316,7 @@ export function useNotifications({
     clearAll,
     
     // Real-time control
-    enableRealtime: initializeWebSocket,
-    disableRealtime: () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-    }
+    enableRealtime: initializeStream,
+    disableRealtime: closeStream
   };
 }
\ No newline at end of file
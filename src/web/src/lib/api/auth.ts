@@ -1,5 +1,9 @@
 // @package axios@1.4.0
-import axiosInstance from '../axios';
+import axiosInstance, { refreshSession } from '../axios';
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  RegistrationResponseJSON
+} from '@simplewebauthn/types'; // @simplewebauthn/types@9.0.1
 import {
   LoginRequest,
   SignupRequest,
@@ -7,7 +11,12 @@ import {
   MFARequest,
   AuthTokens,
   PasswordResetRequest,
-  PasswordResetConfirm
+  PasswordResetConfirm,
+  MfaStatus,
+  MfaEnrollment,
+  MfaDisableRequest,
+  Passkey,
+  Session
 } from '../../types/auth';
 
 // Constants for rate limiting and security
@@ -214,6 +223,212 @@ export const resetPassword = async (resetData: PasswordResetConfirm): Promise<vo
   }
 };
 
+/**
+ * Retrieves the current user's MFA status
+ * @returns Promise with MFA status
+ */
+export const getMfaStatus = async (): Promise<MfaStatus> => {
+  try {
+    const response = await axiosInstance.get('/auth/mfa');
+    return response.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Starts authenticator enrollment
+ * @returns Promise with the secret and QR code to scan
+ */
+export const startMfaEnrollment = async (): Promise<MfaEnrollment> => {
+  try {
+    const response = await axiosInstance.post('/auth/mfa/setup');
+    return response.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Confirms enrollment with the first code from the authenticator app
+ * @param mfaToken - Code from the authenticator app
+ * @returns Promise with the backup codes
+ */
+export const confirmMfaEnrollment = async (mfaToken: string): Promise<string[]> => {
+  try {
+    const response = await axiosInstance.post('/auth/mfa/confirm', { mfaToken });
+    // Sessions of roles that enforce MFA stay limited to enrollment until new tokens are issued
+    await refreshSession().catch(() => undefined);
+    return response.data.data.backupCodes;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Replaces the backup codes with a new set
+ * @param mfaToken - Code from the authenticator app
+ * @returns Promise with the new backup codes
+ */
+export const regenerateBackupCodes = async (mfaToken: string): Promise<string[]> => {
+  try {
+    const response = await axiosInstance.post('/auth/mfa/backup-codes', { mfaToken });
+    return response.data.data.backupCodes;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Turns off MFA
+ * @param request - Password and an authenticator or backup code
+ * @returns Promise<void>
+ */
+export const disableMfa = async (request: MfaDisableRequest): Promise<void> => {
+  try {
+    await axiosInstance.post('/auth/mfa/disable', request);
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Lists the current user's passkeys
+ * @returns Promise with passkeys, newest first
+ */
+export const getPasskeys = async (): Promise<Passkey[]> => {
+  try {
+    const response = await axiosInstance.get('/auth/passkeys');
+    return response.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Requests the challenge for registering a passkey
+ * @returns Promise with WebAuthn creation options
+ */
+export const getPasskeyRegistrationOptions = async (): Promise<PublicKeyCredentialCreationOptionsJSON> => {
+  try {
+    const response = await axiosInstance.post('/auth/passkeys/options');
+    return response.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Stores a passkey created by the browser
+ * @param response - Registration response from the authenticator
+ * @param name - Label for the passkey
+ * @returns Promise with the new passkey
+ */
+export const registerPasskey = async (
+  response: RegistrationResponseJSON,
+  name?: string
+): Promise<Passkey> => {
+  try {
+    const result = await axiosInstance.post('/auth/passkeys', { response, name });
+    // A passkey also lifts the enrollment-only limit on the session
+    await refreshSession().catch(() => undefined);
+    return result.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Removes a passkey
+ * @param id - Passkey ID
+ * @returns Promise<void>
+ */
+export const removePasskey = async (id: string): Promise<void> => {
+  try {
+    await axiosInstance.delete(`/auth/passkeys/${id}`);
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Lists where the current user is signed in
+ * @returns Promise with active sessions, most recently used first
+ */
+export const getSessions = async (): Promise<Session[]> => {
+  try {
+    const response = await axiosInstance.get('/auth/sessions');
+    return response.data.data;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Signs out one session
+ * @param id - Session ID
+ * @returns Promise<void>
+ */
+export const revokeSession = async (id: string): Promise<void> => {
+  try {
+    await axiosInstance.delete(`/auth/sessions/${id}`);
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Signs out every session except the current one
+ * @returns Promise with the number of sessions signed out
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  try {
+    const response = await axiosInstance.delete('/auth/sessions');
+    return response.data.data.revoked;
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Confirms the email address named in a verification link
+ * @param token - Token from the link
+ * @returns Promise<void>
+ */
+export const verifyEmail = async (token: string): Promise<void> => {
+  try {
+    await axiosInstance.post('/auth/verify-email', { token });
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
+/**
+ * Sends the current user a new verification link
+ * @returns Promise<void>
+ */
+export const resendVerificationEmail = async (): Promise<void> => {
+  try {
+    await axiosInstance.post('/auth/verify-email/resend');
+  } catch (error) {
+    handleAuthError(error);
+    throw error;
+  }
+};
+
 // Utility functions
 
 /**
@@ -0,0 +1,100 @@
+// @package axios@1.4.0
+// @package axios-rate-limit@1.3.0
+// @package @types/http-errors@2.0.1
+
+import { AxiosResponse } from 'axios';
+import rateLimit from 'axios-rate-limit';
+import { ApplicationError } from 'http-errors';
+import axiosInstance from '../axios';
+import { LeaseSigningStatus } from '../../types/lease';
+
+// Configure rate limiting for lease endpoints
+const rateLimitedAxios = rateLimit(axiosInstance, {
+  maxRequests: 100,
+  perMilliseconds: 60000,
+  maxRPS: 10
+});
+
+/**
+ * Retrieves a lease with its signatures and signing audit trail
+ * @param leaseId - Unique identifier of the lease
+ * @returns Promise resolving to lease signing status
+ * @throws ApplicationError for not found or server errors
+ */
+export const getLeaseSigningStatus = async (
+  leaseId: string
+): Promise<LeaseSigningStatus> => {
+  try {
+    const response: AxiosResponse<LeaseSigningStatus> = await rateLimitedAxios.get(
+      `/leases/${leaseId}/signatures`
+    );
+
+    return response.data;
+  } catch (error) {
+    throw formatLeaseError(error, 'Error retrieving lease signing status');
+  }
+};
+
+/**
+ * Signs a lease as the current user
+ * @param leaseId - Unique identifier of the lease
+ * @param signatureImage - PNG data URL of the captured signature
+ * @returns Promise resolving to updated signing status
+ * @throws ApplicationError when out of signing order or on server errors
+ */
+export const signLease = async (
+  leaseId: string,
+  signatureImage: string
+): Promise<LeaseSigningStatus> => {
+  try {
+    const response: AxiosResponse<LeaseSigningStatus> = await rateLimitedAxios.post(
+      `/leases/${leaseId}/signatures`,
+      { signatureImage },
+      {
+        headers: {
+          'X-Request-Type': 'Lease-Sign'
+        }
+      }
+    );
+
+    return response.data;
+  } catch (error) {
+    throw formatLeaseError(error, 'Error signing lease');
+  }
+};
+
+/**
+ * Downloads the executed lease PDF
+ * @param leaseId - Unique identifier of the lease
+ * @returns Promise resolving to the PDF blob and its SHA-256 hash
+ * @throws ApplicationError when the lease is not fully executed
+ */
+export const downloadExecutedLease = async (
+  leaseId: string
+): Promise<{ file: Blob; sha256: string }> => {
+  try {
+    const response: AxiosResponse<Blob> = await rateLimitedAxios.get(
+      `/leases/${leaseId}/document`,
+      { responseType: 'blob' }
+    );
+
+    return {
+      file: response.data,
+      sha256: response.headers['x-document-sha256']
+    };
+  } catch (error) {
+    throw formatLeaseError(error, 'Error downloading executed lease');
+  }
+};
+
+/**
+ * Formats API errors with consistent structure
+ * @param error - Original error object
+ * @param message - Default error message
+ * @returns Formatted ApplicationError
+ */
+const formatLeaseError = (error: any, message: string): ApplicationError => {
+  const errorMessage = error.response?.data?.message || message;
+  const errorCode = error.response?.status || 500;
+  return new ApplicationError(errorMessage, errorCode);
+};
@@ -141,12 +141,15 @@ export class MessageManager {
   private messageQueue: Map<string, Message>;
   private encryptionKey: string;
 
-  constructor(options: { url: string; autoConnect?: boolean } = { url: '', autoConnect: true }) {
+  constructor(
+    options: { url: string; token?: string; autoConnect?: boolean } = { url: '', autoConnect: true }
+  ) {
     this.encryptionKey = process.env.NEXT_PUBLIC_MESSAGE_ENCRYPTION_KEY || '';
     this.messageQueue = new Map();
     
     this.socket = io(options.url, {
       autoConnect: options.autoConnect,
+      auth: options.token ? { token: options.token } : undefined,
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
@@ -187,6 +190,9 @@ export class MessageManager {
       // Update message queue
       this.messageQueue.set(event.message.id, event.message);
 
+      // Acknowledge receipt so the sender sees the message as delivered
+      this.socket.emit('message:delivered', { messageIds: [event.message.id] });
+
       // Emit event for UI updates
       this.emit('messageUpdated', event.message);
     } catch (error) {
@@ -1,11 +1,14 @@
 // @package axios@1.4.0
-import axiosInstance from '../axios';
+import axiosInstance, { getAuthorizationHeader } from '../axios';
 import {
   Notification,
   NotificationPreference,
   NotificationFilter,
   NotificationType,
-  NotificationStatus
+  NotificationStatus,
+  NotificationPriority,
+  NotificationStreamEvent,
+  PushDevice
 } from '../../types/notification';
 
 // API endpoint configuration
@@ -179,6 +182,189 @@ export const getPreferences = async (): Promise<NotificationPreference> => {
   }
 };
 
+/**
+ * Opens the real-time stream of new in-app notifications and read-state
+ * changes, and reads it until the server closes it
+ * @param options.lastEventId - Last event received, to resume after a reconnect
+ * @param options.onEvent - Called for each event, in order
+ * @param options.signal - Aborts the stream
+ * @returns Promise resolving when the stream ends
+ * @throws Error when the stream can't be opened
+ */
+export const streamNotifications = async ({
+  lastEventId,
+  onEvent,
+  signal
+}: {
+  lastEventId?: string;
+  onEvent: (event: NotificationStreamEvent) => void;
+  signal: AbortSignal;
+}): Promise<void> => {
+  // fetch rather than EventSource, which can't send the Authorization header
+  const authorization = await getAuthorizationHeader();
+  const response = await fetch(`${axiosInstance.defaults.baseURL}${API_ENDPOINT}/stream`, {
+    headers: {
+      Accept: 'text/event-stream',
+      ...(authorization ? { Authorization: authorization } : {}),
+      ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {})
+    },
+    credentials: 'include',
+    cache: 'no-store',
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Notification stream failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+
+    blocks.forEach((block) => {
+      const event = parseStreamEvent(block);
+      if (event) {
+        onEvent(event);
+      }
+    });
+  }
+};
+
+/**
+ * Retrieves the VAPID public key browsers subscribe to push notifications with
+ * @returns Promise with the base64url-encoded key
+ */
+export const getPushPublicKey = async (): Promise<string> => {
+  try {
+    const response = await axiosInstance.get('/push/vapid-public-key');
+    return response.data.data.publicKey;
+  } catch (error) {
+    console.error('Error fetching push public key:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists the devices the user receives push notifications on
+ * @returns Promise with registered devices, newest first
+ */
+export const getPushDevices = async (): Promise<PushDevice[]> => {
+  try {
+    const response = await axiosInstance.get('/push/subscriptions');
+    return response.data.data;
+  } catch (error) {
+    console.error('Error fetching push devices:', error);
+    throw error;
+  }
+};
+
+/**
+ * Registers this browser's push subscription
+ * @param subscription - Subscription from `PushManager.subscribe`
+ * @param deviceName - Optional label shown in the device list
+ * @returns Promise with the registered device
+ */
+export const registerPushDevice = async (
+  subscription: PushSubscription,
+  deviceName?: string
+): Promise<PushDevice> => {
+  try {
+    const response = await axiosInstance.post('/push/subscriptions', {
+      ...subscription.toJSON(),
+      deviceName
+    });
+    return response.data.data;
+  } catch (error) {
+    console.error('Error registering push device:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stops push notifications to a device
+ * @param id - Device ID
+ */
+export const removePushDevice = async (id: string): Promise<void> => {
+  try {
+    await axiosInstance.delete(`/push/subscriptions/${id}`);
+  } catch (error) {
+    console.error('Error removing push device:', error);
+    throw error;
+  }
+};
+
+// Stream parsing; the server sends one JSON data line per event
+const parseStreamEvent = (block: string): NotificationStreamEvent | null => {
+  let id: string | undefined;
+  let type = 'message';
+  let data: string | undefined;
+
+  block.split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (!line || separator === 0) {
+      return;
+    }
+
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'id') id = value;
+    if (field === 'event') type = value;
+    if (field === 'data') data = value;
+  });
+
+  if (data === undefined) {
+    return null;
+  }
+
+  const payload = JSON.parse(data);
+  switch (type) {
+    case 'notification':
+      return { id: id!, type, notification: toStreamedNotification(payload) };
+    case 'read':
+      return { id: id!, type, notificationId: payload.id, readAt: payload.readAt };
+    case 'read-all':
+      return { id: id!, type, readAt: payload.readAt };
+    case 'reset':
+      return { id, type };
+    default:
+      return null;
+  }
+};
+
+const toStreamedNotification = (payload: any): Notification => ({
+  id: payload.id,
+  type: payload.type ?? NotificationType.IN_APP,
+  priority: payload.priority > 0 ? NotificationPriority.HIGH : NotificationPriority.MEDIUM,
+  userId: '',
+  content: {
+    title: payload.content?.subject ?? '',
+    body: payload.content?.body ?? '',
+    data: payload.content?.data ?? {},
+    templateId: '',
+    templateVariables: {},
+    localeCode: ''
+  },
+  status: payload.status ?? NotificationStatus.SENT,
+  version: 1,
+  expiresAt: null,
+  sentAt: payload.createdAt ? new Date(payload.createdAt) : null,
+  deliveredAt: null,
+  readAt: null,
+  createdAt: new Date(payload.createdAt ?? Date.now()),
+  updatedAt: new Date(payload.createdAt ?? Date.now())
+});
+
 // Cache utility functions
 const getCachedData = (key: string): any | null => {
   const cached = cache.get(key);
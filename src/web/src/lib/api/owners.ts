@@ -0,0 +1,76 @@
+// @package axios@1.4.0
+// @package axios-rate-limit@1.3.0
+// @package @types/http-errors@2.0.1
+
+import { AxiosResponse } from 'axios';
+import rateLimit from 'axios-rate-limit';
+import { ApplicationError } from 'http-errors';
+import axiosInstance from '../axios';
+import { OwnerDashboard, OwnerStatementFormat } from '../../types/owner';
+
+// Configure rate limiting for owner portal endpoints
+const rateLimitedAxios = rateLimit(axiosInstance, {
+  maxRequests: 100,
+  perMilliseconds: 60000,
+  maxRPS: 10
+});
+
+/**
+ * Retrieves the signed-in owner's portfolio dashboard
+ * @param range - Optional period; month to date when omitted
+ * @returns Promise resolving to occupancy and financials per property
+ * @throws ApplicationError for server errors
+ */
+export const getOwnerDashboard = async (
+  range?: { from?: Date; to?: Date }
+): Promise<OwnerDashboard> => {
+  try {
+    const response: AxiosResponse<OwnerDashboard> = await rateLimitedAxios.get('/payments/owners/dashboard', {
+      params: {
+        from: range?.from?.toISOString(),
+        to: range?.to?.toISOString()
+      }
+    });
+
+    return response.data;
+  } catch (error) {
+    throw formatOwnerError(error, 'Error retrieving owner dashboard');
+  }
+};
+
+/**
+ * Downloads a monthly owner statement
+ * @param year - Statement year
+ * @param month - Statement month, 1-12
+ * @param format - PDF or CSV
+ * @returns Promise resolving to the statement file
+ * @throws ApplicationError for future months or server errors
+ */
+export const downloadOwnerStatement = async (
+  year: number,
+  month: number,
+  format: OwnerStatementFormat
+): Promise<Blob> => {
+  try {
+    const response: AxiosResponse<Blob> = await rateLimitedAxios.get(
+      `/payments/owners/statements/${year}/${month}`,
+      { params: { format }, responseType: 'blob' }
+    );
+
+    return response.data;
+  } catch (error) {
+    throw formatOwnerError(error, 'Error downloading owner statement');
+  }
+};
+
+/**
+ * Formats API errors with consistent structure
+ * @param error - Original error object
+ * @param message - Default error message
+ * @returns Formatted ApplicationError
+ */
+const formatOwnerError = (error: any, message: string): ApplicationError => {
+  const errorMessage = error.response?.data?.message || message;
+  const errorCode = error.response?.status || 500;
+  return new ApplicationError(errorMessage, errorCode);
+};
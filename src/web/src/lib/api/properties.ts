@@ -11,6 +11,11 @@ import {
   PropertyType, 
   PropertyStatus,
   PropertySearchFilters,
+  SearchSuggestion,
+  SuggestionType,
+  TravelMode,
+  UnavailabilityReason,
+  UnitAvailability,
   CreatePropertyRequest,
   UpdatePropertyRequest
 } from '../../types/property';
@@ -31,7 +36,10 @@ const RETRY_CONFIG = {
 retry(axiosInstance, RETRY_CONFIG);
 
 // Validation schemas
+const calendarDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
 const propertySearchSchema = z.object({
+  query: z.string().max(100).optional(),
   type: z.nativeEnum(PropertyType).optional(),
   minPrice: z.number().min(0).optional(),
   maxPrice: z.number().min(0).optional(),
@@ -40,13 +48,25 @@ const propertySearchSchema = z.object({
   minSquareFeet: z.number().min(0).optional(),
   maxSquareFeet: z.number().min(0).optional(),
   amenities: z.array(z.string()).optional(),
-  availableFrom: z.date().optional(),
+  moveInFrom: calendarDaySchema.optional(),
+  moveInTo: calendarDaySchema.optional(),
   location: z.object({
     latitude: z.number(),
     longitude: z.number(),
     radiusInMiles: z.number().min(0)
+  }).optional(),
+  polygon: z.array(z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180)
+  })).min(3).max(100).optional(),
+  commute: z.object({
+    maxMinutes: z.number().int().min(1).max(90),
+    mode: z.nativeEnum(TravelMode)
   }).optional()
-});
+}).refine(
+  (filters) => !filters.moveInFrom || !filters.moveInTo || filters.moveInFrom <= filters.moveInTo,
+  { message: 'Move-in range must not end before it starts', path: ['moveInTo'] }
+);
 
 const propertyResponseSchema = z.object({
   id: z.string().uuid(),
@@ -58,6 +78,31 @@ const propertyResponseSchema = z.object({
 
 const propertyArraySchema = z.array(propertyResponseSchema);
 
+const unitAvailabilityArraySchema = z.array(z.object({
+  unitId: z.string(),
+  unitNumber: z.string(),
+  turnoverDays: z.number(),
+  nextAvailableDate: calendarDaySchema.nullable(),
+  windows: z.array(z.object({
+    from: calendarDaySchema.nullable(),
+    until: calendarDaySchema.nullable()
+  })),
+  blocks: z.array(z.object({
+    reason: z.nativeEnum(UnavailabilityReason),
+    startsOn: calendarDaySchema,
+    endsOn: calendarDaySchema.nullable(),
+    sourceId: z.string()
+  }))
+}));
+
+const suggestionArraySchema = z.array(z.object({
+  type: z.nativeEnum(SuggestionType),
+  value: z.string(),
+  propertyId: z.string().optional(),
+  city: z.string().optional(),
+  listingCount: z.number()
+}));
+
 /**
  * Searches properties based on provided filters with caching and request cancellation
  * @param filters - Search criteria for properties
@@ -82,10 +127,7 @@ export const searchProperties = async (
     }
 
     // Make API request with abort signal
-    const response = await axiosInstance.get('/api/properties/search', {
-      params: validatedFilters,
-      signal
-    });
+    const response = await requestSearch(validatedFilters, signal);
 
     // Validate response
     const properties = propertyArraySchema.parse(response.data);
@@ -102,6 +144,49 @@ export const searchProperties = async (
   }
 };
 
+/**
+ * Sends a search to the endpoint matching its area: a drawn polygon, a
+ * travel time from the location, or the default radius search
+ */
+const requestSearch = (filters: z.infer<typeof propertySearchSchema>, signal?: AbortSignal) => {
+  const { polygon, commute, location, ...rest } = filters;
+
+  if (polygon) {
+    return axiosInstance.post('/api/properties/search/polygon', { ...rest, polygon }, { signal });
+  }
+
+  if (commute && location) {
+    return axiosInstance.post('/api/properties/search/commute', {
+      ...rest,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      ...commute
+    }, { signal });
+  }
+
+  return axiosInstance.get('/api/properties/search', {
+    params: { ...rest, location },
+    signal
+  });
+};
+
+/**
+ * Retrieves typeahead suggestions for partially typed search text
+ * @param query - Text typed so far
+ * @param signal - AbortSignal to cancel when the renter keeps typing
+ * @returns Promise resolving to ranked suggestions
+ */
+export const getSearchSuggestions = async (
+  query: string,
+  signal?: AbortSignal
+): Promise<SearchSuggestion[]> => {
+  const response = await axiosInstance.get('/api/properties/search/suggest', {
+    params: { q: query },
+    signal
+  });
+  return suggestionArraySchema.parse(response.data);
+};
+
 /**
  * Retrieves a single property by ID
  * @param id - Property UUID
@@ -112,6 +197,20 @@ export const getPropertyById = async (id: string): Promise<Property> => {
   return propertyResponseSchema.parse(response.data);
 };
 
+/**
+ * Retrieves the availability calendar of every unit of a property
+ * @param id - Property UUID
+ * @param signal - AbortSignal for request cancellation
+ * @returns Promise resolving to unit calendars in unit number order
+ */
+export const getPropertyAvailability = async (
+  id: string,
+  signal?: AbortSignal
+): Promise<UnitAvailability[]> => {
+  const response = await axiosInstance.get(`/api/properties/${id}/availability`, { signal });
+  return unitAvailabilityArraySchema.parse(response.data);
+};
+
 /**
  * Creates a new property listing
  * @param property - Property creation request
@@ -0,0 +1,106 @@
+// @package axios@1.4.0
+// @package axios-rate-limit@1.3.0
+// @package @types/http-errors@2.0.1
+
+import { AxiosResponse } from 'axios';
+import rateLimit from 'axios-rate-limit';
+import { ApplicationError } from 'http-errors';
+import axiosInstance from '../axios';
+import {
+  CreateSavedSearchRequest,
+  SavedSearch,
+  SavedSearchFrequency
+} from '../../types/property';
+
+// Configure rate limiting for saved search endpoints
+const rateLimitedAxios = rateLimit(axiosInstance, {
+  maxRequests: 100,
+  perMilliseconds: 60000,
+  maxRPS: 10
+});
+
+/**
+ * Saves the current search filters with new-listing alerts
+ * @param request - Name, filters and alert frequency
+ * @returns Promise resolving to the saved search
+ * @throws ApplicationError when the saved search limit is reached or for server errors
+ */
+export const createSavedSearch = async (request: CreateSavedSearchRequest): Promise<SavedSearch> => {
+  try {
+    const response: AxiosResponse<{ data: SavedSearch }> = await rateLimitedAxios.post('/saved-searches', request);
+    return response.data.data;
+  } catch (error) {
+    throw formatSavedSearchError(error, 'Error saving search');
+  }
+};
+
+/**
+ * Retrieves the signed-in renter's saved searches
+ * @returns Promise resolving to saved searches, newest first
+ * @throws ApplicationError for server errors
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const response: AxiosResponse<{ data: SavedSearch[] }> = await rateLimitedAxios.get('/saved-searches');
+    return response.data.data;
+  } catch (error) {
+    throw formatSavedSearchError(error, 'Error retrieving saved searches');
+  }
+};
+
+/**
+ * Renames a saved search or changes its alert frequency
+ * @param id - Saved search ID
+ * @param changes - Fields to change; choosing a frequency resumes alerts after an unsubscribe
+ * @returns Promise resolving to the updated saved search
+ * @throws ApplicationError for server errors
+ */
+export const updateSavedSearch = async (
+  id: string,
+  changes: { name?: string; frequency?: SavedSearchFrequency }
+): Promise<SavedSearch> => {
+  try {
+    const response: AxiosResponse<{ data: SavedSearch }> = await rateLimitedAxios.put(`/saved-searches/${id}`, changes);
+    return response.data.data;
+  } catch (error) {
+    throw formatSavedSearchError(error, 'Error updating saved search');
+  }
+};
+
+/**
+ * Deletes a saved search
+ * @param id - Saved search ID
+ * @throws ApplicationError for server errors
+ */
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  try {
+    await rateLimitedAxios.delete(`/saved-searches/${id}`);
+  } catch (error) {
+    throw formatSavedSearchError(error, 'Error deleting saved search');
+  }
+};
+
+/**
+ * Switches off alerts using the token from an alert email; no sign-in needed
+ * @param token - Unsubscribe token from the email link
+ * @throws ApplicationError for invalid links or server errors
+ */
+export const unsubscribeSavedSearch = async (token: string): Promise<void> => {
+  try {
+    await rateLimitedAxios.post('/saved-searches/unsubscribe', null, { params: { token } });
+  } catch (error) {
+    throw formatSavedSearchError(error, 'Error unsubscribing from alerts');
+  }
+};
+
+/**
+ * Formats API errors with consistent structure
+ * @param error - Original error object
+ * @param message - Default error message
+ * @returns Formatted ApplicationError
+ */
+const formatSavedSearchError = (error: any, message: string): ApplicationError => {
+  const errorMessage = error.response?.data?.message || message;
+  const errorCode = error.response?.status || 500;
+  return new ApplicationError(errorMessage, errorCode);
+};
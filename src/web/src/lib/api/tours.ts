@@ -0,0 +1,124 @@
+// @package axios@1.4.0
+// @package axios-rate-limit@1.3.0
+// @package @types/http-errors@2.0.1
+
+import { AxiosResponse } from 'axios';
+import rateLimit from 'axios-rate-limit';
+import { ApplicationError } from 'http-errors';
+import axiosInstance from '../axios';
+import { BookTourRequest, Tour, TourSlot } from '../../types/tour';
+
+// Configure rate limiting for tour endpoints
+const rateLimitedAxios = rateLimit(axiosInstance, {
+  maxRequests: 100,
+  perMilliseconds: 60000,
+  maxRPS: 10
+});
+
+/**
+ * Retrieves bookable tour slots for a property
+ * @param propertyId - Unique identifier of the property
+ * @param range - Optional start range for the slots
+ * @returns Promise resolving to available slots, soonest first
+ * @throws ApplicationError for server errors
+ */
+export const getTourSlots = async (
+  propertyId: string,
+  range?: { from?: Date; to?: Date }
+): Promise<TourSlot[]> => {
+  try {
+    const response: AxiosResponse<TourSlot[]> = await rateLimitedAxios.get('/tours/slots', {
+      params: {
+        propertyId,
+        from: range?.from?.toISOString(),
+        to: range?.to?.toISOString()
+      }
+    });
+
+    return response.data;
+  } catch (error) {
+    throw formatTourError(error, 'Error retrieving tour availability');
+  }
+};
+
+/**
+ * Books a tour into an availability slot
+ * @param request - Slot, tour type and optional notes
+ * @returns Promise resolving to the booked tour
+ * @throws ApplicationError when the slot is full or overlaps another booking
+ */
+export const bookTour = async (request: BookTourRequest): Promise<Tour> => {
+  try {
+    const response: AxiosResponse<Tour> = await rateLimitedAxios.post('/tours', request, {
+      headers: {
+        'X-Request-Type': 'Tour-Booking'
+      }
+    });
+
+    return response.data;
+  } catch (error) {
+    throw formatTourError(error, 'Error booking tour');
+  }
+};
+
+/**
+ * Retrieves the current user's upcoming tours
+ * @returns Promise resolving to tours, soonest first
+ * @throws ApplicationError for server errors
+ */
+export const getUpcomingTours = async (): Promise<Tour[]> => {
+  try {
+    const response: AxiosResponse<Tour[]> = await rateLimitedAxios.get('/tours');
+
+    return response.data;
+  } catch (error) {
+    throw formatTourError(error, 'Error retrieving tours');
+  }
+};
+
+/**
+ * Cancels a scheduled tour
+ * @param tourId - Unique identifier of the tour
+ * @returns Promise resolving to the cancelled tour
+ * @throws ApplicationError when the tour is no longer scheduled
+ */
+export const cancelTour = async (tourId: string): Promise<Tour> => {
+  try {
+    const response: AxiosResponse<Tour> = await rateLimitedAxios.post(`/tours/${tourId}/cancel`);
+
+    return response.data;
+  } catch (error) {
+    throw formatTourError(error, 'Error cancelling tour');
+  }
+};
+
+/**
+ * Downloads the calendar invite for a tour
+ * @param tourId - Unique identifier of the tour
+ * @returns Promise resolving to the .ics file
+ * @throws ApplicationError for not found or server errors
+ */
+export const downloadTourInvite = async (tourId: string): Promise<Blob> => {
+  try {
+    const response: AxiosResponse<Blob> = await rateLimitedAxios.get(
+      `/tours/${tourId}/calendar`,
+      { responseType: 'blob' }
+    );
+
+    return response.data;
+  } catch (error) {
+    throw formatTourError(error, 'Error downloading calendar invite');
+  }
+};
+
+/**
+ * Formats API errors with consistent structure
+ * @param error - Original error object
+ * @param message - Default error message
+ * @returns Formatted ApplicationError
+ */
+const formatTourError = (error: any, message: string): ApplicationError => {
+  const errorMessage = error.response?.data?.message || message;
+  const errorCode = error.response?.status || 500;
+  return new ApplicationError(errorMessage, errorCode);
+};
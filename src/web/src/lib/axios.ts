@@ -7,9 +7,18 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/a
 const MAX_RETRIES = 3;
 const REQUEST_TIMEOUT = 30000;
 
-// Token refresh state management
-let isRefreshing = false;
-let refreshSubscribers: ((token: string) => void)[] = [];
+declare module 'axios' {
+  interface InternalAxiosRequestConfig {
+    /** Network retries made so far */
+    _retry?: number;
+    /** Set once the request has been replayed with refreshed tokens */
+    _authRetry?: boolean;
+  }
+}
+
+// Refresh shared by every request that needs one. Refresh tokens rotate, so a
+// second concurrent refresh would replay a used token and end the session.
+let refreshPromise: Promise<AuthTokens> | null = null;
 
 /**
  * Creates and configures a custom Axios instance with enterprise-grade features
@@ -71,19 +80,9 @@ const handleAuthToken = async (config: AxiosRequestConfig): Promise<AxiosRequest
     }
 
     if (isTokenExpired(tokens.accessToken)) {
-      if (!isRefreshing) {
-        isRefreshing = true;
-        const newTokens = await refreshAuthTokens(tokens.refreshToken);
-        isRefreshing = false;
-        onTokenRefreshed(newTokens.accessToken);
-      }
-
-      return new Promise((resolve) => {
-        refreshSubscribers.push((token: string) => {
-          config.headers!.Authorization = `Bearer ${token}`;
-          resolve(config);
-        });
-      });
+      const newTokens = await refreshTokensOnce();
+      config.headers.Authorization = `Bearer ${newTokens.accessToken}`;
+      return config;
     }
 
     config.headers.Authorization = `Bearer ${tokens.accessToken}`;
@@ -102,30 +101,18 @@ const handleAuthToken = async (config: AxiosRequestConfig): Promise<AxiosRequest
 const handleApiError = async (error: AxiosError): Promise<never> => {
   const originalRequest = error.config;
   
-  // Handle 401 Unauthorized
-  if (error.response?.status === 401 && originalRequest) {
-    if (!isRefreshing) {
-      try {
-        const tokens = getStoredTokens();
-        if (tokens) {
-          isRefreshing = true;
-          const newTokens = await refreshAuthTokens(tokens.refreshToken);
-          isRefreshing = false;
-          onTokenRefreshed(newTokens.accessToken);
-          return axiosInstance(originalRequest);
-        }
-      } catch (refreshError) {
-        clearTokens();
-        window.location.href = '/auth/login';
-      }
+  // Handle 401 Unauthorized, retrying once with refreshed tokens
+  if (error.response?.status === 401 && originalRequest && !originalRequest._authRetry && getStoredTokens()) {
+    originalRequest._authRetry = true;
+    try {
+      const newTokens = await refreshTokensOnce();
+      originalRequest.headers.Authorization = `Bearer ${newTokens.accessToken}`;
+      return axiosInstance(originalRequest);
+    } catch (refreshError) {
+      clearTokens();
+      window.location.href = '/auth/login';
+      return Promise.reject(formatError(error));
     }
-    
-    return new Promise((resolve) => {
-      refreshSubscribers.push((token: string) => {
-        originalRequest.headers.Authorization = `Bearer ${token}`;
-        resolve(axiosInstance(originalRequest));
-      });
-    });
   }
 
   // Handle rate limiting
@@ -202,19 +189,51 @@ const clearTokens = (): void => {
  * @returns Promise with new AuthTokens
  */
 const refreshAuthTokens = async (refreshToken: string): Promise<AuthTokens> => {
-  const response = await axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+  const response = await axios.post(
+    `${API_BASE_URL}/auth/refresh`,
+    { refreshToken },
+    { withCredentials: true }
+  );
   const newTokens: AuthTokens = response.data;
   localStorage.setItem('auth_tokens', JSON.stringify(newTokens));
   return newTokens;
 };
 
 /**
- * Notifies subscribers of token refresh
- * @param token - New access token
+ * Refreshes tokens, joining the refresh already in flight if there is one
+ * @returns Promise with new AuthTokens
+ */
+const refreshTokensOnce = (): Promise<AuthTokens> => {
+  if (!refreshPromise) {
+    const tokens = getStoredTokens();
+    refreshPromise = (tokens
+      ? refreshAuthTokens(tokens.refreshToken)
+      : Promise.reject(new Error('Not signed in'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+/**
+ * Replaces the stored tokens with fresh ones, so claims that changed during
+ * the session take effect before the access token expires
+ * @returns Promise<void>
+ */
+export const refreshSession = async (): Promise<void> => {
+  await refreshTokensOnce();
+};
+
+/**
+ * Authorization header for requests made outside Axios, such as streams
+ * read with fetch, refreshing the access token first when it has expired
+ * @returns Header value, or undefined when signed out
  */
-const onTokenRefreshed = (token: string): void => {
-  refreshSubscribers.forEach((callback) => callback(token));
-  refreshSubscribers = [];
+export const getAuthorizationHeader = async (): Promise<string | undefined> => {
+  const config = await handleAuthToken({ headers: {} });
+  return config.headers?.Authorization as string | undefined;
 };
 
 // Create and export the configured Axios instance
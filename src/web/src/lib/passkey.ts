@@ -0,0 +1,31 @@
+import { browserSupportsWebAuthn, startRegistration } from '@simplewebauthn/browser'; // @simplewebauthn/browser@9.0.1
+import { getPasskeyRegistrationOptions, registerPasskey } from './api/auth';
+import { Passkey } from '../types/auth';
+
+/**
+ * Whether this browser can create and use passkeys
+ */
+export const isPasskeySupported = (): boolean =>
+  typeof window !== 'undefined' && browserSupportsWebAuthn();
+
+/**
+ * Creates a passkey on this device and registers it with the account
+ * @param name - Optional label, e.g. "Work laptop"
+ * @returns Promise with the registered passkey
+ */
+export const createPasskey = async (name?: string): Promise<Passkey> => {
+  const options = await getPasskeyRegistrationOptions();
+
+  let response;
+  try {
+    response = await startRegistration(options);
+  } catch (error) {
+    // Thrown when the prompt is dismissed or a passkey already exists here
+    if (error instanceof Error && error.name === 'InvalidStateError') {
+      throw new Error('This device already has a passkey for your account');
+    }
+    throw new Error('Passkey creation was cancelled');
+  }
+
+  return registerPasskey(response, name);
+};
@@ -0,0 +1,121 @@
+import {
+  getPushPublicKey,
+  registerPushDevice,
+  removePushDevice
+} from './api/notifications';
+import { PushDevice } from '../types/notification';
+
+// Service worker in /public handling push and notification clicks
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Whether this browser can receive Web Push notifications
+ */
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined'
+  && 'serviceWorker' in navigator
+  && 'PushManager' in window
+  && 'Notification' in window;
+
+/**
+ * Registers the push service worker, reusing an existing registration
+ * @returns Promise with the active registration
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration> => {
+  const existing = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  if (existing) {
+    return existing;
+  }
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  return navigator.serviceWorker.ready;
+};
+
+/**
+ * Retrieves this browser's current push subscription, if any
+ */
+export const getCurrentSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) {
+    return null;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Asks for permission, subscribes this browser and registers it with the
+ * notification service
+ * @param deviceName - Optional label shown in the device list
+ * @returns Promise with the registered device
+ * @throws Error when push is unsupported or permission is denied
+ */
+export const subscribeToPush = async (deviceName?: string): Promise<PushDevice> => {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await registerServiceWorker();
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await getPushPublicKey())
+    });
+
+  return registerPushDevice(subscription, deviceName);
+};
+
+/**
+ * Stops push notifications to a device. Removing this browser's own device
+ * also unsubscribes it locally.
+ * @param device - Device to remove
+ */
+export const unsubscribeDevice = async (device: PushDevice): Promise<void> => {
+  await removePushDevice(device.id);
+
+  const current = await getCurrentSubscription();
+  if (current?.endpoint === device.endpoint) {
+    await current.unsubscribe();
+  }
+};
+
+/**
+ * Re-registers the subscription whenever the service worker reports the
+ * browser rotated it
+ * @returns Cleanup function removing the listener
+ */
+export const watchSubscriptionChanges = (): (() => void) => {
+  if (!isPushSupported()) {
+    return () => undefined;
+  }
+
+  const handleMessage = async (event: MessageEvent) => {
+    if (event.data?.type !== 'push:subscriptionchange' || Notification.permission !== 'granted') {
+      return;
+    }
+
+    try {
+      await subscribeToPush();
+    } catch (error) {
+      console.error('Error renewing push subscription:', error);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
+
+/**
+ * Decodes a base64url VAPID key into the bytes `PushManager.subscribe` expects
+ */
+export const urlBase64ToUint8Array = (base64Url: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
@@ -15,6 +15,7 @@ import storage from 'redux-persist/lib/storage';
 import authReducer from './slices/authSlice';
 import propertyReducer from './slices/propertySlice';
 import applicationReducer from './slices/applicationSlice';
+import notificationReducer from './slices/notificationSlice';
 
 // Encryption configuration
 const ENCRYPTION_KEY = process.env.REACT_APP_STATE_ENCRYPTION_KEY!;
@@ -61,7 +62,8 @@ const persistConfig = {
 const rootReducer = combineReducers({
   auth: authReducer,
   property: propertyReducer,
-  application: applicationReducer
+  application: applicationReducer,
+  notifications: notificationReducer
 });
 
 // Create persisted reducer
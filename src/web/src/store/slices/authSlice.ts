@@ -1,12 +1,14 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { Auth0Client } from '@auth0/auth0-spa-js';
 import { AES, enc } from 'crypto-js';
+import { startAuthentication } from '@simplewebauthn/browser'; // @version @simplewebauthn/browser@9.0.1
 import { 
   User, 
   AuthResponse, 
   LoginRequest, 
   AuthTokens, 
   UserRole,
+  UserStatus,
   MFARequest 
 } from '../../types/auth';
 
@@ -129,6 +131,55 @@ export const verifyMFAThunk = createAsyncThunk(
   }
 );
 
+export const loginWithPasskeyThunk = createAsyncThunk(
+  'auth/loginWithPasskey',
+  async (_, { rejectWithValue }) => {
+    try {
+      const optionsResponse = await fetch('/api/auth/login/passkey/options', {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!optionsResponse.ok) {
+        throw new Error('Passkey sign-in is unavailable');
+      }
+
+      const { data: options } = await optionsResponse.json();
+
+      // Lets the user pick any passkey saved for this site
+      let assertion;
+      try {
+        assertion = await startAuthentication(options);
+      } catch (error) {
+        throw new Error('Passkey sign-in was cancelled');
+      }
+
+      const response = await fetch('/api/auth/login/passkey', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ response: assertion })
+      });
+
+      if (!response.ok) {
+        throw new Error('Passkey sign-in failed');
+      }
+
+      const authResponse: AuthResponse = await response.json();
+
+      // Secure token storage
+      secureTokenStorage.store(authResponse.tokens);
+
+      // Initialize token refresh cycle
+      initializeTokenRefresh(authResponse.tokens.expiresIn);
+
+      return authResponse;
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 export const refreshTokenThunk = createAsyncThunk(
   'auth/refreshToken',
   async (_, { getState, rejectWithValue }) => {
@@ -182,6 +233,11 @@ export const authSlice = createSlice({
     },
     clearError: (state) => {
       state.error = null;
+    },
+    markEmailVerified: (state) => {
+      if (state.user) {
+        state.user.status = UserStatus.ACTIVE;
+      }
     }
   },
   extraReducers: (builder) => {
@@ -206,6 +262,23 @@ export const authSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       })
+      .addCase(loginWithPasskeyThunk.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loginWithPasskeyThunk.fulfilled, (state, action) => {
+        state.user = action.payload.user;
+        state.tokens = action.payload.tokens;
+        state.isAuthenticated = true;
+        state.mfaRequired = false;
+        state.mfaPending = false;
+        state.sessionExpiry = Date.now() + (action.payload.tokens.expiresIn * 1000);
+        state.isLoading = false;
+      })
+      .addCase(loginWithPasskeyThunk.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
       .addCase(verifyMFAThunk.pending, (state) => {
         state.isLoading = true;
         state.error = null;
@@ -248,6 +321,12 @@ export const selectAuthState = (state: { auth: AuthState }) => ({
 export const selectUserRole = (state: { auth: AuthState }): UserRole | null => 
   state.auth.user?.role || null;
 
-export const { logout, updateLastActivity, setBiometricEnabled, clearError } = authSlice.actions;
+export const {
+  logout,
+  updateLastActivity,
+  setBiometricEnabled,
+  clearError,
+  markEmailVerified
+} = authSlice.actions;
 
 export default authSlice.reducer;
\ No newline at end of file
@@ -100,7 +100,8 @@ const notificationSlice = createSlice({
     },
     markAsRead: (state, action) => {
       const notification = state.items.find(item => item.id === action.payload);
-      if (notification) {
+      // Read state also arrives from other sessions, so this can repeat
+      if (notification && notification.status !== NotificationStatus.READ) {
         notification.status = NotificationStatus.READ;
         notification.readAt = new Date();
         state.unreadCount = Math.max(0, state.unreadCount - 1);
@@ -128,6 +129,9 @@ const notificationSlice = createSlice({
       
       switch (updateType) {
         case 'new':
+          if (state.items.some(item => item.id === notification.id)) {
+            break;
+          }
           state.items.unshift(notification);
           if (notification.status !== NotificationStatus.READ) {
             state.unreadCount++;
@@ -8,10 +8,22 @@ import { JwtPayload } from 'jsonwebtoken';
 export enum UserRole {
   RENTER = 'RENTER',
   PROPERTY_MANAGER = 'PROPERTY_MANAGER',
+  OWNER = 'OWNER',
   AGENT = 'AGENT',
   ADMIN = 'ADMIN'
 }
 
+/**
+ * Enumeration of account statuses
+ * New accounts stay PENDING_VERIFICATION until their email address is confirmed
+ */
+export enum UserStatus {
+  ACTIVE = 'ACTIVE',
+  INACTIVE = 'INACTIVE',
+  SUSPENDED = 'SUSPENDED',
+  PENDING_VERIFICATION = 'PENDING_VERIFICATION'
+}
+
 /**
  * Core user interface defining the user data structure
  * Includes essential fields for user identification and security audit
@@ -22,6 +34,7 @@ export interface User {
   firstName: string;
   lastName: string;
   role: UserRole;
+  status?: UserStatus;
   lastLogin: Date;
 }
 
@@ -101,4 +114,60 @@ export interface PasswordResetRequest {
 export interface PasswordResetConfirm {
   token: string;
   newPassword: string;
-}
\ No newline at end of file
+}
+
+/**
+ * MFA state shown in account settings
+ */
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+/**
+ * Authenticator details for an enrollment awaiting its first code
+ */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+/**
+ * Request to turn off MFA, verified by the password and one second factor
+ */
+export interface MfaDisableRequest {
+  password: string;
+  mfaToken?: string;
+  backupCode?: string;
+}
+
+/**
+ * Passkey registered to the current account
+ */
+export interface Passkey {
+  id: string;
+  name: string | null;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Signed-in session of the current account
+ */
+export interface Session {
+  id: string;
+  deviceInfo: {
+    browser?: string;
+    os?: string;
+    deviceType?: string;
+  };
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  /** Whether this is the session viewing the list */
+  current: boolean;
+}
@@ -0,0 +1,115 @@
+/**
+ * Enumeration of lease statuses
+ * Tracks the lease lifecycle from draft through termination
+ */
+export enum LeaseStatus {
+  DRAFT = 'DRAFT',
+  PENDING_SIGNATURE = 'PENDING_SIGNATURE',
+  ACTIVE = 'ACTIVE',
+  TERMINATED = 'TERMINATED',
+  EXPIRED = 'EXPIRED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Enumeration of lease party roles
+ * Determines the order in which parties sign
+ */
+export enum LeasePartyRole {
+  TENANT = 'TENANT',
+  LANDLORD = 'LANDLORD',
+  PROPERTY_MANAGER = 'PROPERTY_MANAGER'
+}
+
+/**
+ * Enumeration of per-party signature statuses
+ */
+export enum LeaseSignatureStatus {
+  PENDING = 'PENDING',
+  SIGNED = 'SIGNED'
+}
+
+/**
+ * Enumeration of signing audit trail actions
+ */
+export enum LeaseSignatureAction {
+  SIGNATURE_REQUESTED = 'SIGNATURE_REQUESTED',
+  SIGNED = 'SIGNED',
+  COMPLETED = 'COMPLETED'
+}
+
+/**
+ * Lease party interface
+ * Links a user to a lease in a specific role
+ */
+export interface LeaseParty {
+  userId: string;
+  role: LeasePartyRole;
+}
+
+/**
+ * Lease interface
+ * Core lease terms generated from an approved application
+ */
+export interface Lease {
+  id: string;
+  applicationId: string;
+  propertyId: string;
+  unitId: string;
+  status: LeaseStatus;
+  startDate: Date;
+  endDate: Date;
+  monthlyRent: number;
+  securityDeposit: number;
+  petDeposit: number | null;
+  parties: LeaseParty[];
+  contentHash: string | null;
+  activatedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Lease signature interface
+ * Tracks a single party's signature with signer metadata
+ */
+export interface LeaseSignature {
+  id: string;
+  leaseId: string;
+  userId: string;
+  role: LeasePartyRole;
+  signingOrder: number;
+  status: LeaseSignatureStatus;
+  signatureImage: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  signedAt: Date | null;
+}
+
+/**
+ * Lease signature audit event interface
+ * Each event is hash-chained to the previous one
+ */
+export interface LeaseSignatureEvent {
+  userId: string;
+  action: LeaseSignatureAction;
+  timestamp: Date;
+  ipAddress: string;
+  userAgent: string;
+  signatureHash: string | null;
+  contentHash: string | null;
+  previousHash: string | null;
+  eventHash: string;
+}
+
+/**
+ * Lease signing status interface
+ * Aggregates signatures, audit trail and the parties expected to sign next
+ */
+export interface LeaseSigningStatus {
+  lease: Lease;
+  signatures: LeaseSignature[];
+  events: LeaseSignatureEvent[];
+  awaitingUserIds: string[];
+  auditTrailValid: boolean;
+}
@@ -126,4 +126,26 @@ export interface NotificationFilter {
     field: string;
     order: 'asc' | 'desc';
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Browser or device registered for push notifications
+ */
+export interface PushDevice {
+  id: string;
+  endpoint: string;
+  deviceName?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Event received over the real-time notification stream. `reset` means events
+ * were missed and the feed should be reloaded.
+ */
+export type NotificationStreamEvent =
+  | { id: string; type: 'notification'; notification: Notification }
+  | { id: string; type: 'read'; notificationId: string; readAt: string }
+  | { id: string; type: 'read-all'; readAt: string }
+  | { id?: string; type: 'reset' };
@@ -0,0 +1,47 @@
+/**
+ * Money in and out of an owner's properties over a period
+ */
+export interface OwnerFinancials {
+  rentCollected: number;
+  refunds: number;
+  fees: number;
+  maintenanceSpend: number;
+  net: number;
+}
+
+/**
+ * Occupancy of an owner's units
+ */
+export interface OwnerOccupancy {
+  totalUnits: number;
+  occupiedUnits: number;
+  occupancyRate: number;
+}
+
+/**
+ * Property row on the owner dashboard
+ */
+export interface OwnerPropertySummary extends OwnerFinancials, OwnerOccupancy {
+  propertyId: string;
+  name: string;
+}
+
+/**
+ * Read-only owner portfolio overview
+ */
+export interface OwnerDashboard {
+  ownerId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  properties: OwnerPropertySummary[];
+  occupancy: OwnerOccupancy;
+  totals: OwnerFinancials;
+}
+
+/**
+ * Downloadable statement formats
+ */
+export enum OwnerStatementFormat {
+  PDF = 'pdf',
+  CSV = 'csv'
+}
@@ -98,6 +98,43 @@ export interface Unit {
   lastUpdated: Date;
 }
 
+/**
+ * Reasons a unit can't be moved into on a day
+ */
+export enum UnavailabilityReason {
+  LEASE = 'LEASE',
+  TURNOVER = 'TURNOVER',
+  APPLICATION_HOLD = 'APPLICATION_HOLD',
+  MAINTENANCE = 'MAINTENANCE',
+  OWNER_HOLD = 'OWNER_HOLD'
+}
+
+/**
+ * Period a unit can be moved into; dates are `YYYY-MM-DD` and a null bound is open
+ */
+export interface AvailabilityWindow {
+  from: string | null;
+  until: string | null;
+}
+
+/**
+ * Availability calendar of one unit
+ */
+export interface UnitAvailability {
+  unitId: string;
+  unitNumber: string;
+  turnoverDays: number;
+  /** First day from today the unit can be moved into, null when fully booked */
+  nextAvailableDate: string | null;
+  windows: AvailabilityWindow[];
+  blocks: {
+    reason: UnavailabilityReason;
+    startsOn: string;
+    endsOn: string | null;
+    sourceId: string;
+  }[];
+}
+
 /**
  * Comprehensive property interface
  * Core data structure for rental properties with complete tracking
@@ -120,11 +157,51 @@ export interface Property {
   updatedAt: Date;
 }
 
+/**
+ * Enumeration of travel modes for commute-time search
+ */
+export enum TravelMode {
+  DRIVING = 'DRIVING',
+  TRANSIT = 'TRANSIT',
+  CYCLING = 'CYCLING',
+  WALKING = 'WALKING'
+}
+
+/**
+ * Map point used for drawn search areas
+ */
+export interface MapPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Enumeration of search suggestion kinds
+ */
+export enum SuggestionType {
+  NEIGHBORHOOD = 'NEIGHBORHOOD',
+  CITY = 'CITY',
+  PROPERTY = 'PROPERTY',
+  AMENITY = 'AMENITY'
+}
+
+/**
+ * Typeahead suggestion for the property search box
+ */
+export interface SearchSuggestion {
+  type: SuggestionType;
+  value: string;
+  propertyId?: string;
+  city?: string;
+  listingCount: number;
+}
+
 /**
  * Property search filters interface
  * Supports advanced property search functionality
  */
 export interface PropertySearchFilters {
+  query?: string;
   type?: PropertyType;
   minPrice?: number;
   maxPrice?: number;
@@ -133,12 +210,22 @@ export interface PropertySearchFilters {
   minSquareFeet?: number;
   maxSquareFeet?: number;
   amenities?: string[];
-  availableFrom?: Date;
+  /** First acceptable move-in day, `YYYY-MM-DD` */
+  moveInFrom?: string;
+  /** Last acceptable move-in day, `YYYY-MM-DD` */
+  moveInTo?: string;
   location?: {
     latitude: number;
     longitude: number;
     radiusInMiles: number;
   };
+  /** Area drawn on the map; replaces the location radius when set */
+  polygon?: MapPoint[];
+  /** Travel time from the location; replaces its radius when set */
+  commute?: {
+    maxMinutes: number;
+    mode: TravelMode;
+  };
 }
 
 /**
@@ -164,4 +251,54 @@ export interface UpdatePropertyRequest extends Partial<Omit<Property, 'id' | 'cr
 export interface UpdateUnitRequest extends Partial<Omit<Unit, 'id' | 'propertyId' | 'lastUpdated'>> {
   id: string;
   propertyId: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Saved search alert frequency
+ */
+export enum SavedSearchFrequency {
+  INSTANT = 'INSTANT',
+  DAILY = 'DAILY'
+}
+
+/**
+ * Search filters stored with a saved search, in the listing search API's format
+ */
+export interface SavedSearchCriteria {
+  query?: string;
+  propertyTypes?: PropertyType[];
+  priceRange?: { min?: number; max?: number };
+  bedrooms?: number;
+  bathrooms?: number;
+  amenities?: string[];
+  moveInFrom?: string;
+  moveInTo?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  unit?: 'km' | 'mi';
+}
+
+/**
+ * Renter's saved search with new-listing alerts
+ */
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency: SavedSearchFrequency;
+  unsubscribedAt: Date | null;
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Saved search creation request
+ */
+export interface CreateSavedSearchRequest {
+  name: string;
+  criteria: SavedSearchCriteria;
+  frequency: SavedSearchFrequency;
+}
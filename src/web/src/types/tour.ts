@@ -0,0 +1,60 @@
+/**
+ * Enumeration of tour types
+ * Determines whether staff accompany the renter
+ */
+export enum TourType {
+  IN_PERSON = 'IN_PERSON',
+  SELF_GUIDED = 'SELF_GUIDED'
+}
+
+/**
+ * Enumeration of tour statuses
+ */
+export enum TourStatus {
+  SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED',
+  COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW'
+}
+
+/**
+ * Tour availability slot interface
+ * Published by property staff for renters to book
+ */
+export interface TourSlot {
+  id: string;
+  propertyId: string;
+  unitId: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  tourTypes: TourType[];
+  capacity: number;
+  bookedCount: number;
+}
+
+/**
+ * Tour interface
+ * A renter's booking against an availability slot
+ */
+export interface Tour {
+  id: string;
+  slotId: string;
+  propertyId: string;
+  unitId: string | null;
+  renterId: string;
+  type: TourType;
+  status: TourStatus;
+  startsAt: Date;
+  endsAt: Date;
+  notes: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Tour booking request interface
+ */
+export interface BookTourRequest {
+  slotId: string;
+  type: TourType;
+  notes?: string;
+}